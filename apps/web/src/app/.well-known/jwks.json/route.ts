@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { SigningKeyService } from '../../../lib/services/signing-key.service';
+import { SIGNING_KEY_CONFIG } from '../../../lib/auth/constants';
+
+// The keyring changes at runtime, so this must never be rendered at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * Publish the public access token signing keys (RFC 7517)
+ * Used by the Edge route middleware and by other services that accept our access tokens.
+ * Includes retired keys until every token they signed has expired
+ */
+export async function GET() {
+  try {
+    const jwks = await SigningKeyService.getPublicJWKS();
+
+    return NextResponse.json(jwks, {
+      headers: {
+        'Cache-Control': `public, max-age=${SIGNING_KEY_CONFIG.JWKS_MAX_AGE_SECONDS}`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to publish JWKS:', error);
+    return NextResponse.json(
+      { error: 'Signing keys are temporarily unavailable' },
+      { status: 503, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
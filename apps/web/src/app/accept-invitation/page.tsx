@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Form, Input, Button, Card, Typography, Space, Alert, Row, Col, Spin } from 'antd';
+import { LockOutlined, MailOutlined } from '@ant-design/icons';
+import { trpc } from '../../lib/trpc/client';
+
+const { Title, Text } = Typography;
+
+interface AcceptInvitationFormValues {
+  password: string;
+  confirmPassword: string;
+}
+
+export default function AcceptInvitationPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [error, setError] = useState<string>('');
+  const [isAccepted, setIsAccepted] = useState(false);
+
+  const invitationQuery = trpc.auth.getInvitation.useQuery(
+    { token },
+    { enabled: !!token, retry: false }
+  );
+
+  const acceptInvitationMutation = trpc.auth.acceptInvitation.useMutation({
+    onSuccess: () => {
+      setIsAccepted(true);
+    },
+    onError: (error) => {
+      setError(error.message || '啟用帳號失敗，請稍後再試');
+    },
+  });
+
+  const handleSubmit = (values: AcceptInvitationFormValues) => {
+    setError('');
+
+    if (values.password !== values.confirmPassword) {
+      setError('密碼確認不一致');
+      return;
+    }
+
+    acceptInvitationMutation.mutate({
+      token,
+      password: values.password,
+    });
+  };
+
+  const isInvalid = !token || invitationQuery.isError;
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '24px'
+    }}>
+      <Row justify="center" style={{ width: '100%', maxWidth: '400px' }}>
+        <Col span={24}>
+          <Card
+            style={{
+              boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+              borderRadius: '8px',
+            }}
+          >
+            <Space direction="vertical" size="large" style={{ width: '100%', textAlign: 'center' }}>
+              <div>
+                <Title level={2} style={{ marginBottom: '8px', color: '#1677ff' }}>
+                  接受邀請
+                </Title>
+                <Text type="secondary">
+                  設定密碼以啟用您的帳號
+                </Text>
+              </div>
+
+              {isInvalid && (
+                <Alert message="邀請連結無效或已過期，請聯絡管理員重新寄送。" type="error" showIcon />
+              )}
+
+              {error && (
+                <Alert message={error} type="error" showIcon />
+              )}
+
+              {invitationQuery.isLoading && <Spin />}
+
+              {isAccepted ? (
+                <Alert
+                  message="帳號已啟用，請使用新密碼登入。"
+                  type="success"
+                  showIcon
+                />
+              ) : invitationQuery.data && (
+                <Form
+                  name="accept-invitation"
+                  onFinish={handleSubmit}
+                  layout="vertical"
+                  size="large"
+                  autoComplete="off"
+                >
+                  <Form.Item label="電子郵件">
+                    <Input
+                      prefix={<MailOutlined />}
+                      value={invitationQuery.data.email}
+                      disabled
+                    />
+                  </Form.Item>
+
+                  <Form.Item
+                    name="password"
+                    label="密碼"
+                    rules={[
+                      { required: true, message: '請輸入密碼！' },
+                      { min: 8, message: '密碼至少需要8個字元！' },
+                    ]}
+                  >
+                    <Input.Password
+                      prefix={<LockOutlined />}
+                      placeholder="請輸入密碼"
+                      autoComplete="new-password"
+                    />
+                  </Form.Item>
+
+                  <Form.Item
+                    name="confirmPassword"
+                    label="確認密碼"
+                    dependencies={['password']}
+                    rules={[
+                      { required: true, message: '請確認密碼！' },
+                      ({ getFieldValue }) => ({
+                        validator(_, value) {
+                          if (!value || getFieldValue('password') === value) {
+                            return Promise.resolve();
+                          }
+                          return Promise.reject(new Error('密碼確認不一致！'));
+                        },
+                      }),
+                    ]}
+                  >
+                    <Input.Password
+                      prefix={<LockOutlined />}
+                      placeholder="請再次輸入密碼"
+                      autoComplete="new-password"
+                    />
+                  </Form.Item>
+
+                  <Form.Item style={{ marginBottom: '16px' }}>
+                    <Button
+                      type="primary"
+                      htmlType="submit"
+                      loading={acceptInvitationMutation.isPending}
+                      style={{ width: '100%', height: '48px' }}
+                    >
+                      啟用帳號
+                    </Button>
+                  </Form.Item>
+                </Form>
+              )}
+
+              <div style={{ textAlign: 'center' }}>
+                <Button type="link" onClick={() => router.push('/login')}>
+                  前往登入
+                </Button>
+              </div>
+            </Space>
+          </Card>
+        </Col>
+      </Row>
+    </div>
+  );
+}
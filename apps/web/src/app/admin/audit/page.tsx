@@ -0,0 +1,297 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Space,
+  Table,
+  Input,
+  Select,
+  DatePicker,
+  Tag,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { ArrowLeftOutlined, DownloadOutlined, UserOutlined } from '@ant-design/icons';
+import { useAuth } from '../../../contexts/auth-context';
+import { trpc } from '../../../lib/trpc/client';
+import { ROLES } from '../../../lib/auth/permissions';
+import { AUDIT_ACTIONS, type AuditAction } from '../../../lib/auth/constants';
+
+const { Header, Content } = Layout;
+const { Title, Text } = Typography;
+
+const PAGE_SIZE = 50;
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  [AUDIT_ACTIONS.REGISTER]: '註冊',
+  [AUDIT_ACTIONS.INVITATION_ACCEPTED]: '接受邀請',
+  [AUDIT_ACTIONS.LOGIN_SUCCEEDED]: '登入成功',
+  [AUDIT_ACTIONS.LOGIN_FAILED]: '登入失敗',
+  [AUDIT_ACTIONS.LOGOUT]: '登出',
+  [AUDIT_ACTIONS.LOGOUT_ALL]: '登出所有裝置',
+  [AUDIT_ACTIONS.SESSION_REVOKED]: '登出其他裝置',
+  [AUDIT_ACTIONS.PASSWORD_RESET_REQUESTED]: '申請重設密碼',
+  [AUDIT_ACTIONS.PASSWORD_RESET_COMPLETED]: '完成重設密碼',
+  [AUDIT_ACTIONS.EMAIL_VERIFIED]: '驗證電子郵件',
+  [AUDIT_ACTIONS.ACCESS_DENIED]: '拒絕存取',
+  [AUDIT_ACTIONS.EMAIL_CHANGE_REQUESTED]: '要求變更電子郵件',
+  [AUDIT_ACTIONS.EMAIL_CHANGED]: '變更電子郵件',
+  [AUDIT_ACTIONS.PROFILE_UPDATED]: '更新個人資料',
+  [AUDIT_ACTIONS.PASSWORD_CHANGED]: '變更密碼',
+  [AUDIT_ACTIONS.PASSWORD_EXPIRED]: '密碼已過期',
+  [AUDIT_ACTIONS.ACCOUNT_DELETED]: '刪除帳號',
+  [AUDIT_ACTIONS.ACCOUNT_PURGED]: '永久移除帳號',
+  [AUDIT_ACTIONS.DATA_EXPORTED]: '匯出個人資料',
+  [AUDIT_ACTIONS.API_KEY_CREATED]: '建立 API 金鑰',
+  [AUDIT_ACTIONS.API_KEY_REVOKED]: '撤銷 API 金鑰',
+  [AUDIT_ACTIONS.DATASET_CREATED]: '建立資料集',
+  [AUDIT_ACTIONS.DATASET_RENAMED]: '重新命名資料集',
+  [AUDIT_ACTIONS.DATASET_DELETED]: '刪除資料集',
+  [AUDIT_ACTIONS.FILE_UPLOADED]: '上傳檔案',
+  [AUDIT_ACTIONS.MFA_ENABLED]: '啟用兩步驟驗證',
+  [AUDIT_ACTIONS.MFA_DISABLED]: '停用兩步驟驗證',
+  [AUDIT_ACTIONS.MFA_RECOVERY_CODES_REGENERATED]: '重新產生復原碼',
+  [AUDIT_ACTIONS.ADMIN_USER_CREATED]: '管理員建立使用者',
+  [AUDIT_ACTIONS.ADMIN_USER_INVITED]: '管理員邀請使用者',
+  [AUDIT_ACTIONS.ADMIN_USER_STATUS_CHANGED]: '管理員變更帳號狀態',
+  [AUDIT_ACTIONS.ADMIN_USER_ROLE_CHANGED]: '管理員變更角色',
+  [AUDIT_ACTIONS.ADMIN_USER_PASSWORD_RESET]: '管理員重設密碼',
+  [AUDIT_ACTIONS.ADMIN_USER_RESTORED]: '管理員復原帳號',
+  [AUDIT_ACTIONS.AUDIT_EXPORTED]: '匯出稽核紀錄',
+  [AUDIT_ACTIONS.ADMIN_SIGNING_KEY_ROTATED]: '輪替簽章金鑰',
+  [AUDIT_ACTIONS.ADMIN_IMPERSONATION_STARTED]: '管理員開始代理使用者',
+  [AUDIT_ACTIONS.ADMIN_IMPERSONATION_ENDED]: '管理員結束代理使用者',
+  [AUDIT_ACTIONS.ADMIN_ORGANIZATION_CREATED]: '管理員建立組織',
+  [AUDIT_ACTIONS.ADMIN_DEPARTMENT_CREATED]: '管理員建立部門',
+  [AUDIT_ACTIONS.ADMIN_USER_DEPARTMENTS_CHANGED]: '管理員變更部門',
+  [AUDIT_ACTIONS.SSO_USER_PROVISIONED]: '單一登入建立帳號',
+  [AUDIT_ACTIONS.SSO_IDENTITY_LINKED]: '連結單一登入身分',
+};
+
+const ACTION_OPTIONS = Object.values(AUDIT_ACTIONS).map((action) => ({
+  value: action,
+  label: AUDIT_ACTION_LABELS[action],
+}));
+
+const FAILURE_ACTIONS: string[] = [AUDIT_ACTIONS.LOGIN_FAILED, AUDIT_ACTIONS.ACCESS_DENIED];
+
+interface AuditEventRow {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown> | null;
+  impersonatorId: string | null;
+  createdAt: Date;
+}
+
+interface AuditFilter {
+  actor?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Hand the CSV to the browser as a file download
+ */
+function downloadCsv(filename: string, csv: string) {
+  // Byte order mark so Excel opens the UTF-8 file with the right encoding
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function AdminAuditPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [page, setPage] = useState(1);
+  const [filter, setFilter] = useState<AuditFilter>({});
+
+  const isAdmin = user?.role === ROLES.ADMIN;
+
+  // The middleware already redirects non-admins; this covers stale client state
+  React.useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login?redirect=/admin/audit');
+    } else if (!isLoading && user && !isAdmin) {
+      router.push('/dashboard?reason=admin-required');
+    }
+  }, [isAuthenticated, isLoading, isAdmin, user, router]);
+
+  const eventsQuery = trpc.audit.list.useQuery(
+    { page, pageSize: PAGE_SIZE, filter },
+    { enabled: isAuthenticated && isAdmin }
+  );
+
+  const exportMutation = trpc.audit.exportCsv.useMutation({
+    onSuccess: (data) => {
+      downloadCsv(data.filename, data.csv);
+      if (data.truncated) {
+        message.warning('符合條件的紀錄過多，僅匯出最新的部分，請縮小日期範圍後再匯出其餘紀錄。');
+      }
+    },
+    onError: (error) => {
+      message.error(error.message || '匯出失敗，請稍後再試');
+    },
+  });
+
+  const updateFilter = (changes: AuditFilter) => {
+    setFilter((current) => ({ ...current, ...changes }));
+    setPage(1);
+  };
+
+  const columns: ColumnsType<AuditEventRow> = [
+    {
+      title: '時間',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 180,
+      render: (createdAt: Date) => new Date(createdAt).toLocaleString('zh-TW'),
+    },
+    {
+      title: '事件',
+      dataIndex: 'action',
+      key: 'action',
+      width: 180,
+      render: (action: string) => (
+        <Tag color={FAILURE_ACTIONS.includes(action) ? 'red' : undefined}>
+          {AUDIT_ACTION_LABELS[action as AuditAction] ?? action}
+        </Tag>
+      ),
+    },
+    {
+      title: '操作者',
+      dataIndex: 'actorEmail',
+      key: 'actorEmail',
+      render: (actorEmail: string | null, record) => (
+        <Space size={4}>
+          {actorEmail ?? <Text type="secondary">匿名</Text>}
+          {record.impersonatorId && (
+            <Tag color="orange" title={`代理者：${record.impersonatorId}`}>管理員代理</Tag>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: '對象',
+      key: 'target',
+      render: (_, record) => (
+        record.targetType ? <Text code>{`${record.targetType}:${record.targetId}`}</Text> : null
+      ),
+    },
+    {
+      title: 'IP',
+      dataIndex: 'ipAddress',
+      key: 'ipAddress',
+      width: 140,
+    },
+    {
+      title: '詳細資料',
+      dataIndex: 'metadata',
+      key: 'metadata',
+      render: (metadata: Record<string, unknown> | null, record) => (
+        <Text type="secondary" title={record.userAgent ?? undefined}>
+          {metadata ? JSON.stringify(metadata) : ''}
+        </Text>
+      ),
+    },
+  ];
+
+  if (isLoading || !isAuthenticated || !user || !isAdmin) {
+    return null; // Will redirect
+  }
+
+  return (
+    <Layout style={{ minHeight: '100vh' }}>
+      <Header style={{
+        background: '#fff',
+        padding: '0 24px',
+        borderBottom: '1px solid #f0f0f0',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <Space>
+          <Button type="text" icon={<ArrowLeftOutlined />} onClick={() => router.push('/dashboard')} />
+          <Title level={3} style={{ margin: 0, color: '#1677ff' }}>
+            稽核紀錄
+          </Title>
+        </Space>
+        <Text>
+          <UserOutlined /> {user.email}
+        </Text>
+      </Header>
+
+      <Content style={{ padding: '24px', background: '#f5f5f5' }}>
+        <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+          <Card>
+            <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+              <Space wrap style={{ width: '100%', justifyContent: 'space-between' }}>
+                <Space wrap>
+                  <Input.Search
+                    placeholder="操作者電子郵件或 ID"
+                    allowClear
+                    style={{ width: 260 }}
+                    onSearch={(value) => updateFilter({ actor: value.trim() || undefined })}
+                  />
+                  <Select
+                    placeholder="事件"
+                    allowClear
+                    showSearch
+                    optionFilterProp="label"
+                    style={{ width: 200 }}
+                    options={ACTION_OPTIONS}
+                    value={filter.action}
+                    onChange={(value?: AuditAction) => updateFilter({ action: value })}
+                  />
+                  <DatePicker.RangePicker
+                    showTime
+                    onChange={(dates) => updateFilter({
+                      from: dates?.[0]?.toDate(),
+                      to: dates?.[1]?.toDate(),
+                    })}
+                  />
+                </Space>
+                <Button
+                  icon={<DownloadOutlined />}
+                  loading={exportMutation.isPending}
+                  onClick={() => exportMutation.mutate(filter)}
+                >
+                  匯出 CSV
+                </Button>
+              </Space>
+
+              <Table<AuditEventRow>
+                rowKey="id"
+                columns={columns}
+                dataSource={eventsQuery.data?.events ?? []}
+                loading={eventsQuery.isLoading}
+                pagination={{
+                  current: page,
+                  pageSize: PAGE_SIZE,
+                  total: eventsQuery.data?.total ?? 0,
+                  showSizeChanger: false,
+                  onChange: setPage,
+                }}
+              />
+            </Space>
+          </Card>
+        </div>
+      </Content>
+    </Layout>
+  );
+}
@@ -0,0 +1,469 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Space,
+  Table,
+  Input,
+  Select,
+  Tag,
+  Modal,
+  Form,
+  Popconfirm,
+  Alert,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { ArrowLeftOutlined, MailOutlined, PlusOutlined, UserOutlined } from '@ant-design/icons';
+import { useAuth } from '../../../contexts/auth-context';
+import { trpc } from '../../../lib/trpc/client';
+import { ROLES, type Role } from '../../../lib/auth/permissions';
+
+const { Header, Content } = Layout;
+const { Title, Text, Paragraph } = Typography;
+
+const PAGE_SIZE = 20;
+
+const ROLE_LABELS: Record<Role, string> = {
+  [ROLES.ADMIN]: '系統管理員',
+  [ROLES.ESTIMATOR]: '估價人員',
+  [ROLES.PROCUREMENT]: '採購人員',
+  [ROLES.VIEWER]: '檢視者',
+};
+
+const ROLE_OPTIONS = Object.values(ROLES).map((role) => ({
+  value: role,
+  label: ROLE_LABELS[role],
+}));
+
+type UserStatus = 'active' | 'disabled' | 'deleted';
+
+interface AdminUserRow {
+  id: string;
+  email: string;
+  role: Role;
+  isActive: boolean;
+  mustChangePassword: boolean;
+  emailVerifiedAt: Date | null;
+  lockedUntil: Date | null;
+  deletedAt: Date | null;
+  createdAt: Date;
+}
+
+interface CreateUserFormValues {
+  email: string;
+  role: Role;
+}
+
+interface InviteUserFormValues {
+  email: string;
+  role: Role;
+  departmentId?: string;
+}
+
+export default function AdminUsersPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading, login } = useAuth();
+  const [createForm] = Form.useForm<CreateUserFormValues>();
+  const [inviteForm] = Form.useForm<InviteUserFormValues>();
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<Role | undefined>();
+  const [statusFilter, setStatusFilter] = useState<UserStatus | undefined>();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  // Temporary passwords are only returned once, so keep them on screen until dismissed
+  const [issuedPassword, setIssuedPassword] = useState<{ email: string; password: string } | null>(null);
+
+  const isAdmin = user?.role === ROLES.ADMIN;
+
+  // The middleware already redirects non-admins; this covers stale client state
+  React.useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login?redirect=/admin/users');
+    } else if (!isLoading && user && !isAdmin) {
+      router.push('/dashboard?reason=admin-required');
+    }
+  }, [isAuthenticated, isLoading, isAdmin, user, router]);
+
+  const utils = trpc.useUtils();
+  const usersQuery = trpc.admin.listUsers.useQuery(
+    {
+      page,
+      pageSize: PAGE_SIZE,
+      search: search || undefined,
+      role: roleFilter,
+      status: statusFilter,
+    },
+    { enabled: isAuthenticated && isAdmin }
+  );
+
+  const organizationsQuery = trpc.admin.organizations.list.useQuery(undefined, {
+    enabled: isInviteOpen,
+  });
+
+  const departmentOptions = (organizationsQuery.data ?? []).map((organization) => ({
+    label: organization.name,
+    options: organization.departments.map((department) => ({
+      value: department.id,
+      label: department.name,
+    })),
+  }));
+
+  const onMutationError = (error: { message: string }) => {
+    message.error(error.message || '操作失敗，請稍後再試');
+  };
+
+  const createUserMutation = trpc.admin.createUser.useMutation({
+    onSuccess: (data) => {
+      setIsCreateOpen(false);
+      createForm.resetFields();
+      if (data.temporaryPassword) {
+        setIssuedPassword({ email: data.user.email, password: data.temporaryPassword });
+      }
+      message.success('使用者已建立');
+      void utils.admin.listUsers.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const inviteUserMutation = trpc.admin.invite.useMutation({
+    onSuccess: (data) => {
+      setIsInviteOpen(false);
+      inviteForm.resetFields();
+      message.success(`邀請已寄送至 ${data.invitation.email}`);
+    },
+    onError: onMutationError,
+  });
+
+  const setUserStatusMutation = trpc.admin.setUserStatus.useMutation({
+    onSuccess: (data) => {
+      message.success(data.user.isActive ? '帳號已啟用' : '帳號已停用');
+      void utils.admin.listUsers.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const restoreUserMutation = trpc.admin.restoreUser.useMutation({
+    onSuccess: () => {
+      message.success('帳號已復原');
+      void utils.admin.listUsers.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const assignRoleMutation = trpc.admin.assignRole.useMutation({
+    onSuccess: () => {
+      message.success('角色已更新');
+      void utils.admin.listUsers.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const resetPasswordMutation = trpc.admin.resetPassword.useMutation({
+    onSuccess: (data) => {
+      setIssuedPassword({ email: data.user.email, password: data.temporaryPassword });
+      void utils.admin.listUsers.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const impersonateMutation = trpc.admin.impersonate.useMutation({
+    onSuccess: (data) => {
+      login({ id: data.user.id, email: data.user.email, role: data.user.role }, data.accessTokenExpiresAt, data.impersonator);
+      // Reload so nothing cached for the administrator is shown as the user's
+      window.location.assign('/dashboard');
+    },
+    onError: onMutationError,
+  });
+
+  const columns: ColumnsType<AdminUserRow> = [
+    {
+      title: '電子郵件',
+      dataIndex: 'email',
+      key: 'email',
+      render: (email: string, record) => (
+        <Space>
+          <Text>{email}</Text>
+          {!record.emailVerifiedAt && <Tag>未驗證</Tag>}
+          {record.lockedUntil && new Date(record.lockedUntil) > new Date() && (
+            <Tag color="red">已鎖定</Tag>
+          )}
+          {record.mustChangePassword && <Tag color="orange">需變更密碼</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: '角色',
+      dataIndex: 'role',
+      key: 'role',
+      width: 180,
+      render: (role: Role, record) => (
+        <Select
+          value={role}
+          options={ROLE_OPTIONS}
+          style={{ width: 150 }}
+          disabled={record.id === user?.id}
+          onChange={(value: Role) => assignRoleMutation.mutate({ userId: record.id, role: value })}
+        />
+      ),
+    },
+    {
+      title: '狀態',
+      dataIndex: 'isActive',
+      key: 'isActive',
+      width: 100,
+      render: (isActive: boolean, record) => {
+        if (record.deletedAt) {
+          return <Tag color="volcano">已刪除</Tag>;
+        }
+        return isActive ? <Tag color="green">啟用</Tag> : <Tag color="red">停用</Tag>;
+      },
+    },
+    {
+      title: '建立時間',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 180,
+      render: (createdAt: Date) => new Date(createdAt).toLocaleString('zh-TW'),
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      width: 300,
+      render: (_, record) => (
+        <Space>
+          {record.deletedAt ? (
+            <Popconfirm
+              title="確定要復原此帳號？"
+              description={`使用者於 ${new Date(record.deletedAt).toLocaleString('zh-TW')} 刪除了帳號，復原後即可重新登入。`}
+              onConfirm={() => restoreUserMutation.mutate({ userId: record.id })}
+            >
+              <Button type="link">復原</Button>
+            </Popconfirm>
+          ) : (
+            <Popconfirm
+              title={record.isActive ? '確定要停用此帳號？' : '確定要啟用此帳號？'}
+              onConfirm={() => setUserStatusMutation.mutate({ userId: record.id, isActive: !record.isActive })}
+              disabled={record.id === user?.id}
+            >
+              <Button type="link" danger={record.isActive} disabled={record.id === user?.id}>
+                {record.isActive ? '停用' : '啟用'}
+              </Button>
+            </Popconfirm>
+          )}
+          <Popconfirm
+            title="確定要重設此使用者的密碼？"
+            description="使用者的所有登入階段將被登出。"
+            onConfirm={() => resetPasswordMutation.mutate({ userId: record.id })}
+          >
+            <Button type="link">重設密碼</Button>
+          </Popconfirm>
+          {record.isActive && !record.deletedAt && record.role !== ROLES.ADMIN && (
+            <Popconfirm
+              title="確定要以此使用者的身分登入？"
+              description="代理期間的所有操作都會記錄於稽核紀錄，並於 30 分鐘後自動結束。"
+              onConfirm={() => impersonateMutation.mutate({ userId: record.id })}
+            >
+              <Button type="link">代理登入</Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  if (isLoading || !isAuthenticated || !user || !isAdmin) {
+    return null; // Will redirect
+  }
+
+  return (
+    <Layout style={{ minHeight: '100vh' }}>
+      <Header style={{
+        background: '#fff',
+        padding: '0 24px',
+        borderBottom: '1px solid #f0f0f0',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <Space>
+          <Button type="text" icon={<ArrowLeftOutlined />} onClick={() => router.push('/dashboard')} />
+          <Title level={3} style={{ margin: 0, color: '#1677ff' }}>
+            使用者管理
+          </Title>
+        </Space>
+        <Text>
+          <UserOutlined /> {user.email}
+        </Text>
+      </Header>
+
+      <Content style={{ padding: '24px', background: '#f5f5f5' }}>
+        <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+          <Card>
+            <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+              {issuedPassword && (
+                <Alert
+                  type="warning"
+                  showIcon
+                  closable
+                  onClose={() => setIssuedPassword(null)}
+                  message={`${issuedPassword.email} 的臨時密碼`}
+                  description={
+                    <Space direction="vertical">
+                      <Paragraph copyable={{ text: issuedPassword.password }} style={{ margin: 0 }}>
+                        <Text code>{issuedPassword.password}</Text>
+                      </Paragraph>
+                      <Text type="secondary">此密碼只會顯示一次，使用者首次登入時須變更密碼。</Text>
+                    </Space>
+                  }
+                />
+              )}
+
+              <Space wrap style={{ width: '100%', justifyContent: 'space-between' }}>
+                <Space wrap>
+                  <Input.Search
+                    placeholder="搜尋電子郵件"
+                    allowClear
+                    style={{ width: 260 }}
+                    onSearch={(value) => {
+                      setSearch(value.trim());
+                      setPage(1);
+                    }}
+                  />
+                  <Select
+                    placeholder="角色"
+                    allowClear
+                    style={{ width: 150 }}
+                    options={ROLE_OPTIONS}
+                    value={roleFilter}
+                    onChange={(value?: Role) => {
+                      setRoleFilter(value);
+                      setPage(1);
+                    }}
+                  />
+                  <Select
+                    placeholder="狀態"
+                    allowClear
+                    style={{ width: 120 }}
+                    options={[
+                      { value: 'active', label: '啟用' },
+                      { value: 'disabled', label: '停用' },
+                      { value: 'deleted', label: '已刪除' },
+                    ]}
+                    value={statusFilter}
+                    onChange={(value?: UserStatus) => {
+                      setStatusFilter(value);
+                      setPage(1);
+                    }}
+                  />
+                </Space>
+                <Space>
+                  <Button icon={<MailOutlined />} onClick={() => setIsInviteOpen(true)}>
+                    邀請使用者
+                  </Button>
+                  <Button type="primary" icon={<PlusOutlined />} onClick={() => setIsCreateOpen(true)}>
+                    新增使用者
+                  </Button>
+                </Space>
+              </Space>
+
+              <Table<AdminUserRow>
+                rowKey="id"
+                columns={columns}
+                dataSource={usersQuery.data?.users ?? []}
+                loading={usersQuery.isLoading}
+                pagination={{
+                  current: page,
+                  pageSize: PAGE_SIZE,
+                  total: usersQuery.data?.total ?? 0,
+                  showSizeChanger: false,
+                  onChange: setPage,
+                }}
+              />
+            </Space>
+          </Card>
+        </div>
+      </Content>
+
+      <Modal
+        title="新增使用者"
+        open={isCreateOpen}
+        okText="建立"
+        cancelText="取消"
+        confirmLoading={createUserMutation.isPending}
+        onOk={() => createForm.submit()}
+        onCancel={() => setIsCreateOpen(false)}
+        destroyOnClose
+      >
+        <Form<CreateUserFormValues>
+          form={createForm}
+          layout="vertical"
+          initialValues={{ role: ROLES.VIEWER }}
+          onFinish={(values) => createUserMutation.mutate(values)}
+        >
+          <Form.Item
+            name="email"
+            label="電子郵件"
+            rules={[
+              { required: true, message: '請輸入電子郵件' },
+              { type: 'email', message: '請輸入有效的電子郵件格式' },
+            ]}
+          >
+            <Input placeholder="請輸入電子郵件" />
+          </Form.Item>
+          <Form.Item name="role" label="角色" rules={[{ required: true, message: '請選擇角色' }]}>
+            <Select options={ROLE_OPTIONS} />
+          </Form.Item>
+          <Text type="secondary">系統將產生臨時密碼，使用者首次登入時須變更密碼。</Text>
+        </Form>
+      </Modal>
+
+      <Modal
+        title="邀請使用者"
+        open={isInviteOpen}
+        okText="寄送邀請"
+        cancelText="取消"
+        confirmLoading={inviteUserMutation.isPending}
+        onOk={() => inviteForm.submit()}
+        onCancel={() => setIsInviteOpen(false)}
+        destroyOnClose
+      >
+        <Form<InviteUserFormValues>
+          form={inviteForm}
+          layout="vertical"
+          initialValues={{ role: ROLES.VIEWER }}
+          onFinish={(values) => inviteUserMutation.mutate(values)}
+        >
+          <Form.Item
+            name="email"
+            label="電子郵件"
+            rules={[
+              { required: true, message: '請輸入電子郵件' },
+              { type: 'email', message: '請輸入有效的電子郵件格式' },
+            ]}
+          >
+            <Input placeholder="請輸入電子郵件" />
+          </Form.Item>
+          <Form.Item name="role" label="角色" rules={[{ required: true, message: '請選擇角色' }]}>
+            <Select options={ROLE_OPTIONS} />
+          </Form.Item>
+          <Form.Item name="departmentId" label="部門">
+            <Select
+              placeholder="不指定部門"
+              allowClear
+              loading={organizationsQuery.isLoading}
+              options={departmentOptions}
+            />
+          </Form.Item>
+          <Text type="secondary">使用者將收到邀請連結，設定密碼後即可登入。重新邀請會使先前的連結失效。</Text>
+        </Form>
+      </Modal>
+    </Layout>
+  );
+}
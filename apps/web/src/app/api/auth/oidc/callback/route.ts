@@ -0,0 +1,112 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SsoService } from '../../../../../lib/services/sso.service';
+import { SessionService } from '../../../../../lib/services/session.service';
+import { AuditService } from '../../../../../lib/services/audit.service';
+import { decodeJWT } from '../../../../../lib/auth/jwt';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  ERROR_MESSAGES,
+  OIDC_CONFIG,
+  SSO_ERROR_MESSAGES,
+} from '../../../../../lib/auth/constants';
+import {
+  getRequestCookie,
+  setAuthCookies,
+  setSessionInfoCookie,
+  setSsoStateCookie,
+} from '../../../../../server/api/middleware/auth-cookies';
+import { getRequestMetadata } from '../../../../../server/api/middleware/request-metadata';
+
+// Failures the login page explains, passed as its `reason` parameter; anything else is sso-failed
+const FAILURE_REASONS: Record<string, string> = {
+  [ERROR_MESSAGES.ACCOUNT_DISABLED]: 'sso-account-disabled',
+  [SSO_ERROR_MESSAGES.ACCOUNT_LINK_REQUIRED]: 'sso-link-required',
+  [SSO_ERROR_MESSAGES.IDENTITY_LINKED_ELSEWHERE]: 'sso-linked-elsewhere',
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Page that moves on to the app once the cookies are set
+ * A plain redirect would still count as part of the navigation that came from the provider's
+ * site, so the browser would leave out the SameSite=Strict auth cookies on the next request
+ */
+function continueTo(redirectTo: string): NextResponse {
+  const href = escapeHtml(redirectTo);
+  return new NextResponse(
+    `<!DOCTYPE html><html><head><meta http-equiv="refresh" content="0;url=${href}"></head>` +
+      `<body><a href="${href}">繼續</a></body></html>`,
+    { headers: { 'content-type': 'text/html; charset=utf-8', 'cache-control': 'no-store' } }
+  );
+}
+
+/**
+ * Where the identity provider sends the browser back with an authorization code
+ */
+export async function GET(req: NextRequest) {
+  const metadata = getRequestMetadata(req);
+  const params = req.nextUrl.searchParams;
+
+  try {
+    const { user, identity, outcome, redirectTo } = await SsoService.completeLogin(
+      { code: params.get('code'), state: params.get('state'), error: params.get('error') },
+      getRequestCookie(req, OIDC_CONFIG.STATE_COOKIE_NAME)
+    );
+
+    const { session, accessToken, refreshToken } = await SessionService.createSession(user, metadata);
+
+    if (outcome !== 'existing') {
+      await AuditService.record({
+        action: outcome === 'provisioned'
+          ? AUDIT_ACTIONS.SSO_USER_PROVISIONED
+          : AUDIT_ACTIONS.SSO_IDENTITY_LINKED,
+        actor: user,
+        targetType: AUDIT_TARGET_TYPES.USER,
+        targetId: user.id,
+        ...metadata,
+        metadata: { issuer: identity.issuer, subject: identity.subject },
+      });
+    }
+    await AuditService.record({
+      action: AUDIT_ACTIONS.LOGIN_SUCCEEDED,
+      actor: user,
+      targetType: AUDIT_TARGET_TYPES.SESSION,
+      targetId: session.id,
+      ...metadata,
+      metadata: { method: 'oidc' },
+    });
+
+    const response = continueTo(redirectTo);
+    setSsoStateCookie(response.headers, null);
+    setAuthCookies(response.headers, { accessToken, refreshToken });
+    setSessionInfoCookie(response.headers, {
+      user: { userId: user.id, email: user.email, role: user.role },
+      accessTokenExpiresAt: (decodeJWT(accessToken)?.exp ?? 0) * 1000,
+    });
+    return response;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.warn('SSO sign-in failed:', reason);
+
+    await AuditService.record({
+      action: AUDIT_ACTIONS.LOGIN_FAILED,
+      actor: null,
+      ...metadata,
+      metadata: { method: 'oidc', reason },
+    });
+
+    const loginUrl = new URL('/login', req.url);
+    loginUrl.searchParams.set('reason', FAILURE_REASONS[reason] ?? 'sso-failed');
+
+    const response = NextResponse.redirect(loginUrl);
+    setSsoStateCookie(response.headers, null);
+    return response;
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SsoService } from '../../../../../lib/services/sso.service';
+import { getOidcConfig, getRedirectUri } from '../../../../../lib/auth/oidc';
+import { toSafeRedirectPath } from '../../../../../lib/auth/redirect';
+import { setSsoStateCookie } from '../../../../../server/api/middleware/auth-cookies';
+import { createAuthenticatedContext } from '../../../../../server/api/middleware/auth';
+
+/**
+ * Send the browser to the identity provider to sign in
+ * The login page's SSO button links here; the provider redirects back to ../callback
+ * With `link=1`, the signed-in user links the provider account to their own instead
+ */
+export async function GET(req: NextRequest) {
+  // Only same-origin paths, so the flow can't be used as an open redirect
+  const redirectTo = toSafeRedirectPath(req.nextUrl.searchParams.get('redirect'));
+
+  const config = getOidcConfig();
+  if (!config) {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  let linkUserId: string | undefined;
+  if (req.nextUrl.searchParams.get('link') === '1') {
+    // Only the account's own session may link, not an API key or an impersonating administrator
+    const auth = await createAuthenticatedContext(req).catch(() => null);
+    if (!auth?.sessionId || auth.impersonatorId) {
+      const loginUrl = new URL('/login', req.url);
+      loginUrl.searchParams.set('redirect', redirectTo);
+      return NextResponse.redirect(loginUrl);
+    }
+    linkUserId = auth.userId;
+  }
+
+  try {
+    const { authorizationUrl, stateCookie } = await SsoService.beginLogin(
+      redirectTo,
+      getRedirectUri(config, req.url),
+      linkUserId
+    );
+
+    const response = NextResponse.redirect(authorizationUrl);
+    setSsoStateCookie(response.headers, stateCookie);
+    return response;
+  } catch (error) {
+    console.error('Failed to start SSO sign-in:', error);
+
+    const loginUrl = new URL('/login', req.url);
+    loginUrl.searchParams.set('redirect', redirectTo);
+    loginUrl.searchParams.set('reason', 'sso-failed');
+    return NextResponse.redirect(loginUrl);
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { SessionService, SESSION_ERROR_MESSAGES } from '../../../../lib/services/session.service';
+import type { IssuedSession } from '../../../../lib/services/session.service';
+
+// Mock the session service but keep its error messages
+vi.mock('../../../../lib/services/session.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../../lib/services/session.service')>();
+  return {
+    ...actual,
+    SessionService: {
+      refreshSession: vi.fn(),
+    },
+  };
+});
+
+const navigation = { 'sec-fetch-site': 'same-origin', 'sec-fetch-mode': 'navigate', 'sec-fetch-dest': 'document' };
+
+function buildRequest(redirect: string, headers: Record<string, string> = navigation): NextRequest {
+  const url = new URL('http://localhost:3000/api/auth/refresh');
+  url.searchParams.set('redirect', redirect);
+  const request = new NextRequest(url, { headers });
+  request.cookies.set('auth-refresh', 'session-123.secret');
+  return request;
+}
+
+describe('GET /api/auth/refresh', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(SessionService.refreshSession).mockResolvedValue({
+      accessToken: 'new-access-token',
+      refreshToken: 'session-123.new-secret',
+    } as IssuedSession);
+  });
+
+  it('should renew the session and go back to the requested page', async () => {
+    const response = await GET(buildRequest('/datasets?tab=mine'));
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/datasets?tab=mine');
+    expect(response.headers.getSetCookie().join('\n')).toContain('auth-refresh=session-123.new-secret');
+  });
+
+  it('should not redirect to another site', async () => {
+    for (const redirect of ['//evil.example', '/\\evil.example', '/\t/evil.example']) {
+      const response = await GET(buildRequest(redirect));
+
+      expect(new URL(response.headers.get('location')!).origin).toBe('http://localhost:3000');
+      expect(new URL(response.headers.get('location')!).pathname).toBe('/dashboard');
+    }
+  });
+
+  it('should keep the cookies when a concurrent navigation already rotated the token', async () => {
+    vi.mocked(SessionService.refreshSession).mockRejectedValue(new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_ROTATED));
+
+    const response = await GET(buildRequest('/datasets'));
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/datasets');
+    expect(response.headers.getSetCookie()).toEqual([]);
+  });
+
+  it('should send the user to login when the session cannot be renewed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(SessionService.refreshSession).mockRejectedValue(new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_REUSED));
+
+    const response = await GET(buildRequest('/datasets'));
+
+    expect(new URL(response.headers.get('location')!).pathname).toBe('/login');
+    expect(response.headers.getSetCookie()).toContainEqual(expect.stringMatching(/^auth-refresh=;.*Max-Age=0/));
+  });
+
+  it('should refuse requests that are not a navigation from this app', async () => {
+    const crossSite = await GET(buildRequest('/dashboard', { ...navigation, 'sec-fetch-site': 'cross-site' }));
+    const image = await GET(
+      buildRequest('/dashboard', { ...navigation, 'sec-fetch-mode': 'no-cors', 'sec-fetch-dest': 'image' })
+    );
+
+    expect(crossSite.status).toBe(403);
+    expect(image.status).toBe(403);
+    expect(crossSite.headers.getSetCookie()).toEqual([]);
+    expect(SessionService.refreshSession).not.toHaveBeenCalled();
+  });
+});
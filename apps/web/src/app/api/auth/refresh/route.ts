@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SessionService, SESSION_ERROR_MESSAGES } from '../../../../lib/services/session.service';
+import { AUTH_COOKIE_CONFIG, ERROR_MESSAGES } from '../../../../lib/auth/constants';
+import { toSafeRedirectPath } from '../../../../lib/auth/redirect';
+import {
+  getRequestCookie,
+  setAuthCookies,
+  clearAuthCookies,
+} from '../../../../server/api/middleware/auth-cookies';
+import { getRequestMetadata } from '../../../../server/api/middleware/request-metadata';
+
+/**
+ * Whether the request is a top-level page navigation started on this app, going by the
+ * Fetch Metadata headers. Browsers that send none are let through, the SameSite=Strict
+ * cookies still keep cross-site requests from carrying a refresh token
+ */
+function isSameOriginNavigation(req: NextRequest): boolean {
+  const site = req.headers.get('sec-fetch-site');
+  if (site === null) {
+    return true;
+  }
+
+  return (
+    (site === 'same-origin' || site === 'none') &&
+    req.headers.get('sec-fetch-mode') === 'navigate' &&
+    req.headers.get('sec-fetch-dest') === 'document'
+  );
+}
+
+/**
+ * Renew an expired access token during page navigation
+ * The route middleware sends browsers here when the access token cookie has expired but a
+ * refresh token cookie is present, since the Edge runtime cannot reach the session store.
+ * Since this GET rotates the refresh token, it only serves top-level navigations from this
+ * app; images, frames and fetches get a 403 and the session is left alone
+ */
+export async function GET(req: NextRequest) {
+  if (!isSameOriginNavigation(req)) {
+    return NextResponse.json(
+      { error: ERROR_MESSAGES.NAVIGATION_REQUIRED, code: 'FORBIDDEN' },
+      { status: 403 }
+    );
+  }
+
+  // Only same-origin paths, so the route can't be used as an open redirect
+  const redirectTo = toSafeRedirectPath(req.nextUrl.searchParams.get('redirect'));
+
+  const refreshToken = getRequestCookie(req, AUTH_COOKIE_CONFIG.REFRESH_TOKEN_NAME);
+  if (refreshToken) {
+    try {
+      const tokens = await SessionService.refreshSession(refreshToken, getRequestMetadata(req));
+      const response = NextResponse.redirect(new URL(redirectTo, req.url));
+      setAuthCookies(response.headers, tokens);
+      return response;
+    } catch (error) {
+      // A concurrent navigation rotated the token and is setting the new cookies, so keep them
+      if (error instanceof Error && error.message === SESSION_ERROR_MESSAGES.REFRESH_TOKEN_ROTATED) {
+        return NextResponse.redirect(new URL(redirectTo, req.url));
+      }
+      console.warn('Session refresh during navigation failed:', error);
+    }
+  }
+
+  const loginUrl = new URL('/login', req.url);
+  loginUrl.searchParams.set('redirect', redirectTo);
+  loginUrl.searchParams.set('reason', 'session-expired');
+
+  const response = NextResponse.redirect(loginUrl);
+  clearAuthCookies(response.headers);
+  return response;
+}
@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { FileUploadService } from '../../../../lib/services/file-upload.service';
+import { rejectUnauthorizedCronRequest } from '../../../../server/api/middleware/cron-auth';
+
+/**
+ * Abort chunked uploads that were abandoned, removing the chunks they stored
+ * Meant to be called hourly or daily by the same scheduler as ../purge-deleted-accounts, with
+ * `Authorization: Bearer $CRON_SECRET`; each call handles one batch
+ */
+export async function GET(req: NextRequest) {
+  const rejection = rejectUnauthorizedCronRequest(req);
+  if (rejection) {
+    return rejection;
+  }
+
+  try {
+    const result = await FileUploadService.abortExpired();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error aborting expired uploads:', error);
+    return NextResponse.json({ error: 'Cleanup failed' }, { status: 500 });
+  }
+}
+
+export const POST = GET;
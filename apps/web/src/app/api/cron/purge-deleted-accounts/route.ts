@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { AccountDeletionService } from '../../../../lib/services/account-deletion.service';
+import { rejectUnauthorizedCronRequest } from '../../../../server/api/middleware/cron-auth';
+
+/**
+ * Anonymize accounts whose deletion grace period has ended
+ * Meant to be called daily by a scheduler (e.g. Vercel Cron or a Kubernetes CronJob) with
+ * `Authorization: Bearer $CRON_SECRET`; each call handles one batch, so a large backlog
+ * clears over a few runs. Without CRON_SECRET the route is switched off
+ */
+export async function GET(req: NextRequest) {
+  const rejection = rejectUnauthorizedCronRequest(req);
+  if (rejection) {
+    return rejection;
+  }
+
+  try {
+    const result = await AccountDeletionService.purgeExpired();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error purging deleted accounts:', error);
+    return NextResponse.json({ error: 'Purge failed' }, { status: 500 });
+  }
+}
+
+export const POST = GET;
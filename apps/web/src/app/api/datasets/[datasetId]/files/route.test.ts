@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import type { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import type { File } from '@prisma/client';
+import { POST } from './route';
+import { createAuthenticatedContext } from '../../../../../server/api/middleware/auth';
+import { datasetRepository } from '../../../../../lib/repositories/dataset.repository';
+import { FileUploadService } from '../../../../../lib/services/file-upload.service';
+import { AuditService } from '../../../../../lib/services/audit.service';
+import { AUDIT_ACTIONS, DATASET_ERROR_MESSAGES, FILE_UPLOAD_ERROR_MESSAGES } from '../../../../../lib/auth/constants';
+import { buildAuthContext, buildDataset } from '../../../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../../../../../server/api/middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../../../lib/repositories/dataset.repository', () => ({
+  datasetRepository: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../../lib/services/file-upload.service', () => ({
+  FileUploadService: {
+    saveFile: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+describe('POST /api/datasets/:datasetId/files', () => {
+  const received: Record<string, string> = {};
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'ESTIMATOR' }));
+    vi.mocked(datasetRepository.findById).mockResolvedValue(buildDataset());
+    vi.mocked(FileUploadService.saveFile).mockImplementation(async (datasetId, file, body: Readable) => {
+      received[file.filename] = await text(body);
+      return {
+        id: `file-${file.filename}`,
+        datasetId,
+        filename: file.filename,
+        mimeType: file.mimeType,
+        size: received[file.filename].length,
+        checksum: 'abc123',
+        storageKey: `datasets/${datasetId}/${file.filename}`,
+        status: 'PENDING',
+        error: null,
+        pageCount: null,
+        createdAt: new Date('2025-01-05'),
+        updatedAt: new Date('2025-01-05'),
+      } satisfies File;
+    });
+  });
+
+  // Built by hand: jsdom's FormData and Blob are not readable as a fetch body
+  const multipart = (files: Array<{ filename: string; mimeType: string; content: string }>) => ({
+    body: [
+      ...files.map(
+        ({ filename, mimeType, content }) =>
+          `--boundary\r\nContent-Disposition: form-data; name="files"; filename="${filename}"\r\n` +
+          `Content-Type: ${mimeType}\r\n\r\n${content}\r\n`
+      ),
+      '--boundary--\r\n',
+    ].join(''),
+    headers: { 'content-type': 'multipart/form-data; boundary=boundary' },
+  });
+
+  const upload = ({ body, headers }: { body: string; headers: Record<string, string> }) =>
+    POST(
+      new NextRequest('http://localhost/api/datasets/dataset-123/files', {
+        method: 'POST',
+        headers: { authorization: 'Bearer token', ...headers },
+        body,
+      }),
+      { params: Promise.resolve({ datasetId: 'dataset-123' }) }
+    );
+
+  it('should stream every file into the dataset and audit each one', async () => {
+    const response = await upload(
+      multipart([
+        { filename: '鋼材報價.csv', mimeType: 'text/csv', content: 'item,price\n' },
+        { filename: 'notes.md', mimeType: 'text/markdown', content: '# Notes' },
+      ])
+    );
+
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body.files.map((file: File) => file.filename)).toEqual(['鋼材報價.csv', 'notes.md']);
+    expect(body.rejected).toEqual([]);
+    expect(received).toMatchObject({ '鋼材報價.csv': 'item,price\n', 'notes.md': '# Notes' });
+    expect(FileUploadService.saveFile).toHaveBeenCalledWith(
+      'dataset-123',
+      { filename: '鋼材報價.csv', mimeType: 'text/csv' },
+      expect.anything()
+    );
+    expect(AuditService.record).toHaveBeenCalledTimes(2);
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AUDIT_ACTIONS.FILE_UPLOADED, targetId: 'file-notes.md' })
+    );
+  });
+
+  it('should report rejected files and fail when none was stored', async () => {
+    vi.mocked(FileUploadService.saveFile).mockRejectedValueOnce(new Error(FILE_UPLOAD_ERROR_MESSAGES.UNSUPPORTED_TYPE));
+    const response = await upload(
+      multipart([{ filename: 'setup.exe', mimeType: 'application/x-msdownload', content: 'MZ' }])
+    );
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      rejected: [{ filename: 'setup.exe', error: FILE_UPLOAD_ERROR_MESSAGES.UNSUPPORTED_TYPE }],
+    });
+    expect(AuditService.record).not.toHaveBeenCalled();
+  });
+
+  it('should only accept multipart bodies', async () => {
+    const response = await upload({ body: '{"files": []}', headers: { 'content-type': 'application/json' } });
+
+    expect(response.status).toBe(415);
+    expect(await response.json()).toEqual({
+      error: FILE_UPLOAD_ERROR_MESSAGES.MULTIPART_REQUIRED,
+      code: 'UNSUPPORTED_MEDIA_TYPE',
+    });
+  });
+
+  it('should not let department members upload to a dataset they do not own', async () => {
+    vi.mocked(datasetRepository.findById).mockResolvedValueOnce(
+      buildDataset({ ownerId: 'user-456', visibility: 'DEPARTMENT', departmentId: 'dept-estimating' })
+    );
+
+    const response = await upload(multipart([]));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: DATASET_ERROR_MESSAGES.NOT_OWNER });
+    expect(FileUploadService.saveFile).not.toHaveBeenCalled();
+  });
+
+  it('should require the datasets:write permission', async () => {
+    vi.mocked(createAuthenticatedContext).mockResolvedValueOnce(buildAuthContext({ role: 'VIEWER' }));
+
+    const response = await upload(multipart([]));
+
+    expect(response.status).toBe(403);
+    expect(datasetRepository.findById).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import busboy from 'busboy';
+import type { File } from '@prisma/client';
+import { FileUploadService } from '../../../../../lib/services/file-upload.service';
+import { PERMISSIONS } from '../../../../../lib/auth/permissions';
+import { FILE_UPLOAD_CONFIG, FILE_UPLOAD_ERROR_MESSAGES } from '../../../../../lib/auth/constants';
+import { withRouteAuth } from '../../../../../server/api/middleware/route-auth';
+import { findManageableDataset } from '../../../../../server/api/middleware/dataset-access';
+import { recordFileUploaded, toFileOutput, toUploadError } from '../../../../../server/api/file-uploads';
+
+interface RejectedFile {
+  filename: string;
+  error: string;
+}
+
+type FileResult = { file: File } | { rejected: RejectedFile };
+
+/**
+ * Stream the files of a multipart body into the dataset one by one, without buffering them
+ * A file that fails the checks is skipped and reported, the others are still saved
+ */
+async function receiveFiles(req: NextRequest, datasetId: string): Promise<FileResult[]> {
+  const contentType = req.headers.get('content-type') ?? '';
+  if (!contentType.toLowerCase().startsWith('multipart/form-data') || !req.body) {
+    throw new Error(FILE_UPLOAD_ERROR_MESSAGES.MULTIPART_REQUIRED);
+  }
+
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({
+      headers: { 'content-type': contentType },
+      // File names are sent as UTF-8 by browsers; busboy assumes latin1 otherwise
+      defParamCharset: 'utf8',
+      // One byte past the limit, so FileUploadService can tell an oversized file from one at the limit
+      limits: { files: FILE_UPLOAD_CONFIG.MAX_FILES_PER_REQUEST, fileSize: FILE_UPLOAD_CONFIG.MAX_FILE_SIZE + 1 },
+    });
+  } catch {
+    throw new Error(FILE_UPLOAD_ERROR_MESSAGES.MULTIPART_REQUIRED);
+  }
+
+  const results: Promise<FileResult>[] = [];
+  let hasTooManyFiles = false;
+
+  parser.on('file', (_field, stream, info) => {
+    results.push(
+      FileUploadService.saveFile(datasetId, { filename: info.filename ?? '', mimeType: info.mimeType }, stream)
+        .then((file): FileResult => ({ file }))
+        .catch((error: unknown): FileResult => {
+          // Drain the rest, or the parser waits on this file forever
+          stream.resume();
+          const uploadError = toUploadError(error);
+          if (uploadError.code === 'INTERNAL_SERVER_ERROR') {
+            console.error(`Error saving uploaded file ${info.filename}:`, error);
+          }
+          return { rejected: { filename: info.filename ?? '', error: uploadError.message } };
+        })
+    );
+  });
+  parser.on('filesLimit', () => {
+    hasTooManyFiles = true;
+  });
+
+  await pipeline(Readable.fromWeb(req.body as NodeReadableStream), parser);
+  const settled = await Promise.all(results);
+
+  if (hasTooManyFiles) {
+    settled.push({ rejected: { filename: '', error: FILE_UPLOAD_ERROR_MESSAGES.TOO_MANY_FILES } });
+  }
+  return settled;
+}
+
+/**
+ * Upload one or more files to a dataset as multipart/form-data, any field name
+ * Each stored file is recorded as pending processing. Responds 201 when at least one file was
+ * stored, listing the rejected ones alongside; large files are better sent as chunked uploads,
+ * see ../uploads
+ */
+export const POST = withRouteAuth<{ datasetId: string }>(
+  [PERMISSIONS.DATASETS_WRITE],
+  async (req, auth, { datasetId }) => {
+    const dataset = await findManageableDataset(auth, datasetId);
+
+    let results: FileResult[];
+    try {
+      results = await receiveFiles(req, dataset.id);
+    } catch (error) {
+      throw toUploadError(error);
+    }
+
+    const files = results.flatMap((result) => ('file' in result ? [result.file] : []));
+    const rejected = results.flatMap((result) => ('rejected' in result ? [result.rejected] : []));
+    if (files.length === 0 && rejected.length === 0) {
+      throw toUploadError(new Error(FILE_UPLOAD_ERROR_MESSAGES.NO_FILES));
+    }
+
+    for (const file of files) {
+      await recordFileUploaded(auth, req, file);
+    }
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: rejected[0].error, code: 'UNPROCESSABLE_CONTENT', rejected },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: FILE_UPLOAD_ERROR_MESSAGES.UPLOADED,
+        files: files.map(toFileOutput),
+        rejected,
+      },
+      { status: 201 }
+    );
+  }
+);
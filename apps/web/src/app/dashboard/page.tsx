@@ -1,17 +1,58 @@
 'use client';
 
 import React from 'react';
-import { Layout, Typography, Button, Card, Space } from 'antd';
-import { LogoutOutlined, UserOutlined, DatabaseOutlined, MessageOutlined } from '@ant-design/icons';
+import { Layout, Typography, Button, Card, Space, Row, Col, Statistic, Tooltip } from 'antd';
+import { LogoutOutlined, UserOutlined, DatabaseOutlined, MessageOutlined, TeamOutlined, SafetyOutlined, AuditOutlined, IdcardOutlined } from '@ant-design/icons';
 import { useAuth } from '../../contexts/auth-context';
 import { useRouter } from 'next/navigation';
+import { trpc } from '../../lib/trpc/client';
+import { ROLES } from '../../lib/auth/permissions';
 
 const { Header, Content, Sider } = Layout;
 const { Title, Text } = Typography;
 
+interface DailyActivity {
+  date: string;
+  queries: number;
+  tokens: number;
+}
+
+/**
+ * One bar per day, scaled to the busiest day
+ */
+function ActivityChart({ activity }: { activity: DailyActivity[] }) {
+  const busiest = Math.max(1, ...activity.map((day) => day.queries));
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: '80px' }}>
+      {activity.map((day) => (
+        <Tooltip key={day.date} title={`${day.date}：${day.queries} 次提問，${day.tokens} tokens`}>
+          <div style={{
+            flex: 1,
+            height: `${Math.max(2, (day.queries / busiest) * 100)}%`,
+            background: day.queries > 0 ? '#1677ff' : '#f0f0f0',
+            borderRadius: '2px',
+          }} />
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
+
+function formatDateTime(date: Date | null) {
+  return date ? new Date(date).toLocaleString('zh-TW') : '—';
+}
+
 export default function DashboardPage() {
   const { user, logout, isAuthenticated, isLoading } = useAuth();
   const router = useRouter();
+  const logoutMutation = trpc.auth.logout.useMutation();
+  const logoutAllMutation = trpc.auth.logoutAll.useMutation();
+  const isAdmin = user?.role === ROLES.ADMIN;
+  const statsQuery = trpc.user.getStats.useQuery(undefined, { enabled: isAuthenticated });
+  const platformStatsQuery = trpc.admin.getStats.useQuery(undefined, { enabled: isAuthenticated && isAdmin });
+  const stats = statsQuery.data?.stats;
+  const platformStats = platformStatsQuery.data;
 
   // Redirect to login if not authenticated
   React.useEffect(() => {
@@ -20,13 +61,19 @@ export default function DashboardPage() {
     }
   }, [isAuthenticated, isLoading, router]);
 
-  const handleLogout = async () => {
+  const handleLogout = async (everywhere = false) => {
     try {
-      logout();
-      router.push('/login');
+      // Revoke the session server-side before clearing local tokens
+      if (everywhere) {
+        await logoutAllMutation.mutateAsync();
+      } else {
+        await logoutMutation.mutateAsync();
+      }
     } catch (error) {
       console.error('Logout failed:', error);
-      // Still redirect even if logout fails
+    } finally {
+      // Still clear local state and redirect even if revocation fails
+      logout();
       router.push('/login');
     }
   };
@@ -67,15 +114,23 @@ export default function DashboardPage() {
         </Title>
         <Space>
           <Text>
-            <UserOutlined /> {user.email}
+            <UserOutlined /> {user.displayNameZh || user.displayNameEn || user.email}
           </Text>
           <Button 
             type="text" 
             icon={<LogoutOutlined />}
-            onClick={handleLogout}
+            onClick={() => handleLogout()}
+            loading={logoutMutation.isPending}
           >
             登出
           </Button>
+          <Button 
+            type="text" 
+            onClick={() => handleLogout(true)}
+            loading={logoutAllMutation.isPending}
+          >
+            登出所有裝置
+          </Button>
         </Space>
       </Header>
 
@@ -103,6 +158,42 @@ export default function DashboardPage() {
               >
                 智慧問答
               </Button>
+              <Button 
+                type="text" 
+                icon={<IdcardOutlined />}
+                style={{ width: '100%', textAlign: 'left', justifyContent: 'flex-start' }}
+                onClick={() => router.push('/profile')}
+              >
+                個人資料
+              </Button>
+              <Button 
+                type="text" 
+                icon={<SafetyOutlined />}
+                style={{ width: '100%', textAlign: 'left', justifyContent: 'flex-start' }}
+                onClick={() => router.push('/settings/security')}
+              >
+                安全性設定
+              </Button>
+              {isAdmin && (
+                <Button 
+                  type="text" 
+                  icon={<TeamOutlined />}
+                  style={{ width: '100%', textAlign: 'left', justifyContent: 'flex-start' }}
+                  onClick={() => router.push('/admin/users')}
+                >
+                  使用者管理
+                </Button>
+              )}
+              {isAdmin && (
+                <Button 
+                  type="text" 
+                  icon={<AuditOutlined />}
+                  style={{ width: '100%', textAlign: 'left', justifyContent: 'flex-start' }}
+                  onClick={() => router.push('/admin/audit')}
+                >
+                  稽核紀錄
+                </Button>
+              )}
             </Space>
           </div>
         </Sider>
@@ -117,6 +208,44 @@ export default function DashboardPage() {
                 </Text>
               </Card>
 
+              <Card title="我的使用狀況" loading={statsQuery.isLoading}>
+                {stats && (
+                  <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+                    <Row gutter={16}>
+                      <Col span={4}><Statistic title="登入次數" value={stats.loginCount} /></Col>
+                      <Col span={4}><Statistic title="我的資料集" value={stats.datasetsCount} /></Col>
+                      <Col span={4}><Statistic title="檔案" value={stats.filesCount} /></Col>
+                      <Col span={4}><Statistic title="提問次數" value={stats.queriesCount} /></Col>
+                      <Col span={4}><Statistic title="使用 Tokens" value={stats.tokensUsed} /></Col>
+                      <Col span={4}>
+                        <Statistic title="上次登入" value={formatDateTime(stats.previousLoginAt)} valueStyle={{ fontSize: '16px' }} />
+                      </Col>
+                    </Row>
+                    <Text type="secondary">最近 {stats.activity.length} 天每日提問</Text>
+                    <ActivityChart activity={stats.activity} />
+                  </Space>
+                )}
+              </Card>
+
+              {isAdmin && (
+                <Card title="平台使用狀況" loading={platformStatsQuery.isLoading}>
+                  {platformStats && (
+                    <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+                      <Row gutter={[16, 16]}>
+                        <Col span={6}><Statistic title="使用者" value={platformStats.totalUsers} /></Col>
+                        <Col span={6}><Statistic title={`近 ${platformStats.activity.length} 天登入`} value={platformStats.activeUsers} /></Col>
+                        <Col span={6}><Statistic title={`近 ${platformStats.activity.length} 天新增`} value={platformStats.newUsers} /></Col>
+                        <Col span={6}><Statistic title="資料集" value={platformStats.datasetsCount} /></Col>
+                        <Col span={6}><Statistic title="檔案" value={platformStats.filesCount} /></Col>
+                        <Col span={6}><Statistic title="提問次數" value={platformStats.queriesCount} /></Col>
+                        <Col span={6}><Statistic title="使用 Tokens" value={platformStats.tokensUsed} /></Col>
+                      </Row>
+                      <ActivityChart activity={platformStats.activity} />
+                    </Space>
+                  )}
+                </Card>
+              )}
+
               <Card title="快速開始">
                 <Space direction="vertical" size="middle">
                   <div>
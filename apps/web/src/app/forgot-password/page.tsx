@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Form, Input, Button, Card, Typography, Space, Alert, Row, Col } from 'antd';
+import { MailOutlined } from '@ant-design/icons';
+import { trpc } from '../../lib/trpc/client';
+
+const { Title, Text } = Typography;
+
+interface ForgotPasswordFormValues {
+  email: string;
+}
+
+export default function ForgotPasswordPage() {
+  const router = useRouter();
+  const [error, setError] = useState<string>('');
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  const requestResetMutation = trpc.auth.requestPasswordReset.useMutation({
+    onSuccess: () => {
+      setIsSubmitted(true);
+    },
+    onError: (error) => {
+      setError(error.message || '網路錯誤，請稍後再試');
+    },
+  });
+
+  const handleSubmit = (values: ForgotPasswordFormValues) => {
+    setError('');
+    requestResetMutation.mutate({ email: values.email });
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '24px'
+    }}>
+      <Row justify="center" style={{ width: '100%', maxWidth: '400px' }}>
+        <Col span={24}>
+          <Card
+            style={{
+              boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+              borderRadius: '8px',
+            }}
+          >
+            <Space direction="vertical" size="large" style={{ width: '100%', textAlign: 'center' }}>
+              <div>
+                <Title level={2} style={{ marginBottom: '8px', color: '#1677ff' }}>
+                  忘記密碼
+                </Title>
+                <Text type="secondary">
+                  輸入您註冊時使用的電子郵件，我們會寄送重設密碼連結給您
+                </Text>
+              </div>
+
+              {error && (
+                <Alert message={error} type="error" showIcon />
+              )}
+
+              {isSubmitted ? (
+                <Alert
+                  message="如果此電子郵件已註冊，重設密碼連結已寄出，請檢查您的信箱。"
+                  type="success"
+                  showIcon
+                />
+              ) : (
+                <Form
+                  name="forgot-password"
+                  onFinish={handleSubmit}
+                  layout="vertical"
+                  size="large"
+                  autoComplete="off"
+                >
+                  <Form.Item
+                    name="email"
+                    label="電子郵件"
+                    rules={[
+                      { required: true, message: '請輸入電子郵件！' },
+                      { type: 'email', message: '請輸入有效的電子郵件格式！' },
+                    ]}
+                  >
+                    <Input
+                      prefix={<MailOutlined />}
+                      placeholder="請輸入電子郵件"
+                      autoComplete="email"
+                    />
+                  </Form.Item>
+
+                  <Form.Item style={{ marginBottom: '16px' }}>
+                    <Button
+                      type="primary"
+                      htmlType="submit"
+                      loading={requestResetMutation.isPending}
+                      style={{ width: '100%', height: '48px' }}
+                    >
+                      寄送重設連結
+                    </Button>
+                  </Form.Item>
+                </Form>
+              )}
+
+              <div style={{ textAlign: 'center' }}>
+                <Button type="link" onClick={() => router.push('/login')}>
+                  返回登入
+                </Button>
+              </div>
+            </Space>
+          </Card>
+        </Col>
+      </Row>
+    </div>
+  );
+}
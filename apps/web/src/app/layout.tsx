@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { TRPCProvider } from "../components/providers/trpc-provider";
 import { AuthProvider } from "../contexts/auth-context";
+import { ImpersonationBanner } from "../components/impersonation-banner";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -31,6 +32,7 @@ export default function RootLayout({
       >
         <TRPCProvider>
           <AuthProvider>
+            <ImpersonationBanner />
             {children}
           </AuthProvider>
         </TRPCProvider>
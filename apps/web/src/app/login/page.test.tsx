@@ -63,9 +63,11 @@ describe('LoginPage Component', () => {
       login: mockLogin,
       isAuthenticated: false,
       user: null,
+      impersonator: null,
       isLoading: false,
       logout: vi.fn(),
       initialize: vi.fn(),
+      refreshProfile: vi.fn(),
       setLoading: vi.fn(),
     });
 
@@ -102,9 +104,11 @@ describe('LoginPage Component', () => {
         login: mockLogin,
         isAuthenticated: true,
         user: { id: '1', email: 'test@example.com', createdAt: new Date(), updatedAt: new Date() },
+        impersonator: null,
         isLoading: false,
         logout: vi.fn(),
         initialize: vi.fn(),
+        refreshProfile: vi.fn(),
         setLoading: vi.fn(),
       });
 
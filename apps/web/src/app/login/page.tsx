@@ -2,18 +2,57 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Form, Input, Button, Card, Typography, Space, Alert, Row, Col } from 'antd';
-import { UserOutlined, LockOutlined } from '@ant-design/icons';
+import { Form, Input, Button, Card, Typography, Space, Alert, Row, Col, Divider, Progress } from 'antd';
+import { UserOutlined, LockOutlined, SafetyOutlined, LoginOutlined } from '@ant-design/icons';
 import { trpc } from '../../lib/trpc/client';
 import { useAuth } from '../../contexts/auth-context';
+import {
+  AUTH_ERROR_CODES,
+  ERROR_MESSAGES,
+  OIDC_CONFIG,
+  type PasswordStrengthWarning,
+} from '../../lib/auth/constants';
+import { toSafeRedirectPath } from '../../lib/auth/redirect';
 
 const { Title, Text } = Typography;
 
+// Set by the SSO callback route when it sends the browser back here
+const SSO_FAILURE_MESSAGES: Record<string, string> = {
+  'sso-failed': '單一登入失敗，請再試一次或改用密碼登入。',
+  'sso-account-disabled': '此帳號已被停用，請聯絡系統管理員。',
+  'sso-link-required': '此電子郵件已有帳號。請先以密碼登入，再到「帳號安全」設定連結單一登入。',
+  'sso-linked-elsewhere': '此單一登入帳號已連結到其他帳號。',
+};
+
+// Indexed by the 0-4 score from auth.checkPasswordStrength
+const STRENGTH_LEVELS = [
+  { label: '非常弱', color: '#ff4d4f' },
+  { label: '弱', color: '#ff7a45' },
+  { label: '普通', color: '#faad14' },
+  { label: '強', color: '#52c41a' },
+  { label: '非常強', color: '#389e0d' },
+];
+
+const STRENGTH_WARNING_MESSAGES: Record<PasswordStrengthWarning, string> = {
+  'common': '這是常見或曾外洩的密碼，請改用其他密碼。',
+  'keyboard-pattern': '請避免使用鍵盤上相鄰的按鍵，例如 qwerty。',
+  'sequence': '請避免使用連續的字元，例如 abc 或 123。',
+  'repeat': '請避免重複相同的字元，例如 aaa。',
+  'short': '密碼偏短，建議使用 12 個字元以上。',
+};
+
+// Wait for a pause in typing before scoring the password
+const STRENGTH_CHECK_DELAY_MS = 300;
+
 interface LoginFormValues {
   email: string;
   password: string;
 }
 
+interface MfaFormValues {
+  code: string;
+}
+
 interface RegisterFormValues {
   email: string;
   password: string;
@@ -26,36 +65,160 @@ export default function LoginPage() {
   const { login, isAuthenticated } = useAuth();
   const [form] = Form.useForm();
   const [isLogin, setIsLogin] = useState(true);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<string>(
+    () => SSO_FAILURE_MESSAGES[searchParams.get('reason') ?? ''] ?? ''
+  );
+  // Set when login was refused because the email address hasn't been verified yet
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  // Set after the password step when the account has 2FA; exchanged for tokens with a code
+  const [mfaTicket, setMfaTicket] = useState<string | null>(null);
+  const [mfaForm] = Form.useForm<MfaFormValues>();
+
+  // Set when the password has to be changed before the user can carry on
+  const [passwordChangeRequired, setPasswordChangeRequired] = useState(false);
 
-  // Get redirect parameter from URL
-  const redirectTo = searchParams.get('redirect') || '/dashboard';
+  // Get redirect parameter from URL, only following paths within the app
+  const redirectTo = toSafeRedirectPath(searchParams.get('redirect'));
+  const destination = passwordChangeRequired
+    ? `/settings/password?redirect=${encodeURIComponent(redirectTo)}`
+    : redirectTo;
 
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated) {
-      router.push(redirectTo);
+      router.push(destination);
     }
-  }, [isAuthenticated, router, redirectTo]);
+  }, [isAuthenticated, router, destination]);
+
+  const { data: loginOptions } = trpc.auth.getLoginOptions.useQuery();
+  // Hidden until the options load, so invitation-only deployments never show the register form
+  const registrationEnabled = loginOptions?.registration.enabled ?? false;
+
+  // Strength meter for the register form
+  const registerPassword = Form.useWatch('password', form);
+  const {
+    mutate: checkPasswordStrength,
+    data: passwordStrength,
+    variables: checkedPassword,
+  } = trpc.auth.checkPasswordStrength.useMutation();
+
+  useEffect(() => {
+    if (isLogin || !registerPassword) {
+      return;
+    }
+    const timer = setTimeout(
+      () => checkPasswordStrength({ password: registerPassword }),
+      STRENGTH_CHECK_DELAY_MS
+    );
+    return () => clearTimeout(timer);
+  }, [isLogin, registerPassword, checkPasswordStrength]);
+
+  // Responses can arrive out of order, so only show the one for the current input
+  const strength = !isLogin && registerPassword && checkedPassword?.password === registerPassword
+    ? passwordStrength
+    : undefined;
+
+  // SSO needs full-page redirects, so it leaves the app instead of calling tRPC
+  const startSsoLogin = () => {
+    window.location.assign(`${OIDC_CONFIG.LOGIN_PATH}?redirect=${encodeURIComponent(redirectTo)}`);
+  };
 
   // tRPC mutations
   const loginMutation = trpc.auth.login.useMutation({
     onSuccess: (data) => {
-      if (data.success && data.token && data.user) {
+      if (data.success && data.mfaRequired && data.mfaTicket) {
+        setMfaTicket(data.mfaTicket);
+        return;
+      }
+      if (data.success && data.accessTokenExpiresAt && data.user) {
         // Convert user data to match our User interface
         const user = {
           id: data.user.id,
           email: data.user.email,
+          role: data.user.role,
           createdAt: new Date(data.user.createdAt),
           updatedAt: new Date(data.user.updatedAt),
         };
         
-        login(data.token, user);
-        router.push(redirectTo);
+        setPasswordChangeRequired(data.user.mustChangePassword);
+        login(user, new Date(data.accessTokenExpiresAt));
+      } else {
+        setError(data.message || '登入失敗');
+      }
+    },
+    onError: (error, variables) => {
+      if (error.data?.authErrorCode === AUTH_ERROR_CODES.EMAIL_NOT_VERIFIED) {
+        setUnverifiedEmail(variables.email);
+        setError('您的電子郵件尚未驗證，請點擊驗證信中的連結後再登入。');
+        return;
+      }
+      if (error.data?.authErrorCode === AUTH_ERROR_CODES.ACCOUNT_DISABLED) {
+        setError('此帳號已被停用，請聯絡系統管理員。');
+        return;
+      }
+      if (error.data?.authErrorCode === AUTH_ERROR_CODES.ACCOUNT_DELETED) {
+        setError('此帳號已刪除，將於保留期限後永久移除；如需復原，請聯絡系統管理員。');
+        return;
+      }
+      if (error.data?.authErrorCode === AUTH_ERROR_CODES.ACCOUNT_LOCKED) {
+        setError('登入失敗次數過多，帳號已暫時鎖定，請稍後再試或重設密碼。');
+        return;
+      }
+      if (error.data?.authErrorCode === AUTH_ERROR_CODES.RATE_LIMITED) {
+        setError('嘗試次數過多，請稍後再試。');
+        return;
+      }
+      setError(error.message || '網路錯誤，請稍後再試');
+    },
+  });
+
+  const verifyMfaMutation = trpc.auth.verifyMfa.useMutation({
+    onSuccess: (data) => {
+      if (data.success && data.accessTokenExpiresAt && data.user) {
+        const user = {
+          id: data.user.id,
+          email: data.user.email,
+          role: data.user.role,
+          createdAt: new Date(data.user.createdAt),
+          updatedAt: new Date(data.user.updatedAt),
+        };
+
+        setPasswordChangeRequired(data.user.mustChangePassword);
+        login(user, new Date(data.accessTokenExpiresAt));
       } else {
         setError(data.message || '登入失敗');
       }
     },
+    onError: (error) => {
+      mfaForm.resetFields();
+      if (error.data?.authErrorCode === AUTH_ERROR_CODES.MFA_TICKET_INVALID) {
+        // The ticket expired or ran out of attempts, so start over from the password step
+        setMfaTicket(null);
+        setError('驗證逾時或錯誤次數過多，請重新登入。');
+        return;
+      }
+      if (error.data?.authErrorCode === AUTH_ERROR_CODES.ACCOUNT_LOCKED) {
+        setMfaTicket(null);
+        setError('登入失敗次數過多，帳號已暫時鎖定，請稍後再試或重設密碼。');
+        return;
+      }
+      if (error.data?.authErrorCode === AUTH_ERROR_CODES.RATE_LIMITED) {
+        setError('嘗試次數過多，請稍後再試。');
+        return;
+      }
+      if (error.message === ERROR_MESSAGES.MFA_CODE_INVALID) {
+        setError('驗證碼錯誤，請再試一次。');
+        return;
+      }
+      setError(error.message || '網路錯誤，請稍後再試');
+    },
+  });
+
+  const resendVerificationMutation = trpc.auth.resendVerification.useMutation({
+    onSuccess: () => {
+      setUnverifiedEmail(null);
+      setError('驗證信已重新寄出成功，請檢查您的信箱。');
+    },
     onError: (error) => {
       setError(error.message || '網路錯誤，請稍後再試');
     },
@@ -69,7 +232,7 @@ export default function LoginPage() {
         form.resetFields();
         // Clear any existing error and show success message
         setTimeout(() => {
-          setError('註冊成功！請登入您的帳號。');
+          setError('註冊成功！請至信箱點擊驗證連結後再登入。');
         }, 100);
       } else {
         setError(data.message || '註冊失敗');
@@ -83,12 +246,30 @@ export default function LoginPage() {
 
   const handleLogin = async (values: LoginFormValues) => {
     setError('');
+    setUnverifiedEmail(null);
     loginMutation.mutate({
       email: values.email,
       password: values.password,
     });
   };
 
+  const handleVerifyMfa = (values: MfaFormValues) => {
+    if (!mfaTicket) {
+      return;
+    }
+    setError('');
+    verifyMfaMutation.mutate({
+      ticket: mfaTicket,
+      code: values.code,
+    });
+  };
+
+  const cancelMfa = () => {
+    setMfaTicket(null);
+    setError('');
+    mfaForm.resetFields();
+  };
+
   const handleRegister = async (values: RegisterFormValues) => {
     setError('');
     
@@ -113,6 +294,7 @@ export default function LoginPage() {
   const switchMode = () => {
     setIsLogin(!isLogin);
     setError('');
+    setUnverifiedEmail(null);
     form.resetFields();
   };
 
@@ -141,7 +323,9 @@ export default function LoginPage() {
                   良聯智慧諮詢平台
                 </Title>
                 <Text type="secondary">
-                  {isLogin ? '歡迎回來！請登入您的帳號' : '建立新帳號開始使用'}
+                  {mfaTicket
+                    ? '請輸入驗證器 App 顯示的驗證碼'
+                    : isLogin ? '歡迎回來！請登入您的帳號' : '建立新帳號開始使用'}
                 </Text>
               </div>
 
@@ -151,92 +335,199 @@ export default function LoginPage() {
                   type={error.includes('成功') ? 'success' : 'error'}
                   showIcon
                   style={{ marginBottom: '16px' }}
+                  action={unverifiedEmail && (
+                    <Button
+                      size="small"
+                      loading={resendVerificationMutation.isPending}
+                      onClick={() => resendVerificationMutation.mutate({ email: unverifiedEmail })}
+                    >
+                      重新寄送驗證信
+                    </Button>
+                  )}
                 />
               )}
 
-              <Form
-                form={form}
-                name={isLogin ? 'login' : 'register'}
-                onFinish={isLogin ? handleLogin : handleRegister}
-                layout="vertical"
-                size="large"
-                autoComplete="off"
-              >
-                <Form.Item
-                  name="email"
-                  label="電子郵件"
-                  rules={[
-                    { required: true, message: '請輸入電子郵件！' },
-                    { type: 'email', message: '請輸入有效的電子郵件格式！' },
-                  ]}
-                >
-                  <Input
-                    prefix={<UserOutlined />}
-                    placeholder="請輸入電子郵件"
-                    autoComplete="email"
-                  />
-                </Form.Item>
-
-                <Form.Item
-                  name="password"
-                  label="密碼"
-                  rules={[
-                    { required: true, message: '請輸入密碼！' },
-                    { min: 6, message: '密碼至少需要6個字元！' },
-                  ]}
+              {mfaTicket ? (
+                <Form
+                  form={mfaForm}
+                  name="mfa"
+                  onFinish={handleVerifyMfa}
+                  layout="vertical"
+                  size="large"
+                  autoComplete="off"
                 >
-                  <Input.Password
-                    prefix={<LockOutlined />}
-                    placeholder="請輸入密碼"
-                    autoComplete={isLogin ? 'current-password' : 'new-password'}
-                  />
-                </Form.Item>
-
-                {!isLogin && (
                   <Form.Item
-                    name="confirmPassword"
-                    label="確認密碼"
-                    dependencies={['password']}
-                    rules={[
-                      { required: true, message: '請確認密碼！' },
-                      ({ getFieldValue }) => ({
-                        validator(_, value) {
-                          if (!value || getFieldValue('password') === value) {
-                            return Promise.resolve();
-                          }
-                          return Promise.reject(new Error('密碼確認不一致！'));
-                        },
-                      }),
-                    ]}
+                    name="code"
+                    label="驗證碼"
+                    extra="無法使用驗證器時，可輸入一組復原碼。"
+                    rules={[{ required: true, message: '請輸入驗證碼！' }]}
                   >
-                    <Input.Password
-                      prefix={<LockOutlined />}
-                      placeholder="請再次輸入密碼"
-                      autoComplete="new-password"
+                    <Input
+                      prefix={<SafetyOutlined />}
+                      placeholder="6 位數驗證碼或復原碼"
+                      autoComplete="one-time-code"
+                      autoFocus
                     />
                   </Form.Item>
-                )}
-
-                <Form.Item style={{ marginBottom: '16px' }}>
-                  <Button
-                    type="primary"
-                    htmlType="submit"
-                    loading={isLoading}
-                    style={{ width: '100%', height: '48px' }}
-                  >
-                    {isLogin ? '登入' : '註冊'}
+
+                  <Form.Item style={{ marginBottom: '16px' }}>
+                    <Button
+                      type="primary"
+                      htmlType="submit"
+                      loading={verifyMfaMutation.isPending}
+                      style={{ width: '100%', height: '48px' }}
+                    >
+                      驗證
+                    </Button>
+                  </Form.Item>
+
+                  <Button type="link" onClick={cancelMfa}>
+                    返回登入
                   </Button>
-                </Form.Item>
-              </Form>
+                </Form>
+              ) : (
+                <>
+                  <Form
+                    form={form}
+                    name={isLogin ? 'login' : 'register'}
+                    onFinish={isLogin ? handleLogin : handleRegister}
+                    layout="vertical"
+                    size="large"
+                    autoComplete="off"
+                  >
+                    <Form.Item
+                      name="email"
+                      label="電子郵件"
+                      rules={[
+                        { required: true, message: '請輸入電子郵件！' },
+                        { type: 'email', message: '請輸入有效的電子郵件格式！' },
+                      ]}
+                    >
+                      <Input
+                        prefix={<UserOutlined />}
+                        placeholder="請輸入電子郵件"
+                        autoComplete="email"
+                      />
+                    </Form.Item>
 
-              <div style={{ textAlign: 'center' }}>
-                <Text type="secondary">
-                  {isLogin ? '還沒有帳號？' : '已經有帳號了？'}
-                </Text>
-                <Button type="link" onClick={switchMode} style={{ padding: '0 8px' }}>
-                  {isLogin ? '立即註冊' : '返回登入'}
-                </Button>
-              </div>
+                    <Form.Item
+                      name="password"
+                      label="密碼"
+                      rules={[
+                        { required: true, message: '請輸入密碼！' },
+                        { min: 6, message: '密碼至少需要6個字元！' },
+                      ]}
+                    >
+                      <Input.Password
+                        prefix={<LockOutlined />}
+                        placeholder="請輸入密碼"
+                        autoComplete={isLogin ? 'current-password' : 'new-password'}
+                      />
+                    </Form.Item>
+
+                    {strength && (
+                      <div style={{ marginTop: '-16px', marginBottom: '16px', textAlign: 'left' }}>
+                        <Space>
+                          <Progress
+                            percent={(strength.score + 1) * 20}
+                            steps={5}
+                            showInfo={false}
+                            strokeColor={STRENGTH_LEVELS[strength.score].color}
+                          />
+                          <Text style={{ color: STRENGTH_LEVELS[strength.score].color }}>
+                            密碼強度：{STRENGTH_LEVELS[strength.score].label}
+                          </Text>
+                        </Space>
+                        {strength.warning && (
+                          <div>
+                            <Text type="secondary">{STRENGTH_WARNING_MESSAGES[strength.warning]}</Text>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {isLogin && (
+                      <div style={{ textAlign: 'right', marginTop: '-16px', marginBottom: '16px' }}>
+                        <Button
+                          type="link"
+                          onClick={() => router.push('/forgot-password')}
+                          style={{ padding: 0 }}
+                        >
+                          忘記密碼？
+                        </Button>
+                      </div>
+                    )}
+
+                    {!isLogin && (
+                      <Form.Item
+                        name="confirmPassword"
+                        label="確認密碼"
+                        dependencies={['password']}
+                        rules={[
+                          { required: true, message: '請確認密碼！' },
+                          ({ getFieldValue }) => ({
+                            validator(_, value) {
+                              if (!value || getFieldValue('password') === value) {
+                                return Promise.resolve();
+                              }
+                              return Promise.reject(new Error('密碼確認不一致！'));
+                            },
+                          }),
+                        ]}
+                      >
+                        <Input.Password
+                          prefix={<LockOutlined />}
+                          placeholder="請再次輸入密碼"
+                          autoComplete="new-password"
+                        />
+                      </Form.Item>
+                    )}
+
+                    <Form.Item style={{ marginBottom: '16px' }}>
+                      <Button
+                        type="primary"
+                        htmlType="submit"
+                        loading={isLoading}
+                        style={{ width: '100%', height: '48px' }}
+                      >
+                        {isLogin ? '登入' : '註冊'}
+                      </Button>
+                    </Form.Item>
+                  </Form>
+
+                  {isLogin && loginOptions?.sso.enabled && (
+                    <>
+                      <Divider plain style={{ margin: '0 0 16px' }}>
+                        <Text type="secondary">或</Text>
+                      </Divider>
+                      <Button
+                        icon={<LoginOutlined />}
+                        onClick={startSsoLogin}
+                        style={{ width: '100%', height: '48px', marginBottom: '16px' }}
+                      >
+                        使用 {loginOptions.sso.providerName} 登入
+                      </Button>
+                    </>
+                  )}
+
+                  {registrationEnabled ? (
+                    <div style={{ textAlign: 'center' }}>
+                      <Text type="secondary">
+                        {isLogin ? '還沒有帳號？' : '已經有帳號了？'}
+                      </Text>
+                      <Button type="link" onClick={switchMode} style={{ padding: '0 8px' }}>
+                        {isLogin ? '立即註冊' : '返回登入'}
+                      </Button>
+                    </div>
+                  ) : loginOptions && (
+                    <div style={{ textAlign: 'center' }}>
+                      <Text type="secondary">
+                        還沒有帳號？請聯絡管理員寄送邀請
+                      </Text>
+                    </div>
+                  )}
+                </>
+              )}
             </Space>
           </Card>
         </Col>
@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Space,
+  Input,
+  Form,
+  Alert,
+  Select,
+  Descriptions,
+  Tag,
+  message,
+} from 'antd';
+import { ArrowLeftOutlined, UserOutlined } from '@ant-design/icons';
+import { useAuth } from '../../contexts/auth-context';
+import { trpc } from '../../lib/trpc/client';
+import { DATASET_CONFIG, PROFILE_CONFIG, type Locale } from '../../lib/auth/constants';
+
+const { Header, Content } = Layout;
+const { Title, Text } = Typography;
+
+const LOCALE_LABELS: Record<Locale, string> = {
+  'zh-TW': '繁體中文',
+  'en-US': 'English',
+};
+
+const LOCALE_OPTIONS = PROFILE_CONFIG.LOCALES.map((locale) => ({
+  value: locale,
+  label: LOCALE_LABELS[locale],
+}));
+
+interface ProfileFormValues {
+  displayNameZh: string;
+  displayNameEn: string;
+  employeeId: string;
+  phone: string;
+  locale: Locale;
+  timezone: string;
+  // Undefined once the selection is cleared
+  defaultDatasetId?: string;
+}
+
+/**
+ * Time zones the browser knows about, falling back to the default where the list is unavailable
+ */
+function getTimeZoneOptions() {
+  const zones = typeof Intl.supportedValuesOf === 'function'
+    ? Intl.supportedValuesOf('timeZone')
+    : [PROFILE_CONFIG.DEFAULT_TIMEZONE];
+  return zones.map((zone) => ({ value: zone, label: zone }));
+}
+
+export default function ProfilePage() {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading, refreshProfile } = useAuth();
+  const [form] = Form.useForm<ProfileFormValues>();
+  const [error, setError] = useState<string>('');
+
+  const timeZoneOptions = useMemo(getTimeZoneOptions, []);
+
+  React.useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login?redirect=/profile');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const profileQuery = trpc.user.getProfile.useQuery(undefined, { enabled: isAuthenticated });
+  const profile = profileQuery.data?.user;
+
+  const datasetsQuery = trpc.dataset.list.useQuery(
+    { pageSize: DATASET_CONFIG.LIST_MAX_PAGE_SIZE },
+    { enabled: isAuthenticated }
+  );
+  const datasetOptions = (datasetsQuery.data?.datasets ?? []).map((dataset) => ({
+    value: dataset.id,
+    label: dataset.name,
+  }));
+
+  React.useEffect(() => {
+    if (profile) {
+      form.setFieldsValue({
+        displayNameZh: profile.displayNameZh ?? '',
+        displayNameEn: profile.displayNameEn ?? '',
+        employeeId: profile.employeeId ?? '',
+        phone: profile.phone ?? '',
+        locale: profile.locale as Locale,
+        timezone: profile.timezone,
+        defaultDatasetId: profile.defaultDatasetId ?? undefined,
+      });
+    }
+  }, [profile, form]);
+
+  const updateProfileMutation = trpc.user.updateProfile.useMutation({
+    onSuccess: async () => {
+      message.success('個人資料已更新');
+      await Promise.all([profileQuery.refetch(), refreshProfile()]);
+    },
+    onError: (error) => {
+      setError(error.message || '更新個人資料失敗，請稍後再試');
+    },
+  });
+
+  const handleSubmit = (values: ProfileFormValues) => {
+    setError('');
+    updateProfileMutation.mutate({
+      displayNameZh: values.displayNameZh,
+      displayNameEn: values.displayNameEn,
+      employeeId: values.employeeId,
+      phone: values.phone,
+      locale: values.locale,
+      timezone: values.timezone,
+      defaultDatasetId: values.defaultDatasetId ?? null,
+    });
+  };
+
+  if (isLoading || !isAuthenticated || !user) {
+    return null; // Will redirect
+  }
+
+  return (
+    <Layout style={{ minHeight: '100vh' }}>
+      <Header style={{
+        background: '#fff',
+        padding: '0 24px',
+        borderBottom: '1px solid #f0f0f0',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <Space>
+          <Button type="text" icon={<ArrowLeftOutlined />} onClick={() => router.push('/dashboard')} />
+          <Title level={3} style={{ margin: 0, color: '#1677ff' }}>
+            個人資料
+          </Title>
+        </Space>
+        <Text>
+          <UserOutlined /> {user.email}
+        </Text>
+      </Header>
+
+      <Content style={{ padding: '24px', background: '#f5f5f5' }}>
+        <div style={{ maxWidth: '800px', margin: '0 auto' }}>
+          <Space direction="vertical" size="large" style={{ width: '100%' }}>
+            <Card title="帳號" loading={profileQuery.isLoading}>
+              {profile && (
+                <Descriptions column={1}>
+                  <Descriptions.Item label="電子郵件">{profile.email}</Descriptions.Item>
+                  <Descriptions.Item label="角色">{profile.role}</Descriptions.Item>
+                  <Descriptions.Item label="部門">
+                    {profile.departments.length > 0
+                      ? profile.departments.map((department) => (
+                        <Tag key={department.departmentId}>{department.code}</Tag>
+                      ))
+                      : <Text type="secondary">未加入任何部門</Text>}
+                  </Descriptions.Item>
+                  <Descriptions.Item label="建立時間">
+                    {new Date(profile.createdAt).toLocaleString('zh-TW')}
+                  </Descriptions.Item>
+                </Descriptions>
+              )}
+            </Card>
+
+            <Card title="基本資料" loading={profileQuery.isLoading}>
+              {error && (
+                <Alert message={error} type="error" showIcon style={{ marginBottom: '16px' }} />
+              )}
+
+              <Form
+                form={form}
+                name="profile"
+                onFinish={handleSubmit}
+                layout="vertical"
+                autoComplete="off"
+              >
+                <Form.Item
+                  name="displayNameZh"
+                  label="中文姓名"
+                  rules={[{ max: PROFILE_CONFIG.DISPLAY_NAME_MAX_LENGTH, message: `中文姓名不可超過 ${PROFILE_CONFIG.DISPLAY_NAME_MAX_LENGTH} 個字元！` }]}
+                >
+                  <Input placeholder="王小明" />
+                </Form.Item>
+
+                <Form.Item
+                  name="displayNameEn"
+                  label="英文姓名"
+                  rules={[{ max: PROFILE_CONFIG.DISPLAY_NAME_MAX_LENGTH, message: `英文姓名不可超過 ${PROFILE_CONFIG.DISPLAY_NAME_MAX_LENGTH} 個字元！` }]}
+                >
+                  <Input placeholder="Ming Wang" />
+                </Form.Item>
+
+                <Form.Item
+                  name="employeeId"
+                  label="員工編號"
+                  rules={[
+                    { max: PROFILE_CONFIG.EMPLOYEE_ID_MAX_LENGTH, message: `員工編號不可超過 ${PROFILE_CONFIG.EMPLOYEE_ID_MAX_LENGTH} 個字元！` },
+                    { pattern: /^[A-Za-z0-9-]*$/, message: '員工編號只能包含英文字母、數字與連字號！' },
+                  ]}
+                >
+                  <Input placeholder="E0001" />
+                </Form.Item>
+
+                <Form.Item
+                  name="phone"
+                  label="電話"
+                  rules={[
+                    { max: PROFILE_CONFIG.PHONE_MAX_LENGTH, message: `電話不可超過 ${PROFILE_CONFIG.PHONE_MAX_LENGTH} 個字元！` },
+                    { pattern: /^(\+?[0-9][0-9 ()-]*)?$/, message: '請輸入有效的電話號碼！' },
+                  ]}
+                >
+                  <Input placeholder="+886 2 1234 5678" />
+                </Form.Item>
+
+                <Form.Item
+                  name="locale"
+                  label="語系"
+                  rules={[{ required: true, message: '請選擇語系！' }]}
+                >
+                  <Select options={LOCALE_OPTIONS} />
+                </Form.Item>
+
+                <Form.Item
+                  name="timezone"
+                  label="時區"
+                  rules={[{ required: true, message: '請選擇時區！' }]}
+                >
+                  <Select showSearch options={timeZoneOptions} />
+                </Form.Item>
+
+                <Form.Item
+                  name="defaultDatasetId"
+                  label="預設資料集"
+                  extra="開啟智慧問答時預先選取的資料集"
+                >
+                  <Select
+                    showSearch
+                    allowClear
+                    optionFilterProp="label"
+                    placeholder="不指定"
+                    loading={datasetsQuery.isLoading}
+                    options={datasetOptions}
+                  />
+                </Form.Item>
+
+                <Form.Item style={{ marginBottom: 0 }}>
+                  <Button
+                    type="primary"
+                    htmlType="submit"
+                    loading={updateProfileMutation.isPending}
+                  >
+                    儲存
+                  </Button>
+                </Form.Item>
+              </Form>
+            </Card>
+          </Space>
+        </div>
+      </Content>
+    </Layout>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Form, Input, Button, Card, Typography, Space, Alert, Row, Col } from 'antd';
+import { LockOutlined } from '@ant-design/icons';
+import { trpc } from '../../lib/trpc/client';
+
+const { Title, Text } = Typography;
+
+interface ResetPasswordFormValues {
+  password: string;
+  confirmPassword: string;
+}
+
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [error, setError] = useState<string>('');
+  const [isReset, setIsReset] = useState(false);
+
+  const resetPasswordMutation = trpc.auth.resetPassword.useMutation({
+    onSuccess: () => {
+      setIsReset(true);
+    },
+    onError: (error) => {
+      setError(error.message || '重設密碼失敗，請稍後再試');
+    },
+  });
+
+  const handleSubmit = (values: ResetPasswordFormValues) => {
+    setError('');
+
+    if (values.password !== values.confirmPassword) {
+      setError('密碼確認不一致');
+      return;
+    }
+
+    resetPasswordMutation.mutate({
+      token,
+      password: values.password,
+    });
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '24px'
+    }}>
+      <Row justify="center" style={{ width: '100%', maxWidth: '400px' }}>
+        <Col span={24}>
+          <Card
+            style={{
+              boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+              borderRadius: '8px',
+            }}
+          >
+            <Space direction="vertical" size="large" style={{ width: '100%', textAlign: 'center' }}>
+              <div>
+                <Title level={2} style={{ marginBottom: '8px', color: '#1677ff' }}>
+                  重設密碼
+                </Title>
+                <Text type="secondary">
+                  請設定您的新密碼
+                </Text>
+              </div>
+
+              {!token && (
+                <Alert message="重設密碼連結無效，請重新申請。" type="error" showIcon />
+              )}
+
+              {error && (
+                <Alert message={error} type="error" showIcon />
+              )}
+
+              {isReset ? (
+                <Alert
+                  message="密碼已重設成功，所有裝置都已登出，請使用新密碼登入。"
+                  type="success"
+                  showIcon
+                />
+              ) : (
+                <Form
+                  name="reset-password"
+                  onFinish={handleSubmit}
+                  layout="vertical"
+                  size="large"
+                  autoComplete="off"
+                  disabled={!token}
+                >
+                  <Form.Item
+                    name="password"
+                    label="新密碼"
+                    rules={[
+                      { required: true, message: '請輸入新密碼！' },
+                      { min: 8, message: '密碼至少需要8個字元！' },
+                    ]}
+                  >
+                    <Input.Password
+                      prefix={<LockOutlined />}
+                      placeholder="請輸入新密碼"
+                      autoComplete="new-password"
+                    />
+                  </Form.Item>
+
+                  <Form.Item
+                    name="confirmPassword"
+                    label="確認新密碼"
+                    dependencies={['password']}
+                    rules={[
+                      { required: true, message: '請確認密碼！' },
+                      ({ getFieldValue }) => ({
+                        validator(_, value) {
+                          if (!value || getFieldValue('password') === value) {
+                            return Promise.resolve();
+                          }
+                          return Promise.reject(new Error('密碼確認不一致！'));
+                        },
+                      }),
+                    ]}
+                  >
+                    <Input.Password
+                      prefix={<LockOutlined />}
+                      placeholder="請再次輸入新密碼"
+                      autoComplete="new-password"
+                    />
+                  </Form.Item>
+
+                  <Form.Item style={{ marginBottom: '16px' }}>
+                    <Button
+                      type="primary"
+                      htmlType="submit"
+                      loading={resetPasswordMutation.isPending}
+                      style={{ width: '100%', height: '48px' }}
+                    >
+                      重設密碼
+                    </Button>
+                  </Form.Item>
+                </Form>
+              )}
+
+              <div style={{ textAlign: 'center' }}>
+                <Button type="link" onClick={() => router.push(isReset ? '/login' : '/forgot-password')}>
+                  {isReset ? '前往登入' : '重新申請重設連結'}
+                </Button>
+              </div>
+            </Space>
+          </Card>
+        </Col>
+      </Row>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Form, Input, Button, Card, Typography, Space, Alert, Row, Col, message } from 'antd';
+import { LockOutlined } from '@ant-design/icons';
+import { useAuth } from '../../../contexts/auth-context';
+import { trpc } from '../../../lib/trpc/client';
+import { toSafeRedirectPath } from '../../../lib/auth/redirect';
+
+const { Title, Text } = Typography;
+
+interface ChangePasswordFormValues {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+export default function ChangePasswordPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { isAuthenticated, isLoading } = useAuth();
+  const [error, setError] = useState<string>('');
+
+  // Only follow redirects within the app
+  const redirectTo = toSafeRedirectPath(searchParams.get('redirect'));
+
+  React.useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push(`/login?redirect=${encodeURIComponent('/settings/password')}`);
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const changePasswordMutation = trpc.user.changePassword.useMutation({
+    onSuccess: () => {
+      message.success('密碼已變更，其他裝置上的登入都已登出。');
+      router.push(redirectTo);
+    },
+    onError: (error) => {
+      setError(error.message || '變更密碼失敗，請稍後再試');
+    },
+  });
+
+  const handleSubmit = (values: ChangePasswordFormValues) => {
+    setError('');
+
+    if (values.newPassword !== values.confirmPassword) {
+      setError('密碼確認不一致');
+      return;
+    }
+
+    changePasswordMutation.mutate({
+      currentPassword: values.currentPassword,
+      newPassword: values.newPassword,
+    });
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '24px'
+    }}>
+      <Row justify="center" style={{ width: '100%', maxWidth: '400px' }}>
+        <Col span={24}>
+          <Card
+            style={{
+              boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+              borderRadius: '8px',
+            }}
+          >
+            <Space direction="vertical" size="large" style={{ width: '100%', textAlign: 'center' }}>
+              <div>
+                <Title level={2} style={{ marginBottom: '8px', color: '#1677ff' }}>
+                  變更密碼
+                </Title>
+                <Text type="secondary">
+                  新密碼不可與最近使用過的密碼相同
+                </Text>
+              </div>
+
+              {error && (
+                <Alert message={error} type="error" showIcon />
+              )}
+
+              <Form
+                name="change-password"
+                onFinish={handleSubmit}
+                layout="vertical"
+                size="large"
+                autoComplete="off"
+              >
+                <Form.Item
+                  name="currentPassword"
+                  label="目前密碼"
+                  rules={[{ required: true, message: '請輸入目前密碼！' }]}
+                >
+                  <Input.Password
+                    prefix={<LockOutlined />}
+                    placeholder="請輸入目前密碼"
+                    autoComplete="current-password"
+                  />
+                </Form.Item>
+
+                <Form.Item
+                  name="newPassword"
+                  label="新密碼"
+                  rules={[
+                    { required: true, message: '請輸入新密碼！' },
+                    { min: 8, message: '密碼至少需要8個字元！' },
+                  ]}
+                >
+                  <Input.Password
+                    prefix={<LockOutlined />}
+                    placeholder="請輸入新密碼"
+                    autoComplete="new-password"
+                  />
+                </Form.Item>
+
+                <Form.Item
+                  name="confirmPassword"
+                  label="確認新密碼"
+                  dependencies={['newPassword']}
+                  rules={[
+                    { required: true, message: '請確認密碼！' },
+                    ({ getFieldValue }) => ({
+                      validator(_, value) {
+                        if (!value || getFieldValue('newPassword') === value) {
+                          return Promise.resolve();
+                        }
+                        return Promise.reject(new Error('密碼確認不一致！'));
+                      },
+                    }),
+                  ]}
+                >
+                  <Input.Password
+                    prefix={<LockOutlined />}
+                    placeholder="請再次輸入新密碼"
+                    autoComplete="new-password"
+                  />
+                </Form.Item>
+
+                <Form.Item style={{ marginBottom: '16px' }}>
+                  <Button
+                    type="primary"
+                    htmlType="submit"
+                    loading={changePasswordMutation.isPending}
+                    style={{ width: '100%', height: '48px' }}
+                  >
+                    變更密碼
+                  </Button>
+                </Form.Item>
+              </Form>
+            </Space>
+          </Card>
+        </Col>
+      </Row>
+    </div>
+  );
+}
@@ -0,0 +1,719 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Layout,
+  Typography,
+  Button,
+  Card,
+  Space,
+  Input,
+  Form,
+  Alert,
+  QRCode,
+  Tag,
+  Modal,
+  Table,
+  Select,
+  Checkbox,
+  Popconfirm,
+  message,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  ArrowLeftOutlined,
+  DesktopOutlined,
+  DownloadOutlined,
+  HistoryOutlined,
+  KeyOutlined,
+  LockOutlined,
+  LoginOutlined,
+  PlusOutlined,
+  SafetyOutlined,
+  UserOutlined,
+} from '@ant-design/icons';
+import { useAuth } from '../../../contexts/auth-context';
+import { trpc } from '../../../lib/trpc/client';
+import { getRolePermissions, type Permission } from '../../../lib/auth/permissions';
+import { AUDIT_ACTIONS, OIDC_CONFIG } from '../../../lib/auth/constants';
+
+const { Header, Content } = Layout;
+const { Title, Text, Paragraph } = Typography;
+
+interface CodeFormValues {
+  code: string;
+}
+
+type CodeAction = 'disable' | 'regenerate';
+
+interface CreateApiKeyFormValues {
+  name: string;
+  scopes: Permission[];
+  // 0 means the key never expires
+  expiresInDays: number;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+interface SessionRow {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+interface LoginHistoryRow {
+  id: string;
+  action: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+const LOGIN_HISTORY_LABELS: Record<string, { label: string; color?: string }> = {
+  [AUDIT_ACTIONS.LOGIN_SUCCEEDED]: { label: '登入成功', color: 'green' },
+  [AUDIT_ACTIONS.LOGIN_FAILED]: { label: '登入失敗', color: 'red' },
+  [AUDIT_ACTIONS.LOGOUT]: { label: '登出' },
+  [AUDIT_ACTIONS.LOGOUT_ALL]: { label: '登出所有裝置' },
+  [AUDIT_ACTIONS.SESSION_REVOKED]: { label: '登出其他裝置', color: 'orange' },
+};
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Summarize a user agent as e.g. "Chrome · Windows"; order matters, since Edge and Opera also claim Chrome
+ */
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return '未知裝置';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  return [browser, os].filter(Boolean).join(' · ') || userAgent.slice(0, 60);
+}
+
+type ExportFormat = 'json' | 'zip';
+
+function downloadExport(filename: string, mimeType: string, content: string, encoding: 'utf8' | 'base64') {
+  const blob = encoding === 'base64'
+    ? new Blob([Uint8Array.from(atob(content), (char) => char.charCodeAt(0))], { type: mimeType })
+    : new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 30, label: '30 天' },
+  { value: 90, label: '90 天' },
+  { value: 365, label: '1 年' },
+  { value: 0, label: '永不過期' },
+];
+
+export default function SecuritySettingsPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading, logout } = useAuth();
+  const [confirmForm] = Form.useForm<CodeFormValues>();
+  const [actionForm] = Form.useForm<CodeFormValues>();
+  // Pending enrollment: the secret is only shown until the first code is confirmed
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  // Recovery codes are only returned once, so keep them on screen until dismissed
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [apiKeyForm] = Form.useForm<CreateApiKeyFormValues>();
+  const [isCreateApiKeyOpen, setIsCreateApiKeyOpen] = useState(false);
+  // The full key is only returned at creation, so keep it on screen until dismissed
+  const [createdApiKey, setCreatedApiKey] = useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.push('/login?redirect=/settings/security');
+    }
+  }, [isAuthenticated, isLoading, router]);
+
+  const utils = trpc.useUtils();
+  const statusQuery = trpc.mfa.status.useQuery(undefined, { enabled: isAuthenticated });
+  const apiKeysQuery = trpc.user.apiKeys.list.useQuery(undefined, { enabled: isAuthenticated });
+  const sessionsQuery = trpc.user.sessions.useQuery(undefined, { enabled: isAuthenticated });
+  const loginHistoryQuery = trpc.user.loginHistory.useQuery(undefined, { enabled: isAuthenticated });
+  const { data: loginOptions } = trpc.auth.getLoginOptions.useQuery();
+
+  const onMutationError = (error: { message: string }) => {
+    message.error(error.message || '操作失敗，請稍後再試');
+  };
+
+  const beginEnrollmentMutation = trpc.mfa.beginEnrollment.useMutation({
+    onSuccess: (data) => {
+      setEnrollment({ secret: data.secret, otpauthUri: data.otpauthUri });
+      confirmForm.resetFields();
+    },
+    onError: onMutationError,
+  });
+
+  const confirmEnrollmentMutation = trpc.mfa.confirmEnrollment.useMutation({
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      message.success('已啟用兩步驟驗證');
+      void utils.mfa.status.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const closeCodeAction = () => {
+    setCodeAction(null);
+    actionForm.resetFields();
+  };
+
+  const disableMutation = trpc.mfa.disable.useMutation({
+    onSuccess: () => {
+      closeCodeAction();
+      setRecoveryCodes(null);
+      message.success('已停用兩步驟驗證');
+      void utils.mfa.status.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const regenerateMutation = trpc.mfa.regenerateRecoveryCodes.useMutation({
+    onSuccess: (data) => {
+      closeCodeAction();
+      setRecoveryCodes(data.recoveryCodes);
+      message.success('已產生新的復原碼');
+      void utils.mfa.status.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const createApiKeyMutation = trpc.user.apiKeys.create.useMutation({
+    onSuccess: (data) => {
+      setIsCreateApiKeyOpen(false);
+      setCreatedApiKey(data.key);
+      message.success('已建立 API 金鑰');
+      void utils.user.apiKeys.list.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const revokeApiKeyMutation = trpc.user.apiKeys.revoke.useMutation({
+    onSuccess: () => {
+      message.success('已撤銷 API 金鑰');
+      void utils.user.apiKeys.list.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const revokeSessionMutation = trpc.user.revokeSession.useMutation({
+    onSuccess: () => {
+      message.success('已登出該裝置');
+      void utils.user.sessions.invalidate();
+      void utils.user.loginHistory.invalidate();
+    },
+    onError: onMutationError,
+  });
+
+  const exportMyDataMutation = trpc.user.exportMyData.useMutation({
+    onSuccess: (data) => {
+      downloadExport(data.filename, data.mimeType, data.content, data.encoding);
+    },
+    onError: onMutationError,
+  });
+
+  const deleteAccountMutation = trpc.user.deleteAccount.useMutation({
+    onSuccess: (data) => {
+      message.success(`帳號已刪除，資料將於 ${new Date(data.purgeAfter).toLocaleDateString('zh-TW')} 後永久移除`);
+      logout();
+      router.push('/login');
+    },
+    onError: onMutationError,
+  });
+
+  const handleCreateApiKey = (values: CreateApiKeyFormValues) => {
+    createApiKeyMutation.mutate({
+      name: values.name,
+      scopes: values.scopes,
+      expiresInDays: values.expiresInDays || undefined,
+    });
+  };
+
+  const handleCodeAction = (values: CodeFormValues) => {
+    if (codeAction === 'disable') {
+      disableMutation.mutate({ code: values.code });
+    } else if (codeAction === 'regenerate') {
+      regenerateMutation.mutate({ code: values.code });
+    }
+  };
+
+  const apiKeyColumns: ColumnsType<ApiKeyRow> = [
+    {
+      title: '名稱',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, record) => (
+        <Space direction="vertical" size={0}>
+          <Text>{name}</Text>
+          <Text type="secondary" code>{record.prefix}_…</Text>
+        </Space>
+      ),
+    },
+    {
+      title: '權限範圍',
+      dataIndex: 'scopes',
+      key: 'scopes',
+      render: (scopes: string[]) => (
+        <Space size={[0, 4]} wrap>
+          {scopes.map((scope) => <Tag key={scope}>{scope}</Tag>)}
+        </Space>
+      ),
+    },
+    {
+      title: '最後使用',
+      dataIndex: 'lastUsedAt',
+      key: 'lastUsedAt',
+      render: (lastUsedAt: Date | null, record) => (
+        lastUsedAt
+          ? `${new Date(lastUsedAt).toLocaleString('zh-TW')}${record.lastUsedIp ? ` (${record.lastUsedIp})` : ''}`
+          : '尚未使用'
+      ),
+    },
+    {
+      title: '狀態',
+      key: 'status',
+      render: (_, record) => {
+        if (record.revokedAt) {
+          return <Tag>已撤銷</Tag>;
+        }
+        if (record.expiresAt && new Date(record.expiresAt) <= new Date()) {
+          return <Tag color="orange">已過期</Tag>;
+        }
+        return (
+          <Space direction="vertical" size={0}>
+            <Tag color="green">有效</Tag>
+            {record.expiresAt && (
+              <Text type="secondary">至 {new Date(record.expiresAt).toLocaleDateString('zh-TW')}</Text>
+            )}
+          </Space>
+        );
+      },
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      render: (_, record) => (
+        !record.revokedAt && (
+          <Popconfirm
+            title="確定要撤銷此 API 金鑰？"
+            description="使用此金鑰的程式將無法再存取平台。"
+            onConfirm={() => revokeApiKeyMutation.mutate({ id: record.id })}
+          >
+            <Button type="link" danger>撤銷</Button>
+          </Popconfirm>
+        )
+      ),
+    },
+  ];
+
+  const sessionColumns: ColumnsType<SessionRow> = [
+    {
+      title: '裝置',
+      dataIndex: 'userAgent',
+      key: 'userAgent',
+      render: (userAgent: string | null, record) => (
+        <Space direction="vertical" size={0}>
+          <Space size="small">
+            <Text>{describeUserAgent(userAgent)}</Text>
+            {record.current && <Tag color="blue">目前裝置</Tag>}
+          </Space>
+          {record.ipAddress && <Text type="secondary">{record.ipAddress}</Text>}
+        </Space>
+      ),
+    },
+    {
+      title: '登入時間',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      render: (createdAt: Date) => new Date(createdAt).toLocaleString('zh-TW'),
+    },
+    {
+      title: '最後活動',
+      dataIndex: 'lastSeenAt',
+      key: 'lastSeenAt',
+      render: (lastSeenAt: Date) => new Date(lastSeenAt).toLocaleString('zh-TW'),
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      render: (_, record) => (
+        !record.current && (
+          <Popconfirm
+            title="確定要登出此裝置？"
+            onConfirm={() => revokeSessionMutation.mutate({ sessionId: record.id })}
+          >
+            <Button type="link" danger>登出</Button>
+          </Popconfirm>
+        )
+      ),
+    },
+  ];
+
+  const loginHistoryColumns: ColumnsType<LoginHistoryRow> = [
+    {
+      title: '時間',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      render: (createdAt: Date) => new Date(createdAt).toLocaleString('zh-TW'),
+    },
+    {
+      title: '事件',
+      dataIndex: 'action',
+      key: 'action',
+      render: (action: string) => {
+        const label = LOGIN_HISTORY_LABELS[action];
+        return <Tag color={label?.color}>{label?.label ?? action}</Tag>;
+      },
+    },
+    {
+      title: '裝置',
+      dataIndex: 'userAgent',
+      key: 'userAgent',
+      render: (userAgent: string | null, record) => (
+        <Space direction="vertical" size={0}>
+          <Text>{describeUserAgent(userAgent)}</Text>
+          {record.ipAddress && <Text type="secondary">{record.ipAddress}</Text>}
+        </Space>
+      ),
+    },
+  ];
+
+  if (isLoading || !isAuthenticated || !user) {
+    return null; // Will redirect
+  }
+
+  const status = statusQuery.data;
+  const scopeOptions = user.role ? getRolePermissions(user.role) : [];
+
+  return (
+    <Layout style={{ minHeight: '100vh' }}>
+      <Header style={{
+        background: '#fff',
+        padding: '0 24px',
+        borderBottom: '1px solid #f0f0f0',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <Space>
+          <Button type="text" icon={<ArrowLeftOutlined />} onClick={() => router.push('/dashboard')} />
+          <Title level={3} style={{ margin: 0, color: '#1677ff' }}>
+            安全性設定
+          </Title>
+        </Space>
+        <Text>
+          <UserOutlined /> {user.email}
+        </Text>
+      </Header>
+
+      <Content style={{ padding: '24px', background: '#f5f5f5' }}>
+        <div style={{ maxWidth: '800px', margin: '0 auto' }}>
+          <Card title={<Space><LockOutlined />密碼</Space>}>
+            <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+              <Text>變更密碼後，其他裝置上的登入都會被登出。</Text>
+              <Button onClick={() => router.push('/settings/password?redirect=/settings/security')}>
+                變更密碼
+              </Button>
+            </Space>
+          </Card>
+
+          {loginOptions?.sso.enabled && (
+            <Card title={<Space><LoginOutlined />單一登入</Space>} style={{ marginTop: '24px' }}>
+              <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+                <Text>連結後即可使用 {loginOptions.sso.providerName} 登入此帳號，不需輸入密碼或驗證碼。</Text>
+                <Button
+                  onClick={() => window.location.assign(`${OIDC_CONFIG.LOGIN_PATH}?link=1&redirect=/settings/security`)}
+                >
+                  連結 {loginOptions.sso.providerName} 帳號
+                </Button>
+              </Space>
+            </Card>
+          )}
+
+          <Card title={<Space><DesktopOutlined />登入裝置</Space>} style={{ marginTop: '24px' }}>
+            <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+              <Text>以下是目前登入您帳號的裝置。若發現不認得的裝置，請將其登出並變更密碼。</Text>
+              <Table<SessionRow>
+                rowKey="id"
+                size="small"
+                columns={sessionColumns}
+                dataSource={sessionsQuery.data ?? []}
+                loading={sessionsQuery.isLoading}
+                pagination={false}
+              />
+            </Space>
+          </Card>
+
+          <Card
+            title={<Space><SafetyOutlined />兩步驟驗證</Space>}
+            style={{ marginTop: '24px' }}
+            loading={statusQuery.isLoading}
+            extra={status?.enabled ? <Tag color="green">已啟用</Tag> : <Tag>未啟用</Tag>}
+          >
+            <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+              {recoveryCodes && (
+                <Alert
+                  type="warning"
+                  showIcon
+                  closable
+                  onClose={() => setRecoveryCodes(null)}
+                  message="請妥善保存以下復原碼"
+                  description={
+                    <Space direction="vertical">
+                      <Paragraph copyable={{ text: recoveryCodes.join('\n') }} style={{ margin: 0 }}>
+                        {recoveryCodes.map((code) => (
+                          <div key={code}><Text code>{code}</Text></div>
+                        ))}
+                      </Paragraph>
+                      <Text type="secondary">
+                        遺失驗證器時可用復原碼登入，每組只能使用一次。此清單只會顯示這一次。
+                      </Text>
+                    </Space>
+                  }
+                />
+              )}
+
+              {status?.enabled ? (
+                <>
+                  <Text>
+                    登入時除了密碼，還需要輸入驗證器 App 產生的驗證碼。剩餘復原碼：{status.recoveryCodesRemaining} 組。
+                  </Text>
+                  <Space>
+                    <Button onClick={() => setCodeAction('regenerate')}>重新產生復原碼</Button>
+                    <Button danger onClick={() => setCodeAction('disable')}>停用兩步驟驗證</Button>
+                  </Space>
+                </>
+              ) : enrollment ? (
+                <>
+                  <Text>請使用 Google Authenticator 等驗證器 App 掃描 QR Code，或手動輸入金鑰。</Text>
+                  <QRCode value={enrollment.otpauthUri} />
+                  <Paragraph copyable={{ text: enrollment.secret }} style={{ margin: 0 }}>
+                    <Text code>{enrollment.secret}</Text>
+                  </Paragraph>
+                  <Form
+                    form={confirmForm}
+                    layout="inline"
+                    onFinish={(values) => confirmEnrollmentMutation.mutate({ code: values.code })}
+                  >
+                    <Form.Item name="code" rules={[{ required: true, message: '請輸入驗證碼！' }]}>
+                      <Input placeholder="6 位數驗證碼" autoComplete="one-time-code" />
+                    </Form.Item>
+                    <Form.Item>
+                      <Button type="primary" htmlType="submit" loading={confirmEnrollmentMutation.isPending}>
+                        確認啟用
+                      </Button>
+                    </Form.Item>
+                    <Form.Item>
+                      <Button onClick={() => setEnrollment(null)}>取消</Button>
+                    </Form.Item>
+                  </Form>
+                </>
+              ) : (
+                <>
+                  <Text>啟用後，登入時除了密碼還需要輸入驗證器 App 產生的驗證碼，可保護報價與合約等敏感資料。</Text>
+                  <Button
+                    type="primary"
+                    loading={beginEnrollmentMutation.isPending}
+                    onClick={() => beginEnrollmentMutation.mutate()}
+                  >
+                    啟用兩步驟驗證
+                  </Button>
+                </>
+              )}
+            </Space>
+          </Card>
+
+          <Card
+            title={<Space><KeyOutlined />API 金鑰</Space>}
+            style={{ marginTop: '24px' }}
+            extra={
+              <Button icon={<PlusOutlined />} onClick={() => setIsCreateApiKeyOpen(true)}>
+                建立金鑰
+              </Button>
+            }
+          >
+            <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+              <Text>
+                供腳本與服務帳號呼叫平台 API，請在請求中加入 <Text code>Authorization: ApiKey &lt;金鑰&gt;</Text>。
+              </Text>
+
+              {createdApiKey && (
+                <Alert
+                  type="warning"
+                  showIcon
+                  closable
+                  onClose={() => setCreatedApiKey(null)}
+                  message="請立即複製並妥善保存此金鑰"
+                  description={
+                    <Space direction="vertical">
+                      <Paragraph copyable={{ text: createdApiKey }} style={{ margin: 0 }}>
+                        <Text code>{createdApiKey}</Text>
+                      </Paragraph>
+                      <Text type="secondary">此金鑰只會顯示這一次，遺失後請撤銷並重新建立。</Text>
+                    </Space>
+                  }
+                />
+              )}
+
+              <Table<ApiKeyRow>
+                rowKey="id"
+                size="small"
+                columns={apiKeyColumns}
+                dataSource={apiKeysQuery.data ?? []}
+                loading={apiKeysQuery.isLoading}
+                pagination={false}
+              />
+            </Space>
+          </Card>
+
+          <Card title={<Space><HistoryOutlined />登入紀錄</Space>} style={{ marginTop: '24px' }}>
+            <Table<LoginHistoryRow>
+              rowKey="id"
+              size="small"
+              columns={loginHistoryColumns}
+              dataSource={loginHistoryQuery.data ?? []}
+              loading={loginHistoryQuery.isLoading}
+              pagination={false}
+            />
+          </Card>
+
+          <Card title={<Space><UserOutlined />個人資料與帳號</Space>} style={{ marginTop: '24px' }}>
+            <Space direction="vertical" size="large" style={{ width: '100%' }}>
+              <div>
+                <Paragraph>
+                  下載平台中與您有關的資料，包含個人資料、部門、登入裝置、API 金鑰與操作紀錄，不含密碼等機密資訊。
+                </Paragraph>
+                <Space>
+                  {(['json', 'zip'] as ExportFormat[]).map((format) => (
+                    <Button
+                      key={format}
+                      icon={<DownloadOutlined />}
+                      loading={exportMyDataMutation.isPending && exportMyDataMutation.variables?.format === format}
+                      onClick={() => exportMyDataMutation.mutate({ format })}
+                    >
+                      下載 {format.toUpperCase()}
+                    </Button>
+                  ))}
+                </Space>
+              </div>
+
+              <div>
+                <Paragraph>
+                  刪除帳號後會立即登出所有裝置，且無法再登入。保留期限內可聯絡系統管理員復原，期限過後資料將永久移除。
+                </Paragraph>
+                <Popconfirm
+                  title="確定要刪除您的帳號？"
+                  description="您將立即被登出。"
+                  okText="刪除"
+                  okButtonProps={{ danger: true }}
+                  onConfirm={() => deleteAccountMutation.mutate()}
+                >
+                  <Button danger loading={deleteAccountMutation.isPending}>
+                    刪除帳號
+                  </Button>
+                </Popconfirm>
+              </div>
+            </Space>
+          </Card>
+        </div>
+      </Content>
+
+      <Modal
+        title="建立 API 金鑰"
+        open={isCreateApiKeyOpen}
+        okText="建立"
+        cancelText="取消"
+        confirmLoading={createApiKeyMutation.isPending}
+        onOk={() => apiKeyForm.submit()}
+        onCancel={() => setIsCreateApiKeyOpen(false)}
+        destroyOnClose
+      >
+        <Form<CreateApiKeyFormValues>
+          form={apiKeyForm}
+          layout="vertical"
+          initialValues={{ scopes: [], expiresInDays: 90 }}
+          onFinish={handleCreateApiKey}
+        >
+          <Form.Item
+            name="name"
+            label="名稱"
+            rules={[{ required: true, whitespace: true, message: '請輸入金鑰名稱！' }]}
+          >
+            <Input placeholder="例如：每日報價匯入腳本" maxLength={100} />
+          </Form.Item>
+          <Form.Item
+            name="scopes"
+            label="權限範圍"
+            rules={[{ required: true, type: 'array', min: 1, message: '請至少選擇一項權限！' }]}
+          >
+            <Checkbox.Group options={scopeOptions} />
+          </Form.Item>
+          <Form.Item name="expiresInDays" label="有效期限">
+            <Select options={EXPIRY_OPTIONS} />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      <Modal
+        title={codeAction === 'disable' ? '停用兩步驟驗證' : '重新產生復原碼'}
+        open={codeAction !== null}
+        onCancel={closeCodeAction}
+        onOk={() => actionForm.submit()}
+        okButtonProps={{ danger: codeAction === 'disable' }}
+        confirmLoading={disableMutation.isPending || regenerateMutation.isPending}
+        okText="確認"
+        cancelText="取消"
+        destroyOnClose
+      >
+        <Form form={actionForm} layout="vertical" onFinish={handleCodeAction}>
+          <Form.Item
+            name="code"
+            label="請輸入驗證碼或復原碼以確認"
+            rules={[{ required: true, message: '請輸入驗證碼！' }]}
+          >
+            <Input autoComplete="one-time-code" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Layout>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button, Card, Typography, Space, Alert, Row, Col, Spin } from 'antd';
+import { trpc } from '../../lib/trpc/client';
+
+const { Title } = Typography;
+
+export default function VerifyEmailPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  // Tokens are single-use, so make sure the effect only submits once (React strict mode runs it twice)
+  const hasSubmitted = useRef(false);
+
+  const verifyEmailMutation = trpc.auth.verifyEmail.useMutation();
+
+  useEffect(() => {
+    if (token && !hasSubmitted.current) {
+      hasSubmitted.current = true;
+      verifyEmailMutation.mutate({ token });
+    }
+  }, [token, verifyEmailMutation]);
+
+  const renderStatus = () => {
+    if (!token) {
+      return <Alert message="驗證連結無效，請重新申請驗證信。" type="error" showIcon />;
+    }
+    if (verifyEmailMutation.isSuccess) {
+      return <Alert message="電子郵件驗證成功！現在可以登入了。" type="success" showIcon />;
+    }
+    if (verifyEmailMutation.isError) {
+      return (
+        <Alert
+          message={verifyEmailMutation.error.message || '驗證失敗，請稍後再試'}
+          description="請回到登入頁面，使用「重新寄送驗證信」取得新的驗證連結。"
+          type="error"
+          showIcon
+        />
+      );
+    }
+    return <Spin tip="驗證中..."><div style={{ height: '48px' }} /></Spin>;
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: 'linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '24px'
+    }}>
+      <Row justify="center" style={{ width: '100%', maxWidth: '400px' }}>
+        <Col span={24}>
+          <Card
+            style={{
+              boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+              borderRadius: '8px',
+            }}
+          >
+            <Space direction="vertical" size="large" style={{ width: '100%', textAlign: 'center' }}>
+              <Title level={2} style={{ marginBottom: '8px', color: '#1677ff' }}>
+                電子郵件驗證
+              </Title>
+
+              {renderStatus()}
+
+              <Button type="primary" onClick={() => router.push('/login')} style={{ width: '100%', height: '48px' }}>
+                前往登入
+              </Button>
+            </Space>
+          </Card>
+        </Col>
+      </Row>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, Button, message } from 'antd';
+import { useAuth } from '../contexts/auth-context';
+import { trpc } from '../lib/trpc/client';
+import { getStoredSession } from '../lib/auth/token-storage';
+
+function formatRemaining(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Shown on every page while an administrator acts as another user, with a way back
+ * The impersonation token cannot be refreshed, so the banner also ends it when it runs out
+ */
+export function ImpersonationBanner() {
+  const { user, impersonator, login, logout } = useAuth();
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const hasExited = useRef(false);
+
+  const { mutate: stopImpersonating, isPending } = trpc.auth.stopImpersonating.useMutation({
+    onSuccess: (data) => {
+      login({ id: data.user.id, email: data.user.email, role: data.user.role }, data.accessTokenExpiresAt);
+      // Reload so nothing cached for the user is shown as the administrator's
+      window.location.assign('/admin/users');
+    },
+    onError: (error) => {
+      // The administrator's own session ended meanwhile
+      if (error.data?.code === 'UNAUTHORIZED') {
+        logout();
+        window.location.assign('/login');
+        return;
+      }
+      hasExited.current = false;
+      message.error(error.message || '無法結束代理，請稍後再試');
+    },
+  });
+
+  const exit = useCallback(() => {
+    if (hasExited.current) {
+      return;
+    }
+    hasExited.current = true;
+    stopImpersonating();
+  }, [stopImpersonating]);
+
+  useEffect(() => {
+    if (!impersonator) {
+      setRemaining(null);
+      return;
+    }
+
+    const tick = () => {
+      const session = getStoredSession();
+      if (session) {
+        setRemaining(session.accessTokenExpiresAt - Date.now());
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [impersonator]);
+
+  useEffect(() => {
+    if (remaining !== null && remaining <= 0) {
+      exit();
+    }
+  }, [remaining, exit]);
+
+  if (!impersonator || !user) {
+    return null;
+  }
+
+  const userName = user.displayNameZh || user.displayNameEn || user.email;
+
+  return (
+    <Alert
+      type="warning"
+      banner
+      showIcon
+      style={{ position: 'sticky', top: 0, zIndex: 1000 }}
+      message={
+        <span>
+          您正以 <strong>{userName}</strong> 的身分檢視（由 {impersonator.email} 代理），所有操作都會記錄於稽核紀錄。
+          {remaining !== null && ` 剩餘 ${formatRemaining(remaining)}`}
+        </span>
+      }
+      action={
+        <Button size="small" type="primary" danger loading={isPending} onClick={exit}>
+          結束代理
+        </Button>
+      }
+    />
+  );
+}
@@ -4,23 +4,34 @@ import { useAuth, AuthProvider, type User } from './auth-context';
 
 // Mock token storage utilities
 vi.mock('../lib/auth/token-storage', () => ({
-  storeToken: vi.fn(),
-  clearToken: vi.fn(),
+  storeSession: vi.fn(),
+  clearSession: vi.fn(),
   getCurrentUser: vi.fn(),
+  getImpersonator: vi.fn(() => null),
   isAuthenticated: vi.fn(),
 }));
 
+vi.mock('../lib/trpc/client', () => ({
+  trpcClient: {
+    user: {
+      getProfile: { query: vi.fn() },
+    },
+  },
+}));
+
 import { 
-  storeToken, 
-  clearToken, 
+  storeSession, 
+  clearSession, 
   getCurrentUser, 
   isAuthenticated as checkIsAuthenticated 
 } from '../lib/auth/token-storage';
+import { trpcClient } from '../lib/trpc/client';
 
-const mockStoreToken = vi.mocked(storeToken);
-const mockClearToken = vi.mocked(clearToken);
+const mockStoreSession = vi.mocked(storeSession);
+const mockClearSession = vi.mocked(clearSession);
 const mockGetCurrentUser = vi.mocked(getCurrentUser);
 const mockCheckIsAuthenticated = vi.mocked(checkIsAuthenticated);
+const mockGetProfile = vi.mocked(trpcClient.user.getProfile.query);
 
 describe('Auth Context', () => {
   const testUser: User = {
@@ -30,13 +41,14 @@ describe('Auth Context', () => {
     updatedAt: new Date('2024-01-01'),
   };
 
-  const testToken = 'test-jwt-token';
+  const testExpiresAt = new Date('2024-01-01T00:15:00Z');
 
   beforeEach(() => {
     vi.clearAllMocks();
     // Reset to unauthenticated state
     mockCheckIsAuthenticated.mockReturnValue(false);
     mockGetCurrentUser.mockReturnValue(null);
+    mockGetProfile.mockRejectedValue(new Error('offline'));
   });
 
   describe('Initial State', () => {
@@ -76,6 +88,46 @@ describe('Auth Context', () => {
       expect(result.current.isLoading).toBe(false);
     });
 
+    it('should load the profile after restoring the session', async () => {
+      mockCheckIsAuthenticated.mockReturnValue(true);
+      mockGetCurrentUser.mockReturnValue({
+        userId: testUser.id,
+        email: testUser.email,
+      });
+      mockGetProfile.mockResolvedValueOnce({
+        user: {
+          id: testUser.id,
+          email: testUser.email,
+          role: 'user',
+          displayNameZh: '王小明',
+          displayNameEn: 'Ming Wang',
+          employeeId: 'E001',
+          phone: null,
+          locale: 'zh-TW',
+          timezone: 'Asia/Taipei',
+          defaultDatasetId: null,
+          departments: [],
+          createdAt: new Date('2024-01-01'),
+          updatedAt: new Date('2024-02-01'),
+        },
+      } as never);
+
+      const { result } = renderHook(() => useAuth(), {
+        wrapper: AuthProvider,
+      });
+
+      await act(async () => {
+        await result.current.initialize();
+      });
+
+      expect(mockGetProfile).toHaveBeenCalled();
+      expect(result.current.user).toEqual(expect.objectContaining({
+        id: testUser.id,
+        displayNameZh: '王小明',
+        updatedAt: new Date('2024-02-01'),
+      }));
+    });
+
     it('should initialize as unauthenticated when no valid token exists', async () => {
       mockCheckIsAuthenticated.mockReturnValue(false);
       mockGetCurrentUser.mockReturnValue(null);
@@ -101,20 +153,20 @@ describe('Auth Context', () => {
       });
 
       await act(async () => {
-        result.current.login(testToken, testUser);
+        result.current.login(testUser, testExpiresAt);
       });
 
-      expect(mockStoreToken).toHaveBeenCalledWith(testToken, {
+      expect(mockStoreSession).toHaveBeenCalledWith({
         userId: testUser.id,
         email: testUser.email,
-      });
+      }, testExpiresAt, undefined);
       expect(result.current.isAuthenticated).toBe(true);
       expect(result.current.user).toEqual(testUser);
       expect(result.current.isLoading).toBe(false);
     });
 
     it('should handle login errors gracefully', async () => {
-      mockStoreToken.mockImplementation(() => {
+      mockStoreSession.mockImplementation(() => {
         throw new Error('Storage failed');
       });
 
@@ -124,7 +176,7 @@ describe('Auth Context', () => {
 
       await expect(async () => {
         await act(async () => {
-          result.current.login(testToken, testUser);
+          result.current.login(testUser, testExpiresAt);
         });
       }).rejects.toThrow('Storage failed');
 
@@ -142,7 +194,7 @@ describe('Auth Context', () => {
 
       // First login
       await act(async () => {
-        result.current.login(testToken, testUser);
+        result.current.login(testUser, testExpiresAt);
       });
 
       // Then logout
@@ -150,7 +202,7 @@ describe('Auth Context', () => {
         result.current.logout();
       });
 
-      expect(mockClearToken).toHaveBeenCalled();
+      expect(mockClearSession).toHaveBeenCalled();
       expect(result.current.isAuthenticated).toBe(false);
       expect(result.current.user).toBeNull();
       expect(result.current.isLoading).toBe(false);
@@ -224,7 +276,7 @@ describe('Auth Context', () => {
       });
 
       await act(async () => {
-        result1.current.login(testToken, testUser);
+        result1.current.login(testUser, testExpiresAt);
       });
 
       // Both hooks should see the same state
@@ -2,33 +2,75 @@
 
 import React, { createContext, useContext, useEffect } from 'react';
 import { create } from 'zustand';
+import { TRPCClientError } from '@trpc/client';
 import { 
-  storeToken, 
-  clearToken, 
+  storeSession, 
+  clearSession, 
   getCurrentUser, 
-  isAuthenticated as checkIsAuthenticated 
+  getImpersonator,
+  isAuthenticated as checkIsAuthenticated,
+  type StoredSession,
 } from '../lib/auth/token-storage';
+import { trpcClient } from '../lib/trpc/client';
+import { isRole, type Role } from '../lib/auth/permissions';
 
 // User interface matching the backend User model (without password)
 export interface User {
   id: string;
   email: string;
-  createdAt: Date;
-  updatedAt: Date;
+  role?: Role;
+  // Profile fields, filled in once user.getProfile has loaded
+  displayNameZh?: string | null;
+  displayNameEn?: string | null;
+  employeeId?: string | null;
+  phone?: string | null;
+  locale?: string;
+  timezone?: string;
+  defaultDatasetId?: string | null;
+  // Missing while only the details stored with the session are known
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
+type Profile = Awaited<ReturnType<typeof trpcClient.user.getProfile.query>>['user'];
+
+function toUser(profile: Profile): User {
+  return {
+    id: profile.id,
+    email: profile.email,
+    role: isRole(profile.role) ? profile.role : undefined,
+    displayNameZh: profile.displayNameZh,
+    displayNameEn: profile.displayNameEn,
+    employeeId: profile.employeeId,
+    phone: profile.phone,
+    locale: profile.locale,
+    timezone: profile.timezone,
+    defaultDatasetId: profile.defaultDatasetId,
+    createdAt: new Date(profile.createdAt),
+    updatedAt: new Date(profile.updatedAt),
+  };
+}
+
+// Administrator acting as the signed-in user, see admin.impersonate
+export type Impersonator = NonNullable<StoredSession['impersonator']>;
+
 // Authentication state interface
 interface AuthState {
   isAuthenticated: boolean;
   user: User | null;
+  impersonator: Impersonator | null;
   isLoading: boolean;
 }
 
 // Authentication actions interface
 interface AuthActions {
-  login: (token: string, user: User) => void;
+  // The tokens themselves arrive as httpOnly cookies; only the user and token expiry are stored here
+  login: (user: User, accessTokenExpiresAt: Date, impersonator?: Impersonator) => void;
   logout: () => void;
-  initialize: () => void;
+  // Restores the session from storage and loads the profile from the server
+  initialize: () => Promise<void>;
+  // Reloads the profile, e.g. after it was edited
+  refreshProfile: () => Promise<void>;
   setLoading: (loading: boolean) => void;
 }
 
@@ -40,18 +82,20 @@ const useAuthStore = create<AuthStore>((set, get) => ({
   // Initial state
   isAuthenticated: false,
   user: null,
+  impersonator: null,
   isLoading: true,
 
   // Actions
-  login: (token: string, user: User) => {
+  login: (user: User, accessTokenExpiresAt: Date, impersonator?: Impersonator) => {
     try {
-      // Store token with simplified user data for token storage
-      storeToken(token, { userId: user.id, email: user.email });
+      // Store simplified user data for the UI
+      storeSession({ userId: user.id, email: user.email, role: user.role }, accessTokenExpiresAt, impersonator);
       
       // Update store state
       set({
         isAuthenticated: true,
         user: user,
+        impersonator: impersonator ?? null,
         isLoading: false,
       });
     } catch (error) {
@@ -59,58 +103,74 @@ const useAuthStore = create<AuthStore>((set, get) => ({
       set({
         isAuthenticated: false,
         user: null,
+        impersonator: null,
         isLoading: false,
       });
       throw error;
     }
+
+    // The login response only carries the account basics
+    void get().refreshProfile();
   },
 
   logout: () => {
-    clearToken();
+    clearSession();
     set({
       isAuthenticated: false,
       user: null,
+      impersonator: null,
       isLoading: false,
     });
   },
 
-  initialize: () => {
+  initialize: async () => {
     try {
       const currentUser = getCurrentUser();
       const authenticated = checkIsAuthenticated();
-      
-      if (authenticated && currentUser) {
-        // Create full user object from stored data
-        // Note: We only have userId and email from token storage
-        // In production, you might want to fetch full user data from API
-        const user: User = {
-          id: currentUser.userId,
-          email: currentUser.email,
-          createdAt: new Date(), // Placeholder - would be fetched from API in production
-          updatedAt: new Date(), // Placeholder - would be fetched from API in production
-        };
 
-        set({
-          isAuthenticated: true,
-          user: user,
-          isLoading: false,
-        });
-      } else {
+      if (!authenticated || !currentUser) {
         set({
           isAuthenticated: false,
           user: null,
           isLoading: false,
         });
+        return;
       }
+
+      // Render from the details stored with the session until the profile arrives
+      set({
+        isAuthenticated: true,
+        user: { id: currentUser.userId, email: currentUser.email, role: currentUser.role },
+        impersonator: getImpersonator(),
+        isLoading: false,
+      });
     } catch (error) {
       console.error('Auth initialization failed:', error);
-      // Clear any corrupted tokens on initialization failure
-      clearToken();
+      // Clear any corrupted session data on initialization failure
+      clearSession();
       set({
         isAuthenticated: false,
         user: null,
         isLoading: false,
       });
+      return;
+    }
+
+    await get().refreshProfile();
+  },
+
+  refreshProfile: async () => {
+    try {
+      const { user } = await trpcClient.user.getProfile.query();
+      set({ user: toUser(user) });
+    } catch (error) {
+      // The client has already tried to refresh the session; the server no longer accepts it
+      if (error instanceof TRPCClientError && error.data?.code === 'UNAUTHORIZED') {
+        get().logout();
+        return;
+      }
+      // Keep the stored details, e.g. while offline
+      console.error('Loading the profile failed:', error);
     }
   },
 
@@ -140,11 +200,12 @@ export const useAuth = (): AuthStore => {
 // Auth provider component
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const authStore = useAuthStore();
+  const initialize = useAuthStore((state) => state.initialize);
 
-  // Initialize auth state on mount
+  // Initialize auth state on mount; actions keep their identity, so this runs once
   useEffect(() => {
-    authStore.initialize();
-  }, [authStore]);
+    void initialize();
+  }, [initialize]);
 
   return (
     <AuthContext.Provider value={authStore}>
@@ -155,6 +216,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
 // Hook for auth actions only (cleaner API for components that only need actions)
 export const useAuthActions = () => {
-  const { login, logout, setLoading } = useAuth();
-  return { login, logout, setLoading };
+  const { login, logout, refreshProfile, setLoading } = useAuth();
+  return { login, logout, refreshProfile, setLoading };
 };
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { collectAuditedEmails, getPurgeDate, redactAuditMetadata } from './account-deletion';
+
+describe('account deletion', () => {
+  describe('getPurgeDate', () => {
+    it('should add the grace period to the deletion time', () => {
+      expect(getPurgeDate(new Date('2025-01-01T00:00:00Z'), { ACCOUNT_DELETION_GRACE_DAYS: '7' }))
+        .toEqual(new Date('2025-01-08T00:00:00Z'));
+    });
+  });
+
+  describe('redactAuditMetadata', () => {
+    it('should null out personal data and keep everything else', () => {
+      const personalData = new Set(['test@example.com', '王小明']);
+
+      expect(
+        redactAuditMetadata({ email: 'test@example.com', name: '王小明', reason: 'Invalid password' }, personalData)
+      ).toEqual({ email: null, name: null, reason: 'Invalid password' });
+      expect(redactAuditMetadata({ email: 'other@example.com' }, personalData)).toEqual({ email: 'other@example.com' });
+      expect(redactAuditMetadata(null, personalData)).toBeNull();
+    });
+  });
+
+  describe('collectAuditedEmails', () => {
+    it('should read the addresses on both sides of an email change', () => {
+      expect(collectAuditedEmails({ previousEmail: 'old@example.com', newEmail: 'new@example.com' }))
+        .toEqual(['old@example.com', 'new@example.com']);
+      expect(collectAuditedEmails({ role: 'ADMIN' })).toEqual([]);
+      expect(collectAuditedEmails(['old@example.com'])).toEqual([]);
+    });
+  });
+});
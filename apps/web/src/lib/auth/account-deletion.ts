@@ -0,0 +1,70 @@
+import type { Prisma } from '@prisma/client';
+import { ACCOUNT_DELETION_CONFIG } from './constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a deleted account can still be restored before the purge job anonymizes it
+ * Set ACCOUNT_DELETION_GRACE_DAYS=0 to purge on the next run
+ * @throws Error naming the variable if the value is not a whole number of days up to a year
+ */
+export function getDeletionGracePeriodDays(env: Partial<NodeJS.ProcessEnv> = process.env): number {
+  const value = env.ACCOUNT_DELETION_GRACE_DAYS;
+  if (value === undefined || value === '') {
+    return ACCOUNT_DELETION_CONFIG.DEFAULT_GRACE_PERIOD_DAYS;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 365) {
+    throw new Error(`Invalid ACCOUNT_DELETION_GRACE_DAYS: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * When an account deleted at `deletedAt` becomes due for purging
+ */
+export function getPurgeDate(deletedAt: Date, env: Partial<NodeJS.ProcessEnv> = process.env): Date {
+  return new Date(deletedAt.getTime() + getDeletionGracePeriodDays(env) * DAY_MS);
+}
+
+/**
+ * Accounts deleted at or before the returned time are due for purging at `now`
+ */
+export function getPurgeCutoff(now: Date, env: Partial<NodeJS.ProcessEnv> = process.env): Date {
+  return new Date(now.getTime() - getDeletionGracePeriodDays(env) * DAY_MS);
+}
+
+/**
+ * Audit event metadata with every value found in `personalData` replaced by null
+ * The keys stay, so the event still shows what was recorded
+ */
+export function redactAuditMetadata(
+  metadata: Prisma.JsonValue,
+  personalData: ReadonlySet<string>
+): Prisma.JsonValue {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return metadata;
+  }
+
+  return Object.fromEntries(
+    Object.entries(metadata).map(([key, value]) => [
+      key,
+      typeof value === 'string' && personalData.has(value) ? null : value,
+    ])
+  );
+}
+
+/**
+ * Email addresses recorded in the metadata of an audit event
+ * For events targeting an account, these are addresses the account used, e.g. both sides of an email change
+ */
+export function collectAuditedEmails(metadata: Prisma.JsonValue): string[] {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return [];
+  }
+
+  return ACCOUNT_DELETION_CONFIG.AUDIT_EMAIL_METADATA_KEYS.map((key) => metadata[key]).filter(
+    (value): value is string => typeof value === 'string'
+  );
+}
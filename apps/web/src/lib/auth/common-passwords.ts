@@ -0,0 +1,318 @@
+/**
+ * Passwords that show up at the top of public breach corpora, most common first
+ * Entries are lowercase. password-denylist.ts also tries the input without surrounding digits and
+ * symbols and with look-alike substitutions undone, so `Password1!` and `P@ssw0rd` match `password`
+ * The rank also feeds the guess estimate in password-strength.ts
+ */
+export const COMMON_PASSWORDS: readonly string[] = [
+  // Global top entries
+  'password',
+  'qwerty',
+  'iloveyou',
+  'admin',
+  'welcome',
+  'letmein',
+  'monkey',
+  'dragon',
+  'football',
+  'baseball',
+  'abc',
+  'login',
+  'master',
+  'sunshine',
+  'princess',
+  'starwars',
+  'whatever',
+  'trustno',
+  'superman',
+  'batman',
+  'shadow',
+  'michael',
+  'jennifer',
+  'hello',
+  'freedom',
+  'secret',
+  'charlie',
+  'donald',
+  'passw',
+  'pass',
+  'passwd',
+  'passport',
+  'changeme',
+  'default',
+  'administrator',
+  'root',
+  'toor',
+  'guest',
+  'test',
+  'tester',
+  'testing',
+  'temp',
+  'temppass',
+  'user',
+  'access',
+  'computer',
+  'internet',
+  'google',
+  'microsoft',
+  'samsung',
+  'apple',
+  'soccer',
+  'hockey',
+  'killer',
+  'mustang',
+  'jordan',
+  'harley',
+  'ranger',
+  'buster',
+  'thomas',
+  'tigger',
+  'robert',
+  'daniel',
+  'hunter',
+  'summer',
+  'winter',
+  'spring',
+  'autumn',
+  'flower',
+  'cookie',
+  'pepper',
+  'ginger',
+  'cheese',
+  'chocolate',
+  'butterfly',
+  'angel',
+  'lovely',
+  'loveme',
+  'love',
+  'lover',
+  'mylove',
+  'babygirl',
+  'jessica',
+  'ashley',
+  'nicole',
+  'michelle',
+  'matthew',
+  'andrew',
+  'joshua',
+  'william',
+  'maggie',
+  'bailey',
+  'ncc',
+  'zaq',
+  'pokemon',
+  'naruto',
+  'minecraft',
+  'fuckyou',
+  'asshole',
+  'blink',
+  'linkedin',
+  'facebook',
+  'myspace',
+  'adobe',
+  'photoshop',
+  'zxcvbnm',
+  'asdfgh',
+  'asdfghjkl',
+  'qwertyuiop',
+  'azerty',
+  'company',
+  'business',
+  'office',
+  'manager',
+  'support',
+  'service',
+  'system',
+  'server',
+  'database',
+  'security',
+  'private',
+  'public',
+  'money',
+  'success',
+  'online',
+  'opensesame',
+  'nothing',
+  'unknown',
+
+  // Digit, symbol and mixed patterns, matched before surrounding digits are stripped
+  '123456',
+  '123456789',
+  '12345678',
+  '12345',
+  '1234567',
+  '1234567890',
+  '1234',
+  '111111',
+  '000000',
+  '123123',
+  '654321',
+  '666666',
+  '888888',
+  '112233',
+  '121212',
+  '123321',
+  '147258369',
+  '159753',
+  '987654321',
+  '11111111',
+  '88888888',
+  '66666666',
+  '00000000',
+  '12341234',
+  '11223344',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  '1qaz2wsx3edc',
+  'qazwsx',
+  'qazwsxedc',
+  'zaq12wsx',
+  'zaq1xsw2',
+  'q1w2e3r4',
+  'qwe123',
+  'qweasd',
+  'qweasdzxc',
+  'qwer1234',
+  'qwerty123',
+  'asd123',
+  'asdf1234',
+  'zxc123',
+  'abc123',
+  'abcd1234',
+  'a1b2c3',
+  'aa123456',
+  'a123456',
+  'a12345678',
+  '!qaz@wsx',
+  '!qaz2wsx',
+  '1qaz@wsx',
+  '!@#$%^',
+  '!@#$%^&*',
+  '!q@w#e$r',
+
+  // Keyboard walks and rows
+  'qwert',
+  'qwertyu',
+  'qwertyui',
+  'asdf',
+  'asdfg',
+  'asdfghj',
+  'zxcv',
+  'zxcvb',
+  'zxcvbn',
+  'qazxsw',
+  'poiuytrewq',
+  'lkjhgfdsa',
+  'mnbvcxz',
+  'qwaszx',
+  'wasd',
+  'ytrewq',
+  'trewq',
+  'qayxsw',
+
+  // Hanyu pinyin phrases and names
+  'woaini',
+  'woaini1314',
+  'woainia',
+  'woaiwojia',
+  'woainima',
+  'aini',
+  'aini1314',
+  'iloveyou1314',
+  '5201314',
+  '520520',
+  '521521',
+  '1314520',
+  '1314521',
+  'woshishui',
+  'wodemima',
+  'mima',
+  'mimamima',
+  'zhang',
+  'zhangwei',
+  'wangwei',
+  'wangfang',
+  'liwei',
+  'lina',
+  'liuyang',
+  'zhangmin',
+  'wangjing',
+  'chenjing',
+  'zhangyan',
+  'wangli',
+  'zhangjing',
+  'liqiang',
+  'wanglei',
+  'liuwei',
+  'chenlong',
+  'yangyang',
+  'huanghua',
+  'zhangjie',
+  'wangqiang',
+  'zhongguo',
+  'beijing',
+  'shanghai',
+  'guangzhou',
+  'shenzhen',
+  'taiwan',
+  'taipei',
+  'kaohsiung',
+  'taichung',
+  'hongkong',
+  'xiaoming',
+  'xiaohong',
+  'xiaobao',
+  'baobao',
+  'baobei',
+  'laopo',
+  'laogong',
+  'qinqin',
+  'tiantian',
+  'haha',
+  'hahaha',
+  'hehe',
+  'xiaoxiao',
+  'dandan',
+  'lili',
+  'fangfang',
+  'jingjing',
+  'nihao',
+  'ninhao',
+  'huanying',
+  'kuaile',
+  'xingfu',
+  'pingan',
+  'fuqi',
+  'caifu',
+  'facai',
+  'gongxifacai',
+  'shengri',
+  'mingzi',
+  'zhanghao',
+  'denglu',
+  'guanliyuan',
+  'yonghu',
+  'ceshi',
+  'mimaceshi',
+  'jiayou',
+  'meimei',
+  'gege',
+  'didi',
+  'jiejie',
+  'mama',
+  'baba',
+
+  // Zhuyin keyboard spellings typed on a QWERTY layout
+  'ji3g4',
+  'ji3g4su3',
+  'su3cl3',
+  'su3',
+  'ji32k7au4a83',
+  'a83',
+  'ru8',
+  'ej03xu3',
+  '5j/4',
+  'su3g4',
+];
@@ -6,12 +6,320 @@ export const PASSWORD_CONFIG = {
   SALT_ROUNDS: 12,
   MIN_LENGTH: 8,
   MAX_LENGTH: 128,
+  // Upper bound for PASSWORD_HISTORY_DEPTH, since every change checks each stored hash with bcrypt
+  MAX_HISTORY_DEPTH: 24,
 } as const;
 
+/**
+ * Why a password scored low on the strength meter, see estimatePasswordStrength
+ */
+export const PASSWORD_STRENGTH_WARNINGS = {
+  COMMON: 'common',
+  KEYBOARD_PATTERN: 'keyboard-pattern',
+  SEQUENCE: 'sequence',
+  REPEAT: 'repeat',
+  SHORT: 'short',
+} as const;
+
+export type PasswordStrengthWarning = (typeof PASSWORD_STRENGTH_WARNINGS)[keyof typeof PASSWORD_STRENGTH_WARNINGS];
+
 export const EMAIL_CONFIG = {
   MAX_LENGTH: 255,
 } as const;
 
+export const PROFILE_CONFIG = {
+  LOCALES: ['zh-TW', 'en-US'],
+  DEFAULT_LOCALE: 'zh-TW',
+  DEFAULT_TIMEZONE: 'Asia/Taipei',
+  DISPLAY_NAME_MAX_LENGTH: 50,
+  EMPLOYEE_ID_MAX_LENGTH: 20,
+  PHONE_MAX_LENGTH: 20,
+} as const;
+
+export type Locale = (typeof PROFILE_CONFIG.LOCALES)[number];
+
+export const SESSION_CONFIG = {
+  REFRESH_TOKEN_BYTES: 48,
+  REFRESH_TOKEN_TTL_MS: 30 * 24 * 60 * 60 * 1000, // 30 days
+  // Window in which a just-rotated refresh token is rejected without being treated as reuse,
+  // so that concurrent refreshes from the same client don't revoke the session
+  ROTATION_GRACE_MS: 10 * 1000,
+} as const;
+
+export const AUTH_COOKIE_CONFIG = {
+  // httpOnly, so the tokens are out of reach of page scripts
+  ACCESS_TOKEN_NAME: 'auth-token',
+  REFRESH_TOKEN_NAME: 'auth-refresh',
+  // Readable by the client, which echoes it in CSRF_HEADER_NAME on every request (double submit)
+  CSRF_TOKEN_NAME: 'csrf-token',
+  CSRF_HEADER_NAME: 'x-csrf-token',
+  CSRF_TOKEN_BYTES: 32,
+  // Non-sensitive user details the client keeps to render the UI, see token-storage.ts
+  USER_INFO_NAME: 'auth-user',
+  // httpOnly; holds the administrator's own refresh token while they impersonate a user
+  IMPERSONATOR_REFRESH_TOKEN_NAME: 'auth-impersonator-refresh',
+  // All three cookies live as long as the refresh token; the API rejects expired access tokens itself
+  MAX_AGE_SECONDS: SESSION_CONFIG.REFRESH_TOKEN_TTL_MS / 1000,
+} as const;
+
+export const IMPERSONATION_CONFIG = {
+  // Impersonation tokens cannot be refreshed; the administrator starts over when one expires
+  TOKEN_TTL_SECONDS: 30 * 60,
+} as const;
+
+export const PASSWORD_RESET_CONFIG = {
+  TOKEN_BYTES: 32,
+  TOKEN_TTL_MS: 60 * 60 * 1000, // 1 hour
+} as const;
+
+export const INVITATION_CONFIG = {
+  TOKEN_BYTES: 32,
+  TOKEN_TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+} as const;
+
+export const EMAIL_VERIFICATION_CONFIG = {
+  TOKEN_BYTES: 32,
+  TOKEN_TTL_MS: 24 * 60 * 60 * 1000, // 24 hours
+} as const;
+
+export const TOTP_CONFIG = {
+  ISSUER: '良聯智慧諮詢平台',
+  SECRET_BYTES: 20, // 160 bits, as recommended by RFC 4226
+  DIGITS: 6,
+  PERIOD_SECONDS: 30,
+  // Steps accepted either side of the current one, to tolerate clock drift
+  WINDOW: 1,
+} as const;
+
+export const MFA_CONFIG = {
+  TICKET_BYTES: 32,
+  TICKET_TTL_MS: 5 * 60 * 1000, // 5 minutes
+  // Wrong codes allowed per ticket before the user must enter the password again
+  MAX_TICKET_ATTEMPTS: 5,
+  RECOVERY_CODE_COUNT: 10,
+  RECOVERY_CODE_BYTES: 10, // 16 base32 characters
+} as const;
+
+export const API_KEY_CONFIG = {
+  // Keys look like llk_<12 hex id>_<secret>; the prefix makes leaked keys easy to grep for
+  TOKEN_PREFIX: 'llk',
+  ID_BYTES: 6,
+  SECRET_BYTES: 32,
+  MAX_ACTIVE_KEYS_PER_USER: 20,
+  MAX_TTL_DAYS: 365,
+  // lastUsedAt is refreshed at most this often, so busy scripts don't write on every request
+  LAST_USED_UPDATE_INTERVAL_MS: 60 * 1000,
+} as const;
+
+export const ACCOUNT_DELETION_CONFIG = {
+  // Overridden by ACCOUNT_DELETION_GRACE_DAYS
+  DEFAULT_GRACE_PERIOD_DAYS: 30,
+  // Accounts anonymized per purge run; later runs pick up the rest
+  PURGE_BATCH_SIZE: 100,
+  // Purged accounts get an address on this reserved domain so the original email can register again
+  ANONYMIZED_EMAIL_DOMAIN: 'deleted.invalid',
+  // Audit metadata keys that record an email address, such as failed logins and email changes
+  AUDIT_EMAIL_METADATA_KEYS: ['email', 'previousEmail', 'newEmail'],
+} as const;
+
+export const DATA_EXPORT_CONFIG = {
+  // Own audit events included in a personal data export, newest first
+  MAX_ACTIVITY_EVENTS: 1000,
+  // Own chat usage records included, newest first
+  MAX_CHAT_QUERIES: 10000,
+} as const;
+
+export const DATASET_CONFIG = {
+  NAME_MAX_LENGTH: 100,
+  DESCRIPTION_MAX_LENGTH: 1000,
+  MAX_TAGS: 20,
+  TAG_MAX_LENGTH: 30,
+  LIST_MAX_PAGE_SIZE: 100,
+} as const;
+
+export const FILE_UPLOAD_CONFIG = {
+  // Per file, for both direct and chunked uploads
+  MAX_FILE_SIZE: 500 * 1024 * 1024,
+  MAX_FILES_PER_REQUEST: 20,
+  FILENAME_MAX_LENGTH: 255,
+  // Chunks of a chunked upload, all but the last exactly this size; S3 requires parts of at least 5 MiB
+  CHUNK_SIZE: 8 * 1024 * 1024,
+  // Chunked uploads not completed within this are aborted and their chunks removed
+  UPLOAD_TTL_MS: 24 * 60 * 60 * 1000,
+  // Expired chunked uploads aborted per cleanup run; later runs pick up the rest
+  CLEANUP_BATCH_SIZE: 100,
+  // Accepted MIME types per extension, the first one canonical; browsers report some types inconsistently
+  ALLOWED_TYPES: {
+    '.pdf': ['application/pdf'],
+    '.txt': ['text/plain'],
+    '.csv': ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'],
+    '.md': ['text/markdown', 'text/x-markdown', 'text/plain'],
+    '.xlsx': ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    '.png': ['image/png'],
+    '.jpg': ['image/jpeg'],
+    '.jpeg': ['image/jpeg'],
+  },
+} as const;
+
+export const USAGE_STATS_CONFIG = {
+  // Days of daily activity returned by the statistics endpoints, ending today
+  ACTIVITY_DAYS: 30,
+} as const;
+
+export const AUDIT_CONFIG = {
+  LIST_MAX_PAGE_SIZE: 100,
+  // CSV exports beyond this are truncated; narrow the date range to get the rest
+  EXPORT_MAX_ROWS: 10000,
+  // Sign-in events shown on the security settings page
+  LOGIN_HISTORY_LIMIT: 20,
+} as const;
+
+export const LOGIN_THROTTLE_CONFIG = {
+  // Consecutive failures on one account before it is temporarily locked
+  MAX_ACCOUNT_FAILURES: 5,
+  LOCKOUT_MS: 15 * 60 * 1000, // 15 minutes
+  // Failures from one IP address (across all accounts) before it is refused
+  MAX_IP_FAILURES: 20,
+  IP_WINDOW_MS: 15 * 60 * 1000, // 15 minutes
+  // Failures answered without delay; each further failure doubles the delay
+  FREE_ATTEMPTS: 2,
+  BASE_DELAY_MS: 250,
+  MAX_DELAY_MS: 5000,
+} as const;
+
+export const OIDC_CONFIG = {
+  DEFAULT_SCOPES: 'openid email profile',
+  DEFAULT_PROVIDER_NAME: 'SSO',
+  COOKIE_PATH: '/api/auth/oidc',
+  LOGIN_PATH: '/api/auth/oidc/login',
+  CALLBACK_PATH: '/api/auth/oidc/callback',
+  // Carries state, nonce and the PKCE verifier from the redirect to the provider back to the callback
+  STATE_COOKIE_NAME: 'oidc-login',
+  STATE_BYTES: 32,
+  CODE_VERIFIER_BYTES: 32, // 43 characters, the minimum RFC 7636 allows
+  STATE_TTL_MS: 10 * 60 * 1000, // 10 minutes
+  PROVIDER_CACHE_TTL_MS: 60 * 60 * 1000, // 1 hour
+  // Unknown ID token kids refetch the provider's JWKS at most this often
+  JWKS_MIN_RELOAD_INTERVAL_MS: 30 * 1000,
+  REQUEST_TIMEOUT_MS: 10 * 1000,
+  // Tolerated clock difference with the provider when checking when an ID token was issued
+  CLOCK_SKEW_SECONDS: 60,
+} as const;
+
+export const SIGNING_KEY_CONFIG = {
+  RSA_MODULUS_LENGTH: 2048,
+  KID_BYTES: 12,
+  // How long an instance reuses its copy of the keyring before reading the store again
+  CACHE_TTL_MS: 60 * 1000,
+  // Tokens with an unknown kid reload the keyring at most this often
+  MIN_RELOAD_INTERVAL_MS: 5 * 1000,
+  // How long the Edge middleware and other services may cache the JWKS document
+  JWKS_MAX_AGE_SECONDS: 5 * 60,
+} as const;
+
+/**
+ * How the client IP address is found behind reverse proxies, see request-metadata.ts
+ */
+export const CLIENT_IP_CONFIG = {
+  // X-Forwarded-For is ignored unless TRUSTED_PROXY_HOPS says how many proxies in front of the app append to it
+  DEFAULT_TRUSTED_PROXY_HOPS: 0,
+  // Stands in for the IP in counter keys when it is unknown, so those requests share one allowance
+  UNKNOWN_IP: 'unknown',
+} as const;
+
+/**
+ * Request limits for unauthenticated endpoints, counted per client IP address
+ */
+export const RATE_LIMITS = {
+  LOGIN: { name: 'login', limit: 30, windowMs: 5 * 60 * 1000 },
+  REGISTER: { name: 'register', limit: 10, windowMs: 60 * 60 * 1000 },
+  REQUEST_PASSWORD_RESET: { name: 'request-password-reset', limit: 5, windowMs: 15 * 60 * 1000 },
+  RESEND_VERIFICATION: { name: 'resend-verification', limit: 5, windowMs: 15 * 60 * 1000 },
+  VERIFY_MFA: { name: 'verify-mfa', limit: 30, windowMs: 5 * 60 * 1000 },
+  MANAGE_MFA: { name: 'manage-mfa', limit: 10, windowMs: 15 * 60 * 1000 },
+  CHANGE_PASSWORD: { name: 'change-password', limit: 10, windowMs: 15 * 60 * 1000 },
+  CHANGE_EMAIL: { name: 'change-email', limit: 10, windowMs: 15 * 60 * 1000 },
+  CHECK_PASSWORD_STRENGTH: { name: 'check-password-strength', limit: 60, windowMs: 5 * 60 * 1000 },
+  ACCEPT_INVITATION: { name: 'accept-invitation', limit: 10, windowMs: 15 * 60 * 1000 },
+} as const;
+
+// Dotted names, grouped by the area of the app that records them
+export const AUDIT_ACTIONS = {
+  REGISTER: 'auth.register',
+  INVITATION_ACCEPTED: 'auth.invitation.accepted',
+  LOGIN_SUCCEEDED: 'auth.login.succeeded',
+  LOGIN_FAILED: 'auth.login.failed',
+  LOGOUT: 'auth.logout',
+  LOGOUT_ALL: 'auth.logout_all',
+  SESSION_REVOKED: 'user.session_revoked',
+  PASSWORD_RESET_REQUESTED: 'auth.password_reset.requested',
+  PASSWORD_RESET_COMPLETED: 'auth.password_reset.completed',
+  EMAIL_VERIFIED: 'auth.email_verified',
+  ACCESS_DENIED: 'auth.access_denied',
+  EMAIL_CHANGE_REQUESTED: 'user.email_change_requested',
+  EMAIL_CHANGED: 'user.email_changed',
+  PROFILE_UPDATED: 'user.profile_updated',
+  PASSWORD_CHANGED: 'user.password_changed',
+  PASSWORD_EXPIRED: 'auth.password_expired',
+  ACCOUNT_DELETED: 'user.account_deleted',
+  ACCOUNT_PURGED: 'user.account_purged',
+  DATA_EXPORTED: 'user.data_exported',
+  API_KEY_CREATED: 'user.api_key.created',
+  API_KEY_REVOKED: 'user.api_key.revoked',
+  DATASET_CREATED: 'dataset.created',
+  DATASET_RENAMED: 'dataset.renamed',
+  DATASET_DELETED: 'dataset.deleted',
+  FILE_UPLOADED: 'dataset.file_uploaded',
+  MFA_ENABLED: 'user.mfa.enabled',
+  MFA_DISABLED: 'user.mfa.disabled',
+  MFA_RECOVERY_CODES_REGENERATED: 'user.mfa.recovery_codes_regenerated',
+  ADMIN_USER_CREATED: 'admin.user.created',
+  ADMIN_USER_INVITED: 'admin.user.invited',
+  ADMIN_USER_STATUS_CHANGED: 'admin.user.status_changed',
+  ADMIN_USER_ROLE_CHANGED: 'admin.user.role_changed',
+  ADMIN_USER_PASSWORD_RESET: 'admin.user.password_reset',
+  ADMIN_USER_RESTORED: 'admin.user.restored',
+  AUDIT_EXPORTED: 'admin.audit.exported',
+  ADMIN_SIGNING_KEY_ROTATED: 'admin.signing_key.rotated',
+  ADMIN_IMPERSONATION_STARTED: 'admin.impersonation.started',
+  ADMIN_IMPERSONATION_ENDED: 'admin.impersonation.ended',
+  ADMIN_ORGANIZATION_CREATED: 'admin.organization.created',
+  ADMIN_DEPARTMENT_CREATED: 'admin.department.created',
+  ADMIN_USER_DEPARTMENTS_CHANGED: 'admin.user.departments_changed',
+  SSO_USER_PROVISIONED: 'auth.sso.user_provisioned',
+  SSO_IDENTITY_LINKED: 'auth.sso.identity_linked',
+} as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[keyof typeof AUDIT_ACTIONS];
+
+export const AUDIT_TARGET_TYPES = {
+  USER: 'user',
+  SESSION: 'session',
+  API_KEY: 'api_key',
+  SIGNING_KEY: 'signing_key',
+  ORGANIZATION: 'organization',
+  DEPARTMENT: 'department',
+  INVITATION: 'invitation',
+  DATASET: 'dataset',
+  FILE: 'file',
+} as const;
+
+/**
+ * Machine-readable codes for auth failures the client handles specially
+ * Exposed to the client as `data.authErrorCode` on the tRPC error
+ */
+export const AUTH_ERROR_CODES = {
+  ACCOUNT_DISABLED: 'ACCOUNT_DISABLED',
+  ACCOUNT_DELETED: 'ACCOUNT_DELETED',
+  EMAIL_NOT_VERIFIED: 'EMAIL_NOT_VERIFIED',
+  ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
+  RATE_LIMITED: 'RATE_LIMITED',
+  MFA_TICKET_INVALID: 'MFA_TICKET_INVALID',
+  PASSWORD_CHANGE_REQUIRED: 'PASSWORD_CHANGE_REQUIRED',
+} as const;
+
+export type AuthErrorCode = (typeof AUTH_ERROR_CODES)[keyof typeof AUTH_ERROR_CODES];
+
 export const ERROR_MESSAGES = {
   PASSWORD_REQUIRED: 'Password is required',
   EMAIL_REQUIRED: 'Email is required',
@@ -24,10 +332,170 @@ export const ERROR_MESSAGES = {
   PASSWORD_MISSING_NUMBER: 'Password must contain at least one number',
   PASSWORD_MISSING_SPECIAL: 'Password must contain at least one special character',
   USER_EXISTS: 'User with this email already exists',
-  REGISTRATION_SUCCESS: 'User registered successfully',
+  REGISTRATION_SUCCESS: 'User registered successfully, please check your email to verify your address',
   REGISTRATION_ERROR: 'An unexpected error occurred during registration',
+  REGISTRATION_DISABLED: 'Registration is by invitation only, please ask an administrator for an invitation',
+  INVITATION_INVALID: 'Invitation link is invalid or has expired',
+  INVITATION_ACCEPTED: 'Your account has been created, you can now log in',
+  INVITATION_ERROR: 'An unexpected error occurred while accepting the invitation',
   PASSWORD_STRENGTH_ERROR: 'Password does not meet strength requirements',
+  PASSWORD_REUSED: 'This password was used recently, please choose a different one',
+  PASSWORD_TOO_COMMON: 'Password is too common or has appeared in a data breach',
+  CURRENT_PASSWORD_INCORRECT: 'Current password is incorrect',
+  PASSWORD_CHANGE_REQUIRED: 'Your password must be changed before continuing',
+  PASSWORD_CHANGED: 'Password changed, other devices have been signed out',
+  PASSWORD_CHANGE_ERROR: 'An unexpected error occurred while changing the password',
   INVALID_CREDENTIALS: 'Invalid email or password',
   LOGIN_SUCCESS: 'Login successful',
   LOGIN_ERROR: 'An unexpected error occurred during login',
+  REFRESH_SUCCESS: 'Session refreshed',
+  REFRESH_ERROR: 'An unexpected error occurred while refreshing the session',
+  REFRESH_TOKEN_REQUIRED: 'Refresh token is required',
+  CSRF_TOKEN_INVALID: 'Missing or invalid CSRF token',
+  NAVIGATION_REQUIRED: 'This address can only be opened from a page of this app',
+  LOGOUT_SUCCESS: 'Logged out successfully',
+  LOGOUT_ALL_SUCCESS: 'Logged out of all sessions',
+  LOGOUT_ERROR: 'An unexpected error occurred during logout',
+  NOT_IMPERSONATING: 'No impersonation is in progress',
+  NOT_ALLOWED_WHILE_IMPERSONATING: 'This is not available while impersonating a user',
+  IMPERSONATION_ENDED: 'Impersonation ended',
+  IMPERSONATION_ERROR: 'An unexpected error occurred while ending impersonation',
+  ACCOUNT_DISABLED: 'This account has been disabled',
+  ACCOUNT_DELETED: 'This account is scheduled for deletion, ask an administrator to restore it',
+  ACCOUNT_DELETION_SCHEDULED: 'Your account has been deleted and will be permanently removed after the grace period',
+  ACCOUNT_DELETION_ERROR: 'An unexpected error occurred while deleting the account',
+  DATA_EXPORT_ERROR: 'An unexpected error occurred while exporting your data',
+  STATS_ERROR: 'An unexpected error occurred while loading usage statistics',
+  USER_NOT_FOUND: 'User not found',
+  EMAIL_IN_USE: 'Email address is already in use',
+  EMAIL_CHANGE_PASSWORD_REQUIRED: 'Enter your current password to change the email address',
+  EMAIL_CHANGE_REQUESTED: 'A confirmation link has been sent to the new email address, the change takes effect once it is opened',
+  EMAIL_CHANGE_CONFIRMED: 'Email address changed, use the new address to log in from now on',
+  EMPLOYEE_ID_IN_USE: 'Employee ID is already in use',
+  INVALID_TIMEZONE: 'Unknown time zone',
+  INVALID_PHONE: 'Phone number may only contain digits, spaces, parentheses, hyphens and a leading +',
+  PROFILE_UPDATED: 'Profile updated successfully',
+  PROFILE_ERROR: 'An unexpected error occurred while updating the profile',
+  ACCOUNT_LOCKED: 'Too many failed login attempts, this account is temporarily locked',
+  TOO_MANY_LOGIN_ATTEMPTS: 'Too many failed login attempts, please try again later',
+  RATE_LIMITED: 'Too many requests, please try again later',
+  // Same response whether or not the account exists, to avoid leaking registered emails
+  PASSWORD_RESET_REQUESTED: 'If an account exists for this email, a password reset link has been sent',
+  PASSWORD_RESET_SUCCESS: 'Password has been reset, please log in with your new password',
+  PASSWORD_RESET_TOKEN_INVALID: 'Password reset link is invalid or has expired',
+  PASSWORD_RESET_ERROR: 'An unexpected error occurred while resetting the password',
+  EMAIL_NOT_VERIFIED: 'Please verify your email address before logging in',
+  EMAIL_VERIFICATION_SUCCESS: 'Email address verified, you can now log in',
+  EMAIL_VERIFICATION_TOKEN_INVALID: 'Verification link is invalid or has expired',
+  EMAIL_VERIFICATION_ERROR: 'An unexpected error occurred while verifying the email address',
+  MFA_REQUIRED: 'Enter the code from your authenticator app to finish logging in',
+  MFA_CODE_INVALID: 'Invalid authentication code',
+  MFA_TICKET_INVALID: 'Your login attempt has expired, please log in again',
+  MFA_ERROR: 'An unexpected error occurred during two-factor authentication',
+  // Same response whether or not the account exists, to avoid leaking registered emails
+  EMAIL_VERIFICATION_RESENT: 'If this email is registered and not yet verified, a new verification link has been sent',
+} as const;
+
+export const MFA_ERROR_MESSAGES = {
+  ENCRYPTION_KEY_MISSING: 'MFA encryption key is not configured',
+  ALREADY_ENABLED: 'Two-factor authentication is already enabled',
+  NOT_ENABLED: 'Two-factor authentication is not enabled',
+  ENROLLMENT_NOT_STARTED: 'Start two-factor enrollment before confirming it',
+  CODE_INVALID: 'Invalid authentication code',
+  ENROLLMENT_STARTED: 'Scan the QR code with your authenticator app, then enter the code it shows',
+  ENABLED: 'Two-factor authentication enabled',
+  DISABLED: 'Two-factor authentication disabled',
+  RECOVERY_CODES_REGENERATED: 'New recovery codes generated, previous codes no longer work',
+  MFA_ERROR: 'An unexpected error occurred while managing two-factor authentication',
+} as const;
+
+export const SSO_ERROR_MESSAGES = {
+  NOT_CONFIGURED: 'Single sign-on is not configured',
+  PROVIDER_UNAVAILABLE: 'The identity provider could not be reached',
+  LOGIN_STATE_INVALID: 'The sign-in request is invalid or has expired, please try again',
+  PROVIDER_DENIED: 'The identity provider did not complete the sign-in',
+  CODE_EXCHANGE_FAILED: 'The identity provider rejected the authorization code',
+  ID_TOKEN_INVALID: 'The identity provider returned an invalid ID token',
+  EMAIL_REQUIRED: 'The identity provider did not share a verified email address',
+  ACCOUNT_LINK_REQUIRED: 'An account with this email already exists; sign in to it and link single sign-on from its security settings',
+  IDENTITY_LINKED_ELSEWHERE: 'This identity provider account is already linked to another account',
+} as const;
+
+export const ORGANIZATION_ERROR_MESSAGES = {
+  ORGANIZATION_NOT_FOUND: 'Organization not found',
+  DEPARTMENT_NOT_FOUND: 'Department not found',
+  SLUG_TAKEN: 'An organization with this slug already exists',
+  DEPARTMENT_CODE_TAKEN: 'A department with this code already exists in the organization',
+  PARENT_IN_OTHER_ORGANIZATION: 'A team must belong to the same organization as its parent department',
+  ORGANIZATION_CREATED: 'Organization created',
+  DEPARTMENT_CREATED: 'Department created',
+  MEMBERSHIPS_UPDATED: 'Department memberships updated',
+} as const;
+
+export const DATASET_ERROR_MESSAGES = {
+  NOT_FOUND: 'Dataset not found',
+  NOT_OWNER: 'Only the owner of the dataset can change it',
+  NAME_TAKEN: 'A dataset with this name already exists',
+  DEPARTMENT_REQUIRED: 'Choose the department to share the dataset with',
+  DEPARTMENT_NOT_ALLOWED: 'Datasets can only be shared with your own departments',
+  CREATED: 'Dataset created',
+  RENAMED: 'Dataset renamed',
+  DELETED: 'Dataset deleted',
+  DATASET_ERROR: 'An unexpected error occurred while managing datasets',
+} as const;
+
+export const FILE_UPLOAD_ERROR_MESSAGES = {
+  MULTIPART_REQUIRED: 'Expected a multipart/form-data request',
+  NO_FILES: 'No files were uploaded',
+  TOO_MANY_FILES: `At most ${FILE_UPLOAD_CONFIG.MAX_FILES_PER_REQUEST} files can be uploaded at once`,
+  INVALID_FILENAME: 'Invalid file name',
+  UNSUPPORTED_TYPE: 'Only PDF, TXT, CSV, Markdown, XLSX, PNG and JPG files can be uploaded',
+  TYPE_MISMATCH: 'The file type does not match its extension',
+  FILE_EMPTY: 'The file is empty',
+  FILE_TOO_LARGE: `Files can be at most ${FILE_UPLOAD_CONFIG.MAX_FILE_SIZE / (1024 * 1024)} MB`,
+  UPLOAD_NOT_FOUND: 'Upload not found or expired',
+  INVALID_CHUNK: 'Chunk index out of range',
+  CHUNK_SIZE_MISMATCH: 'The chunk size does not match the upload',
+  UPLOAD_INCOMPLETE: 'Some chunks of the upload are missing',
+  CHECKSUM_MISMATCH: 'The uploaded file does not match its checksum',
+  UPLOADED: 'Files uploaded',
+  UPLOAD_ERROR: 'An unexpected error occurred while uploading files',
+} as const;
+
+export const API_KEY_ERROR_MESSAGES = {
+  INVALID: 'Invalid or expired API key',
+  NOT_FOUND: 'API key not found',
+  SCOPE_NOT_ALLOWED: 'API key scopes must be permissions your role already has',
+  LIMIT_REACHED: 'Maximum number of active API keys reached, revoke an unused key first',
+  SESSION_REQUIRED: 'This action requires a signed-in session and cannot be performed with an API key',
+  CREATED: 'API key created, copy it now as it will not be shown again',
+  REVOKED: 'API key revoked',
+  API_KEY_ERROR: 'An unexpected error occurred while managing API keys',
+} as const;
+
+export const AUDIT_ERROR_MESSAGES = {
+  AUDIT_ERROR: 'An unexpected error occurred while reading the audit log',
+  INVALID_DATE_RANGE: 'The start date must be before the end date',
+} as const;
+
+export const ADMIN_ERROR_MESSAGES = {
+  USER_NOT_FOUND: 'User not found',
+  CANNOT_DISABLE_SELF: 'You cannot disable your own account',
+  CANNOT_CHANGE_OWN_ROLE: 'You cannot change your own role',
+  USER_DELETED: 'This account is scheduled for deletion, restore it before enabling it',
+  USER_NOT_DELETED: 'This account is not scheduled for deletion',
+  USER_PURGED: 'This account has already been purged and cannot be restored',
+  USER_CREATED: 'User created successfully',
+  USER_INVITED: 'Invitation sent',
+  USER_STATUS_UPDATED: 'User status updated',
+  USER_ROLE_UPDATED: 'User role updated',
+  USER_RESTORED: 'User restored, they can log in again',
+  PASSWORD_RESET: 'Password has been reset',
+  SIGNING_KEY_ROTATED: 'Signing key rotated; tokens signed with the previous key stay valid until they expire',
+  CANNOT_IMPERSONATE_SELF: 'You cannot impersonate yourself',
+  CANNOT_IMPERSONATE_ADMIN: 'Administrators cannot be impersonated',
+  CANNOT_IMPERSONATE_INACTIVE: 'Disabled or deleted accounts cannot be impersonated',
+  IMPERSONATION_REQUIRES_BROWSER_SESSION: 'Impersonation has to be started from a signed-in browser',
+  IMPERSONATION_STARTED: 'You are now acting as this user',
+  ADMIN_ERROR: 'An unexpected error occurred while managing users',
 } as const;
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getDataScope, isInScope, scopeWhere } from './data-scope';
+
+describe('Data scope', () => {
+  const memberScope = getDataScope({ userId: 'user-1', role: 'VIEWER', departmentIds: ['dept-1', 'team-1'] });
+  const adminScope = getDataScope({ userId: 'admin-1', role: 'ADMIN', departmentIds: [] });
+
+  describe('scopeWhere', () => {
+    it('should limit queries to the visible departments', () => {
+      expect(scopeWhere(memberScope)).toEqual({ OR: [{ departmentId: { in: ['dept-1', 'team-1'] } }] });
+    });
+
+    it('should also include records the user owns', () => {
+      expect(scopeWhere(memberScope, { department: 'ownerDepartmentId', owner: 'ownerId' })).toEqual({
+        OR: [{ ownerDepartmentId: { in: ['dept-1', 'team-1'] } }, { ownerId: 'user-1' }],
+      });
+    });
+
+    it('should match nothing for users without departments', () => {
+      const scope = getDataScope({ userId: 'user-2', role: 'VIEWER', departmentIds: [] });
+
+      expect(scopeWhere(scope)).toEqual({ OR: [{ departmentId: { in: [] } }] });
+    });
+
+    it('should not restrict administrators', () => {
+      expect(adminScope.departmentIds).toBeNull();
+      expect(scopeWhere(adminScope, { owner: 'ownerId' })).toEqual({});
+    });
+  });
+
+  describe('isInScope', () => {
+    it('should allow records of visible departments and records the user owns', () => {
+      expect(isInScope(memberScope, { departmentId: 'team-1' })).toBe(true);
+      expect(isInScope(memberScope, { departmentId: null, ownerId: 'user-1' })).toBe(true);
+      expect(isInScope(memberScope, { departmentId: 'dept-2', ownerId: 'user-1' })).toBe(true);
+    });
+
+    it('should reject other departments and records without a department owned by someone else', () => {
+      expect(isInScope(memberScope, { departmentId: 'dept-2' })).toBe(false);
+      expect(isInScope(memberScope, { departmentId: null, ownerId: 'user-2' })).toBe(false);
+    });
+
+    it('should allow administrators everything', () => {
+      expect(isInScope(adminScope, { departmentId: 'dept-2', ownerId: 'user-2' })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import type { DepartmentRole } from '@prisma/client';
+import { ROLES, type Role } from './permissions';
+
+/**
+ * One of the user's department memberships, as carried on the authenticated context
+ */
+export interface DepartmentAccess {
+  departmentId: string;
+  organizationId: string;
+  code: string;
+  role: DepartmentRole;
+}
+
+/**
+ * The data a user may see: records of their departments (and the teams under them) and records they own
+ */
+export interface DataScope {
+  userId: string;
+  // Null for administrators, who see the data of every department
+  departmentIds: string[] | null;
+}
+
+/**
+ * Work out the scope for an authenticated user
+ * @param auth - The authenticated context, see createAuthenticatedContext
+ */
+export function getDataScope(auth: { userId: string; role: Role; departmentIds: string[] }): DataScope {
+  return {
+    userId: auth.userId,
+    departmentIds: auth.role === ROLES.ADMIN ? null : auth.departmentIds,
+  };
+}
+
+/**
+ * Prisma `where` conditions limiting a query to the scope
+ * Records without a department are only visible to their owner, when an owner field is given
+ * Spread into the query's own conditions; combine with AND if the query has an OR of its own
+ * Usage: prisma.dataset.findMany({ where: { ...scopeWhere(scope, { owner: 'ownerId' }), name } })
+ */
+export function scopeWhere<D extends string = 'departmentId', O extends string = never>(
+  scope: DataScope,
+  fields: { department?: D; owner?: O } = {}
+): { OR?: Array<Record<D, { in: string[] }> | Record<O, string>> } {
+  if (scope.departmentIds === null) {
+    return {};
+  }
+
+  const departmentField = (fields.department ?? 'departmentId') as D;
+  const conditions: Array<Record<D, { in: string[] }> | Record<O, string>> = [
+    { [departmentField]: { in: scope.departmentIds } } as Record<D, { in: string[] }>,
+  ];
+  if (fields.owner) {
+    conditions.push({ [fields.owner]: scope.userId } as Record<O, string>);
+  }
+
+  return { OR: conditions };
+}
+
+/**
+ * Whether a single record is in the scope, for records loaded by id
+ */
+export function isInScope(
+  scope: DataScope,
+  record: { departmentId: string | null; ownerId?: string | null }
+): boolean {
+  if (scope.departmentIds === null) {
+    return true;
+  }
+  if (record.ownerId && record.ownerId === scope.userId) {
+    return true;
+  }
+  return record.departmentId !== null && scope.departmentIds.includes(record.departmentId);
+}
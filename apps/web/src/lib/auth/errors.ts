@@ -0,0 +1,15 @@
+import type { AuthErrorCode } from './constants';
+
+/**
+ * Attached as the `cause` of a TRPCError to give the client a machine-readable reason
+ * The tRPC error formatter copies `code` to `data.authErrorCode`
+ */
+export class AuthError extends Error {
+  constructor(
+    public readonly code: AuthErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
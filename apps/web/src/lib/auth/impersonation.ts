@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Node-only; the tRPC and API route handlers run on the Node runtime
+
+const impersonationScope = new AsyncLocalStorage<{ impersonatorId: string }>();
+
+/**
+ * Run `fn` on behalf of an administrator impersonating the signed-in user
+ * Audit events recorded anywhere inside it are tagged with the administrator, see AuditService.record
+ */
+export function runAsImpersonator<T>(impersonatorId: string, fn: () => T): T {
+  return impersonationScope.run({ impersonatorId }, fn);
+}
+
+/**
+ * The administrator impersonating the user of the current request, if any
+ */
+export function getActiveImpersonatorId(): string | null {
+  return impersonationScope.getStore()?.impersonatorId ?? null;
+}
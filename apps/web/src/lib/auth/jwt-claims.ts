@@ -0,0 +1,56 @@
+import type { Role } from './permissions';
+
+// Shared by the Node implementation in jwt.ts and the Edge implementation in jwt-edge.ts,
+// so this module must not import anything Node-specific
+
+/**
+ * JWT Configuration and Constants
+ */
+export const JWT_CONFIG = {
+  EXPIRY_SECONDS: 15 * 60,
+  ALGORITHMS: ['RS256', 'EdDSA'] as const,
+  DEFAULT_ALGORITHM: 'RS256' as const,
+  // Served by app/.well-known/jwks.json/route.ts for the Edge middleware and other services
+  JWKS_PATH: '/.well-known/jwks.json',
+} as const;
+
+export type SigningAlgorithm = (typeof JWT_CONFIG.ALGORITHMS)[number];
+
+export const JWT_ERROR_MESSAGES = {
+  SIGNING_KEY_UNAVAILABLE: 'JWT signing keys are unavailable',
+  TOKEN_EXPIRED: 'Token has expired',
+  TOKEN_INVALID: 'Token is invalid',
+  TOKEN_MALFORMED: 'Token is malformed',
+  USER_NOT_FOUND: 'User not found',
+} as const;
+
+/**
+ * JWT Payload interface
+ */
+export interface JWTPayload {
+  userId: string;
+  email: string;
+  sessionId?: string;
+  role?: Role;
+  // Set on tokens an administrator uses to act as the user; see ImpersonationService
+  impersonatorId?: string;
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * Public half of a signing key in JWK form, as published in the JWKS document
+ */
+export interface PublicSigningKey extends JsonWebKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: 'sig';
+}
+
+export interface JSONWebKeySet {
+  keys: PublicSigningKey[];
+}
+
+export function isSigningAlgorithm(value: unknown): value is SigningAlgorithm {
+  return typeof value === 'string' && (JWT_CONFIG.ALGORITHMS as readonly string[]).includes(value);
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getJWKSUrl, verifyJWTEdge } from './jwt-edge';
+import { signJWT, verifyJWT, JWT_ERROR_MESSAGES } from './jwt';
+import { SIGNING_KEY_CONFIG } from './constants';
+import { SigningKeyService } from '../services/signing-key.service';
+
+describe('Edge JWT Verification', () => {
+  const jwksUrl = 'http://localhost:3000/.well-known/jwks.json';
+  const fetchMock = vi.fn();
+
+  const testPayload = {
+    userId: 'user-123',
+    email: 'test@example.com',
+    sessionId: 'session-123',
+    role: 'VIEWER' as const,
+  };
+
+  beforeEach(() => {
+    // Serve the keyring the way app/.well-known/jwks.json/route.ts does
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => Response.json(await SigningKeyService.getPublicJWKS()));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should return the same claims as the Node implementation', async () => {
+    const token = await signJWT(testPayload);
+
+    const edgePayload = await verifyJWTEdge(token, jwksUrl);
+
+    expect(edgePayload).toEqual(await verifyJWT(token));
+    expect(edgePayload).toMatchObject(testPayload);
+    expect(fetchMock).toHaveBeenCalledWith(jwksUrl, expect.anything());
+  });
+
+  it('should reuse the fetched keys for later tokens', async () => {
+    await verifyJWTEdge(await signJWT(testPayload), jwksUrl);
+    fetchMock.mockClear();
+
+    await verifyJWTEdge(await signJWT(testPayload), jwksUrl);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens signed with another key under a trusted kid', async () => {
+    const { kid } = await SigningKeyService.getSigningKey();
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const token = jwt.sign(testPayload, privateKey, { algorithm: 'RS256', keyid: kid });
+
+    await expect(verifyJWTEdge(token, jwksUrl)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+  });
+
+  it('should reject tokens whose payload was changed after signing', async () => {
+    const [header, , signature] = (await signJWT(testPayload)).split('.');
+    const payload = Buffer.from(JSON.stringify({ ...testPayload, role: 'ADMIN' })).toString('base64url');
+
+    await expect(verifyJWTEdge(`${header}.${payload}.${signature}`, jwksUrl))
+      .rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+  });
+
+  it('should only accept the algorithm of the named key', async () => {
+    const { kid, algorithm } = await SigningKeyService.getSigningKey();
+    const unsigned = jwt.sign(testPayload, '', { algorithm: 'none', keyid: kid });
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const [, payload, signature] = (await signJWT(testPayload)).split('.');
+    const swapped = `${encode({ alg: algorithm === 'RS256' ? 'EdDSA' : 'RS256', typ: 'JWT', kid })}.${payload}.${signature}`;
+
+    await expect(verifyJWTEdge(unsigned, jwksUrl)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+    await expect(verifyJWTEdge(swapped, jwksUrl)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+  });
+
+  it('should reject expired tokens', async () => {
+    const { kid, privateKey } = await SigningKeyService.getSigningKey();
+    const token = jwt.sign(
+      { ...testPayload, exp: Math.floor(Date.now() / 1000) - 1 },
+      privateKey,
+      { algorithm: 'RS256', keyid: kid }
+    );
+
+    await expect(verifyJWTEdge(token, jwksUrl)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_EXPIRED);
+  });
+
+  it('should reject malformed tokens', async () => {
+    await expect(verifyJWTEdge('not-a-jwt', jwksUrl)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
+    await expect(verifyJWTEdge('a.b.c', jwksUrl)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
+  });
+
+  it('should refetch the keys when a token names a key rotated in since the last fetch', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await verifyJWTEdge(await signJWT(testPayload), jwksUrl);
+
+    await SigningKeyService.rotate();
+    const token = await signJWT(testPayload);
+    vi.advanceTimersByTime(SIGNING_KEY_CONFIG.MIN_RELOAD_INTERVAL_MS);
+    fetchMock.mockClear();
+
+    await expect(verifyJWTEdge(token, jwksUrl)).resolves.toMatchObject(testPayload);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the keys fetched from each JWKS URL apart', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const otherKey = { ...publicKey.export({ format: 'jwk' }), kid: 'other-key', alg: 'RS256', use: 'sig' };
+    const token = jwt.sign(testPayload, privateKey, { algorithm: 'RS256', keyid: 'other-key', expiresIn: '15m' });
+    fetchMock.mockImplementationOnce(async () => Response.json({ keys: [otherKey] }));
+    await expect(verifyJWTEdge(token, 'http://other.example/.well-known/jwks.json')).resolves.toMatchObject(testPayload);
+
+    await expect(verifyJWTEdge(token, jwksUrl)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+  });
+
+  it('should build the JWKS URL from the configured origin', () => {
+    expect(getJWKSUrl({ INTERNAL_APP_URL: 'http://web:3000', APP_URL: 'https://app.example' }))
+      .toBe('http://web:3000/.well-known/jwks.json');
+    expect(getJWKSUrl({ APP_URL: 'https://app.example' })).toBe('https://app.example/.well-known/jwks.json');
+    expect(getJWKSUrl({})).toBe('http://localhost:3000/.well-known/jwks.json');
+  });
+
+  it('should report unavailable keys when the JWKS cannot be fetched', async () => {
+    vi.resetModules();
+    const { verifyJWTEdge: verifyWithEmptyCache } = await import('./jwt-edge');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+    await expect(verifyWithEmptyCache(await signJWT(testPayload), jwksUrl))
+      .rejects.toThrow(JWT_ERROR_MESSAGES.SIGNING_KEY_UNAVAILABLE);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  JWT_CONFIG,
+  JWT_ERROR_MESSAGES,
+  type JSONWebKeySet,
+  type JWTPayload,
+  type PublicSigningKey,
+} from './jwt-claims';
+import { verifyJWTWithKeys } from './jwt-verify';
+import { SIGNING_KEY_CONFIG } from './constants';
+
+/**
+ * JWT verification for the Edge runtime, which cannot reach the keyring's store
+ * Public keys come from the JWKS document instead and are cached per isolate
+ */
+
+// Keyed by JWKS URL, so keys published at one address are never used to verify for another
+const jwksCache = new Map<string, { keys: Map<string, PublicSigningKey>; fetchedAt: number }>();
+
+/**
+ * Where this app publishes its signing keys, on a configured origin
+ * INTERNAL_APP_URL (or APP_URL) must be configured in production; the request Host header is
+ * never trusted for this, or a forged Host would pick the keys tokens are checked against
+ */
+export function getJWKSUrl(env: Partial<NodeJS.ProcessEnv> = process.env): string {
+  const origin = env.INTERNAL_APP_URL || env.APP_URL || `http://localhost:${env.PORT ?? 3000}`;
+  return new URL(JWT_CONFIG.JWKS_PATH, origin).toString();
+}
+
+async function fetchJWKS(jwksUrl: string): Promise<Map<string, PublicSigningKey>> {
+  const cached = jwksCache.get(jwksUrl);
+  try {
+    const response = await fetch(jwksUrl, { headers: { accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`JWKS request failed with status ${response.status}`);
+    }
+
+    const jwks = (await response.json()) as JSONWebKeySet;
+    const keys = new Map(jwks.keys.map((key) => [key.kid, key]));
+    jwksCache.set(jwksUrl, { keys, fetchedAt: Date.now() });
+    return keys;
+  } catch (error) {
+    // Keep verifying with the last known keys while the endpoint is unreachable
+    if (cached) {
+      console.warn('Failed to refresh JWKS, using cached keys:', error);
+      return cached.keys;
+    }
+    console.error('Failed to fetch JWKS:', error);
+    throw new Error(JWT_ERROR_MESSAGES.SIGNING_KEY_UNAVAILABLE);
+  }
+}
+
+async function resolveKey(jwksUrl: string, kid: string): Promise<PublicSigningKey | null> {
+  const cached = jwksCache.get(jwksUrl);
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+
+  if (cached && age < SIGNING_KEY_CONFIG.JWKS_MAX_AGE_SECONDS * 1000) {
+    const key = cached.keys.get(kid);
+    // An unknown kid may be a key rotated in since the last fetch; forged kids only refetch occasionally
+    if (key || age < SIGNING_KEY_CONFIG.MIN_RELOAD_INTERVAL_MS) {
+      return key ?? null;
+    }
+  }
+
+  return (await fetchJWKS(jwksUrl)).get(kid) ?? null;
+}
+
+/**
+ * Verify a token's signature and expiry and return its claims
+ * @param token - JWT token to verify
+ * @param jwksUrl - Where the signing keys are published, normally getJWKSUrl()
+ * @returns Promise<JWTPayload> - Verified payload
+ * @throws Error with a JWT_ERROR_MESSAGES message if the token is invalid, expired, or malformed,
+ * or if the keys cannot be fetched
+ */
+export async function verifyJWTEdge(token: string, jwksUrl: string | URL): Promise<JWTPayload> {
+  const url = jwksUrl.toString();
+  return verifyJWTWithKeys(token, (kid) => resolveKey(url, kid));
+}
@@ -1,18 +1,7 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { signJWT } from './jwt';
 
 describe('JWT Input Validation (Senior Developer Refactoring)', () => {
-  const originalEnv = process.env.JWT_SECRET;
-  const testSecret = 'test-jwt-secret-for-validation-tests';
-  
-  beforeAll(() => {
-    process.env.JWT_SECRET = testSecret;
-  });
-
-  afterAll(() => {
-    process.env.JWT_SECRET = originalEnv;
-  });
-
   describe('signJWT input validation', () => {
     it('should reject null payload', async () => {
       await expect(signJWT(null as any)).rejects.toThrow('Invalid payload: payload must be an object');
@@ -0,0 +1,130 @@
+import {
+  JWT_ERROR_MESSAGES,
+  isSigningAlgorithm,
+  type JWTPayload,
+  type PublicSigningKey,
+  type SigningAlgorithm,
+} from './jwt-claims';
+
+/**
+ * Signature and claim checks shared by verifyJWT (Node) and verifyJWTEdge (Edge)
+ * Uses Web Crypto, which both runtimes provide, so it must not import anything Node-specific
+ */
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const WEB_CRYPTO_ALGORITHMS: Record<SigningAlgorithm, RsaHashedImportParams | Algorithm> = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  EdDSA: { name: 'Ed25519' },
+};
+
+/**
+ * Looks up the public key for a token's `kid` header
+ * @returns PublicSigningKey | null - Null if no key with that id is trusted
+ */
+export type SigningKeyResolver = (kid: string) => Promise<PublicSigningKey | null>;
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
+  }
+
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeJSONSegment(segment: string): unknown {
+  return JSON.parse(textDecoder.decode(base64UrlToBytes(segment)));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Verify a token's signature against the key named in its header and check its expiry
+ * @param token - Compact JWS to verify
+ * @param resolveKey - Source of trusted public keys
+ * @returns Promise<Record<string, unknown>> - Verified claims, not yet checked for their shape
+ * @throws Error with a JWT_ERROR_MESSAGES message if the token is invalid, expired, or malformed
+ */
+export async function verifyJWSWithKeys(
+  token: string,
+  resolveKey: SigningKeyResolver
+): Promise<Record<string, unknown>> {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) {
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
+  }
+
+  const [headerPart, payloadPart, signaturePart] = parts;
+  let header: unknown;
+  let payload: unknown;
+  try {
+    header = decodeJSONSegment(headerPart);
+    payload = decodeJSONSegment(payloadPart);
+  } catch {
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
+  }
+
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    signature = base64UrlToBytes(signaturePart);
+  } catch {
+    // A garbled signature is a failed signature check, like any other wrong signature
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+  }
+
+  if (!isRecord(header) || typeof header.kid !== 'string' || !isSigningAlgorithm(header.alg)) {
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+  }
+
+  const publicKey = await resolveKey(header.kid);
+  // The key decides the algorithm, so "none" or an algorithm swap in the header can't skip the check
+  if (!publicKey || publicKey.alg !== header.alg) {
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+  }
+
+  const algorithm = WEB_CRYPTO_ALGORITHMS[publicKey.alg];
+  const key = await crypto.subtle.importKey('jwk', publicKey, algorithm, false, ['verify']);
+  const isSignatureValid = await crypto.subtle.verify(
+    algorithm.name,
+    key,
+    signature,
+    textEncoder.encode(`${headerPart}.${payloadPart}`)
+  );
+  if (!isSignatureValid) {
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+  }
+
+  // Every token we accept must expire; one without exp would stay valid forever
+  if (!isRecord(payload) || typeof payload.exp !== 'number' || !Number.isFinite(payload.exp)) {
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
+  }
+
+  // A token is expired from its exp second onwards
+  if (Math.floor(Date.now() / 1000) >= payload.exp) {
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_EXPIRED);
+  }
+
+  return payload;
+}
+
+/**
+ * Verify one of our access tokens
+ * @param token - JWT token to verify
+ * @param resolveKey - Source of trusted public keys
+ * @returns Promise<JWTPayload> - Verified payload
+ * @throws Error with a JWT_ERROR_MESSAGES message if the token is invalid, expired, or malformed
+ */
+export async function verifyJWTWithKeys(token: string, resolveKey: SigningKeyResolver): Promise<JWTPayload> {
+  const payload = await verifyJWSWithKeys(token, resolveKey);
+
+  if (typeof payload.userId !== 'string' || typeof payload.email !== 'string') {
+    throw new Error(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
+  }
+
+  return payload as unknown as JWTPayload;
+}
@@ -1,21 +1,17 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
 import { signJWT, verifyJWT, decodeJWT, JWT_ERROR_MESSAGES, type JWTPayload } from './jwt';
+import { SigningKeyService } from '../services/signing-key.service';
 
 describe('JWT Utilities', () => {
-  const originalEnv = process.env.JWT_SECRET;
-  const testSecret = 'test-jwt-secret-key-for-testing';
-  
   const testPayload: Omit<JWTPayload, 'iat' | 'exp'> = {
     userId: 'user-123',
     email: 'test@example.com',
   };
 
-  beforeAll(() => {
-    process.env.JWT_SECRET = testSecret;
-  });
-
-  afterAll(() => {
-    process.env.JWT_SECRET = originalEnv;
+  afterEach(() => {
+    vi.restoreAllMocks();
   });
 
   describe('signJWT', () => {
@@ -27,12 +23,19 @@ describe('JWT Utilities', () => {
       expect(token.split('.')).toHaveLength(3); // JWT has 3 parts separated by dots
     });
 
-    it('should throw error when JWT_SECRET is missing', async () => {
-      delete process.env.JWT_SECRET;
+    it('should throw error when the signing key cannot be loaded', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(SigningKeyService, 'getSigningKey').mockRejectedValue(new Error('Failed to fetch signing keys'));
       
-      await expect(signJWT(testPayload)).rejects.toThrow(JWT_ERROR_MESSAGES.SECRET_MISSING);
+      await expect(signJWT(testPayload)).rejects.toThrow(JWT_ERROR_MESSAGES.SIGNING_KEY_UNAVAILABLE);
+    });
+
+    it('should name the signing key in the token header', async () => {
+      const { kid, algorithm } = await SigningKeyService.getSigningKey();
+      const token = await signJWT(testPayload);
+      const header = jwt.decode(token, { complete: true })!.header;
       
-      process.env.JWT_SECRET = testSecret; // Restore for other tests
+      expect(header).toEqual({ alg: algorithm, typ: 'JWT', kid });
     });
 
     it('should include user data in token payload', async () => {
@@ -73,22 +76,74 @@ describe('JWT Utilities', () => {
       await expect(verifyJWT(malformedToken)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
     });
 
-    it('should throw error when JWT_SECRET is missing', async () => {
+    it('should throw error when the verification keys cannot be loaded', async () => {
       const token = await signJWT(testPayload);
-      delete process.env.JWT_SECRET;
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(SigningKeyService, 'getVerificationKey').mockRejectedValue(new Error('Failed to fetch signing keys'));
       
-      await expect(verifyJWT(token)).rejects.toThrow(JWT_ERROR_MESSAGES.SECRET_MISSING);
+      await expect(verifyJWT(token)).rejects.toThrow(JWT_ERROR_MESSAGES.SIGNING_KEY_UNAVAILABLE);
+    });
+
+    it('should throw error for token signed with a key outside the keyring', async () => {
+      const { kid } = await SigningKeyService.getSigningKey();
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const token = jwt.sign(testPayload, privateKey, { algorithm: 'RS256', keyid: kid });
       
-      process.env.JWT_SECRET = testSecret; // Restore for other tests
+      await expect(verifyJWT(token)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_INVALID);
     });
 
-    it('should throw error for token signed with different secret', async () => {
-      const token = await signJWT(testPayload);
-      process.env.JWT_SECRET = 'different-secret';
+    it('should throw error for token with an unknown kid', async () => {
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const token = jwt.sign(testPayload, privateKey, { algorithm: 'RS256', keyid: 'unknown-kid' });
       
       await expect(verifyJWT(token)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+    });
+
+    it('should throw error for unsigned token', async () => {
+      const { kid } = await SigningKeyService.getSigningKey();
+      const token = jwt.sign(testPayload, '', { algorithm: 'none', keyid: kid });
+      
+      await expect(verifyJWT(token)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_INVALID);
+    });
+
+    it('should throw error for expired token', async () => {
+      const { kid, privateKey } = await SigningKeyService.getSigningKey();
+      const token = jwt.sign(
+        { ...testPayload, exp: Math.floor(Date.now() / 1000) - 1 },
+        privateKey,
+        { algorithm: 'RS256', keyid: kid }
+      );
       
-      process.env.JWT_SECRET = testSecret; // Restore for other tests
+      await expect(verifyJWT(token)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_EXPIRED);
+    });
+
+    it('should throw error for token that never expires', async () => {
+      const { kid, privateKey } = await SigningKeyService.getSigningKey();
+      const token = jwt.sign(testPayload, privateKey, { algorithm: 'RS256', keyid: kid });
+
+      await expect(verifyJWT(token)).rejects.toThrow(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
+    });
+  });
+
+  describe('key rotation', () => {
+    it('should keep verifying tokens signed before a rotation', async () => {
+      const oldToken = await signJWT(testPayload);
+      
+      await SigningKeyService.rotate();
+      const newToken = await signJWT(testPayload);
+      
+      expect(jwt.decode(newToken, { complete: true })!.header.kid)
+        .not.toBe(jwt.decode(oldToken, { complete: true })!.header.kid);
+      await expect(verifyJWT(oldToken)).resolves.toMatchObject(testPayload);
+      await expect(verifyJWT(newToken)).resolves.toMatchObject(testPayload);
+    });
+
+    it('should sign and verify with an EdDSA key', async () => {
+      await SigningKeyService.rotate('EdDSA');
+      const token = await signJWT(testPayload);
+      
+      expect(jwt.decode(token, { complete: true })!.header.alg).toBe('EdDSA');
+      await expect(verifyJWT(token)).resolves.toMatchObject(testPayload);
     });
   });
 
@@ -116,17 +171,15 @@ describe('JWT Utilities', () => {
       expect(decoded).toBeNull();
     });
 
-    it('should decode token even with wrong secret (no verification)', async () => {
-      const token = await signJWT(testPayload);
-      process.env.JWT_SECRET = 'different-secret';
+    it('should decode token even with an unknown key (no verification)', async () => {
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const token = jwt.sign(testPayload, privateKey, { algorithm: 'RS256', keyid: 'unknown-kid' });
       
       const decoded = decodeJWT(token);
       
       expect(decoded).toBeDefined();
       expect(decoded!.userId).toBe(testPayload.userId);
       expect(decoded!.email).toBe(testPayload.email);
-      
-      process.env.JWT_SECRET = testSecret; // Restore for other tests
     });
   });
 
@@ -138,9 +191,9 @@ describe('JWT Utilities', () => {
       expect(decoded!.exp).toBeDefined();
       expect(decoded!.iat).toBeDefined();
       
-      // Token should expire in 24 hours (86400 seconds)
+      // Access token should expire in 15 minutes (900 seconds)
       const expirationTime = decoded!.exp! - decoded!.iat!;
-      expect(expirationTime).toBe(86400); // 24 hours in seconds
+      expect(expirationTime).toBe(900); // 15 minutes in seconds
     });
   });
 
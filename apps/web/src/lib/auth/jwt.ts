@@ -1,50 +1,50 @@
+import { sign } from 'crypto';
 import jwt from 'jsonwebtoken';
+import {
+  JWT_CONFIG,
+  JWT_ERROR_MESSAGES,
+  type JWTPayload,
+  type PublicSigningKey,
+} from './jwt-claims';
+import { verifyJWTWithKeys } from './jwt-verify';
+import { SigningKeyService, type ActiveSigningKey } from '../services/signing-key.service';
 
-/**
- * JWT Configuration and Constants
- */
-export const JWT_CONFIG = {
-  EXPIRY: '24h',
-  ALGORITHM: 'HS256' as const,
-} as const;
+export { JWT_CONFIG, JWT_ERROR_MESSAGES, type JWTPayload } from './jwt-claims';
 
-export const JWT_ERROR_MESSAGES = {
-  SECRET_MISSING: 'JWT secret is not configured',
-  TOKEN_EXPIRED: 'Token has expired',
-  TOKEN_INVALID: 'Token is invalid',
-  TOKEN_MALFORMED: 'Token is malformed',
-  USER_NOT_FOUND: 'User not found',
-} as const;
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
 
-/**
- * JWT Payload interface
- */
-export interface JWTPayload {
-  userId: string;
-  email: string;
-  iat?: number;
-  exp?: number;
+async function getSigningKey(): Promise<ActiveSigningKey> {
+  try {
+    return await SigningKeyService.getSigningKey();
+  } catch (error) {
+    console.error('Failed to load the JWT signing key:', error);
+    throw new Error(JWT_ERROR_MESSAGES.SIGNING_KEY_UNAVAILABLE);
+  }
 }
 
-/**
- * Get JWT secret from environment variables
- * @throws Error if JWT_SECRET is not configured
- */
-function getJWTSecret(): string {
-  const secret = process.env.JWT_SECRET;
-  if (!secret || secret.trim().length === 0) {
-    throw new Error(JWT_ERROR_MESSAGES.SECRET_MISSING);
+async function getVerificationKey(kid: string): Promise<PublicSigningKey | null> {
+  try {
+    return await SigningKeyService.getVerificationKey(kid);
+  } catch (error) {
+    console.error('Failed to load the JWT verification keys:', error);
+    throw new Error(JWT_ERROR_MESSAGES.SIGNING_KEY_UNAVAILABLE);
   }
-  return secret;
 }
 
 /**
  * Sign a JWT token with user payload
+ * The header's kid names the keyring key that signed it
  * @param payload - User data to encode in the token
+ * @param expiresInSeconds - Token lifetime, JWT_CONFIG.EXPIRY_SECONDS unless given
  * @returns Promise<string> - Signed JWT token
- * @throws Error if JWT_SECRET is not configured
+ * @throws Error if the signing key cannot be loaded
  */
-export async function signJWT(payload: Omit<JWTPayload, 'iat' | 'exp'>): Promise<string> {
+export async function signJWT(
+  payload: Omit<JWTPayload, 'iat' | 'exp'>,
+  expiresInSeconds: number = JWT_CONFIG.EXPIRY_SECONDS
+): Promise<string> {
   if (!payload || typeof payload !== 'object') {
     throw new Error('Invalid payload: payload must be an object');
   }
@@ -57,25 +57,17 @@ export async function signJWT(payload: Omit<JWTPayload, 'iat' | 'exp'>): Promise
     throw new Error('Invalid payload: email is required and must be a non-empty string');
   }
 
-  const secret = getJWTSecret();
-  
-  return new Promise((resolve, reject) => {
-    jwt.sign(
-      payload,
-      secret,
-      {
-        expiresIn: JWT_CONFIG.EXPIRY,
-        algorithm: JWT_CONFIG.ALGORITHM,
-      },
-      (error, token) => {
-        if (error || !token) {
-          reject(error || new Error('Failed to sign token'));
-          return;
-        }
-        resolve(token);
-      }
-    );
-  });
+  const { kid, algorithm, privateKey } = await getSigningKey();
+  const issuedAt = Math.floor(Date.now() / 1000);
+
+  const signingInput = [
+    encodeSegment({ alg: algorithm, typ: 'JWT', kid }),
+    encodeSegment({ ...payload, iat: issuedAt, exp: issuedAt + expiresInSeconds }),
+  ].join('.');
+  // RS256 is RSASSA-PKCS1-v1_5 over SHA-256; Ed25519 hashes internally and takes no digest
+  const signature = sign(algorithm === 'RS256' ? 'sha256' : null, Buffer.from(signingInput), privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
 }
 
 /**
@@ -85,41 +77,7 @@ export async function signJWT(payload: Omit<JWTPayload, 'iat' | 'exp'>): Promise
  * @throws Error if token is invalid, expired, or malformed
  */
 export async function verifyJWT(token: string): Promise<JWTPayload> {
-  const secret = getJWTSecret();
-  
-  // Check if token has the basic JWT structure (3 parts separated by dots)
-  if (!token || typeof token !== 'string' || token.split('.').length !== 3) {
-    throw new Error(JWT_ERROR_MESSAGES.TOKEN_MALFORMED);
-  }
-  
-  return new Promise((resolve, reject) => {
-    jwt.verify(token, secret, { algorithms: [JWT_CONFIG.ALGORITHM] }, (error, decoded) => {
-      if (error) {
-        if (error.name === 'TokenExpiredError') {
-          reject(new Error(JWT_ERROR_MESSAGES.TOKEN_EXPIRED));
-          return;
-        }
-        if (error.name === 'JsonWebTokenError') {
-          // Check if it's a malformed token vs invalid signature
-          if (error.message.includes('malformed') || error.message.includes('invalid token')) {
-            reject(new Error(JWT_ERROR_MESSAGES.TOKEN_MALFORMED));
-            return;
-          }
-          reject(new Error(JWT_ERROR_MESSAGES.TOKEN_INVALID));
-          return;
-        }
-        reject(new Error(JWT_ERROR_MESSAGES.TOKEN_MALFORMED));
-        return;
-      }
-      
-      if (!decoded || typeof decoded === 'string') {
-        reject(new Error(JWT_ERROR_MESSAGES.TOKEN_MALFORMED));
-        return;
-      }
-      
-      resolve(decoded as JWTPayload);
-    });
-  });
+  return verifyJWTWithKeys(token, getVerificationKey);
 }
 
 /**
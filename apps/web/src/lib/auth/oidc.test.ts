@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import {
+  buildAuthorizationUrl,
+  createCodeChallenge,
+  discoverProvider,
+  exchangeAuthorizationCode,
+  generateCodeVerifier,
+  generateOidcNonce,
+  getOidcConfig,
+  getRedirectUri,
+  verifyIdToken,
+  type OidcConfig,
+  type OidcProviderMetadata,
+} from './oidc';
+import { SSO_ERROR_MESSAGES } from './constants';
+import { startMockOidcIssuer, type MockOidcIssuer } from '../../test/mock-oidc-issuer';
+
+describe('OpenID Connect', () => {
+  const redirectUri = 'http://localhost:3000/api/auth/oidc/callback';
+  let issuer: MockOidcIssuer;
+  let config: OidcConfig;
+  let metadata: OidcProviderMetadata;
+
+  beforeAll(async () => {
+    issuer = await startMockOidcIssuer();
+    config = getOidcConfig({
+      OIDC_ISSUER: issuer.issuer,
+      OIDC_CLIENT_ID: issuer.clientId,
+      OIDC_CLIENT_SECRET: issuer.clientSecret,
+    })!;
+    metadata = await discoverProvider(config.issuer);
+  });
+
+  afterAll(async () => {
+    await issuer.close();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Run the browser leg of the flow and return what the callback receives
+   */
+  async function signIn(clientConfig = config) {
+    const state = generateOidcNonce();
+    const nonce = generateOidcNonce();
+    const codeVerifier = generateCodeVerifier();
+
+    const callback = await issuer.authorize(
+      buildAuthorizationUrl(metadata, clientConfig, { redirectUri, state, nonce, codeVerifier })
+    );
+
+    return { callback, state, nonce, codeVerifier, code: callback.searchParams.get('code')! };
+  }
+
+  describe('getOidcConfig', () => {
+    it('should be off unless an issuer and client are configured', () => {
+      expect(getOidcConfig({})).toBeNull();
+      expect(getOidcConfig({ OIDC_ISSUER: 'https://idp.example.com' })).toBeNull();
+    });
+
+    it('should apply defaults and drop a trailing slash from the issuer', () => {
+      expect(getOidcConfig({ OIDC_ISSUER: 'https://idp.example.com/', OIDC_CLIENT_ID: 'app' })).toEqual({
+        issuer: 'https://idp.example.com',
+        clientId: 'app',
+        clientSecret: null,
+        redirectUri: null,
+        scopes: 'openid email profile',
+        providerName: 'SSO',
+      });
+    });
+
+    it('should derive the redirect URI from the request unless configured', () => {
+      expect(getRedirectUri(config, 'https://app.example.com/api/auth/oidc/login?redirect=/x'))
+        .toBe('https://app.example.com/api/auth/oidc/callback');
+      expect(getRedirectUri({ ...config, redirectUri: 'https://fixed.example.com/cb' }, 'https://other.example.com/'))
+        .toBe('https://fixed.example.com/cb');
+    });
+  });
+
+  describe('discoverProvider', () => {
+    it('should load the endpoints from the discovery document', () => {
+      expect(metadata).toMatchObject({
+        issuer: issuer.issuer,
+        authorization_endpoint: `${issuer.issuer}/authorize`,
+        token_endpoint: `${issuer.issuer}/token`,
+        jwks_uri: `${issuer.issuer}/jwks`,
+      });
+    });
+
+    it('should refuse a document published for another issuer', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      // Same server, but the document names 127.0.0.1 as the issuer
+      const otherName = issuer.issuer.replace('127.0.0.1', 'localhost');
+
+      await expect(discoverProvider(otherName)).rejects.toThrow(SSO_ERROR_MESSAGES.PROVIDER_UNAVAILABLE);
+    });
+  });
+
+  describe('buildAuthorizationUrl', () => {
+    it('should request a code with an S256 PKCE challenge', () => {
+      const url = new URL(buildAuthorizationUrl(metadata, config, {
+        redirectUri,
+        state: 'state-value',
+        nonce: 'nonce-value',
+        codeVerifier: 'verifier',
+      }));
+
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        response_type: 'code',
+        client_id: issuer.clientId,
+        redirect_uri: redirectUri,
+        scope: 'openid email profile',
+        state: 'state-value',
+        nonce: 'nonce-value',
+        code_challenge: createCodeChallenge('verifier'),
+        code_challenge_method: 'S256',
+      });
+    });
+  });
+
+  describe('code exchange and ID token validation', () => {
+    it('should return the verified claims of the signed-in user', async () => {
+      issuer.setUser({ sub: 'subject-1', email: 'alice@example.com', email_verified: true });
+      const { code, codeVerifier, nonce, state, callback } = await signIn();
+
+      const idToken = await exchangeAuthorizationCode(metadata, config, { code, redirectUri, codeVerifier });
+      const claims = await verifyIdToken(idToken, metadata, config, nonce);
+
+      expect(callback.searchParams.get('state')).toBe(state);
+      expect(claims).toMatchObject({
+        iss: issuer.issuer,
+        sub: 'subject-1',
+        aud: issuer.clientId,
+        email: 'alice@example.com',
+        email_verified: true,
+      });
+      expect(issuer.tokenRequests.at(-1)?.authorization).toMatch(/^Basic /);
+    });
+
+    it('should send the client id in the body for public clients', async () => {
+      const { code, codeVerifier } = await signIn();
+
+      // The mock issuer accepts either form of client authentication
+      await exchangeAuthorizationCode(metadata, { ...config, clientSecret: null }, { code, redirectUri, codeVerifier });
+
+      const request = issuer.tokenRequests.at(-1)!;
+      expect(request.authorization).toBeNull();
+      expect(request.body.get('client_id')).toBe(issuer.clientId);
+    });
+
+    it('should fail when the code verifier does not match the challenge', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { code } = await signIn();
+
+      await expect(exchangeAuthorizationCode(metadata, config, {
+        code,
+        redirectUri,
+        codeVerifier: generateCodeVerifier(),
+      })).rejects.toThrow(SSO_ERROR_MESSAGES.CODE_EXCHANGE_FAILED);
+    });
+
+    it('should not redeem a code twice', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { code, codeVerifier } = await signIn();
+      await exchangeAuthorizationCode(metadata, config, { code, redirectUri, codeVerifier });
+
+      await expect(exchangeAuthorizationCode(metadata, config, { code, redirectUri, codeVerifier }))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.CODE_EXCHANGE_FAILED);
+    });
+
+    it('should reject an ID token issued for another sign-in', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { code, codeVerifier } = await signIn();
+      const idToken = await exchangeAuthorizationCode(metadata, config, { code, redirectUri, codeVerifier });
+
+      await expect(verifyIdToken(idToken, metadata, config, generateOidcNonce()))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.ID_TOKEN_INVALID);
+    });
+
+    it.each([
+      ['another audience', { aud: 'other-client' }],
+      ['another issuer', { iss: 'https://evil.example.com' }],
+      ['several audiences without azp', { aud: ['test-client', 'other-client'] }],
+      ['an expiry in the past', { exp: Math.floor(Date.now() / 1000) - 600 }],
+      ['an issue time in the future', { iat: Math.floor(Date.now() / 1000) + 3600 }],
+    ])('should reject an ID token with %s', async (_, claims) => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      issuer.overrideNextIdToken(claims);
+      const { code, codeVerifier, nonce } = await signIn();
+      const idToken = await exchangeAuthorizationCode(metadata, config, { code, redirectUri, codeVerifier });
+
+      await expect(verifyIdToken(idToken, metadata, config, nonce))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.ID_TOKEN_INVALID);
+    });
+
+    it('should reject an ID token whose signature does not verify', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { code, codeVerifier, nonce } = await signIn();
+      const [header, payload] = (await exchangeAuthorizationCode(metadata, config, { code, redirectUri, codeVerifier }))
+        .split('.');
+      const forged = Buffer.from(
+        JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), sub: 'someone-else' })
+      ).toString('base64url');
+
+      await expect(verifyIdToken(`${header}.${forged}.${'A'.repeat(342)}`, metadata, config, nonce))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.ID_TOKEN_INVALID);
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { createHash } from 'crypto';
+import { OIDC_CONFIG, SSO_ERROR_MESSAGES } from './constants';
+import { isSigningAlgorithm, type PublicSigningKey } from './jwt-claims';
+import { verifyJWSWithKeys } from './jwt-verify';
+import { generateSecureToken } from './secure-token';
+
+/**
+ * OpenID Connect relying party: discovery, authorization code + PKCE, ID token validation
+ * ID tokens must be signed with RS256 or EdDSA and carry a kid, like our own access tokens
+ */
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  // Null for public clients, which rely on PKCE alone
+  clientSecret: string | null;
+  // Null to derive it from the request, see getRedirectUri
+  redirectUri: string | null;
+  scopes: string;
+  providerName: string;
+}
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+const providerCache = new Map<string, { metadata: OidcProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Map<string, PublicSigningKey>; fetchedAt: number }>();
+
+/**
+ * Read the provider settings from OIDC_* environment variables
+ * @returns OidcConfig | null - Null when single sign-on is not set up
+ */
+export function getOidcConfig(env: Partial<NodeJS.ProcessEnv> = process.env): OidcConfig | null {
+  if (!env.OIDC_ISSUER || !env.OIDC_CLIENT_ID) {
+    return null;
+  }
+
+  return {
+    // Issuers are compared exactly, and discovery appends to it, so drop any trailing slash
+    issuer: env.OIDC_ISSUER.replace(/\/+$/, ''),
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET || null,
+    redirectUri: env.OIDC_REDIRECT_URI || null,
+    scopes: env.OIDC_SCOPES || OIDC_CONFIG.DEFAULT_SCOPES,
+    providerName: env.OIDC_PROVIDER_NAME || OIDC_CONFIG.DEFAULT_PROVIDER_NAME,
+  };
+}
+
+/**
+ * The callback URL registered with the provider
+ * Falls back to this app's callback route on the request's origin when OIDC_REDIRECT_URI is not set
+ */
+export function getRedirectUri(config: OidcConfig, requestUrl: string | URL): string {
+  return config.redirectUri ?? new URL(OIDC_CONFIG.CALLBACK_PATH, requestUrl).toString();
+}
+
+async function fetchJSON(url: string, init?: RequestInit): Promise<unknown> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { accept: 'application/json', ...init?.headers },
+    signal: AbortSignal.timeout(OIDC_CONFIG.REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} responded with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Load the provider's metadata from its discovery document, cached for PROVIDER_CACHE_TTL_MS
+ * @throws Error with SSO_ERROR_MESSAGES.PROVIDER_UNAVAILABLE if it cannot be loaded or is for another issuer
+ */
+export async function discoverProvider(issuer: string): Promise<OidcProviderMetadata> {
+  const cached = providerCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < OIDC_CONFIG.PROVIDER_CACHE_TTL_MS) {
+    return cached.metadata;
+  }
+
+  let metadata: OidcProviderMetadata;
+  try {
+    metadata = (await fetchJSON(`${issuer}/.well-known/openid-configuration`)) as OidcProviderMetadata;
+  } catch (error) {
+    console.error('OIDC discovery failed:', error);
+    throw new Error(SSO_ERROR_MESSAGES.PROVIDER_UNAVAILABLE);
+  }
+
+  // A document for another issuer would let that issuer's tokens through the iss check
+  if (
+    metadata?.issuer !== issuer ||
+    typeof metadata.authorization_endpoint !== 'string' ||
+    typeof metadata.token_endpoint !== 'string' ||
+    typeof metadata.jwks_uri !== 'string'
+  ) {
+    console.error('OIDC discovery document is invalid for issuer', issuer);
+    throw new Error(SSO_ERROR_MESSAGES.PROVIDER_UNAVAILABLE);
+  }
+
+  providerCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+/**
+ * Generate a random state or nonce value
+ */
+export function generateOidcNonce(): string {
+  return generateSecureToken(OIDC_CONFIG.STATE_BYTES);
+}
+
+/**
+ * Generate a PKCE code verifier
+ */
+export function generateCodeVerifier(): string {
+  return generateSecureToken(OIDC_CONFIG.CODE_VERIFIER_BYTES);
+}
+
+/**
+ * Derive the S256 code challenge sent with the authorization request
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Build the URL that sends the browser to the provider's sign-in page
+ */
+export function buildAuthorizationUrl(
+  metadata: OidcProviderMetadata,
+  config: OidcConfig,
+  params: { redirectUri: string; state: string; nonce: string; codeVerifier: string }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', createCodeChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+/**
+ * Redeem an authorization code at the token endpoint
+ * Confidential clients authenticate with client_secret_basic
+ * @returns Promise<string> - The ID token
+ * @throws Error with SSO_ERROR_MESSAGES.CODE_EXCHANGE_FAILED if the provider refuses the code
+ */
+export async function exchangeAuthorizationCode(
+  metadata: OidcProviderMetadata,
+  config: OidcConfig,
+  params: { code: string; redirectUri: string; codeVerifier: string }
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+  });
+  const headers: Record<string, string> = { 'content-type': 'application/x-www-form-urlencoded' };
+
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', config.clientId);
+  }
+
+  let tokens: { id_token?: unknown };
+  try {
+    tokens = (await fetchJSON(metadata.token_endpoint, { method: 'POST', headers, body })) as { id_token?: unknown };
+  } catch (error) {
+    console.error('OIDC code exchange failed:', error);
+    throw new Error(SSO_ERROR_MESSAGES.CODE_EXCHANGE_FAILED);
+  }
+
+  if (typeof tokens?.id_token !== 'string') {
+    throw new Error(SSO_ERROR_MESSAGES.CODE_EXCHANGE_FAILED);
+  }
+  return tokens.id_token;
+}
+
+/**
+ * Normalize a provider JWK to the shape the shared verifier expects
+ * Some providers leave out alg, in which case it follows from the key type
+ */
+function toPublicSigningKey(jwk: JsonWebKey & { kid?: unknown; use?: unknown }): PublicSigningKey | null {
+  if (typeof jwk.kid !== 'string' || (jwk.use !== undefined && jwk.use !== 'sig')) {
+    return null;
+  }
+
+  const alg = jwk.alg ?? (jwk.kty === 'RSA' ? 'RS256' : jwk.crv === 'Ed25519' ? 'EdDSA' : undefined);
+  if (!isSigningAlgorithm(alg)) {
+    return null;
+  }
+
+  return { ...jwk, kid: jwk.kid, alg, use: 'sig' };
+}
+
+async function fetchProviderKeys(jwksUri: string): Promise<Map<string, PublicSigningKey>> {
+  try {
+    const jwks = (await fetchJSON(jwksUri)) as { keys?: JsonWebKey[] };
+    const keys = new Map<string, PublicSigningKey>();
+    for (const jwk of jwks.keys ?? []) {
+      const key = toPublicSigningKey(jwk);
+      if (key) {
+        keys.set(key.kid, key);
+      }
+    }
+
+    jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+    return keys;
+  } catch (error) {
+    console.error('Failed to fetch the identity provider keys:', error);
+    throw new Error(SSO_ERROR_MESSAGES.PROVIDER_UNAVAILABLE);
+  }
+}
+
+async function resolveProviderKey(jwksUri: string, kid: string): Promise<PublicSigningKey | null> {
+  const cached = jwksCache.get(jwksUri);
+  const key = cached?.keys.get(kid);
+  if (key) {
+    return key;
+  }
+
+  // The provider may have rotated its keys; forged kids only refetch occasionally
+  if (cached && Date.now() - cached.fetchedAt < OIDC_CONFIG.JWKS_MIN_RELOAD_INTERVAL_MS) {
+    return null;
+  }
+  return (await fetchProviderKeys(jwksUri)).get(kid) ?? null;
+}
+
+/**
+ * Validate an ID token as OpenID Connect Core 1.0 section 3.1.3.7 requires
+ * @param expectedNonce - The nonce sent with the authorization request
+ * @throws Error with SSO_ERROR_MESSAGES.ID_TOKEN_INVALID if any check fails
+ */
+export async function verifyIdToken(
+  idToken: string,
+  metadata: OidcProviderMetadata,
+  config: OidcConfig,
+  expectedNonce: string
+): Promise<IdTokenClaims> {
+  let claims: Record<string, unknown>;
+  try {
+    claims = await verifyJWSWithKeys(idToken, (kid) => resolveProviderKey(metadata.jwks_uri, kid));
+  } catch (error) {
+    if (error instanceof Error && error.message === SSO_ERROR_MESSAGES.PROVIDER_UNAVAILABLE) {
+      throw error;
+    }
+    console.warn('ID token rejected:', error instanceof Error ? error.message : error);
+    throw new Error(SSO_ERROR_MESSAGES.ID_TOKEN_INVALID);
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+
+  const failure =
+    claims.iss !== config.issuer ? 'issuer mismatch' :
+    !audiences.includes(config.clientId) ? 'audience mismatch' :
+    // With several audiences the token must have been issued to us
+    audiences.length > 1 && claims.azp !== config.clientId ? 'authorized party mismatch' :
+    typeof claims.sub !== 'string' || claims.sub.length === 0 ? 'subject missing' :
+    typeof claims.exp !== 'number' ? 'expiry missing' :
+    typeof claims.iat !== 'number' || claims.iat > now + OIDC_CONFIG.CLOCK_SKEW_SECONDS ? 'issued in the future' :
+    claims.nonce !== expectedNonce ? 'nonce mismatch' :
+    null;
+
+  if (failure) {
+    console.warn(`ID token rejected: ${failure}`);
+    throw new Error(SSO_ERROR_MESSAGES.ID_TOKEN_INVALID);
+  }
+
+  return claims as unknown as IdTokenClaims;
+}
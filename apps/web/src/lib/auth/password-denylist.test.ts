@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import {
+  BreachedPasswordPrefixDenyList,
+  CommonPasswordDenyList,
+  createPasswordDenyLists,
+  normalizePasswordForLookup,
+} from './password-denylist';
+
+const sha1 = (password: string) => createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+
+describe('Password deny lists', () => {
+  describe('normalizePasswordForLookup', () => {
+    it('should strip the digits and symbols added around a word and undo substitutions', () => {
+      expect(normalizePasswordForLookup('Password1!')).toEqual(['password1!', 'password1', 'password']);
+      expect(normalizePasswordForLookup('P@ssw0rd')).toContain('password');
+      expect(normalizePasswordForLookup('2024Summer!')).toContain('summer');
+    });
+  });
+
+  describe('CommonPasswordDenyList', () => {
+    const list = new CommonPasswordDenyList();
+
+    it.each([
+      'Password1!',
+      'P@ssw0rd123',
+      'Qwerty123!',
+      '1qaz2wsx!',
+      'Woaini1314!',
+      'Zhangwei88@',
+      'Taipei101!',
+      'Ji3g4su3!',
+    ])('should contain %s', (password) => {
+      expect(list.contains(password)).toBe(true);
+    });
+
+    it.each(['StrongPass123!', 'Str0ng!Password', 'correct-horse-battery'])('should not contain %s', (password) => {
+      expect(list.contains(password)).toBe(false);
+    });
+
+    it('should accept another list of passwords', () => {
+      const companyList = new CommonPasswordDenyList(['acmecorp']);
+
+      expect(companyList.contains('AcmeCorp2025!')).toBe(true);
+      expect(companyList.contains('Password1!')).toBe(false);
+    });
+  });
+
+  describe('BreachedPasswordPrefixDenyList', () => {
+    let directory: string;
+
+    beforeAll(() => {
+      directory = mkdtempSync(path.join(tmpdir(), 'breach-list-'));
+    });
+
+    afterAll(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should match full hashes in the Pwned Passwords format', () => {
+      const list = new BreachedPasswordPrefixDenyList([`${sha1('Tr0ub4dor&3')}:2042`, '']);
+
+      expect(list.contains('Tr0ub4dor&3')).toBe(true);
+      expect(list.contains('Tr0ub4dor&4')).toBe(false);
+    });
+
+    it('should match by hash prefix when the list only holds prefixes', () => {
+      const list = new BreachedPasswordPrefixDenyList([sha1('Tr0ub4dor&3').slice(0, 10).toLowerCase()]);
+
+      expect(list.contains('Tr0ub4dor&3')).toBe(true);
+      expect(list.contains('correct-horse-battery')).toBe(false);
+    });
+
+    it('should reject lines that are not hex prefixes of one length', () => {
+      expect(() => new BreachedPasswordPrefixDenyList(['not-a-hash'])).toThrow('Invalid SHA-1 prefix');
+      expect(() => new BreachedPasswordPrefixDenyList(['ABCDEF', 'ABCDEF01'])).toThrow('Invalid SHA-1 prefix');
+    });
+
+    it('should load the file named by PASSWORD_BREACH_PREFIX_FILE', () => {
+      const filePath = path.join(directory, 'prefixes.txt');
+      writeFileSync(filePath, `${sha1('Tr0ub4dor&3').slice(0, 8)}\n`);
+
+      const lists = createPasswordDenyLists({ PASSWORD_BREACH_PREFIX_FILE: filePath });
+
+      expect(lists).toHaveLength(2);
+      expect(lists.some((list) => list.contains('Tr0ub4dor&3'))).toBe(true);
+      expect(() => createPasswordDenyLists({ PASSWORD_BREACH_PREFIX_FILE: path.join(directory, 'missing.txt') }))
+        .toThrow('Failed to load breached password list');
+    });
+
+    it('should only use the bundled list when no file is configured', () => {
+      const lists = createPasswordDenyLists({});
+
+      expect(lists).toHaveLength(1);
+      expect(lists[0]).toBeInstanceOf(CommonPasswordDenyList);
+    });
+  });
+});
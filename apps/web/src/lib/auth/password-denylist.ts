@@ -0,0 +1,145 @@
+import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { COMMON_PASSWORDS } from './common-passwords';
+
+/**
+ * A source of passwords that may not be used
+ * validatePasswordStrength refuses a password any configured list contains
+ */
+export interface PasswordDenyList {
+  contains(password: string): boolean;
+}
+
+// Look-alike characters people swap in for letters, undone before the lookup
+const SUBSTITUTIONS: Record<string, string> = {
+  '@': 'a',
+  '4': 'a',
+  '8': 'b',
+  '(': 'c',
+  '3': 'e',
+  '6': 'g',
+  '1': 'i',
+  '!': 'i',
+  '|': 'l',
+  '0': 'o',
+  '$': 's',
+  '5': 's',
+  '7': 't',
+  '+': 't',
+  '2': 'z',
+};
+
+/**
+ * The forms of a password worth looking up: as typed, then without the digits and symbols
+ * people add around a word to satisfy the character rules, then with substitutions undone
+ */
+export function normalizePasswordForLookup(password: string): string[] {
+  const typed = password.toLowerCase();
+  const withoutTrailingSymbols = typed.replace(/[^a-z0-9]+$/, '');
+  const base = typed.replace(/^[^a-z]+|[^a-z]+$/g, '');
+  const unsubstituted = typed
+    .replace(/[^a-z]+$/, '')
+    .replace(/./g, (character) => SUBSTITUTIONS[character] ?? character);
+
+  return [...new Set([typed, withoutTrailingSymbols, base, unsubstituted])].filter(Boolean);
+}
+
+/**
+ * The common passwords bundled with the app, see common-passwords.ts
+ * Works offline, so it also covers deployments without a breach list
+ */
+export class CommonPasswordDenyList implements PasswordDenyList {
+  private readonly passwords: ReadonlySet<string>;
+
+  constructor(passwords: readonly string[] = COMMON_PASSWORDS) {
+    this.passwords = new Set(passwords);
+  }
+
+  contains(password: string): boolean {
+    return normalizePasswordForLookup(password).some((form) => this.passwords.has(form));
+  }
+}
+
+/**
+ * Breached passwords known only by a prefix of their SHA-1 hash, one per line in hex
+ * Accepts the `HASH:COUNT` lines of the Pwned Passwords downloads as is, or the same hashes cut
+ * to a shorter prefix so the file is smaller and does not hold whole hashes. Shorter prefixes
+ * also refuse some passwords that were never breached, which is the trade-off the deployment picks
+ */
+export class BreachedPasswordPrefixDenyList implements PasswordDenyList {
+  private readonly prefixes: ReadonlySet<string>;
+  private readonly prefixLength: number;
+
+  /**
+   * @throws Error if a line is not a hex prefix or the lines differ in length
+   */
+  constructor(lines: readonly string[]) {
+    const prefixes = new Set<string>();
+    let prefixLength = 0;
+
+    for (const line of lines) {
+      const prefix = line.split(':')[0].trim().toUpperCase();
+      if (!prefix) {
+        continue;
+      }
+      if (!/^[0-9A-F]{5,40}$/.test(prefix) || (prefixLength && prefix.length !== prefixLength)) {
+        throw new Error(`Invalid SHA-1 prefix: ${prefix}`);
+      }
+      prefixLength = prefix.length;
+      prefixes.add(prefix);
+    }
+
+    this.prefixes = prefixes;
+    this.prefixLength = prefixLength;
+  }
+
+  /**
+   * Load the list from a file, e.g. PASSWORD_BREACH_PREFIX_FILE=/data/pwned-prefixes.txt
+   * @throws Error naming the file if it cannot be read or parsed
+   */
+  static fromFile(filePath: string): BreachedPasswordPrefixDenyList {
+    try {
+      return new BreachedPasswordPrefixDenyList(readFileSync(filePath, 'utf8').split('\n'));
+    } catch (error) {
+      throw new Error(
+        `Failed to load breached password list ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  contains(password: string): boolean {
+    if (this.prefixes.size === 0) {
+      return false;
+    }
+
+    const hash = createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+    return this.prefixes.has(hash.slice(0, this.prefixLength));
+  }
+}
+
+let passwordDenyLists: PasswordDenyList[] | null = null;
+
+/**
+ * Build the deny lists for the environment: the bundled common passwords, plus the breached
+ * password prefixes in PASSWORD_BREACH_PREFIX_FILE when it is set
+ */
+export function createPasswordDenyLists(env: Partial<NodeJS.ProcessEnv> = process.env): PasswordDenyList[] {
+  const lists: PasswordDenyList[] = [new CommonPasswordDenyList()];
+
+  if (env.PASSWORD_BREACH_PREFIX_FILE) {
+    lists.push(BreachedPasswordPrefixDenyList.fromFile(env.PASSWORD_BREACH_PREFIX_FILE));
+  }
+
+  return lists;
+}
+
+/**
+ * Get the shared deny lists, creating them from the environment on first use
+ * The breach file is read once, so changes to it need a restart
+ */
+export function getPasswordDenyLists(): PasswordDenyList[] {
+  if (!passwordDenyLists) {
+    passwordDenyLists = createPasswordDenyLists();
+  }
+  return passwordDenyLists;
+}
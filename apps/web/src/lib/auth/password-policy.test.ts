@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PASSWORD_POLICY, getPasswordPolicy } from './password-policy';
+
+describe('getPasswordPolicy', () => {
+  it('should use the default rules when nothing is configured', () => {
+    expect(getPasswordPolicy({})).toEqual(DEFAULT_PASSWORD_POLICY);
+  });
+
+  it('should read the configured rules', () => {
+    expect(getPasswordPolicy({
+      PASSWORD_MIN_LENGTH: '12',
+      PASSWORD_REQUIRE_SPECIAL: 'false',
+      PASSWORD_MAX_AGE_DAYS: '180',
+      PASSWORD_HISTORY_DEPTH: '5',
+    })).toEqual({
+      ...DEFAULT_PASSWORD_POLICY,
+      minLength: 12,
+      requireSpecial: false,
+      maxAgeDays: 180,
+      historyDepth: 5,
+    });
+  });
+
+  it.each([
+    ['PASSWORD_MIN_LENGTH', '6'],
+    ['PASSWORD_MIN_LENGTH', 'twelve'],
+    ['PASSWORD_REQUIRE_NUMBER', 'yes'],
+    ['PASSWORD_MAX_AGE_DAYS', '-1'],
+    ['PASSWORD_HISTORY_DEPTH', '100'],
+  ])('should reject %s=%s', (name, value) => {
+    expect(() => getPasswordPolicy({ [name]: value })).toThrow(`Invalid ${name}: ${value}`);
+  });
+});
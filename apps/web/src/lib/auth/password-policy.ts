@@ -0,0 +1,80 @@
+import { PASSWORD_CONFIG } from './constants';
+
+/**
+ * Password rules set by the deployment, read from PASSWORD_* environment variables
+ * The defaults are the rules that applied before the policy became configurable
+ */
+export interface PasswordPolicy {
+  // Never below PASSWORD_CONFIG.MIN_LENGTH, which the API schemas enforce on their own
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSpecial: boolean;
+  // Days before a password must be changed; 0 means passwords never expire
+  maxAgeDays: number;
+  // How many of the user's most recent passwords may not be reused; 0 allows reuse
+  historyDepth: number;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: PASSWORD_CONFIG.MIN_LENGTH,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSpecial: true,
+  maxAgeDays: 0,
+  historyDepth: 0,
+};
+
+function readInteger(env: Partial<NodeJS.ProcessEnv>, name: string, fallback: number, min: number, max: number): number {
+  const value = env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+function readFlag(env: Partial<NodeJS.ProcessEnv>, name: string, fallback: boolean): boolean {
+  const value = env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  if (value !== 'true' && value !== 'false') {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return value === 'true';
+}
+
+/**
+ * Read the password policy, e.g. PASSWORD_MAX_AGE_DAYS=180 and PASSWORD_HISTORY_DEPTH=5
+ * @throws Error naming the variable if a value is not valid, so a typo cannot weaken the policy
+ */
+export function getPasswordPolicy(env: Partial<NodeJS.ProcessEnv> = process.env): PasswordPolicy {
+  return {
+    minLength: readInteger(
+      env,
+      'PASSWORD_MIN_LENGTH',
+      DEFAULT_PASSWORD_POLICY.minLength,
+      PASSWORD_CONFIG.MIN_LENGTH,
+      PASSWORD_CONFIG.MAX_LENGTH
+    ),
+    requireLowercase: readFlag(env, 'PASSWORD_REQUIRE_LOWERCASE', DEFAULT_PASSWORD_POLICY.requireLowercase),
+    requireUppercase: readFlag(env, 'PASSWORD_REQUIRE_UPPERCASE', DEFAULT_PASSWORD_POLICY.requireUppercase),
+    requireNumber: readFlag(env, 'PASSWORD_REQUIRE_NUMBER', DEFAULT_PASSWORD_POLICY.requireNumber),
+    requireSpecial: readFlag(env, 'PASSWORD_REQUIRE_SPECIAL', DEFAULT_PASSWORD_POLICY.requireSpecial),
+    maxAgeDays: readInteger(env, 'PASSWORD_MAX_AGE_DAYS', DEFAULT_PASSWORD_POLICY.maxAgeDays, 0, 3650),
+    historyDepth: readInteger(
+      env,
+      'PASSWORD_HISTORY_DEPTH',
+      DEFAULT_PASSWORD_POLICY.historyDepth,
+      0,
+      PASSWORD_CONFIG.MAX_HISTORY_DEPTH
+    ),
+  };
+}
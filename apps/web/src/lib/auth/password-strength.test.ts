@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { estimatePasswordStrength } from './password-strength';
+import { CommonPasswordDenyList } from './password-denylist';
+import { PASSWORD_STRENGTH_WARNINGS } from './constants';
+
+describe('estimatePasswordStrength', () => {
+  const denyLists = [new CommonPasswordDenyList()];
+
+  it('should score passwords on a deny list as 0', () => {
+    expect(estimatePasswordStrength('Password1!', denyLists)).toEqual({
+      score: 0,
+      guessesLog10: 0,
+      warning: PASSWORD_STRENGTH_WARNINGS.COMMON,
+    });
+  });
+
+  it('should see through a common password used as a word', () => {
+    const strength = estimatePasswordStrength('MyP@ssw0rd');
+
+    expect(strength.score).toBeLessThanOrEqual(2);
+    expect(strength.warning).toBe(PASSWORD_STRENGTH_WARNINGS.COMMON);
+  });
+
+  it.each([
+    ['keyboard walks', 'Qwertyuiop', PASSWORD_STRENGTH_WARNINGS.KEYBOARD_PATTERN],
+    ['sequences', 'Abcdefgh12', PASSWORD_STRENGTH_WARNINGS.SEQUENCE],
+    ['repeats', 'Xaaaaaaaaa', PASSWORD_STRENGTH_WARNINGS.REPEAT],
+  ])('should score %s low', (_, password, warning) => {
+    const strength = estimatePasswordStrength(password);
+
+    expect(strength.score).toBeLessThanOrEqual(2);
+    expect(strength.warning).toBe(warning);
+  });
+
+  it('should rate short random passwords as moderate and long ones as strong', () => {
+    expect(estimatePasswordStrength('k9#Tq').score).toBe(2);
+    expect(estimatePasswordStrength('k9#Tq').warning).toBe(PASSWORD_STRENGTH_WARNINGS.SHORT);
+    expect(estimatePasswordStrength('k9#Tq2vL!xR7mW').score).toBe(4);
+    expect(estimatePasswordStrength('k9#Tq2vL!xR7mW').warning).toBeNull();
+  });
+
+  it('should increase with length', () => {
+    const scores = ['tiger', 'tigerlamp', 'tigerlampvoyage', 'tigerlampvoyage-orbit'].map(
+      (password) => estimatePasswordStrength(password).guessesLog10
+    );
+
+    expect(scores).toEqual([...scores].sort((a, b) => a - b));
+  });
+
+  it('should score an empty password as 0 without a warning', () => {
+    expect(estimatePasswordStrength('')).toEqual({ score: 0, guessesLog10: 0, warning: null });
+  });
+});
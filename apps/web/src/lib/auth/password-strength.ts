@@ -0,0 +1,192 @@
+import { COMMON_PASSWORDS } from './common-passwords';
+import { normalizePasswordForLookup, type PasswordDenyList } from './password-denylist';
+import { PASSWORD_STRENGTH_WARNINGS, type PasswordStrengthWarning } from './constants';
+
+/**
+ * 0 (too guessable) to 4 (very unguessable), on the same scale as zxcvbn
+ */
+export type PasswordStrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordStrength {
+  score: PasswordStrengthScore;
+  // log10 of the estimated number of guesses an attacker needs
+  guessesLog10: number;
+  // The pattern that weakens the password most, when the score is below 3
+  warning: PasswordStrengthWarning | null;
+}
+
+interface PatternMatch {
+  end: number;
+  guessesLog10: number;
+  warning: PasswordStrengthWarning | null;
+}
+
+// zxcvbn's boundaries, in log10 guesses: 10^3, 10^6, 10^8 and 10^10
+const SCORE_THRESHOLDS = [3, 6, 8, 10];
+
+// Rows and columns of a US keyboard; walks along them in either direction are easy to guess
+const KEYBOARD_LINES = [
+  '`1234567890-=',
+  'qwertyuiop[]\\',
+  "asdfghjkl;'",
+  'zxcvbnm,./',
+  '1qaz', '2wsx', '3edc', '4rfv', '5tgb', '6yhn', '7ujm', '8ik,', '9ol.', '0p;/',
+];
+const SHIFTED_KEYS: Record<string, string> = {
+  '~': '`', '!': '1', '@': '2', '#': '3', '$': '4', '%': '5', '^': '6', '&': '7', '*': '8', '(': '9', ')': '0',
+  '_': '-', '+': '=', '{': '[', '}': ']', '|': '\\', ':': ';', '"': "'", '<': ',', '>': '.', '?': '/',
+};
+
+const MIN_PATTERN_LENGTH = 3;
+// Shorter dictionary entries would match inside almost any password
+const MIN_WORD_LENGTH = 4;
+
+const COMMON_PASSWORD_RANKS = new Map(
+  COMMON_PASSWORDS.map((password, index) => [password, index + 1] as const)
+);
+
+function unshift(character: string): string {
+  return SHIFTED_KEYS[character] ?? character.toLowerCase();
+}
+
+function isKeyboardStep(from: string, to: string): boolean {
+  const pair = unshift(from) + unshift(to);
+  return KEYBOARD_LINES.some((line) => line.includes(pair) || [...line].reverse().join('').includes(pair));
+}
+
+function characterPoolSize(character: string): number {
+  if (/[a-zA-Z]/.test(character)) {
+    return 26;
+  }
+  if (/\d/.test(character)) {
+    return 10;
+  }
+  return 33;
+}
+
+/**
+ * Patterns starting at `start`: keyboard walks, sequences such as `abc` or `987`, repeats and
+ * common passwords. Each one costs far fewer guesses than the same characters picked at random
+ */
+function findPatterns(password: string, start: number): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+
+  // Keyboard walk
+  let end = start + 1;
+  while (end < password.length && isKeyboardStep(password[end - 1], password[end])) {
+    end++;
+  }
+  if (end - start >= MIN_PATTERN_LENGTH) {
+    matches.push({
+      end,
+      guessesLog10: Math.log10(KEYBOARD_LINES.length * 2 * (end - start)),
+      warning: PASSWORD_STRENGTH_WARNINGS.KEYBOARD_PATTERN,
+    });
+  }
+
+  // Sequence with a constant step of one, up or down
+  const step = lower.charCodeAt(start + 1) - lower.charCodeAt(start);
+  if (Math.abs(step) === 1) {
+    end = start + 2;
+    while (end < lower.length && lower.charCodeAt(end) - lower.charCodeAt(end - 1) === step) {
+      end++;
+    }
+    if (end - start >= MIN_PATTERN_LENGTH) {
+      matches.push({
+        end,
+        guessesLog10: Math.log10(characterPoolSize(lower[start]) * 2 * (end - start)),
+        warning: PASSWORD_STRENGTH_WARNINGS.SEQUENCE,
+      });
+    }
+  }
+
+  // Repeated character
+  end = start + 1;
+  while (end < lower.length && lower[end] === lower[start]) {
+    end++;
+  }
+  if (end - start >= MIN_PATTERN_LENGTH) {
+    matches.push({
+      end,
+      guessesLog10: Math.log10(characterPoolSize(lower[start]) * (end - start)),
+      warning: PASSWORD_STRENGTH_WARNINGS.REPEAT,
+    });
+  }
+
+  // Common password used as a word
+  for (end = start + MIN_WORD_LENGTH; end <= password.length; end++) {
+    const word = password.slice(start, end);
+    const exactRank = COMMON_PASSWORD_RANKS.get(word);
+    const ranks = normalizePasswordForLookup(word)
+      .map((form) => COMMON_PASSWORD_RANKS.get(form))
+      .filter((rank): rank is number => rank !== undefined);
+
+    if (exactRank || ranks.length > 0) {
+      matches.push({
+        end,
+        // Capitals, substitutions and added digits multiply the guesses a few times over
+        guessesLog10: Math.log10(exactRank ?? Math.min(...ranks) * 4),
+        warning: PASSWORD_STRENGTH_WARNINGS.COMMON,
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Estimate how hard a password is to guess, in the manner of zxcvbn
+ * Splits the password into the cheapest run of patterns and random characters, sums their
+ * guesses and maps the total onto a 0-4 score. Meant for a strength meter, not as a policy
+ * @param denyLists - A password on any of these lists scores 0
+ */
+export function estimatePasswordStrength(
+  password: string,
+  denyLists: readonly PasswordDenyList[] = []
+): PasswordStrength {
+  if (!password) {
+    return { score: 0, guessesLog10: 0, warning: null };
+  }
+  if (denyLists.some((list) => list.contains(password))) {
+    return { score: 0, guessesLog10: 0, warning: PASSWORD_STRENGTH_WARNINGS.COMMON };
+  }
+
+  // cheapest[i] is the fewest guesses (log10) to cover the first i characters
+  const cheapest: { guessesLog10: number; warning: PasswordStrengthWarning | null; length: number }[] = [
+    { guessesLog10: 0, warning: null, length: 0 },
+  ];
+  for (let i = 1; i <= password.length; i++) {
+    cheapest[i] = { guessesLog10: Infinity, warning: null, length: 0 };
+  }
+
+  for (let start = 0; start < password.length; start++) {
+    const before = cheapest[start];
+    const candidates: PatternMatch[] = [
+      { end: start + 1, guessesLog10: Math.log10(characterPoolSize(password[start])), warning: null },
+      ...findPatterns(password, start),
+    ];
+
+    for (const match of candidates) {
+      const total = before.guessesLog10 + match.guessesLog10;
+      if (total < cheapest[match.end].guessesLog10) {
+        // Keep the warning of the longest pattern on the path
+        const length = match.end - start;
+        cheapest[match.end] = match.warning && length >= before.length
+          ? { guessesLog10: total, warning: match.warning, length }
+          : { guessesLog10: total, warning: before.warning, length: before.length };
+      }
+    }
+  }
+
+  const { guessesLog10, warning } = cheapest[password.length];
+  const score = SCORE_THRESHOLDS.filter((threshold) => guessesLog10 >= threshold).length as PasswordStrengthScore;
+
+  return {
+    score,
+    guessesLog10: Math.round(guessesLog10 * 100) / 100,
+    warning: score >= 3
+      ? null
+      : warning ?? (password.length < 12 ? PASSWORD_STRENGTH_WARNINGS.SHORT : null),
+  };
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { PasswordUtils } from './password';
+import { ERROR_MESSAGES } from './constants';
 
 describe('PasswordUtils', () => {
   describe('hash', () => {
@@ -58,6 +59,11 @@ describe('PasswordUtils', () => {
       expect(isValid).toBe(false);
     });
 
+    it('should return false for accounts without a password', async () => {
+      const isValid = await PasswordUtils.verify('TestPassword123!', null);
+      expect(isValid).toBe(false);
+    });
+
     it('should return false for invalid hash', async () => {
       const isValid = await PasswordUtils.verify('TestPassword123!', 'invalid-hash');
       expect(isValid).toBe(false);
@@ -114,6 +120,15 @@ describe('PasswordUtils', () => {
       expect(result.errors).toContain('Password is required');
     });
 
+    it('should reject common passwords that meet the character rules', () => {
+      const result = PasswordUtils.validatePasswordStrength('Password1!');
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([ERROR_MESSAGES.PASSWORD_TOO_COMMON]);
+
+      // The deny lists can be swapped out
+      expect(PasswordUtils.validatePasswordStrength('Password1!', undefined, []).isValid).toBe(true);
+    });
+
     it('should return multiple errors for weak password', () => {
       const result = PasswordUtils.validatePasswordStrength('weak');
       expect(result.isValid).toBe(false);
@@ -124,4 +139,17 @@ describe('PasswordUtils', () => {
       expect(result.errors).toContain('Password must contain at least one special character');
     });
   });
-});
\ No newline at end of file
+
+  describe('generateTemporaryPassword', () => {
+    it('should generate passwords that satisfy the strength rules', () => {
+      for (let i = 0; i < 20; i++) {
+        const password = PasswordUtils.generateTemporaryPassword();
+        expect(PasswordUtils.validatePasswordStrength(password).isValid).toBe(true);
+      }
+    });
+
+    it('should generate a different password each time', () => {
+      expect(PasswordUtils.generateTemporaryPassword()).not.toBe(PasswordUtils.generateTemporaryPassword());
+    });
+  });
+});
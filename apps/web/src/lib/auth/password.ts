@@ -1,5 +1,18 @@
 import bcrypt from 'bcrypt';
+import { randomInt } from 'crypto';
 import { PASSWORD_CONFIG, ERROR_MESSAGES } from './constants';
+import { getPasswordPolicy, type PasswordPolicy } from './password-policy';
+import { getPasswordDenyLists, type PasswordDenyList } from './password-denylist';
+
+const TEMPORARY_PASSWORD_LENGTH = 16;
+
+// Ambiguous characters (0/O, 1/l/I) are left out since temporary passwords are read aloud or retyped
+const TEMPORARY_PASSWORD_CHARSETS = {
+  lowercase: 'abcdefghijkmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHJKLMNPQRSTUVWXYZ',
+  numbers: '23456789',
+  special: '!@#$%^&*-_=+?',
+} as const;
 
 export interface PasswordValidationResult {
   isValid: boolean;
@@ -15,7 +28,11 @@ export class PasswordUtils {
     return bcrypt.hash(password, PASSWORD_CONFIG.SALT_ROUNDS);
   }
 
-  static async verify(password: string, hash: string): Promise<boolean> {
+  /**
+   * Check a password against a stored hash
+   * Accounts provisioned through SSO have no hash and never match
+   */
+  static async verify(password: string, hash: string | null): Promise<boolean> {
     if (!password || !hash) {
       return false;
     }
@@ -23,7 +40,16 @@ export class PasswordUtils {
     return bcrypt.compare(password, hash);
   }
 
-  static validatePasswordStrength(password: string): PasswordValidationResult {
+  /**
+   * Check a new password against the configured policy and the deny lists
+   * @param policy - Defaults to the policy from the environment, see getPasswordPolicy
+   * @param denyLists - Defaults to the bundled common passwords and the configured breach list
+   */
+  static validatePasswordStrength(
+    password: string,
+    policy: PasswordPolicy = getPasswordPolicy(),
+    denyLists: readonly PasswordDenyList[] = getPasswordDenyLists()
+  ): PasswordValidationResult {
     const errors: string[] = [];
     
     if (!password?.trim()) {
@@ -31,33 +57,65 @@ export class PasswordUtils {
       return { isValid: false, errors };
     }
     
-    if (password.length < PASSWORD_CONFIG.MIN_LENGTH) {
-      errors.push(ERROR_MESSAGES.PASSWORD_TOO_SHORT);
+    if (password.length < policy.minLength) {
+      errors.push(
+        policy.minLength === PASSWORD_CONFIG.MIN_LENGTH
+          ? ERROR_MESSAGES.PASSWORD_TOO_SHORT
+          : `Password must be at least ${policy.minLength} characters long`
+      );
     }
     
     if (password.length > PASSWORD_CONFIG.MAX_LENGTH) {
       errors.push(ERROR_MESSAGES.PASSWORD_TOO_LONG);
     }
     
-    if (!/[a-z]/.test(password)) {
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
       errors.push(ERROR_MESSAGES.PASSWORD_MISSING_LOWERCASE);
     }
     
-    if (!/[A-Z]/.test(password)) {
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
       errors.push(ERROR_MESSAGES.PASSWORD_MISSING_UPPERCASE);
     }
     
-    if (!/\d/.test(password)) {
+    if (policy.requireNumber && !/\d/.test(password)) {
       errors.push(ERROR_MESSAGES.PASSWORD_MISSING_NUMBER);
     }
     
-    if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
+    if (policy.requireSpecial && !/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
       errors.push(ERROR_MESSAGES.PASSWORD_MISSING_SPECIAL);
     }
+
+    if (denyLists.some((list) => list.contains(password))) {
+      errors.push(ERROR_MESSAGES.PASSWORD_TOO_COMMON);
+    }
     
     return {
       isValid: errors.length === 0,
       errors
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Generate a random temporary password that satisfies validatePasswordStrength under any policy
+   */
+  static generateTemporaryPassword(): string {
+    const length = Math.max(TEMPORARY_PASSWORD_LENGTH, getPasswordPolicy().minLength);
+    const charsets = Object.values(TEMPORARY_PASSWORD_CHARSETS);
+    const allCharacters = charsets.join('');
+    const pick = (characters: string) => characters[randomInt(characters.length)];
+
+    // One character from every class, the rest from the combined set
+    const characters = charsets.map(pick);
+    while (characters.length < length) {
+      characters.push(pick(allCharacters));
+    }
+
+    // Fisher-Yates shuffle so the required classes are not always at the start
+    for (let i = characters.length - 1; i > 0; i--) {
+      const j = randomInt(i + 1);
+      [characters[i], characters[j]] = [characters[j], characters[i]];
+    }
+
+    return characters.join('');
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ROLES,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  isRole,
+  getRolePermissions,
+  hasPermission,
+} from './permissions';
+
+describe('Role Permissions', () => {
+  describe('hasPermission', () => {
+    it('should grant every permission to administrators', () => {
+      Object.values(PERMISSIONS).forEach((permission) => {
+        expect(hasPermission(ROLES.ADMIN, permission)).toBe(true);
+      });
+    });
+
+    it('should restrict user management to administrators', () => {
+      expect(hasPermission(ROLES.ESTIMATOR, PERMISSIONS.USERS_MANAGE)).toBe(false);
+      expect(hasPermission(ROLES.PROCUREMENT, PERMISSIONS.USERS_MANAGE)).toBe(false);
+      expect(hasPermission(ROLES.VIEWER, PERMISSIONS.USERS_MANAGE)).toBe(false);
+    });
+
+    it('should grant price data to estimators and procurement but not viewers', () => {
+      expect(hasPermission(ROLES.ESTIMATOR, PERMISSIONS.PRICES_READ)).toBe(true);
+      expect(hasPermission(ROLES.PROCUREMENT, PERMISSIONS.PRICES_READ)).toBe(true);
+      expect(hasPermission(ROLES.VIEWER, PERMISSIONS.PRICES_READ)).toBe(false);
+    });
+
+    it('should only allow viewers to read and query', () => {
+      expect(getRolePermissions(ROLES.VIEWER)).toEqual([
+        PERMISSIONS.DATASETS_READ,
+        PERMISSIONS.CHAT_QUERY,
+      ]);
+    });
+  });
+
+  describe('getRolePermissions', () => {
+    it('should return a copy of the role permissions', () => {
+      const permissions = getRolePermissions(ROLES.ESTIMATOR);
+      permissions.push(PERMISSIONS.USERS_MANAGE);
+
+      expect(ROLE_PERMISSIONS[ROLES.ESTIMATOR]).not.toContain(PERMISSIONS.USERS_MANAGE);
+    });
+  });
+
+  describe('isRole', () => {
+    it('should recognize known roles only', () => {
+      expect(isRole('ADMIN')).toBe(true);
+      expect(isRole('VIEWER')).toBe(true);
+      expect(isRole('admin')).toBe(false);
+      expect(isRole('SUPERUSER')).toBe(false);
+      expect(isRole(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Role and permission definitions
+ * Kept free of server-only imports so the Edge middleware can use them
+ */
+
+// Mirrors the UserRole enum in prisma/schema.prisma
+export const ROLES = {
+  ADMIN: 'ADMIN',
+  ESTIMATOR: 'ESTIMATOR',
+  PROCUREMENT: 'PROCUREMENT',
+  VIEWER: 'VIEWER',
+} as const;
+
+export type Role = (typeof ROLES)[keyof typeof ROLES];
+
+export const PERMISSIONS = {
+  USERS_MANAGE: 'users:manage',
+  AUDIT_READ: 'audit:read',
+  DATASETS_READ: 'datasets:read',
+  DATASETS_WRITE: 'datasets:write',
+  CHAT_QUERY: 'chat:query',
+  PRICES_READ: 'prices:read',
+  ESTIMATES_WRITE: 'estimates:write',
+  PROCUREMENT_WRITE: 'procurement:write',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  [ROLES.ADMIN]: Object.values(PERMISSIONS),
+  [ROLES.ESTIMATOR]: [
+    PERMISSIONS.DATASETS_READ,
+    PERMISSIONS.DATASETS_WRITE,
+    PERMISSIONS.CHAT_QUERY,
+    PERMISSIONS.PRICES_READ,
+    PERMISSIONS.ESTIMATES_WRITE,
+  ],
+  [ROLES.PROCUREMENT]: [
+    PERMISSIONS.DATASETS_READ,
+    PERMISSIONS.DATASETS_WRITE,
+    PERMISSIONS.CHAT_QUERY,
+    PERMISSIONS.PRICES_READ,
+    PERMISSIONS.PROCUREMENT_WRITE,
+  ],
+  [ROLES.VIEWER]: [
+    PERMISSIONS.DATASETS_READ,
+    PERMISSIONS.CHAT_QUERY,
+  ],
+};
+
+/**
+ * Check if a value is a known role
+ */
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && Object.values(ROLES).includes(value as Role);
+}
+
+/**
+ * Get all permissions granted to a role
+ */
+export function getRolePermissions(role: Role): Permission[] {
+  return [...(ROLE_PERMISSIONS[role] ?? [])];
+}
+
+/**
+ * Check if a role grants a permission
+ */
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { toSafeRedirectPath } from './redirect';
+
+describe('toSafeRedirectPath', () => {
+  it('should keep paths within the app', () => {
+    expect(toSafeRedirectPath('/datasets/dataset-1?tab=files#upload')).toBe('/datasets/dataset-1?tab=files#upload');
+    expect(toSafeRedirectPath('/admin/../dashboard')).toBe('/dashboard');
+  });
+
+  it('should fall back for missing or absolute targets', () => {
+    expect(toSafeRedirectPath(null)).toBe('/dashboard');
+    expect(toSafeRedirectPath('')).toBe('/dashboard');
+    expect(toSafeRedirectPath('https://evil.example/')).toBe('/dashboard');
+    expect(toSafeRedirectPath('//evil.example/')).toBe('/dashboard');
+    expect(toSafeRedirectPath('datasets', '/profile')).toBe('/profile');
+  });
+
+  it('should reject targets browsers would read as another site', () => {
+    expect(toSafeRedirectPath('/\\evil.example')).toBe('/dashboard');
+    expect(toSafeRedirectPath('/\t/evil.example')).toBe('/dashboard');
+    expect(toSafeRedirectPath('/\n/evil.example')).toBe('/dashboard');
+  });
+
+  it('should leave encoded separators as part of the path', () => {
+    expect(toSafeRedirectPath('/%5Cevil.example')).toBe('/%5Cevil.example');
+    expect(toSafeRedirectPath('/%2F%2Fevil.example')).toBe('/%2F%2Fevil.example');
+  });
+});
@@ -0,0 +1,23 @@
+// Any fixed origin works; it only tells same-origin paths apart from absolute URLs
+const REDIRECT_BASE = 'http://app.invalid';
+
+/**
+ * Turn a `redirect` query parameter into a path on this app, or the fallback
+ * Browsers read `\` as `/` and drop tabs and newlines, so `/\evil.com` would leave the site;
+ * such values are rejected outright and the rest must resolve to the same origin
+ * @param value - Untrusted redirect target from the query string
+ * @param fallback - Where to go instead, defaults to the dashboard
+ * @returns string - Normalized path, query and hash on this app
+ */
+export function toSafeRedirectPath(value: string | null | undefined, fallback = '/dashboard'): string {
+  if (!value || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) {
+    return fallback;
+  }
+
+  try {
+    const url = new URL(value, REDIRECT_BASE);
+    return url.origin === REDIRECT_BASE ? `${url.pathname}${url.search}${url.hash}` : fallback;
+  } catch {
+    return fallback;
+  }
+}
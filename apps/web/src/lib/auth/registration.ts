@@ -0,0 +1,16 @@
+/**
+ * Whether anyone may create an account through auth.register
+ * Set PUBLIC_REGISTRATION_ENABLED=false in production so accounts are only created from
+ * administrator invitations; defaults to enabled for local development
+ * @throws Error naming the variable if the value is not 'true' or 'false'
+ */
+export function isPublicRegistrationEnabled(env: Partial<NodeJS.ProcessEnv> = process.env): boolean {
+  const value = env.PUBLIC_REGISTRATION_ENABLED;
+  if (value === undefined || value === '') {
+    return true;
+  }
+  if (value !== 'true' && value !== 'false') {
+    throw new Error(`Invalid PUBLIC_REGISTRATION_ENABLED: ${value}`);
+  }
+  return value === 'true';
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { encryptSecret, decryptSecret } from './secret-box';
+import { MFA_ERROR_MESSAGES } from './constants';
+
+describe('secret-box', () => {
+  const originalKey = process.env.MFA_ENCRYPTION_KEY;
+
+  beforeAll(() => {
+    process.env.MFA_ENCRYPTION_KEY = 'test-mfa-encryption-key';
+  });
+
+  afterAll(() => {
+    process.env.MFA_ENCRYPTION_KEY = originalKey;
+  });
+
+  it('should round-trip a secret', () => {
+    const encrypted = encryptSecret('JBSWY3DPEHPK3PXP');
+
+    expect(encrypted).toMatch(/^v1:/);
+    expect(encrypted).not.toContain('JBSWY3DPEHPK3PXP');
+    expect(decryptSecret(encrypted)).toBe('JBSWY3DPEHPK3PXP');
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    expect(encryptSecret('same')).not.toBe(encryptSecret('same'));
+  });
+
+  it('should reject tampered ciphertext', () => {
+    const [version, iv, tag, ciphertext] = encryptSecret('JBSWY3DPEHPK3PXP').split(':');
+    const tampered = Buffer.from(ciphertext, 'base64url');
+    tampered[0] ^= 1;
+
+    expect(() => decryptSecret([version, iv, tag, tampered.toString('base64url')].join(':'))).toThrow();
+  });
+
+  it('should reject values encrypted with another key', () => {
+    const encrypted = encryptSecret('JBSWY3DPEHPK3PXP');
+    process.env.MFA_ENCRYPTION_KEY = 'another-key';
+
+    expect(() => decryptSecret(encrypted)).toThrow();
+    process.env.MFA_ENCRYPTION_KEY = 'test-mfa-encryption-key';
+  });
+
+  it('should reject malformed values', () => {
+    expect(() => decryptSecret('not-encrypted')).toThrow('Encrypted secret is malformed');
+  });
+
+  it('should require the encryption key', () => {
+    process.env.MFA_ENCRYPTION_KEY = '';
+
+    expect(() => encryptSecret('JBSWY3DPEHPK3PXP')).toThrow(MFA_ERROR_MESSAGES.ENCRYPTION_KEY_MISSING);
+    process.env.MFA_ENCRYPTION_KEY = 'test-mfa-encryption-key';
+  });
+});
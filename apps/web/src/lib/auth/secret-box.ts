@@ -0,0 +1,54 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { MFA_ERROR_MESSAGES } from './constants';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const FORMAT_VERSION = 'v1';
+
+/**
+ * Derive the 256-bit key from MFA_ENCRYPTION_KEY
+ * @throws Error if MFA_ENCRYPTION_KEY is not configured
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.MFA_ENCRYPTION_KEY;
+  if (!secret || secret.trim().length === 0) {
+    throw new Error(MFA_ERROR_MESSAGES.ENCRYPTION_KEY_MISSING);
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a secret that must be readable again later (unlike tokens, which are only hashed)
+ * @returns string - `v1:<iv>:<auth tag>:<ciphertext>`, each part base64url encoded
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    FORMAT_VERSION,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ * @throws Error if the value is malformed, was tampered with, or the key has changed
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(':');
+  if (version !== FORMAT_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error('Encrypted secret is malformed');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -0,0 +1,35 @@
+import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Generate a cryptographically secure random token
+ * @param byteLength - Number of random bytes (defaults to 32)
+ * @returns string - URL-safe base64 encoded token
+ */
+export function generateSecureToken(byteLength = 32): string {
+  return randomBytes(byteLength).toString('base64url');
+}
+
+/**
+ * Hash a token for storage. Tokens are high-entropy random values,
+ * so a fast SHA-256 digest is sufficient (unlike passwords)
+ * @param token - Plain token value
+ * @returns string - Hex encoded SHA-256 digest
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Compare two token hashes in constant time
+ * @returns boolean - True if both hashes are equal
+ */
+export function compareTokenHashes(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  if (bufferA.length !== bufferB.length) {
+    return false;
+  }
+
+  return timingSafeEqual(bufferA, bufferB);
+}
@@ -1,30 +1,25 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import Cookies from 'js-cookie';
-import { 
-  storeToken, 
-  getStoredToken, 
-  isAuthenticated, 
-  getCurrentUser, 
-  clearToken, 
-  getAuthToken 
+import {
+  storeSession,
+  getStoredSession,
+  isAuthenticated,
+  getCurrentUser,
+  clearSession,
+  updateAccessTokenExpiry,
+  isAccessTokenNearExpiry,
+  getCsrfToken,
 } from './token-storage';
 
 // Mock js-cookie
 vi.mock('js-cookie');
 const mockCookies = vi.mocked(Cookies);
-
-// Mock JWT utilities
-vi.mock('./jwt', () => ({
-  verifyJWT: vi.fn(),
-}));
-
-import { verifyJWT } from './jwt';
-const mockVerifyJWT = vi.mocked(verifyJWT);
+const mockGetCookie = vi.mocked(Cookies.get as (name: string) => string | undefined);
 
 describe('Token Storage Utilities', () => {
   const testUser = { userId: 'user-123', email: 'test@example.com' };
-  const testToken = 'test-jwt-token';
-  const testTokenData = { token: testToken, user: testUser };
+  const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+  const testSessionData = { user: testUser, accessTokenExpiresAt: expiresAt.getTime() };
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -36,17 +31,17 @@ describe('Token Storage Utilities', () => {
     vi.clearAllMocks();
   });
 
-  describe('storeToken', () => {
-    it('should store token with correct options in development', () => {
+  describe('storeSession', () => {
+    it('should store user details with correct options in development', () => {
       process.env.NODE_ENV = 'development';
-      
-      storeToken(testToken, testUser);
+
+      storeSession(testUser, expiresAt);
 
       expect(mockCookies.set).toHaveBeenCalledWith(
-        'auth-token',
-        JSON.stringify(testTokenData),
+        'auth-user',
+        JSON.stringify(testSessionData),
         {
-          expires: 1,
+          expires: 30,
           secure: false, // Development mode
           sameSite: 'strict',
           path: '/',
@@ -54,180 +49,163 @@ describe('Token Storage Utilities', () => {
       );
     });
 
-    it('should store token with secure flag in production', () => {
+    it('should store user details with secure flag in production', () => {
       process.env.NODE_ENV = 'production';
-      
-      storeToken(testToken, testUser);
+
+      storeSession(testUser, expiresAt);
 
       expect(mockCookies.set).toHaveBeenCalledWith(
-        'auth-token',
-        JSON.stringify(testTokenData),
-        {
-          expires: 1,
-          secure: true, // Production mode
-          sameSite: 'strict',
-          path: '/',
-        }
+        'auth-user',
+        JSON.stringify(testSessionData),
+        expect.objectContaining({ secure: true })
       );
     });
 
+    it('should never store tokens', () => {
+      storeSession(testUser, expiresAt);
+
+      const storedValue = vi.mocked(mockCookies.set).mock.calls[0][1];
+      expect(Object.keys(JSON.parse(storedValue))).toEqual(['user', 'accessTokenExpiresAt']);
+    });
+
     it('should handle storage errors gracefully', () => {
       mockCookies.set.mockImplementation(() => {
         throw new Error('Storage failed');
       });
 
-      expect(() => storeToken(testToken, testUser)).toThrow('Failed to store authentication token');
+      expect(() => storeSession(testUser, expiresAt)).toThrow('Failed to store session');
     });
   });
 
-  describe('getStoredToken', () => {
-    it('should return null when no token is stored', () => {
-      mockCookies.get.mockReturnValue(undefined);
+  describe('getStoredSession', () => {
+    it('should return null when nothing is stored', () => {
+      mockGetCookie.mockReturnValue(undefined);
 
-      const result = getStoredToken();
+      const result = getStoredSession();
 
       expect(result).toBeNull();
-      expect(mockCookies.get).toHaveBeenCalledWith('auth-token');
+      expect(mockCookies.get).toHaveBeenCalledWith('auth-user');
     });
 
-    it('should return null and clear token when stored data is invalid JSON', () => {
-      mockCookies.get.mockReturnValue('invalid-json');
+    it('should return null and clear session when stored data is invalid JSON', () => {
+      mockGetCookie.mockReturnValue('invalid-json');
 
-      const result = getStoredToken();
+      const result = getStoredSession();
 
       expect(result).toBeNull();
-      expect(mockCookies.remove).toHaveBeenCalledWith('auth-token', { path: '/' });
+      expect(mockCookies.remove).toHaveBeenCalledWith('auth-user', { path: '/' });
     });
 
-    it('should return null and clear token when token structure is invalid', () => {
-      const invalidTokenData = { token: testToken }; // Missing user data
-      mockCookies.get.mockReturnValue(JSON.stringify(invalidTokenData));
+    it('should return null and clear session when structure is invalid', () => {
+      mockGetCookie.mockReturnValue(JSON.stringify({ user: testUser })); // Missing expiry
 
-      const result = getStoredToken();
+      const result = getStoredSession();
 
       expect(result).toBeNull();
-      expect(mockCookies.remove).toHaveBeenCalledWith('auth-token', { path: '/' });
+      expect(mockCookies.remove).toHaveBeenCalledWith('auth-user', { path: '/' });
     });
 
-    it('should return null and clear token when JWT verification fails', () => {
-      mockCookies.get.mockReturnValue(JSON.stringify(testTokenData));
-      mockVerifyJWT.mockImplementation(() => {
-        throw new Error('Invalid token');
-      });
-
-      const result = getStoredToken();
+    it('should return session data when everything is valid', () => {
+      mockGetCookie.mockReturnValue(JSON.stringify(testSessionData));
 
-      expect(result).toBeNull();
-      expect(mockCookies.remove).toHaveBeenCalledWith('auth-token', { path: '/' });
+      expect(getStoredSession()).toEqual(testSessionData);
     });
+  });
 
-    it('should return null and clear token when JWT payload doesn\'t match stored user', () => {
-      mockCookies.get.mockReturnValue(JSON.stringify(testTokenData));
-      mockVerifyJWT.mockReturnValue({
-        userId: 'different-user',
-        email: 'different@example.com',
-        iat: Date.now() / 1000,
-        exp: Date.now() / 1000 + 3600,
-      });
+  describe('isAuthenticated', () => {
+    it('should return false when no session is stored', () => {
+      mockGetCookie.mockReturnValue(undefined);
 
-      const result = getStoredToken();
+      expect(isAuthenticated()).toBe(false);
+    });
 
-      expect(result).toBeNull();
-      expect(mockCookies.remove).toHaveBeenCalledWith('auth-token', { path: '/' });
+    it('should return true when a session is stored', () => {
+      mockGetCookie.mockReturnValue(JSON.stringify(testSessionData));
+
+      expect(isAuthenticated()).toBe(true);
     });
+  });
 
-    it('should return token data when everything is valid', () => {
-      mockCookies.get.mockReturnValue(JSON.stringify(testTokenData));
-      mockVerifyJWT.mockReturnValue({
-        userId: testUser.userId,
-        email: testUser.email,
-        iat: Date.now() / 1000,
-        exp: Date.now() / 1000 + 3600,
-      });
+  describe('getCurrentUser', () => {
+    it('should return null when no session is stored', () => {
+      mockGetCookie.mockReturnValue(undefined);
+
+      expect(getCurrentUser()).toBeNull();
+    });
 
-      const result = getStoredToken();
+    it('should return user data when a session is stored', () => {
+      mockGetCookie.mockReturnValue(JSON.stringify(testSessionData));
 
-      expect(result).toEqual(testTokenData);
+      expect(getCurrentUser()).toEqual(testUser);
     });
   });
 
-  describe('isAuthenticated', () => {
-    it('should return false when no valid token exists', () => {
-      mockCookies.get.mockReturnValue(undefined);
-
-      const result = isAuthenticated();
+  describe('clearSession', () => {
+    it('should remove the user details cookie', () => {
+      clearSession();
 
-      expect(result).toBe(false);
+      expect(mockCookies.remove).toHaveBeenCalledWith('auth-user', { path: '/' });
     });
+  });
 
-    it('should return true when valid token exists', () => {
-      mockCookies.get.mockReturnValue(JSON.stringify(testTokenData));
-      mockVerifyJWT.mockReturnValue({
-        userId: testUser.userId,
-        email: testUser.email,
-        iat: Date.now() / 1000,
-        exp: Date.now() / 1000 + 3600,
-      });
+  describe('access token expiry', () => {
+    beforeEach(() => {
+      mockCookies.set.mockReset();
+    });
 
-      const result = isAuthenticated();
+    it('should report near expiry within the refresh threshold', () => {
+      mockGetCookie.mockReturnValue(JSON.stringify({
+        user: testUser,
+        accessTokenExpiresAt: Date.now() + 30 * 1000,
+      }));
 
-      expect(result).toBe(true);
+      expect(isAccessTokenNearExpiry()).toBe(true);
     });
-  });
 
-  describe('getCurrentUser', () => {
-    it('should return null when no valid token exists', () => {
-      mockCookies.get.mockReturnValue(undefined);
+    it('should not report near expiry for fresh tokens', () => {
+      mockGetCookie.mockReturnValue(JSON.stringify(testSessionData));
 
-      const result = getCurrentUser();
+      expect(isAccessTokenNearExpiry()).toBe(false);
+    });
 
-      expect(result).toBeNull();
+    it('should not report near expiry without a session', () => {
+      mockGetCookie.mockReturnValue(undefined);
+
+      expect(isAccessTokenNearExpiry()).toBe(false);
     });
 
-    it('should return user data when valid token exists', () => {
-      mockCookies.get.mockReturnValue(JSON.stringify(testTokenData));
-      mockVerifyJWT.mockReturnValue({
-        userId: testUser.userId,
-        email: testUser.email,
-        iat: Date.now() / 1000,
-        exp: Date.now() / 1000 + 3600,
-      });
+    it('should replace the expiry while keeping stored user', () => {
+      mockGetCookie.mockReturnValue(JSON.stringify(testSessionData));
+      const newExpiresAt = new Date(Date.now() + 30 * 60 * 1000);
 
-      const result = getCurrentUser();
+      updateAccessTokenExpiry(newExpiresAt);
 
-      expect(result).toEqual(testUser);
+      expect(mockCookies.set).toHaveBeenCalledWith(
+        'auth-user',
+        JSON.stringify({ user: testUser, accessTokenExpiresAt: newExpiresAt.getTime() }),
+        expect.any(Object)
+      );
     });
-  });
 
-  describe('clearToken', () => {
-    it('should remove the token cookie', () => {
-      clearToken();
+    it('should refuse to update a missing session', () => {
+      mockGetCookie.mockReturnValue(undefined);
 
-      expect(mockCookies.remove).toHaveBeenCalledWith('auth-token', { path: '/' });
+      expect(() => updateAccessTokenExpiry(expiresAt)).toThrow('No session to update');
     });
   });
 
-  describe('getAuthToken', () => {
-    it('should return null when no valid token exists', () => {
-      mockCookies.get.mockReturnValue(undefined);
-
-      const result = getAuthToken();
+  describe('getCsrfToken', () => {
+    it('should read the CSRF cookie set by the server', () => {
+      mockGetCookie.mockReturnValue('csrf-value');
 
-      expect(result).toBeNull();
+      expect(getCsrfToken()).toBe('csrf-value');
+      expect(mockCookies.get).toHaveBeenCalledWith('csrf-token');
     });
 
-    it('should return token string when valid token exists', () => {
-      mockCookies.get.mockReturnValue(JSON.stringify(testTokenData));
-      mockVerifyJWT.mockReturnValue({
-        userId: testUser.userId,
-        email: testUser.email,
-        iat: Date.now() / 1000,
-        exp: Date.now() / 1000 + 3600,
-      });
-
-      const result = getAuthToken();
+    it('should return null when there is no CSRF cookie', () => {
+      mockGetCookie.mockReturnValue(undefined);
 
-      expect(result).toBe(testToken);
+      expect(getCsrfToken()).toBeNull();
     });
   });
-});
\ No newline at end of file
+});
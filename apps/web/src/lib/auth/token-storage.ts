@@ -1,138 +1,155 @@
 import Cookies from 'js-cookie';
-import { verifyJWT } from './jwt';
+import { AUTH_COOKIE_CONFIG } from './constants';
+import type { Role } from './permissions';
 
-const TOKEN_KEY = 'auth-token';
-const TOKEN_EXPIRY_DAYS = 1; // Token expires in 1 day, matching JWT expiration
+// The access and refresh tokens live in httpOnly cookies set by the server.
+// This cookie only holds what the UI needs to know about the signed-in user
+const SESSION_KEY = AUTH_COOKIE_CONFIG.USER_INFO_NAME;
+const REFRESH_THRESHOLD_SECONDS = 60; // Refresh access tokens this close to expiration
 
-export interface StoredToken {
-  token: string;
+export interface StoredSession {
   user: {
     userId: string;
     email: string;
+    // Only used to adapt the UI; the server re-checks the role on every request
+    role?: Role;
+  };
+  // Lets the client refresh ahead of expiry without being able to read the token
+  accessTokenExpiresAt: number;
+  // Set while an administrator acts as the user; such tokens cannot be refreshed
+  impersonator?: {
+    userId: string;
+    email: string;
   };
 }
 
 /**
- * Store JWT token securely in cookies
- * Uses httpOnly-like security by storing in secure cookies when possible
+ * Store the signed-in user's non-sensitive details
+ * The cookie lives as long as the server's auth cookies
  */
-export function storeToken(token: string, user: { userId: string; email: string }): void {
+export function storeSession(
+  user: StoredSession['user'],
+  accessTokenExpiresAt: Date,
+  impersonator?: StoredSession['impersonator']
+): void {
   try {
-    const tokenData: StoredToken = { token, user };
-    
-    // Store in cookie with security options
-    Cookies.set(TOKEN_KEY, JSON.stringify(tokenData), {
-      expires: TOKEN_EXPIRY_DAYS,
+    const sessionData: StoredSession = { user, accessTokenExpiresAt: accessTokenExpiresAt.getTime() };
+    if (impersonator) {
+      sessionData.impersonator = impersonator;
+    }
+
+    Cookies.set(SESSION_KEY, JSON.stringify(sessionData), {
+      expires: AUTH_COOKIE_CONFIG.MAX_AGE_SECONDS / (24 * 60 * 60),
       secure: process.env.NODE_ENV === 'production', // HTTPS only in production
-      sameSite: 'strict', // CSRF protection
+      sameSite: 'strict',
       path: '/', // Available site-wide
     });
   } catch (error) {
-    console.error('Failed to store token:', error);
-    throw new Error('Failed to store authentication token');
+    console.error('Failed to store session:', error);
+    throw new Error('Failed to store session');
   }
 }
 
 /**
- * Retrieve and validate stored JWT token
- * Returns null if token is invalid, expired, or doesn't exist
+ * Retrieve and validate the stored session details
+ * Returns null if they are missing or malformed
  */
-export function getStoredToken(): StoredToken | null {
+export function getStoredSession(): StoredSession | null {
   try {
-    const storedData = Cookies.get(TOKEN_KEY);
-    
+    const storedData = Cookies.get(SESSION_KEY);
+
     if (!storedData) {
       return null;
     }
 
-    let tokenData: StoredToken;
+    let sessionData: StoredSession;
     try {
-      tokenData = JSON.parse(storedData);
+      sessionData = JSON.parse(storedData);
     } catch (parseError) {
-      console.warn('Invalid token data format, clearing token');
-      clearToken();
-      return null;
-    }
-    
-    // Validate token structure with more comprehensive checks
-    if (!tokenData || 
-        typeof tokenData !== 'object' ||
-        !tokenData.token || 
-        typeof tokenData.token !== 'string' ||
-        !tokenData.user?.userId || 
-        !tokenData.user?.email ||
-        typeof tokenData.user.userId !== 'string' ||
-        typeof tokenData.user.email !== 'string') {
-      console.warn('Invalid token structure, clearing token');
-      clearToken();
+      console.warn('Invalid session data format, clearing session');
+      clearSession();
       return null;
     }
 
-    // Verify JWT token is still valid
-    const payload = verifyJWT(tokenData.token);
-    
-    // Ensure payload matches stored user data
-    if (payload.userId !== tokenData.user.userId || payload.email !== tokenData.user.email) {
-      console.warn('Token payload mismatch, clearing token');
-      clearToken();
+    if (!sessionData ||
+        typeof sessionData !== 'object' ||
+        !sessionData.user?.userId ||
+        !sessionData.user?.email ||
+        typeof sessionData.user.userId !== 'string' ||
+        typeof sessionData.user.email !== 'string' ||
+        typeof sessionData.accessTokenExpiresAt !== 'number') {
+      console.warn('Invalid session structure, clearing session');
+      clearSession();
       return null;
     }
 
-    return tokenData;
+    return sessionData;
   } catch (error) {
-    // Token is invalid or expired, clear it
-    console.warn('Token validation failed:', error);
-    clearToken();
+    console.warn('Session validation failed:', error);
+    clearSession();
     return null;
   }
 }
 
 /**
  * Check if user is currently authenticated
+ * Only a hint for the UI; the server decides from the httpOnly cookies
  */
 export function isAuthenticated(): boolean {
-  return getStoredToken() !== null;
+  return getStoredSession() !== null;
 }
 
 /**
  * Get current user information if authenticated
  */
-export function getCurrentUser(): { userId: string; email: string } | null {
-  const tokenData = getStoredToken();
-  return tokenData?.user || null;
+export function getCurrentUser(): StoredSession['user'] | null {
+  const sessionData = getStoredSession();
+  return sessionData?.user || null;
 }
 
 /**
- * Clear stored authentication token
+ * Clear the stored session details
+ * The httpOnly auth cookies can only be cleared by the server, through auth.logout
  */
-export function clearToken(): void {
-  Cookies.remove(TOKEN_KEY, { path: '/' });
+export function clearSession(): void {
+  Cookies.remove(SESSION_KEY, { path: '/' });
 }
 
 /**
- * Get raw JWT token for API requests
+ * Record the expiry of the access token issued by a refresh, keeping the stored user
  */
-export function getAuthToken(): string | null {
-  const tokenData = getStoredToken();
-  return tokenData?.token || null;
+export function updateAccessTokenExpiry(accessTokenExpiresAt: Date): void {
+  const sessionData = getStoredSession();
+  if (!sessionData) {
+    throw new Error('No session to update');
+  }
+
+  storeSession(sessionData.user, accessTokenExpiresAt, sessionData.impersonator);
 }
 
 /**
- * Check if token is close to expiration (within 15 minutes)
- * Useful for implementing token refresh logic
+ * Get the administrator acting as the signed-in user, if any
  */
-export function isTokenNearExpiry(): boolean {
-  try {
-    const tokenData = getStoredToken();
-    if (!tokenData) return false;
-
-    const payload = verifyJWT(tokenData.token);
-    const now = Math.floor(Date.now() / 1000);
-    const timeToExpiry = payload.exp - now;
-    
-    // Return true if token expires within 15 minutes (900 seconds)
-    return timeToExpiry <= 900 && timeToExpiry > 0;
-  } catch (error) {
-    return false;
-  }
-}
\ No newline at end of file
+export function getImpersonator(): StoredSession['impersonator'] | null {
+  return getStoredSession()?.impersonator || null;
+}
+
+/**
+ * Check if the access token is expired or close to expiration (within one minute)
+ * Used by the tRPC client to refresh ahead of requests
+ */
+export function isAccessTokenNearExpiry(): boolean {
+  const sessionData = getStoredSession();
+  if (!sessionData) return false;
+
+  const timeToExpiry = sessionData.accessTokenExpiresAt - Date.now();
+  return timeToExpiry <= REFRESH_THRESHOLD_SECONDS * 1000;
+}
+
+/**
+ * Get the CSRF token the server set alongside the auth cookies
+ * Sent back in a header so the server can tell the request came from this site
+ */
+export function getCsrfToken(): string | null {
+  return Cookies.get(AUTH_COOKIE_CONFIG.CSRF_TOKEN_NAME) || null;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotpCode,
+  getTotpStep,
+  verifyTotpCode,
+  buildOtpauthUri,
+} from './totp';
+
+// RFC 6238 appendix B test secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  describe('base32', () => {
+    it('should encode the RFC 4648 test vectors', () => {
+      expect(base32Encode(Buffer.from('f'))).toBe('MY');
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    });
+
+    it('should decode regardless of case, spaces and padding', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    it('should generate distinct 160-bit base32 secrets', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(generateTotpSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('generateTotpCode', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(generateTotpCode(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082');
+      expect(generateTotpCode(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe('081804');
+      expect(generateTotpCode(RFC_SECRET, getTotpStep(2000000000 * 1000))).toBe('279037');
+    });
+  });
+
+  describe('verifyTotpCode', () => {
+    const now = 1111111109 * 1000;
+
+    it('should return the matching step for the current code', () => {
+      expect(verifyTotpCode(RFC_SECRET, '081804', now)).toBe(getTotpStep(now));
+    });
+
+    it('should accept codes from adjacent steps to tolerate clock drift', () => {
+      const previous = generateTotpCode(RFC_SECRET, getTotpStep(now) - 1);
+
+      expect(verifyTotpCode(RFC_SECRET, previous, now)).toBe(getTotpStep(now) - 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      const stale = generateTotpCode(RFC_SECRET, getTotpStep(now) - 2);
+
+      expect(verifyTotpCode(RFC_SECRET, stale, now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotpCode(RFC_SECRET, '', now)).toBeNull();
+      expect(verifyTotpCode(RFC_SECRET, '81804', now)).toBeNull();
+      expect(verifyTotpCode(RFC_SECRET, 'abcdef', now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build a key URI with issuer and account label', () => {
+      const uri = buildOtpauthUri(RFC_SECRET, 'user@example.com', 'Example');
+
+      expect(uri).toBe(
+        `otpauth://totp/Example:user%40example.com?secret=${RFC_SECRET}&issuer=Example&algorithm=SHA1&digits=6&period=30`
+      );
+    });
+  });
+});
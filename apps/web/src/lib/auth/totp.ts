@@ -0,0 +1,129 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { TOTP_CONFIG } from './constants';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32, the format authenticator apps expect
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ * @throws Error if the input contains characters outside the base32 alphabet
+ */
+export function base32Decode(input: string): Buffer {
+  const normalized = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new random TOTP secret
+ * @returns string - Base32 encoded secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(TOTP_CONFIG.SECRET_BYTES));
+}
+
+/**
+ * Time step number for a timestamp (RFC 6238)
+ */
+export function getTotpStep(timeMs: number = Date.now()): number {
+  return Math.floor(timeMs / 1000 / TOTP_CONFIG.PERIOD_SECONDS);
+}
+
+/**
+ * Compute the HOTP code for a time step (RFC 4226 with HMAC-SHA1)
+ * @param secret - Base32 encoded secret
+ * @returns string - Zero-padded numeric code
+ */
+export function generateTotpCode(secret: string, step: number = getTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_CONFIG.DIGITS).toString().padStart(TOTP_CONFIG.DIGITS, '0');
+}
+
+/**
+ * Check a code against the current time step and TOTP_CONFIG.WINDOW steps either side,
+ * tolerating clock drift between server and authenticator
+ * @returns number | null - The matching time step, or null if no step matches
+ */
+export function verifyTotpCode(secret: string, code: string, timeMs: number = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_CONFIG.DIGITS) {
+    return null;
+  }
+
+  const currentStep = getTotpStep(timeMs);
+  for (let offset = -TOTP_CONFIG.WINDOW; offset <= TOTP_CONFIG.WINDOW; offset++) {
+    const step = currentStep + offset;
+    const expected = generateTotpCode(secret, step);
+
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps import, usually rendered as a QR code
+ * @see https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string = TOTP_CONFIG.ISSUER): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_CONFIG.DIGITS),
+    period: String(TOTP_CONFIG.PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,45 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { MailMessage, MailTransport } from './types';
+
+/**
+ * Writes each message as a JSON file instead of sending it
+ * Useful for local development and end-to-end tests that need to read the mail back
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private readonly directory: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await mkdir(this.directory, { recursive: true });
+
+      const sentAt = new Date();
+      const fileName = `${sentAt.getTime()}-${randomUUID()}.json`;
+
+      await writeFile(
+        path.join(this.directory, fileName),
+        JSON.stringify({ from: this.from, ...message, sentAt: sentAt.toISOString() }, null, 2),
+        'utf8'
+      );
+    } catch (error) {
+      throw new Error(`Failed to write mail file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+/**
+ * Logs each message to the console instead of sending it
+ */
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.info(
+      `[mail] from: ${this.from}\n[mail] to: ${message.to}\n[mail] subject: ${message.subject}\n\n${message.text}`
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { MailMessage, MailTransport } from './types';
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Sends mail through an SMTP relay
+ */
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: this.options.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+    } catch (error) {
+      throw new Error(`Failed to send mail via SMTP: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
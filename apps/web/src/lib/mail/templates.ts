@@ -0,0 +1,108 @@
+import type { MailMessage } from './types';
+
+/**
+ * Build an absolute link to a page of the web app for use in emails
+ * APP_URL must be configured in production; the request Host header is never trusted for this
+ */
+export function buildAppUrl(pathname: string, params: Record<string, string> = {}): string {
+  const baseUrl = process.env.APP_URL || `http://localhost:${process.env.PORT ?? 3000}`;
+  const url = new URL(pathname, baseUrl);
+
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+
+  return url.toString();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function buildPasswordResetEmail(to: string, resetUrl: string, expiresInMinutes: number): MailMessage {
+  return {
+    to,
+    subject: '良聯智慧諮詢平台 - 重設密碼',
+    text: [
+      '我們收到了重設您帳號密碼的請求。',
+      '',
+      `請在 ${expiresInMinutes} 分鐘內開啟以下連結設定新密碼：`,
+      resetUrl,
+      '',
+      '如果您沒有提出此請求，請忽略這封郵件，您的密碼不會被變更。',
+    ].join('\n'),
+    html: [
+      '<p>我們收到了重設您帳號密碼的請求。</p>',
+      `<p>請在 ${expiresInMinutes} 分鐘內點擊以下連結設定新密碼：</p>`,
+      `<p><a href="${escapeHtml(resetUrl)}">重設密碼</a></p>`,
+      '<p>如果您沒有提出此請求，請忽略這封郵件，您的密碼不會被變更。</p>',
+    ].join('\n'),
+  };
+}
+
+export function buildEmailVerificationEmail(to: string, verifyUrl: string, expiresInHours: number): MailMessage {
+  return {
+    to,
+    subject: '良聯智慧諮詢平台 - 驗證您的電子郵件',
+    text: [
+      '感謝您註冊良聯智慧諮詢平台。',
+      '',
+      `請在 ${expiresInHours} 小時內開啟以下連結完成電子郵件驗證：`,
+      verifyUrl,
+      '',
+      '如果您沒有註冊帳號，請忽略這封郵件。',
+    ].join('\n'),
+    html: [
+      '<p>感謝您註冊良聯智慧諮詢平台。</p>',
+      `<p>請在 ${expiresInHours} 小時內點擊以下連結完成電子郵件驗證：</p>`,
+      `<p><a href="${escapeHtml(verifyUrl)}">驗證電子郵件</a></p>`,
+      '<p>如果您沒有註冊帳號，請忽略這封郵件。</p>',
+    ].join('\n'),
+  };
+}
+
+export function buildEmailChangeEmail(to: string, confirmUrl: string, expiresInHours: number): MailMessage {
+  return {
+    to,
+    subject: '良聯智慧諮詢平台 - 確認新的電子郵件',
+    text: [
+      '您的良聯智慧諮詢平台帳號要求將電子郵件變更為此地址。',
+      '',
+      `請在 ${expiresInHours} 小時內開啟以下連結確認變更：`,
+      confirmUrl,
+      '',
+      '確認前帳號仍使用原本的電子郵件。如果您沒有提出此請求，請忽略這封郵件。',
+    ].join('\n'),
+    html: [
+      '<p>您的良聯智慧諮詢平台帳號要求將電子郵件變更為此地址。</p>',
+      `<p>請在 ${expiresInHours} 小時內點擊以下連結確認變更：</p>`,
+      `<p><a href="${escapeHtml(confirmUrl)}">確認電子郵件</a></p>`,
+      '<p>確認前帳號仍使用原本的電子郵件。如果您沒有提出此請求，請忽略這封郵件。</p>',
+    ].join('\n'),
+  };
+}
+
+export function buildInvitationEmail(to: string, acceptUrl: string, expiresInDays: number): MailMessage {
+  return {
+    to,
+    subject: '良聯智慧諮詢平台 - 帳號邀請',
+    text: [
+      '管理員邀請您加入良聯智慧諮詢平台。',
+      '',
+      `請在 ${expiresInDays} 天內開啟以下連結設定密碼並啟用帳號：`,
+      acceptUrl,
+      '',
+      '如果您不認識此邀請，請忽略這封郵件。',
+    ].join('\n'),
+    html: [
+      '<p>管理員邀請您加入良聯智慧諮詢平台。</p>',
+      `<p>請在 ${expiresInDays} 天內點擊以下連結設定密碼並啟用帳號：</p>`,
+      `<p><a href="${escapeHtml(acceptUrl)}">接受邀請</a></p>`,
+      '<p>如果您不認識此邀請，請忽略這封郵件。</p>',
+    ].join('\n'),
+  };
+}
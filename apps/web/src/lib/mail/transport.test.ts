@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createMailTransport } from './transport';
+import { SmtpMailTransport } from './smtp-transport';
+import { FileMailTransport, ConsoleMailTransport } from './local-transports';
+
+describe('Mail transports', () => {
+  describe('createMailTransport', () => {
+    it('should default to the console transport', () => {
+      expect(createMailTransport({})).toBeInstanceOf(ConsoleMailTransport);
+    });
+
+    it('should create the configured transport', () => {
+      expect(createMailTransport({ MAIL_TRANSPORT: 'file' })).toBeInstanceOf(FileMailTransport);
+      expect(
+        createMailTransport({ MAIL_TRANSPORT: 'smtp', SMTP_HOST: 'smtp.example.com' })
+      ).toBeInstanceOf(SmtpMailTransport);
+    });
+
+    it('should reject incomplete or unknown configuration', () => {
+      expect(() => createMailTransport({ MAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_HOST');
+      expect(() => createMailTransport({ MAIL_TRANSPORT: 'pigeon' })).toThrow(
+        'Unknown MAIL_TRANSPORT: pigeon'
+      );
+    });
+  });
+
+  describe('FileMailTransport', () => {
+    let directory: string | null = null;
+
+    afterEach(async () => {
+      if (directory) {
+        await rm(directory, { recursive: true, force: true });
+        directory = null;
+      }
+    });
+
+    it('should write each message as a JSON file', async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'mail-test-'));
+      const transport = new FileMailTransport(path.join(directory, 'outbox'), 'no-reply@example.com');
+
+      await transport.send({ to: 'test@example.com', subject: 'Hello', text: 'Body' });
+
+      const files = await readdir(path.join(directory, 'outbox'));
+      expect(files).toHaveLength(1);
+
+      const written = JSON.parse(await readFile(path.join(directory, 'outbox', files[0]), 'utf8'));
+      expect(written).toMatchObject({
+        from: 'no-reply@example.com',
+        to: 'test@example.com',
+        subject: 'Hello',
+        text: 'Body',
+      });
+    });
+  });
+
+  describe('ConsoleMailTransport', () => {
+    it('should log the message', async () => {
+      const consoleSpy = vi.spyOn(console, 'info').mockImplementation(() => {});
+
+      await new ConsoleMailTransport('no-reply@example.com').send({
+        to: 'test@example.com',
+        subject: 'Hello',
+        text: 'Body',
+      });
+
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('to: test@example.com'));
+      consoleSpy.mockRestore();
+    });
+  });
+});
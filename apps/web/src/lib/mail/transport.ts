@@ -0,0 +1,50 @@
+import path from 'path';
+import type { MailTransport } from './types';
+import { SmtpMailTransport } from './smtp-transport';
+import { FileMailTransport, ConsoleMailTransport } from './local-transports';
+
+const DEFAULT_FROM = 'no-reply@localhost';
+const DEFAULT_SMTP_PORT = 587;
+
+let mailTransport: MailTransport | null = null;
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT (smtp | file | console)
+ * Defaults to console so development works without any mail configuration
+ */
+export function createMailTransport(env: Partial<NodeJS.ProcessEnv> = process.env): MailTransport {
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+
+  switch (env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST environment variable is required when MAIL_TRANSPORT is smtp');
+      }
+      return new SmtpMailTransport({
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT ? Number(env.SMTP_PORT) : DEFAULT_SMTP_PORT,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from,
+      });
+    case 'file':
+      return new FileMailTransport(env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'), from);
+    case 'console':
+    case undefined:
+    case '':
+      return new ConsoleMailTransport(from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${env.MAIL_TRANSPORT}`);
+  }
+}
+
+/**
+ * Get the shared mail transport, creating it from the environment on first use
+ */
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+  }
+  return mailTransport;
+}
@@ -0,0 +1,19 @@
+/**
+ * Mail transport abstraction
+ * Services depend on this interface so the delivery mechanism can be swapped per environment
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  /**
+   * Deliver a message
+   * @throws Error if the message could not be handed off for delivery
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MemoryRateLimitStore } from './memory-store';
+
+describe('MemoryRateLimitStore', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should count hits within a window', async () => {
+    await store.increment('key', 60_000);
+    const state = await store.increment('key', 60_000);
+
+    expect(state.count).toBe(2);
+    expect(state.resetAt).toEqual(new Date('2025-01-01T00:01:00Z'));
+  });
+
+  it('should start a new window once the previous one has ended', async () => {
+    await store.increment('key', 60_000);
+    await store.increment('key', 60_000);
+
+    vi.advanceTimersByTime(60_000);
+    const state = await store.increment('key', 60_000);
+
+    expect(state.count).toBe(1);
+    expect(state.resetAt).toEqual(new Date('2025-01-01T00:02:00Z'));
+  });
+
+  it('should read a key without counting a hit', async () => {
+    await store.increment('key', 60_000);
+
+    expect(await store.get('key')).toMatchObject({ count: 1 });
+    expect(await store.get('key')).toMatchObject({ count: 1 });
+    expect(await store.get('other')).toBeNull();
+  });
+
+  it('should report expired windows as empty', async () => {
+    await store.increment('key', 60_000);
+    vi.advanceTimersByTime(60_000);
+
+    expect(await store.get('key')).toBeNull();
+  });
+
+  it('should clear a key on reset', async () => {
+    await store.increment('key', 60_000);
+    await store.reset('key');
+
+    expect(await store.get('key')).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import type { RateLimitState, RateLimitStore } from './types';
+
+// Expired entries are swept on writes once the map grows past this size
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Per-process rate limit store
+ * Suitable for tests and single-instance deployments only, since counters are not shared
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, { count: number; resetAt: number }>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitState> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+
+    const window = current && current.resetAt > now
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: now + windowMs };
+
+    this.windows.set(key, window);
+
+    if (this.windows.size > SWEEP_THRESHOLD) {
+      this.sweep(now);
+    }
+
+    return { count: window.count, resetAt: new Date(window.resetAt) };
+  }
+
+  async get(key: string): Promise<RateLimitState | null> {
+    const window = this.windows.get(key);
+    if (!window || window.resetAt <= Date.now()) {
+      return null;
+    }
+
+    return { count: window.count, resetAt: new Date(window.resetAt) };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+
+  private sweep(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { prisma } from '../db';
+import type { RateLimitState, RateLimitStore } from './types';
+
+/**
+ * Rate limit store backed by the rate_limit_buckets table
+ * Counters are shared by every app instance; each hit is a single atomic upsert
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitState> {
+    try {
+      const now = new Date();
+      const resetAt = new Date(now.getTime() + windowMs);
+
+      // Start a new window when the stored one has ended, otherwise count the hit in it
+      const rows = await prisma.$queryRaw<Array<{ count: number; reset_at: Date }>>`
+        INSERT INTO rate_limit_buckets (key, count, reset_at)
+        VALUES (${key}, 1, ${resetAt})
+        ON CONFLICT (key) DO UPDATE SET
+          count = CASE WHEN rate_limit_buckets.reset_at <= ${now} THEN 1 ELSE rate_limit_buckets.count + 1 END,
+          reset_at = CASE WHEN rate_limit_buckets.reset_at <= ${now} THEN ${resetAt} ELSE rate_limit_buckets.reset_at END
+        RETURNING count, reset_at
+      `;
+
+      return { count: Number(rows[0].count), resetAt: rows[0].reset_at };
+    } catch (error) {
+      throw new Error(`Failed to increment rate limit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async get(key: string): Promise<RateLimitState | null> {
+    try {
+      const bucket = await prisma.rateLimitBucket.findUnique({
+        where: { key },
+      });
+
+      if (!bucket || bucket.resetAt.getTime() <= Date.now()) {
+        return null;
+      }
+
+      return { count: bucket.count, resetAt: bucket.resetAt };
+    } catch (error) {
+      throw new Error(`Failed to read rate limit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    try {
+      await prisma.rateLimitBucket.deleteMany({
+        where: { key },
+      });
+    } catch (error) {
+      throw new Error(`Failed to reset rate limit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete buckets whose window has ended
+   * @returns number - Count of buckets removed
+   */
+  async pruneExpired(): Promise<number> {
+    try {
+      const result = await prisma.rateLimitBucket.deleteMany({
+        where: { resetAt: { lte: new Date() } },
+      });
+
+      return result.count;
+    } catch (error) {
+      throw new Error(`Failed to prune rate limits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
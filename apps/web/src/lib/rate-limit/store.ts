@@ -0,0 +1,32 @@
+import type { RateLimitStore } from './types';
+import { MemoryRateLimitStore } from './memory-store';
+import { PostgresRateLimitStore } from './postgres-store';
+
+let rateLimitStore: RateLimitStore | null = null;
+
+/**
+ * Build the store selected by RATE_LIMIT_STORE (memory | postgres)
+ * Multi-instance deployments must use postgres so limits are enforced across instances
+ */
+export function createRateLimitStore(env: Partial<NodeJS.ProcessEnv> = process.env): RateLimitStore {
+  switch (env.RATE_LIMIT_STORE) {
+    case 'postgres':
+      return new PostgresRateLimitStore();
+    case 'memory':
+    case undefined:
+    case '':
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${env.RATE_LIMIT_STORE}`);
+  }
+}
+
+/**
+ * Get the shared rate limit store, creating it from the environment on first use
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = createRateLimitStore();
+  }
+  return rateLimitStore;
+}
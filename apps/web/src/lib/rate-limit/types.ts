@@ -0,0 +1,29 @@
+/**
+ * Fixed-window counter storage used for rate limiting and login throttling
+ */
+
+export interface RateLimitState {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  /**
+   * Add one hit to a key, starting a new window if the previous one has ended
+   * @param key - Counter key, e.g. `login:ip:10.0.0.1`
+   * @param windowMs - Window length used when a new window starts
+   * @returns RateLimitState - Count and window end after this hit
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitState>;
+
+  /**
+   * Read a key without counting a hit
+   * @returns RateLimitState | null - Null if the key has no open window
+   */
+  get(key: string): Promise<RateLimitState | null>;
+
+  /**
+   * Clear a key so its next hit starts a new window
+   */
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,113 @@
+import { ApiKey } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreateApiKeyInput {
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt?: Date | null;
+}
+
+export class ApiKeyRepository {
+  async create(data: CreateApiKeyInput): Promise<ApiKey> {
+    try {
+      return await prisma.apiKey.create({
+        data: {
+          userId: data.userId,
+          name: data.name,
+          prefix: data.prefix,
+          keyHash: data.keyHash,
+          scopes: data.scopes,
+          expiresAt: data.expiresAt ?? null,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to create API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findByPrefix(prefix: string): Promise<ApiKey | null> {
+    try {
+      return await prisma.apiKey.findUnique({
+        where: { prefix },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * List a user's keys, newest first, including revoked and expired ones
+   */
+  async findAllForUser(userId: string): Promise<ApiKey[]> {
+    try {
+      return await prisma.apiKey.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch API keys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Count keys that are neither revoked nor expired
+   */
+  async countActiveForUser(userId: string): Promise<number> {
+    try {
+      return await prisma.apiKey.count({
+        where: {
+          userId,
+          revokedAt: null,
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: new Date() } },
+          ],
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to count API keys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Revoke one of a user's keys
+   * @returns boolean - False if the key does not belong to the user or is already revoked
+   */
+  async revoke(id: string, userId: string): Promise<boolean> {
+    try {
+      const result = await prisma.apiKey.updateMany({
+        where: {
+          id,
+          userId,
+          revokedAt: null,
+        },
+        data: {
+          revokedAt: new Date(),
+        },
+      });
+
+      return result.count === 1;
+    } catch (error) {
+      throw new Error(`Failed to revoke API key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async recordUse(id: string, ipAddress: string | null): Promise<void> {
+    try {
+      await prisma.apiKey.update({
+        where: { id },
+        data: {
+          lastUsedAt: new Date(),
+          lastUsedIp: ipAddress,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to record API key use: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const apiKeyRepository = new ApiKeyRepository();
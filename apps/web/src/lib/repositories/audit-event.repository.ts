@@ -0,0 +1,103 @@
+import { AuditEvent, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreateAuditEventInput {
+  action: string;
+  actorId?: string | null;
+  actorEmail?: string | null;
+  targetType?: string | null;
+  targetId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  metadata?: Prisma.InputJsonObject;
+  impersonatorId?: string | null;
+}
+
+export interface AuditEventFilter {
+  // Matches the actor id exactly or part of the actor email
+  actor?: string;
+  // Matches the actor id only, for showing users their own events
+  actorId?: string;
+  action?: string;
+  actions?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface FindAllAuditEventsOptions extends AuditEventFilter {
+  skip?: number;
+  take?: number;
+}
+
+/**
+ * Audit events are append-only, so this repository deliberately has no update or delete;
+ * the one exception, scrubbing a purged account's personal data, lives in UserRepository.anonymize
+ */
+export class AuditEventRepository {
+  async create(data: CreateAuditEventInput): Promise<AuditEvent> {
+    try {
+      return await prisma.auditEvent.create({
+        data: {
+          action: data.action,
+          actorId: data.actorId ?? null,
+          actorEmail: data.actorEmail ?? null,
+          targetType: data.targetType ?? null,
+          targetId: data.targetId ?? null,
+          ipAddress: data.ipAddress ?? null,
+          userAgent: data.userAgent ?? null,
+          ...(data.metadata && { metadata: data.metadata }),
+          impersonatorId: data.impersonatorId ?? null,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to create audit event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findAll(options: FindAllAuditEventsOptions = {}): Promise<AuditEvent[]> {
+    try {
+      const { skip, take, ...filter } = options;
+
+      return await prisma.auditEvent.findMany({
+        where: this.buildWhere(filter),
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take,
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch audit events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async count(filter: AuditEventFilter = {}): Promise<number> {
+    try {
+      return await prisma.auditEvent.count({
+        where: this.buildWhere(filter),
+      });
+    } catch (error) {
+      throw new Error(`Failed to count audit events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private buildWhere(filter: AuditEventFilter): Prisma.AuditEventWhereInput {
+    return {
+      ...(filter.actor && {
+        OR: [
+          { actorId: filter.actor },
+          { actorEmail: { contains: filter.actor, mode: 'insensitive' } },
+        ],
+      }),
+      ...(filter.actorId && { actorId: filter.actorId }),
+      ...(filter.action && { action: filter.action }),
+      ...(filter.actions && { action: { in: filter.actions } }),
+      ...((filter.from || filter.to) && {
+        createdAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to }),
+        },
+      }),
+    };
+  }
+}
+
+export const auditEventRepository = new AuditEventRepository();
@@ -0,0 +1,109 @@
+import { ChatQuery, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreateChatQueryInput {
+  userId: string;
+  datasetId?: string | null;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatQueryFilter {
+  // All users when omitted
+  userId?: string;
+  since?: Date;
+}
+
+export interface ChatUsageTotals {
+  queries: number;
+  tokens: number;
+}
+
+export interface DailyChatUsage {
+  // Calendar day in the requested time zone, as YYYY-MM-DD
+  date: string;
+  queries: number;
+  tokens: number;
+}
+
+export class ChatQueryRepository {
+  async create(data: CreateChatQueryInput): Promise<ChatQuery> {
+    try {
+      return await prisma.chatQuery.create({
+        data: {
+          userId: data.userId,
+          datasetId: data.datasetId ?? null,
+          promptTokens: data.promptTokens,
+          completionTokens: data.completionTokens,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to record chat query: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * A user's usage records, newest first
+   */
+  async findAllForUser(userId: string, take?: number): Promise<ChatQuery[]> {
+    try {
+      return await prisma.chatQuery.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take,
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch chat queries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getTotals(filter: ChatQueryFilter = {}): Promise<ChatUsageTotals> {
+    try {
+      const result = await prisma.chatQuery.aggregate({
+        where: {
+          ...(filter.userId && { userId: filter.userId }),
+          ...(filter.since && { createdAt: { gte: filter.since } }),
+        },
+        _count: { _all: true },
+        _sum: { promptTokens: true, completionTokens: true },
+      });
+
+      return {
+        queries: result._count._all,
+        tokens: (result._sum.promptTokens ?? 0) + (result._sum.completionTokens ?? 0),
+      };
+    } catch (error) {
+      throw new Error(`Failed to total chat queries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Usage per calendar day in `timeZone`, only for days that have any
+   * Timestamps are stored as UTC without a zone, hence the double AT TIME ZONE
+   */
+  async getDailyUsage(since: Date, timeZone: string, userId?: string): Promise<DailyChatUsage[]> {
+    try {
+      const rows = await prisma.$queryRaw<Array<{ day: string; queries: number; tokens: number }>>`
+        SELECT
+          to_char(created_at AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone}, 'YYYY-MM-DD') AS day,
+          COUNT(*)::int AS queries,
+          COALESCE(SUM(prompt_tokens + completion_tokens), 0)::int AS tokens
+        FROM chat_queries
+        WHERE created_at >= ${since}
+        ${userId ? Prisma.sql`AND user_id = ${userId}` : Prisma.empty}
+        GROUP BY day
+        ORDER BY day
+      `;
+
+      return rows.map((row) => ({
+        date: row.day,
+        queries: Number(row.queries),
+        tokens: Number(row.tokens),
+      }));
+    } catch (error) {
+      throw new Error(`Failed to fetch daily chat usage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const chatQueryRepository = new ChatQueryRepository();
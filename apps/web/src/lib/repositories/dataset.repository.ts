@@ -0,0 +1,257 @@
+import { Dataset, DatasetStatus, DatasetVisibility, FileStatus, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { scopeWhere, type DataScope } from '../auth/data-scope';
+
+export type DatasetWithFileCount = Dataset & { _count: { files: number } };
+
+export type DatasetWithFiles = Prisma.DatasetGetPayload<{ include: { files: true } }>;
+
+export interface CreateDatasetInput {
+  name: string;
+  description?: string | null;
+  ownerId: string;
+  departmentId?: string | null;
+  visibility?: DatasetVisibility;
+  tags?: string[];
+}
+
+export interface UpdateDatasetInput {
+  name?: string;
+  description?: string | null;
+  departmentId?: string | null;
+  visibility?: DatasetVisibility;
+  tags?: string[];
+}
+
+export interface DatasetFilter {
+  // Only datasets the user may see, see getDataScope; all datasets when omitted
+  scope?: DataScope;
+  ownerId?: string;
+  search?: string;
+}
+
+export interface FindAllDatasetsOptions extends DatasetFilter {
+  skip?: number;
+  take?: number;
+}
+
+const includeFileCount = {
+  _count: { select: { files: true } },
+} satisfies Prisma.DatasetInclude;
+
+export class DatasetRepository {
+  async create(data: CreateDatasetInput): Promise<DatasetWithFileCount> {
+    try {
+      return await prisma.dataset.create({
+        data: {
+          name: data.name,
+          description: data.description ?? null,
+          ownerId: data.ownerId,
+          departmentId: data.departmentId ?? null,
+          ...(data.visibility && { visibility: data.visibility }),
+          tags: data.tags ?? [],
+        },
+        include: includeFileCount,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') {
+          throw new Error('A dataset with this name already exists');
+        }
+        if (error.code === 'P2003') {
+          throw new Error('Department not found');
+        }
+      }
+      throw new Error(`Failed to create dataset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find a dataset, or null if it does not exist or is outside the given scope
+   */
+  async findById(id: string, scope?: DataScope): Promise<DatasetWithFileCount | null> {
+    try {
+      return await prisma.dataset.findFirst({
+        where: { id, ...this.buildWhere({ scope }) },
+        include: includeFileCount,
+      });
+    } catch (error) {
+      throw new Error(`Failed to find dataset by ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async update(id: string, data: UpdateDatasetInput): Promise<DatasetWithFileCount> {
+    try {
+      return await prisma.dataset.update({
+        where: { id },
+        data,
+        include: includeFileCount,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') {
+          throw new Error('A dataset with this name already exists');
+        }
+        if (error.code === 'P2003') {
+          throw new Error('Department not found');
+        }
+        if (error.code === 'P2025') {
+          throw new Error('Dataset not found');
+        }
+      }
+      throw new Error(`Failed to update dataset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a dataset with its files
+   * Users who picked it as their default dataset and chat usage records lose the reference
+   */
+  async delete(id: string): Promise<Dataset> {
+    try {
+      return await prisma.dataset.delete({
+        where: { id },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          throw new Error('Dataset not found');
+        }
+      }
+      throw new Error(`Failed to delete dataset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findAll(options: FindAllDatasetsOptions = {}): Promise<DatasetWithFileCount[]> {
+    try {
+      const { skip, take, ...filter } = options;
+
+      return await prisma.dataset.findMany({
+        where: this.buildWhere(filter),
+        include: includeFileCount,
+        orderBy: { updatedAt: 'desc' },
+        skip,
+        take,
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch datasets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * A user's own datasets with their files, oldest first
+   */
+  async findAllForOwnerWithFiles(ownerId: string): Promise<DatasetWithFiles[]> {
+    try {
+      return await prisma.dataset.findMany({
+        where: { ownerId },
+        include: { files: { orderBy: { createdAt: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch datasets for owner: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async count(filter: DatasetFilter = {}): Promise<number> {
+    try {
+      return await prisma.dataset.count({
+        where: this.buildWhere(filter),
+      });
+    } catch (error) {
+      throw new Error(`Failed to count datasets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Count the files in the datasets matching the filter
+   */
+  async countFiles(filter: DatasetFilter = {}): Promise<number> {
+    try {
+      return await prisma.file.count({
+        where: { dataset: this.buildWhere(filter) },
+      });
+    } catch (error) {
+      throw new Error(`Failed to count files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * IDs of a user's own datasets
+   */
+  async findIdsByOwner(ownerId: string): Promise<string[]> {
+    try {
+      const datasets = await prisma.dataset.findMany({
+        where: { ownerId },
+        select: { id: true },
+      });
+
+      return datasets.map((dataset) => dataset.id);
+    } catch (error) {
+      throw new Error(`Failed to fetch dataset IDs for owner: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Derive the dataset status from its files: processing while any file waits or is being
+   * processed, otherwise ready if any file is ready, failed if all failed and empty without files
+   */
+  async refreshStatus(id: string): Promise<DatasetStatus> {
+    try {
+      const files = await prisma.file.findMany({
+        where: { datasetId: id },
+        select: { status: true },
+        distinct: ['status'],
+      });
+      const statuses = new Set(files.map((file) => file.status));
+
+      let status: DatasetStatus = DatasetStatus.EMPTY;
+      if (statuses.has(FileStatus.PENDING) || statuses.has(FileStatus.PROCESSING)) {
+        status = DatasetStatus.PROCESSING;
+      } else if (statuses.has(FileStatus.READY)) {
+        status = DatasetStatus.READY;
+      } else if (statuses.has(FileStatus.FAILED)) {
+        status = DatasetStatus.FAILED;
+      }
+
+      await prisma.dataset.update({
+        where: { id },
+        data: { status },
+      });
+
+      return status;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        throw new Error('Dataset not found');
+      }
+      throw new Error(`Failed to refresh dataset status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private buildWhere(filter: DatasetFilter): Prisma.DatasetWhereInput {
+    const conditions: Prisma.DatasetWhereInput[] = [];
+
+    if (filter.scope) {
+      conditions.push(scopeWhere<'departmentId', 'ownerId'>(filter.scope, { owner: 'ownerId' }));
+      // Private datasets stay with their owner, also within their department
+      if (filter.scope.departmentIds !== null) {
+        conditions.push({
+          OR: [
+            { ownerId: filter.scope.userId },
+            { visibility: DatasetVisibility.DEPARTMENT },
+          ],
+        });
+      }
+    }
+
+    return {
+      AND: conditions,
+      ...(filter.ownerId && { ownerId: filter.ownerId }),
+      ...(filter.search && {
+        name: { contains: filter.search, mode: 'insensitive' },
+      }),
+    };
+  }
+}
+
+export const datasetRepository = new DatasetRepository();
@@ -0,0 +1,113 @@
+import { Department, DepartmentMembership, DepartmentRole, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { ORGANIZATION_ERROR_MESSAGES } from '../auth/constants';
+
+export interface CreateDepartmentInput {
+  organizationId: string;
+  parentId?: string | null;
+  name: string;
+  code: string;
+}
+
+export interface DepartmentMembershipInput {
+  departmentId: string;
+  role: DepartmentRole;
+}
+
+export type DepartmentMembershipWithDepartment = DepartmentMembership & { department: Department };
+
+export class DepartmentRepository {
+  async create(data: CreateDepartmentInput): Promise<Department> {
+    try {
+      return await prisma.department.create({ data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error(ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_CODE_TAKEN);
+      }
+      throw new Error(`Failed to create department: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findById(id: string): Promise<Department | null> {
+    try {
+      return await prisma.department.findUnique({ where: { id } });
+    } catch (error) {
+      throw new Error(`Failed to find department: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findByIds(ids: string[]): Promise<Department[]> {
+    try {
+      return await prisma.department.findMany({ where: { id: { in: ids } } });
+    } catch (error) {
+      throw new Error(`Failed to find departments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * The ids of the teams under the given departments, at any depth
+   */
+  async findTeamIds(departmentIds: string[]): Promise<string[]> {
+    try {
+      const teamIds: string[] = [];
+      const seen = new Set(departmentIds);
+      let parentIds = departmentIds;
+
+      // One query per level; organizations are only a few levels deep
+      while (parentIds.length > 0) {
+        const teams = await prisma.department.findMany({
+          where: { parentId: { in: parentIds } },
+          select: { id: true },
+        });
+
+        parentIds = teams.map((team) => team.id).filter((id) => !seen.has(id));
+        parentIds.forEach((id) => seen.add(id));
+        teamIds.push(...parentIds);
+      }
+
+      return teamIds;
+    } catch (error) {
+      throw new Error(`Failed to find teams: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findMembershipsForUser(userId: string): Promise<DepartmentMembershipWithDepartment[]> {
+    try {
+      return await prisma.departmentMembership.findMany({
+        where: { userId },
+        include: { department: true },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find department memberships: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace all of a user's memberships in one transaction
+   */
+  async replaceMembershipsForUser(
+    userId: string,
+    memberships: DepartmentMembershipInput[]
+  ): Promise<DepartmentMembershipWithDepartment[]> {
+    try {
+      const [, , updated] = await prisma.$transaction([
+        prisma.departmentMembership.deleteMany({ where: { userId } }),
+        prisma.departmentMembership.createMany({
+          data: memberships.map((membership) => ({ userId, ...membership })),
+        }),
+        prisma.departmentMembership.findMany({
+          where: { userId },
+          include: { department: true },
+          orderBy: { createdAt: 'asc' },
+        }),
+      ]);
+
+      return updated;
+    } catch (error) {
+      throw new Error(`Failed to update department memberships: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const departmentRepository = new DepartmentRepository();
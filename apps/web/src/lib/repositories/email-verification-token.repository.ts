@@ -0,0 +1,81 @@
+import { EmailVerificationToken } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreateEmailVerificationTokenInput {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  email?: string | null;
+}
+
+export class EmailVerificationTokenRepository {
+  async create(data: CreateEmailVerificationTokenInput): Promise<EmailVerificationToken> {
+    try {
+      return await prisma.emailVerificationToken.create({
+        data: {
+          userId: data.userId,
+          tokenHash: data.tokenHash,
+          expiresAt: data.expiresAt,
+          email: data.email ?? null,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to create email verification token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<EmailVerificationToken | null> {
+    try {
+      return await prisma.emailVerificationToken.findUnique({
+        where: { tokenHash },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find email verification token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark a token as used, only if it has not been used yet
+   * @returns boolean - False if another request consumed the token first
+   */
+  async markUsed(id: string): Promise<boolean> {
+    try {
+      const result = await prisma.emailVerificationToken.updateMany({
+        where: {
+          id,
+          usedAt: null,
+        },
+        data: {
+          usedAt: new Date(),
+        },
+      });
+
+      return result.count === 1;
+    } catch (error) {
+      throw new Error(`Failed to mark email verification token as used: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Invalidate every outstanding token of a user so only the latest link works
+   */
+  async invalidateAllForUser(userId: string): Promise<number> {
+    try {
+      const result = await prisma.emailVerificationToken.updateMany({
+        where: {
+          userId,
+          usedAt: null,
+        },
+        data: {
+          usedAt: new Date(),
+        },
+      });
+
+      return result.count;
+    } catch (error) {
+      throw new Error(`Failed to invalidate email verification tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const emailVerificationTokenRepository = new EmailVerificationTokenRepository();
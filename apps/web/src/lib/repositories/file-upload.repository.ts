@@ -0,0 +1,122 @@
+import { File, FileUpload, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import type { CreateFileInput } from './file.repository';
+
+export interface CreateFileUploadInput {
+  datasetId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  chunkSize: number;
+  checksum?: string | null;
+  storageKey: string;
+  storageUploadId: string;
+  expiresAt: Date;
+}
+
+export class FileUploadRepository {
+  async create(data: CreateFileUploadInput): Promise<FileUpload> {
+    try {
+      return await prisma.fileUpload.create({
+        data: {
+          datasetId: data.datasetId,
+          filename: data.filename,
+          mimeType: data.mimeType,
+          size: data.size,
+          chunkSize: data.chunkSize,
+          checksum: data.checksum ?? null,
+          storageKey: data.storageKey,
+          storageUploadId: data.storageUploadId,
+          expiresAt: data.expiresAt,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to create file upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Find an upload of the dataset that has not expired
+   */
+  async findActive(id: string, datasetId: string, now: Date = new Date()): Promise<FileUpload | null> {
+    try {
+      return await prisma.fileUpload.findFirst({
+        where: {
+          id,
+          datasetId,
+          expiresAt: { gt: now },
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find file upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Uploads past their expiry, oldest first
+   */
+  async findExpired(now: Date, limit: number): Promise<FileUpload[]> {
+    try {
+      return await prisma.fileUpload.findMany({
+        where: { expiresAt: { lte: now } },
+        orderBy: { expiresAt: 'asc' },
+        take: limit,
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch expired file uploads: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record the file a finished upload produced and remove the upload, in one transaction
+   * @returns File - Or null if the upload was already gone, completed or aborted concurrently
+   */
+  async complete(id: string, file: CreateFileInput): Promise<File | null> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const { count } = await tx.fileUpload.deleteMany({ where: { id } });
+        if (count === 0) {
+          return null;
+        }
+
+        return tx.file.create({
+          data: {
+            datasetId: file.datasetId,
+            filename: file.filename,
+            mimeType: file.mimeType,
+            size: file.size,
+            checksum: file.checksum,
+            storageKey: file.storageKey,
+          },
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') {
+          throw new Error('A file is already stored under this key');
+        }
+        if (error.code === 'P2003') {
+          throw new Error('Dataset not found');
+        }
+      }
+      throw new Error(`Failed to complete file upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * @returns boolean - False if the upload was already gone
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      const result = await prisma.fileUpload.deleteMany({
+        where: { id },
+      });
+
+      return result.count === 1;
+    } catch (error) {
+      throw new Error(`Failed to delete file upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const fileUploadRepository = new FileUploadRepository();
@@ -0,0 +1,53 @@
+import { File, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreateFileInput {
+  datasetId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+  storageKey: string;
+}
+
+export class FileRepository {
+  /**
+   * Record an uploaded file, pending processing
+   */
+  async create(data: CreateFileInput): Promise<File> {
+    try {
+      return await prisma.file.create({
+        data: {
+          datasetId: data.datasetId,
+          filename: data.filename,
+          mimeType: data.mimeType,
+          size: data.size,
+          checksum: data.checksum,
+          storageKey: data.storageKey,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2002') {
+          throw new Error('A file is already stored under this key');
+        }
+        if (error.code === 'P2003') {
+          throw new Error('Dataset not found');
+        }
+      }
+      throw new Error(`Failed to create file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findByStorageKey(storageKey: string): Promise<File | null> {
+    try {
+      return await prisma.file.findUnique({
+        where: { storageKey },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const fileRepository = new FileRepository();
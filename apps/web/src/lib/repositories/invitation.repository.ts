@@ -0,0 +1,87 @@
+import { Invitation, UserRole } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreateInvitationInput {
+  email: string;
+  role: UserRole;
+  departmentId?: string | null;
+  tokenHash: string;
+  invitedById: string;
+  expiresAt: Date;
+}
+
+export class InvitationRepository {
+  async create(data: CreateInvitationInput): Promise<Invitation> {
+    try {
+      return await prisma.invitation.create({
+        data: {
+          email: data.email,
+          role: data.role,
+          departmentId: data.departmentId ?? null,
+          tokenHash: data.tokenHash,
+          invitedById: data.invitedById,
+          expiresAt: data.expiresAt,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to create invitation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<Invitation | null> {
+    try {
+      return await prisma.invitation.findUnique({
+        where: { tokenHash },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find invitation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark an invitation as accepted, only if it is still open
+   * @returns boolean - False if another request accepted it first or it was replaced
+   */
+  async markAccepted(id: string): Promise<boolean> {
+    try {
+      const result = await prisma.invitation.updateMany({
+        where: {
+          id,
+          acceptedAt: null,
+          revokedAt: null,
+        },
+        data: {
+          acceptedAt: new Date(),
+        },
+      });
+
+      return result.count === 1;
+    } catch (error) {
+      throw new Error(`Failed to accept invitation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Revoke the open invitations for an address so only the latest link works
+   */
+  async revokeOpenForEmail(email: string): Promise<number> {
+    try {
+      const result = await prisma.invitation.updateMany({
+        where: {
+          email,
+          acceptedAt: null,
+          revokedAt: null,
+        },
+        data: {
+          revokedAt: new Date(),
+        },
+      });
+
+      return result.count;
+    } catch (error) {
+      throw new Error(`Failed to revoke invitations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const invitationRepository = new InvitationRepository();
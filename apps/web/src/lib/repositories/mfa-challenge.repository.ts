@@ -0,0 +1,73 @@
+import { MfaChallenge } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreateMfaChallengeInput {
+  userId: string;
+  ticketHash: string;
+  expiresAt: Date;
+}
+
+export class MfaChallengeRepository {
+  async create(data: CreateMfaChallengeInput): Promise<MfaChallenge> {
+    try {
+      return await prisma.mfaChallenge.create({
+        data,
+      });
+    } catch (error) {
+      throw new Error(`Failed to create MFA challenge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findByTicketHash(ticketHash: string): Promise<MfaChallenge | null> {
+    try {
+      return await prisma.mfaChallenge.findUnique({
+        where: { ticketHash },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find MFA challenge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Count a wrong code against the challenge
+   * @returns number - Attempts made so far, including this one
+   */
+  async incrementAttempts(id: string): Promise<number> {
+    try {
+      const challenge = await prisma.mfaChallenge.update({
+        where: { id },
+        data: {
+          attempts: { increment: 1 },
+        },
+      });
+
+      return challenge.attempts;
+    } catch (error) {
+      throw new Error(`Failed to record MFA attempt: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark a challenge as used, only if it has not been used yet
+   * @returns boolean - False if another request completed the challenge first
+   */
+  async markUsed(id: string): Promise<boolean> {
+    try {
+      const result = await prisma.mfaChallenge.updateMany({
+        where: {
+          id,
+          usedAt: null,
+        },
+        data: {
+          usedAt: new Date(),
+        },
+      });
+
+      return result.count === 1;
+    } catch (error) {
+      throw new Error(`Failed to mark MFA challenge as used: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const mfaChallengeRepository = new MfaChallengeRepository();
@@ -0,0 +1,49 @@
+import { Department, Organization, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { ORGANIZATION_ERROR_MESSAGES } from '../auth/constants';
+
+export interface CreateOrganizationInput {
+  name: string;
+  slug: string;
+}
+
+export type OrganizationWithDepartments = Organization & { departments: Department[] };
+
+export class OrganizationRepository {
+  async create(data: CreateOrganizationInput): Promise<Organization> {
+    try {
+      return await prisma.organization.create({ data });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new Error(ORGANIZATION_ERROR_MESSAGES.SLUG_TAKEN);
+      }
+      throw new Error(`Failed to create organization: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findById(id: string): Promise<Organization | null> {
+    try {
+      return await prisma.organization.findUnique({ where: { id } });
+    } catch (error) {
+      throw new Error(`Failed to find organization: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Every organization with its departments and teams, by name
+   */
+  async findAllWithDepartments(): Promise<OrganizationWithDepartments[]> {
+    try {
+      return await prisma.organization.findMany({
+        include: {
+          departments: { orderBy: { name: 'asc' } },
+        },
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      throw new Error(`Failed to list organizations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const organizationRepository = new OrganizationRepository();
@@ -0,0 +1,57 @@
+import { PasswordHistory } from '@prisma/client';
+import { prisma } from '../db';
+
+export class PasswordHistoryRepository {
+  async create(userId: string, passwordHash: string): Promise<PasswordHistory> {
+    try {
+      return await prisma.passwordHistory.create({
+        data: { userId, passwordHash },
+      });
+    } catch (error) {
+      throw new Error(`Failed to record password history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * The user's most recently set passwords, newest first
+   */
+  async findRecent(userId: string, take: number): Promise<PasswordHistory[]> {
+    try {
+      return await prisma.passwordHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take,
+      });
+    } catch (error) {
+      throw new Error(`Failed to find password history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete all but the newest entries, so old hashes are not kept longer than the policy needs
+   * @returns number - Count of entries deleted
+   */
+  async pruneForUser(userId: string, keep: number): Promise<number> {
+    try {
+      const kept = await prisma.passwordHistory.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: keep,
+        select: { id: true },
+      });
+
+      const result = await prisma.passwordHistory.deleteMany({
+        where: {
+          userId,
+          id: { notIn: kept.map((entry) => entry.id) },
+        },
+      });
+
+      return result.count;
+    } catch (error) {
+      throw new Error(`Failed to prune password history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const passwordHistoryRepository = new PasswordHistoryRepository();
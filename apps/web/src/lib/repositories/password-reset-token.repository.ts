@@ -0,0 +1,81 @@
+import { PasswordResetToken } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreatePasswordResetTokenInput {
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  requestedIp?: string | null;
+}
+
+export class PasswordResetTokenRepository {
+  async create(data: CreatePasswordResetTokenInput): Promise<PasswordResetToken> {
+    try {
+      return await prisma.passwordResetToken.create({
+        data: {
+          userId: data.userId,
+          tokenHash: data.tokenHash,
+          expiresAt: data.expiresAt,
+          requestedIp: data.requestedIp ?? null,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to create password reset token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    try {
+      return await prisma.passwordResetToken.findUnique({
+        where: { tokenHash },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find password reset token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark a token as used, only if it has not been used yet
+   * @returns boolean - False if another request consumed the token first
+   */
+  async markUsed(id: string): Promise<boolean> {
+    try {
+      const result = await prisma.passwordResetToken.updateMany({
+        where: {
+          id,
+          usedAt: null,
+        },
+        data: {
+          usedAt: new Date(),
+        },
+      });
+
+      return result.count === 1;
+    } catch (error) {
+      throw new Error(`Failed to mark password reset token as used: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Invalidate every outstanding token of a user so only the latest link works
+   */
+  async invalidateAllForUser(userId: string): Promise<number> {
+    try {
+      const result = await prisma.passwordResetToken.updateMany({
+        where: {
+          userId,
+          usedAt: null,
+        },
+        data: {
+          usedAt: new Date(),
+        },
+      });
+
+      return result.count;
+    } catch (error) {
+      throw new Error(`Failed to invalidate password reset tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const passwordResetTokenRepository = new PasswordResetTokenRepository();
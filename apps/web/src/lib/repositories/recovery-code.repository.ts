@@ -0,0 +1,72 @@
+import { prisma } from '../db';
+
+export class RecoveryCodeRepository {
+  /**
+   * Replace every recovery code of a user with a new set
+   * @param codeHashes - Hashes of the new codes; the plain codes are never stored
+   */
+  async replaceAllForUser(userId: string, codeHashes: string[]): Promise<void> {
+    try {
+      await prisma.$transaction([
+        prisma.recoveryCode.deleteMany({
+          where: { userId },
+        }),
+        prisma.recoveryCode.createMany({
+          data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+        }),
+      ]);
+    } catch (error) {
+      throw new Error(`Failed to store recovery codes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Consume an unused recovery code
+   * @returns boolean - False if the code does not exist, was already used, or another request used it first
+   */
+  async consume(userId: string, codeHash: string): Promise<boolean> {
+    try {
+      const result = await prisma.recoveryCode.updateMany({
+        where: {
+          userId,
+          codeHash,
+          usedAt: null,
+        },
+        data: {
+          usedAt: new Date(),
+        },
+      });
+
+      return result.count === 1;
+    } catch (error) {
+      throw new Error(`Failed to consume recovery code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async countUnused(userId: string): Promise<number> {
+    try {
+      return await prisma.recoveryCode.count({
+        where: {
+          userId,
+          usedAt: null,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to count recovery codes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteAllForUser(userId: string): Promise<number> {
+    try {
+      const result = await prisma.recoveryCode.deleteMany({
+        where: { userId },
+      });
+
+      return result.count;
+    } catch (error) {
+      throw new Error(`Failed to delete recovery codes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const recoveryCodeRepository = new RecoveryCodeRepository();
@@ -0,0 +1,139 @@
+import { Session, Prisma } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreateSessionInput {
+  userId: string;
+  refreshTokenHash: string;
+  expiresAt: Date;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  impersonatorId?: string | null;
+}
+
+export interface RotateSessionInput {
+  refreshTokenHash: string;
+  previousTokenHash: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export class SessionRepository {
+  async create(data: CreateSessionInput): Promise<Session> {
+    try {
+      return await prisma.session.create({
+        data: {
+          userId: data.userId,
+          refreshTokenHash: data.refreshTokenHash,
+          expiresAt: data.expiresAt,
+          userAgent: data.userAgent ?? null,
+          ipAddress: data.ipAddress ?? null,
+          impersonatorId: data.impersonatorId ?? null,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to create session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    try {
+      return await prisma.session.findUnique({
+        where: { id },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find session by ID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Sessions of a user that can still be refreshed, most recently used first
+   */
+  async findActiveForUser(userId: string): Promise<Session[]> {
+    try {
+      return await prisma.session.findMany({
+        where: {
+          userId,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { lastSeenAt: 'desc' },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find user sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Replace the refresh token hash, only if it is still `previousTokenHash`
+   * @returns Session | null - Null if another request rotated or revoked the session first
+   */
+  async rotate(id: string, data: RotateSessionInput): Promise<Session | null> {
+    try {
+      const now = new Date();
+
+      const result = await prisma.session.updateMany({
+        where: { id, refreshTokenHash: data.previousTokenHash, revokedAt: null },
+        data: {
+          refreshTokenHash: data.refreshTokenHash,
+          previousTokenHash: data.previousTokenHash,
+          rotatedAt: now,
+          lastSeenAt: now,
+          ...(data.userAgent && { userAgent: data.userAgent }),
+          ...(data.ipAddress && { ipAddress: data.ipAddress }),
+        },
+      });
+      if (result.count === 0) {
+        return null;
+      }
+
+      return await prisma.session.findUnique({ where: { id } });
+    } catch (error) {
+      throw new Error(`Failed to rotate session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async revoke(id: string, reason: string): Promise<Session> {
+    try {
+      return await prisma.session.update({
+        where: { id },
+        data: {
+          revokedAt: new Date(),
+          revokedReason: reason,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          throw new Error('Session not found');
+        }
+      }
+      throw new Error(`Failed to revoke session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Revoke every active session of a user
+   * @param exceptSessionId - Session to leave signed in, such as the one making the request
+   */
+  async revokeAllForUser(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    try {
+      const result = await prisma.session.updateMany({
+        where: {
+          userId,
+          revokedAt: null,
+          ...(exceptSessionId && { id: { not: exceptSessionId } }),
+        },
+        data: {
+          revokedAt: new Date(),
+          revokedReason: reason,
+        },
+      });
+
+      return result.count;
+    } catch (error) {
+      throw new Error(`Failed to revoke user sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const sessionRepository = new SessionRepository();
@@ -0,0 +1,67 @@
+import { AuthProvider, UserIdentity } from '@prisma/client';
+import { prisma } from '../db';
+
+export interface CreateUserIdentityInput {
+  userId: string;
+  provider: AuthProvider;
+  issuer: string;
+  subject: string;
+  email?: string | null;
+}
+
+export class UserIdentityRepository {
+  async create(data: CreateUserIdentityInput): Promise<UserIdentity> {
+    try {
+      return await prisma.userIdentity.create({
+        data: {
+          ...data,
+          lastLoginAt: new Date(),
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to create user identity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findByIssuerAndSubject(issuer: string, subject: string): Promise<UserIdentity | null> {
+    try {
+      return await prisma.userIdentity.findUnique({
+        where: {
+          issuer_subject: { issuer, subject },
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find user identity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async findAllForUser(userId: string): Promise<UserIdentity[]> {
+    try {
+      return await prisma.userIdentity.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      throw new Error(`Failed to find user identities: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record a sign-in through the identity, along with the email the provider now reports
+   */
+  async recordLogin(id: string, email: string | null): Promise<UserIdentity> {
+    try {
+      return await prisma.userIdentity.update({
+        where: { id },
+        data: {
+          email,
+          lastLoginAt: new Date(),
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to record identity sign-in: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const userIdentityRepository = new UserIdentityRepository();
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { UserRepository } from './user.repository';
+import { prisma } from '../db';
 
 const userRepository = new UserRepository();
 
@@ -127,6 +128,71 @@ describe('UserRepository', () => {
     });
   });
 
+  describe('restore', () => {
+    it('should re-enable an account that was active when it was deleted', async () => {
+      const createdUser = await userRepository.create(testUser);
+      await userRepository.softDelete(createdUser.id);
+
+      const restoredUser = await userRepository.restore(createdUser.id);
+
+      expect(restoredUser).toMatchObject({ isActive: true, deletedAt: null });
+    });
+
+    it('should leave an account disabled if it was disabled when it was deleted', async () => {
+      const createdUser = await userRepository.create(testUser);
+      await userRepository.update(createdUser.id, { isActive: false });
+      await userRepository.softDelete(createdUser.id);
+
+      const restoredUser = await userRepository.restore(createdUser.id);
+
+      expect(restoredUser).toMatchObject({ isActive: false, deletedAt: null });
+    });
+
+    it('should return null for an account that is not deleted', async () => {
+      const createdUser = await userRepository.create(testUser);
+
+      expect(await userRepository.restore(createdUser.id)).toBeNull();
+    });
+  });
+
+  describe('anonymize', () => {
+    it('should strip the email and name from audit event metadata', async () => {
+      const createdUser = await userRepository.create(testUser);
+      await userRepository.update(createdUser.id, { displayNameZh: '王小明' });
+      await prisma.auditEvent.createMany({
+        data: [
+          {
+            action: 'user.email_changed',
+            actorId: createdUser.id,
+            actorEmail: testUser.email,
+            targetType: 'user',
+            targetId: createdUser.id,
+            metadata: { previousEmail: 'old@example.com', newEmail: testUser.email },
+          },
+          { action: 'auth.password_reset_requested', metadata: { email: 'old@example.com' } },
+          {
+            action: 'admin.user_updated',
+            targetType: 'user',
+            targetId: createdUser.id,
+            metadata: { name: '王小明', role: 'ADMIN' },
+          },
+          { action: 'auth.login_failed', metadata: { email: 'someone@example.com' } },
+        ],
+      });
+
+      await userRepository.anonymize(createdUser.id, 'deleted-1@deleted.invalid');
+
+      const events = await prisma.auditEvent.findMany({ orderBy: { action: 'asc' } });
+      expect(events.map((event) => event.metadata)).toEqual([
+        { name: null, role: 'ADMIN' },
+        { email: 'someone@example.com' },
+        { email: null },
+        { previousEmail: null, newEmail: null },
+      ]);
+      expect(events.find((event) => event.actorId === createdUser.id)?.actorEmail).toBeNull();
+    });
+  });
+
   describe('findAll', () => {
     it('should return all users', async () => {
       await userRepository.create(testUser);
@@ -1,14 +1,52 @@
-import { User, Prisma } from '@prisma/client';
+import { User, UserRole, Prisma } from '@prisma/client';
 import { prisma } from '../db';
+import { ACCOUNT_DELETION_CONFIG, AUDIT_TARGET_TYPES } from '../auth/constants';
+import { collectAuditedEmails, redactAuditMetadata } from '../auth/account-deletion';
 
 export interface CreateUserInput {
   email: string;
-  passwordHash: string;
+  // Omitted for users provisioned through SSO
+  passwordHash?: string | null;
+  role?: UserRole;
+  mustChangePassword?: boolean;
+  emailVerifiedAt?: Date | null;
 }
 
 export interface UpdateUserInput {
   email?: string;
   passwordHash?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  mustChangePassword?: boolean;
+  passwordChangedAt?: Date | null;
+  emailVerifiedAt?: Date | null;
+  failedLoginAttempts?: number;
+  lockedUntil?: Date | null;
+  totpSecret?: string | null;
+  totpEnabledAt?: Date | null;
+  totpLastUsedStep?: number | null;
+  displayNameZh?: string | null;
+  displayNameEn?: string | null;
+  employeeId?: string | null;
+  phone?: string | null;
+  locale?: string;
+  timezone?: string;
+  defaultDatasetId?: string | null;
+}
+
+export interface UserFilter {
+  search?: string;
+  role?: UserRole;
+  isActive?: boolean;
+  // Accounts deleted by their owner and waiting for the purge
+  deleted?: boolean;
+  createdSince?: Date;
+  loggedInSince?: Date;
+}
+
+export interface FindAllUsersOptions extends UserFilter {
+  skip?: number;
+  take?: number;
 }
 
 export class UserRepository {
@@ -17,7 +55,10 @@ export class UserRepository {
       return await prisma.user.create({
         data: {
           email: data.email,
-          passwordHash: data.passwordHash,
+          passwordHash: data.passwordHash ?? null,
+          ...(data.role && { role: data.role }),
+          ...(data.mustChangePassword !== undefined && { mustChangePassword: data.mustChangePassword }),
+          ...(data.emailVerifiedAt && { emailVerifiedAt: data.emailVerifiedAt }),
         },
       });
     } catch (error) {
@@ -69,6 +110,10 @@ export class UserRepository {
     } catch (error) {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         if (error.code === 'P2002') {
+          // The unique columns are email and employee_id
+          if (String(error.meta?.target).includes('employee')) {
+            throw new Error('Employee ID is already in use');
+          }
           throw new Error('User with this email already exists');
         }
         if (error.code === 'P2025') {
@@ -79,6 +124,242 @@ export class UserRepository {
     }
   }
 
+  /**
+   * Atomically increment the failed login counter
+   * @returns User - The user with the updated counter
+   */
+  async incrementFailedLoginAttempts(id: string): Promise<User> {
+    try {
+      return await prisma.user.update({
+        where: { id },
+        data: {
+          failedLoginAttempts: { increment: 1 },
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          throw new Error('User not found');
+        }
+      }
+      throw new Error(`Failed to record failed login: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record the time step of an accepted TOTP code, only if it is newer than the last one
+   * @returns boolean - False if the step (or a later one) was already used, i.e. the code is a replay
+   */
+  async recordTotpStep(id: string, step: number): Promise<boolean> {
+    try {
+      const result = await prisma.user.updateMany({
+        where: {
+          id,
+          OR: [
+            { totpLastUsedStep: null },
+            { totpLastUsedStep: { lt: step } },
+          ],
+        },
+        data: {
+          totpLastUsedStep: step,
+        },
+      });
+
+      return result.count === 1;
+    } catch (error) {
+      throw new Error(`Failed to record TOTP use: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Record a sign-in, keeping the one before it so the user can see when they last signed in
+   * Written with SQL so the shift from lastLoginAt happens atomically; updatedAt is left alone
+   */
+  async recordLogin(id: string): Promise<void> {
+    try {
+      await prisma.$executeRaw`
+        UPDATE users
+        SET previous_login_at = last_login_at, last_login_at = ${new Date()}, login_count = login_count + 1
+        WHERE id = ${id}
+      `;
+    } catch (error) {
+      throw new Error(`Failed to record login: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Mark the account deleted and disable it, so every sign-in path refuses it until it is restored
+   */
+  async softDelete(id: string): Promise<User> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const user = await tx.user.findUniqueOrThrow({ where: { id } });
+
+        return tx.user.update({
+          where: { id },
+          data: {
+            deletedAt: new Date(),
+            isActive: false,
+            activeBeforeDeletion: user.isActive,
+          },
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          throw new Error('User not found');
+        }
+      }
+      throw new Error(`Failed to delete user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Undo softDelete, leaving the account enabled or disabled as it was before the deletion
+   * @returns User - Or null if the account is not deleted or has already been purged
+   */
+  async restore(id: string): Promise<User | null> {
+    try {
+      const user = await prisma.user.findUnique({ where: { id } });
+      if (!user) {
+        return null;
+      }
+
+      // Still guarded, against a purge that starts after the read
+      const result = await prisma.user.updateMany({
+        where: {
+          id,
+          deletedAt: { not: null },
+          purgedAt: null,
+        },
+        data: {
+          deletedAt: null,
+          // Accounts deleted before this was recorded were all enabled
+          isActive: user.activeBeforeDeletion ?? true,
+          activeBeforeDeletion: null,
+        },
+      });
+      if (result.count === 0) {
+        return null;
+      }
+
+      return await prisma.user.findUnique({ where: { id } });
+    } catch (error) {
+      throw new Error(`Failed to restore user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Deleted accounts whose grace period ended, oldest deletion first
+   */
+  async findDueForPurge(deletedBefore: Date, take: number): Promise<User[]> {
+    try {
+      return await prisma.user.findMany({
+        where: {
+          deletedAt: { lte: deletedBefore },
+          purgedAt: null,
+        },
+        orderBy: { deletedAt: 'asc' },
+        take,
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch users due for purge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove everything the account owns and strip its personal data, in one transaction
+   * The row itself stays, with `anonymizedEmail`, so records that reference it keep resolving
+   */
+  async anonymize(id: string, anonymizedEmail: string): Promise<User> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const user = await tx.user.findUniqueOrThrow({ where: { id } });
+
+        await tx.session.deleteMany({ where: { userId: id } });
+        await tx.passwordResetToken.deleteMany({ where: { userId: id } });
+        await tx.emailVerificationToken.deleteMany({ where: { userId: id } });
+        await tx.recoveryCode.deleteMany({ where: { userId: id } });
+        await tx.mfaChallenge.deleteMany({ where: { userId: id } });
+        await tx.apiKey.deleteMany({ where: { userId: id } });
+        await tx.userIdentity.deleteMany({ where: { userId: id } });
+        await tx.passwordHistory.deleteMany({ where: { userId: id } });
+        await tx.departmentMembership.deleteMany({ where: { userId: id } });
+        await tx.chatQuery.deleteMany({ where: { userId: id } });
+        // Files go with their datasets; datasets are personal data even when shared with a department
+        await tx.dataset.deleteMany({ where: { ownerId: id } });
+        await tx.invitation.deleteMany({ where: { email: user.email } });
+        // Audit events are kept for the record but no longer name the person
+        await tx.auditEvent.updateMany({ where: { actorId: id }, data: { actorEmail: null } });
+
+        // Nor may their metadata, which records addresses the account had and, without an actor,
+        // failed logins and reset requests for them
+        const ownEvents = await tx.auditEvent.findMany({
+          where: { OR: [{ actorId: id }, { targetType: AUDIT_TARGET_TYPES.USER, targetId: id }] },
+          select: { id: true, targetId: true, metadata: true },
+        });
+        const emails = new Set([
+          user.email,
+          ...ownEvents.filter((event) => event.targetId === id).flatMap((event) => collectAuditedEmails(event.metadata)),
+        ]);
+        const mentioningEvents = await tx.auditEvent.findMany({
+          where: {
+            OR: ACCOUNT_DELETION_CONFIG.AUDIT_EMAIL_METADATA_KEYS.flatMap((key) =>
+              [...emails].map((email) => ({ metadata: { path: [key], equals: email } }))
+            ),
+          },
+          select: { id: true, metadata: true },
+        });
+
+        const personalData = new Set(
+          [...emails, user.displayNameZh, user.displayNameEn, user.employeeId, user.phone].filter(
+            (value): value is string => Boolean(value)
+          )
+        );
+        const events = new Map([...ownEvents, ...mentioningEvents].map((event) => [event.id, event.metadata]));
+        for (const [eventId, metadata] of events) {
+          const redacted = redactAuditMetadata(metadata, personalData);
+          if (JSON.stringify(redacted) !== JSON.stringify(metadata)) {
+            await tx.auditEvent.update({
+              where: { id: eventId },
+              data: { metadata: redacted ?? Prisma.JsonNull },
+            });
+          }
+        }
+
+        return tx.user.update({
+          where: { id },
+          data: {
+            email: anonymizedEmail,
+            passwordHash: null,
+            isActive: false,
+            mustChangePassword: false,
+            failedLoginAttempts: 0,
+            lockedUntil: null,
+            totpSecret: null,
+            totpEnabledAt: null,
+            totpLastUsedStep: null,
+            displayNameZh: null,
+            displayNameEn: null,
+            employeeId: null,
+            phone: null,
+            defaultDatasetId: null,
+            lastLoginAt: null,
+            previousLoginAt: null,
+            purgedAt: new Date(),
+          },
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          throw new Error('User not found');
+        }
+      }
+      throw new Error(`Failed to anonymize user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async delete(id: string): Promise<User> {
     try {
       return await prisma.user.delete({
@@ -94,24 +375,46 @@ export class UserRepository {
     }
   }
 
-  async findAll(): Promise<User[]> {
+  async findAll(options: FindAllUsersOptions = {}): Promise<User[]> {
     try {
+      const { skip, take, ...filter } = options;
+
       return await prisma.user.findMany({
+        where: this.buildWhere(filter),
         orderBy: { createdAt: 'desc' },
+        skip,
+        take,
       });
     } catch (error) {
       throw new Error(`Failed to fetch users: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async count(): Promise<number> {
+  async count(filter: UserFilter = {}): Promise<number> {
     try {
-      return await prisma.user.count();
+      return await prisma.user.count({
+        where: this.buildWhere(filter),
+      });
     } catch (error) {
       throw new Error(`Failed to count users: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private buildWhere(filter: UserFilter): Prisma.UserWhereInput {
+    return {
+      ...(filter.search && {
+        email: { contains: filter.search, mode: 'insensitive' },
+      }),
+      ...(filter.role && { role: filter.role }),
+      ...(filter.isActive !== undefined && { isActive: filter.isActive }),
+      ...(filter.deleted !== undefined && { deletedAt: filter.deleted ? { not: null } : null }),
+      ...(filter.createdSince && { createdAt: { gte: filter.createdSince } }),
+      ...(filter.loggedInSince && { lastLoginAt: { gte: filter.loggedInSince } }),
+      // Purged accounts are only kept as anonymous placeholders
+      purgedAt: null,
+    };
+  }
+
   private isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
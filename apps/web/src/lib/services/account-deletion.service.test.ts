@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AccountDeletionService } from './account-deletion.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { datasetRepository } from '../repositories/dataset.repository';
+import { SessionService, SESSION_REVOKE_REASONS } from './session.service';
+import { AuditService } from './audit.service';
+import { FileUploadService } from './file-upload.service';
+import { ADMIN_ERROR_MESSAGES, AUDIT_ACTIONS, ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+    softDelete: vi.fn(),
+    restore: vi.fn(),
+    findDueForPurge: vi.fn(),
+    anonymize: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/dataset.repository', () => ({
+  datasetRepository: {
+    findIdsByOwner: vi.fn(),
+  },
+}));
+
+vi.mock('./file-upload.service', () => ({
+  FileUploadService: {
+    deleteDatasetFiles: vi.fn(),
+  },
+}));
+
+vi.mock('./session.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./session.service')>();
+  return {
+    ...actual,
+    SessionService: {
+      revokeAllSessions: vi.fn(),
+    },
+  };
+});
+
+vi.mock('./audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+describe('AccountDeletionService', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('scheduleDeletion', () => {
+    it('should soft-delete the account, sign it out and report when it will be purged', async () => {
+      vi.stubEnv('ACCOUNT_DELETION_GRACE_DAYS', '14');
+      const deletedAt = new Date('2025-03-01T00:00:00Z');
+      vi.mocked(mockUserRepository.softDelete).mockResolvedValue(buildUser({ isActive: false, deletedAt }));
+
+      const { purgeAfter } = await AccountDeletionService.scheduleDeletion('user-123');
+
+      expect(purgeAfter).toEqual(new Date(deletedAt.getTime() + 14 * DAY_MS));
+      expect(mockUserRepository.softDelete).toHaveBeenCalledWith('user-123');
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user-123', SESSION_REVOKE_REASONS.ACCOUNT_DELETED);
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore an account within its grace period', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser({ isActive: false, deletedAt: new Date() }));
+      vi.mocked(mockUserRepository.restore).mockResolvedValue(buildUser());
+
+      const user = await AccountDeletionService.restore('user-123');
+
+      expect(user).toMatchObject({ isActive: true, deletedAt: null });
+      expect(mockUserRepository.restore).toHaveBeenCalledWith('user-123');
+    });
+
+    it('should return the account as the repository restored it', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser({ isActive: false, deletedAt: new Date() }));
+      vi.mocked(mockUserRepository.restore).mockResolvedValue(buildUser({ isActive: false }));
+
+      const user = await AccountDeletionService.restore('user-123');
+
+      expect(user).toMatchObject({ isActive: false, deletedAt: null });
+    });
+
+    it('should reject unknown, live and purged accounts', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(null);
+      await expect(AccountDeletionService.restore('user-404')).rejects.toThrow(ERROR_MESSAGES.USER_NOT_FOUND);
+
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(buildUser());
+      await expect(AccountDeletionService.restore('user-123')).rejects.toThrow(ADMIN_ERROR_MESSAGES.USER_NOT_DELETED);
+
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(
+        buildUser({ deletedAt: new Date(), purgedAt: new Date() })
+      );
+      await expect(AccountDeletionService.restore('user-123')).rejects.toThrow(ADMIN_ERROR_MESSAGES.USER_PURGED);
+
+      expect(mockUserRepository.restore).not.toHaveBeenCalled();
+    });
+
+    it('should report a purge that won the race', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser({ deletedAt: new Date() }));
+      vi.mocked(mockUserRepository.restore).mockResolvedValue(null);
+
+      await expect(AccountDeletionService.restore('user-123')).rejects.toThrow(ADMIN_ERROR_MESSAGES.USER_PURGED);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+
+    it('should anonymize accounts deleted before the grace period and audit each one', async () => {
+      vi.mocked(mockUserRepository.findDueForPurge).mockResolvedValue([
+        buildUser({ id: 'user-1', deletedAt: new Date('2025-04-01') }),
+      ]);
+      vi.mocked(datasetRepository.findIdsByOwner).mockResolvedValueOnce(['dataset-1', 'dataset-2']);
+
+      const result = await AccountDeletionService.purgeExpired(now);
+
+      expect(result).toEqual({ purged: 1, failed: 0 });
+      expect(mockUserRepository.findDueForPurge).toHaveBeenCalledWith(
+        new Date(now.getTime() - 30 * DAY_MS),
+        expect.any(Number)
+      );
+      expect(mockUserRepository.anonymize).toHaveBeenCalledWith('user-1', 'deleted-user-1@deleted.invalid');
+      expect(FileUploadService.deleteDatasetFiles).toHaveBeenCalledWith(['dataset-1', 'dataset-2']);
+      expect(vi.mocked(FileUploadService.deleteDatasetFiles).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(mockUserRepository.anonymize).mock.invocationCallOrder[0]
+      );
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AUDIT_ACTIONS.ACCOUNT_PURGED, actor: null, targetId: 'user-1' })
+      );
+    });
+
+    it('should keep going when one account fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(mockUserRepository.findDueForPurge).mockResolvedValue([
+        buildUser({ id: 'user-1', deletedAt: new Date('2025-04-01') }),
+        buildUser({ id: 'user-2', deletedAt: new Date('2025-04-02') }),
+      ]);
+      vi.mocked(mockUserRepository.anonymize).mockRejectedValueOnce(new Error('Failed to anonymize user: timeout'));
+
+      const result = await AccountDeletionService.purgeExpired(now);
+
+      expect(result).toEqual({ purged: 1, failed: 1 });
+      expect(mockUserRepository.anonymize).toHaveBeenCalledTimes(2);
+      expect(AuditService.record).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
+    });
+
+    it('should leave an account due when its stored files cannot be deleted', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(mockUserRepository.findDueForPurge).mockResolvedValue([
+        buildUser({ id: 'user-1', deletedAt: new Date('2025-04-01') }),
+      ]);
+      vi.mocked(datasetRepository.findIdsByOwner).mockResolvedValueOnce(['dataset-1']);
+      vi.mocked(FileUploadService.deleteDatasetFiles).mockRejectedValueOnce(new Error('storage unavailable'));
+
+      const result = await AccountDeletionService.purgeExpired(now);
+
+      expect(result).toEqual({ purged: 0, failed: 1 });
+      expect(mockUserRepository.anonymize).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should reject an invalid grace period', async () => {
+      vi.stubEnv('ACCOUNT_DELETION_GRACE_DAYS', 'thirty');
+
+      await expect(AccountDeletionService.purgeExpired(now)).rejects.toThrow(
+        'Invalid ACCOUNT_DELETION_GRACE_DAYS: thirty'
+      );
+      expect(mockUserRepository.findDueForPurge).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { User } from '@prisma/client';
+import { userRepository } from '../repositories/user.repository';
+import { datasetRepository } from '../repositories/dataset.repository';
+import { SessionService, SESSION_REVOKE_REASONS } from './session.service';
+import { AuditService } from './audit.service';
+import { FileUploadService } from './file-upload.service';
+import { getPurgeCutoff, getPurgeDate } from '../auth/account-deletion';
+import {
+  ACCOUNT_DELETION_CONFIG,
+  ADMIN_ERROR_MESSAGES,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  ERROR_MESSAGES,
+} from '../auth/constants';
+
+export interface ScheduledDeletion {
+  user: User;
+  purgeAfter: Date;
+}
+
+export interface PurgeResult {
+  purged: number;
+  failed: number;
+}
+
+export class AccountDeletionService {
+  /**
+   * Delete an account without losing its data yet
+   * The account is disabled and signed out everywhere; an administrator can restore it
+   * until the grace period ends, after which purgeExpired anonymizes it
+   */
+  static async scheduleDeletion(userId: string): Promise<ScheduledDeletion> {
+    const user = await userRepository.softDelete(userId);
+    await SessionService.revokeAllSessions(userId, SESSION_REVOKE_REASONS.ACCOUNT_DELETED);
+
+    return {
+      user,
+      purgeAfter: getPurgeDate(user.deletedAt ?? new Date()),
+    };
+  }
+
+  /**
+   * Bring back an account deleted within the grace period
+   * @throws Error with ERROR_MESSAGES.USER_NOT_FOUND, ADMIN_ERROR_MESSAGES.USER_NOT_DELETED or USER_PURGED
+   */
+  static async restore(userId: string): Promise<User> {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    }
+    if (user.purgedAt) {
+      throw new Error(ADMIN_ERROR_MESSAGES.USER_PURGED);
+    }
+    if (!user.deletedAt) {
+      throw new Error(ADMIN_ERROR_MESSAGES.USER_NOT_DELETED);
+    }
+
+    // Guarded against a purge run that started after the checks above
+    const restored = await userRepository.restore(userId);
+    if (!restored) {
+      throw new Error(ADMIN_ERROR_MESSAGES.USER_PURGED);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Anonymize accounts whose grace period has ended, one batch per call
+   * A failure on one account is logged and the rest of the batch still runs
+   */
+  static async purgeExpired(now: Date = new Date()): Promise<PurgeResult> {
+    const due = await userRepository.findDueForPurge(getPurgeCutoff(now), ACCOUNT_DELETION_CONFIG.PURGE_BATCH_SIZE);
+
+    const result: PurgeResult = { purged: 0, failed: 0 };
+
+    for (const user of due) {
+      try {
+        // Anonymizing deletes the user's datasets, so their stored files go first;
+        // if storage fails the account stays due and the next run retries it
+        const datasetIds = await datasetRepository.findIdsByOwner(user.id);
+        await FileUploadService.deleteDatasetFiles(datasetIds);
+        await userRepository.anonymize(
+          user.id,
+          `deleted-${user.id}@${ACCOUNT_DELETION_CONFIG.ANONYMIZED_EMAIL_DOMAIN}`
+        );
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.ACCOUNT_PURGED,
+          actor: null,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: user.id,
+          metadata: { deletedAt: user.deletedAt?.toISOString() ?? null },
+        });
+
+        result.purged += 1;
+      } catch (error) {
+        console.error(`Error purging deleted account ${user.id}:`, error);
+        result.failed += 1;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ApiKey } from '@prisma/client';
+import { ApiKeyService } from './api-key.service';
+import { apiKeyRepository as mockApiKeyRepository } from '../repositories/api-key.repository';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { hashToken } from '../auth/secure-token';
+import { API_KEY_CONFIG, API_KEY_ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/api-key.repository', () => ({
+  apiKeyRepository: {
+    create: vi.fn(async (data) => ({ id: 'key-1', ...data })),
+    findByPrefix: vi.fn(),
+    findAllForUser: vi.fn(),
+    countActiveForUser: vi.fn(),
+    revoke: vi.fn(),
+    recordUse: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+  },
+}));
+
+const PREFIX = 'llk_0123456789ab';
+const SECRET = 'test-secret';
+const KEY = `${PREFIX}_${SECRET}`;
+
+describe('ApiKeyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const buildApiKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+    id: 'key-1',
+    userId: 'user-123',
+    name: 'Nightly import',
+    prefix: PREFIX,
+    keyHash: hashToken(SECRET),
+    scopes: ['datasets:read', 'datasets:write'],
+    expiresAt: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    revokedAt: null,
+    createdAt: new Date('2025-01-01'),
+    ...overrides,
+  });
+
+  describe('create', () => {
+    it('should return the full key once and store only its hash', async () => {
+      vi.mocked(mockApiKeyRepository.countActiveForUser).mockResolvedValue(0);
+
+      const { apiKey, key } = await ApiKeyService.create(buildUser({ role: 'ESTIMATOR' }), {
+        name: 'Nightly import',
+        scopes: ['datasets:read', 'datasets:read', 'prices:read'],
+        expiresInDays: 30,
+      });
+
+      expect(key).toMatch(/^llk_[0-9a-f]{12}_[A-Za-z0-9_-]+$/);
+      expect(key.startsWith(`${apiKey.prefix}_`)).toBe(true);
+
+      const stored = vi.mocked(mockApiKeyRepository.create).mock.calls[0][0];
+      expect(stored.keyHash).toBe(hashToken(key.slice(apiKey.prefix.length + 1)));
+      expect(stored.scopes).toEqual(['datasets:read', 'prices:read']);
+      expect(stored.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should not grant scopes beyond the user role', async () => {
+      await expect(
+        ApiKeyService.create(buildUser(), { name: 'Escalation', scopes: ['users:manage'] })
+      ).rejects.toThrow(API_KEY_ERROR_MESSAGES.SCOPE_NOT_ALLOWED);
+      expect(mockApiKeyRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the per-user key limit', async () => {
+      vi.mocked(mockApiKeyRepository.countActiveForUser).mockResolvedValue(API_KEY_CONFIG.MAX_ACTIVE_KEYS_PER_USER);
+
+      await expect(
+        ApiKeyService.create(buildUser(), { name: 'One too many', scopes: ['datasets:read'] })
+      ).rejects.toThrow(API_KEY_ERROR_MESSAGES.LIMIT_REACHED);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should throw when the key is not found for the user', async () => {
+      vi.mocked(mockApiKeyRepository.revoke).mockResolvedValue(false);
+
+      await expect(ApiKeyService.revoke('user-123', 'key-1')).rejects.toThrow(API_KEY_ERROR_MESSAGES.NOT_FOUND);
+      expect(mockApiKeyRepository.revoke).toHaveBeenCalledWith('key-1', 'user-123');
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should return the owner and record the use', async () => {
+      const user = buildUser({ role: 'ESTIMATOR' });
+      vi.mocked(mockApiKeyRepository.findByPrefix).mockResolvedValue(buildApiKey());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(user);
+
+      const result = await ApiKeyService.authenticate(KEY, '10.0.0.1');
+
+      expect(result.user).toBe(user);
+      expect(result.permissions).toEqual(['datasets:read', 'datasets:write']);
+      expect(mockApiKeyRepository.findByPrefix).toHaveBeenCalledWith(PREFIX);
+      expect(mockApiKeyRepository.recordUse).toHaveBeenCalledWith('key-1', '10.0.0.1');
+    });
+
+    it('should drop scopes the owner role no longer grants', async () => {
+      vi.mocked(mockApiKeyRepository.findByPrefix).mockResolvedValue(buildApiKey());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser({ role: 'VIEWER' }));
+
+      const result = await ApiKeyService.authenticate(KEY, null);
+
+      expect(result.permissions).toEqual(['datasets:read']);
+    });
+
+    it('should not write the last use again within the update interval', async () => {
+      vi.mocked(mockApiKeyRepository.findByPrefix).mockResolvedValue(buildApiKey({ lastUsedAt: new Date() }));
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser());
+
+      await ApiKeyService.authenticate(KEY, '10.0.0.1');
+
+      expect(mockApiKeyRepository.recordUse).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', buildApiKey({ revokedAt: new Date() })],
+      ['expired', buildApiKey({ expiresAt: new Date(Date.now() - 1000) })],
+      ['mismatched', buildApiKey({ keyHash: hashToken('other-secret') })],
+    ])('should reject %s keys', async (_label, apiKey) => {
+      vi.mocked(mockApiKeyRepository.findByPrefix).mockResolvedValue(apiKey);
+
+      await expect(ApiKeyService.authenticate(KEY, null)).rejects.toThrow(API_KEY_ERROR_MESSAGES.INVALID);
+      expect(mockUserRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed keys without a lookup', async () => {
+      await expect(ApiKeyService.authenticate('not-a-key', null)).rejects.toThrow(API_KEY_ERROR_MESSAGES.INVALID);
+      expect(mockApiKeyRepository.findByPrefix).not.toHaveBeenCalled();
+    });
+
+    it('should reject keys of disabled accounts', async () => {
+      vi.mocked(mockApiKeyRepository.findByPrefix).mockResolvedValue(buildApiKey());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser({ isActive: false }));
+
+      await expect(ApiKeyService.authenticate(KEY, null)).rejects.toThrow(API_KEY_ERROR_MESSAGES.INVALID);
+      expect(mockApiKeyRepository.recordUse).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { randomBytes } from 'crypto';
+import { apiKeyRepository } from '../repositories/api-key.repository';
+import { userRepository } from '../repositories/user.repository';
+import { generateSecureToken, hashToken, compareTokenHashes } from '../auth/secure-token';
+import { getRolePermissions, type Permission, type Role } from '../auth/permissions';
+import { API_KEY_CONFIG, API_KEY_ERROR_MESSAGES } from '../auth/constants';
+import { ApiKey, User } from '@prisma/client';
+
+type ApiKeyOwner = Pick<User, 'id' | 'role'>;
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scopes: Permission[];
+  expiresInDays?: number;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  // Full key, returned once at creation and never stored
+  key: string;
+}
+
+export interface ApiKeyAuthentication {
+  apiKey: ApiKey;
+  user: User;
+  // Scopes the key still has, since the owner's role may have lost some since creation
+  permissions: Permission[];
+}
+
+const KEY_PATTERN = new RegExp(
+  `^(${API_KEY_CONFIG.TOKEN_PREFIX}_[0-9a-f]{${API_KEY_CONFIG.ID_BYTES * 2}})_([A-Za-z0-9_-]+)$`
+);
+
+/**
+ * Split a presented key into the public prefix used for lookup and the secret part
+ */
+function parseKey(key: string): { prefix: string; secret: string } | null {
+  const match = KEY_PATTERN.exec(key.trim());
+  return match ? { prefix: match[1], secret: match[2] } : null;
+}
+
+function restrictToRole(scopes: string[], role: Role): Permission[] {
+  const rolePermissions = getRolePermissions(role);
+  return rolePermissions.filter((permission) => scopes.includes(permission));
+}
+
+export class ApiKeyService {
+  /**
+   * Create a key for the user's scripts
+   * @returns CreatedApiKey - The stored record and the full key, shown to the user once
+   * @throws Error with API_KEY_ERROR_MESSAGES.SCOPE_NOT_ALLOWED or LIMIT_REACHED
+   */
+  static async create(user: ApiKeyOwner, options: CreateApiKeyOptions): Promise<CreatedApiKey> {
+    const scopes = Array.from(new Set(options.scopes));
+    if (restrictToRole(scopes, user.role).length !== scopes.length) {
+      throw new Error(API_KEY_ERROR_MESSAGES.SCOPE_NOT_ALLOWED);
+    }
+
+    const activeKeys = await apiKeyRepository.countActiveForUser(user.id);
+    if (activeKeys >= API_KEY_CONFIG.MAX_ACTIVE_KEYS_PER_USER) {
+      throw new Error(API_KEY_ERROR_MESSAGES.LIMIT_REACHED);
+    }
+
+    const prefix = `${API_KEY_CONFIG.TOKEN_PREFIX}_${randomBytes(API_KEY_CONFIG.ID_BYTES).toString('hex')}`;
+    const secret = generateSecureToken(API_KEY_CONFIG.SECRET_BYTES);
+    const expiresAt = options.expiresInDays
+      ? new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    const apiKey = await apiKeyRepository.create({
+      userId: user.id,
+      name: options.name,
+      prefix,
+      keyHash: hashToken(secret),
+      scopes,
+      expiresAt,
+    });
+
+    return { apiKey, key: `${prefix}_${secret}` };
+  }
+
+  static async list(userId: string): Promise<ApiKey[]> {
+    return await apiKeyRepository.findAllForUser(userId);
+  }
+
+  /**
+   * @throws Error with API_KEY_ERROR_MESSAGES.NOT_FOUND if the key is not the user's or already revoked
+   */
+  static async revoke(userId: string, apiKeyId: string): Promise<void> {
+    const revoked = await apiKeyRepository.revoke(apiKeyId, userId);
+    if (!revoked) {
+      throw new Error(API_KEY_ERROR_MESSAGES.NOT_FOUND);
+    }
+  }
+
+  /**
+   * Resolve a presented key to its owner
+   * @throws Error with API_KEY_ERROR_MESSAGES.INVALID for unknown, revoked or expired keys and inactive owners
+   */
+  static async authenticate(key: string, ipAddress: string | null): Promise<ApiKeyAuthentication> {
+    const parsed = parseKey(key);
+    if (!parsed) {
+      throw new Error(API_KEY_ERROR_MESSAGES.INVALID);
+    }
+
+    const apiKey = await apiKeyRepository.findByPrefix(parsed.prefix);
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt <= new Date()) ||
+      !compareTokenHashes(apiKey.keyHash, hashToken(parsed.secret))
+    ) {
+      throw new Error(API_KEY_ERROR_MESSAGES.INVALID);
+    }
+
+    const user = await userRepository.findById(apiKey.userId);
+    if (!user || !user.isActive) {
+      throw new Error(API_KEY_ERROR_MESSAGES.INVALID);
+    }
+
+    const lastUsedAt = apiKey.lastUsedAt?.getTime() ?? 0;
+    if (Date.now() - lastUsedAt >= API_KEY_CONFIG.LAST_USED_UPDATE_INTERVAL_MS) {
+      await apiKeyRepository.recordUse(apiKey.id, ipAddress);
+    }
+
+    return {
+      apiKey,
+      user,
+      permissions: restrictToRole(apiKey.scopes, user.role),
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AuditEvent } from '@prisma/client';
+import { AuditService } from './audit.service';
+import { auditEventRepository as mockAuditEventRepository } from '../repositories/audit-event.repository';
+import { AUDIT_ACTIONS, AUDIT_CONFIG } from '../auth/constants';
+import { runAsImpersonator } from '../auth/impersonation';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/audit-event.repository', () => ({
+  auditEventRepository: {
+    create: vi.fn(),
+    findAll: vi.fn(),
+    count: vi.fn(),
+  },
+}));
+
+describe('AuditService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const buildEvent = (overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+    id: 'event-1',
+    actorId: 'user-123',
+    actorEmail: 'test@example.com',
+    action: AUDIT_ACTIONS.LOGIN_SUCCEEDED,
+    targetType: 'session',
+    targetId: 'session-123',
+    ipAddress: '10.0.0.1',
+    userAgent: 'Mozilla/5.0',
+    metadata: { method: 'password' },
+    impersonatorId: null,
+    createdAt: new Date('2025-01-01T08:00:00Z'),
+    ...overrides,
+  });
+
+  describe('record', () => {
+    it('should store the actor id and email', async () => {
+      await AuditService.record({
+        action: AUDIT_ACTIONS.LOGOUT,
+        actor: buildUser(),
+        ipAddress: '10.0.0.1',
+        userAgent: null,
+      });
+
+      expect(mockAuditEventRepository.create).toHaveBeenCalledWith({
+        action: AUDIT_ACTIONS.LOGOUT,
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+        targetType: undefined,
+        targetId: undefined,
+        ipAddress: '10.0.0.1',
+        userAgent: null,
+        metadata: undefined,
+        impersonatorId: null,
+      });
+    });
+
+    it('should tag events recorded while an administrator impersonates the actor', async () => {
+      await runAsImpersonator('admin-1', () => AuditService.record({
+        action: AUDIT_ACTIONS.LOGOUT,
+        actor: buildUser(),
+      }));
+
+      expect(mockAuditEventRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'user-123', impersonatorId: 'admin-1' })
+      );
+    });
+
+    it('should not throw when the event cannot be stored', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(mockAuditEventRepository.create).mockRejectedValue(new Error('Database error'));
+
+      await expect(AuditService.record({ action: AUDIT_ACTIONS.LOGIN_FAILED })).resolves.toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('list', () => {
+    it('should page through the filtered events', async () => {
+      vi.mocked(mockAuditEventRepository.findAll).mockResolvedValue([buildEvent()]);
+      vi.mocked(mockAuditEventRepository.count).mockResolvedValue(51);
+
+      const filter = { action: AUDIT_ACTIONS.LOGIN_SUCCEEDED };
+      const result = await AuditService.list(filter, 2, 50);
+
+      expect(result.total).toBe(51);
+      expect(mockAuditEventRepository.findAll).toHaveBeenCalledWith({ ...filter, skip: 50, take: 50 });
+      expect(mockAuditEventRepository.count).toHaveBeenCalledWith(filter);
+    });
+  });
+
+  describe('listLoginHistory', () => {
+    it('should only fetch sign-in events the user was the actor of', async () => {
+      vi.mocked(mockAuditEventRepository.findAll).mockResolvedValue([buildEvent()]);
+
+      await AuditService.listLoginHistory('user-123');
+
+      expect(mockAuditEventRepository.findAll).toHaveBeenCalledWith({
+        actorId: 'user-123',
+        actions: expect.arrayContaining([AUDIT_ACTIONS.LOGIN_SUCCEEDED, AUDIT_ACTIONS.LOGIN_FAILED]),
+        take: AUDIT_CONFIG.LOGIN_HISTORY_LIMIT,
+      });
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('should write a header row and one row per event', async () => {
+      vi.mocked(mockAuditEventRepository.findAll).mockResolvedValue([buildEvent()]);
+
+      const { csv, truncated } = await AuditService.exportCsv({});
+      const lines = csv.trimEnd().split('\r\n');
+
+      expect(truncated).toBe(false);
+      expect(lines[0]).toBe('createdAt,action,actorId,actorEmail,targetType,targetId,ipAddress,userAgent,metadata,impersonatorId');
+      expect(lines[1]).toBe(
+        '2025-01-01T08:00:00.000Z,auth.login.succeeded,user-123,test@example.com,session,session-123,10.0.0.1,Mozilla/5.0,"{""method"":""password""}",'
+      );
+    });
+
+    it('should quote separators and neutralise spreadsheet formulas', async () => {
+      vi.mocked(mockAuditEventRepository.findAll).mockResolvedValue([
+        buildEvent({ actorEmail: '=HYPERLINK("x")', userAgent: 'Agent, with comma', metadata: null }),
+      ]);
+
+      const { csv } = await AuditService.exportCsv({});
+      const row = csv.trimEnd().split('\r\n')[1];
+
+      expect(row).toContain(`"'=HYPERLINK(""x"")"`);
+      expect(row).toContain('"Agent, with comma"');
+      expect(row.endsWith(',')).toBe(true);
+    });
+
+    it('should report when the export hit the row limit', async () => {
+      const events = Array.from({ length: AUDIT_CONFIG.EXPORT_MAX_ROWS + 1 }, () => buildEvent());
+      vi.mocked(mockAuditEventRepository.findAll).mockResolvedValue(events);
+
+      const { csv, truncated } = await AuditService.exportCsv({});
+
+      expect(truncated).toBe(true);
+      expect(csv.trimEnd().split('\r\n')).toHaveLength(AUDIT_CONFIG.EXPORT_MAX_ROWS + 1);
+      expect(mockAuditEventRepository.findAll).toHaveBeenCalledWith({ take: AUDIT_CONFIG.EXPORT_MAX_ROWS + 1 });
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { AuditEvent, Prisma, User } from '@prisma/client';
+import { auditEventRepository, type AuditEventFilter } from '../repositories/audit-event.repository';
+import { AUDIT_ACTIONS, AUDIT_CONFIG, type AuditAction } from '../auth/constants';
+import { getActiveImpersonatorId } from '../auth/impersonation';
+
+export interface AuditEventInput {
+  action: AuditAction;
+  actor?: Pick<User, 'id' | 'email'> | null;
+  targetType?: string;
+  targetId?: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  metadata?: Prisma.InputJsonObject;
+  // Defaults to the administrator impersonating the user of the current request
+  impersonatorId?: string | null;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+}
+
+export interface AuditCsvExport {
+  csv: string;
+  // True when more events matched than AUDIT_CONFIG.EXPORT_MAX_ROWS
+  truncated: boolean;
+}
+
+// Events shown to users as their sign-in history
+const LOGIN_HISTORY_ACTIONS: AuditAction[] = [
+  AUDIT_ACTIONS.LOGIN_SUCCEEDED,
+  AUDIT_ACTIONS.LOGIN_FAILED,
+  AUDIT_ACTIONS.LOGOUT,
+  AUDIT_ACTIONS.LOGOUT_ALL,
+  AUDIT_ACTIONS.SESSION_REVOKED,
+];
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'action',
+  'actorId',
+  'actorEmail',
+  'targetType',
+  'targetId',
+  'ipAddress',
+  'userAgent',
+  'metadata',
+  'impersonatorId',
+] as const;
+
+/**
+ * Quote a CSV field when needed, and neutralise values a spreadsheet would run as a formula
+ */
+function escapeCsvField(value: string): string {
+  const safeValue = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue;
+}
+
+function toCsvRow(event: AuditEvent): string {
+  const fields: Record<(typeof CSV_COLUMNS)[number], string> = {
+    createdAt: event.createdAt.toISOString(),
+    action: event.action,
+    actorId: event.actorId ?? '',
+    actorEmail: event.actorEmail ?? '',
+    targetType: event.targetType ?? '',
+    targetId: event.targetId ?? '',
+    ipAddress: event.ipAddress ?? '',
+    userAgent: event.userAgent ?? '',
+    metadata: event.metadata === null ? '' : JSON.stringify(event.metadata),
+    impersonatorId: event.impersonatorId ?? '',
+  };
+
+  return CSV_COLUMNS.map((column) => escapeCsvField(fields[column])).join(',');
+}
+
+export class AuditService {
+  /**
+   * Append an event to the audit log
+   * Failures are logged rather than thrown, so a logging outage never blocks sign-in or the action itself
+   * Events recorded while an administrator impersonates the actor are tagged with the administrator
+   */
+  static async record(input: AuditEventInput): Promise<void> {
+    try {
+      await auditEventRepository.create({
+        action: input.action,
+        actorId: input.actor?.id,
+        actorEmail: input.actor?.email,
+        targetType: input.targetType,
+        targetId: input.targetId,
+        ipAddress: input.ipAddress,
+        userAgent: input.userAgent,
+        metadata: input.metadata,
+        impersonatorId: input.impersonatorId === undefined ? getActiveImpersonatorId() : input.impersonatorId,
+      });
+    } catch (error) {
+      console.error(`Error recording audit event ${input.action}:`, error);
+    }
+  }
+
+  /**
+   * List events, newest first
+   */
+  static async list(filter: AuditEventFilter, page: number, pageSize: number): Promise<AuditEventPage> {
+    const [events, total] = await Promise.all([
+      auditEventRepository.findAll({
+        ...filter,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      auditEventRepository.count(filter),
+    ]);
+
+    return { events, total };
+  }
+
+  /**
+   * The user's most recent sign-ins, failed attempts and sign-outs, newest first
+   * Failed attempts are only included when the email matched the account
+   */
+  static async listLoginHistory(userId: string, limit: number = AUDIT_CONFIG.LOGIN_HISTORY_LIMIT): Promise<AuditEvent[]> {
+    return auditEventRepository.findAll({
+      actorId: userId,
+      actions: LOGIN_HISTORY_ACTIONS,
+      take: limit,
+    });
+  }
+
+  /**
+   * Render matching events as CSV, newest first, capped at AUDIT_CONFIG.EXPORT_MAX_ROWS
+   */
+  static async exportCsv(filter: AuditEventFilter): Promise<AuditCsvExport> {
+    // Fetch one extra row to know whether the export was cut short
+    const events = await auditEventRepository.findAll({
+      ...filter,
+      take: AUDIT_CONFIG.EXPORT_MAX_ROWS + 1,
+    });
+    const truncated = events.length > AUDIT_CONFIG.EXPORT_MAX_ROWS;
+
+    const rows = events.slice(0, AUDIT_CONFIG.EXPORT_MAX_ROWS).map(toCsvRow);
+
+    return {
+      csv: [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n',
+      truncated,
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { DataExportService } from './data-export.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { departmentRepository as mockDepartmentRepository } from '../repositories/department.repository';
+import { userIdentityRepository as mockUserIdentityRepository } from '../repositories/user-identity.repository';
+import { apiKeyRepository as mockApiKeyRepository } from '../repositories/api-key.repository';
+import { sessionRepository as mockSessionRepository } from '../repositories/session.repository';
+import { auditEventRepository as mockAuditEventRepository } from '../repositories/audit-event.repository';
+import { chatQueryRepository as mockChatQueryRepository } from '../repositories/chat-query.repository';
+import { datasetRepository as mockDatasetRepository } from '../repositories/dataset.repository';
+import { AUDIT_ACTIONS, DATA_EXPORT_CONFIG, ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: { findById: vi.fn() },
+}));
+
+vi.mock('../repositories/department.repository', () => ({
+  departmentRepository: { findMembershipsForUser: vi.fn() },
+}));
+
+vi.mock('../repositories/user-identity.repository', () => ({
+  userIdentityRepository: { findAllForUser: vi.fn() },
+}));
+
+vi.mock('../repositories/api-key.repository', () => ({
+  apiKeyRepository: { findAllForUser: vi.fn() },
+}));
+
+vi.mock('../repositories/session.repository', () => ({
+  sessionRepository: { findActiveForUser: vi.fn() },
+}));
+
+vi.mock('../repositories/audit-event.repository', () => ({
+  auditEventRepository: { findAll: vi.fn() },
+}));
+
+vi.mock('../repositories/chat-query.repository', () => ({
+  chatQueryRepository: { findAllForUser: vi.fn() },
+}));
+
+vi.mock('../repositories/dataset.repository', () => ({
+  datasetRepository: { findAllForOwnerWithFiles: vi.fn() },
+}));
+
+describe('DataExportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockUserRepository.findById).mockResolvedValue(
+      buildUser({ totpSecret: 'encrypted-secret', totpEnabledAt: new Date('2025-02-01') })
+    );
+    vi.mocked(mockDepartmentRepository.findMembershipsForUser).mockResolvedValue([]);
+    vi.mocked(mockUserIdentityRepository.findAllForUser).mockResolvedValue([]);
+    vi.mocked(mockApiKeyRepository.findAllForUser).mockResolvedValue([
+      {
+        id: 'key-1',
+        userId: 'user-123',
+        name: 'Nightly import',
+        prefix: 'llk_0123456789ab',
+        keyHash: 'stored-hash',
+        scopes: ['datasets:read'],
+        expiresAt: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        revokedAt: null,
+        createdAt: new Date('2025-01-01'),
+      },
+    ]);
+    vi.mocked(mockSessionRepository.findActiveForUser).mockResolvedValue([]);
+    vi.mocked(mockAuditEventRepository.findAll).mockResolvedValue([
+      {
+        id: 'event-1',
+        actorId: 'user-123',
+        actorEmail: 'test@example.com',
+        action: AUDIT_ACTIONS.LOGIN_SUCCEEDED,
+        targetType: 'session',
+        targetId: 'session-123',
+        ipAddress: '10.0.0.1',
+        userAgent: 'Mozilla/5.0',
+        metadata: null,
+        impersonatorId: null,
+        createdAt: new Date('2025-01-02'),
+      },
+    ]);
+    vi.mocked(mockChatQueryRepository.findAllForUser).mockResolvedValue([
+      {
+        id: 'query-1',
+        userId: 'user-123',
+        datasetId: null,
+        promptTokens: 300,
+        completionTokens: 120,
+        createdAt: new Date('2025-01-03'),
+      },
+    ]);
+    vi.mocked(mockDatasetRepository.findAllForOwnerWithFiles).mockResolvedValue([
+      {
+        id: 'dataset-1',
+        name: '鋼材報價',
+        description: null,
+        ownerId: 'user-123',
+        departmentId: null,
+        visibility: 'PRIVATE',
+        tags: ['鋼材'],
+        status: 'READY',
+        createdAt: new Date('2025-01-04'),
+        updatedAt: new Date('2025-01-04'),
+        files: [
+          {
+            id: 'file-1',
+            datasetId: 'dataset-1',
+            filename: 'quote.pdf',
+            mimeType: 'application/pdf',
+            size: 2048,
+            checksum: 'abc123',
+            storageKey: 'datasets/dataset-1/quote.pdf',
+            status: 'READY',
+            error: null,
+            pageCount: 3,
+            createdAt: new Date('2025-01-05'),
+            updatedAt: new Date('2025-01-05'),
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should collect the user data without secrets', async () => {
+    const data = await DataExportService.collect('user-123');
+
+    expect(data.profile).toMatchObject({ id: 'user-123', email: 'test@example.com', twoFactorEnabled: true });
+    expect(data.apiKeys).toEqual([expect.objectContaining({ name: 'Nightly import', prefix: 'llk_0123456789ab' })]);
+    expect(data.activity).toEqual([expect.objectContaining({ action: AUDIT_ACTIONS.LOGIN_SUCCEEDED })]);
+    expect(mockAuditEventRepository.findAll).toHaveBeenCalledWith({
+      actorId: 'user-123',
+      take: DATA_EXPORT_CONFIG.MAX_ACTIVITY_EVENTS,
+    });
+    expect(data.chatQueries).toEqual([
+      { datasetId: null, promptTokens: 300, completionTokens: 120, createdAt: '2025-01-03T00:00:00.000Z' },
+    ]);
+    expect(data.datasets).toEqual([
+      expect.objectContaining({
+        name: '鋼材報價',
+        files: [
+          {
+            filename: 'quote.pdf',
+            mimeType: 'application/pdf',
+            size: 2048,
+            status: 'READY',
+            createdAt: '2025-01-05T00:00:00.000Z',
+          },
+        ],
+      }),
+    ]);
+    expect(mockDatasetRepository.findAllForOwnerWithFiles).toHaveBeenCalledWith('user-123');
+
+    const json = DataExportService.toJson(data);
+    expect(json).not.toContain('hashed-password');
+    expect(json).not.toContain('stored-hash');
+    expect(json).not.toContain('encrypted-secret');
+  });
+
+  it('should reject unknown users', async () => {
+    vi.mocked(mockUserRepository.findById).mockResolvedValue(null);
+
+    await expect(DataExportService.collect('user-404')).rejects.toThrow(ERROR_MESSAGES.USER_NOT_FOUND);
+  });
+
+  it('should pack one JSON file per section into the ZIP', async () => {
+    const data = await DataExportService.collect('user-123');
+
+    const files = unzipSync(DataExportService.toZip(data));
+
+    expect(Object.keys(files).sort()).toEqual([
+      'activity.json',
+      'apiKeys.json',
+      'chatQueries.json',
+      'datasets.json',
+      'departments.json',
+      'export.json',
+      'identities.json',
+      'profile.json',
+      'sessions.json',
+    ].sort());
+    expect(JSON.parse(strFromU8(files['profile.json']))).toEqual(data.profile);
+  });
+});
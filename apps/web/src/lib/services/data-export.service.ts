@@ -0,0 +1,202 @@
+import { strToU8, zipSync } from 'fflate';
+import { userRepository } from '../repositories/user.repository';
+import { departmentRepository } from '../repositories/department.repository';
+import { userIdentityRepository } from '../repositories/user-identity.repository';
+import { apiKeyRepository } from '../repositories/api-key.repository';
+import { sessionRepository } from '../repositories/session.repository';
+import { auditEventRepository } from '../repositories/audit-event.repository';
+import { chatQueryRepository } from '../repositories/chat-query.repository';
+import { datasetRepository } from '../repositories/dataset.repository';
+import { DATA_EXPORT_CONFIG, ERROR_MESSAGES } from '../auth/constants';
+
+/**
+ * Everything the platform stores about a user, minus secrets such as password and token hashes
+ * Each top-level key except exportedAt becomes its own file in the ZIP archive
+ */
+export interface PersonalDataExport {
+  exportedAt: string;
+  profile: {
+    id: string;
+    email: string;
+    role: string;
+    emailVerifiedAt: string | null;
+    passwordChangedAt: string | null;
+    twoFactorEnabled: boolean;
+    createdAt: string;
+    updatedAt: string;
+  };
+  departments: Array<{
+    departmentId: string;
+    name: string;
+    code: string;
+    role: string;
+    joinedAt: string;
+  }>;
+  identities: Array<{
+    provider: string;
+    issuer: string;
+    email: string | null;
+    lastLoginAt: string | null;
+    createdAt: string;
+  }>;
+  apiKeys: Array<{
+    name: string;
+    prefix: string;
+    scopes: string[];
+    expiresAt: string | null;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    createdAt: string;
+  }>;
+  sessions: Array<{
+    userAgent: string | null;
+    ipAddress: string | null;
+    lastSeenAt: string;
+    createdAt: string;
+  }>;
+  activity: Array<{
+    action: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    createdAt: string;
+  }>;
+  chatQueries: Array<{
+    datasetId: string | null;
+    promptTokens: number;
+    completionTokens: number;
+    createdAt: string;
+  }>;
+  // Datasets the user owns, with the details of their files but not the file contents
+  datasets: Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    visibility: string;
+    tags: string[];
+    createdAt: string;
+    files: Array<{
+      filename: string;
+      mimeType: string;
+      size: number;
+      status: string;
+      createdAt: string;
+    }>;
+  }>;
+}
+
+function toIso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+export class DataExportService {
+  /**
+   * Collect the user's data for a personal data export
+   * @throws Error with ERROR_MESSAGES.USER_NOT_FOUND
+   */
+  static async collect(userId: string): Promise<PersonalDataExport> {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    }
+
+    const [memberships, identities, apiKeys, sessions, events, chatQueries, datasets] = await Promise.all([
+      departmentRepository.findMembershipsForUser(userId),
+      userIdentityRepository.findAllForUser(userId),
+      apiKeyRepository.findAllForUser(userId),
+      sessionRepository.findActiveForUser(userId),
+      auditEventRepository.findAll({ actorId: userId, take: DATA_EXPORT_CONFIG.MAX_ACTIVITY_EVENTS }),
+      chatQueryRepository.findAllForUser(userId, DATA_EXPORT_CONFIG.MAX_CHAT_QUERIES),
+      datasetRepository.findAllForOwnerWithFiles(userId),
+    ]);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        emailVerifiedAt: toIso(user.emailVerifiedAt),
+        passwordChangedAt: toIso(user.passwordChangedAt),
+        twoFactorEnabled: user.totpEnabledAt !== null,
+        createdAt: user.createdAt.toISOString(),
+        updatedAt: user.updatedAt.toISOString(),
+      },
+      departments: memberships.map((membership) => ({
+        departmentId: membership.departmentId,
+        name: membership.department.name,
+        code: membership.department.code,
+        role: membership.role,
+        joinedAt: membership.createdAt.toISOString(),
+      })),
+      identities: identities.map((identity) => ({
+        provider: identity.provider,
+        issuer: identity.issuer,
+        email: identity.email,
+        lastLoginAt: toIso(identity.lastLoginAt),
+        createdAt: identity.createdAt.toISOString(),
+      })),
+      apiKeys: apiKeys.map((apiKey) => ({
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scopes: apiKey.scopes,
+        expiresAt: toIso(apiKey.expiresAt),
+        lastUsedAt: toIso(apiKey.lastUsedAt),
+        revokedAt: toIso(apiKey.revokedAt),
+        createdAt: apiKey.createdAt.toISOString(),
+      })),
+      sessions: sessions.map((session) => ({
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        lastSeenAt: session.lastSeenAt.toISOString(),
+        createdAt: session.createdAt.toISOString(),
+      })),
+      activity: events.map((event) => ({
+        action: event.action,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        createdAt: event.createdAt.toISOString(),
+      })),
+      chatQueries: chatQueries.map((query) => ({
+        datasetId: query.datasetId,
+        promptTokens: query.promptTokens,
+        completionTokens: query.completionTokens,
+        createdAt: query.createdAt.toISOString(),
+      })),
+      datasets: datasets.map((dataset) => ({
+        id: dataset.id,
+        name: dataset.name,
+        description: dataset.description,
+        visibility: dataset.visibility,
+        tags: dataset.tags,
+        createdAt: dataset.createdAt.toISOString(),
+        files: dataset.files.map((file) => ({
+          filename: file.filename,
+          mimeType: file.mimeType,
+          size: file.size,
+          status: file.status,
+          createdAt: file.createdAt.toISOString(),
+        })),
+      })),
+    };
+  }
+
+  static toJson(data: PersonalDataExport): string {
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Pack the export as a ZIP archive with one JSON file per section
+   */
+  static toZip(data: PersonalDataExport): Uint8Array {
+    const { exportedAt, ...sections } = data;
+    const files: Record<string, Uint8Array> = {
+      'export.json': strToU8(JSON.stringify({ exportedAt }, null, 2)),
+    };
+
+    for (const [name, section] of Object.entries(sections)) {
+      files[`${name}.json`] = strToU8(JSON.stringify(section, null, 2));
+    }
+
+    return zipSync(files);
+  }
+}
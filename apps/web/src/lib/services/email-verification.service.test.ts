@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EmailVerificationToken } from '@prisma/client';
+import { EmailVerificationService } from './email-verification.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { emailVerificationTokenRepository as mockTokenRepository } from '../repositories/email-verification-token.repository';
+import { hashToken } from '../auth/secure-token';
+import { ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+    findByEmail: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/email-verification-token.repository', () => ({
+  emailVerificationTokenRepository: {
+    create: vi.fn(),
+    findByTokenHash: vi.fn(),
+    markUsed: vi.fn(),
+    invalidateAllForUser: vi.fn(),
+  },
+}));
+
+const mockSend = vi.fn();
+vi.mock('../mail/transport', () => ({
+  getMailTransport: vi.fn(() => ({ send: mockSend })),
+}));
+
+describe('EmailVerificationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const buildVerificationToken = (overrides: Partial<EmailVerificationToken> = {}): EmailVerificationToken => ({
+    id: 'verification-1',
+    userId: 'user-123',
+    tokenHash: hashToken('verification-token'),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    usedAt: null,
+    email: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  describe('sendVerification', () => {
+    it('should store a hashed token and email the verification link', async () => {
+      await EmailVerificationService.sendVerification(buildUser({ emailVerifiedAt: null }));
+
+      expect(mockTokenRepository.invalidateAllForUser).toHaveBeenCalledWith('user-123');
+
+      const createInput = vi.mocked(mockTokenRepository.create).mock.calls[0][0];
+      const message = mockSend.mock.calls[0][0];
+      const link = new URL(message.text.match(/https?:\/\/\S+/)[0]);
+
+      expect(message.to).toBe('test@example.com');
+      expect(link.pathname).toBe('/verify-email');
+      expect(createInput.tokenHash).toBe(hashToken(link.searchParams.get('token')!));
+    });
+  });
+
+  describe('requestEmailChange', () => {
+    it('should send the confirmation link to the new address only', async () => {
+      await EmailVerificationService.requestEmailChange(buildUser(), 'new@example.com');
+
+      const createInput = vi.mocked(mockTokenRepository.create).mock.calls[0][0];
+      const message = mockSend.mock.calls[0][0];
+      const link = new URL(message.text.match(/https?:\/\/\S+/)[0]);
+
+      expect(mockTokenRepository.invalidateAllForUser).toHaveBeenCalledWith('user-123');
+      expect(createInput).toMatchObject({ userId: 'user-123', email: 'new@example.com' });
+      expect(createInput.tokenHash).toBe(hashToken(link.searchParams.get('token')!));
+      expect(message.to).toBe('new@example.com');
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('should send a new link to unverified accounts', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser({ emailVerifiedAt: null }));
+
+      await EmailVerificationService.resendVerification('test@example.com');
+
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should silently ignore unknown, disabled and verified accounts', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValueOnce(null);
+      await EmailVerificationService.resendVerification('nobody@example.com');
+
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValueOnce(
+        buildUser({ emailVerifiedAt: null, isActive: false })
+      );
+      await EmailVerificationService.resendVerification('test@example.com');
+
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValueOnce(buildUser());
+      await EmailVerificationService.resendVerification('test@example.com');
+
+      expect(mockTokenRepository.create).not.toHaveBeenCalled();
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should consume the token and mark the email as verified', async () => {
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValue(buildVerificationToken());
+      vi.mocked(mockTokenRepository.markUsed).mockResolvedValue(true);
+
+      await EmailVerificationService.verifyEmail('verification-token');
+
+      expect(mockTokenRepository.findByTokenHash).toHaveBeenCalledWith(hashToken('verification-token'));
+      expect(mockTokenRepository.markUsed).toHaveBeenCalledWith('verification-1');
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        emailVerifiedAt: expect.any(Date),
+      });
+    });
+
+    it('should switch the account to the address an email change token was sent to', async () => {
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValue(
+        buildVerificationToken({ email: 'new@example.com' })
+      );
+      vi.mocked(mockTokenRepository.markUsed).mockResolvedValue(true);
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser());
+      vi.mocked(mockUserRepository.update).mockResolvedValue(buildUser({ email: 'new@example.com' }));
+
+      const result = await EmailVerificationService.verifyEmail('verification-token');
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        email: 'new@example.com',
+        emailVerifiedAt: expect.any(Date),
+      });
+      expect(result.previousEmail).toBe('test@example.com');
+      expect(result.user.email).toBe('new@example.com');
+    });
+
+    it('should reject unknown, used and expired tokens', async () => {
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValueOnce(null);
+      await expect(EmailVerificationService.verifyEmail('unknown'))
+        .rejects.toThrow(ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID);
+
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValueOnce(
+        buildVerificationToken({ usedAt: new Date() })
+      );
+      await expect(EmailVerificationService.verifyEmail('verification-token'))
+        .rejects.toThrow(ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID);
+
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValueOnce(
+        buildVerificationToken({ expiresAt: new Date(Date.now() - 1000) })
+      );
+      await expect(EmailVerificationService.verifyEmail('verification-token'))
+        .rejects.toThrow(ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID);
+
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token consumed concurrently', async () => {
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValue(buildVerificationToken());
+      vi.mocked(mockTokenRepository.markUsed).mockResolvedValue(false);
+
+      await expect(EmailVerificationService.verifyEmail('verification-token'))
+        .rejects.toThrow(ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID);
+
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
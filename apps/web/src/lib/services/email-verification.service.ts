@@ -0,0 +1,118 @@
+import { User } from '@prisma/client';
+import { userRepository } from '../repositories/user.repository';
+import { emailVerificationTokenRepository } from '../repositories/email-verification-token.repository';
+import { generateSecureToken, hashToken } from '../auth/secure-token';
+import { EMAIL_VERIFICATION_CONFIG, ERROR_MESSAGES } from '../auth/constants';
+import { getMailTransport } from '../mail/transport';
+import { buildAppUrl, buildEmailChangeEmail, buildEmailVerificationEmail } from '../mail/templates';
+
+export interface EmailVerificationResult {
+  user: User;
+  // The address replaced when the token confirmed an email change, otherwise null
+  previousEmail: string | null;
+}
+
+export class EmailVerificationService {
+  /**
+   * Email a new verification link, invalidating any earlier ones
+   * @param user - Newly registered or still unverified user
+   */
+  static async sendVerification(user: Pick<User, 'id' | 'email'>): Promise<void> {
+    await emailVerificationTokenRepository.invalidateAllForUser(user.id);
+
+    const token = generateSecureToken(EMAIL_VERIFICATION_CONFIG.TOKEN_BYTES);
+
+    await emailVerificationTokenRepository.create({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_CONFIG.TOKEN_TTL_MS),
+    });
+
+    await getMailTransport().send(
+      buildEmailVerificationEmail(
+        user.email,
+        buildAppUrl('/verify-email', { token }),
+        EMAIL_VERIFICATION_CONFIG.TOKEN_TTL_MS / (60 * 60 * 1000)
+      )
+    );
+  }
+
+  /**
+   * Email a confirmation link to the new address of an email change
+   * The account keeps its current address until the link is opened, so a hijacked session
+   * can't move the account to an address the owner doesn't control
+   */
+  static async requestEmailChange(user: Pick<User, 'id'>, newEmail: string): Promise<void> {
+    await emailVerificationTokenRepository.invalidateAllForUser(user.id);
+
+    const token = generateSecureToken(EMAIL_VERIFICATION_CONFIG.TOKEN_BYTES);
+
+    await emailVerificationTokenRepository.create({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_CONFIG.TOKEN_TTL_MS),
+      email: newEmail,
+    });
+
+    await getMailTransport().send(
+      buildEmailChangeEmail(
+        newEmail,
+        buildAppUrl('/verify-email', { token }),
+        EMAIL_VERIFICATION_CONFIG.TOKEN_TTL_MS / (60 * 60 * 1000)
+      )
+    );
+  }
+
+  /**
+   * Send a new verification link on request
+   * Does nothing for unknown, disabled or already verified accounts, so callers must respond the same way either way
+   */
+  static async resendVerification(email: string): Promise<void> {
+    const user = await userRepository.findByEmail(email);
+    if (!user || !user.isActive || user.emailVerifiedAt) {
+      return;
+    }
+
+    await this.sendVerification(user);
+  }
+
+  /**
+   * Mark the email address behind a verification token as verified
+   * A token from requestEmailChange also switches the account to the new address
+   * @throws Error with ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID if the token is unknown, used or expired
+   * @throws Error with ERROR_MESSAGES.USER_EXISTS if another account took the new address meanwhile
+   */
+  static async verifyEmail(token: string): Promise<EmailVerificationResult> {
+    const verificationToken = await emailVerificationTokenRepository.findByTokenHash(hashToken(token));
+    if (
+      !verificationToken ||
+      verificationToken.usedAt ||
+      verificationToken.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new Error(ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID);
+    }
+
+    const consumed = await emailVerificationTokenRepository.markUsed(verificationToken.id);
+    if (!consumed) {
+      throw new Error(ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID);
+    }
+
+    if (!verificationToken.email) {
+      const user = await userRepository.update(verificationToken.userId, {
+        emailVerifiedAt: new Date(),
+      });
+      return { user, previousEmail: null };
+    }
+
+    const account = await userRepository.findById(verificationToken.userId);
+    if (!account) {
+      throw new Error(ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID);
+    }
+
+    const user = await userRepository.update(account.id, {
+      email: verificationToken.email,
+      emailVerifiedAt: new Date(),
+    });
+    return { user, previousEmail: account.email };
+  }
+}
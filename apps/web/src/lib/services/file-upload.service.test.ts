@@ -0,0 +1,284 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import type { File, FileUpload } from '@prisma/client';
+import { FileUploadService } from './file-upload.service';
+import { fileRepository } from '../repositories/file.repository';
+import { fileUploadRepository } from '../repositories/file-upload.repository';
+import { datasetRepository } from '../repositories/dataset.repository';
+import { getBlobStorage } from '../storage/storage';
+import { LocalBlobStorage } from '../storage/local-storage';
+import type { BlobStorage } from '../storage/types';
+import { FILE_UPLOAD_CONFIG, FILE_UPLOAD_ERROR_MESSAGES } from '../auth/constants';
+
+// Mock the dependencies
+vi.mock('../repositories/file.repository', () => ({
+  fileRepository: {
+    create: vi.fn(),
+    findByStorageKey: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/file-upload.repository', () => ({
+  fileUploadRepository: {
+    create: vi.fn(),
+    findActive: vi.fn(),
+    findExpired: vi.fn(),
+    complete: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/dataset.repository', () => ({
+  datasetRepository: {
+    refreshStatus: vi.fn(),
+  },
+}));
+
+vi.mock('../storage/storage', () => ({
+  getBlobStorage: vi.fn(),
+}));
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+describe('FileUploadService', () => {
+  let directory: string;
+  let storage: BlobStorage;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    directory = await mkdtemp(path.join(tmpdir(), 'file-upload-test-'));
+    storage = new LocalBlobStorage(directory);
+    vi.mocked(getBlobStorage).mockReturnValue(storage);
+    vi.mocked(fileRepository.create).mockImplementation(async (data) => ({ id: 'file-123', ...data }) as File);
+    vi.mocked(fileRepository.findByStorageKey).mockResolvedValue(null);
+    vi.mocked(fileUploadRepository.complete).mockImplementation(async (_id, data) => ({ id: 'file-123', ...data }) as File);
+    vi.mocked(fileUploadRepository.delete).mockResolvedValue(true);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe('describeFile', () => {
+    it('should keep only the file name and accept types that match the extension', () => {
+      expect(FileUploadService.describeFile({ filename: 'C:\\報價\\鋼材報價.PDF', mimeType: 'application/pdf' })).toEqual({
+        filename: '鋼材報價.PDF',
+        mimeType: 'application/pdf',
+      });
+      expect(FileUploadService.describeFile({ filename: 'notes.md', mimeType: 'text/plain; charset=utf-8' })).toEqual({
+        filename: 'notes.md',
+        mimeType: 'text/plain',
+      });
+    });
+
+    it('should go by the extension when the client sends a generic type', () => {
+      expect(FileUploadService.describeFile({ filename: 'prices.xlsx', mimeType: 'application/octet-stream' })).toEqual({
+        filename: 'prices.xlsx',
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      });
+    });
+
+    it('should reject files outside the allow-lists', () => {
+      expect(() => FileUploadService.describeFile({ filename: 'setup.exe', mimeType: 'application/x-msdownload' }))
+        .toThrow(FILE_UPLOAD_ERROR_MESSAGES.UNSUPPORTED_TYPE);
+      expect(() => FileUploadService.describeFile({ filename: 'scan.pdf', mimeType: 'text/html' }))
+        .toThrow(FILE_UPLOAD_ERROR_MESSAGES.TYPE_MISMATCH);
+      expect(() => FileUploadService.describeFile({ filename: 'a\u0000.pdf', mimeType: 'application/pdf' }))
+        .toThrow(FILE_UPLOAD_ERROR_MESSAGES.INVALID_FILENAME);
+    });
+  });
+
+  describe('saveFile', () => {
+    it('should store the file and record it as pending with its size and checksum', async () => {
+      const file = await FileUploadService.saveFile(
+        'dataset-123',
+        { filename: 'prices.csv', mimeType: 'text/csv' },
+        Readable.from(['item,price\n', 'H-beam,1200\n'])
+      );
+
+      expect(fileRepository.create).toHaveBeenCalledWith({
+        datasetId: 'dataset-123',
+        filename: 'prices.csv',
+        mimeType: 'text/csv',
+        size: 23,
+        checksum: sha256('item,price\nH-beam,1200\n'),
+        storageKey: expect.stringMatching(/^datasets\/dataset-123\/[0-9a-f-]{36}\.csv$/),
+      });
+      expect(await text(await storage.get(file.storageKey))).toBe('item,price\nH-beam,1200\n');
+      expect(datasetRepository.refreshStatus).toHaveBeenCalledWith('dataset-123');
+    });
+
+    it('should discard empty files', async () => {
+      await expect(
+        FileUploadService.saveFile('dataset-123', { filename: 'empty.txt', mimeType: 'text/plain' }, Readable.from([]))
+      ).rejects.toThrow(FILE_UPLOAD_ERROR_MESSAGES.FILE_EMPTY);
+
+      expect(await readdir(path.join(directory, 'datasets/dataset-123'))).toEqual([]);
+      expect(fileRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('chunked uploads', () => {
+    const content = 'scanned-drawing-page';
+
+    const buildUpload = async (overrides: Partial<FileUpload> = {}): Promise<FileUpload> => {
+      const storageKey = 'datasets/dataset-123/drawing.pdf';
+      return {
+        id: 'upload-123',
+        datasetId: 'dataset-123',
+        filename: 'drawing.pdf',
+        mimeType: 'application/pdf',
+        size: content.length,
+        chunkSize: 8,
+        checksum: null,
+        storageKey,
+        storageUploadId: await storage.createMultipartUpload(storageKey, { contentType: 'application/pdf' }),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        createdAt: new Date(),
+        ...overrides,
+      };
+    };
+
+    const sendChunks = async (upload: FileUpload, indexes: number[]) => {
+      for (const index of indexes) {
+        const chunk = content.slice(index * upload.chunkSize, (index + 1) * upload.chunkSize);
+        await FileUploadService.uploadChunk(upload, index, Readable.from([chunk]), chunk.length);
+      }
+    };
+
+    it('should start an upload with the configured chunk size', async () => {
+      vi.mocked(fileUploadRepository.create).mockImplementation(async (data) => ({ id: 'upload-123', ...data }) as FileUpload);
+
+      const upload = await FileUploadService.startUpload('dataset-123', {
+        filename: 'drawing.pdf',
+        mimeType: 'application/pdf',
+        size: 20 * 1024 * 1024,
+        checksum: 'AB'.repeat(32),
+      });
+
+      expect(upload).toMatchObject({ chunkSize: FILE_UPLOAD_CONFIG.CHUNK_SIZE, checksum: 'ab'.repeat(32) });
+      expect(FileUploadService.getTotalChunks(upload)).toBe(3);
+      expect(await storage.listParts(upload.storageKey, upload.storageUploadId)).toEqual([]);
+    });
+
+    it('should reject files over the size limit before anything is stored', async () => {
+      await expect(FileUploadService.startUpload('dataset-123', {
+        filename: 'drawing.pdf',
+        mimeType: 'application/pdf',
+        size: FILE_UPLOAD_CONFIG.MAX_FILE_SIZE + 1,
+      })).rejects.toThrow(FILE_UPLOAD_ERROR_MESSAGES.FILE_TOO_LARGE);
+      expect(fileUploadRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should report received chunks and reject chunks that do not fit the upload', async () => {
+      const upload = await buildUpload();
+      await sendChunks(upload, [2, 0]);
+
+      expect(await FileUploadService.getReceivedChunks(upload)).toEqual([0, 2]);
+      await expect(FileUploadService.uploadChunk(upload, 3, Readable.from(['x']), 1))
+        .rejects.toThrow(FILE_UPLOAD_ERROR_MESSAGES.INVALID_CHUNK);
+      await expect(FileUploadService.uploadChunk(upload, 1, Readable.from(['short']), 5))
+        .rejects.toThrow(FILE_UPLOAD_ERROR_MESSAGES.CHUNK_SIZE_MISMATCH);
+    });
+
+    it('should not complete an upload with missing chunks', async () => {
+      const upload = await buildUpload();
+      await sendChunks(upload, [0, 2]);
+
+      await expect(FileUploadService.completeUpload(upload)).rejects.toThrow(FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_INCOMPLETE);
+      expect(fileUploadRepository.complete).not.toHaveBeenCalled();
+    });
+
+    it('should assemble the chunks into a pending file', async () => {
+      const upload = await buildUpload({ checksum: sha256(content) });
+      await sendChunks(upload, [1, 2, 0]);
+
+      await FileUploadService.completeUpload(upload);
+
+      expect(fileUploadRepository.complete).toHaveBeenCalledWith('upload-123', {
+        datasetId: 'dataset-123',
+        filename: 'drawing.pdf',
+        mimeType: 'application/pdf',
+        size: content.length,
+        checksum: sha256(content),
+        storageKey: upload.storageKey,
+      });
+      expect(await text(await storage.get(upload.storageKey))).toBe(content);
+      expect(datasetRepository.refreshStatus).toHaveBeenCalledWith('dataset-123');
+    });
+
+    it('should discard the assembled file when the upload was aborted meanwhile', async () => {
+      const upload = await buildUpload();
+      await sendChunks(upload, [0, 1, 2]);
+      vi.mocked(fileUploadRepository.complete).mockResolvedValueOnce(null);
+
+      await expect(FileUploadService.completeUpload(upload)).rejects.toThrow(FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_NOT_FOUND);
+      await expect(storage.get(upload.storageKey)).rejects.toThrow();
+      expect(datasetRepository.refreshStatus).not.toHaveBeenCalled();
+    });
+
+    it('should keep the blob when another request completed the upload first', async () => {
+      const upload = await buildUpload();
+      await sendChunks(upload, [0, 1, 2]);
+      vi.mocked(fileUploadRepository.complete).mockResolvedValueOnce(null);
+      vi.mocked(fileRepository.findByStorageKey).mockResolvedValueOnce({ id: 'file-123' } as File);
+
+      await expect(FileUploadService.completeUpload(upload)).rejects.toThrow(FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_NOT_FOUND);
+      expect(await text(await storage.get(upload.storageKey))).toBe(content);
+    });
+
+    it('should not delete a blob a file already references when aborting', async () => {
+      const upload = await buildUpload();
+      await storage.put(upload.storageKey, Readable.from([content]), { contentType: 'application/pdf' });
+      vi.mocked(fileRepository.findByStorageKey).mockResolvedValueOnce({ id: 'file-123' } as File);
+
+      await FileUploadService.abortUpload(upload);
+
+      expect(fileUploadRepository.delete).toHaveBeenCalledWith('upload-123');
+      expect(await text(await storage.get(upload.storageKey))).toBe(content);
+    });
+
+    it('should leave the blob alone when the upload is already gone', async () => {
+      const upload = await buildUpload();
+      await sendChunks(upload, [0]);
+      vi.mocked(fileUploadRepository.delete).mockResolvedValueOnce(false);
+
+      await FileUploadService.abortUpload(upload);
+
+      expect(await FileUploadService.getReceivedChunks(upload)).toEqual([0]);
+      expect(fileRepository.findByStorageKey).not.toHaveBeenCalled();
+    });
+
+    it('should discard a file that does not match the announced checksum', async () => {
+      const upload = await buildUpload({ checksum: sha256('something else') });
+      await sendChunks(upload, [0, 1, 2]);
+
+      await expect(FileUploadService.completeUpload(upload)).rejects.toThrow(FILE_UPLOAD_ERROR_MESSAGES.CHECKSUM_MISMATCH);
+      await expect(storage.get(upload.storageKey)).rejects.toThrow();
+      expect(fileUploadRepository.delete).toHaveBeenCalledWith('upload-123');
+      expect(fileUploadRepository.complete).not.toHaveBeenCalled();
+    });
+
+    it('should abort expired uploads and keep going when one fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const upload = await buildUpload();
+      await sendChunks(upload, [0]);
+      vi.mocked(fileUploadRepository.findExpired).mockResolvedValueOnce([
+        { ...upload, id: 'upload-broken', storageKey: '../outside.pdf' },
+        upload,
+      ]);
+
+      const result = await FileUploadService.abortExpired(new Date());
+
+      expect(result).toEqual({ aborted: 1, failed: 1 });
+      expect(await FileUploadService.getReceivedChunks(upload).catch(() => null)).toBeNull();
+      expect(fileUploadRepository.delete).toHaveBeenCalledWith('upload-123');
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import { Transform, type Readable } from 'stream';
+import { File, FileUpload } from '@prisma/client';
+import { fileRepository } from '../repositories/file.repository';
+import { fileUploadRepository } from '../repositories/file-upload.repository';
+import { datasetRepository } from '../repositories/dataset.repository';
+import { getBlobStorage } from '../storage/storage';
+import { FILE_UPLOAD_CONFIG, FILE_UPLOAD_ERROR_MESSAGES } from '../auth/constants';
+
+type AllowedExtension = keyof typeof FILE_UPLOAD_CONFIG.ALLOWED_TYPES;
+
+// Sent by browsers and HTTP clients that don't know the type; the extension decides instead
+const GENERIC_MIME_TYPES = new Set(['', 'application/octet-stream']);
+
+// Control characters have no place in a file name
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f]/;
+
+export interface FileDescription {
+  filename: string;
+  mimeType: string;
+}
+
+export interface StartUploadInput extends FileDescription {
+  size: number;
+  // SHA-256 of the whole file, hex encoded, checked once every chunk has arrived
+  checksum?: string;
+}
+
+export interface ExpiredUploadsResult {
+  aborted: number;
+  failed: number;
+}
+
+/**
+ * Folder of a dataset in the blob storage; every file and unfinished upload of the dataset lives under it
+ */
+function getDatasetPrefix(datasetId: string): string {
+  return `datasets/${datasetId}/`;
+}
+
+/**
+ * A fresh key for a file; the client's file name only contributes its extension
+ */
+function createStorageKey(datasetId: string, filename: string): string {
+  return `${getDatasetPrefix(datasetId)}${randomUUID()}${path.extname(filename).toLowerCase()}`;
+}
+
+function isAllowedExtension(extension: string): extension is AllowedExtension {
+  return Object.prototype.hasOwnProperty.call(FILE_UPLOAD_CONFIG.ALLOWED_TYPES, extension);
+}
+
+/**
+ * Count and hash the bytes passing through
+ */
+function createDigestStream(): { stream: Transform; digest: () => { size: number; checksum: string } } {
+  const hash = createHash('sha256');
+  let size = 0;
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  return { stream, digest: () => ({ size, checksum: hash.digest('hex') }) };
+}
+
+/**
+ * Count and hash a whole stream
+ */
+async function digestStream(body: Readable): Promise<{ size: number; checksum: string }> {
+  const hash = createHash('sha256');
+  let size = 0;
+
+  for await (const chunk of body) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+
+  return { size, checksum: hash.digest('hex') };
+}
+
+/**
+ * Size every chunk must have: the chunk size, except for the last chunk which holds the rest
+ */
+function getExpectedChunkSize(upload: Pick<FileUpload, 'size' | 'chunkSize'>, index: number): number {
+  return Math.min(upload.chunkSize, upload.size - index * upload.chunkSize);
+}
+
+export class FileUploadService {
+  /**
+   * Check a file against the allow-lists and tidy its name and type
+   * @returns FileDescription - The name without any path and the MIME type to record, which is the
+   * canonical type of the extension when the client sent a generic one
+   * @throws Error with FILE_UPLOAD_ERROR_MESSAGES.INVALID_FILENAME, UNSUPPORTED_TYPE or TYPE_MISMATCH
+   */
+  static describeFile(file: FileDescription): FileDescription {
+    // Some browsers send the full client path
+    const filename = file.filename.split(/[\\/]/).pop()?.trim() ?? '';
+    if (
+      !filename ||
+      filename.length > FILE_UPLOAD_CONFIG.FILENAME_MAX_LENGTH ||
+      CONTROL_CHARACTERS.test(filename)
+    ) {
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.INVALID_FILENAME);
+    }
+
+    const extension = path.extname(filename).toLowerCase();
+    if (!isAllowedExtension(extension)) {
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.UNSUPPORTED_TYPE);
+    }
+
+    const allowedTypes: readonly string[] = FILE_UPLOAD_CONFIG.ALLOWED_TYPES[extension];
+    const mimeType = file.mimeType.split(';')[0].trim().toLowerCase();
+    if (GENERIC_MIME_TYPES.has(mimeType)) {
+      return { filename, mimeType: allowedTypes[0] };
+    }
+    if (!allowedTypes.includes(mimeType)) {
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.TYPE_MISMATCH);
+    }
+
+    return { filename, mimeType };
+  }
+
+  /**
+   * Store a file streamed in one piece and record it as pending processing
+   * The body may run up to one byte past the size limit, so callers that cut streams off at the
+   * limit still have their oversized files rejected. It is piped rather than consumed with
+   * `pipeline`, so a failure leaves it intact for the caller to drain
+   * @throws Error with FILE_UPLOAD_ERROR_MESSAGES.FILE_EMPTY or FILE_TOO_LARGE, or as describeFile
+   */
+  static async saveFile(datasetId: string, file: FileDescription, body: Readable): Promise<File> {
+    const { filename, mimeType } = FileUploadService.describeFile(file);
+    const storage = getBlobStorage();
+    const storageKey = createStorageKey(datasetId, filename);
+
+    const { stream, digest } = createDigestStream();
+    body.once('error', (error) => stream.destroy(error));
+    body.pipe(stream);
+    try {
+      await storage.put(storageKey, stream, { contentType: mimeType });
+    } catch (error) {
+      body.unpipe(stream);
+      throw error;
+    }
+
+    const { size, checksum } = digest();
+    if (size === 0 || size > FILE_UPLOAD_CONFIG.MAX_FILE_SIZE) {
+      await storage.delete(storageKey);
+      throw new Error(size === 0 ? FILE_UPLOAD_ERROR_MESSAGES.FILE_EMPTY : FILE_UPLOAD_ERROR_MESSAGES.FILE_TOO_LARGE);
+    }
+
+    try {
+      const created = await fileRepository.create({ datasetId, filename, mimeType, size, checksum, storageKey });
+      await datasetRepository.refreshStatus(datasetId);
+      return created;
+    } catch (error) {
+      await storage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Start a chunked upload, for large files and clients that need to resume after a dropped connection
+   * The file is sent in chunks of `upload.chunkSize` bytes, in any order and retried as needed
+   * @throws Error with FILE_UPLOAD_ERROR_MESSAGES.FILE_EMPTY or FILE_TOO_LARGE, or as describeFile
+   */
+  static async startUpload(datasetId: string, input: StartUploadInput): Promise<FileUpload> {
+    const { filename, mimeType } = FileUploadService.describeFile(input);
+    if (input.size <= 0) {
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.FILE_EMPTY);
+    }
+    if (input.size > FILE_UPLOAD_CONFIG.MAX_FILE_SIZE) {
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.FILE_TOO_LARGE);
+    }
+
+    const storageKey = createStorageKey(datasetId, filename);
+    const storageUploadId = await getBlobStorage().createMultipartUpload(storageKey, { contentType: mimeType });
+
+    return await fileUploadRepository.create({
+      datasetId,
+      filename,
+      mimeType,
+      size: input.size,
+      chunkSize: FILE_UPLOAD_CONFIG.CHUNK_SIZE,
+      checksum: input.checksum?.toLowerCase() ?? null,
+      storageKey,
+      storageUploadId,
+      expiresAt: new Date(Date.now() + FILE_UPLOAD_CONFIG.UPLOAD_TTL_MS),
+    });
+  }
+
+  /**
+   * Find an unexpired chunked upload of the dataset
+   * @throws Error with FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_NOT_FOUND
+   */
+  static async getUpload(datasetId: string, uploadId: string): Promise<FileUpload> {
+    const upload = await fileUploadRepository.findActive(uploadId, datasetId);
+    if (!upload) {
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_NOT_FOUND);
+    }
+    return upload;
+  }
+
+  static getTotalChunks(upload: Pick<FileUpload, 'size' | 'chunkSize'>): number {
+    return Math.ceil(upload.size / upload.chunkSize);
+  }
+
+  /**
+   * Store one chunk, replacing an earlier attempt at the same chunk
+   * @param index - 0-based chunk index
+   * @param size - Length of the body, which must match the size expected for the chunk
+   * @throws Error with FILE_UPLOAD_ERROR_MESSAGES.INVALID_CHUNK or CHUNK_SIZE_MISMATCH
+   */
+  static async uploadChunk(upload: FileUpload, index: number, body: Readable, size: number): Promise<void> {
+    if (!Number.isInteger(index) || index < 0 || index >= FileUploadService.getTotalChunks(upload)) {
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.INVALID_CHUNK);
+    }
+    if (size !== getExpectedChunkSize(upload, index)) {
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.CHUNK_SIZE_MISMATCH);
+    }
+
+    await getBlobStorage().uploadPart(upload.storageKey, upload.storageUploadId, index + 1, body, size);
+  }
+
+  /**
+   * 0-based indexes of the chunks stored so far, for clients resuming an upload
+   */
+  static async getReceivedChunks(upload: FileUpload): Promise<number[]> {
+    const parts = await getBlobStorage().listParts(upload.storageKey, upload.storageUploadId);
+    return parts
+      .filter((part) => part.size === getExpectedChunkSize(upload, part.partNumber - 1))
+      .map((part) => part.partNumber - 1);
+  }
+
+  /**
+   * Assemble the chunks into the file and record it as pending processing
+   * A file that does not match the checksum announced at the start is discarded with its upload
+   * @throws Error with FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_INCOMPLETE or CHECKSUM_MISMATCH,
+   * or UPLOAD_NOT_FOUND if the upload was aborted meanwhile
+   */
+  static async completeUpload(upload: FileUpload): Promise<File> {
+    const storage = getBlobStorage();
+    const totalChunks = FileUploadService.getTotalChunks(upload);
+
+    const parts = (await storage.listParts(upload.storageKey, upload.storageUploadId))
+      .filter((part) => part.partNumber <= totalChunks);
+    const isComplete = parts.length === totalChunks &&
+      parts.every((part, i) => part.partNumber === i + 1 && part.size === getExpectedChunkSize(upload, i));
+    if (!isComplete) {
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_INCOMPLETE);
+    }
+
+    await storage.completeMultipartUpload(upload.storageKey, upload.storageUploadId, parts);
+
+    // Read back, so the checksum describes what was actually stored
+    const { size, checksum } = await digestStream(await storage.get(upload.storageKey));
+
+    if (size !== upload.size || (upload.checksum && checksum !== upload.checksum)) {
+      await storage.delete(upload.storageKey);
+      await fileUploadRepository.delete(upload.id);
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.CHECKSUM_MISMATCH);
+    }
+
+    const created = await fileUploadRepository.complete(upload.id, {
+      datasetId: upload.datasetId,
+      filename: upload.filename,
+      mimeType: upload.mimeType,
+      size,
+      checksum,
+      storageKey: upload.storageKey,
+    });
+    if (!created) {
+      // Aborted or completed by another request meanwhile; the blob is ours to remove unless a file took it
+      if (!(await fileRepository.findByStorageKey(upload.storageKey))) {
+        await storage.delete(upload.storageKey);
+      }
+      throw new Error(FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_NOT_FOUND);
+    }
+    await datasetRepository.refreshStatus(upload.datasetId);
+
+    return created;
+  }
+
+  /**
+   * Give up a chunked upload and remove the chunks stored so far
+   * The upload is removed first, so a completion running at the same time can no longer record
+   * a file for it. A blob that a file references is never removed
+   */
+  static async abortUpload(upload: FileUpload): Promise<void> {
+    if (!(await fileUploadRepository.delete(upload.id))) {
+      return;
+    }
+
+    const storage = getBlobStorage();
+    await storage.abortMultipartUpload(upload.storageKey, upload.storageUploadId);
+    // The chunks may already have been assembled by a completion that failed to record its file
+    if (!(await fileRepository.findByStorageKey(upload.storageKey))) {
+      await storage.delete(upload.storageKey);
+    }
+  }
+
+  /**
+   * Abort chunked uploads that were not completed in time, one batch per call
+   * A failure on one upload is logged and the rest of the batch still runs
+   */
+  static async abortExpired(now: Date = new Date()): Promise<ExpiredUploadsResult> {
+    const expired = await fileUploadRepository.findExpired(now, FILE_UPLOAD_CONFIG.CLEANUP_BATCH_SIZE);
+
+    const result: ExpiredUploadsResult = { aborted: 0, failed: 0 };
+
+    for (const upload of expired) {
+      try {
+        await FileUploadService.abortUpload(upload);
+        result.aborted += 1;
+      } catch (error) {
+        console.error(`Error aborting expired upload ${upload.id}:`, error);
+        result.failed += 1;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove the stored files and unfinished uploads of datasets about to be deleted
+   * Call it before deleting the rows: a storage failure throws, leaving the datasets in place to retry
+   */
+  static async deleteDatasetFiles(datasetIds: string[]): Promise<void> {
+    const storage = getBlobStorage();
+
+    for (const datasetId of datasetIds) {
+      await storage.deletePrefix(getDatasetPrefix(datasetId));
+    }
+  }
+}
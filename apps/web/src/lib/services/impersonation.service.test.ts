@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Session } from '@prisma/client';
+import { ImpersonationService } from './impersonation.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { sessionRepository as mockSessionRepository } from '../repositories/session.repository';
+import { SessionService, SESSION_REVOKE_REASONS } from './session.service';
+import { AuditService } from './audit.service';
+import { ADMIN_ERROR_MESSAGES, AUDIT_ACTIONS } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/session.repository', () => ({
+  sessionRepository: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('./session.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./session.service')>();
+  return {
+    ...actual,
+    SessionService: {
+      createImpersonationSession: vi.fn(),
+      refreshSession: vi.fn(),
+      revokeSession: vi.fn(),
+    },
+  };
+});
+
+vi.mock('./audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+describe('ImpersonationService', () => {
+  const admin = buildUser({ id: 'admin-1', email: 'admin@example.com', role: 'ADMIN' });
+
+  const buildSession = (overrides: Partial<Session> = {}): Session => ({
+    id: 'session-imp',
+    userId: 'user-123',
+    refreshTokenHash: 'hash',
+    previousTokenHash: null,
+    rotatedAt: null,
+    userAgent: null,
+    ipAddress: null,
+    expiresAt: new Date('2025-03-01T08:30:00Z'),
+    lastSeenAt: new Date('2025-03-01T08:00:00Z'),
+    revokedAt: null,
+    revokedReason: null,
+    impersonatorId: 'admin-1',
+    createdAt: new Date('2025-03-01T08:00:00Z'),
+    updatedAt: new Date('2025-03-01T08:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('start', () => {
+    it('should issue an impersonation token and audit it', async () => {
+      const user = buildUser();
+      const session = buildSession();
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(user);
+      vi.mocked(SessionService.createImpersonationSession).mockResolvedValueOnce({
+        session,
+        accessToken: 'impersonation-token',
+      });
+
+      const result = await ImpersonationService.start(admin, 'user-123', { ipAddress: '10.0.0.1' });
+
+      expect(result).toEqual({ user, session, accessToken: 'impersonation-token' });
+      expect(SessionService.createImpersonationSession).toHaveBeenCalledWith(user, 'admin-1', { ipAddress: '10.0.0.1' });
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AUDIT_ACTIONS.ADMIN_IMPERSONATION_STARTED,
+          actor: admin,
+          targetId: 'user-123',
+          metadata: { sessionId: 'session-imp', expiresAt: '2025-03-01T08:30:00.000Z' },
+        })
+      );
+    });
+
+    it('should refuse the administrator themselves, other administrators and disabled accounts', async () => {
+      await expect(ImpersonationService.start(admin, 'admin-1')).rejects.toThrow(
+        ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_SELF
+      );
+
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(buildUser({ id: 'admin-2', role: 'ADMIN' }));
+      await expect(ImpersonationService.start(admin, 'admin-2')).rejects.toThrow(
+        ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_ADMIN
+      );
+
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(buildUser({ isActive: false }));
+      await expect(ImpersonationService.start(admin, 'user-123')).rejects.toThrow(
+        ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_INACTIVE
+      );
+
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(null);
+      await expect(ImpersonationService.start(admin, 'user-404')).rejects.toThrow(ADMIN_ERROR_MESSAGES.USER_NOT_FOUND);
+
+      expect(SessionService.createImpersonationSession).not.toHaveBeenCalled();
+      expect(AuditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('end', () => {
+    beforeEach(() => {
+      vi.mocked(SessionService.refreshSession).mockResolvedValueOnce({
+        session: buildSession({ id: 'session-admin', userId: 'admin-1', impersonatorId: null }),
+        accessToken: 'admin-access-token',
+        refreshToken: 'admin-refresh-token-2',
+      });
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(admin);
+    });
+
+    it('should resume the administrator session and revoke the impersonation session', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValueOnce(buildSession());
+
+      const result = await ImpersonationService.end('admin-refresh-token', 'session-imp');
+
+      expect(result).toEqual({
+        user: admin,
+        accessToken: 'admin-access-token',
+        refreshToken: 'admin-refresh-token-2',
+      });
+      expect(SessionService.refreshSession).toHaveBeenCalledWith('admin-refresh-token', {});
+      expect(SessionService.revokeSession).toHaveBeenCalledWith('session-imp', SESSION_REVOKE_REASONS.IMPERSONATION_ENDED);
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AUDIT_ACTIONS.ADMIN_IMPERSONATION_ENDED,
+          actor: admin,
+          targetId: 'user-123',
+        })
+      );
+    });
+
+    it('should leave sessions alone that the administrator did not start', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValueOnce(buildSession({ impersonatorId: null }));
+
+      await ImpersonationService.end('admin-refresh-token', 'session-other');
+
+      expect(SessionService.revokeSession).not.toHaveBeenCalled();
+      expect(AuditService.record).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { Session, User } from '@prisma/client';
+import { userRepository } from '../repositories/user.repository';
+import { sessionRepository } from '../repositories/session.repository';
+import { SessionService, SESSION_REVOKE_REASONS, type SessionMetadata } from './session.service';
+import { AuditService } from './audit.service';
+import { ROLES } from '../auth/permissions';
+import {
+  ADMIN_ERROR_MESSAGES,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  ERROR_MESSAGES,
+} from '../auth/constants';
+
+export interface StartedImpersonation {
+  user: User;
+  session: Session;
+  accessToken: string;
+}
+
+export interface EndedImpersonation {
+  // The administrator, signed back in with a fresh token pair
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export class ImpersonationService {
+  /**
+   * Let an administrator act as another user, to see exactly what that user sees
+   * Administrators and accounts that cannot sign in themselves are refused
+   * @throws Error with ADMIN_ERROR_MESSAGES.USER_NOT_FOUND or a CANNOT_IMPERSONATE_* message
+   */
+  static async start(
+    impersonator: Pick<User, 'id' | 'email'>,
+    targetUserId: string,
+    metadata: SessionMetadata = {}
+  ): Promise<StartedImpersonation> {
+    if (targetUserId === impersonator.id) {
+      throw new Error(ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_SELF);
+    }
+
+    const user = await userRepository.findById(targetUserId);
+    if (!user || user.purgedAt) {
+      throw new Error(ADMIN_ERROR_MESSAGES.USER_NOT_FOUND);
+    }
+    // Acting as another administrator would hand over their privileges without an audit trail of their own
+    if (user.role === ROLES.ADMIN) {
+      throw new Error(ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_ADMIN);
+    }
+    if (!user.isActive || user.deletedAt) {
+      throw new Error(ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_INACTIVE);
+    }
+
+    const { session, accessToken } = await SessionService.createImpersonationSession(user, impersonator.id, metadata);
+
+    await AuditService.record({
+      action: AUDIT_ACTIONS.ADMIN_IMPERSONATION_STARTED,
+      actor: impersonator,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: user.id,
+      ...metadata,
+      metadata: { sessionId: session.id, expiresAt: session.expiresAt.toISOString() },
+    });
+
+    return { user, session, accessToken };
+  }
+
+  /**
+   * Return to the administrator's own session and end the impersonation session
+   * @param impersonatorRefreshToken - The administrator's refresh token, kept aside while impersonating
+   * @param impersonationSessionId - Session of the impersonation token, if the browser still has it
+   * @throws Error with a SESSION_ERROR_MESSAGES message if the administrator's session has ended meanwhile
+   */
+  static async end(
+    impersonatorRefreshToken: string,
+    impersonationSessionId: string | null,
+    metadata: SessionMetadata = {}
+  ): Promise<EndedImpersonation> {
+    const { session: adminSession, accessToken, refreshToken } = await SessionService.refreshSession(
+      impersonatorRefreshToken,
+      metadata
+    );
+
+    const user = await userRepository.findById(adminSession.userId);
+    if (!user) {
+      throw new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    }
+
+    // Only end a session this administrator started; the id comes from an unverified cookie
+    const session = impersonationSessionId ? await sessionRepository.findById(impersonationSessionId) : null;
+    if (session && session.impersonatorId === user.id) {
+      if (!session.revokedAt) {
+        await SessionService.revokeSession(session.id, SESSION_REVOKE_REASONS.IMPERSONATION_ENDED);
+      }
+
+      await AuditService.record({
+        action: AUDIT_ACTIONS.ADMIN_IMPERSONATION_ENDED,
+        actor: user,
+        targetType: AUDIT_TARGET_TYPES.USER,
+        targetId: session.userId,
+        ...metadata,
+        metadata: { sessionId: session.id },
+      });
+    }
+
+    return { user, accessToken, refreshToken };
+  }
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Invitation } from '@prisma/client';
+import { InvitationService } from './invitation.service';
+import { invitationRepository as mockInvitationRepository } from '../repositories/invitation.repository';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { departmentRepository as mockDepartmentRepository } from '../repositories/department.repository';
+import { hashToken } from '../auth/secure-token';
+import { ERROR_MESSAGES, INVITATION_CONFIG, ORGANIZATION_ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/invitation.repository', () => ({
+  invitationRepository: {
+    create: vi.fn(async (data) => ({ id: 'invitation-1', ...data })),
+    findByTokenHash: vi.fn(),
+    markAccepted: vi.fn(),
+    revokeOpenForEmail: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findByEmail: vi.fn(),
+    create: vi.fn(async (data) => buildUser({ id: 'user-new', ...data })),
+  },
+}));
+
+vi.mock('../repositories/department.repository', () => ({
+  departmentRepository: {
+    findById: vi.fn(),
+    replaceMembershipsForUser: vi.fn(),
+  },
+}));
+
+const mockSend = vi.fn();
+vi.mock('../mail/transport', () => ({
+  getMailTransport: vi.fn(() => ({ send: mockSend })),
+}));
+
+vi.mock('../auth/password', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../auth/password')>();
+  return {
+    PasswordUtils: {
+      ...actual.PasswordUtils,
+      hash: vi.fn(async () => 'hashed-password'),
+      validatePasswordStrength: actual.PasswordUtils.validatePasswordStrength,
+    },
+  };
+});
+
+describe('InvitationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const buildInvitation = (overrides: Partial<Invitation> = {}): Invitation => ({
+    id: 'invitation-1',
+    email: 'new@example.com',
+    role: 'ESTIMATOR',
+    departmentId: null,
+    tokenHash: hashToken('invite-token'),
+    invitedById: 'admin-1',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    acceptedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  describe('invite', () => {
+    it('should store a hashed token, replace earlier invitations and email the link', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+
+      const invitation = await InvitationService.invite(buildUser({ id: 'admin-1' }), {
+        email: 'new@example.com',
+        role: 'ESTIMATOR',
+      });
+
+      expect(mockInvitationRepository.revokeOpenForEmail).toHaveBeenCalledWith('new@example.com');
+      expect(invitation).toMatchObject({ email: 'new@example.com', role: 'ESTIMATOR', invitedById: 'admin-1' });
+      expect(invitation.expiresAt.getTime()).toBeGreaterThan(Date.now() + INVITATION_CONFIG.TOKEN_TTL_MS - 5000);
+
+      const message = mockSend.mock.calls[0][0];
+      const token = new URL(message.text.match(/http\S+/)[0]).searchParams.get('token');
+      expect(message.to).toBe('new@example.com');
+      expect(hashToken(token!)).toBe(invitation.tokenHash);
+    });
+
+    it('should reject existing users and unknown departments', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser());
+      await expect(
+        InvitationService.invite(buildUser({ id: 'admin-1' }), { email: 'test@example.com', role: 'VIEWER' })
+      ).rejects.toThrow(ERROR_MESSAGES.USER_EXISTS);
+
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+      vi.mocked(mockDepartmentRepository.findById).mockResolvedValue(null);
+      await expect(
+        InvitationService.invite(buildUser({ id: 'admin-1' }), {
+          email: 'new@example.com',
+          role: 'VIEWER',
+          departmentId: 'missing',
+        })
+      ).rejects.toThrow(ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND);
+
+      expect(mockInvitationRepository.create).not.toHaveBeenCalled();
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('accept', () => {
+    it('should create an active, verified account and join the department', async () => {
+      vi.mocked(mockInvitationRepository.findByTokenHash).mockResolvedValue(
+        buildInvitation({ departmentId: 'dept-1' })
+      );
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+      vi.mocked(mockInvitationRepository.markAccepted).mockResolvedValue(true);
+
+      const user = await InvitationService.accept('invite-token', 'Str0ng!Password');
+
+      expect(mockInvitationRepository.findByTokenHash).toHaveBeenCalledWith(hashToken('invite-token'));
+      expect(mockUserRepository.create).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        passwordHash: 'hashed-password',
+        role: 'ESTIMATOR',
+        emailVerifiedAt: expect.any(Date),
+      });
+      expect(user.isActive).toBe(true);
+      expect(mockDepartmentRepository.replaceMembershipsForUser).toHaveBeenCalledWith('user-new', [
+        { departmentId: 'dept-1', role: 'MEMBER' },
+      ]);
+    });
+
+    it.each([
+      ['unknown', null],
+      ['expired', buildInvitation({ expiresAt: new Date(Date.now() - 1000) })],
+      ['accepted', buildInvitation({ acceptedAt: new Date() })],
+      ['replaced', buildInvitation({ revokedAt: new Date() })],
+    ])('should reject %s invitations', async (_, invitation) => {
+      vi.mocked(mockInvitationRepository.findByTokenHash).mockResolvedValue(invitation);
+
+      await expect(InvitationService.accept('invite-token', 'Str0ng!Password')).rejects.toThrow(
+        ERROR_MESSAGES.INVITATION_INVALID
+      );
+      expect(mockUserRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject weak passwords before looking up the invitation', async () => {
+      await expect(InvitationService.accept('invite-token', 'weak')).rejects.toThrow(
+        ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR
+      );
+      expect(mockInvitationRepository.findByTokenHash).not.toHaveBeenCalled();
+    });
+
+    it('should not create the account when a concurrent request accepted it first', async () => {
+      vi.mocked(mockInvitationRepository.findByTokenHash).mockResolvedValue(buildInvitation());
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+      vi.mocked(mockInvitationRepository.markAccepted).mockResolvedValue(false);
+
+      await expect(InvitationService.accept('invite-token', 'Str0ng!Password')).rejects.toThrow(
+        ERROR_MESSAGES.INVITATION_INVALID
+      );
+      expect(mockUserRepository.create).not.toHaveBeenCalled();
+    });
+  });
+});
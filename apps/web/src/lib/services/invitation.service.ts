@@ -0,0 +1,120 @@
+import { Invitation, User, UserRole } from '@prisma/client';
+import { invitationRepository } from '../repositories/invitation.repository';
+import { userRepository } from '../repositories/user.repository';
+import { departmentRepository } from '../repositories/department.repository';
+import { PasswordUtils } from '../auth/password';
+import { generateSecureToken, hashToken } from '../auth/secure-token';
+import { INVITATION_CONFIG, ERROR_MESSAGES, ORGANIZATION_ERROR_MESSAGES } from '../auth/constants';
+import { getMailTransport } from '../mail/transport';
+import { buildAppUrl, buildInvitationEmail } from '../mail/templates';
+
+export interface InviteUserInput {
+  email: string;
+  role: UserRole;
+  departmentId?: string | null;
+}
+
+export class InvitationService {
+  /**
+   * Email a single-use link that lets the recipient create an account with the given role
+   * Inviting an address again replaces the earlier invitation
+   * @throws Error with ERROR_MESSAGES.USER_EXISTS or ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND
+   */
+  static async invite(inviter: Pick<User, 'id'>, input: InviteUserInput): Promise<Invitation> {
+    const existingUser = await userRepository.findByEmail(input.email);
+    if (existingUser) {
+      throw new Error(ERROR_MESSAGES.USER_EXISTS);
+    }
+
+    if (input.departmentId) {
+      const department = await departmentRepository.findById(input.departmentId);
+      if (!department) {
+        throw new Error(ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND);
+      }
+    }
+
+    await invitationRepository.revokeOpenForEmail(input.email);
+
+    const token = generateSecureToken(INVITATION_CONFIG.TOKEN_BYTES);
+
+    const invitation = await invitationRepository.create({
+      email: input.email,
+      role: input.role,
+      departmentId: input.departmentId,
+      tokenHash: hashToken(token),
+      invitedById: inviter.id,
+      expiresAt: new Date(Date.now() + INVITATION_CONFIG.TOKEN_TTL_MS),
+    });
+
+    await getMailTransport().send(
+      buildInvitationEmail(
+        invitation.email,
+        buildAppUrl('/accept-invitation', { token }),
+        INVITATION_CONFIG.TOKEN_TTL_MS / (24 * 60 * 60 * 1000)
+      )
+    );
+
+    return invitation;
+  }
+
+  /**
+   * Look up an open invitation, so the accept page can show who it is for
+   * @throws Error with ERROR_MESSAGES.INVITATION_INVALID if the token is unknown, used, replaced or expired
+   */
+  static async getOpenInvitation(token: string): Promise<Invitation> {
+    const invitation = await invitationRepository.findByTokenHash(hashToken(token));
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.revokedAt ||
+      invitation.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new Error(ERROR_MESSAGES.INVITATION_INVALID);
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Create the invited account with the chosen password
+   * The account is active and verified straight away, since the link proves the address
+   * @returns User - The new user
+   * @throws Error with ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR if the password is too weak
+   * @throws Error with ERROR_MESSAGES.INVITATION_INVALID if the token is unknown, used, replaced or expired
+   * @throws Error with ERROR_MESSAGES.USER_EXISTS if the address registered another way meanwhile
+   */
+  static async accept(token: string, password: string): Promise<User> {
+    const passwordValidation = PasswordUtils.validatePasswordStrength(password);
+    if (!passwordValidation.isValid) {
+      throw new Error(ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR);
+    }
+
+    const invitation = await this.getOpenInvitation(token);
+
+    const existingUser = await userRepository.findByEmail(invitation.email);
+    if (existingUser) {
+      throw new Error(ERROR_MESSAGES.USER_EXISTS);
+    }
+
+    // Consume the invitation first so concurrent submissions can't both create the account
+    const consumed = await invitationRepository.markAccepted(invitation.id);
+    if (!consumed) {
+      throw new Error(ERROR_MESSAGES.INVITATION_INVALID);
+    }
+
+    const user = await userRepository.create({
+      email: invitation.email,
+      passwordHash: await PasswordUtils.hash(password),
+      role: invitation.role,
+      emailVerifiedAt: new Date(),
+    });
+
+    if (invitation.departmentId) {
+      await departmentRepository.replaceMembershipsForUser(user.id, [
+        { departmentId: invitation.departmentId, role: 'MEMBER' },
+      ]);
+    }
+
+    return user;
+  }
+}
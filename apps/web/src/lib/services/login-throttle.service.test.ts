@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LoginThrottleService } from './login-throttle.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { MemoryRateLimitStore } from '../rate-limit/memory-store';
+import { getRateLimitStore } from '../rate-limit/store';
+import { ERROR_MESSAGES, LOGIN_THROTTLE_CONFIG } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    incrementFailedLoginAttempts: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../rate-limit/store', () => ({
+  getRateLimitStore: vi.fn(),
+}));
+
+describe('LoginThrottleService', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    store = new MemoryRateLimitStore();
+    vi.mocked(getRateLimitStore).mockReturnValue(store);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('checkAllowed', () => {
+    it('should allow a first attempt without delay', async () => {
+      await expect(LoginThrottleService.checkAllowed(buildUser(), '10.0.0.1')).resolves.toBeUndefined();
+    });
+
+    it('should refuse a locked account', async () => {
+      const user = buildUser({ lockedUntil: new Date('2025-01-01T00:10:00Z') });
+
+      await expect(LoginThrottleService.checkAllowed(user, '10.0.0.1')).rejects.toThrow(
+        ERROR_MESSAGES.ACCOUNT_LOCKED
+      );
+    });
+
+    it('should allow an account whose lock has expired', async () => {
+      const user = buildUser({ lockedUntil: new Date('2024-12-31T23:59:00Z') });
+
+      await expect(LoginThrottleService.checkAllowed(user, '10.0.0.1')).resolves.toBeUndefined();
+    });
+
+    it('should refuse an IP that reached its failure limit, even for unknown emails', async () => {
+      for (let i = 0; i < LOGIN_THROTTLE_CONFIG.MAX_IP_FAILURES; i++) {
+        await LoginThrottleService.recordFailure(null, '10.0.0.1');
+      }
+
+      await expect(LoginThrottleService.checkAllowed(null, '10.0.0.1')).rejects.toThrow(
+        ERROR_MESSAGES.TOO_MANY_LOGIN_ATTEMPTS
+      );
+      await expect(LoginThrottleService.checkAllowed(null, '10.0.0.2')).resolves.toBeUndefined();
+    });
+
+    it('should count failures without a known IP together', async () => {
+      for (let i = 0; i < LOGIN_THROTTLE_CONFIG.MAX_IP_FAILURES; i++) {
+        await LoginThrottleService.recordFailure(null, null);
+      }
+
+      await expect(LoginThrottleService.checkAllowed(null, null)).rejects.toThrow(
+        ERROR_MESSAGES.TOO_MANY_LOGIN_ATTEMPTS
+      );
+      await expect(LoginThrottleService.checkAllowed(null, '10.0.0.2')).resolves.toBeUndefined();
+    });
+
+    it('should delay attempts after repeated failures', async () => {
+      const user = buildUser({ failedLoginAttempts: LOGIN_THROTTLE_CONFIG.FREE_ATTEMPTS + 1 });
+      let settled = false;
+
+      const check = LoginThrottleService.checkAllowed(user, null).then(() => {
+        settled = true;
+      });
+
+      await vi.advanceTimersByTimeAsync(LOGIN_THROTTLE_CONFIG.BASE_DELAY_MS - 1);
+      expect(settled).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await check;
+      expect(settled).toBe(true);
+    });
+  });
+
+  describe('getDelayMs', () => {
+    it('should grow progressively up to the maximum', () => {
+      const free = LOGIN_THROTTLE_CONFIG.FREE_ATTEMPTS;
+
+      expect(LoginThrottleService.getDelayMs(free)).toBe(0);
+      expect(LoginThrottleService.getDelayMs(free + 1)).toBe(LOGIN_THROTTLE_CONFIG.BASE_DELAY_MS);
+      expect(LoginThrottleService.getDelayMs(free + 2)).toBe(LOGIN_THROTTLE_CONFIG.BASE_DELAY_MS * 2);
+      expect(LoginThrottleService.getDelayMs(free + 50)).toBe(LOGIN_THROTTLE_CONFIG.MAX_DELAY_MS);
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should count the failure on the account and the IP', async () => {
+      vi.mocked(mockUserRepository.incrementFailedLoginAttempts).mockResolvedValue(
+        buildUser({ failedLoginAttempts: 1 })
+      );
+
+      await LoginThrottleService.recordFailure(buildUser(), '10.0.0.1');
+
+      expect(mockUserRepository.incrementFailedLoginAttempts).toHaveBeenCalledWith('user-123');
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+      expect(await store.get('login-failures:ip:10.0.0.1')).toMatchObject({ count: 1 });
+    });
+
+    it('should lock the account once it reaches the failure limit', async () => {
+      vi.mocked(mockUserRepository.incrementFailedLoginAttempts).mockResolvedValue(
+        buildUser({ failedLoginAttempts: LOGIN_THROTTLE_CONFIG.MAX_ACCOUNT_FAILURES })
+      );
+
+      await LoginThrottleService.recordFailure(buildUser(), null);
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        lockedUntil: new Date(Date.now() + LOGIN_THROTTLE_CONFIG.LOCKOUT_MS),
+        failedLoginAttempts: 0,
+      });
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should clear failure counters', async () => {
+      await LoginThrottleService.recordSuccess(buildUser({ failedLoginAttempts: 3 }));
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+    });
+
+    it('should skip the write when there is nothing to clear', async () => {
+      await LoginThrottleService.recordSuccess(buildUser());
+
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
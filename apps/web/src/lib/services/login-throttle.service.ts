@@ -0,0 +1,92 @@
+import { userRepository } from '../repositories/user.repository';
+import { getRateLimitStore } from '../rate-limit/store';
+import { CLIENT_IP_CONFIG, LOGIN_THROTTLE_CONFIG, ERROR_MESSAGES } from '../auth/constants';
+import { User } from '@prisma/client';
+
+// Attempts without a known IP are counted together rather than not at all
+const ipFailureKey = (ipAddress: string | null) =>
+  `login-failures:ip:${ipAddress ?? CLIENT_IP_CONFIG.UNKNOWN_IP}`;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Brute-force protection for password logins
+ * Failures are counted per account (on the user row, driving the temporary lockout)
+ * and per client IP (in the rate limit store, catching attempts spread over many accounts)
+ */
+export class LoginThrottleService {
+  /**
+   * Refuse the attempt if the account is locked or the IP has failed too often,
+   * otherwise wait out the progressive delay earned by previous failures
+   * @throws Error with ERROR_MESSAGES.ACCOUNT_LOCKED if the account is temporarily locked
+   * @throws Error with ERROR_MESSAGES.TOO_MANY_LOGIN_ATTEMPTS if the IP has reached its failure limit
+   */
+  static async checkAllowed(user: User | null, ipAddress: string | null): Promise<void> {
+    if (user?.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+      throw new Error(ERROR_MESSAGES.ACCOUNT_LOCKED);
+    }
+
+    const ipFailures = (await getRateLimitStore().get(ipFailureKey(ipAddress)))?.count ?? 0;
+
+    if (ipFailures >= LOGIN_THROTTLE_CONFIG.MAX_IP_FAILURES) {
+      throw new Error(ERROR_MESSAGES.TOO_MANY_LOGIN_ATTEMPTS);
+    }
+
+    const delayMs = this.getDelayMs(Math.max(user?.failedLoginAttempts ?? 0, ipFailures));
+    if (delayMs > 0) {
+      await sleep(delayMs);
+    }
+  }
+
+  /**
+   * Delay applied before answering an attempt after the given number of failures
+   * @returns number - 0 for the first FREE_ATTEMPTS failures, then doubling up to MAX_DELAY_MS
+   */
+  static getDelayMs(failures: number): number {
+    const penalized = failures - LOGIN_THROTTLE_CONFIG.FREE_ATTEMPTS;
+    if (penalized <= 0) {
+      return 0;
+    }
+
+    return Math.min(
+      LOGIN_THROTTLE_CONFIG.BASE_DELAY_MS * 2 ** (penalized - 1),
+      LOGIN_THROTTLE_CONFIG.MAX_DELAY_MS
+    );
+  }
+
+  /**
+   * Count a failed attempt, locking the account once it reaches MAX_ACCOUNT_FAILURES
+   * @param user - The targeted account, or null if the email is not registered
+   */
+  static async recordFailure(user: User | null, ipAddress: string | null): Promise<void> {
+    await getRateLimitStore().increment(ipFailureKey(ipAddress), LOGIN_THROTTLE_CONFIG.IP_WINDOW_MS);
+
+    if (!user) {
+      return;
+    }
+
+    const updatedUser = await userRepository.incrementFailedLoginAttempts(user.id);
+    if (updatedUser.failedLoginAttempts >= LOGIN_THROTTLE_CONFIG.MAX_ACCOUNT_FAILURES) {
+      // The counter restarts so the account gets a fresh allowance once the lock expires
+      await userRepository.update(user.id, {
+        lockedUntil: new Date(Date.now() + LOGIN_THROTTLE_CONFIG.LOCKOUT_MS),
+        failedLoginAttempts: 0,
+      });
+    }
+  }
+
+  /**
+   * Clear the account's failure counter after a correct password
+   * The IP counter is left alone so one valid account can't be used to reset it
+   */
+  static async recordSuccess(user: User): Promise<void> {
+    if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+      return;
+    }
+
+    await userRepository.update(user.id, {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+  }
+}
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import { MfaChallenge } from '@prisma/client';
+import { MfaService } from './mfa.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { recoveryCodeRepository as mockRecoveryCodeRepository } from '../repositories/recovery-code.repository';
+import { mfaChallengeRepository as mockChallengeRepository } from '../repositories/mfa-challenge.repository';
+import { encryptSecret, decryptSecret } from '../auth/secret-box';
+import { generateTotpCode, getTotpStep } from '../auth/totp';
+import { hashToken } from '../auth/secure-token';
+import { ERROR_MESSAGES, MFA_CONFIG, MFA_ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+    update: vi.fn(),
+    recordTotpStep: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/recovery-code.repository', () => ({
+  recoveryCodeRepository: {
+    replaceAllForUser: vi.fn(),
+    consume: vi.fn(),
+    countUnused: vi.fn(),
+    deleteAllForUser: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/mfa-challenge.repository', () => ({
+  mfaChallengeRepository: {
+    create: vi.fn(),
+    findByTicketHash: vi.fn(),
+    incrementAttempts: vi.fn(),
+    markUsed: vi.fn(),
+  },
+}));
+
+vi.mock('./login-throttle.service', () => ({
+  LoginThrottleService: {
+    checkAllowed: vi.fn(),
+    recordFailure: vi.fn(),
+    recordSuccess: vi.fn(),
+  },
+}));
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+
+describe('MfaService', () => {
+  const originalKey = process.env.MFA_ENCRYPTION_KEY;
+
+  beforeAll(() => {
+    process.env.MFA_ENCRYPTION_KEY = 'test-mfa-encryption-key';
+  });
+
+  afterAll(() => {
+    process.env.MFA_ENCRYPTION_KEY = originalKey;
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const buildMfaUser = () =>
+    buildUser({ totpSecret: encryptSecret(SECRET), totpEnabledAt: new Date('2025-01-01') });
+
+  const buildChallenge = (overrides: Partial<MfaChallenge> = {}): MfaChallenge => ({
+    id: 'challenge-1',
+    userId: 'user-123',
+    ticketHash: hashToken('mfa-ticket'),
+    expiresAt: new Date(Date.now() + 60_000),
+    attempts: 0,
+    usedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  describe('beginEnrollment', () => {
+    it('should store an encrypted pending secret and return the otpauth URI', async () => {
+      const enrollment = await MfaService.beginEnrollment(buildUser());
+
+      expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(enrollment.otpauthUri).toContain(`secret=${enrollment.secret}`);
+      expect(enrollment.otpauthUri).toContain('test%40example.com');
+
+      const stored = vi.mocked(mockUserRepository.update).mock.calls[0][1];
+      expect(stored.totpSecret).not.toBe(enrollment.secret);
+      expect(decryptSecret(stored.totpSecret!)).toBe(enrollment.secret);
+    });
+
+    it('should refuse when 2FA is already enabled', async () => {
+      await expect(MfaService.beginEnrollment(buildMfaUser())).rejects.toThrow(
+        MFA_ERROR_MESSAGES.ALREADY_ENABLED
+      );
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable 2FA and issue hashed recovery codes', async () => {
+      const user = buildUser({ totpSecret: encryptSecret(SECRET) });
+
+      const codes = await MfaService.confirmEnrollment(user, generateTotpCode(SECRET));
+
+      expect(codes).toHaveLength(MFA_CONFIG.RECOVERY_CODE_COUNT);
+      expect(codes[0]).toMatch(/^[A-Z2-7]{4}-[A-Z2-7]{4}-[A-Z2-7]{4}-[A-Z2-7]{4}$/);
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        totpEnabledAt: expect.any(Date),
+        totpLastUsedStep: getTotpStep(),
+      });
+
+      const storedHashes = vi.mocked(mockRecoveryCodeRepository.replaceAllForUser).mock.calls[0][1];
+      expect(storedHashes).toHaveLength(codes.length);
+      expect(storedHashes).not.toContain(codes[0]);
+      expect(storedHashes[0]).toBe(hashToken(codes[0].replace(/-/g, '')));
+    });
+
+    it('should reject a wrong code', async () => {
+      const user = buildUser({ totpSecret: encryptSecret(SECRET) });
+
+      await expect(MfaService.confirmEnrollment(user, '000000')).rejects.toThrow(MFA_ERROR_MESSAGES.CODE_INVALID);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should require enrollment to have started', async () => {
+      await expect(MfaService.confirmEnrollment(buildUser(), '123456')).rejects.toThrow(
+        MFA_ERROR_MESSAGES.ENROLLMENT_NOT_STARTED
+      );
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept a TOTP code once', async () => {
+      vi.mocked(mockUserRepository.recordTotpStep).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      const code = generateTotpCode(SECRET);
+
+      expect(await MfaService.verifyCode(buildMfaUser(), code)).toBe(true);
+      expect(await MfaService.verifyCode(buildMfaUser(), code)).toBe(false);
+      expect(mockUserRepository.recordTotpStep).toHaveBeenCalledWith('user-123', getTotpStep());
+    });
+
+    it('should consume recovery codes regardless of case and dashes', async () => {
+      vi.mocked(mockRecoveryCodeRepository.consume).mockResolvedValue(true);
+
+      expect(await MfaService.verifyCode(buildMfaUser(), 'abcd-efgh-ijkl-mnop')).toBe(true);
+      expect(mockRecoveryCodeRepository.consume).toHaveBeenCalledWith('user-123', hashToken('ABCDEFGHIJKLMNOP'));
+    });
+
+    it('should reject codes for users without 2FA', async () => {
+      expect(await MfaService.verifyCode(buildUser(), '123456')).toBe(false);
+    });
+  });
+
+  describe('disable', () => {
+    it('should clear the secret and recovery codes after a valid code', async () => {
+      vi.mocked(mockRecoveryCodeRepository.consume).mockResolvedValue(true);
+
+      await MfaService.disable(buildMfaUser(), 'ABCD-EFGH-IJKL-MNOP');
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+      });
+      expect(mockRecoveryCodeRepository.deleteAllForUser).toHaveBeenCalledWith('user-123');
+    });
+
+    it('should keep 2FA on when the code is wrong', async () => {
+      vi.mocked(mockRecoveryCodeRepository.consume).mockResolvedValue(false);
+
+      await expect(MfaService.disable(buildMfaUser(), 'WRONG-CODE')).rejects.toThrow(MFA_ERROR_MESSAGES.CODE_INVALID);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeChallenge', () => {
+    it('should return the user and consume the ticket for a valid code', async () => {
+      const user = buildMfaUser();
+      vi.mocked(mockChallengeRepository.findByTicketHash).mockResolvedValue(buildChallenge());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(user);
+      vi.mocked(mockUserRepository.recordTotpStep).mockResolvedValue(true);
+      vi.mocked(mockChallengeRepository.markUsed).mockResolvedValue(true);
+
+      const result = await MfaService.completeChallenge('mfa-ticket', generateTotpCode(SECRET), '10.0.0.1');
+
+      expect(result).toBe(user);
+      expect(mockChallengeRepository.findByTicketHash).toHaveBeenCalledWith(hashToken('mfa-ticket'));
+      expect(mockChallengeRepository.markUsed).toHaveBeenCalledWith('challenge-1');
+      expect(LoginThrottleService.recordSuccess).toHaveBeenCalledWith(user);
+    });
+
+    it('should count wrong codes against the ticket and the login throttle', async () => {
+      const user = buildMfaUser();
+      vi.mocked(mockChallengeRepository.findByTicketHash).mockResolvedValue(buildChallenge());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(user);
+
+      await expect(MfaService.completeChallenge('mfa-ticket', '000000', '10.0.0.1')).rejects.toThrow(
+        ERROR_MESSAGES.MFA_CODE_INVALID
+      );
+      expect(mockChallengeRepository.incrementAttempts).toHaveBeenCalledWith('challenge-1');
+      expect(LoginThrottleService.recordFailure).toHaveBeenCalledWith(user, '10.0.0.1');
+      expect(mockChallengeRepository.markUsed).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['unknown', null],
+      ['used', buildChallenge({ usedAt: new Date() })],
+      ['expired', buildChallenge({ expiresAt: new Date(Date.now() - 1000) })],
+      ['exhausted', buildChallenge({ attempts: MFA_CONFIG.MAX_TICKET_ATTEMPTS })],
+    ])('should reject %s tickets', async (_label, challenge) => {
+      vi.mocked(mockChallengeRepository.findByTicketHash).mockResolvedValue(challenge);
+
+      await expect(MfaService.completeChallenge('mfa-ticket', '123456', null)).rejects.toThrow(
+        ERROR_MESSAGES.MFA_TICKET_INVALID
+      );
+      expect(mockUserRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject tickets of disabled accounts', async () => {
+      vi.mocked(mockChallengeRepository.findByTicketHash).mockResolvedValue(buildChallenge());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(
+        buildUser({ ...buildMfaUser(), isActive: false })
+      );
+
+      await expect(MfaService.completeChallenge('mfa-ticket', '123456', null)).rejects.toThrow(
+        ERROR_MESSAGES.MFA_TICKET_INVALID
+      );
+    });
+  });
+});
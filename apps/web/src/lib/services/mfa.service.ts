@@ -0,0 +1,222 @@
+import { randomBytes } from 'crypto';
+import { userRepository } from '../repositories/user.repository';
+import { recoveryCodeRepository } from '../repositories/recovery-code.repository';
+import { mfaChallengeRepository } from '../repositories/mfa-challenge.repository';
+import { generateSecureToken, hashToken } from '../auth/secure-token';
+import { encryptSecret, decryptSecret } from '../auth/secret-box';
+import {
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotpCode,
+} from '../auth/totp';
+import { MFA_CONFIG, MFA_ERROR_MESSAGES, ERROR_MESSAGES } from '../auth/constants';
+import { LoginThrottleService } from './login-throttle.service';
+import { User } from '@prisma/client';
+
+type MfaUser = Pick<User, 'id' | 'email' | 'totpSecret' | 'totpEnabledAt'>;
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Normalize user input so codes match regardless of case, spaces and dashes
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export class MfaService {
+  static isEnabled(user: MfaUser): boolean {
+    return Boolean(user.totpEnabledAt && user.totpSecret);
+  }
+
+  static async getStatus(user: MfaUser): Promise<MfaStatus> {
+    const enabled = this.isEnabled(user);
+
+    return {
+      enabled,
+      enabledAt: enabled ? user.totpEnabledAt : null,
+      recoveryCodesRemaining: enabled ? await recoveryCodeRepository.countUnused(user.id) : 0,
+    };
+  }
+
+  /**
+   * Generate a new secret for the user to add to an authenticator app
+   * 2FA stays off until the user proves the app works with confirmEnrollment
+   * @throws Error with MFA_ERROR_MESSAGES.ALREADY_ENABLED if 2FA is already on
+   */
+  static async beginEnrollment(user: MfaUser): Promise<MfaEnrollment> {
+    if (this.isEnabled(user)) {
+      throw new Error(MFA_ERROR_MESSAGES.ALREADY_ENABLED);
+    }
+
+    const secret = generateTotpSecret();
+    await userRepository.update(user.id, {
+      totpSecret: encryptSecret(secret),
+      totpLastUsedStep: null,
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    };
+  }
+
+  /**
+   * Turn 2FA on once the user enters a valid code for the pending secret
+   * @returns string[] - Recovery codes, shown to the user once and only stored hashed
+   * @throws Error with MFA_ERROR_MESSAGES.ENROLLMENT_NOT_STARTED or CODE_INVALID
+   */
+  static async confirmEnrollment(user: MfaUser, code: string): Promise<string[]> {
+    if (this.isEnabled(user)) {
+      throw new Error(MFA_ERROR_MESSAGES.ALREADY_ENABLED);
+    }
+    if (!user.totpSecret) {
+      throw new Error(MFA_ERROR_MESSAGES.ENROLLMENT_NOT_STARTED);
+    }
+
+    const step = verifyTotpCode(decryptSecret(user.totpSecret), code);
+    if (step === null) {
+      throw new Error(MFA_ERROR_MESSAGES.CODE_INVALID);
+    }
+
+    await userRepository.update(user.id, {
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: step,
+    });
+
+    return this.issueRecoveryCodes(user.id);
+  }
+
+  /**
+   * Turn 2FA off after checking a current TOTP or recovery code
+   * @throws Error with MFA_ERROR_MESSAGES.NOT_ENABLED or CODE_INVALID
+   */
+  static async disable(user: MfaUser, code: string): Promise<void> {
+    await this.requireValidCode(user, code);
+
+    await userRepository.update(user.id, {
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+    });
+    await recoveryCodeRepository.deleteAllForUser(user.id);
+  }
+
+  /**
+   * Replace the user's recovery codes after checking a current TOTP or recovery code
+   * @throws Error with MFA_ERROR_MESSAGES.NOT_ENABLED or CODE_INVALID
+   */
+  static async regenerateRecoveryCodes(user: MfaUser, code: string): Promise<string[]> {
+    await this.requireValidCode(user, code);
+    return this.issueRecoveryCodes(user.id);
+  }
+
+  /**
+   * Check a 6-digit TOTP code or a recovery code, consuming it so it can't be used twice
+   * @returns boolean - True if the code was valid and unused
+   */
+  static async verifyCode(user: MfaUser, code: string): Promise<boolean> {
+    if (!this.isEnabled(user) || !user.totpSecret) {
+      return false;
+    }
+
+    const trimmed = code.replace(/\s/g, '');
+    if (/^\d+$/.test(trimmed)) {
+      const step = verifyTotpCode(decryptSecret(user.totpSecret), trimmed);
+      return step !== null && userRepository.recordTotpStep(user.id, step);
+    }
+
+    return recoveryCodeRepository.consume(user.id, hashToken(normalizeRecoveryCode(code)));
+  }
+
+  /**
+   * Issue the ticket that stands in for a session between the password and code steps
+   * @returns string - Plain ticket for the client; only its hash is stored
+   */
+  static async createChallenge(user: MfaUser): Promise<string> {
+    const ticket = generateSecureToken(MFA_CONFIG.TICKET_BYTES);
+
+    await mfaChallengeRepository.create({
+      userId: user.id,
+      ticketHash: hashToken(ticket),
+      expiresAt: new Date(Date.now() + MFA_CONFIG.TICKET_TTL_MS),
+    });
+
+    return ticket;
+  }
+
+  /**
+   * Finish a two-step login
+   * Wrong codes count toward both the ticket's attempt limit and the login throttle
+   * @returns User - The account the ticket was issued for
+   * @throws Error with ERROR_MESSAGES.MFA_TICKET_INVALID if the ticket is unknown, used, expired or exhausted
+   * @throws Error with ERROR_MESSAGES.MFA_CODE_INVALID if the code is wrong
+   * @throws Error from LoginThrottleService.checkAllowed if the account or IP is throttled
+   */
+  static async completeChallenge(ticket: string, code: string, ipAddress: string | null): Promise<User> {
+    const challenge = await mfaChallengeRepository.findByTicketHash(hashToken(ticket));
+    if (
+      !challenge ||
+      challenge.usedAt ||
+      challenge.expiresAt.getTime() <= Date.now() ||
+      challenge.attempts >= MFA_CONFIG.MAX_TICKET_ATTEMPTS
+    ) {
+      throw new Error(ERROR_MESSAGES.MFA_TICKET_INVALID);
+    }
+
+    const user = await userRepository.findById(challenge.userId);
+    if (!user || !user.isActive || !this.isEnabled(user)) {
+      throw new Error(ERROR_MESSAGES.MFA_TICKET_INVALID);
+    }
+
+    await LoginThrottleService.checkAllowed(user, ipAddress);
+
+    if (!(await this.verifyCode(user, code))) {
+      await mfaChallengeRepository.incrementAttempts(challenge.id);
+      await LoginThrottleService.recordFailure(user, ipAddress);
+      throw new Error(ERROR_MESSAGES.MFA_CODE_INVALID);
+    }
+
+    // Consume the ticket so the same second step can't be completed twice
+    const consumed = await mfaChallengeRepository.markUsed(challenge.id);
+    if (!consumed) {
+      throw new Error(ERROR_MESSAGES.MFA_TICKET_INVALID);
+    }
+
+    await LoginThrottleService.recordSuccess(user);
+    return user;
+  }
+
+  private static async requireValidCode(user: MfaUser, code: string): Promise<void> {
+    if (!this.isEnabled(user)) {
+      throw new Error(MFA_ERROR_MESSAGES.NOT_ENABLED);
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new Error(MFA_ERROR_MESSAGES.CODE_INVALID);
+    }
+  }
+
+  private static async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: MFA_CONFIG.RECOVERY_CODE_COUNT }, () =>
+      // Grouped in fours for readability, e.g. ABCD-EFGH-IJKL-MNOP
+      base32Encode(randomBytes(MFA_CONFIG.RECOVERY_CODE_BYTES)).replace(/(.{4})(?=.)/g, '$1-')
+    );
+
+    await recoveryCodeRepository.replaceAllForUser(
+      userId,
+      codes.map((code) => hashToken(normalizeRecoveryCode(code)))
+    );
+
+    return codes;
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Department, Organization } from '@prisma/client';
+import { OrganizationService } from './organization.service';
+import { organizationRepository as mockOrganizationRepository } from '../repositories/organization.repository';
+import { departmentRepository as mockDepartmentRepository } from '../repositories/department.repository';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { ERROR_MESSAGES, ORGANIZATION_ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/organization.repository', () => ({
+  organizationRepository: {
+    create: vi.fn(),
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/department.repository', () => ({
+  departmentRepository: {
+    create: vi.fn(async (data) => ({ id: 'dept-new', ...data })),
+    findById: vi.fn(),
+    findByIds: vi.fn(),
+    findTeamIds: vi.fn(),
+    findMembershipsForUser: vi.fn(),
+    replaceMembershipsForUser: vi.fn(async () => []),
+  },
+}));
+
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+  },
+}));
+
+describe('OrganizationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const organization: Organization = {
+    id: 'org-1',
+    name: 'Acme',
+    slug: 'acme',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+  };
+
+  const buildDepartment = (overrides: Partial<Department> = {}): Department => ({
+    id: 'dept-1',
+    organizationId: 'org-1',
+    parentId: null,
+    name: 'Research',
+    code: 'RND',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  });
+
+  describe('getDepartmentAccess', () => {
+    it('should include the teams under the user departments', async () => {
+      vi.mocked(mockDepartmentRepository.findMembershipsForUser).mockResolvedValue([
+        {
+          id: 'membership-1',
+          userId: 'user-123',
+          departmentId: 'dept-1',
+          role: 'MANAGER',
+          createdAt: new Date('2025-01-01'),
+          department: buildDepartment(),
+        },
+      ]);
+      vi.mocked(mockDepartmentRepository.findTeamIds).mockResolvedValue(['team-1', 'team-2']);
+
+      const access = await OrganizationService.getDepartmentAccess('user-123');
+
+      expect(access).toEqual({
+        departments: [{ departmentId: 'dept-1', organizationId: 'org-1', code: 'RND', role: 'MANAGER' }],
+        departmentIds: ['dept-1', 'team-1', 'team-2'],
+      });
+      expect(mockDepartmentRepository.findTeamIds).toHaveBeenCalledWith(['dept-1']);
+    });
+
+    it('should skip the team lookup for users without departments', async () => {
+      vi.mocked(mockDepartmentRepository.findMembershipsForUser).mockResolvedValue([]);
+
+      await expect(OrganizationService.getDepartmentAccess('user-123')).resolves.toEqual({
+        departments: [],
+        departmentIds: [],
+      });
+      expect(mockDepartmentRepository.findTeamIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createDepartment', () => {
+    it('should create a team under a department of the same organization', async () => {
+      vi.mocked(mockOrganizationRepository.findById).mockResolvedValue(organization);
+      vi.mocked(mockDepartmentRepository.findById).mockResolvedValue(buildDepartment());
+
+      const team = await OrganizationService.createDepartment({
+        organizationId: 'org-1',
+        parentId: 'dept-1',
+        name: 'Models',
+        code: 'RND-ML',
+      });
+
+      expect(team).toMatchObject({ parentId: 'dept-1', code: 'RND-ML' });
+    });
+
+    it('should reject unknown organizations and parents', async () => {
+      vi.mocked(mockOrganizationRepository.findById).mockResolvedValue(null);
+      await expect(
+        OrganizationService.createDepartment({ organizationId: 'missing', name: 'Research', code: 'RND' })
+      ).rejects.toThrow(ORGANIZATION_ERROR_MESSAGES.ORGANIZATION_NOT_FOUND);
+
+      vi.mocked(mockOrganizationRepository.findById).mockResolvedValue(organization);
+      vi.mocked(mockDepartmentRepository.findById).mockResolvedValue(null);
+      await expect(
+        OrganizationService.createDepartment({ organizationId: 'org-1', parentId: 'missing', name: 'Models', code: 'ML' })
+      ).rejects.toThrow(ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND);
+      expect(mockDepartmentRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a parent from another organization', async () => {
+      vi.mocked(mockOrganizationRepository.findById).mockResolvedValue(organization);
+      vi.mocked(mockDepartmentRepository.findById).mockResolvedValue(buildDepartment({ organizationId: 'org-2' }));
+
+      await expect(
+        OrganizationService.createDepartment({ organizationId: 'org-1', parentId: 'dept-1', name: 'Models', code: 'ML' })
+      ).rejects.toThrow(ORGANIZATION_ERROR_MESSAGES.PARENT_IN_OTHER_ORGANIZATION);
+    });
+  });
+
+  describe('setUserDepartments', () => {
+    it('should replace the memberships, keeping the last role for a repeated department', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser());
+      vi.mocked(mockDepartmentRepository.findByIds).mockResolvedValue([buildDepartment()]);
+
+      await OrganizationService.setUserDepartments('user-123', [
+        { departmentId: 'dept-1', role: 'MEMBER' },
+        { departmentId: 'dept-1', role: 'MANAGER' },
+      ]);
+
+      expect(mockDepartmentRepository.replaceMembershipsForUser).toHaveBeenCalledWith('user-123', [
+        { departmentId: 'dept-1', role: 'MANAGER' },
+      ]);
+    });
+
+    it('should reject unknown users and departments', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(null);
+      await expect(OrganizationService.setUserDepartments('missing', [])).rejects.toThrow(
+        ERROR_MESSAGES.USER_NOT_FOUND
+      );
+
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser());
+      vi.mocked(mockDepartmentRepository.findByIds).mockResolvedValue([]);
+      await expect(
+        OrganizationService.setUserDepartments('user-123', [{ departmentId: 'missing', role: 'MEMBER' }])
+      ).rejects.toThrow(ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND);
+      expect(mockDepartmentRepository.replaceMembershipsForUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Department, Organization } from '@prisma/client';
+import { organizationRepository, type CreateOrganizationInput } from '../repositories/organization.repository';
+import {
+  departmentRepository,
+  type CreateDepartmentInput,
+  type DepartmentMembershipInput,
+  type DepartmentMembershipWithDepartment,
+} from '../repositories/department.repository';
+import { userRepository } from '../repositories/user.repository';
+import { ORGANIZATION_ERROR_MESSAGES, ERROR_MESSAGES } from '../auth/constants';
+import type { DepartmentAccess } from '../auth/data-scope';
+
+export interface UserDepartmentAccess {
+  departments: DepartmentAccess[];
+  // The user's departments and every team under them
+  departmentIds: string[];
+}
+
+export class OrganizationService {
+  /**
+   * The departments a user belongs to and the department ids whose data they may see
+   */
+  static async getDepartmentAccess(userId: string): Promise<UserDepartmentAccess> {
+    const memberships = await departmentRepository.findMembershipsForUser(userId);
+    if (memberships.length === 0) {
+      return { departments: [], departmentIds: [] };
+    }
+
+    const departments = memberships.map((membership) => ({
+      departmentId: membership.departmentId,
+      organizationId: membership.department.organizationId,
+      code: membership.department.code,
+      role: membership.role,
+    }));
+    const memberOf = departments.map((department) => department.departmentId);
+    const teamIds = await departmentRepository.findTeamIds(memberOf);
+
+    return {
+      departments,
+      departmentIds: Array.from(new Set([...memberOf, ...teamIds])),
+    };
+  }
+
+  /**
+   * @throws Error with ORGANIZATION_ERROR_MESSAGES.SLUG_TAKEN
+   */
+  static async createOrganization(input: CreateOrganizationInput): Promise<Organization> {
+    return organizationRepository.create(input);
+  }
+
+  /**
+   * Create a department, or a team when a parent department is given
+   * @throws Error with ORGANIZATION_ERROR_MESSAGES.ORGANIZATION_NOT_FOUND, DEPARTMENT_NOT_FOUND,
+   *   PARENT_IN_OTHER_ORGANIZATION or DEPARTMENT_CODE_TAKEN
+   */
+  static async createDepartment(input: CreateDepartmentInput): Promise<Department> {
+    const organization = await organizationRepository.findById(input.organizationId);
+    if (!organization) {
+      throw new Error(ORGANIZATION_ERROR_MESSAGES.ORGANIZATION_NOT_FOUND);
+    }
+
+    if (input.parentId) {
+      const parent = await departmentRepository.findById(input.parentId);
+      if (!parent) {
+        throw new Error(ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND);
+      }
+      if (parent.organizationId !== input.organizationId) {
+        throw new Error(ORGANIZATION_ERROR_MESSAGES.PARENT_IN_OTHER_ORGANIZATION);
+      }
+    }
+
+    return departmentRepository.create(input);
+  }
+
+  /**
+   * Replace the user's department memberships; an empty list removes them from every department
+   * @throws Error with ERROR_MESSAGES.USER_NOT_FOUND or ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND
+   */
+  static async setUserDepartments(
+    userId: string,
+    memberships: DepartmentMembershipInput[]
+  ): Promise<DepartmentMembershipWithDepartment[]> {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    }
+
+    // The last entry wins when a department is listed twice
+    const byDepartment = new Map(memberships.map((membership) => [membership.departmentId, membership]));
+    const unique = Array.from(byDepartment.values());
+
+    const departments = await departmentRepository.findByIds(unique.map((membership) => membership.departmentId));
+    if (departments.length !== unique.length) {
+      throw new Error(ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND);
+    }
+
+    return departmentRepository.replaceMembershipsForUser(userId, unique);
+  }
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PasswordResetToken } from '@prisma/client';
+import bcrypt from 'bcrypt';
+import { PasswordResetService } from './password-reset.service';
+import { SessionService, SESSION_REVOKE_REASONS } from './session.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { passwordResetTokenRepository as mockTokenRepository } from '../repositories/password-reset-token.repository';
+import { getMailTransport } from '../mail/transport';
+import { hashToken } from '../auth/secure-token';
+import { ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findByEmail: vi.fn(),
+    findById: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/password-reset-token.repository', () => ({
+  passwordResetTokenRepository: {
+    create: vi.fn(),
+    findByTokenHash: vi.fn(),
+    markUsed: vi.fn(),
+    invalidateAllForUser: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/password-history.repository', () => ({
+  passwordHistoryRepository: {
+    create: vi.fn(),
+    findRecent: vi.fn(async () => []),
+    pruneForUser: vi.fn(),
+  },
+}));
+
+vi.mock('./session.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./session.service')>();
+  return {
+    ...actual,
+    SessionService: {
+      revokeAllSessions: vi.fn(),
+    },
+  };
+});
+
+const mockSend = vi.fn();
+vi.mock('../mail/transport', () => ({
+  getMailTransport: vi.fn(() => ({ send: mockSend })),
+}));
+
+vi.mock('../auth/password', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../auth/password')>();
+  return {
+    PasswordUtils: {
+      ...actual.PasswordUtils,
+      validatePasswordStrength: actual.PasswordUtils.validatePasswordStrength,
+      verify: actual.PasswordUtils.verify,
+      hash: vi.fn(async () => 'new-password-hash'),
+    },
+  };
+});
+
+describe('PasswordResetService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const buildResetToken = (overrides: Partial<PasswordResetToken> = {}): PasswordResetToken => ({
+    id: 'reset-1',
+    userId: 'user-123',
+    tokenHash: hashToken('reset-token'),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    usedAt: null,
+    requestedIp: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  describe('requestReset', () => {
+    it('should store a hashed token and email the reset link', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser());
+
+      await PasswordResetService.requestReset('test@example.com', { ipAddress: '10.0.0.1' });
+
+      expect(mockTokenRepository.invalidateAllForUser).toHaveBeenCalledWith('user-123');
+
+      const createInput = vi.mocked(mockTokenRepository.create).mock.calls[0][0];
+      const message = mockSend.mock.calls[0][0];
+      const token = new URL(message.text.match(/https?:\/\/\S+/)[0]).searchParams.get('token');
+
+      expect(message.to).toBe('test@example.com');
+      expect(token).toBeTruthy();
+      expect(createInput.tokenHash).toBe(hashToken(token!));
+      expect(createInput.requestedIp).toBe('10.0.0.1');
+      expect(createInput.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should silently ignore unknown and disabled accounts', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValueOnce(null);
+      await PasswordResetService.requestReset('nobody@example.com');
+
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValueOnce(buildUser({ isActive: false }));
+      await PasswordResetService.requestReset('test@example.com');
+
+      expect(mockTokenRepository.create).not.toHaveBeenCalled();
+      expect(getMailTransport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should consume the token, update the password and revoke sessions', async () => {
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValue(buildResetToken());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser({ mustChangePassword: true }));
+      vi.mocked(mockTokenRepository.markUsed).mockResolvedValue(true);
+
+      await PasswordResetService.resetPassword('reset-token', 'NewPassw0rd!');
+
+      expect(mockTokenRepository.findByTokenHash).toHaveBeenCalledWith(hashToken('reset-token'));
+      expect(mockTokenRepository.markUsed).toHaveBeenCalledWith('reset-1');
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        passwordHash: 'new-password-hash',
+        passwordChangedAt: expect.any(Date),
+        mustChangePassword: false,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user-123', SESSION_REVOKE_REASONS.PASSWORD_RESET);
+    });
+
+    it('should reject weak passwords before looking up the token', async () => {
+      await expect(PasswordResetService.resetPassword('reset-token', 'weak'))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR);
+
+      expect(mockTokenRepository.findByTokenHash).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a recent password without consuming the token', async () => {
+      vi.stubEnv('PASSWORD_HISTORY_DEPTH', '1');
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValue(buildResetToken());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(
+        buildUser({ passwordHash: await bcrypt.hash('NewPassw0rd!', 4) })
+      );
+
+      await expect(PasswordResetService.resetPassword('reset-token', 'NewPassw0rd!'))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_REUSED);
+
+      expect(mockTokenRepository.markUsed).not.toHaveBeenCalled();
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+      vi.unstubAllEnvs();
+    });
+
+    it('should reject unknown, used and expired tokens', async () => {
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValueOnce(null);
+      await expect(PasswordResetService.resetPassword('unknown', 'NewPassw0rd!'))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID);
+
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValueOnce(buildResetToken({ usedAt: new Date() }));
+      await expect(PasswordResetService.resetPassword('reset-token', 'NewPassw0rd!'))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID);
+
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValueOnce(
+        buildResetToken({ expiresAt: new Date(Date.now() - 1000) })
+      );
+      await expect(PasswordResetService.resetPassword('reset-token', 'NewPassw0rd!'))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID);
+
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not change the password when the token was consumed concurrently', async () => {
+      vi.mocked(mockTokenRepository.findByTokenHash).mockResolvedValue(buildResetToken());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser());
+      vi.mocked(mockTokenRepository.markUsed).mockResolvedValue(false);
+
+      await expect(PasswordResetService.resetPassword('reset-token', 'NewPassw0rd!'))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID);
+
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+      expect(SessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+  });
+});
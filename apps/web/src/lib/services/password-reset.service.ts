@@ -0,0 +1,86 @@
+import { userRepository } from '../repositories/user.repository';
+import { passwordResetTokenRepository } from '../repositories/password-reset-token.repository';
+import { PasswordUtils } from '../auth/password';
+import { generateSecureToken, hashToken } from '../auth/secure-token';
+import { PASSWORD_RESET_CONFIG, ERROR_MESSAGES } from '../auth/constants';
+import { getMailTransport } from '../mail/transport';
+import { buildAppUrl, buildPasswordResetEmail } from '../mail/templates';
+import { SessionService, SESSION_REVOKE_REASONS, type SessionMetadata } from './session.service';
+import { PasswordService } from './password.service';
+import { User } from '@prisma/client';
+
+export class PasswordResetService {
+  /**
+   * Email a single-use reset link to the account owner
+   * Does nothing for unknown or disabled accounts, so callers must respond the same way either way
+   */
+  static async requestReset(email: string, metadata: SessionMetadata = {}): Promise<void> {
+    const user = await userRepository.findByEmail(email);
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    // Only the most recently requested link stays valid
+    await passwordResetTokenRepository.invalidateAllForUser(user.id);
+
+    const token = generateSecureToken(PASSWORD_RESET_CONFIG.TOKEN_BYTES);
+
+    await passwordResetTokenRepository.create({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + PASSWORD_RESET_CONFIG.TOKEN_TTL_MS),
+      requestedIp: metadata.ipAddress,
+    });
+
+    await getMailTransport().send(
+      buildPasswordResetEmail(
+        user.email,
+        buildAppUrl('/reset-password', { token }),
+        PASSWORD_RESET_CONFIG.TOKEN_TTL_MS / 60000
+      )
+    );
+  }
+
+  /**
+   * Set a new password using a reset token and sign the user out everywhere
+   * @returns User - The user whose password was changed
+   * @throws Error with ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR if the new password is too weak
+   * @throws Error with ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID if the token is unknown, used or expired
+   * @throws Error with ERROR_MESSAGES.PASSWORD_REUSED if the policy forbids reusing the new password
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<User> {
+    const passwordValidation = PasswordUtils.validatePasswordStrength(newPassword);
+    if (!passwordValidation.isValid) {
+      throw new Error(ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR);
+    }
+
+    const resetToken = await passwordResetTokenRepository.findByTokenHash(hashToken(token));
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() <= Date.now()) {
+      throw new Error(ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID);
+    }
+
+    const user = await userRepository.findById(resetToken.userId);
+    if (!user || !user.isActive) {
+      throw new Error(ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID);
+    }
+
+    // Checked before the token is consumed, so the user can retry the link with another password
+    await PasswordService.assertNotReused(user, newPassword);
+
+    // Consume the token before changing the password so concurrent submissions can't both succeed
+    const consumed = await passwordResetTokenRepository.markUsed(resetToken.id);
+    if (!consumed) {
+      throw new Error(ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID);
+    }
+
+    const updatedUser = await PasswordService.storePassword(user, newPassword, {
+      // A reset proves ownership, so it also lifts any brute-force lockout
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+
+    await SessionService.revokeAllSessions(user.id, SESSION_REVOKE_REASONS.PASSWORD_RESET);
+
+    return updatedUser;
+  }
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PasswordHistory } from '@prisma/client';
+import { PasswordService } from './password.service';
+import { SessionService, SESSION_REVOKE_REASONS } from './session.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { passwordHistoryRepository as mockHistoryRepository } from '../repositories/password-history.repository';
+import { DEFAULT_PASSWORD_POLICY } from '../auth/password-policy';
+import { ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/password-history.repository', () => ({
+  passwordHistoryRepository: {
+    create: vi.fn(),
+    findRecent: vi.fn(),
+    pruneForUser: vi.fn(),
+  },
+}));
+
+vi.mock('./session.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./session.service')>();
+  return {
+    ...actual,
+    SessionService: {
+      revokeAllSessions: vi.fn(),
+    },
+  };
+});
+
+// Readable stand-in for bcrypt, so hashes can be told apart in assertions
+vi.mock('../auth/password', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../auth/password')>();
+  return {
+    PasswordUtils: {
+      ...actual.PasswordUtils,
+      validatePasswordStrength: actual.PasswordUtils.validatePasswordStrength,
+      hash: vi.fn(async (password: string) => `hash:${password}`),
+      verify: vi.fn(async (password: string, hash: string | null) => hash === `hash:${password}`),
+    },
+  };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function buildHistory(passwordHash: string): PasswordHistory {
+  return { id: `history-${passwordHash}`, userId: 'user-123', passwordHash, createdAt: new Date() };
+}
+
+describe('PasswordService', () => {
+  const policy = { ...DEFAULT_PASSWORD_POLICY, maxAgeDays: 90, historyDepth: 3 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockHistoryRepository.findRecent).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('isExpired', () => {
+    it('should expire passwords older than the maximum age', () => {
+      expect(PasswordService.isExpired(
+        buildUser({ passwordChangedAt: new Date(Date.now() - 91 * DAY_MS) }),
+        policy
+      )).toBe(true);
+      expect(PasswordService.isExpired(
+        buildUser({ passwordChangedAt: new Date(Date.now() - 89 * DAY_MS) }),
+        policy
+      )).toBe(false);
+    });
+
+    it('should count from account creation when the password was never changed', () => {
+      expect(PasswordService.isExpired(
+        buildUser({ passwordChangedAt: null, createdAt: new Date(Date.now() - 100 * DAY_MS) }),
+        policy
+      )).toBe(true);
+    });
+
+    it('should never expire without a maximum age or a password', () => {
+      const oldUser = buildUser({ passwordChangedAt: new Date(0) });
+
+      expect(PasswordService.isExpired(oldUser, DEFAULT_PASSWORD_POLICY)).toBe(false);
+      expect(PasswordService.isExpired({ ...oldUser, passwordHash: null }, policy)).toBe(false);
+    });
+  });
+
+  describe('assertNotReused', () => {
+    it('should refuse the current password and those in the history', async () => {
+      const user = buildUser({ passwordHash: 'hash:Current1!' });
+      vi.mocked(mockHistoryRepository.findRecent).mockResolvedValue([buildHistory('hash:Previous1!')]);
+
+      await expect(PasswordService.assertNotReused(user, 'Current1!', policy))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_REUSED);
+      await expect(PasswordService.assertNotReused(user, 'Previous1!', policy))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_REUSED);
+      await expect(PasswordService.assertNotReused(user, 'Brand-new1!', policy)).resolves.toBeUndefined();
+
+      // The current password is one of the three
+      expect(mockHistoryRepository.findRecent).toHaveBeenCalledWith('user-123', 2);
+    });
+
+    it('should allow reuse when the policy keeps no history', async () => {
+      const user = buildUser({ passwordHash: 'hash:Current1!' });
+
+      await expect(PasswordService.assertNotReused(user, 'Current1!', DEFAULT_PASSWORD_POLICY)).resolves.toBeUndefined();
+      expect(mockHistoryRepository.findRecent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('storePassword', () => {
+    it('should save the new hash and keep the old one within the history depth', async () => {
+      const user = buildUser({ passwordHash: 'hash:Current1!', mustChangePassword: true });
+
+      await PasswordService.storePassword(user, 'Brand-new1!', { lockedUntil: null }, policy);
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        passwordHash: 'hash:Brand-new1!',
+        passwordChangedAt: expect.any(Date),
+        mustChangePassword: false,
+        lockedUntil: null,
+      });
+      expect(mockHistoryRepository.create).toHaveBeenCalledWith('user-123', 'hash:Current1!');
+      expect(mockHistoryRepository.pruneForUser).toHaveBeenCalledWith('user-123', 2);
+    });
+
+    it('should clear the history when the policy keeps none', async () => {
+      await PasswordService.storePassword(buildUser(), 'Brand-new1!', {}, DEFAULT_PASSWORD_POLICY);
+
+      expect(mockHistoryRepository.create).not.toHaveBeenCalled();
+      expect(mockHistoryRepository.pruneForUser).toHaveBeenCalledWith('user-123', 0);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password and sign out the other sessions', async () => {
+      vi.stubEnv('PASSWORD_HISTORY_DEPTH', '3');
+      const user = buildUser({ passwordHash: 'hash:Current1!' });
+
+      await PasswordService.changePassword(user, 'Current1!', 'Brand-new1!', 'session-123');
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', expect.objectContaining({
+        passwordHash: 'hash:Brand-new1!',
+      }));
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith(
+        'user-123',
+        SESSION_REVOKE_REASONS.PASSWORD_CHANGED,
+        'session-123'
+      );
+    });
+
+    it('should require the current password', async () => {
+      const user = buildUser({ passwordHash: 'hash:Current1!' });
+
+      await expect(PasswordService.changePassword(user, 'Wrong1!', 'Brand-new1!', 'session-123'))
+        .rejects.toThrow(ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply the configured policy to the new password', async () => {
+      vi.stubEnv('PASSWORD_MIN_LENGTH', '14');
+      vi.stubEnv('PASSWORD_HISTORY_DEPTH', '1');
+      const user = buildUser({ passwordHash: 'hash:Current-long1!' });
+
+      await expect(PasswordService.changePassword(user, 'Current-long1!', 'Brand-new1!', 'session-123'))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR);
+      await expect(PasswordService.changePassword(user, 'Current-long1!', 'Current-long1!', 'session-123'))
+        .rejects.toThrow(ERROR_MESSAGES.PASSWORD_REUSED);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+      expect(SessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { User } from '@prisma/client';
+import { userRepository, type UpdateUserInput } from '../repositories/user.repository';
+import { passwordHistoryRepository } from '../repositories/password-history.repository';
+import { PasswordUtils } from '../auth/password';
+import { getPasswordPolicy, type PasswordPolicy } from '../auth/password-policy';
+import { ERROR_MESSAGES } from '../auth/constants';
+import { SessionService, SESSION_REVOKE_REASONS } from './session.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PasswordUser = Pick<User, 'id' | 'passwordHash'>;
+
+export class PasswordService {
+  /**
+   * Whether the policy's maximum age has passed since the password was last set
+   * Accounts without a password (SSO only) never expire
+   */
+  static isExpired(
+    user: Pick<User, 'passwordHash' | 'passwordChangedAt' | 'createdAt'>,
+    policy: PasswordPolicy = getPasswordPolicy()
+  ): boolean {
+    if (!user.passwordHash || policy.maxAgeDays === 0) {
+      return false;
+    }
+
+    const setAt = user.passwordChangedAt ?? user.createdAt;
+    return Date.now() - setAt.getTime() >= policy.maxAgeDays * DAY_MS;
+  }
+
+  /**
+   * Refuse the current password and the ones before it, up to the policy's history depth
+   * @throws Error with ERROR_MESSAGES.PASSWORD_REUSED
+   */
+  static async assertNotReused(
+    user: PasswordUser,
+    newPassword: string,
+    policy: PasswordPolicy = getPasswordPolicy()
+  ): Promise<void> {
+    if (policy.historyDepth === 0) {
+      return;
+    }
+
+    // History only holds replaced passwords; the current one counts towards the depth
+    const previous = policy.historyDepth > 1
+      ? await passwordHistoryRepository.findRecent(user.id, policy.historyDepth - 1)
+      : [];
+    const hashes = [user.passwordHash, ...previous.map((entry) => entry.passwordHash)];
+
+    for (const hash of hashes) {
+      if (await PasswordUtils.verify(newPassword, hash)) {
+        throw new Error(ERROR_MESSAGES.PASSWORD_REUSED);
+      }
+    }
+  }
+
+  /**
+   * Replace the user's password, keeping the old hash for the reuse check
+   * The strength and reuse checks are up to the caller, which may want to run them first
+   * @param changes - Further updates to apply with the new password
+   */
+  static async storePassword(
+    user: PasswordUser,
+    newPassword: string,
+    changes: Omit<UpdateUserInput, 'passwordHash' | 'passwordChangedAt'> = {},
+    policy: PasswordPolicy = getPasswordPolicy()
+  ): Promise<User> {
+    const updatedUser = await userRepository.update(user.id, {
+      passwordHash: await PasswordUtils.hash(newPassword),
+      passwordChangedAt: new Date(),
+      mustChangePassword: false,
+      ...changes,
+    });
+
+    if (user.passwordHash && policy.historyDepth > 1) {
+      await passwordHistoryRepository.create(user.id, user.passwordHash);
+    }
+    // Also drops entries kept under a deeper policy than the current one
+    await passwordHistoryRepository.pruneForUser(user.id, Math.max(policy.historyDepth - 1, 0));
+
+    return updatedUser;
+  }
+
+  /**
+   * Change a password on the user's own request and sign out their other sessions
+   * @param currentSessionId - Session that made the change, which stays signed in
+   * @throws Error with ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT, PASSWORD_STRENGTH_ERROR or PASSWORD_REUSED
+   */
+  static async changePassword(
+    user: PasswordUser,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId: string
+  ): Promise<User> {
+    const policy = getPasswordPolicy();
+
+    if (!(await PasswordUtils.verify(currentPassword, user.passwordHash))) {
+      throw new Error(ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT);
+    }
+    if (!PasswordUtils.validatePasswordStrength(newPassword, policy).isValid) {
+      throw new Error(ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR);
+    }
+    await this.assertNotReused(user, newPassword, policy);
+
+    const updatedUser = await this.storePassword(user, newPassword, {}, policy);
+
+    await SessionService.revokeAllSessions(user.id, SESSION_REVOKE_REASONS.PASSWORD_CHANGED, currentSessionId);
+
+    return updatedUser;
+  }
+}
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SessionService, SESSION_ERROR_MESSAGES, SESSION_REVOKE_REASONS } from './session.service';
+import { sessionRepository as mockSessionRepository } from '../repositories/session.repository';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { hashToken } from '../auth/secure-token';
+import { decodeJWT } from '../auth/jwt';
+import { IMPERSONATION_CONFIG } from '../auth/constants';
+import { Session, User } from '@prisma/client';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/session.repository', () => ({
+  sessionRepository: {
+    create: vi.fn(),
+    findById: vi.fn(),
+    rotate: vi.fn(),
+    revoke: vi.fn(),
+    revokeAllForUser: vi.fn(),
+    findActiveForUser: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+    recordLogin: vi.fn(),
+  },
+}));
+
+describe('SessionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const mockUser: User = buildUser();
+
+  const currentSecret = 'current-secret';
+
+  const buildSession = (overrides: Partial<Session> = {}): Session => ({
+    id: 'session-123',
+    userId: mockUser.id,
+    refreshTokenHash: hashToken(currentSecret),
+    previousTokenHash: null,
+    rotatedAt: null,
+    userAgent: null,
+    ipAddress: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    lastSeenAt: new Date(),
+    revokedAt: null,
+    revokedReason: null,
+    impersonatorId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  describe('createSession', () => {
+    it('should store hashed refresh token and issue token pair', async () => {
+      vi.mocked(mockSessionRepository.create).mockImplementation(async (data) =>
+        buildSession({ refreshTokenHash: data.refreshTokenHash })
+      );
+
+      const result = await SessionService.createSession(mockUser, {
+        userAgent: 'Mozilla/5.0',
+        ipAddress: '10.0.0.1',
+      });
+
+      const createInput = vi.mocked(mockSessionRepository.create).mock.calls[0][0];
+      const [sessionId, secret] = result.refreshToken.split('.');
+
+      expect(sessionId).toBe('session-123');
+      expect(createInput.refreshTokenHash).toBe(hashToken(secret));
+      expect(createInput.refreshTokenHash).not.toContain(secret);
+      expect(createInput.userAgent).toBe('Mozilla/5.0');
+      expect(createInput.ipAddress).toBe('10.0.0.1');
+      expect(decodeJWT(result.accessToken)).toEqual(expect.objectContaining({
+        userId: mockUser.id,
+        email: mockUser.email,
+        sessionId: 'session-123',
+      }));
+      expect(mockUserRepository.recordLogin).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should still sign in when the login cannot be recorded', async () => {
+      vi.mocked(mockSessionRepository.create).mockResolvedValue(buildSession());
+      vi.mocked(mockUserRepository.recordLogin).mockRejectedValueOnce(new Error('Failed to record login'));
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await SessionService.createSession(mockUser);
+
+      expect(result.session.id).toBe('session-123');
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('createImpersonationSession', () => {
+    it('should issue a short-lived token marked with the administrator', async () => {
+      vi.mocked(mockSessionRepository.create).mockResolvedValue(buildSession({ impersonatorId: 'admin-1' }));
+
+      const result = await SessionService.createImpersonationSession(mockUser, 'admin-1');
+
+      const createInput = vi.mocked(mockSessionRepository.create).mock.calls[0][0];
+      const payload = decodeJWT(result.accessToken);
+
+      expect(createInput.impersonatorId).toBe('admin-1');
+      expect(createInput.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(
+        IMPERSONATION_CONFIG.TOKEN_TTL_SECONDS * 1000
+      );
+      expect(payload).toEqual(expect.objectContaining({ userId: mockUser.id, impersonatorId: 'admin-1' }));
+      expect(payload!.exp! - payload!.iat!).toBe(IMPERSONATION_CONFIG.TOKEN_TTL_SECONDS);
+      expect(mockUserRepository.recordLogin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should rotate refresh token for a valid session', async () => {
+      const session = buildSession();
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(session);
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(mockUser);
+      vi.mocked(mockSessionRepository.rotate).mockImplementation(async (_id, data) =>
+        buildSession({ refreshTokenHash: data.refreshTokenHash })
+      );
+
+      const result = await SessionService.refreshSession(`session-123.${currentSecret}`);
+
+      const rotateInput = vi.mocked(mockSessionRepository.rotate).mock.calls[0][1];
+      expect(rotateInput.previousTokenHash).toBe(session.refreshTokenHash);
+      expect(rotateInput.refreshTokenHash).not.toBe(session.refreshTokenHash);
+      expect(result.refreshToken).not.toBe(`session-123.${currentSecret}`);
+      expect(result.refreshToken.startsWith('session-123.')).toBe(true);
+      expect(decodeJWT(result.accessToken)?.sessionId).toBe('session-123');
+    });
+
+    it('should reject malformed refresh tokens', async () => {
+      await expect(SessionService.refreshSession('no-separator'))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+
+      expect(mockSessionRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown sessions', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(null);
+
+      await expect(SessionService.refreshSession(`session-404.${currentSecret}`))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+    });
+
+    it('should reject revoked sessions', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(
+        buildSession({ revokedAt: new Date() })
+      );
+
+      await expect(SessionService.refreshSession(`session-123.${currentSecret}`))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.SESSION_REVOKED);
+    });
+
+    it('should reject expired sessions', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(
+        buildSession({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(SessionService.refreshSession(`session-123.${currentSecret}`))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_EXPIRED);
+    });
+
+    it('should revoke the session when a rotated refresh token is reused', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(
+        buildSession({
+          previousTokenHash: hashToken('old-secret'),
+          rotatedAt: new Date(Date.now() - 60 * 1000),
+        })
+      );
+
+      await expect(SessionService.refreshSession('session-123.old-secret'))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_REUSED);
+
+      expect(mockSessionRepository.revoke).toHaveBeenCalledWith(
+        'session-123',
+        SESSION_REVOKE_REASONS.REFRESH_TOKEN_REUSE
+      );
+      expect(mockSessionRepository.rotate).not.toHaveBeenCalled();
+    });
+
+    it('should not revoke the session for a secret it never issued', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(
+        buildSession({
+          previousTokenHash: hashToken('old-secret'),
+          rotatedAt: new Date(Date.now() - 60 * 1000),
+        })
+      );
+
+      await expect(SessionService.refreshSession('session-123.guessed-secret'))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+      await expect(SessionService.refreshSession('session-123.guessed-secret'))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+
+      expect(mockSessionRepository.revoke).not.toHaveBeenCalled();
+      expect(mockSessionRepository.rotate).not.toHaveBeenCalled();
+    });
+
+    it('should not revoke the session for a concurrent refresh within the grace period', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(
+        buildSession({
+          previousTokenHash: hashToken('old-secret'),
+          rotatedAt: new Date(),
+        })
+      );
+
+      await expect(SessionService.refreshSession('session-123.old-secret'))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_ROTATED);
+
+      expect(mockSessionRepository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should not issue tokens when a concurrent refresh rotated the session first', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(buildSession());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(mockUser);
+      vi.mocked(mockSessionRepository.rotate).mockResolvedValue(null);
+
+      await expect(SessionService.refreshSession(`session-123.${currentSecret}`))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_ROTATED);
+
+      expect(mockSessionRepository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when the user no longer exists', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(buildSession());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(null);
+
+      await expect(SessionService.refreshSession(`session-123.${currentSecret}`))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+
+      expect(mockSessionRepository.revoke).toHaveBeenCalledWith(
+        'session-123',
+        SESSION_REVOKE_REASONS.USER_NOT_FOUND
+      );
+    });
+
+    it('should revoke the session when the user has been disabled', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(buildSession());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser({ isActive: false }));
+
+      await expect(SessionService.refreshSession(`session-123.${currentSecret}`))
+        .rejects.toThrow(SESSION_ERROR_MESSAGES.SESSION_REVOKED);
+
+      expect(mockSessionRepository.revoke).toHaveBeenCalledWith(
+        'session-123',
+        SESSION_REVOKE_REASONS.USER_DISABLED
+      );
+      expect(mockSessionRepository.rotate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should accept an active session of the user', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(buildSession());
+
+      await expect(SessionService.isSessionActive('session-123', mockUser.id)).resolves.toBe(true);
+    });
+
+    it('should reject revoked, expired, foreign or unknown sessions', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValueOnce(buildSession({ revokedAt: new Date() }));
+      await expect(SessionService.isSessionActive('session-123', mockUser.id)).resolves.toBe(false);
+
+      vi.mocked(mockSessionRepository.findById).mockResolvedValueOnce(
+        buildSession({ expiresAt: new Date(Date.now() - 1000) })
+      );
+      await expect(SessionService.isSessionActive('session-123', mockUser.id)).resolves.toBe(false);
+
+      vi.mocked(mockSessionRepository.findById).mockResolvedValueOnce(buildSession());
+      await expect(SessionService.isSessionActive('session-123', 'other-user')).resolves.toBe(false);
+
+      vi.mocked(mockSessionRepository.findById).mockResolvedValueOnce(null);
+      await expect(SessionService.isSessionActive('session-404', mockUser.id)).resolves.toBe(false);
+    });
+  });
+
+  describe('revokeUserSession', () => {
+    it('should revoke another active session of the user', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValue(buildSession({ id: 'session-456' }));
+
+      await SessionService.revokeUserSession(mockUser.id, 'session-456', 'session-123');
+
+      expect(mockSessionRepository.revoke).toHaveBeenCalledWith('session-456', SESSION_REVOKE_REASONS.REVOKED_BY_USER);
+    });
+
+    it('should refuse the current session', async () => {
+      await expect(SessionService.revokeUserSession(mockUser.id, 'session-123', 'session-123')).rejects.toThrow(
+        SESSION_ERROR_MESSAGES.CANNOT_REVOKE_CURRENT_SESSION
+      );
+      expect(mockSessionRepository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should report sessions of other users and ended sessions as not found', async () => {
+      vi.mocked(mockSessionRepository.findById).mockResolvedValueOnce(buildSession({ userId: 'other-user' }));
+      await expect(SessionService.revokeUserSession(mockUser.id, 'session-456', 'session-123')).rejects.toThrow(
+        SESSION_ERROR_MESSAGES.SESSION_NOT_FOUND
+      );
+
+      vi.mocked(mockSessionRepository.findById).mockResolvedValueOnce(buildSession({ revokedAt: new Date() }));
+      await expect(SessionService.revokeUserSession(mockUser.id, 'session-456', 'session-123')).rejects.toThrow(
+        SESSION_ERROR_MESSAGES.SESSION_NOT_FOUND
+      );
+      expect(mockSessionRepository.revoke).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import { Session, User } from '@prisma/client';
+import { sessionRepository } from '../repositories/session.repository';
+import { userRepository } from '../repositories/user.repository';
+import { signJWT } from '../auth/jwt';
+import { generateSecureToken, hashToken, compareTokenHashes } from '../auth/secure-token';
+import { IMPERSONATION_CONFIG, SESSION_CONFIG } from '../auth/constants';
+
+export const SESSION_ERROR_MESSAGES = {
+  REFRESH_TOKEN_INVALID: 'Refresh token is invalid',
+  REFRESH_TOKEN_EXPIRED: 'Refresh token has expired',
+  REFRESH_TOKEN_REUSED: 'Refresh token reuse detected, session has been revoked',
+  // A concurrent refresh got there first; retrying with the new cookies succeeds
+  REFRESH_TOKEN_ROTATED: 'Refresh token has already been rotated',
+  SESSION_REVOKED: 'Session has been revoked',
+  SESSION_NOT_FOUND: 'Session not found',
+  CANNOT_REVOKE_CURRENT_SESSION: 'Log out to end the current session',
+} as const;
+
+export const SESSION_REVOKE_REASONS = {
+  REFRESH_TOKEN_REUSE: 'refresh_token_reuse',
+  USER_NOT_FOUND: 'user_not_found',
+  USER_DISABLED: 'user_disabled',
+  PASSWORD_RESET: 'password_reset',
+  PASSWORD_CHANGED: 'password_changed',
+  LOGOUT: 'logout',
+  LOGOUT_ALL: 'logout_all',
+  REVOKED_BY_USER: 'revoked_by_user',
+  ACCOUNT_DELETED: 'account_deleted',
+  IMPERSONATION_ENDED: 'impersonation_ended',
+} as const;
+
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface IssuedSession {
+  session: Session;
+  accessToken: string;
+  refreshToken: string;
+}
+
+export class SessionService {
+  /**
+   * Refresh tokens are `<sessionId>.<secret>`; only the secret's hash is stored
+   */
+  private static buildRefreshToken(sessionId: string, secret: string): string {
+    return `${sessionId}.${secret}`;
+  }
+
+  private static parseRefreshToken(refreshToken: string): { sessionId: string; secret: string } | null {
+    const separatorIndex = refreshToken.indexOf('.');
+    if (separatorIndex <= 0 || separatorIndex === refreshToken.length - 1) {
+      return null;
+    }
+
+    return {
+      sessionId: refreshToken.slice(0, separatorIndex),
+      secret: refreshToken.slice(separatorIndex + 1),
+    };
+  }
+
+  private static signAccessToken(user: Pick<User, 'id' | 'email' | 'role'>, sessionId: string): Promise<string> {
+    return signJWT({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId,
+    });
+  }
+
+  /**
+   * Create a new server-side session and issue its first token pair
+   * @param user - Authenticated user
+   * @param metadata - Client information recorded on the session
+   */
+  static async createSession(
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    metadata: SessionMetadata = {}
+  ): Promise<IssuedSession> {
+    const secret = generateSecureToken(SESSION_CONFIG.REFRESH_TOKEN_BYTES);
+
+    const session = await sessionRepository.create({
+      userId: user.id,
+      refreshTokenHash: hashToken(secret),
+      expiresAt: new Date(Date.now() + SESSION_CONFIG.REFRESH_TOKEN_TTL_MS),
+      userAgent: metadata.userAgent,
+      ipAddress: metadata.ipAddress,
+    });
+
+    const accessToken = await this.signAccessToken(user, session.id);
+
+    // Every session starts with a sign-in; the count only feeds statistics, so it never blocks one
+    try {
+      await userRepository.recordLogin(user.id);
+    } catch (error) {
+      console.error('Error recording login:', error);
+    }
+
+    return {
+      session,
+      accessToken,
+      refreshToken: this.buildRefreshToken(session.id, secret),
+    };
+  }
+
+  /**
+   * Create a session in which an administrator acts as `user`
+   * Only a short-lived access token carrying impersonatorId is issued, so the session cannot be
+   * refreshed and ends when the token expires. It does not count as a sign-in of the user
+   */
+  static async createImpersonationSession(
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    impersonatorId: string,
+    metadata: SessionMetadata = {}
+  ): Promise<{ session: Session; accessToken: string }> {
+    const session = await sessionRepository.create({
+      userId: user.id,
+      // Nobody holds the secret, so no refresh token for this session exists
+      refreshTokenHash: hashToken(generateSecureToken(SESSION_CONFIG.REFRESH_TOKEN_BYTES)),
+      expiresAt: new Date(Date.now() + IMPERSONATION_CONFIG.TOKEN_TTL_SECONDS * 1000),
+      userAgent: metadata.userAgent,
+      ipAddress: metadata.ipAddress,
+      impersonatorId,
+    });
+
+    const accessToken = await signJWT(
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        sessionId: session.id,
+        impersonatorId,
+      },
+      IMPERSONATION_CONFIG.TOKEN_TTL_SECONDS
+    );
+
+    return { session, accessToken };
+  }
+
+  /**
+   * Rotate a refresh token and issue a new access token.
+   * Presenting the refresh token the session last rotated away from revokes the whole session,
+   * since it means the token was copied and used by someone else. A concurrent refresh that
+   * lost the race, or arrives within the grace period, gets REFRESH_TOKEN_ROTATED instead.
+   * Any other secret is rejected as invalid and leaves the session alone.
+   * @throws Error with a SESSION_ERROR_MESSAGES message if the token cannot be refreshed
+   */
+  static async refreshSession(
+    refreshToken: string,
+    metadata: SessionMetadata = {}
+  ): Promise<IssuedSession> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+    }
+
+    const session = await sessionRepository.findById(parsed.sessionId);
+    if (!session) {
+      throw new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+    }
+
+    if (session.revokedAt) {
+      throw new Error(SESSION_ERROR_MESSAGES.SESSION_REVOKED);
+    }
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      throw new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_EXPIRED);
+    }
+
+    const presentedHash = hashToken(parsed.secret);
+
+    if (!compareTokenHashes(presentedHash, session.refreshTokenHash)) {
+      // Session ids are not secret, so only the token this session last rotated away from
+      // proves a copy is in use; any other secret is a guess and must not end the session
+      const isPreviousToken =
+        session.previousTokenHash !== null && compareTokenHashes(presentedHash, session.previousTokenHash);
+      if (!isPreviousToken) {
+        throw new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+      }
+
+      const isWithinGracePeriod =
+        session.rotatedAt !== null &&
+        Date.now() - session.rotatedAt.getTime() <= SESSION_CONFIG.ROTATION_GRACE_MS;
+      if (isWithinGracePeriod) {
+        throw new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_ROTATED);
+      }
+
+      await sessionRepository.revoke(session.id, SESSION_REVOKE_REASONS.REFRESH_TOKEN_REUSE);
+      throw new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_REUSED);
+    }
+
+    const user = await userRepository.findById(session.userId);
+    if (!user) {
+      await sessionRepository.revoke(session.id, SESSION_REVOKE_REASONS.USER_NOT_FOUND);
+      throw new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+    }
+
+    if (!user.isActive) {
+      await sessionRepository.revoke(session.id, SESSION_REVOKE_REASONS.USER_DISABLED);
+      throw new Error(SESSION_ERROR_MESSAGES.SESSION_REVOKED);
+    }
+
+    const secret = generateSecureToken(SESSION_CONFIG.REFRESH_TOKEN_BYTES);
+
+    const rotatedSession = await sessionRepository.rotate(session.id, {
+      refreshTokenHash: hashToken(secret),
+      previousTokenHash: session.refreshTokenHash,
+      userAgent: metadata.userAgent,
+      ipAddress: metadata.ipAddress,
+    });
+    if (!rotatedSession) {
+      throw new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_ROTATED);
+    }
+
+    const accessToken = await this.signAccessToken(user, session.id);
+
+    return {
+      session: rotatedSession,
+      accessToken,
+      refreshToken: this.buildRefreshToken(session.id, secret),
+    };
+  }
+
+  /**
+   * Check that a session referenced by an access token can still be used
+   * @param sessionId - Session ID from the access token
+   * @param userId - User ID from the access token
+   * @returns boolean - False if the session is unknown, revoked, expired or belongs to another user
+   */
+  static async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await sessionRepository.findById(sessionId);
+
+    return (
+      session !== null &&
+      session.userId === userId &&
+      session.revokedAt === null &&
+      session.expiresAt.getTime() > Date.now()
+    );
+  }
+
+  /**
+   * Sessions the user is signed in with, most recently used first
+   */
+  static async listActiveSessions(userId: string): Promise<Session[]> {
+    return sessionRepository.findActiveForUser(userId);
+  }
+
+  /**
+   * Sign one of the user's other devices out
+   * @param currentSessionId - The session making the request, which must use logout instead
+   * @throws Error with SESSION_ERROR_MESSAGES.SESSION_NOT_FOUND if the session is not the user's or already ended
+   * @throws Error with SESSION_ERROR_MESSAGES.CANNOT_REVOKE_CURRENT_SESSION
+   */
+  static async revokeUserSession(userId: string, sessionId: string, currentSessionId: string): Promise<void> {
+    if (sessionId === currentSessionId) {
+      throw new Error(SESSION_ERROR_MESSAGES.CANNOT_REVOKE_CURRENT_SESSION);
+    }
+
+    // Another user's session is reported as missing so session ids can't be probed
+    const isActive = await this.isSessionActive(sessionId, userId);
+    if (!isActive) {
+      throw new Error(SESSION_ERROR_MESSAGES.SESSION_NOT_FOUND);
+    }
+
+    await sessionRepository.revoke(sessionId, SESSION_REVOKE_REASONS.REVOKED_BY_USER);
+  }
+
+  /**
+   * Revoke a single session so its refresh and access tokens stop working
+   */
+  static async revokeSession(sessionId: string, reason: string): Promise<void> {
+    await sessionRepository.revoke(sessionId, reason);
+  }
+
+  /**
+   * Revoke every active session of a user
+   * @param exceptSessionId - Session to keep, e.g. the one that changed the password
+   * @returns number - Count of sessions revoked
+   */
+  static async revokeAllSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+    return sessionRepository.revokeAllForUser(userId, reason, exceptSessionId);
+  }
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { SigningKeyStore } from '../signing-keys/types';
+import { JWT_CONFIG } from '../auth/jwt-claims';
+import { IMPERSONATION_CONFIG, SIGNING_KEY_CONFIG } from '../auth/constants';
+
+// Retired keys outlive every token they signed, impersonation tokens being the longest-lived
+const RETIRED_KEY_LIFETIME_MS =
+  Math.max(JWT_CONFIG.EXPIRY_SECONDS, IMPERSONATION_CONFIG.TOKEN_TTL_SECONDS) * 1000 + SIGNING_KEY_CONFIG.CACHE_TTL_MS;
+
+describe('SigningKeyService', () => {
+  let SigningKeyService: typeof import('./signing-key.service').SigningKeyService;
+  let store: SigningKeyStore;
+
+  beforeEach(async () => {
+    // Fresh keyring, cache and in-memory store for every test
+    vi.resetModules();
+    ({ SigningKeyService } = await import('./signing-key.service'));
+    store = (await import('../signing-keys/store')).getSigningKeyStore();
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('getConfiguredAlgorithm', () => {
+    it('should default to RS256', () => {
+      expect(SigningKeyService.getConfiguredAlgorithm({})).toBe('RS256');
+    });
+
+    it('should read JWT_SIGNING_ALGORITHM', () => {
+      expect(SigningKeyService.getConfiguredAlgorithm({ JWT_SIGNING_ALGORITHM: 'EdDSA' })).toBe('EdDSA');
+    });
+
+    it('should reject unsupported algorithms', () => {
+      expect(() => SigningKeyService.getConfiguredAlgorithm({ JWT_SIGNING_ALGORITHM: 'HS256' }))
+        .toThrow('Unknown JWT_SIGNING_ALGORITHM: HS256');
+    });
+  });
+
+  describe('getSigningKey', () => {
+    it('should create the first key on demand, once for concurrent callers', async () => {
+      const [first, second] = await Promise.all([
+        SigningKeyService.getSigningKey(),
+        SigningKeyService.getSigningKey(),
+      ]);
+
+      expect(first.kid).toBe(second.kid);
+      expect(first.algorithm).toBe(JWT_CONFIG.DEFAULT_ALGORITHM);
+      expect(first.privateKey.type).toBe('private');
+      expect(await store.listUsable()).toHaveLength(1);
+    });
+  });
+
+  describe('rotate', () => {
+    it('should sign with the new key and keep the old one until its tokens expire', async () => {
+      const original = await SigningKeyService.rotate('EdDSA');
+
+      vi.advanceTimersByTime(60_000);
+      const rotated = await SigningKeyService.rotate('EdDSA');
+
+      expect((await SigningKeyService.getSigningKey()).kid).toBe(rotated.kid);
+      expect(await SigningKeyService.listKeys()).toEqual([
+        expect.objectContaining({ kid: rotated.kid, retiredAt: null, expiresAt: null }),
+        expect.objectContaining({
+          kid: original.kid,
+          retiredAt: new Date('2025-01-01T00:01:00Z'),
+          expiresAt: new Date(Date.now() + RETIRED_KEY_LIFETIME_MS),
+        }),
+      ]);
+      expect(await SigningKeyService.getVerificationKey(original.kid)).toMatchObject({ kid: original.kid });
+    });
+
+    it('should keep verifying an impersonation token signed just before the rotation', async () => {
+      const { signJWT, verifyJWT } = await import('../auth/jwt');
+      await SigningKeyService.rotate('EdDSA');
+      const token = await signJWT(
+        {
+          userId: 'user-123',
+          email: 'test@example.com',
+          role: 'VIEWER',
+          sessionId: 'session-123',
+          impersonatorId: 'admin-123',
+        },
+        IMPERSONATION_CONFIG.TOKEN_TTL_SECONDS
+      );
+
+      await SigningKeyService.rotate('EdDSA');
+      vi.advanceTimersByTime((IMPERSONATION_CONFIG.TOKEN_TTL_SECONDS - 1) * 1000);
+
+      await expect(verifyJWT(token)).resolves.toMatchObject({ impersonatorId: 'admin-123' });
+    });
+
+    it('should drop retired keys once they expire', async () => {
+      const original = await SigningKeyService.rotate('EdDSA');
+      await SigningKeyService.rotate('EdDSA');
+
+      vi.advanceTimersByTime(RETIRED_KEY_LIFETIME_MS);
+
+      expect(await SigningKeyService.getVerificationKey(original.kid)).toBeNull();
+      expect((await SigningKeyService.getPublicJWKS()).keys.map((key) => key.kid))
+        .not.toContain(original.kid);
+    });
+  });
+
+  describe('getPublicJWKS', () => {
+    it('should publish only the public half of every usable key', async () => {
+      const rsaKey = await SigningKeyService.rotate('RS256');
+      const edKey = await SigningKeyService.rotate('EdDSA');
+
+      const { keys } = await SigningKeyService.getPublicJWKS();
+
+      expect(keys).toEqual([
+        { kid: edKey.kid, alg: 'EdDSA', use: 'sig', kty: 'OKP', crv: 'Ed25519', x: expect.any(String) },
+        { kid: rsaKey.kid, alg: 'RS256', use: 'sig', kty: 'RSA', n: expect.any(String), e: 'AQAB' },
+      ]);
+    });
+  });
+
+  describe('getVerificationKey', () => {
+    it('should reload the keyring for a key rotated in on another instance', async () => {
+      await SigningKeyService.rotate('EdDSA');
+
+      // Another instance rotates through the shared store
+      vi.advanceTimersByTime(SIGNING_KEY_CONFIG.MIN_RELOAD_INTERVAL_MS);
+      const { kid } = await store.rotate({
+        kid: 'rotated-elsewhere',
+        algorithm: 'EdDSA',
+        publicKey: { kid: 'rotated-elsewhere', alg: 'EdDSA', use: 'sig', kty: 'OKP', crv: 'Ed25519', x: 'x' },
+        privateKey: 'unused',
+      }, new Date(Date.now() + 60_000));
+
+      expect(await SigningKeyService.getVerificationKey(kid)).toMatchObject({ kid });
+    });
+
+    it('should not read the store for every unknown kid', async () => {
+      await SigningKeyService.rotate('EdDSA');
+      const listUsable = vi.spyOn(store, 'listUsable');
+
+      expect(await SigningKeyService.getVerificationKey('forged-1')).toBeNull();
+      expect(await SigningKeyService.getVerificationKey('forged-2')).toBeNull();
+
+      expect(listUsable).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { createPrivateKey, generateKeyPair, type KeyObject } from 'crypto';
+import { promisify } from 'util';
+import { getSigningKeyStore } from '../signing-keys/store';
+import type { NewSigningKey, SigningKeyRecord } from '../signing-keys/types';
+import {
+  JWT_CONFIG,
+  isSigningAlgorithm,
+  type JSONWebKeySet,
+  type PublicSigningKey,
+  type SigningAlgorithm,
+} from '../auth/jwt-claims';
+import { generateSecureToken } from '../auth/secure-token';
+import { IMPERSONATION_CONFIG, SIGNING_KEY_CONFIG } from '../auth/constants';
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+export interface ActiveSigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  privateKey: KeyObject;
+}
+
+export interface SigningKeySummary {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  createdAt: Date;
+  retiredAt: Date | null;
+  expiresAt: Date | null;
+}
+
+function toSummary(key: SigningKeyRecord): SigningKeySummary {
+  return {
+    kid: key.kid,
+    algorithm: key.algorithm,
+    createdAt: key.createdAt,
+    retiredAt: key.retiredAt,
+    expiresAt: key.expiresAt,
+  };
+}
+
+function isUsable(key: SigningKeyRecord, now: number): boolean {
+  return key.expiresAt === null || key.expiresAt.getTime() > now;
+}
+
+/**
+ * Keyring for access token signatures
+ * The newest unretired key signs; every usable key verifies and is published in the JWKS
+ * document. Each instance caches the keyring for SIGNING_KEY_CONFIG.CACHE_TTL_MS
+ */
+export class SigningKeyService {
+  private static keyring: { keys: SigningKeyRecord[]; loadedAt: number } | null = null;
+  private static privateKeys = new Map<string, KeyObject>();
+  private static pendingFirstKey: Promise<SigningKeyRecord> | null = null;
+
+  /**
+   * Algorithm for new keys, from JWT_SIGNING_ALGORITHM (RS256 | EdDSA)
+   * @throws Error if JWT_SIGNING_ALGORITHM names an unsupported algorithm
+   */
+  static getConfiguredAlgorithm(env: Partial<NodeJS.ProcessEnv> = process.env): SigningAlgorithm {
+    const algorithm = env.JWT_SIGNING_ALGORITHM;
+    if (!algorithm) {
+      return JWT_CONFIG.DEFAULT_ALGORITHM;
+    }
+    if (!isSigningAlgorithm(algorithm)) {
+      throw new Error(`Unknown JWT_SIGNING_ALGORITHM: ${algorithm}`);
+    }
+    return algorithm;
+  }
+
+  private static async loadKeys(): Promise<SigningKeyRecord[]> {
+    const keys = await getSigningKeyStore().listUsable();
+    this.keyring = { keys, loadedAt: Date.now() };
+    return keys;
+  }
+
+  private static async getKeys(): Promise<SigningKeyRecord[]> {
+    const now = Date.now();
+    if (this.keyring && now - this.keyring.loadedAt < SIGNING_KEY_CONFIG.CACHE_TTL_MS) {
+      return this.keyring.keys.filter((key) => isUsable(key, now));
+    }
+    return this.loadKeys();
+  }
+
+  private static async generateKey(algorithm: SigningAlgorithm): Promise<NewSigningKey> {
+    const { publicKey, privateKey } = algorithm === 'RS256'
+      ? await generateKeyPairAsync('rsa', { modulusLength: SIGNING_KEY_CONFIG.RSA_MODULUS_LENGTH })
+      : await generateKeyPairAsync('ed25519');
+    const kid = generateSecureToken(SIGNING_KEY_CONFIG.KID_BYTES);
+
+    return {
+      kid,
+      algorithm,
+      publicKey: { ...publicKey.export({ format: 'jwk' }), kid, alg: algorithm, use: 'sig' },
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    };
+  }
+
+  private static getPrivateKey(key: SigningKeyRecord): KeyObject {
+    let privateKey = this.privateKeys.get(key.kid);
+    if (!privateKey) {
+      privateKey = createPrivateKey(key.privateKey);
+      this.privateKeys.set(key.kid, privateKey);
+    }
+    return privateKey;
+  }
+
+  /**
+   * Get the key that signs new tokens, creating the first key if the keyring is empty
+   */
+  static async getSigningKey(): Promise<ActiveSigningKey> {
+    let current = (await this.getKeys()).find((key) => key.retiredAt === null);
+
+    if (!current) {
+      // Concurrent first logins on this instance share one new key
+      this.pendingFirstKey ??= this.rotateKeys(this.getConfiguredAlgorithm()).finally(() => {
+        this.pendingFirstKey = null;
+      });
+      current = await this.pendingFirstKey;
+    }
+
+    return {
+      kid: current.kid,
+      algorithm: current.algorithm,
+      privateKey: this.getPrivateKey(current),
+    };
+  }
+
+  /**
+   * Find the public key for a token's kid
+   * An unknown kid reloads the keyring, since another instance may have rotated since it was loaded
+   * @returns PublicSigningKey | null - Null if no usable key has that id
+   */
+  static async getVerificationKey(kid: string): Promise<PublicSigningKey | null> {
+    const key = (await this.getKeys()).find((candidate) => candidate.kid === kid);
+    if (key) {
+      return key.publicKey;
+    }
+
+    // Forged kids must not turn every request into a store read
+    if (this.keyring && Date.now() - this.keyring.loadedAt < SIGNING_KEY_CONFIG.MIN_RELOAD_INTERVAL_MS) {
+      return null;
+    }
+
+    const reloaded = (await this.loadKeys()).find((candidate) => candidate.kid === kid);
+    return reloaded?.publicKey ?? null;
+  }
+
+  /**
+   * Public keys of every usable key, for /.well-known/jwks.json
+   * Served at most MIN_RELOAD_INTERVAL_MS stale, because clients refetch it when they see a new kid
+   */
+  static async getPublicJWKS(): Promise<JSONWebKeySet> {
+    const isFresh = this.keyring && Date.now() - this.keyring.loadedAt < SIGNING_KEY_CONFIG.MIN_RELOAD_INTERVAL_MS;
+    const keys = isFresh ? await this.getKeys() : await this.loadKeys();
+    return { keys: keys.map((key) => key.publicKey) };
+  }
+
+  /**
+   * List usable keys, newest first, read from the store rather than this instance's cache
+   */
+  static async listKeys(): Promise<SigningKeySummary[]> {
+    return (await this.loadKeys()).map(toSummary);
+  }
+
+  /**
+   * Start signing with a new key
+   * The previous key keeps verifying until every token it signed has expired
+   * @param algorithm - Algorithm for the new key, defaults to JWT_SIGNING_ALGORITHM
+   */
+  static async rotate(algorithm: SigningAlgorithm = this.getConfiguredAlgorithm()): Promise<SigningKeySummary> {
+    return toSummary(await this.rotateKeys(algorithm));
+  }
+
+  private static async rotateKeys(algorithm: SigningAlgorithm): Promise<SigningKeyRecord> {
+    const key = await this.generateKey(algorithm);
+
+    // Other instances may sign with the old key until their cached keyring expires,
+    // and those tokens live as long as the longest-lived token type, impersonation included
+    const longestTokenLifetimeSeconds = Math.max(JWT_CONFIG.EXPIRY_SECONDS, IMPERSONATION_CONFIG.TOKEN_TTL_SECONDS);
+    const retiredKeysExpireAt = new Date(
+      Date.now() + longestTokenLifetimeSeconds * 1000 + SIGNING_KEY_CONFIG.CACHE_TTL_MS
+    );
+    const record = await getSigningKeyStore().rotate(key, retiredKeysExpireAt);
+
+    await this.loadKeys();
+    return record;
+  }
+}
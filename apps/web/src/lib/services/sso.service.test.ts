@@ -0,0 +1,274 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll, afterEach } from 'vitest';
+import type { UserIdentity } from '@prisma/client';
+import { SsoService } from './sso.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { userIdentityRepository as mockIdentityRepository } from '../repositories/user-identity.repository';
+import { decryptSecret } from '../auth/secret-box';
+import { ERROR_MESSAGES, OIDC_CONFIG, SSO_ERROR_MESSAGES } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+import { startMockOidcIssuer, type MockOidcIssuer } from '../../test/mock-oidc-issuer';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+    findByEmail: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/user-identity.repository', () => ({
+  userIdentityRepository: {
+    findByIssuerAndSubject: vi.fn(),
+    create: vi.fn(),
+    recordLogin: vi.fn(),
+  },
+}));
+
+function buildIdentity(overrides: Partial<UserIdentity> = {}): UserIdentity {
+  return {
+    id: 'identity-123',
+    userId: 'user-123',
+    provider: 'OIDC',
+    issuer: 'http://issuer',
+    subject: 'subject-1',
+    email: 'test@example.com',
+    lastLoginAt: new Date('2025-01-01'),
+    createdAt: new Date('2025-01-01'),
+    ...overrides,
+  };
+}
+
+describe('SsoService', () => {
+  const redirectUri = 'http://localhost:3000/api/auth/oidc/callback';
+  const originalEnv = { ...process.env };
+  let issuer: MockOidcIssuer;
+
+  beforeAll(async () => {
+    issuer = await startMockOidcIssuer();
+    process.env.MFA_ENCRYPTION_KEY = 'test-mfa-encryption-key';
+    process.env.OIDC_ISSUER = issuer.issuer;
+    process.env.OIDC_CLIENT_ID = issuer.clientId;
+    process.env.OIDC_CLIENT_SECRET = issuer.clientSecret;
+    process.env.OIDC_PROVIDER_NAME = 'Company SSO';
+  });
+
+  afterAll(async () => {
+    process.env = originalEnv;
+    await issuer.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    issuer.setUser({ sub: 'subject-1', email: 'Alice@Example.com', email_verified: true });
+    vi.mocked(mockIdentityRepository.create).mockImplementation(async (data) => buildIdentity(data));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Go through the provider as the browser would
+   * @returns The callback parameters and the state cookie
+   */
+  async function signIn(redirectTo = '/dashboard', linkUserId?: string) {
+    const { authorizationUrl, stateCookie } = await SsoService.beginLogin(redirectTo, redirectUri, linkUserId);
+    const callback = await issuer.authorize(authorizationUrl);
+
+    return {
+      params: {
+        code: callback.searchParams.get('code'),
+        state: callback.searchParams.get('state'),
+        error: callback.searchParams.get('error'),
+      },
+      stateCookie,
+    };
+  }
+
+  describe('getProviderName', () => {
+    it('should return the configured name, or null when SSO is off', () => {
+      expect(SsoService.getProviderName()).toBe('Company SSO');
+
+      delete process.env.OIDC_ISSUER;
+      expect(SsoService.getProviderName()).toBeNull();
+      expect(() => SsoService.getConfig()).toThrow(SSO_ERROR_MESSAGES.NOT_CONFIGURED);
+      process.env.OIDC_ISSUER = issuer.issuer;
+    });
+  });
+
+  describe('beginLogin', () => {
+    it('should keep state, nonce and the PKCE verifier only in the encrypted cookie', async () => {
+      const { authorizationUrl, stateCookie } = await SsoService.beginLogin('/admin', redirectUri);
+      const url = new URL(authorizationUrl);
+      const pending = JSON.parse(decryptSecret(stateCookie));
+
+      expect(url.origin).toBe(issuer.issuer);
+      expect(url.searchParams.get('state')).toBe(pending.state);
+      expect(url.searchParams.get('nonce')).toBe(pending.nonce);
+      expect(authorizationUrl).not.toContain(pending.codeVerifier);
+      expect(pending).toMatchObject({ redirectUri, redirectTo: '/admin' });
+    });
+  });
+
+  describe('completeLogin', () => {
+    it('should sign in the user of a known identity', async () => {
+      const user = buildUser({ email: 'alice@example.com' });
+      vi.mocked(mockIdentityRepository.findByIssuerAndSubject).mockResolvedValue(buildIdentity());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(user);
+      vi.mocked(mockIdentityRepository.recordLogin).mockResolvedValue(buildIdentity());
+      const { params, stateCookie } = await signIn('/reports');
+
+      const result = await SsoService.completeLogin(params, stateCookie);
+
+      expect(result).toMatchObject({ user, outcome: 'existing', redirectTo: '/reports' });
+      expect(mockIdentityRepository.findByIssuerAndSubject).toHaveBeenCalledWith(issuer.issuer, 'subject-1');
+      expect(mockIdentityRepository.recordLogin).toHaveBeenCalledWith('identity-123', 'alice@example.com');
+      expect(mockUserRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should link the identity to an existing account with the same email and no password', async () => {
+      const user = buildUser({ email: 'alice@example.com', passwordHash: null, emailVerifiedAt: null });
+      vi.mocked(mockIdentityRepository.findByIssuerAndSubject).mockResolvedValue(null);
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(user);
+      vi.mocked(mockUserRepository.update).mockResolvedValue({ ...user, emailVerifiedAt: new Date() });
+      const { params, stateCookie } = await signIn();
+
+      const result = await SsoService.completeLogin(params, stateCookie);
+
+      expect(result.outcome).toBe('linked');
+      expect(mockUserRepository.findByEmail).toHaveBeenCalledWith('alice@example.com');
+      // The provider vouched for the address
+      expect(mockUserRepository.update).toHaveBeenCalledWith(user.id, { emailVerifiedAt: expect.any(Date) });
+      expect(mockIdentityRepository.create).toHaveBeenCalledWith({
+        userId: user.id,
+        provider: 'OIDC',
+        issuer: issuer.issuer,
+        subject: 'subject-1',
+        email: 'alice@example.com',
+      });
+    });
+
+    it('should provision a verified account without a password for a new user', async () => {
+      const user = buildUser({ email: 'alice@example.com', passwordHash: null });
+      vi.mocked(mockIdentityRepository.findByIssuerAndSubject).mockResolvedValue(null);
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+      vi.mocked(mockUserRepository.create).mockResolvedValue(user);
+      const { params, stateCookie } = await signIn();
+
+      const result = await SsoService.completeLogin(params, stateCookie);
+
+      expect(result).toMatchObject({ user, outcome: 'provisioned' });
+      expect(mockUserRepository.create).toHaveBeenCalledWith({
+        email: 'alice@example.com',
+        passwordHash: null,
+        emailVerifiedAt: expect.any(Date),
+      });
+    });
+
+    it('should not link or provision by an email the provider has not verified', async () => {
+      issuer.setUser({ sub: 'subject-2', email: 'alice@example.com', email_verified: false });
+      vi.mocked(mockIdentityRepository.findByIssuerAndSubject).mockResolvedValue(null);
+      const { params, stateCookie } = await signIn();
+
+      await expect(SsoService.completeLogin(params, stateCookie))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.EMAIL_REQUIRED);
+      expect(mockUserRepository.findByEmail).not.toHaveBeenCalled();
+    });
+
+    it('should not link or provision when the provider leaves out email_verified', async () => {
+      issuer.setUser({ sub: 'subject-2', email: 'admin@example.com' });
+      vi.mocked(mockIdentityRepository.findByIssuerAndSubject).mockResolvedValue(null);
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser({ email: 'admin@example.com', role: 'ADMIN' }));
+      const { params, stateCookie } = await signIn();
+
+      await expect(SsoService.completeLogin(params, stateCookie))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.EMAIL_REQUIRED);
+      expect(mockIdentityRepository.create).not.toHaveBeenCalled();
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not link by email to an account protected by a password or 2FA', async () => {
+      vi.mocked(mockIdentityRepository.findByIssuerAndSubject).mockResolvedValue(null);
+
+      for (const user of [
+        buildUser({ email: 'alice@example.com' }),
+        buildUser({ email: 'alice@example.com', passwordHash: null, totpEnabledAt: new Date('2025-01-01') }),
+      ]) {
+        vi.mocked(mockUserRepository.findByEmail).mockResolvedValueOnce(user);
+        const { params, stateCookie } = await signIn();
+
+        await expect(SsoService.completeLogin(params, stateCookie))
+          .rejects.toThrow(SSO_ERROR_MESSAGES.ACCOUNT_LINK_REQUIRED);
+      }
+      expect(mockIdentityRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should link the identity to the signed-in user who asked for it', async () => {
+      const user = buildUser({ email: 'alice.chen@example.com' });
+      vi.mocked(mockIdentityRepository.findByIssuerAndSubject).mockResolvedValue(null);
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(user);
+      const { params, stateCookie } = await signIn('/settings/security', user.id);
+
+      const result = await SsoService.completeLogin(params, stateCookie);
+
+      expect(result).toMatchObject({ user, outcome: 'linked', redirectTo: '/settings/security' });
+      expect(mockIdentityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: user.id, subject: 'subject-1', email: 'alice@example.com' })
+      );
+      expect(mockUserRepository.findByEmail).not.toHaveBeenCalled();
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not move an identity linked to another account', async () => {
+      vi.mocked(mockIdentityRepository.findByIssuerAndSubject).mockResolvedValue(buildIdentity({ userId: 'user-456' }));
+      const { params, stateCookie } = await signIn('/settings/security', 'user-123');
+
+      await expect(SsoService.completeLogin(params, stateCookie))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.IDENTITY_LINKED_ELSEWHERE);
+      expect(mockIdentityRepository.recordLogin).not.toHaveBeenCalled();
+    });
+
+    it('should refuse disabled accounts', async () => {
+      vi.mocked(mockIdentityRepository.findByIssuerAndSubject).mockResolvedValue(buildIdentity());
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser({ isActive: false }));
+      vi.mocked(mockIdentityRepository.recordLogin).mockResolvedValue(buildIdentity());
+      const { params, stateCookie } = await signIn();
+
+      await expect(SsoService.completeLogin(params, stateCookie))
+        .rejects.toThrow(ERROR_MESSAGES.ACCOUNT_DISABLED);
+    });
+
+    it('should reject a callback whose state does not match the cookie', async () => {
+      const { params } = await signIn();
+      const { stateCookie: otherCookie } = await SsoService.beginLogin('/dashboard', redirectUri);
+
+      await expect(SsoService.completeLogin(params, otherCookie))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.LOGIN_STATE_INVALID);
+      await expect(SsoService.completeLogin(params, undefined))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.LOGIN_STATE_INVALID);
+      await expect(SsoService.completeLogin(params, 'tampered'))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.LOGIN_STATE_INVALID);
+    });
+
+    it('should reject a sign-in that took too long', async () => {
+      const { params, stateCookie } = await signIn();
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + OIDC_CONFIG.STATE_TTL_MS + 1);
+
+      await expect(SsoService.completeLogin(params, stateCookie))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.LOGIN_STATE_INVALID);
+    });
+
+    it('should report a sign-in the provider refused', async () => {
+      const { params, stateCookie } = await signIn();
+      const tokenRequestCount = issuer.tokenRequests.length;
+
+      await expect(SsoService.completeLogin({ ...params, code: null, error: 'access_denied' }, stateCookie))
+        .rejects.toThrow(SSO_ERROR_MESSAGES.PROVIDER_DENIED);
+      expect(issuer.tokenRequests).toHaveLength(tokenRequestCount);
+    });
+  });
+});
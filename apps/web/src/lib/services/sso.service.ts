@@ -0,0 +1,231 @@
+import { User, UserIdentity } from '@prisma/client';
+import { userRepository } from '../repositories/user.repository';
+import { userIdentityRepository } from '../repositories/user-identity.repository';
+import { encryptSecret, decryptSecret } from '../auth/secret-box';
+import { hashToken, compareTokenHashes } from '../auth/secure-token';
+import {
+  buildAuthorizationUrl,
+  discoverProvider,
+  exchangeAuthorizationCode,
+  generateCodeVerifier,
+  generateOidcNonce,
+  getOidcConfig,
+  verifyIdToken,
+  type OidcConfig,
+} from '../auth/oidc';
+import { OIDC_CONFIG, SSO_ERROR_MESSAGES, ERROR_MESSAGES } from '../auth/constants';
+
+/**
+ * What the browser keeps, encrypted in a cookie, between leaving for the provider and coming back
+ */
+interface PendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  redirectTo: string;
+  // Set when a signed-in user started the flow to link the provider account to their own
+  linkUserId?: string;
+  expiresAt: number;
+}
+
+export interface SsoLoginStart {
+  authorizationUrl: string;
+  // Value for the OIDC_CONFIG.STATE_COOKIE_NAME cookie
+  stateCookie: string;
+}
+
+export interface SsoCallbackParams {
+  code: string | null;
+  state: string | null;
+  // Set by the provider when the user cancelled or was refused
+  error: string | null;
+}
+
+export type SsoLoginOutcome = 'existing' | 'linked' | 'provisioned';
+
+export interface SsoLoginResult {
+  user: User;
+  identity: UserIdentity;
+  outcome: SsoLoginOutcome;
+  redirectTo: string;
+}
+
+export class SsoService {
+  /**
+   * @throws Error with SSO_ERROR_MESSAGES.NOT_CONFIGURED if OIDC_ISSUER is not set
+   */
+  static getConfig(): OidcConfig {
+    const config = getOidcConfig();
+    if (!config) {
+      throw new Error(SSO_ERROR_MESSAGES.NOT_CONFIGURED);
+    }
+    return config;
+  }
+
+  /**
+   * Name shown on the login page's SSO button, or null when SSO is off
+   */
+  static getProviderName(): string | null {
+    return getOidcConfig()?.providerName ?? null;
+  }
+
+  /**
+   * Start an authorization code flow
+   * @param redirectTo - Same-origin path to land on after signing in
+   * @param redirectUri - This app's callback URL, as registered with the provider
+   * @param linkUserId - Signed-in user linking the provider account to their own, whatever its email
+   */
+  static async beginLogin(redirectTo: string, redirectUri: string, linkUserId?: string): Promise<SsoLoginStart> {
+    const config = this.getConfig();
+    const metadata = await discoverProvider(config.issuer);
+
+    const pending: PendingLogin = {
+      state: generateOidcNonce(),
+      nonce: generateOidcNonce(),
+      codeVerifier: generateCodeVerifier(),
+      redirectUri,
+      redirectTo,
+      linkUserId,
+      expiresAt: Date.now() + OIDC_CONFIG.STATE_TTL_MS,
+    };
+
+    return {
+      authorizationUrl: buildAuthorizationUrl(metadata, config, pending),
+      stateCookie: encryptSecret(JSON.stringify(pending)),
+    };
+  }
+
+  /**
+   * Finish the flow the provider redirected back from and resolve the local user
+   * A known identity signs in its user. Otherwise the identity is linked to the user who started
+   * the flow to link it, or to the user with the same email, provided the provider verified it and
+   * that account has neither a password nor 2FA, or a new VIEWER account is provisioned.
+   * The provider is trusted to have authenticated the user, so no password or 2FA step follows
+   * @param stateCookie - The cookie set by beginLogin
+   * @throws Error with an SSO_ERROR_MESSAGES message, or ERROR_MESSAGES.ACCOUNT_DISABLED
+   */
+  static async completeLogin(
+    params: SsoCallbackParams,
+    stateCookie: string | undefined
+  ): Promise<SsoLoginResult> {
+    const config = this.getConfig();
+    const pending = this.readPendingLogin(stateCookie);
+
+    // Binds the response to the browser that started the flow, so a code from
+    // someone else's sign-in cannot be injected
+    if (!pending || !params.state || !compareTokenHashes(hashToken(params.state), hashToken(pending.state))) {
+      throw new Error(SSO_ERROR_MESSAGES.LOGIN_STATE_INVALID);
+    }
+    if (params.error || !params.code) {
+      throw new Error(SSO_ERROR_MESSAGES.PROVIDER_DENIED);
+    }
+
+    const metadata = await discoverProvider(config.issuer);
+    const idToken = await exchangeAuthorizationCode(metadata, config, {
+      code: params.code,
+      redirectUri: pending.redirectUri,
+      codeVerifier: pending.codeVerifier,
+    });
+    const claims = await verifyIdToken(idToken, metadata, config, pending.nonce);
+
+    const email = claims.email?.trim().toLowerCase() || null;
+    const { user, identity, outcome } = await this.resolveUser(
+      config.issuer,
+      claims.sub,
+      email,
+      claims.email_verified,
+      pending.linkUserId
+    );
+
+    if (!user.isActive) {
+      throw new Error(ERROR_MESSAGES.ACCOUNT_DISABLED);
+    }
+
+    return { user, identity, outcome, redirectTo: pending.redirectTo };
+  }
+
+  private static readPendingLogin(stateCookie: string | undefined): PendingLogin | null {
+    if (!stateCookie) {
+      return null;
+    }
+
+    try {
+      const pending = JSON.parse(decryptSecret(stateCookie)) as PendingLogin;
+      return pending.expiresAt > Date.now() ? pending : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static async resolveUser(
+    issuer: string,
+    subject: string,
+    email: string | null,
+    emailVerified: boolean | undefined,
+    linkUserId: string | undefined
+  ): Promise<{ user: User; identity: UserIdentity; outcome: SsoLoginOutcome }> {
+    const existing = await userIdentityRepository.findByIssuerAndSubject(issuer, subject);
+    if (existing && linkUserId && existing.userId !== linkUserId) {
+      throw new Error(SSO_ERROR_MESSAGES.IDENTITY_LINKED_ELSEWHERE);
+    }
+    if (existing) {
+      const user = await userRepository.findById(existing.userId);
+      if (!user) {
+        throw new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+      }
+      const identity = await userIdentityRepository.recordLogin(existing.id, email);
+      return { user, identity, outcome: 'existing' };
+    }
+
+    // The signed-in user vouched for the provider account, so its email doesn't matter
+    if (linkUserId) {
+      const user = await userRepository.findById(linkUserId);
+      if (!user) {
+        throw new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+      }
+      const identity = await userIdentityRepository.create({
+        userId: user.id,
+        provider: 'OIDC',
+        issuer,
+        subject,
+        email,
+      });
+      return { user, identity, outcome: 'linked' };
+    }
+
+    // Linking and provisioning both go by email, which an unverified or missing claim could spoof
+    if (!email || emailVerified !== true) {
+      throw new Error(SSO_ERROR_MESSAGES.EMAIL_REQUIRED);
+    }
+
+    let user = await userRepository.findByEmail(email);
+    const outcome: SsoLoginOutcome = user ? 'linked' : 'provisioned';
+
+    // Signing in through the provider skips the password and 2FA, so an account protected by
+    // either is only linked once its owner signs in and asks for it
+    if (user && (user.passwordHash || user.totpEnabledAt)) {
+      throw new Error(SSO_ERROR_MESSAGES.ACCOUNT_LINK_REQUIRED);
+    }
+
+    if (!user) {
+      user = await userRepository.create({
+        email,
+        passwordHash: null,
+        emailVerifiedAt: new Date(),
+      });
+    } else if (!user.emailVerifiedAt) {
+      user = await userRepository.update(user.id, { emailVerifiedAt: new Date() });
+    }
+
+    const identity = await userIdentityRepository.create({
+      userId: user.id,
+      provider: 'OIDC',
+      issuer,
+      subject,
+      email,
+    });
+
+    return { user, identity, outcome };
+  }
+}
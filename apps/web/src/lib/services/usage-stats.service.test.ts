@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { UsageStatsService } from './usage-stats.service';
+import { userRepository as mockUserRepository } from '../repositories/user.repository';
+import { chatQueryRepository as mockChatQueryRepository } from '../repositories/chat-query.repository';
+import { datasetRepository as mockDatasetRepository } from '../repositories/dataset.repository';
+import { USAGE_STATS_CONFIG } from '../auth/constants';
+import { buildUser } from '../../test/factories';
+
+// Mock the dependencies
+vi.mock('../repositories/user.repository', () => ({
+  userRepository: {
+    count: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/chat-query.repository', () => ({
+  chatQueryRepository: {
+    getTotals: vi.fn(),
+    getDailyUsage: vi.fn(),
+  },
+}));
+
+vi.mock('../repositories/dataset.repository', () => ({
+  datasetRepository: {
+    count: vi.fn(),
+    countFiles: vi.fn(),
+  },
+}));
+
+describe('UsageStatsService', () => {
+  // 01:30 on 1 March in Taipei, still 28 February in UTC
+  const now = new Date('2025-02-28T17:30:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mockChatQueryRepository.getTotals).mockResolvedValue({ queries: 12, tokens: 3400 });
+    vi.mocked(mockDatasetRepository.count).mockResolvedValue(2);
+    vi.mocked(mockDatasetRepository.countFiles).mockResolvedValue(9);
+    vi.mocked(mockChatQueryRepository.getDailyUsage).mockResolvedValue([
+      { date: '2025-02-27', queries: 2, tokens: 500 },
+      { date: '2025-03-01', queries: 1, tokens: 120 },
+    ]);
+  });
+
+  describe('getUserStats', () => {
+    it('should report sign-ins and totals for the user', async () => {
+      const lastLoginAt = new Date('2025-02-28T17:00:00Z');
+      const previousLoginAt = new Date('2025-02-20T01:00:00Z');
+      const user = buildUser({ lastLoginAt, previousLoginAt, loginCount: 7 });
+
+      const stats = await UsageStatsService.getUserStats(user, now);
+
+      expect(stats).toMatchObject({
+        userId: 'user-123',
+        memberSince: user.createdAt,
+        lastLoginAt,
+        previousLoginAt,
+        loginCount: 7,
+        datasetsCount: 2,
+        filesCount: 9,
+        queriesCount: 12,
+        tokensUsed: 3400,
+      });
+      expect(mockChatQueryRepository.getTotals).toHaveBeenCalledWith({ userId: 'user-123' });
+      expect(mockDatasetRepository.count).toHaveBeenCalledWith({ ownerId: 'user-123' });
+      expect(mockDatasetRepository.countFiles).toHaveBeenCalledWith({ ownerId: 'user-123' });
+    });
+
+    it('should fill every day of the window in the user time zone', async () => {
+      const stats = await UsageStatsService.getUserStats(buildUser({ timezone: 'Asia/Taipei' }), now);
+
+      expect(stats.activity).toHaveLength(USAGE_STATS_CONFIG.ACTIVITY_DAYS);
+      expect(stats.activity[stats.activity.length - 1]).toEqual({ date: '2025-03-01', queries: 1, tokens: 120 });
+      expect(stats.activity[stats.activity.length - 2]).toEqual({ date: '2025-02-28', queries: 0, tokens: 0 });
+      expect(stats.activity[stats.activity.length - 3]).toEqual({ date: '2025-02-27', queries: 2, tokens: 500 });
+      expect(stats.activity[0].date).toBe('2025-01-31');
+
+      const [since, timeZone, userId] = vi.mocked(mockChatQueryRepository.getDailyUsage).mock.calls[0];
+      expect(since.getTime()).toBeLessThan(new Date('2025-01-30T16:00:00Z').getTime());
+      expect(timeZone).toBe('Asia/Taipei');
+      expect(userId).toBe('user-123');
+    });
+  });
+
+  describe('getPlatformStats', () => {
+    it('should aggregate across all users', async () => {
+      vi.mocked(mockUserRepository.count)
+        .mockResolvedValueOnce(40)
+        .mockResolvedValueOnce(25)
+        .mockResolvedValueOnce(3);
+
+      const stats = await UsageStatsService.getPlatformStats('UTC', now);
+
+      expect(stats).toMatchObject({
+        totalUsers: 40,
+        activeUsers: 25,
+        newUsers: 3,
+        datasetsCount: 2,
+        filesCount: 9,
+        queriesCount: 12,
+        tokensUsed: 3400,
+      });
+      expect(stats.activity[stats.activity.length - 1].date).toBe('2025-02-28');
+      expect(mockChatQueryRepository.getTotals).toHaveBeenCalledWith();
+      expect(mockChatQueryRepository.getDailyUsage).toHaveBeenCalledWith(expect.any(Date), 'UTC', undefined);
+      expect(mockUserRepository.count).toHaveBeenCalledWith({
+        deleted: false,
+        loggedInSince: new Date(now.getTime() - USAGE_STATS_CONFIG.ACTIVITY_DAYS * 24 * 60 * 60 * 1000),
+      });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type { User } from '@prisma/client';
+import { userRepository } from '../repositories/user.repository';
+import { chatQueryRepository, type DailyChatUsage } from '../repositories/chat-query.repository';
+import { datasetRepository } from '../repositories/dataset.repository';
+import { USAGE_STATS_CONFIG } from '../auth/constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DailyActivity = DailyChatUsage;
+
+export interface UserUsageStats {
+  userId: string;
+  memberSince: Date;
+  lastLoginAt: Date | null;
+  previousLoginAt: Date | null;
+  loginCount: number;
+  // Datasets the user owns and the files in them
+  datasetsCount: number;
+  filesCount: number;
+  queriesCount: number;
+  tokensUsed: number;
+  activity: DailyActivity[];
+}
+
+export interface PlatformUsageStats {
+  totalUsers: number;
+  // Users who signed in during the activity window
+  activeUsers: number;
+  newUsers: number;
+  datasetsCount: number;
+  filesCount: number;
+  queriesCount: number;
+  tokensUsed: number;
+  activity: DailyActivity[];
+}
+
+/**
+ * The last `days` calendar days in `timeZone`, oldest first, ending with today
+ */
+function getActivityDays(now: Date, days: number, timeZone: string): string[] {
+  // en-CA formats dates as YYYY-MM-DD
+  const format = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  return Array.from({ length: days }, (_, index) => format.format(new Date(now.getTime() - (days - 1 - index) * DAY_MS)));
+}
+
+export class UsageStatsService {
+  /**
+   * Daily usage over the activity window, with a zero entry for days without any
+   * The query starts a day early so the oldest calendar day is covered in full in any time zone
+   */
+  private static async getActivity(now: Date, timeZone: string, userId?: string): Promise<DailyActivity[]> {
+    const days = USAGE_STATS_CONFIG.ACTIVITY_DAYS;
+    const since = new Date(now.getTime() - (days + 1) * DAY_MS);
+    const usage = await chatQueryRepository.getDailyUsage(since, timeZone, userId);
+    const byDate = new Map(usage.map((day) => [day.date, day]));
+
+    return getActivityDays(now, days, timeZone).map((date) => byDate.get(date) ?? { date, queries: 0, tokens: 0 });
+  }
+
+  /**
+   * Sign-in history, totals and daily activity for one user, bucketed in the user's time zone
+   */
+  static async getUserStats(user: Pick<User, 'id' | 'createdAt' | 'lastLoginAt' | 'previousLoginAt' | 'loginCount' | 'timezone'>, now: Date = new Date()): Promise<UserUsageStats> {
+    const [datasetsCount, filesCount, totals, activity] = await Promise.all([
+      datasetRepository.count({ ownerId: user.id }),
+      datasetRepository.countFiles({ ownerId: user.id }),
+      chatQueryRepository.getTotals({ userId: user.id }),
+      this.getActivity(now, user.timezone, user.id),
+    ]);
+
+    return {
+      userId: user.id,
+      memberSince: user.createdAt,
+      lastLoginAt: user.lastLoginAt,
+      previousLoginAt: user.previousLoginAt,
+      loginCount: user.loginCount,
+      datasetsCount,
+      filesCount,
+      queriesCount: totals.queries,
+      tokensUsed: totals.tokens,
+      activity,
+    };
+  }
+
+  /**
+   * Totals across every account for the admin dashboard
+   */
+  static async getPlatformStats(timeZone: string, now: Date = new Date()): Promise<PlatformUsageStats> {
+    const windowStart = new Date(now.getTime() - USAGE_STATS_CONFIG.ACTIVITY_DAYS * DAY_MS);
+
+    const [totalUsers, activeUsers, newUsers, datasetsCount, filesCount, totals, activity] = await Promise.all([
+      userRepository.count({ deleted: false }),
+      userRepository.count({ deleted: false, loggedInSince: windowStart }),
+      userRepository.count({ deleted: false, createdSince: windowStart }),
+      datasetRepository.count(),
+      datasetRepository.countFiles(),
+      chatQueryRepository.getTotals(),
+      this.getActivity(now, timeZone),
+    ]);
+
+    return {
+      totalUsers,
+      activeUsers,
+      newUsers,
+      datasetsCount,
+      filesCount,
+      queriesCount: totals.queries,
+      tokensUsed: totals.tokens,
+      activity,
+    };
+  }
+}
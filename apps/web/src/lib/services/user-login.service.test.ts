@@ -1,9 +1,11 @@
-import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { UserService, type LoginUserInput } from './user.service';
 import { userRepository as mockUserRepository } from '../repositories/user.repository';
 import { PasswordUtils } from '../auth/password';
-import { ERROR_MESSAGES } from '../auth/constants';
+import { ERROR_MESSAGES, AUTH_ERROR_CODES } from '../auth/constants';
+import { SigningKeyService } from './signing-key.service';
 import { User } from '@prisma/client';
+import { buildUser } from '../../test/factories';
 
 // Mock the dependencies
 vi.mock('../repositories/user.repository', () => ({
@@ -13,6 +15,12 @@ vi.mock('../repositories/user.repository', () => ({
   },
 }));
 
+vi.mock('../repositories/session.repository', () => ({
+  sessionRepository: {
+    create: vi.fn(async (data) => ({ id: 'session-123', ...data })),
+  },
+}));
+
 vi.mock('../auth/password', () => ({
   PasswordUtils: {
     verify: vi.fn(),
@@ -21,29 +29,20 @@ vi.mock('../auth/password', () => ({
   },
 }));
 
-describe('UserService - Login Functionality', () => {
-  const originalEnv = process.env.JWT_SECRET;
-  const testSecret = 'test-jwt-secret-for-login-tests';
-
-  beforeAll(() => {
-    process.env.JWT_SECRET = testSecret;
-  });
-
-  afterAll(() => {
-    process.env.JWT_SECRET = originalEnv;
-  });
+vi.mock('./login-throttle.service', () => ({
+  LoginThrottleService: {
+    checkAllowed: vi.fn(),
+    recordFailure: vi.fn(),
+    recordSuccess: vi.fn(),
+  },
+}));
 
+describe('UserService - Login Functionality', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
-  const mockUser: User = {
-    id: 'user-123',
-    email: 'test@example.com',
-    passwordHash: 'hashed-password',
-    createdAt: new Date('2025-01-01'),
-    updatedAt: new Date('2025-01-01'),
-  };
+  const mockUser: User = buildUser();
 
   const loginInput: LoginUserInput = {
     email: 'test@example.com',
@@ -107,6 +106,18 @@ describe('UserService - Login Functionality', () => {
       expect(PasswordUtils.verify).toHaveBeenCalledWith(loginInput.password, mockUser.passwordHash);
     });
 
+    it('should refuse unverified accounts with a distinct error code', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser({ emailVerifiedAt: null }));
+      vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
+
+      const result = await UserService.loginUser(loginInput);
+
+      expect(result.success).toBe(false);
+      expect(result.token).toBeUndefined();
+      expect(result.errors).toEqual([ERROR_MESSAGES.EMAIL_NOT_VERIFIED]);
+      expect(result.errorCode).toBe(AUTH_ERROR_CODES.EMAIL_NOT_VERIFIED);
+    });
+
     it('should handle repository errors gracefully', async () => {
       // Mock repository to throw an error
       vi.mocked(mockUserRepository.findByEmail).mockRejectedValue(new Error('Database error'));
@@ -138,14 +149,15 @@ describe('UserService - Login Functionality', () => {
       expect(PasswordUtils.verify).toHaveBeenCalledWith(loginInput.password, mockUser.passwordHash);
     });
 
-    it('should handle JWT secret missing error', async () => {
+    it('should handle JWT signing key errors', async () => {
       // Mock repository response
       vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(mockUser);
       // Mock password verification
       vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
       
-      // Remove JWT secret
-      delete process.env.JWT_SECRET;
+      // Make the signing key unavailable
+      const signingKeySpy = vi.spyOn(SigningKeyService, 'getSigningKey')
+        .mockRejectedValue(new Error('Failed to fetch signing keys'));
 
       const result = await UserService.loginUser(loginInput);
 
@@ -154,8 +166,7 @@ describe('UserService - Login Functionality', () => {
       expect(result.user).toBeUndefined();
       expect(result.errors).toEqual([ERROR_MESSAGES.LOGIN_ERROR]);
 
-      // Restore JWT secret for other tests
-      process.env.JWT_SECRET = testSecret;
+      signingKeySpy.mockRestore();
     });
 
     it('should log errors in development environment', async () => {
@@ -1,9 +1,15 @@
 import { userRepository } from '../repositories/user.repository';
 import { PasswordUtils } from '../auth/password';
-import { ERROR_MESSAGES } from '../auth/constants';
-import { signJWT } from '../auth/jwt';
+import { ERROR_MESSAGES, AUTH_ERROR_CODES, type AuthErrorCode } from '../auth/constants';
+import { SessionService, type SessionMetadata } from './session.service';
+import { EmailVerificationService } from './email-verification.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { MfaService } from './mfa.service';
 import { User } from '@prisma/client';
 
+// User fields that must never leave the server
+export type PublicUser = Omit<User, 'passwordHash' | 'totpSecret'>;
+
 export interface RegisterUserInput {
   email: string;
   password: string;
@@ -11,7 +17,7 @@ export interface RegisterUserInput {
 
 export interface RegisterUserResult {
   success: boolean;
-  user?: Omit<User, 'passwordHash'>;
+  user?: PublicUser;
   errors?: string[];
 }
 
@@ -23,19 +29,26 @@ export interface LoginUserInput {
 export interface LoginUserResult {
   success: boolean;
   token?: string;
-  user?: Omit<User, 'passwordHash'>;
+  refreshToken?: string;
+  // Set instead of the tokens when the account has 2FA
+  mfaRequired?: boolean;
+  mfaTicket?: string;
+  user?: PublicUser;
   errors?: string[];
+  errorCode?: AuthErrorCode;
 }
 
 export class UserService {
   /**
-   * Helper method to remove password hash from user object
-   * @param user - User object with password hash
-   * @returns User object without password hash
+   * Helper method to remove password hash and TOTP secret from user object
+   * @param user - User object with secrets
+   * @returns User object without secrets
    */
-  private static sanitizeUser(user: User): Omit<User, 'passwordHash'> {
+  private static sanitizeUser(user: User): PublicUser {
     const { passwordHash: _, ...userWithoutPassword } = user;
-    return userWithoutPassword;
+    const publicUser: Omit<User, 'passwordHash' | 'totpSecret'> & { totpSecret?: string | null } = userWithoutPassword;
+    delete publicUser.totpSecret;
+    return publicUser;
   }
 
   static async registerUser(input: RegisterUserInput): Promise<RegisterUserResult> {
@@ -69,6 +82,13 @@ export class UserService {
         passwordHash,
       });
 
+      // A failed send can be retried through resendVerification, so it doesn't fail the registration
+      try {
+        await EmailVerificationService.sendVerification(newUser);
+      } catch (error) {
+        console.error('Error sending verification email:', error);
+      }
+
       return {
         success: true,
         user: this.sanitizeUser(newUser),
@@ -107,13 +127,37 @@ export class UserService {
     }
   }
 
-  static async loginUser(input: LoginUserInput): Promise<LoginUserResult> {
+  static async loginUser(input: LoginUserInput, metadata: SessionMetadata = {}): Promise<LoginUserResult> {
     const { email, password } = input;
 
     try {
       // Find user by email
       const user = await userRepository.findByEmail(email);
+      const ipAddress = metadata.ipAddress ?? null;
+
+      // Refuse locked accounts and throttled IPs before checking the password
+      try {
+        await LoginThrottleService.checkAllowed(user, ipAddress);
+      } catch (error) {
+        if (error instanceof Error && error.message === ERROR_MESSAGES.ACCOUNT_LOCKED) {
+          return {
+            success: false,
+            errors: [ERROR_MESSAGES.ACCOUNT_LOCKED],
+            errorCode: AUTH_ERROR_CODES.ACCOUNT_LOCKED,
+          };
+        }
+        if (error instanceof Error && error.message === ERROR_MESSAGES.TOO_MANY_LOGIN_ATTEMPTS) {
+          return {
+            success: false,
+            errors: [ERROR_MESSAGES.TOO_MANY_LOGIN_ATTEMPTS],
+            errorCode: AUTH_ERROR_CODES.RATE_LIMITED,
+          };
+        }
+        throw error;
+      }
+
       if (!user) {
+        await LoginThrottleService.recordFailure(null, ipAddress);
         return {
           success: false,
           errors: [ERROR_MESSAGES.INVALID_CREDENTIALS],
@@ -123,21 +167,57 @@ export class UserService {
       // Verify password
       const isValidPassword = await PasswordUtils.verify(password, user.passwordHash);
       if (!isValidPassword) {
+        await LoginThrottleService.recordFailure(user, ipAddress);
         return {
           success: false,
           errors: [ERROR_MESSAGES.INVALID_CREDENTIALS],
         };
       }
 
-      // Generate JWT token
-      const token = await signJWT({
-        userId: user.id,
-        email: user.email,
-      });
+      await LoginThrottleService.recordSuccess(user);
+
+      // Disabled accounts are only reported after the password is verified,
+      // so the response does not reveal account status to guessers
+      if (user.deletedAt) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.ACCOUNT_DELETED],
+          errorCode: AUTH_ERROR_CODES.ACCOUNT_DELETED,
+        };
+      }
+
+      if (!user.isActive) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.ACCOUNT_DISABLED],
+          errorCode: AUTH_ERROR_CODES.ACCOUNT_DISABLED,
+        };
+      }
+
+      if (!user.emailVerifiedAt) {
+        return {
+          success: false,
+          errors: [ERROR_MESSAGES.EMAIL_NOT_VERIFIED],
+          errorCode: AUTH_ERROR_CODES.EMAIL_NOT_VERIFIED,
+        };
+      }
+
+      // Accounts with 2FA get a short-lived ticket instead of tokens until the code is verified
+      if (MfaService.isEnabled(user)) {
+        return {
+          success: true,
+          mfaRequired: true,
+          mfaTicket: await MfaService.createChallenge(user),
+        };
+      }
+
+      // Create server-side session and issue access/refresh token pair
+      const { accessToken, refreshToken } = await SessionService.createSession(user, metadata);
 
       return {
         success: true,
-        token,
+        token: accessToken,
+        refreshToken,
         user: this.sanitizeUser(user),
       };
     } catch (error) {
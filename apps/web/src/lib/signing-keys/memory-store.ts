@@ -0,0 +1,31 @@
+import type { NewSigningKey, SigningKeyRecord, SigningKeyStore } from './types';
+
+/**
+ * Per-process signing key store
+ * Suitable for tests and single-instance deployments only: keys are not shared between
+ * instances and are lost on restart, which signs everyone out of their access tokens
+ */
+export class MemorySigningKeyStore implements SigningKeyStore {
+  private keys: SigningKeyRecord[] = [];
+
+  async listUsable(): Promise<SigningKeyRecord[]> {
+    const now = Date.now();
+    this.keys = this.keys.filter((key) => key.expiresAt === null || key.expiresAt.getTime() > now);
+
+    return [...this.keys];
+  }
+
+  async rotate(key: NewSigningKey, retiredKeysExpireAt: Date): Promise<SigningKeyRecord> {
+    const now = new Date();
+    const record: SigningKeyRecord = { ...key, createdAt: now, retiredAt: null, expiresAt: null };
+
+    this.keys = [
+      record,
+      ...this.keys.map((existing) => existing.retiredAt
+        ? existing
+        : { ...existing, retiredAt: now, expiresAt: retiredKeysExpireAt }),
+    ];
+
+    return record;
+  }
+}
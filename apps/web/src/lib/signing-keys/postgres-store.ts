@@ -0,0 +1,67 @@
+import type { Prisma, SigningKey } from '@prisma/client';
+import { prisma } from '../db';
+import { encryptSecret, decryptSecret } from '../auth/secret-box';
+import type { PublicSigningKey, SigningAlgorithm } from '../auth/jwt-claims';
+import type { NewSigningKey, SigningKeyRecord, SigningKeyStore } from './types';
+
+function toRecord(key: SigningKey): SigningKeyRecord {
+  return {
+    kid: key.id,
+    algorithm: key.algorithm as SigningAlgorithm,
+    publicKey: key.publicKey as unknown as PublicSigningKey,
+    privateKey: decryptSecret(key.privateKey),
+    createdAt: key.createdAt,
+    retiredAt: key.retiredAt,
+    expiresAt: key.expiresAt,
+  };
+}
+
+/**
+ * Signing key store backed by the signing_keys table, shared by every app instance
+ * Private keys are encrypted at rest
+ */
+export class PostgresSigningKeyStore implements SigningKeyStore {
+  async listUsable(): Promise<SigningKeyRecord[]> {
+    try {
+      const keys = await prisma.signingKey.findMany({
+        where: {
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: new Date() } },
+          ],
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return keys.map(toRecord);
+    } catch (error) {
+      throw new Error(`Failed to fetch signing keys: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async rotate(key: NewSigningKey, retiredKeysExpireAt: Date): Promise<SigningKeyRecord> {
+    try {
+      const now = new Date();
+
+      const [, created] = await prisma.$transaction([
+        prisma.signingKey.updateMany({
+          where: { retiredAt: null },
+          data: { retiredAt: now, expiresAt: retiredKeysExpireAt },
+        }),
+        prisma.signingKey.create({
+          data: {
+            id: key.kid,
+            algorithm: key.algorithm,
+            publicKey: key.publicKey as unknown as Prisma.InputJsonObject,
+            privateKey: encryptSecret(key.privateKey),
+            createdAt: now,
+          },
+        }),
+      ]);
+
+      return toRecord(created);
+    } catch (error) {
+      throw new Error(`Failed to rotate signing key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import type { SigningKeyStore } from './types';
+import { MemorySigningKeyStore } from './memory-store';
+import { PostgresSigningKeyStore } from './postgres-store';
+
+let signingKeyStore: SigningKeyStore | null = null;
+
+/**
+ * Build the store selected by SIGNING_KEY_STORE (memory | postgres)
+ * Multi-instance deployments must use postgres so every instance signs and verifies with the same keys
+ */
+export function createSigningKeyStore(env: Partial<NodeJS.ProcessEnv> = process.env): SigningKeyStore {
+  switch (env.SIGNING_KEY_STORE) {
+    case 'postgres':
+      return new PostgresSigningKeyStore();
+    case 'memory':
+    case undefined:
+    case '':
+      return new MemorySigningKeyStore();
+    default:
+      throw new Error(`Unknown SIGNING_KEY_STORE: ${env.SIGNING_KEY_STORE}`);
+  }
+}
+
+/**
+ * Get the shared signing key store, creating it from the environment on first use
+ */
+export function getSigningKeyStore(): SigningKeyStore {
+  if (!signingKeyStore) {
+    signingKeyStore = createSigningKeyStore();
+  }
+  return signingKeyStore;
+}
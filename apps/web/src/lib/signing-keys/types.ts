@@ -0,0 +1,36 @@
+import type { PublicSigningKey, SigningAlgorithm } from '../auth/jwt-claims';
+
+/**
+ * Storage for the access token signing keyring
+ */
+
+export interface NewSigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  publicKey: PublicSigningKey;
+  /** PKCS#8 PEM */
+  privateKey: string;
+}
+
+export interface SigningKeyRecord extends NewSigningKey {
+  createdAt: Date;
+  /** When the key stopped signing; null for the current key */
+  retiredAt: Date | null;
+  /** When the key stops verifying; null for the current key */
+  expiresAt: Date | null;
+}
+
+export interface SigningKeyStore {
+  /**
+   * List the keys that can still verify tokens, newest first
+   */
+  listUsable(): Promise<SigningKeyRecord[]>;
+
+  /**
+   * Store a new current key and retire every other current key
+   * @param key - Key that signs from now on
+   * @param retiredKeysExpireAt - When the retired keys stop verifying
+   * @returns SigningKeyRecord - The stored key
+   */
+  rotate(key: NewSigningKey, retiredKeysExpireAt: Date): Promise<SigningKeyRecord>;
+}
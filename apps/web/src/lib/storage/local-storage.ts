@@ -0,0 +1,180 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readdir, rename, rm, rmdir, stat } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Transform, type Readable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import type { BlobPart, BlobStorage } from './types';
+
+const PART_NAME_PATTERN = /^\d+$/;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Keeps blobs as files under a directory on the local disk
+ * For development and single-server deployments. Parts of a multipart upload are kept next to
+ * the blob in `<key>.parts/<uploadId>/`, so removing a key prefix removes them as well
+ */
+export class LocalBlobStorage implements BlobStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    const filePath = this.resolve(key);
+
+    try {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await this.writeAtomically(filePath, [() => body]);
+    } catch (error) {
+      throw new Error(`Failed to store blob: ${errorMessage(error)}`);
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+
+    try {
+      await stat(filePath);
+    } catch (error) {
+      throw new Error(`Failed to read blob: ${errorMessage(error)}`);
+    }
+
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    // Prefixes used by the application end at a directory, e.g. `datasets/<id>/`
+    await rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+
+  async createMultipartUpload(key: string): Promise<string> {
+    const uploadId = randomUUID();
+
+    try {
+      await mkdir(this.resolvePartsDirectory(key, uploadId), { recursive: true });
+    } catch (error) {
+      throw new Error(`Failed to start multipart upload: ${errorMessage(error)}`);
+    }
+
+    return uploadId;
+  }
+
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Readable, size: number): Promise<void> {
+    const partsDirectory = this.resolvePartsDirectory(key, uploadId);
+    const partPath = path.join(partsDirectory, String(partNumber));
+    const temporaryPath = `${partPath}.${randomUUID()}.tmp`;
+
+    let received = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        callback(received > size ? new Error(`Part is larger than ${size} bytes`) : null, chunk);
+      },
+    });
+
+    try {
+      await stat(partsDirectory);
+      await pipeline(body, counter, createWriteStream(temporaryPath));
+      if (received !== size) {
+        throw new Error(`Part is ${received} bytes instead of ${size}`);
+      }
+      await rename(temporaryPath, partPath);
+    } catch (error) {
+      await rm(temporaryPath, { force: true });
+      throw new Error(`Failed to store part: ${errorMessage(error)}`);
+    }
+  }
+
+  async listParts(key: string, uploadId: string): Promise<BlobPart[]> {
+    const partsDirectory = this.resolvePartsDirectory(key, uploadId);
+
+    try {
+      const names = (await readdir(partsDirectory)).filter((name) => PART_NAME_PATTERN.test(name));
+      const parts = await Promise.all(
+        names.map(async (name) => ({
+          partNumber: Number(name),
+          size: (await stat(path.join(partsDirectory, name))).size,
+        }))
+      );
+
+      return parts.sort((a, b) => a.partNumber - b.partNumber);
+    } catch (error) {
+      throw new Error(`Failed to list parts: ${errorMessage(error)}`);
+    }
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: BlobPart[]): Promise<void> {
+    const partsDirectory = this.resolvePartsDirectory(key, uploadId);
+
+    try {
+      await this.writeAtomically(
+        this.resolve(key),
+        parts.map((part) => () => createReadStream(path.join(partsDirectory, String(part.partNumber))))
+      );
+    } catch (error) {
+      throw new Error(`Failed to complete multipart upload: ${errorMessage(error)}`);
+    }
+
+    await this.removePartsDirectory(key, uploadId);
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.removePartsDirectory(key, uploadId);
+  }
+
+  /**
+   * Write the sources one after another to a temporary file and move it into place,
+   * so readers never see a partly written blob. Sources are opened one at a time
+   */
+  private async writeAtomically(filePath: string, sources: Array<() => Readable>): Promise<void> {
+    const temporaryPath = `${filePath}.${randomUUID()}.tmp`;
+
+    try {
+      const output = createWriteStream(temporaryPath);
+      for (const openSource of sources) {
+        await pipeline(openSource(), output, { end: false });
+      }
+      output.end();
+      await finished(output);
+      await rename(temporaryPath, filePath);
+    } catch (error) {
+      await rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  private resolvePartsDirectory(key: string, uploadId: string): string {
+    return this.resolve(`${key}.parts/${uploadId}`);
+  }
+
+  /**
+   * Remove the parts of an upload, and the `<key>.parts` directory once no upload uses it
+   */
+  private async removePartsDirectory(key: string, uploadId: string): Promise<void> {
+    const partsDirectory = this.resolvePartsDirectory(key, uploadId);
+    await rm(partsDirectory, { recursive: true, force: true });
+    await rmdir(path.dirname(partsDirectory)).catch(() => {
+      // Still in use by another upload of the same key, or already gone
+    });
+  }
+
+  /**
+   * Map a key to a path, refusing keys that would point outside the storage directory
+   */
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,212 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListMultipartUploadsCommand,
+  ListObjectsV2Command,
+  ListPartsCommand,
+  NoSuchUpload,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import type { Readable } from 'stream';
+import type { BlobPart, BlobStorage, PutBlobOptions } from './types';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // For S3-compatible services such as MinIO or Cloudflare R2
+  endpoint?: string;
+  forcePathStyle: boolean;
+  // The SDK's default credential chain (environment, instance role) is used when omitted
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Keeps blobs in an S3 bucket, or any service speaking the S3 API
+ */
+export class S3BlobStorage implements BlobStorage {
+  private readonly client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Readable, options: PutBlobOptions): Promise<void> {
+    try {
+      // Splits streams of unknown length into a multipart upload as needed
+      await new Upload({
+        client: this.client,
+        params: { Bucket: this.options.bucket, Key: key, Body: body, ContentType: options.contentType },
+      }).done();
+    } catch (error) {
+      throw new Error(`Failed to store blob in S3: ${errorMessage(error)}`);
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: key }));
+      if (!response.Body) {
+        throw new Error('Empty response body');
+      }
+      // A Node stream when running on the Node runtime
+      return response.Body as Readable;
+    } catch (error) {
+      throw new Error(`Failed to read blob from S3: ${errorMessage(error)}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+    } catch (error) {
+      throw new Error(`Failed to delete blob from S3: ${errorMessage(error)}`);
+    }
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    try {
+      let continuationToken: string | undefined;
+      do {
+        const page = await this.client.send(new ListObjectsV2Command({
+          Bucket: this.options.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }));
+        const objects = (page.Contents ?? []).flatMap((object) => (object.Key ? [{ Key: object.Key }] : []));
+        if (objects.length > 0) {
+          await this.client.send(new DeleteObjectsCommand({
+            Bucket: this.options.bucket,
+            Delete: { Objects: objects, Quiet: true },
+          }));
+        }
+        continuationToken = page.NextContinuationToken;
+      } while (continuationToken);
+
+      // Parts of unfinished uploads are not listed as objects but are still stored
+      let keyMarker: string | undefined;
+      let uploadIdMarker: string | undefined;
+      do {
+        const page = await this.client.send(new ListMultipartUploadsCommand({
+          Bucket: this.options.bucket,
+          Prefix: prefix,
+          KeyMarker: keyMarker,
+          UploadIdMarker: uploadIdMarker,
+        }));
+        for (const upload of page.Uploads ?? []) {
+          if (upload.Key && upload.UploadId) {
+            await this.abortMultipartUpload(upload.Key, upload.UploadId);
+          }
+        }
+        keyMarker = page.IsTruncated ? page.NextKeyMarker : undefined;
+        uploadIdMarker = page.IsTruncated ? page.NextUploadIdMarker : undefined;
+      } while (keyMarker);
+    } catch (error) {
+      throw new Error(`Failed to delete blobs from S3: ${errorMessage(error)}`);
+    }
+  }
+
+  async createMultipartUpload(key: string, options: PutBlobOptions): Promise<string> {
+    try {
+      const response = await this.client.send(new CreateMultipartUploadCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        ContentType: options.contentType,
+      }));
+      if (!response.UploadId) {
+        throw new Error('No upload id returned');
+      }
+      return response.UploadId;
+    } catch (error) {
+      throw new Error(`Failed to start multipart upload in S3: ${errorMessage(error)}`);
+    }
+  }
+
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Readable, size: number): Promise<void> {
+    try {
+      // S3 rejects a body that does not match the content length
+      await this.client.send(new UploadPartCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        Body: body,
+        ContentLength: size,
+      }));
+    } catch (error) {
+      throw new Error(`Failed to store part in S3: ${errorMessage(error)}`);
+    }
+  }
+
+  async listParts(key: string, uploadId: string): Promise<BlobPart[]> {
+    try {
+      const parts: BlobPart[] = [];
+      let partNumberMarker: string | undefined;
+      do {
+        const page = await this.client.send(new ListPartsCommand({
+          Bucket: this.options.bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: partNumberMarker,
+        }));
+        for (const part of page.Parts ?? []) {
+          if (part.PartNumber !== undefined) {
+            parts.push({ partNumber: part.PartNumber, size: part.Size ?? 0, etag: part.ETag });
+          }
+        }
+        partNumberMarker = page.IsTruncated ? page.NextPartNumberMarker : undefined;
+      } while (partNumberMarker);
+
+      return parts.sort((a, b) => a.partNumber - b.partNumber);
+    } catch (error) {
+      throw new Error(`Failed to list parts in S3: ${errorMessage(error)}`);
+    }
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: BlobPart[]): Promise<void> {
+    try {
+      await this.client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: parts.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      }));
+    } catch (error) {
+      throw new Error(`Failed to complete multipart upload in S3: ${errorMessage(error)}`);
+    }
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.client.send(new AbortMultipartUploadCommand({
+        Bucket: this.options.bucket,
+        Key: key,
+        UploadId: uploadId,
+      }));
+    } catch (error) {
+      if (error instanceof NoSuchUpload) {
+        return;
+      }
+      throw new Error(`Failed to abort multipart upload in S3: ${errorMessage(error)}`);
+    }
+  }
+}
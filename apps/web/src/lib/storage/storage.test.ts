@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import { createBlobStorage } from './storage';
+import { LocalBlobStorage } from './local-storage';
+import { S3BlobStorage } from './s3-storage';
+import type { BlobStorage } from './types';
+
+describe('Blob storage', () => {
+  describe('createBlobStorage', () => {
+    it('should default to the local storage', () => {
+      expect(createBlobStorage({})).toBeInstanceOf(LocalBlobStorage);
+    });
+
+    it('should create the configured storage', () => {
+      expect(createBlobStorage({ BLOB_STORAGE: 'local', BLOB_STORAGE_DIR: '/tmp/blobs' })).toBeInstanceOf(
+        LocalBlobStorage
+      );
+      expect(
+        createBlobStorage({ BLOB_STORAGE: 's3', S3_BUCKET: 'lianglian-files', S3_ENDPOINT: 'http://minio:9000' })
+      ).toBeInstanceOf(S3BlobStorage);
+    });
+
+    it('should reject incomplete or unknown configuration', () => {
+      expect(() => createBlobStorage({ BLOB_STORAGE: 's3' })).toThrow('S3_BUCKET');
+      expect(() => createBlobStorage({ BLOB_STORAGE: 'floppy' })).toThrow('Unknown BLOB_STORAGE: floppy');
+    });
+  });
+
+  describe('LocalBlobStorage', () => {
+    let directory: string;
+    let storage: BlobStorage;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'blob-test-'));
+      storage = new LocalBlobStorage(directory);
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should store, read and delete a blob', async () => {
+      await storage.put('datasets/dataset-1/a.txt', Readable.from(['hello ', 'world']), { contentType: 'text/plain' });
+
+      expect(await text(await storage.get('datasets/dataset-1/a.txt'))).toBe('hello world');
+
+      await storage.delete('datasets/dataset-1/a.txt');
+      await expect(storage.get('datasets/dataset-1/a.txt')).rejects.toThrow('Failed to read blob');
+    });
+
+    it('should refuse keys outside the storage directory', async () => {
+      await expect(
+        storage.put('../escape.txt', Readable.from(['x']), { contentType: 'text/plain' })
+      ).rejects.toThrow('Invalid blob key');
+    });
+
+    it('should assemble the parts of a multipart upload in order', async () => {
+      const key = 'datasets/dataset-1/scan.pdf';
+      const uploadId = await storage.createMultipartUpload(key, { contentType: 'application/pdf' });
+
+      await storage.uploadPart(key, uploadId, 2, Readable.from(['world']), 5);
+      await storage.uploadPart(key, uploadId, 1, Readable.from(['hello ']), 6);
+      const parts = await storage.listParts(key, uploadId);
+      expect(parts).toEqual([
+        { partNumber: 1, size: 6 },
+        { partNumber: 2, size: 5 },
+      ]);
+
+      await storage.completeMultipartUpload(key, uploadId, parts);
+
+      expect(await text(await storage.get(key))).toBe('hello world');
+      expect(await readdir(path.join(directory, 'datasets/dataset-1'))).toEqual(['scan.pdf']);
+    });
+
+    it('should reject a part that does not match its size', async () => {
+      const key = 'datasets/dataset-1/scan.pdf';
+      const uploadId = await storage.createMultipartUpload(key, { contentType: 'application/pdf' });
+
+      await expect(storage.uploadPart(key, uploadId, 1, Readable.from(['short']), 8)).rejects.toThrow(
+        'Part is 5 bytes instead of 8'
+      );
+      expect(await storage.listParts(key, uploadId)).toEqual([]);
+    });
+
+    it('should remove blobs and unfinished uploads under a prefix', async () => {
+      await storage.put('datasets/dataset-1/a.txt', Readable.from(['a']), { contentType: 'text/plain' });
+      await storage.createMultipartUpload('datasets/dataset-1/b.pdf', { contentType: 'application/pdf' });
+      await storage.put('datasets/dataset-2/c.txt', Readable.from(['c']), { contentType: 'text/plain' });
+
+      await storage.deletePrefix('datasets/dataset-1/');
+
+      expect(await readdir(path.join(directory, 'datasets'))).toEqual(['dataset-2']);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import path from 'path';
+import type { BlobStorage } from './types';
+import { LocalBlobStorage } from './local-storage';
+import { S3BlobStorage } from './s3-storage';
+
+const DEFAULT_S3_REGION = 'us-east-1';
+
+let blobStorage: BlobStorage | null = null;
+
+/**
+ * Build the storage selected by BLOB_STORAGE (local | s3)
+ * Defaults to the local disk so development works without a bucket
+ */
+export function createBlobStorage(env: Partial<NodeJS.ProcessEnv> = process.env): BlobStorage {
+  switch (env.BLOB_STORAGE) {
+    case 's3':
+      if (!env.S3_BUCKET) {
+        throw new Error('S3_BUCKET environment variable is required when BLOB_STORAGE is s3');
+      }
+      return new S3BlobStorage({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || DEFAULT_S3_REGION,
+        endpoint: env.S3_ENDPOINT || undefined,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      });
+    case 'local':
+    case undefined:
+    case '':
+      return new LocalBlobStorage(env.BLOB_STORAGE_DIR || path.join(process.cwd(), '.blobs'));
+    default:
+      throw new Error(`Unknown BLOB_STORAGE: ${env.BLOB_STORAGE}`);
+  }
+}
+
+/**
+ * Get the shared blob storage, creating it from the environment on first use
+ */
+export function getBlobStorage(): BlobStorage {
+  if (!blobStorage) {
+    blobStorage = createBlobStorage();
+  }
+  return blobStorage;
+}
@@ -0,0 +1,73 @@
+import type { Readable } from 'stream';
+
+/**
+ * Blob storage abstraction for uploaded files
+ * Services depend on this interface so files can live on the local disk or in an S3-compatible bucket
+ * Keys are slash-separated paths chosen by the application, e.g. `datasets/<id>/<uuid>.pdf`
+ */
+
+export interface PutBlobOptions {
+  contentType: string;
+}
+
+/**
+ * A part of a multipart upload that has been stored
+ */
+export interface BlobPart {
+  // 1-based, in upload order
+  partNumber: number;
+  size: number;
+  // Entity tag of the part, needed by S3 to complete the upload
+  etag?: string;
+}
+
+export interface BlobStorage {
+  /**
+   * Store a blob from a stream of unknown length, replacing any blob under the key
+   * @throws Error if the blob could not be stored
+   */
+  put(key: string, body: Readable, options: PutBlobOptions): Promise<void>;
+
+  /**
+   * Read a blob
+   * @throws Error if the blob does not exist or could not be read
+   */
+  get(key: string): Promise<Readable>;
+
+  /**
+   * Remove a blob; removing a missing blob is not an error
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove every blob whose key starts with the prefix, along with unfinished multipart uploads
+   */
+  deletePrefix(prefix: string): Promise<void>;
+
+  /**
+   * Start a multipart upload that stores its parts until they are assembled into one blob
+   * @returns The id of the multipart upload
+   */
+  createMultipartUpload(key: string, options: PutBlobOptions): Promise<string>;
+
+  /**
+   * Store one part of a multipart upload, replacing a part with the same number
+   * @throws Error if the body is not exactly `size` bytes long
+   */
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Readable, size: number): Promise<void>;
+
+  /**
+   * The parts stored so far, ordered by part number
+   */
+  listParts(key: string, uploadId: string): Promise<BlobPart[]>;
+
+  /**
+   * Assemble the parts into the blob under the key and drop the multipart upload
+   */
+  completeMultipartUpload(key: string, uploadId: string, parts: BlobPart[]): Promise<void>;
+
+  /**
+   * Drop a multipart upload and its parts; aborting a missing upload is not an error
+   */
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
@@ -5,8 +5,8 @@ vi.mock('@trpc/react-query');
 vi.mock('@trpc/client');
 vi.mock('../auth/token-storage');
 
-import { getAuthToken } from '../auth/token-storage';
-const mockGetAuthToken = vi.mocked(getAuthToken);
+import { getCsrfToken } from '../auth/token-storage';
+const mockGetCsrfToken = vi.mocked(getCsrfToken);
 
 describe('tRPC Client Configuration', () => {
   beforeEach(() => {
@@ -70,10 +70,10 @@ describe('tRPC Client Configuration', () => {
     });
   });
 
-  describe('Authorization headers', () => {
-    it('should include Bearer token when auth token exists', async () => {
-      const testToken = 'test-jwt-token';
-      mockGetAuthToken.mockReturnValue(testToken);
+  describe('CSRF headers', () => {
+    it('should include the CSRF token when the cookie exists', async () => {
+      const testToken = 'test-csrf-token';
+      mockGetCsrfToken.mockReturnValue(testToken);
 
       const { trpcClient } = await import('./client');
 
@@ -81,16 +81,16 @@ describe('tRPC Client Configuration', () => {
       // Note: This tests the structure but the actual header function
       // would be called by tRPC internally
       expect(trpcClient).toBeDefined();
-      expect(mockGetAuthToken).toHaveBeenCalled();
+      expect(mockGetCsrfToken).toHaveBeenCalled();
     });
 
-    it('should not include authorization header when no token exists', async () => {
-      mockGetAuthToken.mockReturnValue(null);
+    it('should not include the CSRF header when no token exists', async () => {
+      mockGetCsrfToken.mockReturnValue(null);
 
       const { trpcClient } = await import('./client');
 
       expect(trpcClient).toBeDefined();
-      expect(mockGetAuthToken).toHaveBeenCalled();
+      expect(mockGetCsrfToken).toHaveBeenCalled();
     });
   });
 
@@ -109,4 +109,44 @@ describe('tRPC Client Configuration', () => {
       expect(trpc.createClient).toBeDefined();
     });
   });
+
+  describe('refreshAccessToken', () => {
+    // Fresh module instances, so the refresh client is built from the mock below
+    const loadClient = async (refresh: () => Promise<unknown>) => {
+      vi.resetModules();
+      const { createTRPCReact } = await import('@trpc/react-query');
+      vi.mocked(createTRPCReact).mockReturnValue({ createClient: vi.fn() } as never);
+      const trpcClientModule = await import('@trpc/client');
+      const tokenStorage = await import('../auth/token-storage');
+      vi.mocked(trpcClientModule.createTRPCClient).mockReturnValue({
+        auth: { refresh: { mutate: vi.fn(refresh) } },
+      } as never);
+      vi.mocked(tokenStorage.isAuthenticated).mockReturnValue(true);
+      vi.mocked(tokenStorage.getImpersonator).mockReturnValue(null);
+
+      const { refreshAccessToken } = await import('./client');
+      const rejectWith = (code: string) =>
+        Object.assign(new trpcClientModule.TRPCClientError(code), { data: { code } });
+      return { refreshAccessToken, tokenStorage, rejectWith };
+    };
+
+    it('should keep the session when another tab rotated the token first', async () => {
+      const { refreshAccessToken, tokenStorage, rejectWith } = await loadClient(async () => {
+        throw rejectWith('CONFLICT');
+      });
+
+      await expect(refreshAccessToken()).resolves.toBe(true);
+      expect(tokenStorage.clearSession).not.toHaveBeenCalled();
+    });
+
+    it('should clear the session when it can no longer be refreshed', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { refreshAccessToken, tokenStorage, rejectWith } = await loadClient(async () => {
+        throw rejectWith('UNAUTHORIZED');
+      });
+
+      await expect(refreshAccessToken()).resolves.toBe(false);
+      expect(tokenStorage.clearSession).toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
@@ -1,10 +1,25 @@
 'use client';
 
 import { createTRPCReact } from '@trpc/react-query';
-import { httpBatchLink } from '@trpc/client';
+import {
+  createTRPCClient,
+  httpBatchLink,
+  httpLink,
+  TRPCClientError,
+  type TRPCLink,
+} from '@trpc/client';
+import { observable, type Unsubscribable } from '@trpc/server/observable';
 import superjson from 'superjson';
 import type { AppRouter } from '../../server/api/root';
-import { getAuthToken } from '../auth/token-storage';
+import {
+  isAuthenticated,
+  updateAccessTokenExpiry,
+  clearSession,
+  isAccessTokenNearExpiry,
+  getCsrfToken,
+  getImpersonator,
+} from '../auth/token-storage';
+import { AUTH_COOKIE_CONFIG } from '../auth/constants';
 
 // Create tRPC React client
 export const trpc = createTRPCReact<AppRouter>();
@@ -23,18 +38,131 @@ function getBaseUrl() {
   return `http://localhost:${process.env.PORT ?? 3000}`;
 }
 
+/**
+ * Headers sent with every request
+ * The auth cookies travel automatically; the CSRF token has to be copied from its cookie
+ */
+function getRequestHeaders() {
+  const csrfToken = getCsrfToken();
+  return csrfToken ? { [AUTH_COOKIE_CONFIG.CSRF_HEADER_NAME]: csrfToken } : {};
+}
+
+// Separate client for token refresh so refresh calls never go through the refresh link
+const refreshClient = createTRPCClient<AppRouter>({
+  links: [
+    httpLink({
+      url: `${getBaseUrl()}/api/trpc`,
+      transformer: superjson,
+      headers: getRequestHeaders,
+    }),
+  ],
+});
+
+// Shared in-flight refresh so concurrent requests trigger a single rotation
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Exchange the refresh token cookie for a new token pair
+ * Clears the stored session when it can no longer be refreshed. A CONFLICT means another tab
+ * rotated the token at the same time and its new cookies apply, so the session is kept
+ * @returns Promise<boolean> - True if the cookies now hold a fresh access token
+ */
+export function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      if (!isAuthenticated()) {
+        return false;
+      }
+
+      // Impersonation tokens run out instead; the banner returns the administrator to their session
+      if (getImpersonator()) {
+        return false;
+      }
+
+      try {
+        const result = await refreshClient.auth.refresh.mutate();
+        updateAccessTokenExpiry(result.accessTokenExpiresAt);
+        return true;
+      } catch (error) {
+        if (error instanceof TRPCClientError && error.data?.code === 'CONFLICT') {
+          return true;
+        }
+
+        console.warn('Token refresh failed:', error);
+        clearSession();
+        return false;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+}
+
+function isUnauthorizedError(error: unknown): boolean {
+  return error instanceof TRPCClientError && error.data?.code === 'UNAUTHORIZED';
+}
+
+/**
+ * Link that refreshes the access token before it expires and transparently
+ * retries an operation once if the server rejects it as unauthorized
+ */
+export const refreshTokenLink: TRPCLink<AppRouter> = () => {
+  return ({ next, op }) => {
+    return observable((observer) => {
+      let subscription: Unsubscribable | null = null;
+      let hasRetried = false;
+      let isClosed = false;
+
+      const execute = () => {
+        subscription = next(op).subscribe({
+          next(value) {
+            observer.next(value);
+          },
+          async error(error) {
+            if (!hasRetried && isUnauthorizedError(error) && (await refreshAccessToken())) {
+              hasRetried = true;
+              if (!isClosed) {
+                execute();
+              }
+              return;
+            }
+            observer.error(error);
+          },
+          complete() {
+            observer.complete();
+          },
+        });
+      };
+
+      const start = async () => {
+        if (isAccessTokenNearExpiry()) {
+          await refreshAccessToken();
+        }
+        if (!isClosed) {
+          execute();
+        }
+      };
+
+      void start();
+
+      return () => {
+        isClosed = true;
+        subscription?.unsubscribe();
+      };
+    });
+  };
+};
+
 // Create tRPC client configuration
 export const trpcClient = trpc.createClient({
-  transformer: superjson,
   links: [
+    refreshTokenLink,
     httpBatchLink({
       url: `${getBaseUrl()}/api/trpc`,
-      headers() {
-        const token = getAuthToken();
-        return {
-          authorization: token ? `Bearer ${token}` : '',
-        };
-      },
+      transformer: superjson,
+      headers: getRequestHeaders,
     }),
   ],
-});
\ No newline at end of file
+});
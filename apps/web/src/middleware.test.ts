@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { NextRequest } from 'next/server';
+import { generateKeyPairSync, type KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { middleware } from './middleware';
+import { SigningKeyService } from './lib/services/signing-key.service';
+
+let signingKey: { kid: string; privateKey: KeyObject };
+
+function buildTokenCookie(payload: Record<string, unknown>, key = signingKey): string {
+  const exp = Math.floor(Date.now() / 1000) + 15 * 60;
+  return jwt.sign({ sessionId: 'session-123', exp, ...payload }, key.privateKey, {
+    algorithm: 'RS256',
+    keyid: key.kid,
+  });
+}
+
+function buildRequest(pathname: string, cookie?: string, refreshCookie?: string): NextRequest {
+  const request = new NextRequest(new URL(pathname, 'http://localhost:3000'));
+  if (cookie) {
+    request.cookies.set('auth-token', cookie);
+  }
+  if (refreshCookie) {
+    request.cookies.set('auth-refresh', refreshCookie);
+  }
+  return request;
+}
+
+describe('Route Middleware', () => {
+  let viewerCookie: string;
+  let adminCookie: string;
+  let expiredCookie: string;
+
+  beforeAll(async () => {
+    // The middleware reads the public keys from this app's JWKS route
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json(await SigningKeyService.getPublicJWKS())));
+    signingKey = await SigningKeyService.getSigningKey();
+
+    viewerCookie = buildTokenCookie({ userId: 'user-123', email: 'test@example.com', role: 'VIEWER' });
+    adminCookie = buildTokenCookie({ userId: 'admin-123', email: 'admin@example.com', role: 'ADMIN' });
+    expiredCookie = buildTokenCookie({
+      userId: 'user-123',
+      email: 'test@example.com',
+      role: 'VIEWER',
+      exp: Math.floor(Date.now() / 1000) - 60,
+    });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should redirect unauthenticated users from protected routes to login', async () => {
+    const response = await middleware(buildRequest('/dashboard'));
+    const location = new URL(response.headers.get('location')!);
+
+    expect(location.pathname).toBe('/login');
+    expect(location.searchParams.get('redirect')).toBe('/dashboard');
+    expect(location.searchParams.get('reason')).toBe('auth-required');
+  });
+
+  it('should redirect unauthenticated users from admin routes to login', async () => {
+    const response = await middleware(buildRequest('/admin/users'));
+    const location = new URL(response.headers.get('location')!);
+
+    expect(location.pathname).toBe('/login');
+    expect(location.searchParams.get('reason')).toBe('admin-required');
+  });
+
+  it('should block non-admin users from admin routes', async () => {
+    const response = await middleware(buildRequest('/admin/users', viewerCookie));
+    const location = new URL(response.headers.get('location')!);
+
+    expect(location.pathname).toBe('/dashboard');
+    expect(location.searchParams.get('reason')).toBe('admin-required');
+  });
+
+  it('should allow administrators into admin routes', async () => {
+    const response = await middleware(buildRequest('/admin/users', adminCookie));
+
+    expect(response.headers.get('location')).toBeNull();
+    expect(response.headers.get('X-Frame-Options')).toBe('DENY');
+  });
+
+  it('should allow authenticated users into protected routes', async () => {
+    const response = await middleware(buildRequest('/dashboard', viewerCookie));
+
+    expect(response.headers.get('location')).toBeNull();
+  });
+
+  it('should clear malformed token cookies and send the user to login', async () => {
+    const legacyCookie = JSON.stringify({ token: viewerCookie, user: { userId: 'user-123' } });
+    const response = await middleware(buildRequest('/dashboard', legacyCookie));
+
+    expect(new URL(response.headers.get('location')!).pathname).toBe('/login');
+    expect(response.cookies.get('auth-token')?.value).toBe('');
+    expect(response.cookies.get('auth-user')?.value).toBe('');
+  });
+
+  describe('signature verification', () => {
+    it('should reject tokens signed with a key outside the keyring', async () => {
+      const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const forgedCookie = buildTokenCookie(
+        { userId: 'admin-123', email: 'admin@example.com', role: 'ADMIN' },
+        { kid: signingKey.kid, privateKey }
+      );
+
+      const response = await middleware(buildRequest('/admin/users', forgedCookie));
+
+      expect(new URL(response.headers.get('location')!).pathname).toBe('/login');
+      expect(response.cookies.get('auth-token')?.value).toBe('');
+    });
+
+    it('should not fetch the keys from the host a request names', async () => {
+      const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const attackerKey = { ...publicKey.export({ format: 'jwk' }), kid: 'attacker-key', alg: 'RS256', use: 'sig' };
+      vi.mocked(fetch).mockImplementation(async (url) =>
+        new URL(url.toString()).host === 'attacker.example'
+          ? Response.json({ keys: [attackerKey] })
+          : Response.json(await SigningKeyService.getPublicJWKS())
+      );
+      const forgedCookie = buildTokenCookie(
+        { userId: 'admin-123', email: 'admin@example.com', role: 'ADMIN' },
+        { kid: 'attacker-key', privateKey }
+      );
+      const request = new NextRequest('http://attacker.example/admin/users', {
+        headers: { host: 'attacker.example' },
+      });
+      request.cookies.set('auth-token', forgedCookie);
+
+      const response = await middleware(request);
+
+      expect(new URL(response.headers.get('location')!).pathname).toBe('/login');
+      expect(fetch).not.toHaveBeenCalledWith(expect.stringContaining('attacker.example'), expect.anything());
+      expect(fetch).toHaveBeenCalledWith('http://localhost:3000/.well-known/jwks.json', expect.anything());
+    });
+
+    it('should reject a genuine token whose role claim was edited', async () => {
+      const [header, , signature] = viewerCookie.split('.');
+      const payload = Buffer.from(JSON.stringify({
+        userId: 'user-123',
+        email: 'test@example.com',
+        role: 'ADMIN',
+        sessionId: 'session-123',
+      })).toString('base64url');
+
+      const response = await middleware(buildRequest('/admin/users', `${header}.${payload}.${signature}`));
+
+      expect(new URL(response.headers.get('location')!).pathname).toBe('/login');
+    });
+
+    it('should reject unsigned tokens', async () => {
+      const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const unsignedCookie = `${encode({ alg: 'none', typ: 'JWT', kid: signingKey.kid })}.${encode({
+        userId: 'admin-123',
+        email: 'admin@example.com',
+        role: 'ADMIN',
+        sessionId: 'session-123',
+      })}.`;
+
+      const response = await middleware(buildRequest('/admin/users', unsignedCookie));
+
+      expect(new URL(response.headers.get('location')!).pathname).toBe('/login');
+    });
+  });
+
+  describe('expired access tokens', () => {
+    it('should renew the session when a refresh token is present', async () => {
+      const response = await middleware(
+        buildRequest('/settings/security?tab=sessions', expiredCookie, 'session-123.secret')
+      );
+      const location = new URL(response.headers.get('location')!);
+
+      expect(location.pathname).toBe('/api/auth/refresh');
+      expect(location.searchParams.get('redirect')).toBe('/settings/security?tab=sessions');
+    });
+
+    it('should send the user to login without a refresh token', async () => {
+      const response = await middleware(buildRequest('/dashboard', expiredCookie));
+      const location = new URL(response.headers.get('location')!);
+
+      expect(location.pathname).toBe('/login');
+      expect(location.searchParams.get('reason')).toBe('auth-required');
+    });
+
+    it('should show the login page instead of redirecting a signed-out user', async () => {
+      const response = await middleware(buildRequest('/login', expiredCookie));
+
+      expect(response.headers.get('location')).toBeNull();
+    });
+  });
+});
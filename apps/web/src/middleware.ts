@@ -1,5 +1,10 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { ROLES, isRole } from './lib/auth/permissions';
+import { AUTH_COOKIE_CONFIG } from './lib/auth/constants';
+import { JWT_ERROR_MESSAGES, type JWTPayload } from './lib/auth/jwt-claims';
+import { getJWKSUrl, verifyJWTEdge } from './lib/auth/jwt-edge';
+import { toSafeRedirectPath } from './lib/auth/redirect';
 
 // Define protected routes that require authentication
 const PROTECTED_ROUTES = [
@@ -16,38 +21,54 @@ const PUBLIC_ROUTES = ['/login', '/register'];
 // Define admin routes that require admin role
 const ADMIN_ROUTES = ['/admin'];
 
+type AccessTokenState =
+  | { status: 'valid'; claims: JWTPayload }
+  | { status: 'expired' | 'invalid' | 'missing' | 'unavailable' };
+
 /**
- * Validate JWT token structure and basic integrity
- * Note: Full JWT verification requires the secret which isn't available in middleware
- * This provides basic validation to prevent obvious tampering
+ * Verify the access token cookie's signature and expiry against the published signing keys
+ * The keys come from the configured app origin, never from the request's Host
+ * The role claim is only trusted for routing; the API re-checks the role from the
+ * database on every admin procedure
  */
-function isValidTokenStructure(token: string): boolean {
+async function readAccessToken(request: NextRequest): Promise<AccessTokenState> {
+  const token = request.cookies.get(AUTH_COOKIE_CONFIG.ACCESS_TOKEN_NAME)?.value;
+  if (!token) {
+    return { status: 'missing' };
+  }
+
   try {
-    const tokenData = JSON.parse(token);
-    
-    // Check if token has required structure
-    if (!tokenData.token || !tokenData.user?.userId || !tokenData.user?.email) {
-      return false;
+    const claims = await verifyJWTEdge(token, getJWKSUrl());
+    // Session tokens always carry these; anything else was not issued by the login flow
+    if (!claims.sessionId || !isRole(claims.role)) {
+      return { status: 'invalid' };
     }
-    
-    // Basic JWT structure check (should have 3 parts separated by dots)
-    const jwtParts = tokenData.token.split('.');
-    if (jwtParts.length !== 3) {
-      return false;
-    }
-    
-    return true;
+
+    return { status: 'valid', claims };
   } catch (error) {
-    return false;
+    if (error instanceof Error && error.message === JWT_ERROR_MESSAGES.TOKEN_EXPIRED) {
+      return { status: 'expired' };
+    }
+    // The token may well be genuine, so keep the cookies and just treat the request as signed out
+    if (error instanceof Error && error.message === JWT_ERROR_MESSAGES.SIGNING_KEY_UNAVAILABLE) {
+      return { status: 'unavailable' };
+    }
+
+    return { status: 'invalid' };
   }
 }
 
-export function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
   
-  // Get the auth token from cookies
-  const authTokenCookie = request.cookies.get('auth-token')?.value;
-  const isAuthenticated = authTokenCookie && isValidTokenStructure(authTokenCookie);
+  // Get the access token from its httpOnly cookie
+  const accessToken = await readAccessToken(request);
+  const claims = accessToken.status === 'valid' ? accessToken.claims : null;
+  const isAuthenticated = claims !== null;
+  // An expired access token can be renewed as long as the refresh token cookie is there
+  const canRefresh =
+    (accessToken.status === 'expired' || accessToken.status === 'missing') &&
+    request.cookies.has(AUTH_COOKIE_CONFIG.REFRESH_TOKEN_NAME);
 
   // Check if current path is protected
   const isProtectedRoute = PROTECTED_ROUTES.some(route => 
@@ -64,13 +85,21 @@ export function middleware(request: NextRequest) {
     pathname.startsWith(route)
   );
 
-  // Handle invalid token - clear it and redirect to login
-  if (authTokenCookie && !isAuthenticated) {
+  // Handle forged or corrupted token - clear it and redirect to login
+  if (accessToken.status === 'invalid') {
     const response = NextResponse.redirect(new URL('/login', request.url));
-    response.cookies.delete('auth-token');
+    response.cookies.delete(AUTH_COOKIE_CONFIG.ACCESS_TOKEN_NAME);
+    response.cookies.delete(AUTH_COOKIE_CONFIG.USER_INFO_NAME);
     return response;
   }
 
+  // Renew an expired session server-side, then come back to the requested page
+  if ((isProtectedRoute || isAdminRoute) && canRefresh) {
+    const refreshUrl = new URL('/api/auth/refresh', request.url);
+    refreshUrl.searchParams.set('redirect', `${pathname}${search}`);
+    return NextResponse.redirect(refreshUrl);
+  }
+
   // Redirect unauthenticated users from protected routes to login
   if (isProtectedRoute && !isAuthenticated) {
     const loginUrl = new URL('/login', request.url);
@@ -79,10 +108,13 @@ export function middleware(request: NextRequest) {
     // Add query parameter to indicate authentication was required
     loginUrl.searchParams.set('reason', 'auth-required');
     
-    return NextResponse.redirect(loginUrl);
+    // Stale user details would make the login page send the user straight back here
+    const response = NextResponse.redirect(loginUrl);
+    response.cookies.delete(AUTH_COOKIE_CONFIG.USER_INFO_NAME);
+    return response;
   }
 
-  // Handle admin routes (placeholder for future role-based access)
+  // Handle admin routes - require login first, then the admin role
   if (isAdminRoute && !isAuthenticated) {
     const loginUrl = new URL('/login', request.url);
     loginUrl.searchParams.set('redirect', pathname);
@@ -90,17 +122,20 @@ export function middleware(request: NextRequest) {
     return NextResponse.redirect(loginUrl);
   }
 
+  if (isAdminRoute && claims?.role !== ROLES.ADMIN) {
+    const dashboardUrl = new URL('/dashboard', request.url);
+    dashboardUrl.searchParams.set('reason', 'admin-required');
+    return NextResponse.redirect(dashboardUrl);
+  }
+
   // Redirect authenticated users from public routes to dashboard
   if (isPublicRoute && isAuthenticated) {
-    const redirectParam = request.nextUrl.searchParams.get('redirect');
-    const redirectUrl = redirectParam && redirectParam.startsWith('/') 
-      ? redirectParam 
-      : '/dashboard';
+    const redirectUrl = toSafeRedirectPath(request.nextUrl.searchParams.get('redirect'));
     return NextResponse.redirect(new URL(redirectUrl, request.url));
   }
 
   // Add security headers for protected routes
-  if (isProtectedRoute && isAuthenticated) {
+  if ((isProtectedRoute || isAdminRoute) && isAuthenticated) {
     const response = NextResponse.next();
     
     // Add security headers
@@ -0,0 +1,92 @@
+import { TRPCError } from '@trpc/server';
+import type { File, FileUpload } from '@prisma/client';
+import { AuditService } from '../../lib/services/audit.service';
+import { FileUploadService } from '../../lib/services/file-upload.service';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  DATASET_ERROR_MESSAGES,
+  FILE_UPLOAD_ERROR_MESSAGES,
+} from '../../lib/auth/constants';
+import { getRequestMetadata } from './middleware/request-metadata';
+import type { AuthenticatedContext } from './middleware/auth';
+
+// Helpers shared by the dataset file upload routes under src/app/api/datasets
+
+/**
+ * Map FileUploadService errors to tRPC errors, which withRouteAuth sends with the matching status
+ */
+export function toUploadError(error: unknown): TRPCError {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+
+  if (error instanceof Error) {
+    switch (error.message) {
+      case FILE_UPLOAD_ERROR_MESSAGES.NO_FILES:
+      case FILE_UPLOAD_ERROR_MESSAGES.INVALID_FILENAME:
+      case FILE_UPLOAD_ERROR_MESSAGES.FILE_EMPTY:
+      case FILE_UPLOAD_ERROR_MESSAGES.INVALID_CHUNK:
+      case FILE_UPLOAD_ERROR_MESSAGES.CHUNK_SIZE_MISMATCH:
+        return new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+      case FILE_UPLOAD_ERROR_MESSAGES.MULTIPART_REQUIRED:
+      case FILE_UPLOAD_ERROR_MESSAGES.UNSUPPORTED_TYPE:
+      case FILE_UPLOAD_ERROR_MESSAGES.TYPE_MISMATCH:
+        return new TRPCError({ code: 'UNSUPPORTED_MEDIA_TYPE', message: error.message });
+      case FILE_UPLOAD_ERROR_MESSAGES.TOO_MANY_FILES:
+      case FILE_UPLOAD_ERROR_MESSAGES.FILE_TOO_LARGE:
+        return new TRPCError({ code: 'PAYLOAD_TOO_LARGE', message: error.message });
+      case FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_NOT_FOUND:
+      case DATASET_ERROR_MESSAGES.NOT_FOUND:
+        return new TRPCError({ code: 'NOT_FOUND', message: error.message });
+      case FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_INCOMPLETE:
+        return new TRPCError({ code: 'CONFLICT', message: error.message });
+      case FILE_UPLOAD_ERROR_MESSAGES.CHECKSUM_MISMATCH:
+        return new TRPCError({ code: 'UNPROCESSABLE_CONTENT', message: error.message });
+    }
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: FILE_UPLOAD_ERROR_MESSAGES.UPLOAD_ERROR,
+    cause: error,
+  });
+}
+
+export function toFileOutput(file: File) {
+  return {
+    id: file.id,
+    datasetId: file.datasetId,
+    filename: file.filename,
+    mimeType: file.mimeType,
+    size: file.size,
+    checksum: file.checksum,
+    status: file.status,
+    createdAt: file.createdAt,
+  };
+}
+
+export function toUploadOutput(upload: FileUpload, receivedChunks: number[]) {
+  return {
+    id: upload.id,
+    datasetId: upload.datasetId,
+    filename: upload.filename,
+    mimeType: upload.mimeType,
+    size: upload.size,
+    chunkSize: upload.chunkSize,
+    totalChunks: FileUploadService.getTotalChunks(upload),
+    receivedChunks,
+    expiresAt: upload.expiresAt,
+  };
+}
+
+export async function recordFileUploaded(auth: AuthenticatedContext, req: Request, file: File): Promise<void> {
+  await AuditService.record({
+    action: AUDIT_ACTIONS.FILE_UPLOADED,
+    actor: auth.user,
+    targetType: AUDIT_TARGET_TYPES.FILE,
+    targetId: file.id,
+    ...getRequestMetadata(req),
+    metadata: { datasetId: file.datasetId, filename: file.filename, size: file.size },
+  });
+}
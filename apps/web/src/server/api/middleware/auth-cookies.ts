@@ -0,0 +1,209 @@
+import { AUTH_COOKIE_CONFIG, OIDC_CONFIG } from '../../../lib/auth/constants';
+import { generateSecureToken, hashToken, compareTokenHashes } from '../../../lib/auth/secure-token';
+import type { StoredSession } from '../../../lib/auth/token-storage';
+
+// Request methods that never change state, so they don't need a CSRF token
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+interface CookieOptions {
+  maxAge: number;
+  httpOnly: boolean;
+  path?: string;
+  sameSite?: 'Strict' | 'Lax';
+}
+
+/**
+ * Serialize a Set-Cookie header value
+ * Auth cookies default to site-wide, SameSite=Strict, and are Secure in production
+ */
+function serializeCookie(name: string, value: string, options: CookieOptions): string {
+  const parts = [
+    `${name}=${encodeURIComponent(value)}`,
+    `Path=${options.path ?? '/'}`,
+    `Max-Age=${options.maxAge}`,
+    `SameSite=${options.sameSite ?? 'Strict'}`,
+  ];
+
+  if (options.httpOnly) {
+    parts.push('HttpOnly');
+  }
+  if (process.env.NODE_ENV === 'production') {
+    parts.push('Secure');
+  }
+
+  return parts.join('; ');
+}
+
+/**
+ * Read a cookie from the request's Cookie header
+ */
+export function getRequestCookie(req: Request | undefined, name: string): string | undefined {
+  const cookieHeader = req?.headers.get('cookie');
+  if (!cookieHeader) {
+    return undefined;
+  }
+
+  for (const pair of cookieHeader.split(';')) {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex === -1 || pair.slice(0, separatorIndex).trim() !== name) {
+      continue;
+    }
+
+    const value = pair.slice(separatorIndex + 1).trim();
+    try {
+      return decodeURIComponent(value) || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Hand a freshly issued token pair to the browser
+ * The tokens go into httpOnly cookies; a new CSRF token is issued alongside them
+ */
+export function setAuthCookies(
+  resHeaders: Headers | undefined,
+  tokens: { accessToken: string; refreshToken: string }
+): void {
+  if (!resHeaders) {
+    return;
+  }
+
+  const maxAge = AUTH_COOKIE_CONFIG.MAX_AGE_SECONDS;
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.ACCESS_TOKEN_NAME, tokens.accessToken, { maxAge, httpOnly: true })
+  );
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.REFRESH_TOKEN_NAME, tokens.refreshToken, { maxAge, httpOnly: true })
+  );
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(
+      AUTH_COOKIE_CONFIG.CSRF_TOKEN_NAME,
+      generateSecureToken(AUTH_COOKIE_CONFIG.CSRF_TOKEN_BYTES),
+      { maxAge, httpOnly: false }
+    )
+  );
+}
+
+/**
+ * Set the user details cookie the client reads on load, see token-storage.ts
+ * Used where the server completes a sign-in without the client's involvement, as with SSO
+ */
+export function setSessionInfoCookie(resHeaders: Headers | undefined, session: StoredSession): void {
+  resHeaders?.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.USER_INFO_NAME, JSON.stringify(session), {
+      maxAge: AUTH_COOKIE_CONFIG.MAX_AGE_SECONDS,
+      httpOnly: false,
+    })
+  );
+}
+
+/**
+ * Set or clear the cookie carrying an SSO sign-in in progress
+ * It has to be SameSite=Lax to come back on the provider's top-level redirect to the callback,
+ * and is scoped to the SSO routes
+ */
+export function setSsoStateCookie(resHeaders: Headers | undefined, value: string | null): void {
+  resHeaders?.append(
+    'Set-Cookie',
+    serializeCookie(OIDC_CONFIG.STATE_COOKIE_NAME, value ?? '', {
+      maxAge: value ? OIDC_CONFIG.STATE_TTL_MS / 1000 : 0,
+      httpOnly: true,
+      path: OIDC_CONFIG.COOKIE_PATH,
+      sameSite: 'Lax',
+    })
+  );
+}
+
+/**
+ * Switch the browser to an impersonation access token, keeping the administrator's refresh token aside
+ * The refresh cookie is expired: impersonation tokens cannot be refreshed, and refreshing the
+ * administrator's session would silently end the impersonation
+ */
+export function setImpersonationCookies(
+  resHeaders: Headers | undefined,
+  tokens: { accessToken: string; impersonatorRefreshToken: string }
+): void {
+  if (!resHeaders) {
+    return;
+  }
+
+  const maxAge = AUTH_COOKIE_CONFIG.MAX_AGE_SECONDS;
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.ACCESS_TOKEN_NAME, tokens.accessToken, { maxAge, httpOnly: true })
+  );
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.REFRESH_TOKEN_NAME, '', { maxAge: 0, httpOnly: true })
+  );
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.IMPERSONATOR_REFRESH_TOKEN_NAME, tokens.impersonatorRefreshToken, {
+      maxAge,
+      httpOnly: true,
+    })
+  );
+}
+
+/**
+ * Expire the cookie holding the administrator's refresh token after an impersonation
+ */
+export function clearImpersonatorCookie(resHeaders: Headers | undefined): void {
+  resHeaders?.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.IMPERSONATOR_REFRESH_TOKEN_NAME, '', { maxAge: 0, httpOnly: true })
+  );
+}
+
+/**
+ * Expire the auth and CSRF cookies, along with the client's stored user details
+ */
+export function clearAuthCookies(resHeaders: Headers | undefined): void {
+  if (!resHeaders) {
+    return;
+  }
+
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.ACCESS_TOKEN_NAME, '', { maxAge: 0, httpOnly: true })
+  );
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.REFRESH_TOKEN_NAME, '', { maxAge: 0, httpOnly: true })
+  );
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.CSRF_TOKEN_NAME, '', { maxAge: 0, httpOnly: false })
+  );
+  resHeaders.append(
+    'Set-Cookie',
+    serializeCookie(AUTH_COOKIE_CONFIG.USER_INFO_NAME, '', { maxAge: 0, httpOnly: false })
+  );
+}
+
+/**
+ * Double-submit CSRF check for requests authenticated by cookie
+ * A cross-site page can make the browser send the cookies but cannot read the CSRF cookie,
+ * so it cannot copy it into the header. Safe methods always pass
+ */
+export function hasValidCsrfToken(req: Request | undefined): boolean {
+  if (!req || SAFE_METHODS.includes(req.method.toUpperCase())) {
+    return true;
+  }
+
+  const cookieToken = getRequestCookie(req, AUTH_COOKIE_CONFIG.CSRF_TOKEN_NAME);
+  const headerToken = req.headers.get(AUTH_COOKIE_CONFIG.CSRF_HEADER_NAME);
+  if (!cookieToken || !headerToken) {
+    return false;
+  }
+
+  return compareTokenHashes(hashToken(cookieToken), hashToken(headerToken));
+}
@@ -0,0 +1,298 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { authenticateUser, createAuthenticatedContext } from './auth';
+import { userRepository as mockUserRepository } from '../../../lib/repositories/user.repository';
+import { SessionService } from '../../../lib/services/session.service';
+import { ApiKeyService } from '../../../lib/services/api-key.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { OrganizationService } from '../../../lib/services/organization.service';
+import { API_KEY_ERROR_MESSAGES, AUDIT_ACTIONS, ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { signJWT } from '../../../lib/auth/jwt';
+import { ApiKey, User } from '@prisma/client';
+import { buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../../../lib/repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/session.service', () => ({
+  SessionService: {
+    isSessionActive: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/api-key.service', () => ({
+  ApiKeyService: {
+    authenticate: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/organization.service', () => ({
+  OrganizationService: {
+    getDepartmentAccess: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+describe('Authentication Middleware', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(OrganizationService.getDepartmentAccess).mockResolvedValue({ departments: [], departmentIds: [] });
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const mockUser: User = buildUser();
+
+  const signSessionToken = () =>
+    signJWT({ userId: mockUser.id, email: mockUser.email, sessionId: 'session-123' });
+
+  const expectUnauthorized = async (promise: Promise<unknown>, message: string) => {
+    try {
+      await promise;
+      expect.fail('Expected authentication to fail');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TRPCError);
+      expect((error as TRPCError).code).toBe('UNAUTHORIZED');
+      expect((error as TRPCError).message).toBe(message);
+    }
+  };
+
+  describe('authenticateUser', () => {
+    it('should authenticate a valid token with an active session', async () => {
+      vi.mocked(SessionService.isSessionActive).mockResolvedValue(true);
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(mockUser);
+
+      const token = await signSessionToken();
+      const result = await authenticateUser(`Bearer ${token}`);
+
+      expect(result.userId).toBe(mockUser.id);
+      expect(result.sessionId).toBe('session-123');
+      expect(result.role).toBe('VIEWER');
+      expect(result.permissions).toEqual(['datasets:read', 'chat:query']);
+      expect(result.user).not.toHaveProperty('passwordHash');
+      expect(SessionService.isSessionActive).toHaveBeenCalledWith('session-123', mockUser.id);
+    });
+
+    it('should reject tokens whose session has been revoked', async () => {
+      vi.mocked(SessionService.isSessionActive).mockResolvedValue(false);
+
+      const token = await signSessionToken();
+
+      await expectUnauthorized(authenticateUser(`Bearer ${token}`), 'Session has been revoked');
+      expect(mockUserRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens without a session', async () => {
+      const token = await signJWT({ userId: mockUser.id, email: mockUser.email });
+
+      await expectUnauthorized(authenticateUser(`Bearer ${token}`), 'Invalid token payload');
+      expect(SessionService.isSessionActive).not.toHaveBeenCalled();
+    });
+
+    it('should reject missing authorization header', async () => {
+      await expectUnauthorized(authenticateUser(undefined), 'Authorization header is required');
+    });
+
+    it('should reject tokens for deleted users', async () => {
+      vi.mocked(SessionService.isSessionActive).mockResolvedValue(true);
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(null);
+
+      const token = await signSessionToken();
+
+      await expectUnauthorized(authenticateUser(`Bearer ${token}`), 'User not found or account deactivated');
+    });
+  });
+
+  it('should use the current role from the database rather than the token', async () => {
+    vi.mocked(SessionService.isSessionActive).mockResolvedValue(true);
+    vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser({ role: 'ADMIN' }));
+
+    const token = await signSessionToken();
+    const result = await authenticateUser(`Bearer ${token}`);
+
+    expect(result.role).toBe('ADMIN');
+    expect(result.permissions).toContain('users:manage');
+  });
+
+  it('should carry the department memberships and visible departments', async () => {
+    vi.mocked(SessionService.isSessionActive).mockResolvedValue(true);
+    vi.mocked(mockUserRepository.findById).mockResolvedValue(mockUser);
+    vi.mocked(OrganizationService.getDepartmentAccess).mockResolvedValue({
+      departments: [{ departmentId: 'dept-1', organizationId: 'org-1', code: 'RND', role: 'MANAGER' }],
+      departmentIds: ['dept-1', 'team-1'],
+    });
+
+    const token = await signSessionToken();
+    const result = await authenticateUser(`Bearer ${token}`);
+
+    expect(OrganizationService.getDepartmentAccess).toHaveBeenCalledWith(mockUser.id);
+    expect(result.departments).toEqual([
+      { departmentId: 'dept-1', organizationId: 'org-1', code: 'RND', role: 'MANAGER' },
+    ]);
+    expect(result.departmentIds).toEqual(['dept-1', 'team-1']);
+  });
+
+  describe('API keys', () => {
+    const apiKey = { id: 'key-1', userId: mockUser.id, scopes: ['datasets:read'] } as ApiKey;
+
+    it('should authenticate an ApiKey header with the key scopes as permissions', async () => {
+      vi.mocked(ApiKeyService.authenticate).mockResolvedValue({
+        apiKey,
+        user: mockUser,
+        permissions: ['datasets:read'],
+      });
+
+      const result = await authenticateUser('ApiKey llk_0123456789ab_secret', '10.0.0.1');
+
+      expect(result).toMatchObject({
+        userId: mockUser.id,
+        sessionId: null,
+        apiKeyId: 'key-1',
+        role: 'VIEWER',
+        permissions: ['datasets:read'],
+      });
+      expect(result.user).not.toHaveProperty('passwordHash');
+      expect(ApiKeyService.authenticate).toHaveBeenCalledWith('llk_0123456789ab_secret', '10.0.0.1');
+      expect(SessionService.isSessionActive).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid keys', async () => {
+      vi.mocked(ApiKeyService.authenticate).mockRejectedValue(new Error(API_KEY_ERROR_MESSAGES.INVALID));
+
+      await expectUnauthorized(authenticateUser('ApiKey llk_0123456789ab_wrong'), API_KEY_ERROR_MESSAGES.INVALID);
+    });
+
+    it('should not expose unexpected lookup errors', async () => {
+      vi.mocked(ApiKeyService.authenticate).mockRejectedValue(new Error('Database error'));
+
+      await expectUnauthorized(authenticateUser('ApiKey llk_0123456789ab_secret'), 'Authentication failed');
+    });
+  });
+
+  describe('createAuthenticatedContext', () => {
+    it('should read the authorization header from the request', async () => {
+      vi.mocked(SessionService.isSessionActive).mockResolvedValue(true);
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(mockUser);
+
+      const token = await signSessionToken();
+      const req = new Request('http://localhost/api/trpc', {
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      const result = await createAuthenticatedContext(req);
+
+      expect(result.userId).toBe(mockUser.id);
+    });
+
+    it('should pass the client IP along for API key usage tracking', async () => {
+      vi.mocked(ApiKeyService.authenticate).mockResolvedValue({
+        apiKey: { id: 'key-1' } as ApiKey,
+        user: mockUser,
+        permissions: [],
+      });
+
+      const req = new Request('http://localhost/api/trpc', {
+        headers: { authorization: 'ApiKey llk_0123456789ab_secret', 'x-forwarded-for': '10.0.0.1' },
+      });
+
+      await createAuthenticatedContext(req);
+
+      expect(ApiKeyService.authenticate).toHaveBeenCalledWith('llk_0123456789ab_secret', '10.0.0.1');
+    });
+
+    it('should audit rejected credentials', async () => {
+      vi.mocked(SessionService.isSessionActive).mockResolvedValue(false);
+
+      const token = await signSessionToken();
+      const req = new Request('http://localhost/api/trpc', {
+        headers: { authorization: `Bearer ${token}`, 'x-forwarded-for': '10.0.0.1', 'user-agent': 'vitest' },
+      });
+
+      await expectUnauthorized(createAuthenticatedContext(req), 'Session has been revoked');
+      expect(AuditService.record).toHaveBeenCalledWith({
+        action: AUDIT_ACTIONS.ACCESS_DENIED,
+        ipAddress: '10.0.0.1',
+        userAgent: 'vitest',
+        metadata: { scheme: 'Bearer', reason: 'Session has been revoked' },
+      });
+    });
+
+    it('should not audit requests without credentials', async () => {
+      const req = new Request('http://localhost/api/trpc');
+
+      await expectUnauthorized(createAuthenticatedContext(req), 'Authorization header is required');
+      expect(AuditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('auth cookie', () => {
+    const buildCookieRequest = (token: string, init: RequestInit = {}, csrfHeader?: string) =>
+      new Request('http://localhost/api/trpc', {
+        ...init,
+        headers: {
+          cookie: `auth-token=${token}; csrf-token=csrf-123`,
+          ...(csrfHeader && { 'x-csrf-token': csrfHeader }),
+        },
+      });
+
+    beforeEach(() => {
+      vi.mocked(SessionService.isSessionActive).mockResolvedValue(true);
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(mockUser);
+    });
+
+    it('should authenticate queries with the access token cookie', async () => {
+      const token = await signSessionToken();
+
+      const result = await createAuthenticatedContext(buildCookieRequest(token));
+
+      expect(result.userId).toBe(mockUser.id);
+      expect(result.sessionId).toBe('session-123');
+    });
+
+    it('should accept mutations carrying the matching CSRF header', async () => {
+      const token = await signSessionToken();
+
+      const result = await createAuthenticatedContext(buildCookieRequest(token, { method: 'POST' }, 'csrf-123'));
+
+      expect(result.userId).toBe(mockUser.id);
+    });
+
+    it('should reject mutations without the matching CSRF header', async () => {
+      const token = await signSessionToken();
+
+      for (const csrfHeader of [undefined, 'forged']) {
+        await expect(createAuthenticatedContext(buildCookieRequest(token, { method: 'POST' }, csrfHeader)))
+          .rejects.toMatchObject({ code: 'FORBIDDEN', message: ERROR_MESSAGES.CSRF_TOKEN_INVALID });
+      }
+      expect(mockUserRepository.findById).not.toHaveBeenCalled();
+      expect(AuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: AUDIT_ACTIONS.ACCESS_DENIED,
+        metadata: { scheme: 'Cookie', reason: ERROR_MESSAGES.CSRF_TOKEN_INVALID },
+      }));
+    });
+
+    it('should prefer the authorization header over the cookie', async () => {
+      const token = await signSessionToken();
+      const req = new Request('http://localhost/api/trpc', {
+        method: 'POST',
+        headers: { authorization: `Bearer ${token}`, cookie: 'auth-token=stale-token' },
+      });
+
+      const result = await createAuthenticatedContext(req);
+
+      expect(result.userId).toBe(mockUser.id);
+    });
+  });
+});
@@ -1,56 +1,110 @@
 import { TRPCError } from '@trpc/server';
 import { verifyJWT } from '../../../lib/auth/jwt';
 import { userRepository } from '../../../lib/repositories/user.repository';
+import { SessionService } from '../../../lib/services/session.service';
+import { ApiKeyService } from '../../../lib/services/api-key.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { OrganizationService } from '../../../lib/services/organization.service';
+import { getRequestMetadata } from './request-metadata';
+import { getRequestCookie, hasValidCsrfToken } from './auth-cookies';
+import { ROLES, getRolePermissions, type Role, type Permission } from '../../../lib/auth/permissions';
+import type { DepartmentAccess } from '../../../lib/auth/data-scope';
+import {
+  API_KEY_ERROR_MESSAGES,
+  AUDIT_ACTIONS,
+  AUTH_COOKIE_CONFIG,
+  ERROR_MESSAGES,
+} from '../../../lib/auth/constants';
 import type { User } from '@prisma/client';
 
+const API_KEY_SCHEME = 'ApiKey ';
+
 // Extended context type with authenticated user
 export interface AuthenticatedContext {
   user: Omit<User, 'passwordHash'>;
   userId: string;
+  // Null when the request was authenticated with an API key instead of a session token
+  sessionId: string | null;
+  apiKeyId: string | null;
+  // Administrator acting as the user, see ImpersonationService
+  impersonatorId: string | null;
+  role: Role;
+  permissions: Permission[];
+  departments: DepartmentAccess[];
+  // Departments whose data the user may see, including the teams under their own; see getDataScope
+  departmentIds: string[];
 }
 
 /**
- * Authentication middleware for tRPC procedures
- * Validates JWT token and adds user information to context
+ * Authenticate an `Authorization: ApiKey <key>` header
+ * Permissions are limited to the key's scopes
  */
-export async function authenticateUser(
-  authHeader: string | undefined
+async function authenticateApiKey(
+  key: string,
+  ipAddress: string | null
 ): Promise<AuthenticatedContext> {
-  // Check if authorization header exists
-  if (!authHeader) {
-    throw new TRPCError({
-      code: 'UNAUTHORIZED',
-      message: 'Authorization header is required',
-    });
-  }
+  try {
+    const { apiKey, user, permissions } = await ApiKeyService.authenticate(key, ipAddress);
+    const { departments, departmentIds } = await OrganizationService.getDepartmentAccess(user.id);
 
-  // Extract token from Bearer format
-  const token = authHeader.startsWith('Bearer ') 
-    ? authHeader.slice(7)
-    : authHeader;
+    // Remove password hash from user object
+    const userWithoutPassword: Omit<User, 'passwordHash'> & { passwordHash?: string | null } = { ...user };
+    delete userWithoutPassword.passwordHash;
+
+    return {
+      user: userWithoutPassword,
+      userId: user.id,
+      sessionId: null,
+      apiKeyId: apiKey.id,
+      impersonatorId: null,
+      role: user.role,
+      permissions,
+      departments,
+      departmentIds,
+    };
+  } catch (error) {
+    if (error instanceof Error && error.message === API_KEY_ERROR_MESSAGES.INVALID) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: API_KEY_ERROR_MESSAGES.INVALID,
+      });
+    }
 
-  if (!token) {
     throw new TRPCError({
       code: 'UNAUTHORIZED',
-      message: 'Invalid authorization format. Expected: Bearer <token>',
+      message: 'Authentication failed',
     });
   }
+}
 
+/**
+ * Authenticate a session access token, from either the Bearer header or the auth cookie
+ */
+async function authenticateAccessToken(token: string): Promise<AuthenticatedContext> {
   try {
     // Verify JWT token
-    const payload = verifyJWT(token);
+    const payload = await verifyJWT(token);
     
-    if (!payload.userId || !payload.email) {
+    if (!payload.userId || !payload.email || !payload.sessionId) {
       throw new TRPCError({
         code: 'UNAUTHORIZED',
         message: 'Invalid token payload',
       });
     }
 
+    // Reject tokens whose session was revoked (logout, reuse detection) before they expire
+    const isSessionActive = await SessionService.isSessionActive(payload.sessionId, payload.userId);
+    if (!isSessionActive) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Session has been revoked',
+      });
+    }
+
     // Fetch current user from database to ensure they still exist and are active
     const user = await userRepository.findById(payload.userId);
     
-    if (!user) {
+    if (!user || !user.isActive) {
       throw new TRPCError({
         code: 'UNAUTHORIZED',
         message: 'User not found or account deactivated',
@@ -65,12 +119,33 @@ export async function authenticateUser(
       });
     }
 
+    // Impersonation ends as soon as the administrator loses access themselves
+    if (payload.impersonatorId) {
+      const impersonator = await userRepository.findById(payload.impersonatorId);
+      if (!impersonator || !impersonator.isActive || impersonator.role !== ROLES.ADMIN) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Impersonation is no longer allowed',
+        });
+      }
+    }
+
+    const { departments, departmentIds } = await OrganizationService.getDepartmentAccess(user.id);
+
     // Remove password hash from user object
     const { passwordHash, ...userWithoutPassword } = user;
 
     return {
       user: userWithoutPassword,
       userId: user.id,
+      sessionId: payload.sessionId,
+      apiKeyId: null,
+      impersonatorId: payload.impersonatorId ?? null,
+      // Role is read from the database so role changes apply without waiting for token expiry
+      role: user.role,
+      permissions: getRolePermissions(user.role),
+      departments,
+      departmentIds,
     };
   } catch (error) {
     // Handle JWT verification errors
@@ -103,6 +178,42 @@ export async function authenticateUser(
   }
 }
 
+
+/**
+ * Authentication middleware for tRPC procedures
+ * Validates a Bearer JWT or an API key and adds user information to context
+ */
+export async function authenticateUser(
+  authHeader: string | undefined,
+  ipAddress: string | null = null
+): Promise<AuthenticatedContext> {
+  // Check if authorization header exists
+  if (!authHeader) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Authorization header is required',
+    });
+  }
+
+  if (authHeader.startsWith(API_KEY_SCHEME)) {
+    return await authenticateApiKey(authHeader.slice(API_KEY_SCHEME.length), ipAddress);
+  }
+
+  // Extract token from Bearer format
+  const token = authHeader.startsWith('Bearer ') 
+    ? authHeader.slice(7)
+    : authHeader;
+
+  if (!token) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Invalid authorization format. Expected: Bearer <token>',
+    });
+  }
+
+  return await authenticateAccessToken(token);
+}
+
 /**
  * Helper function to extract authorization header from request
  */
@@ -121,15 +232,71 @@ export function getAuthorizationHeader(req: Request | undefined): string | undef
   return req.headers.get('x-authorization') || undefined;
 }
 
+/**
+ * Authenticate the access token cookie set for browser sessions
+ * State-changing requests must also carry the matching CSRF token
+ */
+async function authenticateCookie(
+  req: Request | undefined,
+  token: string
+): Promise<AuthenticatedContext> {
+  if (!hasValidCsrfToken(req)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: ERROR_MESSAGES.CSRF_TOKEN_INVALID,
+    });
+  }
+
+  return await authenticateAccessToken(token);
+}
+
+/**
+ * Describe how a request tried to authenticate, for the audit log
+ */
+function getCredentialScheme(authHeader: string | undefined): string {
+  if (!authHeader) {
+    return 'Cookie';
+  }
+
+  return authHeader.startsWith(API_KEY_SCHEME) ? 'ApiKey' : 'Bearer';
+}
+
 /**
  * Create authenticated context for tRPC procedures
  * This function should be used in protected tRPC procedures
+ * An Authorization header takes precedence over the auth cookie
+ * Rejected credentials are written to the audit log, except missing credentials and expired
+ * access tokens, which clients hit routinely before refreshing
  */
 export async function createAuthenticatedContext(
   req: Request | undefined
 ): Promise<AuthenticatedContext> {
   const authHeader = getAuthorizationHeader(req);
-  return await authenticateUser(authHeader);
+  const cookieToken = authHeader
+    ? undefined
+    : getRequestCookie(req, AUTH_COOKIE_CONFIG.ACCESS_TOKEN_NAME);
+  const metadata = getRequestMetadata(req);
+
+  try {
+    if (cookieToken) {
+      return await authenticateCookie(req, cookieToken);
+    }
+
+    return await authenticateUser(authHeader, metadata.ipAddress);
+  } catch (error) {
+    if ((authHeader || cookieToken) && error instanceof TRPCError && error.message !== 'Token has expired') {
+      await AuditService.record({
+        action: AUDIT_ACTIONS.ACCESS_DENIED,
+        ...metadata,
+        metadata: {
+          scheme: getCredentialScheme(authHeader),
+          reason: error.message,
+        },
+      });
+    }
+
+    throw error;
+  }
 }
 
 /**
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { compareTokenHashes, hashToken } from '../../../lib/auth/secure-token';
+
+/**
+ * Check that a scheduled job route was called by the scheduler with `Authorization: Bearer $CRON_SECRET`
+ * Without CRON_SECRET the scheduled job routes are switched off
+ * @returns The response to send instead of running the job, or null when the job may run
+ */
+export function rejectUnauthorizedCronRequest(req: Request): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'Scheduled jobs are not configured' }, { status: 503 });
+  }
+
+  const authorization = req.headers.get('authorization') ?? '';
+  const presented = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+  // Hashed first so the comparison takes the same time whatever the length of the guess
+  if (!compareTokenHashes(hashToken(presented), hashToken(secret))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
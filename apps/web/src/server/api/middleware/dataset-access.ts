@@ -0,0 +1,33 @@
+import { TRPCError } from '@trpc/server';
+import {
+  datasetRepository,
+  type DatasetWithFileCount,
+} from '../../../lib/repositories/dataset.repository';
+import { getDataScope } from '../../../lib/auth/data-scope';
+import { ROLES } from '../../../lib/auth/permissions';
+import { DATASET_ERROR_MESSAGES } from '../../../lib/auth/constants';
+import type { AuthenticatedContext } from './auth';
+
+/**
+ * Load a dataset the user may change: one they can see and own, or any dataset for administrators
+ * Datasets the user cannot see are reported as not found, so their existence is not revealed
+ * Shared by the dataset router and the file upload routes
+ */
+export async function findManageableDataset(auth: AuthenticatedContext, id: string): Promise<DatasetWithFileCount> {
+  const dataset = await datasetRepository.findById(id, getDataScope(auth));
+  if (!dataset) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: DATASET_ERROR_MESSAGES.NOT_FOUND,
+    });
+  }
+
+  if (dataset.ownerId !== auth.userId && auth.role !== ROLES.ADMIN) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: DATASET_ERROR_MESSAGES.NOT_OWNER,
+    });
+  }
+
+  return dataset;
+}
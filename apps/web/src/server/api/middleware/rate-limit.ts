@@ -0,0 +1,42 @@
+import { TRPCError } from '@trpc/server';
+import { getRateLimitStore } from '../../../lib/rate-limit/store';
+import { ERROR_MESSAGES, AUTH_ERROR_CODES, CLIENT_IP_CONFIG } from '../../../lib/auth/constants';
+import { AuthError } from '../../../lib/auth/errors';
+import { getRequestMetadata } from './request-metadata';
+
+export interface RateLimitOptions {
+  /** Identifies the limited operation in counter keys, e.g. `login` */
+  name: string;
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Count a request against its client IP and reject it once the limit is exceeded
+ * Requests without a resolvable IP share one counter, so leaving it out doesn't escape the limit
+ * @throws TRPCError TOO_MANY_REQUESTS with a Retry-After response header
+ */
+export async function enforceRateLimit(
+  req: Request | undefined,
+  resHeaders: Headers | undefined,
+  options: RateLimitOptions
+): Promise<void> {
+  const ipAddress = getRequestMetadata(req).ipAddress ?? CLIENT_IP_CONFIG.UNKNOWN_IP;
+
+  const { count, resetAt } = await getRateLimitStore().increment(
+    `rate-limit:${options.name}:ip:${ipAddress}`,
+    options.windowMs
+  );
+
+  if (count > options.limit) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+    resHeaders?.set('Retry-After', String(retryAfterSeconds));
+
+    throw new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: ERROR_MESSAGES.RATE_LIMITED,
+      cause: new AuthError(AUTH_ERROR_CODES.RATE_LIMITED, ERROR_MESSAGES.RATE_LIMITED),
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getClientIp, getRequestMetadata } from './request-metadata';
+
+describe('Request metadata', () => {
+  const headers = (values: Record<string, string>) => new Headers(values);
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('getClientIp', () => {
+    it('should ignore X-Forwarded-For unless proxies are configured', () => {
+      expect(getClientIp(headers({ 'x-forwarded-for': '203.0.113.7' }), {})).toBeNull();
+    });
+
+    it('should take the address appended by the trusted proxy', () => {
+      const env = { TRUSTED_PROXY_HOPS: '1' };
+
+      expect(getClientIp(headers({ 'x-forwarded-for': '203.0.113.7' }), env)).toBe('203.0.113.7');
+      expect(getClientIp(headers({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' }), env)).toBe('203.0.113.7');
+    });
+
+    it('should skip the configured number of proxy hops', () => {
+      const forwardedFor = headers({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.2' });
+
+      expect(getClientIp(forwardedFor, { TRUSTED_PROXY_HOPS: '2' })).toBe('203.0.113.7');
+      expect(getClientIp(forwardedFor, { TRUSTED_PROXY_HOPS: '4' })).toBeNull();
+      expect(getClientIp(forwardedFor, { TRUSTED_PROXY_HOPS: '0' })).toBeNull();
+      expect(() => getClientIp(forwardedFor, { TRUSTED_PROXY_HOPS: 'two' })).toThrow('Invalid TRUSTED_PROXY_HOPS');
+    });
+
+    it('should only trust the configured platform header when there is one', () => {
+      const request = headers({ 'cf-connecting-ip': '203.0.113.7', 'x-forwarded-for': '198.51.100.1' });
+
+      expect(getClientIp(request, { CLIENT_IP_HEADER: 'cf-connecting-ip' })).toBe('203.0.113.7');
+      expect(getClientIp(headers({ 'x-forwarded-for': '198.51.100.1' }), { CLIENT_IP_HEADER: 'cf-connecting-ip' }))
+        .toBeNull();
+    });
+
+    it('should not fall back to headers the client can set', () => {
+      expect(getClientIp(headers({ 'x-real-ip': '198.51.100.1' }), { TRUSTED_PROXY_HOPS: '1' })).toBeNull();
+    });
+  });
+
+  describe('getRequestMetadata', () => {
+    it('should read the client IP and user agent', () => {
+      const req = new Request('http://localhost/api/trpc', {
+        headers: { 'x-forwarded-for': '203.0.113.7', 'user-agent': 'vitest' },
+      });
+
+      vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+
+      expect(getRequestMetadata(req)).toEqual({ ipAddress: '203.0.113.7', userAgent: 'vitest' });
+      expect(getRequestMetadata(undefined)).toEqual({ ipAddress: null, userAgent: null });
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { CLIENT_IP_CONFIG } from '../../../lib/auth/constants';
+
+/**
+ * Client information extracted from an incoming request
+ */
+export interface RequestMetadata {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Find the client IP address as seen by the infrastructure in front of the app
+ * CLIENT_IP_HEADER names a header the platform sets itself (e.g. `cf-connecting-ip`) and is
+ * used alone when configured. Otherwise each of the TRUSTED_PROXY_HOPS reverse proxies appends
+ * the address it was connected from to X-Forwarded-For, so the client is that many entries from
+ * the right; entries further left were sent by the client and are never trusted. Without either
+ * setting the app is assumed to face clients directly and the header is ignored
+ * @returns string | null - Null when the request did not come through the expected proxies
+ * @throws Error if TRUSTED_PROXY_HOPS is not a whole number
+ */
+export function getClientIp(headers: Headers, env: Partial<NodeJS.ProcessEnv> = process.env): string | null {
+  if (env.CLIENT_IP_HEADER) {
+    return headers.get(env.CLIENT_IP_HEADER)?.trim() || null;
+  }
+
+  const hops = env.TRUSTED_PROXY_HOPS
+    ? Number(env.TRUSTED_PROXY_HOPS)
+    : CLIENT_IP_CONFIG.DEFAULT_TRUSTED_PROXY_HOPS;
+  if (!Number.isInteger(hops) || hops < 0) {
+    throw new Error(`Invalid TRUSTED_PROXY_HOPS: ${env.TRUSTED_PROXY_HOPS}`);
+  }
+
+  const forwardedFor = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return hops > 0 && forwardedFor.length >= hops ? forwardedFor[forwardedFor.length - hops] : null;
+}
+
+/**
+ * Extract client IP address and user agent from request headers
+ */
+export function getRequestMetadata(req: Request | undefined): RequestMetadata {
+  if (!req) {
+    return { ipAddress: null, userAgent: null };
+  }
+
+  return {
+    ipAddress: getClientIp(req.headers),
+    userAgent: req.headers.get('user-agent'),
+  };
+}
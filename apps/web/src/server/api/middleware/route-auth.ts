@@ -0,0 +1,60 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { createAuthenticatedContext, type AuthenticatedContext } from './auth';
+import { runAsImpersonator } from '../../../lib/auth/impersonation';
+import { ERROR_MESSAGES } from '../../../lib/auth/constants';
+import type { Permission } from '../../../lib/auth/permissions';
+
+type RouteHandler<P> = (req: NextRequest, auth: AuthenticatedContext, params: P) => Promise<Response>;
+
+/**
+ * Protect an API route the way requirePermission protects tRPC procedures, for endpoints that
+ * tRPC cannot serve such as file uploads
+ * The handler runs on behalf of an impersonating administrator like procedures do, and the
+ * TRPCErrors it throws are sent as `{ error, code }` with the matching HTTP status
+ * Usage: export const POST = withRouteAuth([PERMISSIONS.DATASETS_WRITE], async (req, auth, params) => ...)
+ */
+export function withRouteAuth<P>(permissions: Permission[], handler: RouteHandler<P>) {
+  return async (req: NextRequest, context: { params: Promise<P> }): Promise<Response> => {
+    try {
+      const auth = await createAuthenticatedContext(req);
+
+      if (auth.user.mustChangePassword) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: ERROR_MESSAGES.PASSWORD_CHANGE_REQUIRED,
+        });
+      }
+
+      const missingPermissions = permissions.filter((permission) => !auth.permissions.includes(permission));
+      if (missingPermissions.length > 0) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: `Missing required permission: ${missingPermissions.join(', ')}`,
+        });
+      }
+
+      const params = await context.params;
+      const run = () => handler(req, auth, params);
+
+      return await (auth.impersonatorId ? runAsImpersonator(auth.impersonatorId, run) : run());
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        if (error.code === 'INTERNAL_SERVER_ERROR') {
+          console.error(`Error handling ${req.method} ${req.nextUrl.pathname}:`, error.cause ?? error);
+        }
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: getHTTPStatusCodeFromError(error) }
+        );
+      }
+
+      console.error(`Error handling ${req.method} ${req.nextUrl.pathname}:`, error);
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_SERVER_ERROR' },
+        { status: 500 }
+      );
+    }
+  };
+}
@@ -1,8 +1,18 @@
 import { createTRPCRouter } from './trpc';
 import { authRouter } from './routers/auth';
+import { adminRouter } from './routers/admin';
+import { mfaRouter } from './routers/mfa';
+import { userRouter } from './routers/user';
+import { auditRouter } from './routers/audit';
+import { datasetRouter } from './routers/dataset';
 
 export const appRouter = createTRPCRouter({
   auth: authRouter,
+  admin: adminRouter,
+  mfa: mfaRouter,
+  user: userRouter,
+  audit: auditRouter,
+  dataset: datasetRouter,
 });
 
 export type AppRouter = typeof appRouter;
\ No newline at end of file
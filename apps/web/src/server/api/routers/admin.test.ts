@@ -0,0 +1,521 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { adminRouter } from './admin';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { userRepository as mockUserRepository } from '../../../lib/repositories/user.repository';
+import { SessionService, SESSION_REVOKE_REASONS } from '../../../lib/services/session.service';
+import { PasswordUtils } from '../../../lib/auth/password';
+import { InvitationService } from '../../../lib/services/invitation.service';
+import { AccountDeletionService } from '../../../lib/services/account-deletion.service';
+import { UsageStatsService } from '../../../lib/services/usage-stats.service';
+import { ImpersonationService } from '../../../lib/services/impersonation.service';
+import {
+  ADMIN_ERROR_MESSAGES,
+  API_KEY_ERROR_MESSAGES,
+  AUTH_COOKIE_CONFIG,
+  ERROR_MESSAGES,
+  ORGANIZATION_ERROR_MESSAGES,
+} from '../../../lib/auth/constants';
+import { buildAuthContext, buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/repositories/user.repository', () => ({
+  userRepository: {
+    findAll: vi.fn(),
+    count: vi.fn(),
+    findById: vi.fn(),
+    findByEmail: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/repositories/password-history.repository', () => ({
+  passwordHistoryRepository: {
+    create: vi.fn(),
+    findRecent: vi.fn(async () => []),
+    pruneForUser: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/session.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../lib/services/session.service')>();
+  return {
+    ...actual,
+    SessionService: {
+      revokeAllSessions: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../../lib/services/invitation.service', () => ({
+  InvitationService: {
+    invite: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/account-deletion.service', () => ({
+  AccountDeletionService: {
+    restore: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/usage-stats.service', () => ({
+  UsageStatsService: {
+    getPlatformStats: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/impersonation.service', () => ({
+  ImpersonationService: {
+    start: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/auth/password', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../lib/auth/password')>();
+  return {
+    PasswordUtils: {
+      ...actual.PasswordUtils,
+      hash: vi.fn(async () => 'hashed-temporary-password'),
+      validatePasswordStrength: actual.PasswordUtils.validatePasswordStrength,
+      generateTemporaryPassword: vi.fn(() => 'Temp-Passw0rd!xyz'),
+    },
+  };
+});
+
+describe('AdminRouter', () => {
+  const adminContext = buildAuthContext({ id: 'admin-1', email: 'admin@example.com', role: 'ADMIN' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(adminContext);
+  });
+
+  const createCaller = (req?: Request, resHeaders?: Headers) => {
+    const ctx = { req, resHeaders };
+    return adminRouter.createCaller(ctx);
+  };
+
+  describe('authorization', () => {
+    it('should reject non-admin users', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'ESTIMATOR' }));
+
+      const caller = createCaller();
+
+      await expect(caller.listUsers({})).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(mockUserRepository.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should keep account and signing key changes away from API keys', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue({ ...adminContext, sessionId: null, apiKeyId: 'key-1' });
+
+      const caller = createCaller();
+      const sessionRequired = { code: 'FORBIDDEN', message: API_KEY_ERROR_MESSAGES.SESSION_REQUIRED };
+
+      await expect(caller.setUserStatus({ userId: 'user-123', isActive: false })).rejects.toMatchObject(sessionRequired);
+      await expect(caller.assignRole({ userId: 'user-123', role: 'ADMIN' })).rejects.toMatchObject(sessionRequired);
+      await expect(caller.resetPassword({ userId: 'user-123' })).rejects.toMatchObject(sessionRequired);
+      await expect(caller.restoreUser({ userId: 'user-123' })).rejects.toMatchObject(sessionRequired);
+      await expect(caller.rotateSigningKey()).rejects.toMatchObject(sessionRequired);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+      expect(AccountDeletionService.restore).not.toHaveBeenCalled();
+
+      vi.mocked(mockUserRepository.findAll).mockResolvedValue([]);
+      vi.mocked(mockUserRepository.count).mockResolvedValue(0);
+      await expect(caller.listUsers({})).resolves.toMatchObject({ total: 0 });
+    });
+  });
+
+  describe('listUsers query', () => {
+    it('should return a page of users with the total count', async () => {
+      vi.mocked(mockUserRepository.findAll).mockResolvedValue([buildUser()]);
+      vi.mocked(mockUserRepository.count).mockResolvedValue(41);
+
+      const caller = createCaller();
+      const result = await caller.listUsers({ page: 3, pageSize: 20, search: 'test', role: 'VIEWER', status: 'active' });
+
+      expect(result.total).toBe(41);
+      expect(result.users).toHaveLength(1);
+      expect(result.users[0]).not.toHaveProperty('passwordHash');
+      expect(mockUserRepository.findAll).toHaveBeenCalledWith({
+        search: 'test',
+        role: 'VIEWER',
+        isActive: true,
+        skip: 40,
+        take: 20,
+      });
+      expect(mockUserRepository.count).toHaveBeenCalledWith({
+        search: 'test',
+        role: 'VIEWER',
+        isActive: true,
+      });
+    });
+
+    it('should filter accounts waiting to be purged', async () => {
+      vi.mocked(mockUserRepository.findAll).mockResolvedValue([]);
+      vi.mocked(mockUserRepository.count).mockResolvedValue(0);
+
+      const caller = createCaller();
+      await caller.listUsers({ status: 'deleted' });
+
+      expect(mockUserRepository.count).toHaveBeenCalledWith({
+        search: undefined,
+        role: undefined,
+        isActive: undefined,
+        deleted: true,
+      });
+    });
+
+    it('should cap the page size', async () => {
+      const caller = createCaller();
+
+      await expect(caller.listUsers({ pageSize: 500 })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+  });
+
+  describe('createUser mutation', () => {
+    it('should create a user with a temporary password that must be changed', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+      vi.mocked(mockUserRepository.create).mockImplementation(async (data) =>
+        buildUser({ id: 'user-new', email: data.email, role: data.role, mustChangePassword: true })
+      );
+
+      const caller = createCaller();
+      const result = await caller.createUser({ email: 'New@Example.com', role: 'ESTIMATOR' });
+
+      expect(result.temporaryPassword).toBe('Temp-Passw0rd!xyz');
+      expect(result.user.email).toBe('new@example.com');
+      expect(mockUserRepository.create).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        passwordHash: 'hashed-temporary-password',
+        role: 'ESTIMATOR',
+        mustChangePassword: true,
+        emailVerifiedAt: expect.any(Date),
+      });
+    });
+
+    it('should not return a password when one is provided', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+      vi.mocked(mockUserRepository.create).mockResolvedValue(buildUser({ mustChangePassword: true }));
+
+      const caller = createCaller();
+      const result = await caller.createUser({ email: 'test@example.com', role: 'VIEWER', password: 'Str0ng!Password' });
+
+      expect(result.temporaryPassword).toBeUndefined();
+      expect(PasswordUtils.generateTemporaryPassword).not.toHaveBeenCalled();
+      expect(PasswordUtils.hash).toHaveBeenCalledWith('Str0ng!Password');
+    });
+
+    it('should reject existing emails', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser());
+
+      const caller = createCaller();
+
+      await expect(caller.createUser({ email: 'test@example.com', role: 'VIEWER' })).rejects.toMatchObject({
+        code: 'CONFLICT',
+        message: ERROR_MESSAGES.USER_EXISTS,
+      });
+      expect(mockUserRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invite mutation', () => {
+    it('should invite a normalized email with the role and department', async () => {
+      vi.mocked(InvitationService.invite).mockResolvedValue({
+        id: 'invitation-1',
+        email: 'new@example.com',
+        role: 'ESTIMATOR',
+        departmentId: 'dept-1',
+        tokenHash: 'stored-hash',
+        invitedById: 'admin-1',
+        expiresAt: new Date('2025-01-08'),
+        acceptedAt: null,
+        revokedAt: null,
+        createdAt: new Date('2025-01-01'),
+      });
+
+      const caller = createCaller();
+      const result = await caller.invite({ email: ' New@Example.com ', role: 'ESTIMATOR', departmentId: 'dept-1' });
+
+      expect(result.invitation).toEqual({
+        id: 'invitation-1',
+        email: 'new@example.com',
+        role: 'ESTIMATOR',
+        departmentId: 'dept-1',
+        expiresAt: new Date('2025-01-08'),
+      });
+      expect(result.invitation).not.toHaveProperty('tokenHash');
+      expect(InvitationService.invite).toHaveBeenCalledWith(adminContext.user, {
+        email: 'new@example.com',
+        role: 'ESTIMATOR',
+        departmentId: 'dept-1',
+      });
+    });
+
+    it('should map existing users and unknown departments', async () => {
+      const caller = createCaller();
+
+      vi.mocked(InvitationService.invite).mockRejectedValue(new Error(ERROR_MESSAGES.USER_EXISTS));
+      await expect(caller.invite({ email: 'test@example.com', role: 'VIEWER' })).rejects.toMatchObject({
+        code: 'CONFLICT',
+      });
+
+      vi.mocked(InvitationService.invite).mockRejectedValue(
+        new Error(ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND)
+      );
+      await expect(
+        caller.invite({ email: 'new@example.com', role: 'VIEWER', departmentId: 'missing' })
+      ).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('setUserStatus mutation', () => {
+    it('should disable a user and revoke their sessions', async () => {
+      vi.mocked(mockUserRepository.update).mockResolvedValue(buildUser({ isActive: false }));
+
+      const caller = createCaller();
+      const result = await caller.setUserStatus({ userId: 'user-123', isActive: false });
+
+      expect(result.user.isActive).toBe(false);
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', { isActive: false });
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user-123', SESSION_REVOKE_REASONS.USER_DISABLED);
+    });
+
+    it('should enable a user without touching sessions', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(buildUser({ isActive: false }));
+      vi.mocked(mockUserRepository.update).mockResolvedValue(buildUser());
+
+      const caller = createCaller();
+      await caller.setUserStatus({ userId: 'user-123', isActive: true });
+
+      expect(SessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('should not let administrators disable themselves', async () => {
+      const caller = createCaller();
+
+      try {
+        await caller.setUserStatus({ userId: 'admin-1', isActive: false });
+        expect.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TRPCError);
+        const trpcError = error as TRPCError;
+        expect(trpcError.code).toBe('BAD_REQUEST');
+        expect(trpcError.message).toBe(ADMIN_ERROR_MESSAGES.CANNOT_DISABLE_SELF);
+      }
+
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should only re-enable deleted accounts through restoreUser', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValueOnce(
+        buildUser({ isActive: false, deletedAt: new Date() })
+      );
+
+      const caller = createCaller();
+
+      await expect(caller.setUserStatus({ userId: 'user-123', isActive: true })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: ADMIN_ERROR_MESSAGES.USER_DELETED,
+      });
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should map missing users to NOT_FOUND', async () => {
+      vi.mocked(mockUserRepository.update).mockRejectedValue(new Error('User not found'));
+
+      const caller = createCaller();
+
+      await expect(caller.setUserStatus({ userId: 'user-404', isActive: true })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+        message: ADMIN_ERROR_MESSAGES.USER_NOT_FOUND,
+      });
+    });
+  });
+
+  describe('assignRole mutation', () => {
+    it('should update the role of another user', async () => {
+      vi.mocked(mockUserRepository.update).mockResolvedValue(buildUser({ role: 'PROCUREMENT' }));
+
+      const caller = createCaller();
+      const result = await caller.assignRole({ userId: 'user-123', role: 'PROCUREMENT' });
+
+      expect(result.user.role).toBe('PROCUREMENT');
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', { role: 'PROCUREMENT' });
+    });
+
+    it('should not let administrators change their own role', async () => {
+      const caller = createCaller();
+
+      await expect(caller.assignRole({ userId: 'admin-1', role: 'VIEWER' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: ADMIN_ERROR_MESSAGES.CANNOT_CHANGE_OWN_ROLE,
+      });
+    });
+
+    it('should reject unknown roles', async () => {
+      const caller = createCaller();
+
+      await expect(
+        caller.assignRole({ userId: 'user-123', role: 'SUPERUSER' as never })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    });
+  });
+
+  describe('resetPassword mutation', () => {
+    it('should set a temporary password, force a change and revoke sessions', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(buildUser());
+      vi.mocked(mockUserRepository.update).mockResolvedValue(buildUser({ mustChangePassword: true }));
+
+      const caller = createCaller();
+      const result = await caller.resetPassword({ userId: 'user-123' });
+
+      expect(result.temporaryPassword).toBe('Temp-Passw0rd!xyz');
+      expect(result.user.mustChangePassword).toBe(true);
+      expect(mockUserRepository.update).toHaveBeenCalledWith('user-123', {
+        passwordHash: 'hashed-temporary-password',
+        passwordChangedAt: expect.any(Date),
+        mustChangePassword: true,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user-123', SESSION_REVOKE_REASONS.PASSWORD_RESET);
+    });
+
+    it('should report unknown users', async () => {
+      vi.mocked(mockUserRepository.findById).mockResolvedValue(null);
+
+      const caller = createCaller();
+
+      await expect(caller.resetPassword({ userId: 'missing' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreUser mutation', () => {
+    it('should restore a deleted account', async () => {
+      vi.mocked(AccountDeletionService.restore).mockResolvedValue(buildUser());
+
+      const caller = createCaller();
+      const result = await caller.restoreUser({ userId: 'user-123' });
+
+      expect(result.user).toMatchObject({ isActive: true, deletedAt: null });
+      expect(AccountDeletionService.restore).toHaveBeenCalledWith('user-123');
+    });
+
+    it('should map accounts that are not deleted or already purged', async () => {
+      const caller = createCaller();
+
+      vi.mocked(AccountDeletionService.restore).mockRejectedValueOnce(
+        new Error(ADMIN_ERROR_MESSAGES.USER_NOT_DELETED)
+      );
+      await expect(caller.restoreUser({ userId: 'user-123' })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+
+      vi.mocked(AccountDeletionService.restore).mockRejectedValueOnce(new Error(ADMIN_ERROR_MESSAGES.USER_PURGED));
+      await expect(caller.restoreUser({ userId: 'user-123' })).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+  });
+
+  describe('impersonate mutation', () => {
+    const browserRequest = () =>
+      new Request('http://localhost/api/trpc/admin.impersonate', {
+        method: 'POST',
+        headers: { cookie: `${AUTH_COOKIE_CONFIG.REFRESH_TOKEN_NAME}=admin-refresh-token` },
+      });
+
+    it('should switch the browser to a short-lived token and keep the admin refresh token aside', async () => {
+      const expiresAt = new Date('2025-03-01T08:30:00Z');
+      vi.mocked(ImpersonationService.start).mockResolvedValueOnce({
+        user: buildUser(),
+        session: { id: 'session-imp', expiresAt } as never,
+        accessToken: 'impersonation-token',
+      });
+      const resHeaders = new Headers();
+
+      const result = await createCaller(browserRequest(), resHeaders).impersonate({ userId: 'user-123' });
+
+      expect(result).toMatchObject({
+        success: true,
+        accessTokenExpiresAt: expiresAt,
+        user: { id: 'user-123', email: 'test@example.com' },
+        impersonator: { userId: 'admin-1', email: 'admin@example.com' },
+      });
+      expect(ImpersonationService.start).toHaveBeenCalledWith(adminContext.user, 'user-123', expect.any(Object));
+      const cookies = resHeaders.getSetCookie().join('\n');
+      expect(cookies).toContain(`${AUTH_COOKIE_CONFIG.ACCESS_TOKEN_NAME}=impersonation-token`);
+      expect(cookies).toContain(`${AUTH_COOKIE_CONFIG.REFRESH_TOKEN_NAME}=;`);
+      expect(cookies).toContain(`${AUTH_COOKIE_CONFIG.IMPERSONATOR_REFRESH_TOKEN_NAME}=admin-refresh-token`);
+    });
+
+    it('should require a browser session to return to', async () => {
+      await expect(createCaller().impersonate({ userId: 'user-123' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: ADMIN_ERROR_MESSAGES.IMPERSONATION_REQUIRES_BROWSER_SESSION,
+      });
+      expect(ImpersonationService.start).not.toHaveBeenCalled();
+    });
+
+    it('should map refused targets', async () => {
+      vi.mocked(ImpersonationService.start).mockRejectedValueOnce(
+        new Error(ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_ADMIN)
+      );
+
+      await expect(
+        createCaller(browserRequest(), new Headers()).impersonate({ userId: 'admin-2' })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST', message: ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_ADMIN });
+    });
+  });
+
+  describe('getStats query', () => {
+    it('should return platform usage in the administrator time zone', async () => {
+      const stats = {
+        totalUsers: 40,
+        activeUsers: 25,
+        newUsers: 3,
+        datasetsCount: 2,
+        filesCount: 9,
+        queriesCount: 12,
+        tokensUsed: 3400,
+        activity: [{ date: '2025-03-01', queries: 1, tokens: 120 }],
+      };
+      vi.mocked(UsageStatsService.getPlatformStats).mockResolvedValueOnce(stats);
+
+      const result = await createCaller().getStats();
+
+      expect(result).toEqual(stats);
+      expect(UsageStatsService.getPlatformStats).toHaveBeenCalledWith('Asia/Taipei');
+    });
+  });
+
+  describe('signing keys', () => {
+    it('should rotate the signing key and keep the previous one listed until it expires', async () => {
+      const caller = createCaller();
+      const first = await caller.rotateSigningKey({ algorithm: 'EdDSA' });
+
+      const result = await caller.rotateSigningKey({ algorithm: 'EdDSA' });
+      const keys = await caller.listSigningKeys();
+
+      expect(result).toMatchObject({
+        success: true,
+        message: ADMIN_ERROR_MESSAGES.SIGNING_KEY_ROTATED,
+        key: { algorithm: 'EdDSA', retiredAt: null },
+      });
+      expect(keys.map((key) => key.kid)).toEqual([result.key.kid, first.key.kid]);
+      expect(keys[1].retiredAt).toBeInstanceOf(Date);
+      expect(keys[1].expiresAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject non-admin users', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'VIEWER' }));
+
+      const caller = createCaller();
+
+      await expect(caller.rotateSigningKey()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+});
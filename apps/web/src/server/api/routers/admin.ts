@@ -0,0 +1,676 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import type { User } from '@prisma/client';
+import { createTRPCRouter, adminProcedure, adminSessionProcedure } from '../trpc';
+import { userRepository } from '../../../lib/repositories/user.repository';
+import { PasswordUtils } from '../../../lib/auth/password';
+import {
+  PASSWORD_CONFIG,
+  EMAIL_CONFIG,
+  ERROR_MESSAGES,
+  ADMIN_ERROR_MESSAGES,
+  ORGANIZATION_ERROR_MESSAGES,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  AUTH_COOKIE_CONFIG,
+} from '../../../lib/auth/constants';
+import { ROLES } from '../../../lib/auth/permissions';
+import { SessionService, SESSION_REVOKE_REASONS } from '../../../lib/services/session.service';
+import { PasswordService } from '../../../lib/services/password.service';
+import { InvitationService } from '../../../lib/services/invitation.service';
+import { AccountDeletionService } from '../../../lib/services/account-deletion.service';
+import { AuditService, type AuditEventInput } from '../../../lib/services/audit.service';
+import { SigningKeyService } from '../../../lib/services/signing-key.service';
+import { UsageStatsService } from '../../../lib/services/usage-stats.service';
+import { ImpersonationService } from '../../../lib/services/impersonation.service';
+import { JWT_CONFIG } from '../../../lib/auth/jwt-claims';
+import type { AuthenticatedContext } from '../middleware/auth';
+import { getRequestMetadata } from '../middleware/request-metadata';
+import { getRequestCookie, setImpersonationCookies } from '../middleware/auth-cookies';
+import { organizationsRouter } from './organizations';
+
+const USER_LIST_MAX_PAGE_SIZE = 100;
+
+const roleSchema = z.enum(ROLES);
+
+const listUsersInputSchema = z.object({
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(USER_LIST_MAX_PAGE_SIZE).default(20),
+  search: z.string().trim().max(EMAIL_CONFIG.MAX_LENGTH).optional(),
+  role: roleSchema.optional(),
+  // Deleted accounts are also disabled, so they show up under 'disabled' too
+  status: z.enum(['active', 'disabled', 'deleted']).optional(),
+});
+
+const createUserInputSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .email(ERROR_MESSAGES.INVALID_EMAIL)
+    .min(1, ERROR_MESSAGES.EMAIL_REQUIRED)
+    .max(EMAIL_CONFIG.MAX_LENGTH, ERROR_MESSAGES.EMAIL_TOO_LONG)
+    .toLowerCase(),
+  role: roleSchema,
+  // When omitted a temporary password is generated and returned once
+  password: z
+    .string()
+    .min(PASSWORD_CONFIG.MIN_LENGTH, ERROR_MESSAGES.PASSWORD_TOO_SHORT)
+    .max(PASSWORD_CONFIG.MAX_LENGTH, ERROR_MESSAGES.PASSWORD_TOO_LONG)
+    .optional(),
+});
+
+const inviteUserInputSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .email(ERROR_MESSAGES.INVALID_EMAIL)
+    .min(1, ERROR_MESSAGES.EMAIL_REQUIRED)
+    .max(EMAIL_CONFIG.MAX_LENGTH, ERROR_MESSAGES.EMAIL_TOO_LONG)
+    .toLowerCase(),
+  role: roleSchema,
+  departmentId: z.string().min(1).optional(),
+});
+
+const setUserStatusInputSchema = z.object({
+  userId: z.string().min(1),
+  isActive: z.boolean(),
+});
+
+const assignRoleInputSchema = z.object({
+  userId: z.string().min(1),
+  role: roleSchema,
+});
+
+const resetPasswordInputSchema = z.object({
+  userId: z.string().min(1),
+});
+
+const restoreUserInputSchema = z.object({
+  userId: z.string().min(1),
+});
+
+const impersonateInputSchema = z.object({
+  userId: z.string().min(1),
+});
+
+const rotateSigningKeyInputSchema = z.object({
+  // Defaults to JWT_SIGNING_ALGORITHM
+  algorithm: z.enum(JWT_CONFIG.ALGORITHMS).optional(),
+}).optional();
+
+const adminUserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  role: roleSchema,
+  isActive: z.boolean(),
+  mustChangePassword: z.boolean(),
+  emailVerifiedAt: z.date().nullable(),
+  lockedUntil: z.date().nullable(),
+  // Set while the account waits out its deletion grace period
+  deletedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const listUsersOutputSchema = z.object({
+  users: z.array(adminUserSchema),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+});
+
+const userMutationOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  user: adminUserSchema,
+});
+
+const createUserOutputSchema = userMutationOutputSchema.extend({
+  temporaryPassword: z.string().optional(),
+});
+
+const inviteUserOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  invitation: z.object({
+    id: z.string(),
+    email: z.string(),
+    role: roleSchema,
+    departmentId: z.string().nullable(),
+    expiresAt: z.date(),
+  }),
+});
+
+const resetPasswordOutputSchema = userMutationOutputSchema.extend({
+  temporaryPassword: z.string(),
+});
+
+const signingKeySchema = z.object({
+  kid: z.string(),
+  algorithm: z.enum(JWT_CONFIG.ALGORITHMS),
+  createdAt: z.date(),
+  retiredAt: z.date().nullable(),
+  expiresAt: z.date().nullable(),
+});
+
+const rotateSigningKeyOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  key: signingKeySchema,
+});
+
+const impersonateOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  // The impersonation token cannot be refreshed; the impersonation ends when it expires
+  accessTokenExpiresAt: z.date(),
+  user: z.object({
+    id: z.string(),
+    email: z.string(),
+    role: roleSchema,
+  }),
+  impersonator: z.object({
+    userId: z.string(),
+    email: z.string(),
+  }),
+});
+
+const platformStatsOutputSchema = z.object({
+  totalUsers: z.number(),
+  activeUsers: z.number(),
+  newUsers: z.number(),
+  datasetsCount: z.number(),
+  filesCount: z.number(),
+  queriesCount: z.number(),
+  tokensUsed: z.number(),
+  activity: z.array(z.object({
+    date: z.string(),
+    queries: z.number(),
+    tokens: z.number(),
+  })),
+});
+
+/**
+ * Project a user record onto the fields exposed to administrators
+ */
+function toAdminUser(user: User): z.infer<typeof adminUserSchema> {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    isActive: user.isActive,
+    mustChangePassword: user.mustChangePassword,
+    emailVerifiedAt: user.emailVerifiedAt,
+    lockedUntil: user.lockedUntil,
+    deletedAt: user.deletedAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+/**
+ * Map repository errors to tRPC errors, re-throwing tRPC errors as-is
+ */
+function toTRPCError(error: unknown): TRPCError {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+
+  if (error instanceof Error && error.message === ADMIN_ERROR_MESSAGES.USER_NOT_FOUND) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: ADMIN_ERROR_MESSAGES.USER_NOT_FOUND,
+    });
+  }
+
+  // Lost a race with a concurrent registration of the same email
+  if (error instanceof Error && error.message === ERROR_MESSAGES.USER_EXISTS) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: ERROR_MESSAGES.USER_EXISTS,
+    });
+  }
+
+  if (error instanceof Error && error.message === ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND) {
+    return new TRPCError({
+      code: 'NOT_FOUND',
+      message: ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND,
+    });
+  }
+
+  if (error instanceof Error && error.message === ADMIN_ERROR_MESSAGES.USER_NOT_DELETED) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: ADMIN_ERROR_MESSAGES.USER_NOT_DELETED,
+    });
+  }
+
+  if (error instanceof Error && error.message === ADMIN_ERROR_MESSAGES.USER_PURGED) {
+    return new TRPCError({
+      code: 'CONFLICT',
+      message: ADMIN_ERROR_MESSAGES.USER_PURGED,
+    });
+  }
+
+  const impersonationErrors: string[] = [
+    ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_SELF,
+    ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_ADMIN,
+    ADMIN_ERROR_MESSAGES.CANNOT_IMPERSONATE_INACTIVE,
+  ];
+  if (error instanceof Error && impersonationErrors.includes(error.message)) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: ADMIN_ERROR_MESSAGES.ADMIN_ERROR,
+    cause: error,
+  });
+}
+
+/**
+ * Record an administrator action on another user's account
+ */
+async function recordAdminAction(
+  ctx: { req?: Request; auth: AuthenticatedContext },
+  action: AuditEventInput['action'],
+  targetUserId: string,
+  metadata?: AuditEventInput['metadata']
+): Promise<void> {
+  await AuditService.record({
+    action,
+    actor: ctx.auth.user,
+    targetType: AUDIT_TARGET_TYPES.USER,
+    targetId: targetUserId,
+    ...getRequestMetadata(ctx.req),
+    metadata,
+  });
+}
+
+export const adminRouter = createTRPCRouter({
+  organizations: organizationsRouter,
+
+  /**
+   * List users with pagination, email search and role/status filters
+   */
+  listUsers: adminProcedure
+    .input(listUsersInputSchema)
+    .output(listUsersOutputSchema)
+    .query(async ({ input }) => {
+      const { page, pageSize, search, role, status } = input;
+
+      const filter = {
+        search: search || undefined,
+        role,
+        isActive: status === undefined || status === 'deleted' ? undefined : status === 'active',
+        ...(status === 'deleted' && { deleted: true }),
+      };
+
+      try {
+        const [users, total] = await Promise.all([
+          userRepository.findAll({
+            ...filter,
+            skip: (page - 1) * pageSize,
+            take: pageSize,
+          }),
+          userRepository.count(filter),
+        ]);
+
+        return {
+          users: users.map(toAdminUser),
+          total,
+          page,
+          pageSize,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Create a user on behalf of someone else
+   * The user must change the password on first login
+   */
+  createUser: adminProcedure
+    .input(createUserInputSchema)
+    .output(createUserOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { email, role, password } = input;
+
+      if (password) {
+        const passwordValidation = PasswordUtils.validatePasswordStrength(password);
+        if (!passwordValidation.isValid) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR,
+            cause: passwordValidation.errors,
+          });
+        }
+      }
+
+      try {
+        const existingUser = await userRepository.findByEmail(email);
+        if (existingUser) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: ERROR_MESSAGES.USER_EXISTS,
+          });
+        }
+
+        const initialPassword = password ?? PasswordUtils.generateTemporaryPassword();
+        const passwordHash = await PasswordUtils.hash(initialPassword);
+        const temporaryPassword = password ? undefined : initialPassword;
+
+        const newUser = await userRepository.create({
+          email,
+          passwordHash,
+          role,
+          mustChangePassword: true,
+          // The administrator vouches for the address, so no verification email is sent
+          emailVerifiedAt: new Date(),
+        });
+
+        await recordAdminAction(ctx, AUDIT_ACTIONS.ADMIN_USER_CREATED, newUser.id, {
+          email: newUser.email,
+          role: newUser.role,
+        });
+
+        return {
+          success: true,
+          message: ADMIN_ERROR_MESSAGES.USER_CREATED,
+          user: toAdminUser(newUser),
+          temporaryPassword,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Email an invitation to create an account with the given role and department
+   * The account only exists once the invitation is accepted, see auth.acceptInvitation
+   */
+  invite: adminProcedure
+    .input(inviteUserInputSchema)
+    .output(inviteUserOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const invitation = await InvitationService.invite(ctx.auth.user, input);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.ADMIN_USER_INVITED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.INVITATION,
+          targetId: invitation.id,
+          ...getRequestMetadata(ctx.req),
+          metadata: {
+            email: invitation.email,
+            role: invitation.role,
+            departmentId: invitation.departmentId,
+          },
+        });
+
+        return {
+          success: true,
+          message: ADMIN_ERROR_MESSAGES.USER_INVITED,
+          invitation: {
+            id: invitation.id,
+            email: invitation.email,
+            role: invitation.role,
+            departmentId: invitation.departmentId,
+            expiresAt: invitation.expiresAt,
+          },
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Enable or disable a user
+   * Disabling revokes every session so the user is signed out immediately
+   */
+  setUserStatus: adminSessionProcedure
+    .input(setUserStatusInputSchema)
+    .output(userMutationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { userId, isActive } = input;
+
+      if (!isActive && userId === ctx.auth.userId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: ADMIN_ERROR_MESSAGES.CANNOT_DISABLE_SELF,
+        });
+      }
+
+      try {
+        // Deleted accounts come back through restoreUser, which also stops the purge
+        if (isActive) {
+          const user = await userRepository.findById(userId);
+          if (!user) {
+            throw new Error(ADMIN_ERROR_MESSAGES.USER_NOT_FOUND);
+          }
+          if (user.deletedAt) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: ADMIN_ERROR_MESSAGES.USER_DELETED,
+            });
+          }
+        }
+
+        const updatedUser = await userRepository.update(userId, { isActive });
+
+        if (!isActive) {
+          await SessionService.revokeAllSessions(userId, SESSION_REVOKE_REASONS.USER_DISABLED);
+        }
+
+        await recordAdminAction(ctx, AUDIT_ACTIONS.ADMIN_USER_STATUS_CHANGED, userId, { isActive });
+
+        return {
+          success: true,
+          message: ADMIN_ERROR_MESSAGES.USER_STATUS_UPDATED,
+          user: toAdminUser(updatedUser),
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Assign a role to a user
+   * Takes effect on the user's next request since roles are read from the database
+   */
+  assignRole: adminSessionProcedure
+    .input(assignRoleInputSchema)
+    .output(userMutationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { userId, role } = input;
+
+      // Prevents an administrator from locking everyone out of user management
+      if (userId === ctx.auth.userId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: ADMIN_ERROR_MESSAGES.CANNOT_CHANGE_OWN_ROLE,
+        });
+      }
+
+      try {
+        const updatedUser = await userRepository.update(userId, { role });
+
+        await recordAdminAction(ctx, AUDIT_ACTIONS.ADMIN_USER_ROLE_CHANGED, userId, { role });
+
+        return {
+          success: true,
+          message: ADMIN_ERROR_MESSAGES.USER_ROLE_UPDATED,
+          user: toAdminUser(updatedUser),
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Replace a user's password with a temporary one and force a change on next login
+   * All existing sessions are revoked
+   */
+  resetPassword: adminSessionProcedure
+    .input(resetPasswordInputSchema)
+    .output(resetPasswordOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { userId } = input;
+
+      try {
+        const user = await userRepository.findById(userId);
+        if (!user) {
+          throw new Error(ADMIN_ERROR_MESSAGES.USER_NOT_FOUND);
+        }
+
+        const temporaryPassword = PasswordUtils.generateTemporaryPassword();
+        // Through PasswordService so the replaced password still counts against reuse
+        const updatedUser = await PasswordService.storePassword(user, temporaryPassword, {
+          mustChangePassword: true,
+          failedLoginAttempts: 0,
+          lockedUntil: null,
+        });
+
+        await SessionService.revokeAllSessions(userId, SESSION_REVOKE_REASONS.PASSWORD_RESET);
+
+        await recordAdminAction(ctx, AUDIT_ACTIONS.ADMIN_USER_PASSWORD_RESET, userId);
+
+        return {
+          success: true,
+          message: ADMIN_ERROR_MESSAGES.PASSWORD_RESET,
+          user: toAdminUser(updatedUser),
+          temporaryPassword,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Restore an account its owner deleted, as long as the purge job has not anonymized it yet
+   */
+  restoreUser: adminSessionProcedure
+    .input(restoreUserInputSchema)
+    .output(userMutationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const user = await AccountDeletionService.restore(input.userId);
+
+        await recordAdminAction(ctx, AUDIT_ACTIONS.ADMIN_USER_RESTORED, input.userId);
+
+        return {
+          success: true,
+          message: ADMIN_ERROR_MESSAGES.USER_RESTORED,
+          user: toAdminUser(user),
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Act as another user to see exactly what they see, e.g. to follow up a support request
+   * The browser switches to a short-lived token marked with the administrator's id; everything
+   * audited meanwhile is tagged with it. auth.stopImpersonating switches back
+   */
+  impersonate: adminProcedure
+    .input(impersonateInputSchema)
+    .output(impersonateOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      // The administrator's own session is resumed from its refresh token afterwards
+      const impersonatorRefreshToken = getRequestCookie(ctx.req, AUTH_COOKIE_CONFIG.REFRESH_TOKEN_NAME);
+      if (!ctx.auth.sessionId || !impersonatorRefreshToken) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: ADMIN_ERROR_MESSAGES.IMPERSONATION_REQUIRES_BROWSER_SESSION,
+        });
+      }
+
+      try {
+        const { user, session, accessToken } = await ImpersonationService.start(
+          ctx.auth.user,
+          input.userId,
+          getRequestMetadata(ctx.req)
+        );
+        setImpersonationCookies(ctx.resHeaders, { accessToken, impersonatorRefreshToken });
+
+        return {
+          success: true,
+          message: ADMIN_ERROR_MESSAGES.IMPERSONATION_STARTED,
+          accessTokenExpiresAt: session.expiresAt,
+          user: {
+            id: user.id,
+            email: user.email,
+            role: user.role,
+          },
+          impersonator: {
+            userId: ctx.auth.userId,
+            email: ctx.auth.user.email,
+          },
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Usage across all accounts for the dashboard, with days in the administrator's time zone
+   */
+  getStats: adminProcedure
+    .output(platformStatsOutputSchema)
+    .query(async ({ ctx }) => {
+      try {
+        return await UsageStatsService.getPlatformStats(ctx.auth.user.timezone);
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * List the access token signing keys that can still verify tokens, newest first
+   */
+  listSigningKeys: adminProcedure
+    .output(z.array(signingKeySchema))
+    .query(async () => {
+      try {
+        return await SigningKeyService.listKeys();
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Start signing access tokens with a new key
+   * Nobody is signed out: the previous key stays in the JWKS until its tokens have expired
+   */
+  rotateSigningKey: adminSessionProcedure
+    .input(rotateSigningKeyInputSchema)
+    .output(rotateSigningKeyOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const key = await SigningKeyService.rotate(input?.algorithm);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.ADMIN_SIGNING_KEY_ROTATED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.SIGNING_KEY,
+          targetId: key.kid,
+          ...getRequestMetadata(ctx.req),
+          metadata: { algorithm: key.algorithm },
+        });
+
+        return {
+          success: true,
+          message: ADMIN_ERROR_MESSAGES.SIGNING_KEY_ROTATED,
+          key,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+});
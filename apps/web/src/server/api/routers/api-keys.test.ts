@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ApiKey } from '@prisma/client';
+import { apiKeysRouter } from './api-keys';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { ApiKeyService } from '../../../lib/services/api-key.service';
+import { API_KEY_ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { buildAuthContext } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/services/api-key.service', () => ({
+  ApiKeyService: {
+    create: vi.fn(),
+    list: vi.fn(),
+    revoke: vi.fn(),
+  },
+}));
+
+describe('ApiKeysRouter', () => {
+  const authContext = buildAuthContext({ role: 'ESTIMATOR' });
+
+  const apiKey: ApiKey = {
+    id: 'key-1',
+    userId: 'user-123',
+    name: 'Nightly import',
+    prefix: 'llk_0123456789ab',
+    keyHash: 'stored-hash',
+    scopes: ['datasets:read'],
+    expiresAt: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    revokedAt: null,
+    createdAt: new Date('2025-01-01'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(authContext);
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return apiKeysRouter.createCaller(ctx);
+  };
+
+  it('should list keys without their hashes', async () => {
+    vi.mocked(ApiKeyService.list).mockResolvedValue([apiKey]);
+
+    const caller = createCaller();
+    const result = await caller.list();
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ id: 'key-1', prefix: 'llk_0123456789ab' });
+    expect(result[0]).not.toHaveProperty('keyHash');
+    expect(ApiKeyService.list).toHaveBeenCalledWith('user-123');
+  });
+
+  it('should return the full key on creation', async () => {
+    vi.mocked(ApiKeyService.create).mockResolvedValue({ apiKey, key: 'llk_0123456789ab_secret' });
+
+    const caller = createCaller();
+    const result = await caller.create({ name: ' Nightly import ', scopes: ['datasets:read'], expiresInDays: 90 });
+
+    expect(result.key).toBe('llk_0123456789ab_secret');
+    expect(result.message).toBe(API_KEY_ERROR_MESSAGES.CREATED);
+    expect(ApiKeyService.create).toHaveBeenCalledWith(authContext.user, {
+      name: 'Nightly import',
+      scopes: ['datasets:read'],
+      expiresInDays: 90,
+    });
+  });
+
+  it('should map scopes beyond the role to FORBIDDEN', async () => {
+    vi.mocked(ApiKeyService.create).mockRejectedValue(new Error(API_KEY_ERROR_MESSAGES.SCOPE_NOT_ALLOWED));
+
+    const caller = createCaller();
+
+    await expect(caller.create({ name: 'Admin', scopes: ['users:manage'] })).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: API_KEY_ERROR_MESSAGES.SCOPE_NOT_ALLOWED,
+    });
+  });
+
+  it('should map unknown keys to NOT_FOUND on revoke', async () => {
+    vi.mocked(ApiKeyService.revoke).mockRejectedValue(new Error(API_KEY_ERROR_MESSAGES.NOT_FOUND));
+
+    const caller = createCaller();
+
+    await expect(caller.revoke({ id: 'key-2' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    expect(ApiKeyService.revoke).toHaveBeenCalledWith('user-123', 'key-2');
+  });
+
+  it('should refuse requests authenticated with an API key', async () => {
+    vi.mocked(createAuthenticatedContext).mockResolvedValue({
+      ...authContext,
+      sessionId: null,
+      apiKeyId: 'key-1',
+    });
+
+    const caller = createCaller();
+
+    await expect(caller.create({ name: 'Copy', scopes: ['datasets:read'] })).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: API_KEY_ERROR_MESSAGES.SESSION_REQUIRED,
+    });
+    expect(ApiKeyService.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { ApiKey } from '@prisma/client';
+import { createTRPCRouter, sessionProcedure } from '../trpc';
+import { ApiKeyService } from '../../../lib/services/api-key.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { PERMISSIONS } from '../../../lib/auth/permissions';
+import {
+  API_KEY_CONFIG,
+  API_KEY_ERROR_MESSAGES,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+} from '../../../lib/auth/constants';
+import { getRequestMetadata } from '../middleware/request-metadata';
+
+const createApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be at most 100 characters'),
+  scopes: z.array(z.enum(PERMISSIONS)).min(1, 'At least one scope is required'),
+  // Omit for a key that never expires
+  expiresInDays: z.number().int().min(1).max(API_KEY_CONFIG.MAX_TTL_DAYS).optional(),
+});
+
+const revokeApiKeyInputSchema = z.object({
+  id: z.string().min(1),
+});
+
+const apiKeyOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(z.string()),
+  expiresAt: z.date().nullable(),
+  lastUsedAt: z.date().nullable(),
+  lastUsedIp: z.string().nullable(),
+  revokedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+const createApiKeyOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  apiKey: apiKeyOutputSchema,
+  key: z.string(),
+});
+
+const revokeApiKeyOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+/**
+ * Pick the fields shown to the owner; the key hash never leaves the server
+ */
+function toApiKeyOutput(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    lastUsedIp: apiKey.lastUsedIp,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+/**
+ * Map ApiKeyService errors to tRPC errors
+ */
+function toTRPCError(error: unknown): TRPCError {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+
+  if (error instanceof Error) {
+    switch (error.message) {
+      case API_KEY_ERROR_MESSAGES.SCOPE_NOT_ALLOWED:
+        return new TRPCError({ code: 'FORBIDDEN', message: error.message });
+      case API_KEY_ERROR_MESSAGES.LIMIT_REACHED:
+        return new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+      case API_KEY_ERROR_MESSAGES.NOT_FOUND:
+        return new TRPCError({ code: 'NOT_FOUND', message: error.message });
+    }
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: API_KEY_ERROR_MESSAGES.API_KEY_ERROR,
+    cause: error,
+  });
+}
+
+/**
+ * Personal API keys of the signed-in user
+ * Keys cannot manage other keys, so a leaked key can't mint replacements for itself
+ */
+export const apiKeysRouter = createTRPCRouter({
+  list: sessionProcedure
+    .output(z.array(apiKeyOutputSchema))
+    .query(async ({ ctx }) => {
+      try {
+        const apiKeys = await ApiKeyService.list(ctx.auth.userId);
+        return apiKeys.map(toApiKeyOutput);
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Create a key; the full key is only included in this response
+   */
+  create: sessionProcedure
+    .input(createApiKeyInputSchema)
+    .output(createApiKeyOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { apiKey, key } = await ApiKeyService.create(ctx.auth.user, input);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.API_KEY_CREATED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.API_KEY,
+          targetId: apiKey.id,
+          ...getRequestMetadata(ctx.req),
+          metadata: { prefix: apiKey.prefix, scopes: apiKey.scopes },
+        });
+
+        return {
+          success: true,
+          message: API_KEY_ERROR_MESSAGES.CREATED,
+          apiKey: toApiKeyOutput(apiKey),
+          key,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  revoke: sessionProcedure
+    .input(revokeApiKeyInputSchema)
+    .output(revokeApiKeyOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await ApiKeyService.revoke(ctx.auth.userId, input.id);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.API_KEY_REVOKED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.API_KEY,
+          targetId: input.id,
+          ...getRequestMetadata(ctx.req),
+        });
+
+        return {
+          success: true,
+          message: API_KEY_ERROR_MESSAGES.REVOKED,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+});
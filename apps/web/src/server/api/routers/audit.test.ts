@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { auditRouter } from './audit';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { AuditService } from '../../../lib/services/audit.service';
+import { AUDIT_ACTIONS, AUDIT_ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { buildAuthContext } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+    list: vi.fn(),
+    exportCsv: vi.fn(),
+  },
+}));
+
+describe('AuditRouter', () => {
+  const adminContext = buildAuthContext({ id: 'admin-1', email: 'admin@example.com', role: 'ADMIN' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(adminContext);
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return auditRouter.createCaller(ctx);
+  };
+
+  describe('list', () => {
+    it('should pass filters and pagination to the service', async () => {
+      vi.mocked(AuditService.list).mockResolvedValue({
+        events: [{
+          id: 'event-1',
+          actorId: 'user-123',
+          actorEmail: 'test@example.com',
+          action: AUDIT_ACTIONS.LOGIN_FAILED,
+          targetType: null,
+          targetId: null,
+          ipAddress: '10.0.0.1',
+          userAgent: null,
+          metadata: { reason: 'Invalid email or password' },
+          impersonatorId: null,
+          createdAt: new Date('2025-01-01'),
+        }],
+        total: 1,
+      });
+
+      const from = new Date('2025-01-01');
+      const caller = createCaller();
+      const result = await caller.list({
+        page: 2,
+        pageSize: 10,
+        filter: { actor: ' test@ ', action: AUDIT_ACTIONS.LOGIN_FAILED, from },
+      });
+
+      expect(result.total).toBe(1);
+      expect(result.events[0].metadata).toEqual({ reason: 'Invalid email or password' });
+      expect(AuditService.list).toHaveBeenCalledWith(
+        { actor: 'test@', action: AUDIT_ACTIONS.LOGIN_FAILED, from },
+        2,
+        10
+      );
+    });
+
+    it('should reject reversed date ranges', async () => {
+      const caller = createCaller();
+
+      await expect(caller.list({
+        filter: { from: new Date('2025-02-01'), to: new Date('2025-01-01') },
+      })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+      expect(AuditService.list).not.toHaveBeenCalled();
+    });
+
+    it('should be limited to users who can read the audit log', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'ESTIMATOR' }));
+
+      const caller = createCaller();
+
+      await expect(caller.list({})).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should wrap unexpected errors', async () => {
+      vi.mocked(AuditService.list).mockRejectedValue(new Error('Database error'));
+
+      const caller = createCaller();
+
+      await expect(caller.list({})).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: AUDIT_ERROR_MESSAGES.AUDIT_ERROR,
+      });
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('should return the CSV and record the export', async () => {
+      vi.mocked(AuditService.exportCsv).mockResolvedValue({ csv: 'createdAt\r\n', truncated: false });
+
+      const caller = createCaller();
+      const result = await caller.exportCsv({ action: AUDIT_ACTIONS.LOGOUT });
+
+      expect(result.csv).toBe('createdAt\r\n');
+      expect(result.filename).toMatch(/^audit-events-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AUDIT_ACTIONS.AUDIT_EXPORTED,
+          actor: adminContext.user,
+          metadata: { action: AUDIT_ACTIONS.LOGOUT, truncated: false },
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import type { AuditEvent } from '@prisma/client';
+import { createTRPCRouter, requirePermission } from '../trpc';
+import { AuditService } from '../../../lib/services/audit.service';
+import { PERMISSIONS } from '../../../lib/auth/permissions';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_CONFIG,
+  AUDIT_ERROR_MESSAGES,
+} from '../../../lib/auth/constants';
+import { getRequestMetadata } from '../middleware/request-metadata';
+
+// Only administrators hold audit:read
+const auditProcedure = requirePermission(PERMISSIONS.AUDIT_READ);
+
+const auditFilterSchema = z
+  .object({
+    // User id or part of an email address
+    actor: z.string().trim().max(255).optional(),
+    action: z.enum(AUDIT_ACTIONS).optional(),
+    from: z.date().optional(),
+    to: z.date().optional(),
+  })
+  .refine((filter) => !filter.from || !filter.to || filter.from <= filter.to, {
+    message: AUDIT_ERROR_MESSAGES.INVALID_DATE_RANGE,
+    path: ['to'],
+  });
+
+const listAuditEventsInputSchema = z.object({
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(AUDIT_CONFIG.LIST_MAX_PAGE_SIZE).default(50),
+  filter: auditFilterSchema.default({}),
+});
+
+const auditEventSchema = z.object({
+  id: z.string(),
+  actorId: z.string().nullable(),
+  actorEmail: z.string().nullable(),
+  action: z.string(),
+  targetType: z.string().nullable(),
+  targetId: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  metadata: z.record(z.string(), z.unknown()).nullable(),
+  impersonatorId: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+const listAuditEventsOutputSchema = z.object({
+  events: z.array(auditEventSchema),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+});
+
+const exportAuditEventsOutputSchema = z.object({
+  filename: z.string(),
+  csv: z.string(),
+  truncated: z.boolean(),
+});
+
+function toAuditEventOutput(event: AuditEvent): z.infer<typeof auditEventSchema> {
+  return {
+    id: event.id,
+    actorId: event.actorId,
+    actorEmail: event.actorEmail,
+    action: event.action,
+    targetType: event.targetType,
+    targetId: event.targetId,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    metadata:
+      event.metadata && typeof event.metadata === 'object' && !Array.isArray(event.metadata)
+        ? (event.metadata as Record<string, unknown>)
+        : null,
+    impersonatorId: event.impersonatorId,
+    createdAt: event.createdAt,
+  };
+}
+
+function toTRPCError(error: unknown): TRPCError {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: AUDIT_ERROR_MESSAGES.AUDIT_ERROR,
+    cause: error,
+  });
+}
+
+/**
+ * Read access to the security audit log
+ */
+export const auditRouter = createTRPCRouter({
+  /**
+   * List events, newest first, filtered by actor, action and date range
+   */
+  list: auditProcedure
+    .input(listAuditEventsInputSchema)
+    .output(listAuditEventsOutputSchema)
+    .query(async ({ input }) => {
+      const { page, pageSize, filter } = input;
+
+      try {
+        const { events, total } = await AuditService.list(filter, page, pageSize);
+
+        return {
+          events: events.map(toAuditEventOutput),
+          total,
+          page,
+          pageSize,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Export the events matching a filter as CSV
+   * Exports are audited themselves, since they take the log out of the platform
+   */
+  exportCsv: auditProcedure
+    .input(auditFilterSchema)
+    .output(exportAuditEventsOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { csv, truncated } = await AuditService.exportCsv(input);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.AUDIT_EXPORTED,
+          actor: ctx.auth.user,
+          ...getRequestMetadata(ctx.req),
+          metadata: {
+            ...(input.actor && { actor: input.actor }),
+            ...(input.action && { action: input.action }),
+            ...(input.from && { from: input.from.toISOString() }),
+            ...(input.to && { to: input.to.toISOString() }),
+            truncated,
+          },
+        });
+
+        return {
+          filename: `audit-events-${new Date().toISOString().slice(0, 10)}.csv`,
+          csv,
+          truncated,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+});
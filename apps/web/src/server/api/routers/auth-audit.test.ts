@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { authRouter } from './auth';
+import { userRepository as mockUserRepository } from '../../../lib/repositories/user.repository';
+import { PasswordUtils } from '../../../lib/auth/password';
+import { AuditService } from '../../../lib/services/audit.service';
+import { MfaService } from '../../../lib/services/mfa.service';
+import { ERROR_MESSAGES, AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../lib/auth/constants';
+import { buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../../../lib/repositories/user.repository', () => ({
+  userRepository: {
+    findByEmail: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/repositories/session.repository', () => ({
+  sessionRepository: {
+    create: vi.fn(async (data) => ({ id: 'session-123', ...data })),
+  },
+}));
+
+vi.mock('../../../lib/auth/password', () => ({
+  PasswordUtils: {
+    verify: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/login-throttle.service', () => ({
+  LoginThrottleService: {
+    checkAllowed: vi.fn(),
+    recordFailure: vi.fn(),
+    recordSuccess: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/mfa.service', () => ({
+  MfaService: {
+    isEnabled: vi.fn(() => false),
+    completeChallenge: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+describe('AuthRouter - Audit Events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const createCaller = () => {
+    const req = new Request('http://localhost/api/trpc/auth.login', {
+      headers: { 'x-forwarded-for': '10.0.0.1', 'user-agent': 'vitest' },
+    });
+    return authRouter.createCaller({ req, resHeaders: new Headers() });
+  };
+
+  it('should record successful logins with the new session', async () => {
+    const user = buildUser();
+    vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(user);
+    vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
+
+    await createCaller().login({ email: 'test@example.com', password: 'password123' });
+
+    expect(AuditService.record).toHaveBeenCalledWith({
+      action: AUDIT_ACTIONS.LOGIN_SUCCEEDED,
+      actor: user,
+      targetType: AUDIT_TARGET_TYPES.SESSION,
+      targetId: 'session-123',
+      ipAddress: '10.0.0.1',
+      userAgent: 'vitest',
+      metadata: { method: 'password' },
+    });
+  });
+
+  it('should record wrong passwords against the account', async () => {
+    const user = buildUser();
+    vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(user);
+    vi.mocked(PasswordUtils.verify).mockResolvedValue(false);
+
+    await expect(createCaller().login({ email: 'test@example.com', password: 'wrong' })).rejects.toThrow();
+
+    expect(AuditService.record).toHaveBeenCalledWith({
+      action: AUDIT_ACTIONS.LOGIN_FAILED,
+      actor: user,
+      ipAddress: '10.0.0.1',
+      userAgent: 'vitest',
+      metadata: { email: 'test@example.com', reason: ERROR_MESSAGES.INVALID_CREDENTIALS },
+    });
+  });
+
+  it('should record attempts for unknown emails without an actor', async () => {
+    vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+
+    await expect(createCaller().login({ email: 'nobody@example.com', password: 'password123' })).rejects.toThrow();
+
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AUDIT_ACTIONS.LOGIN_FAILED,
+        actor: null,
+        metadata: { email: 'nobody@example.com', reason: ERROR_MESSAGES.INVALID_CREDENTIALS },
+      })
+    );
+  });
+
+  it('should record refused logins of disabled accounts', async () => {
+    vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser({ isActive: false }));
+    vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
+
+    await expect(createCaller().login({ email: 'test@example.com', password: 'password123' })).rejects.toThrow();
+
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AUDIT_ACTIONS.LOGIN_FAILED,
+        metadata: { email: 'test@example.com', reason: ERROR_MESSAGES.ACCOUNT_DISABLED },
+      })
+    );
+  });
+
+  it('should record logins completed with a second factor', async () => {
+    vi.mocked(MfaService.completeChallenge).mockResolvedValue(buildUser());
+
+    await createCaller().verifyMfa({ ticket: 'mfa-ticket', code: '123456' });
+
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AUDIT_ACTIONS.LOGIN_SUCCEEDED,
+        metadata: { method: 'mfa' },
+      })
+    );
+  });
+
+  it('should record wrong second-factor codes', async () => {
+    vi.mocked(MfaService.completeChallenge).mockRejectedValue(new Error(ERROR_MESSAGES.MFA_CODE_INVALID));
+
+    await expect(createCaller().verifyMfa({ ticket: 'mfa-ticket', code: '000000' })).rejects.toThrow();
+
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AUDIT_ACTIONS.LOGIN_FAILED,
+        metadata: { reason: ERROR_MESSAGES.MFA_CODE_INVALID },
+      })
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { authRouter } from './auth';
+import { userRepository as mockUserRepository } from '../../../lib/repositories/user.repository';
+import { EmailVerificationService } from '../../../lib/services/email-verification.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { ERROR_MESSAGES, AUDIT_ACTIONS } from '../../../lib/auth/constants';
+import { buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../../../lib/repositories/user.repository', () => ({
+  userRepository: {
+    findByEmail: vi.fn(),
+    create: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/email-verification.service', () => ({
+  EmailVerificationService: {
+    sendVerification: vi.fn(),
+    resendVerification: vi.fn(),
+    verifyEmail: vi.fn(),
+  },
+}));
+
+describe('AuthRouter - Email Verification Endpoints', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return authRouter.createCaller(ctx);
+  };
+
+  describe('register mutation', () => {
+    it('should send a verification email to the new user', async () => {
+      const newUser = buildUser({ emailVerifiedAt: null });
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+      vi.mocked(mockUserRepository.create).mockResolvedValue(newUser);
+
+      const caller = createCaller();
+      const result = await caller.register({ email: 'test@example.com', password: 'Str0ng!Password' });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe(ERROR_MESSAGES.REGISTRATION_SUCCESS);
+      expect(EmailVerificationService.sendVerification).toHaveBeenCalledWith(newUser);
+    });
+
+    it('should still register the user when the email cannot be sent', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(null);
+      vi.mocked(mockUserRepository.create).mockResolvedValue(buildUser({ emailVerifiedAt: null }));
+      vi.mocked(EmailVerificationService.sendVerification).mockRejectedValue(new Error('SMTP down'));
+
+      const caller = createCaller();
+      const result = await caller.register({ email: 'test@example.com', password: 'Str0ng!Password' });
+
+      expect(result.success).toBe(true);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('verifyEmail mutation', () => {
+    it('should verify the email with a valid token', async () => {
+      vi.mocked(EmailVerificationService.verifyEmail).mockResolvedValue({ user: buildUser(), previousEmail: null });
+
+      const caller = createCaller();
+      const result = await caller.verifyEmail({ token: 'verification-token' });
+
+      expect(result).toEqual({ success: true, message: ERROR_MESSAGES.EMAIL_VERIFICATION_SUCCESS });
+      expect(EmailVerificationService.verifyEmail).toHaveBeenCalledWith('verification-token');
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AUDIT_ACTIONS.EMAIL_VERIFIED,
+          actor: expect.objectContaining({ id: 'user-123' }),
+        })
+      );
+    });
+
+    it('should audit the switch to a confirmed new address', async () => {
+      vi.mocked(EmailVerificationService.verifyEmail).mockResolvedValue({
+        user: buildUser({ email: 'new@example.com' }),
+        previousEmail: 'test@example.com',
+      });
+
+      const result = await createCaller().verifyEmail({ token: 'verification-token' });
+
+      expect(result.message).toBe(ERROR_MESSAGES.EMAIL_CHANGE_CONFIRMED);
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AUDIT_ACTIONS.EMAIL_CHANGED,
+          metadata: { previousEmail: 'test@example.com', newEmail: 'new@example.com' },
+        })
+      );
+    });
+
+    it('should map an address another account took meanwhile to CONFLICT', async () => {
+      vi.mocked(EmailVerificationService.verifyEmail).mockRejectedValue(new Error(ERROR_MESSAGES.USER_EXISTS));
+
+      await expect(createCaller().verifyEmail({ token: 'verification-token' })).rejects.toMatchObject({
+        code: 'CONFLICT',
+        message: ERROR_MESSAGES.EMAIL_IN_USE,
+      });
+    });
+
+    it('should map invalid tokens to BAD_REQUEST', async () => {
+      vi.mocked(EmailVerificationService.verifyEmail).mockRejectedValue(
+        new Error(ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID)
+      );
+
+      const caller = createCaller();
+
+      await expect(caller.verifyEmail({ token: 'used-token' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID,
+      });
+    });
+
+    it('should wrap unexpected errors', async () => {
+      vi.mocked(EmailVerificationService.verifyEmail).mockRejectedValue(new Error('Database error'));
+
+      const caller = createCaller();
+
+      await expect(caller.verifyEmail({ token: 'verification-token' })).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: ERROR_MESSAGES.EMAIL_VERIFICATION_ERROR,
+      });
+    });
+  });
+
+  describe('resendVerification mutation', () => {
+    it('should respond the same way whether or not sending succeeds', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const caller = createCaller();
+
+      const sent = await caller.resendVerification({ email: 'Test@Example.com' });
+      expect(EmailVerificationService.resendVerification).toHaveBeenCalledWith('test@example.com');
+
+      vi.mocked(EmailVerificationService.resendVerification).mockRejectedValue(new Error('SMTP down'));
+      const failed = await caller.resendVerification({ email: 'test@example.com' });
+
+      expect(sent).toEqual({ success: true, message: ERROR_MESSAGES.EMAIL_VERIFICATION_RESENT });
+      expect(failed).toEqual(sent);
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { authRouter } from './auth';
+import { ImpersonationService } from '../../../lib/services/impersonation.service';
+import { SESSION_ERROR_MESSAGES } from '../../../lib/services/session.service';
+import { ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { buildUser } from '../../../test/factories';
+
+vi.mock('../../../lib/services/impersonation.service', () => ({
+  ImpersonationService: {
+    end: vi.fn(),
+  },
+}));
+
+describe('AuthRouter - Stop Impersonating Endpoint', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // Browser request of an administrator acting as a user
+  const createCaller = (
+    cookie = 'auth-token=impersonation-token; auth-impersonator-refresh=session-admin.secret; csrf-token=csrf-123',
+    resHeaders: Headers = new Headers()
+  ) => {
+    const ctx = {
+      req: new Request('http://localhost/api/trpc/auth.stopImpersonating', {
+        method: 'POST',
+        headers: { cookie, 'x-csrf-token': 'csrf-123' },
+      }),
+      resHeaders,
+    };
+    return authRouter.createCaller(ctx);
+  };
+
+  it('should sign the administrator back in and drop the kept refresh token', async () => {
+    vi.mocked(ImpersonationService.end).mockResolvedValueOnce({
+      user: buildUser({ id: 'admin-1', email: 'admin@example.com', role: 'ADMIN' }),
+      accessToken: 'admin-access-token',
+      refreshToken: 'session-admin.new-secret',
+    });
+    const resHeaders = new Headers();
+
+    const result = await createCaller(undefined, resHeaders).stopImpersonating();
+
+    expect(result).toMatchObject({
+      success: true,
+      message: ERROR_MESSAGES.IMPERSONATION_ENDED,
+      user: { id: 'admin-1', email: 'admin@example.com', role: 'ADMIN' },
+    });
+    expect(ImpersonationService.end).toHaveBeenCalledWith('session-admin.secret', null, expect.any(Object));
+    expect(resHeaders.getSetCookie()).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^auth-token=admin-access-token;/),
+      expect.stringMatching(/^auth-refresh=session-admin\.new-secret;/),
+      expect.stringMatching(/^auth-impersonator-refresh=;.*Max-Age=0/),
+    ]));
+  });
+
+  it('should reject browsers that are not impersonating', async () => {
+    await expect(createCaller('csrf-token=csrf-123').stopImpersonating()).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: ERROR_MESSAGES.NOT_IMPERSONATING,
+    });
+    expect(ImpersonationService.end).not.toHaveBeenCalled();
+  });
+
+  it('should sign out when the administrator session has ended meanwhile', async () => {
+    vi.mocked(ImpersonationService.end).mockRejectedValueOnce(new Error(SESSION_ERROR_MESSAGES.SESSION_REVOKED));
+    const resHeaders = new Headers();
+
+    await expect(createCaller(undefined, resHeaders).stopImpersonating()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+    });
+    expect(resHeaders.getSetCookie()).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^auth-refresh=;.*Max-Age=0/),
+      expect.stringMatching(/^auth-impersonator-refresh=;.*Max-Age=0/),
+    ]));
+  });
+});
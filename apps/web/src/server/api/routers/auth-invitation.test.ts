@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { authRouter } from './auth';
+import { InvitationService } from '../../../lib/services/invitation.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { userRepository as mockUserRepository } from '../../../lib/repositories/user.repository';
+import { ERROR_MESSAGES, AUDIT_ACTIONS } from '../../../lib/auth/constants';
+import { buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../../../lib/services/invitation.service', () => ({
+  InvitationService: {
+    getOpenInvitation: vi.fn(),
+    accept: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/repositories/user.repository', () => ({
+  userRepository: {
+    findByEmail: vi.fn(),
+    create: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+describe('AuthRouter - Invitation Endpoints', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return authRouter.createCaller(ctx);
+  };
+
+  describe('register mutation', () => {
+    it('should be rejected when public registration is disabled', async () => {
+      vi.stubEnv('PUBLIC_REGISTRATION_ENABLED', 'false');
+
+      await expect(
+        createCaller().register({ email: 'test@example.com', password: 'Str0ng!Password' })
+      ).rejects.toMatchObject({ code: 'FORBIDDEN', message: ERROR_MESSAGES.REGISTRATION_DISABLED });
+      expect(mockUserRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getInvitation query', () => {
+    it('should return who the invitation is for', async () => {
+      vi.mocked(InvitationService.getOpenInvitation).mockResolvedValue({
+        id: 'invitation-1',
+        email: 'new@example.com',
+        role: 'ESTIMATOR',
+        departmentId: null,
+        tokenHash: 'stored-hash',
+        invitedById: 'admin-1',
+        expiresAt: new Date('2025-01-08'),
+        acceptedAt: null,
+        revokedAt: null,
+        createdAt: new Date('2025-01-01'),
+      });
+
+      const result = await createCaller().getInvitation({ token: 'invite-token' });
+
+      expect(result).toEqual({ email: 'new@example.com', role: 'ESTIMATOR', expiresAt: new Date('2025-01-08') });
+    });
+
+    it('should reject invalid invitations', async () => {
+      vi.mocked(InvitationService.getOpenInvitation).mockRejectedValue(new Error(ERROR_MESSAGES.INVITATION_INVALID));
+
+      await expect(createCaller().getInvitation({ token: 'used-token' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: ERROR_MESSAGES.INVITATION_INVALID,
+      });
+    });
+  });
+
+  describe('acceptInvitation mutation', () => {
+    it('should create the account and audit it, even with public registration disabled', async () => {
+      vi.stubEnv('PUBLIC_REGISTRATION_ENABLED', 'false');
+      vi.mocked(InvitationService.accept).mockResolvedValue(buildUser({ id: 'user-new', role: 'ESTIMATOR' }));
+
+      const result = await createCaller().acceptInvitation({ token: 'invite-token', password: 'Str0ng!Password' });
+
+      expect(result).toEqual({ success: true, message: ERROR_MESSAGES.INVITATION_ACCEPTED });
+      expect(InvitationService.accept).toHaveBeenCalledWith('invite-token', 'Str0ng!Password');
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AUDIT_ACTIONS.INVITATION_ACCEPTED, targetId: 'user-new' })
+      );
+    });
+
+    it.each([
+      [ERROR_MESSAGES.INVITATION_INVALID, 'BAD_REQUEST'],
+      [ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR, 'BAD_REQUEST'],
+      [ERROR_MESSAGES.USER_EXISTS, 'CONFLICT'],
+      ['Database error', 'INTERNAL_SERVER_ERROR'],
+    ])('should map "%s" to %s', async (message, code) => {
+      vi.mocked(InvitationService.accept).mockRejectedValue(new Error(message));
+
+      await expect(
+        createCaller().acceptInvitation({ token: 'invite-token', password: 'Str0ng!Password' })
+      ).rejects.toMatchObject({ code });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { authRouter } from './auth';
+import { userRepository as mockUserRepository } from '../../../lib/repositories/user.repository';
+import { PasswordUtils } from '../../../lib/auth/password';
+import { MemoryRateLimitStore } from '../../../lib/rate-limit/memory-store';
+import { getRateLimitStore } from '../../../lib/rate-limit/store';
+import { ERROR_MESSAGES, AUTH_ERROR_CODES, RATE_LIMITS } from '../../../lib/auth/constants';
+import { AuthError } from '../../../lib/auth/errors';
+import { buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../../../lib/repositories/user.repository', () => ({
+  userRepository: {
+    findByEmail: vi.fn(),
+    incrementFailedLoginAttempts: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/auth/password', () => ({
+  PasswordUtils: {
+    verify: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/password-reset.service', () => ({
+  PasswordResetService: {
+    requestReset: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/rate-limit/store', () => ({
+  getRateLimitStore: vi.fn(),
+}));
+
+describe('AuthRouter - Login Throttling', () => {
+  let resHeaders: Headers;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getRateLimitStore).mockReturnValue(new MemoryRateLimitStore());
+    resHeaders = new Headers();
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const createCaller = (headers: Record<string, string> = { 'x-forwarded-for': '203.0.113.7' }) => {
+    const req = new Request('http://localhost/api/trpc', { headers });
+    return authRouter.createCaller({ req, resHeaders });
+  };
+
+  it('should refuse a locked account before checking the password', async () => {
+    vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(
+      buildUser({ lockedUntil: new Date(Date.now() + 60_000) })
+    );
+
+    const caller = createCaller();
+    const error = await caller.login({ email: 'test@example.com', password: 'Str0ng!Password' }).catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'TOO_MANY_REQUESTS', message: ERROR_MESSAGES.ACCOUNT_LOCKED });
+    expect(error.cause).toBeInstanceOf(AuthError);
+    expect(error.cause.code).toBe(AUTH_ERROR_CODES.ACCOUNT_LOCKED);
+    expect(PasswordUtils.verify).not.toHaveBeenCalled();
+  });
+
+  it('should count a wrong password against the account', async () => {
+    vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser());
+    vi.mocked(mockUserRepository.incrementFailedLoginAttempts).mockResolvedValue(
+      buildUser({ failedLoginAttempts: 1 })
+    );
+    vi.mocked(PasswordUtils.verify).mockResolvedValue(false);
+
+    const caller = createCaller();
+
+    await expect(caller.login({ email: 'test@example.com', password: 'wrong' })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+      message: ERROR_MESSAGES.INVALID_CREDENTIALS,
+    });
+    expect(mockUserRepository.incrementFailedLoginAttempts).toHaveBeenCalledWith('user-123');
+  });
+
+  it('should reject requests over the per-IP limit with Retry-After', async () => {
+    const caller = createCaller();
+    const { limit } = RATE_LIMITS.REQUEST_PASSWORD_RESET;
+
+    for (let i = 0; i < limit; i++) {
+      await caller.requestPasswordReset({ email: 'test@example.com' });
+    }
+
+    const error = await caller.requestPasswordReset({ email: 'test@example.com' }).catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'TOO_MANY_REQUESTS', message: ERROR_MESSAGES.RATE_LIMITED });
+    expect(error.cause.code).toBe(AUTH_ERROR_CODES.RATE_LIMITED);
+    expect(Number(resHeaders.get('Retry-After'))).toBeGreaterThan(0);
+  });
+
+  it('should count by the address the proxy saw, not the ones the client claims', async () => {
+    const { limit } = RATE_LIMITS.REQUEST_PASSWORD_RESET;
+
+    for (let i = 0; i < limit; i++) {
+      await createCaller({ 'x-forwarded-for': `198.51.100.${i}, 203.0.113.7` })
+        .requestPasswordReset({ email: 'test@example.com' });
+    }
+
+    await expect(
+      createCaller({ 'x-forwarded-for': '198.51.100.99, 203.0.113.7' }).requestPasswordReset({ email: 'test@example.com' })
+    ).rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+  });
+
+  it('should limit requests without a known IP together instead of not at all', async () => {
+    const { limit } = RATE_LIMITS.REQUEST_PASSWORD_RESET;
+
+    for (let i = 0; i < limit; i++) {
+      await createCaller({}).requestPasswordReset({ email: 'test@example.com' });
+    }
+
+    await expect(createCaller({}).requestPasswordReset({ email: 'test@example.com' }))
+      .rejects.toMatchObject({ code: 'TOO_MANY_REQUESTS' });
+  });
+});
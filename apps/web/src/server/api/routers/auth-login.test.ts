@@ -1,16 +1,27 @@
-import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { TRPCError } from '@trpc/server';
 import { authRouter } from './auth';
 import { userRepository as mockUserRepository } from '../../../lib/repositories/user.repository';
 import { PasswordUtils } from '../../../lib/auth/password';
-import { ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { ERROR_MESSAGES, AUTH_ERROR_CODES, PASSWORD_STRENGTH_WARNINGS } from '../../../lib/auth/constants';
+import { AuthError } from '../../../lib/auth/errors';
+import { decodeJWT } from '../../../lib/auth/jwt';
+import { SigningKeyService } from '../../../lib/services/signing-key.service';
 import { User } from '@prisma/client';
+import { buildUser } from '../../../test/factories';
 
 // Mock the dependencies
 vi.mock('../../../lib/repositories/user.repository', () => ({
   userRepository: {
     findByEmail: vi.fn(),
     create: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/repositories/session.repository', () => ({
+  sessionRepository: {
+    create: vi.fn(async (data) => ({ id: 'session-123', ...data })),
   },
 }));
 
@@ -22,35 +33,31 @@ vi.mock('../../../lib/auth/password', () => ({
   },
 }));
 
-describe('AuthRouter - Login Endpoint', () => {
-  const originalEnv = process.env.JWT_SECRET;
-  const testSecret = 'test-jwt-secret-for-auth-router-tests';
-
-  beforeAll(() => {
-    process.env.JWT_SECRET = testSecret;
-  });
-
-  afterAll(() => {
-    process.env.JWT_SECRET = originalEnv;
-  });
+vi.mock('../../../lib/services/login-throttle.service', () => ({
+  LoginThrottleService: {
+    checkAllowed: vi.fn(),
+    recordFailure: vi.fn(),
+    recordSuccess: vi.fn(),
+  },
+}));
 
+describe('AuthRouter - Login Endpoint', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
-  const mockUser: User = {
-    id: 'user-123',
-    email: 'test@example.com',
-    passwordHash: 'hashed-password',
-    createdAt: new Date('2025-01-01'),
-    updatedAt: new Date('2025-01-01'),
-  };
+  const mockUser: User = buildUser();
 
-  const createCaller = () => {
-    const ctx = { req: undefined, res: undefined };
+  const createCaller = (resHeaders?: Headers) => {
+    const ctx = { req: undefined, resHeaders };
     return authRouter.createCaller(ctx);
   };
 
+  const getCookieValue = (resHeaders: Headers, name: string) => {
+    const cookie = resHeaders.getSetCookie().find((value) => value.startsWith(`${name}=`));
+    return cookie?.split(';')[0].slice(name.length + 1);
+  };
+
   describe('login mutation', () => {
     it('should login successfully with valid credentials', async () => {
       // Mock repository response
@@ -58,7 +65,8 @@ describe('AuthRouter - Login Endpoint', () => {
       // Mock password verification
       vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
 
-      const caller = createCaller();
+      const resHeaders = new Headers();
+      const caller = createCaller(resHeaders);
       const result = await caller.login({
         email: 'test@example.com',
         password: 'password123',
@@ -66,8 +74,8 @@ describe('AuthRouter - Login Endpoint', () => {
 
       expect(result.success).toBe(true);
       expect(result.message).toBe(ERROR_MESSAGES.LOGIN_SUCCESS);
-      expect(result.token).toBeDefined();
-      expect(typeof result.token).toBe('string');
+      expect(result.accessTokenExpiresAt).toBeInstanceOf(Date);
+      expect(getCookieValue(resHeaders, 'auth-refresh')).toMatch(/^session-123\./);
       expect(result.user).toBeDefined();
       expect(result.user!.id).toBe(mockUser.id);
       expect(result.user!.email).toBe(mockUser.email);
@@ -134,6 +142,60 @@ describe('AuthRouter - Login Endpoint', () => {
       expect(PasswordUtils.verify).toHaveBeenCalledWith('wrongpassword', mockUser.passwordHash);
     });
 
+    it('should refuse login for disabled accounts', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser({ isActive: false }));
+      vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
+
+      const caller = createCaller();
+
+      await expect(caller.login({
+        email: 'test@example.com',
+        password: 'password123',
+      })).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+        message: ERROR_MESSAGES.ACCOUNT_DISABLED,
+      });
+    });
+
+    it('should refuse login for unverified accounts with a distinct error code', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser({ emailVerifiedAt: null }));
+      vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
+
+      const caller = createCaller();
+
+      try {
+        await caller.login({
+          email: 'test@example.com',
+          password: 'password123',
+        });
+        expect.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TRPCError);
+        const trpcError = error as TRPCError;
+        expect(trpcError.code).toBe('FORBIDDEN');
+        expect(trpcError.message).toBe(ERROR_MESSAGES.EMAIL_NOT_VERIFIED);
+        expect(trpcError.cause).toBeInstanceOf(AuthError);
+        expect((trpcError.cause as AuthError).code).toBe(AUTH_ERROR_CODES.EMAIL_NOT_VERIFIED);
+      }
+    });
+
+    it('should require a password change once the password has expired', async () => {
+      const expiredUser = buildUser({ passwordChangedAt: new Date(Date.now() - 91 * 24 * 60 * 60 * 1000) });
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(expiredUser);
+      vi.mocked(mockUserRepository.update).mockResolvedValue({ ...expiredUser, mustChangePassword: true });
+      vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
+      vi.stubEnv('PASSWORD_MAX_AGE_DAYS', '90');
+
+      const result = await createCaller().login({
+        email: 'test@example.com',
+        password: 'password123',
+      });
+
+      expect(mockUserRepository.update).toHaveBeenCalledWith(expiredUser.id, { mustChangePassword: true });
+      expect(result.user!.mustChangePassword).toBe(true);
+      vi.unstubAllEnvs();
+    });
+
     it('should handle repository errors gracefully', async () => {
       // Mock repository to throw an error
       vi.mocked(mockUserRepository.findByEmail).mockRejectedValue(new Error('Database error'));
@@ -164,8 +226,9 @@ describe('AuthRouter - Login Endpoint', () => {
       // Mock password verification
       vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
       
-      // Remove JWT secret to cause JWT generation error
-      delete process.env.JWT_SECRET;
+      // Make the signing key unavailable to cause JWT generation error
+      const signingKeySpy = vi.spyOn(SigningKeyService, 'getSigningKey')
+        .mockRejectedValue(new Error('Failed to fetch signing keys'));
 
       const caller = createCaller();
 
@@ -186,8 +249,7 @@ describe('AuthRouter - Login Endpoint', () => {
         expect(trpcError.message).toBe(ERROR_MESSAGES.LOGIN_ERROR);
       }
 
-      // Restore JWT secret for other tests
-      process.env.JWT_SECRET = testSecret;
+      signingKeySpy.mockRestore();
     });
   });
 
@@ -262,6 +324,49 @@ describe('AuthRouter - Login Endpoint', () => {
     });
   });
 
+  describe('auth cookies', () => {
+    it('should set the tokens as httpOnly cookies instead of returning them', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(mockUser);
+      vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
+
+      const resHeaders = new Headers();
+      const result = await createCaller(resHeaders).login({
+        email: 'test@example.com',
+        password: 'password123',
+      });
+
+      expect(result).not.toHaveProperty('token');
+      expect(result).not.toHaveProperty('refreshToken');
+
+      const cookies = resHeaders.getSetCookie();
+      expect(cookies).toHaveLength(3);
+      for (const name of ['auth-token', 'auth-refresh']) {
+        const cookie = cookies.find((value) => value.startsWith(`${name}=`));
+        expect(cookie).toContain('HttpOnly');
+        expect(cookie).toContain('SameSite=Strict');
+        expect(cookie).toContain('Path=/');
+      }
+
+      // The CSRF token must stay readable so the client can echo it
+      const csrfCookie = cookies.find((value) => value.startsWith('csrf-token='));
+      expect(csrfCookie).toBeDefined();
+      expect(csrfCookie).not.toContain('HttpOnly');
+    });
+
+    it('should not set cookies when the login fails', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(mockUser);
+      vi.mocked(PasswordUtils.verify).mockResolvedValue(false);
+
+      const resHeaders = new Headers();
+      await expect(createCaller(resHeaders).login({
+        email: 'test@example.com',
+        password: 'wrong-password',
+      })).rejects.toThrow();
+
+      expect(resHeaders.getSetCookie()).toHaveLength(0);
+    });
+  });
+
   describe('JWT token structure', () => {
     it('should generate valid JWT token structure', async () => {
       // Mock repository response
@@ -269,22 +374,27 @@ describe('AuthRouter - Login Endpoint', () => {
       // Mock password verification
       vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
 
-      const caller = createCaller();
+      const resHeaders = new Headers();
+      const caller = createCaller(resHeaders);
       const result = await caller.login({
         email: 'test@example.com',
         password: 'password123',
       });
 
-      expect(result.token).toBeDefined();
+      const token = getCookieValue(resHeaders, 'auth-token');
+      expect(token).toBeDefined();
       
       // JWT should have 3 parts separated by dots
-      const tokenParts = result.token!.split('.');
+      const tokenParts = token!.split('.');
       expect(tokenParts).toHaveLength(3);
       
       // Each part should be non-empty
       tokenParts.forEach(part => {
         expect(part.length).toBeGreaterThan(0);
       });
+
+      // The client is told when to refresh without reading the token
+      expect(result.accessTokenExpiresAt!.getTime()).toBe(decodeJWT(token!)!.exp! * 1000);
     });
   });
 
@@ -326,4 +436,64 @@ describe('AuthRouter - Login Endpoint', () => {
       expect(error2?.code).toBe('UNAUTHORIZED');
     });
   });
-});
\ No newline at end of file
+
+  describe('getLoginOptions query', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('should offer SSO with the provider name when an issuer is configured', async () => {
+      process.env.OIDC_ISSUER = 'https://idp.example.com';
+      process.env.OIDC_CLIENT_ID = 'app';
+      process.env.OIDC_PROVIDER_NAME = 'Company SSO';
+
+      const result = await createCaller().getLoginOptions();
+
+      expect(result.sso).toEqual({ enabled: true, providerName: 'Company SSO' });
+    });
+
+    it('should not offer SSO otherwise', async () => {
+      delete process.env.OIDC_ISSUER;
+
+      const result = await createCaller().getLoginOptions();
+
+      expect(result.sso).toEqual({ enabled: false, providerName: null });
+    });
+
+    it('should offer registration unless PUBLIC_REGISTRATION_ENABLED is false', async () => {
+      delete process.env.PUBLIC_REGISTRATION_ENABLED;
+      expect((await createCaller().getLoginOptions()).registration).toEqual({ enabled: true });
+
+      process.env.PUBLIC_REGISTRATION_ENABLED = 'false';
+      expect((await createCaller().getLoginOptions()).registration).toEqual({ enabled: false });
+    });
+  });
+
+  describe('checkPasswordStrength mutation', () => {
+    it('should score the password and report whether the policy accepts it', async () => {
+      vi.mocked(PasswordUtils.validatePasswordStrength).mockReturnValue({
+        isValid: false,
+        errors: [ERROR_MESSAGES.PASSWORD_TOO_COMMON],
+      });
+
+      const result = await createCaller().checkPasswordStrength({ password: 'Password1!' });
+
+      expect(result).toEqual({
+        score: 0,
+        warning: PASSWORD_STRENGTH_WARNINGS.COMMON,
+        isValid: false,
+        errors: [ERROR_MESSAGES.PASSWORD_TOO_COMMON],
+      });
+    });
+
+    it('should rate a long random password highly', async () => {
+      vi.mocked(PasswordUtils.validatePasswordStrength).mockReturnValue({ isValid: true, errors: [] });
+
+      const result = await createCaller().checkPasswordStrength({ password: 'k9#Tq2vL!xR7mW' });
+
+      expect(result).toMatchObject({ score: 4, warning: null, isValid: true });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { authRouter } from './auth';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { SessionService, SESSION_REVOKE_REASONS } from '../../../lib/services/session.service';
+import { ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { buildAuthContext } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/services/session.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../lib/services/session.service')>();
+  return {
+    ...actual,
+    SessionService: {
+      revokeSession: vi.fn(),
+      revokeAllSessions: vi.fn(),
+    },
+  };
+});
+
+describe('AuthRouter - Logout Endpoints', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext());
+  });
+
+  const createCaller = (resHeaders?: Headers) => {
+    const ctx = { req: undefined, resHeaders };
+    return authRouter.createCaller(ctx);
+  };
+
+  describe('logout mutation', () => {
+    it('should revoke the current session', async () => {
+      const caller = createCaller();
+      const result = await caller.logout();
+
+      expect(result).toEqual({ success: true, message: ERROR_MESSAGES.LOGOUT_SUCCESS });
+      expect(SessionService.revokeSession).toHaveBeenCalledWith('session-123', SESSION_REVOKE_REASONS.LOGOUT);
+    });
+
+    it('should expire the auth cookies', async () => {
+      const resHeaders = new Headers();
+      await createCaller(resHeaders).logout();
+
+      const cookies = resHeaders.getSetCookie();
+      for (const name of ['auth-token', 'auth-refresh', 'csrf-token', 'auth-user']) {
+        expect(cookies).toContainEqual(expect.stringMatching(new RegExp(`^${name}=;.*Max-Age=0`)));
+      }
+    });
+
+    it('should require authentication', async () => {
+      vi.mocked(createAuthenticatedContext).mockRejectedValue(
+        new TRPCError({ code: 'UNAUTHORIZED', message: 'Authorization header is required' })
+      );
+
+      const caller = createCaller();
+
+      await expect(caller.logout()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      expect(SessionService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('should handle revocation errors gracefully', async () => {
+      vi.mocked(SessionService.revokeSession).mockRejectedValue(new Error('Database error'));
+
+      const caller = createCaller();
+
+      await expect(caller.logout()).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: ERROR_MESSAGES.LOGOUT_ERROR,
+      });
+    });
+  });
+
+  describe('logoutAll mutation', () => {
+    it('should revoke every session of the user', async () => {
+      vi.mocked(SessionService.revokeAllSessions).mockResolvedValue(3);
+
+      const caller = createCaller();
+      const result = await caller.logoutAll();
+
+      expect(result).toEqual({
+        success: true,
+        message: ERROR_MESSAGES.LOGOUT_ALL_SUCCESS,
+        revokedCount: 3,
+      });
+      expect(SessionService.revokeAllSessions).toHaveBeenCalledWith('user-123', SESSION_REVOKE_REASONS.LOGOUT_ALL);
+    });
+  });
+});
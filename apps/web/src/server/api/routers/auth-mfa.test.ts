@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { authRouter } from './auth';
+import { userRepository as mockUserRepository } from '../../../lib/repositories/user.repository';
+import { PasswordUtils } from '../../../lib/auth/password';
+import { MfaService } from '../../../lib/services/mfa.service';
+import { ERROR_MESSAGES, AUTH_ERROR_CODES } from '../../../lib/auth/constants';
+import { buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../../../lib/repositories/user.repository', () => ({
+  userRepository: {
+    findByEmail: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/repositories/session.repository', () => ({
+  sessionRepository: {
+    create: vi.fn(async (data) => ({ id: 'session-123', ...data })),
+  },
+}));
+
+vi.mock('../../../lib/auth/password', () => ({
+  PasswordUtils: {
+    verify: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/login-throttle.service', () => ({
+  LoginThrottleService: {
+    checkAllowed: vi.fn(),
+    recordFailure: vi.fn(),
+    recordSuccess: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/mfa.service', () => ({
+  MfaService: {
+    isEnabled: vi.fn(),
+    createChallenge: vi.fn(),
+    completeChallenge: vi.fn(),
+  },
+}));
+
+describe('AuthRouter - Two-Factor Login', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const createCaller = (resHeaders?: Headers) => {
+    const ctx = { req: undefined, resHeaders };
+    return authRouter.createCaller(ctx);
+  };
+
+  describe('login mutation', () => {
+    it('should return an MFA ticket instead of tokens when 2FA is enabled', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser());
+      vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
+      vi.mocked(MfaService.isEnabled).mockReturnValue(true);
+      vi.mocked(MfaService.createChallenge).mockResolvedValue('mfa-ticket');
+
+      const caller = createCaller();
+      const result = await caller.login({ email: 'test@example.com', password: 'password123' });
+
+      expect(result).toEqual({
+        success: true,
+        message: ERROR_MESSAGES.MFA_REQUIRED,
+        mfaRequired: true,
+        mfaTicket: 'mfa-ticket',
+      });
+    });
+
+    it('should not issue a ticket for a wrong password', async () => {
+      vi.mocked(mockUserRepository.findByEmail).mockResolvedValue(buildUser());
+      vi.mocked(PasswordUtils.verify).mockResolvedValue(false);
+      vi.mocked(MfaService.isEnabled).mockReturnValue(true);
+
+      const caller = createCaller();
+
+      await expect(caller.login({ email: 'test@example.com', password: 'wrong' })).rejects.toMatchObject({
+        code: 'UNAUTHORIZED',
+      });
+      expect(MfaService.createChallenge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyMfa mutation', () => {
+    it('should issue tokens once the code is verified', async () => {
+      vi.mocked(MfaService.completeChallenge).mockResolvedValue(buildUser({ role: 'PROCUREMENT' }));
+
+      const resHeaders = new Headers();
+      const caller = createCaller(resHeaders);
+      const result = await caller.verifyMfa({ ticket: 'mfa-ticket', code: '123456' });
+
+      expect(result.success).toBe(true);
+      expect(result.accessTokenExpiresAt).toBeInstanceOf(Date);
+      expect(resHeaders.getSetCookie()).toEqual(expect.arrayContaining([
+        expect.stringMatching(/^auth-token=.+HttpOnly/),
+        expect.stringMatching(/^auth-refresh=session-123\..+HttpOnly/),
+      ]));
+      expect(result.user).toMatchObject({ id: 'user-123', role: 'PROCUREMENT' });
+      expect(MfaService.completeChallenge).toHaveBeenCalledWith('mfa-ticket', '123456', null);
+    });
+
+    it('should reject a wrong code without ending the attempt', async () => {
+      vi.mocked(MfaService.completeChallenge).mockRejectedValue(new Error(ERROR_MESSAGES.MFA_CODE_INVALID));
+
+      const caller = createCaller();
+      const error = await caller.verifyMfa({ ticket: 'mfa-ticket', code: '000000' }).catch((e) => e);
+
+      expect(error).toMatchObject({ code: 'UNAUTHORIZED', message: ERROR_MESSAGES.MFA_CODE_INVALID });
+      expect(error.cause).toBeUndefined();
+    });
+
+    it('should tell the client to restart when the ticket is no longer valid', async () => {
+      vi.mocked(MfaService.completeChallenge).mockRejectedValue(new Error(ERROR_MESSAGES.MFA_TICKET_INVALID));
+
+      const caller = createCaller();
+      const error = await caller.verifyMfa({ ticket: 'mfa-ticket', code: '123456' }).catch((e) => e);
+
+      expect(error).toMatchObject({ code: 'UNAUTHORIZED', message: ERROR_MESSAGES.MFA_TICKET_INVALID });
+      expect(error.cause.code).toBe(AUTH_ERROR_CODES.MFA_TICKET_INVALID);
+    });
+
+    it('should map account lockout to TOO_MANY_REQUESTS', async () => {
+      vi.mocked(MfaService.completeChallenge).mockRejectedValue(new Error(ERROR_MESSAGES.ACCOUNT_LOCKED));
+
+      const caller = createCaller();
+
+      await expect(caller.verifyMfa({ ticket: 'mfa-ticket', code: '123456' })).rejects.toMatchObject({
+        code: 'TOO_MANY_REQUESTS',
+        message: ERROR_MESSAGES.ACCOUNT_LOCKED,
+      });
+    });
+
+    it('should wrap unexpected errors', async () => {
+      vi.mocked(MfaService.completeChallenge).mockRejectedValue(new Error('Database error'));
+
+      const caller = createCaller();
+
+      await expect(caller.verifyMfa({ ticket: 'mfa-ticket', code: '123456' })).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: ERROR_MESSAGES.MFA_ERROR,
+      });
+    });
+  });
+});
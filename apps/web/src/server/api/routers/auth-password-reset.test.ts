@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { authRouter } from './auth';
+import { PasswordResetService } from '../../../lib/services/password-reset.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { ERROR_MESSAGES, AUDIT_ACTIONS } from '../../../lib/auth/constants';
+import { buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../../../lib/services/password-reset.service', () => ({
+  PasswordResetService: {
+    requestReset: vi.fn(),
+    resetPassword: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+describe('AuthRouter - Password Reset Endpoints', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return authRouter.createCaller(ctx);
+  };
+
+  describe('requestPasswordReset mutation', () => {
+    it('should normalize the email and request a reset', async () => {
+      const caller = createCaller();
+      const result = await caller.requestPasswordReset({ email: '  Test@Example.com ' });
+
+      expect(result).toEqual({ success: true, message: ERROR_MESSAGES.PASSWORD_RESET_REQUESTED });
+      expect(PasswordResetService.requestReset).toHaveBeenCalledWith('test@example.com', {
+        ipAddress: null,
+        userAgent: null,
+      });
+    });
+
+    it('should respond the same way when sending fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(PasswordResetService.requestReset).mockRejectedValue(new Error('SMTP down'));
+
+      const caller = createCaller();
+      const result = await caller.requestPasswordReset({ email: 'test@example.com' });
+
+      expect(result).toEqual({ success: true, message: ERROR_MESSAGES.PASSWORD_RESET_REQUESTED });
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('resetPassword mutation', () => {
+    it('should reset the password with a valid token', async () => {
+      vi.mocked(PasswordResetService.resetPassword).mockResolvedValue(buildUser());
+
+      const caller = createCaller();
+      const result = await caller.resetPassword({ token: 'reset-token', password: 'NewPassw0rd!' });
+
+      expect(result).toEqual({ success: true, message: ERROR_MESSAGES.PASSWORD_RESET_SUCCESS });
+      expect(PasswordResetService.resetPassword).toHaveBeenCalledWith('reset-token', 'NewPassw0rd!');
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AUDIT_ACTIONS.PASSWORD_RESET_COMPLETED,
+          targetId: 'user-123',
+        })
+      );
+    });
+
+    it('should reject weak passwords', async () => {
+      const caller = createCaller();
+
+      await expect(caller.resetPassword({ token: 'reset-token', password: 'weakpassword' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR,
+      });
+      expect(PasswordResetService.resetPassword).not.toHaveBeenCalled();
+    });
+
+    it('should map invalid tokens to BAD_REQUEST', async () => {
+      vi.mocked(PasswordResetService.resetPassword).mockRejectedValue(
+        new Error(ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID)
+      );
+
+      const caller = createCaller();
+
+      await expect(caller.resetPassword({ token: 'used-token', password: 'NewPassw0rd!' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID,
+      });
+    });
+
+    it('should wrap unexpected errors', async () => {
+      vi.mocked(PasswordResetService.resetPassword).mockRejectedValue(new Error('Database error'));
+
+      const caller = createCaller();
+
+      await expect(caller.resetPassword({ token: 'reset-token', password: 'NewPassw0rd!' })).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: ERROR_MESSAGES.PASSWORD_RESET_ERROR,
+      });
+    });
+  });
+});
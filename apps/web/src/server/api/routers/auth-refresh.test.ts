@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { authRouter } from './auth';
+import { SessionService, SESSION_ERROR_MESSAGES } from '../../../lib/services/session.service';
+import { ERROR_MESSAGES } from '../../../lib/auth/constants';
+import type { Session } from '@prisma/client';
+
+// Mock the session service but keep its error messages
+vi.mock('../../../lib/services/session.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../lib/services/session.service')>();
+  return {
+    ...actual,
+    SessionService: {
+      refreshSession: vi.fn(),
+    },
+  };
+});
+
+describe('AuthRouter - Refresh Endpoint', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // Browser request carrying the refresh cookie and the matching CSRF header
+  const createCaller = (
+    headers: Record<string, string> = {},
+    resHeaders: Headers = new Headers()
+  ) => {
+    const ctx = {
+      req: new Request('http://localhost/api/trpc/auth.refresh', {
+        method: 'POST',
+        headers: {
+          cookie: 'auth-refresh=session-123.old-secret; csrf-token=csrf-123',
+          'x-csrf-token': 'csrf-123',
+          ...headers,
+        },
+      }),
+      resHeaders,
+    };
+    return authRouter.createCaller(ctx);
+  };
+
+  it('should rotate the token pair stored in the cookies', async () => {
+    vi.mocked(SessionService.refreshSession).mockResolvedValue({
+      session: { id: 'session-123' } as Session,
+      accessToken: 'new-access-token',
+      refreshToken: 'session-123.new-secret',
+    });
+
+    const resHeaders = new Headers();
+    const caller = createCaller({ 'user-agent': 'Mozilla/5.0', 'x-forwarded-for': '198.51.100.1, 10.0.0.1' }, resHeaders);
+    const result = await caller.refresh();
+
+    expect(result).toEqual({
+      success: true,
+      message: ERROR_MESSAGES.REFRESH_SUCCESS,
+      accessTokenExpiresAt: expect.any(Date),
+    });
+    expect(SessionService.refreshSession).toHaveBeenCalledWith('session-123.old-secret', {
+      userAgent: 'Mozilla/5.0',
+      ipAddress: '10.0.0.1',
+    });
+    expect(resHeaders.getSetCookie()).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^auth-token=new-access-token;.*HttpOnly/),
+      expect.stringMatching(/^auth-refresh=session-123\.new-secret;.*HttpOnly/),
+    ]));
+  });
+
+  it('should map session errors to UNAUTHORIZED and clear the cookies', async () => {
+    vi.mocked(SessionService.refreshSession).mockRejectedValue(
+      new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_REUSED)
+    );
+
+    const resHeaders = new Headers();
+    const caller = createCaller({}, resHeaders);
+
+    try {
+      await caller.refresh();
+      expect.fail('Expected refresh to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TRPCError);
+      const trpcError = error as TRPCError;
+      expect(trpcError.code).toBe('UNAUTHORIZED');
+      expect(trpcError.message).toBe(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_REUSED);
+    }
+    expect(resHeaders.getSetCookie()).toContainEqual(expect.stringMatching(/^auth-refresh=;.*Max-Age=0/));
+  });
+
+  it('should keep the cookies and report a conflict when a concurrent refresh won', async () => {
+    vi.mocked(SessionService.refreshSession).mockRejectedValue(
+      new Error(SESSION_ERROR_MESSAGES.REFRESH_TOKEN_ROTATED)
+    );
+
+    const resHeaders = new Headers();
+    const caller = createCaller({}, resHeaders);
+
+    await expect(caller.refresh()).rejects.toMatchObject({
+      code: 'CONFLICT',
+      message: SESSION_ERROR_MESSAGES.REFRESH_TOKEN_ROTATED,
+    });
+    expect(resHeaders.getSetCookie()).toEqual([]);
+  });
+
+  it('should handle unexpected errors gracefully', async () => {
+    vi.mocked(SessionService.refreshSession).mockRejectedValue(new Error('Database error'));
+
+    const caller = createCaller();
+
+    await expect(caller.refresh())
+      .rejects.toMatchObject({ code: 'INTERNAL_SERVER_ERROR', message: ERROR_MESSAGES.REFRESH_ERROR });
+  });
+
+  it('should require a refresh token cookie', async () => {
+    const caller = createCaller({ cookie: 'csrf-token=csrf-123' });
+
+    await expect(caller.refresh()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+      message: ERROR_MESSAGES.REFRESH_TOKEN_REQUIRED,
+    });
+    expect(SessionService.refreshSession).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests without the matching CSRF token', async () => {
+    const caller = createCaller({ 'x-csrf-token': 'forged' });
+
+    await expect(caller.refresh()).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+      message: ERROR_MESSAGES.CSRF_TOKEN_INVALID,
+    });
+    expect(SessionService.refreshSession).not.toHaveBeenCalled();
+  });
+});
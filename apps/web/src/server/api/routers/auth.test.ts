@@ -29,6 +29,11 @@ describe('authRouter', () => {
     vi.clearAllMocks();
   });
 
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return authRouter.createCaller(ctx);
+  };
+
   describe('register procedure', () => {
     const validInput = {
       email: 'test@example.com',
@@ -54,7 +59,7 @@ describe('authRouter', () => {
       mockUserRepository.create.mockResolvedValue(mockUser);
 
       // Create caller
-      const caller = authRouter.createCaller({});
+      const caller = createCaller();
       
       const result = await caller.register(validInput);
 
@@ -77,7 +82,7 @@ describe('authRouter', () => {
     });
 
     it('should throw error for invalid email format', async () => {
-      const caller = authRouter.createCaller({});
+      const caller = createCaller();
       
       await expect(caller.register({
         email: 'invalid-email',
@@ -88,7 +93,7 @@ describe('authRouter', () => {
     });
 
     it('should throw error for short password', async () => {
-      const caller = authRouter.createCaller({});
+      const caller = createCaller();
       
       await expect(caller.register({
         email: 'test@example.com',
@@ -104,7 +109,7 @@ describe('authRouter', () => {
         errors: ['Password must contain at least one uppercase letter'],
       });
 
-      const caller = authRouter.createCaller({});
+      const caller = createCaller();
       
       await expect(caller.register({
         email: 'test@example.com',
@@ -122,7 +127,7 @@ describe('authRouter', () => {
       });
       mockUserRepository.findByEmail.mockResolvedValue(mockUser);
 
-      const caller = authRouter.createCaller({});
+      const caller = createCaller();
       
       await expect(caller.register(validInput)).rejects.toMatchObject({
         code: 'CONFLICT',
@@ -137,7 +142,7 @@ describe('authRouter', () => {
       });
       mockUserRepository.findByEmail.mockRejectedValue(new Error('Database error'));
 
-      const caller = authRouter.createCaller({});
+      const caller = createCaller();
       
       await expect(caller.register(validInput)).rejects.toMatchObject({
         code: 'INTERNAL_SERVER_ERROR',
@@ -153,7 +158,7 @@ describe('authRouter', () => {
       mockUserRepository.findByEmail.mockResolvedValue(null);
       mockPasswordUtils.hash.mockRejectedValue(new Error('Hashing failed'));
 
-      const caller = authRouter.createCaller({});
+      const caller = createCaller();
       
       await expect(caller.register(validInput)).rejects.toMatchObject({
         code: 'INTERNAL_SERVER_ERROR',
@@ -170,7 +175,7 @@ describe('authRouter', () => {
       mockPasswordUtils.hash.mockResolvedValue('hashed_password');
       mockUserRepository.create.mockRejectedValue(new Error('Creation failed'));
 
-      const caller = authRouter.createCaller({});
+      const caller = createCaller();
       
       await expect(caller.register(validInput)).rejects.toMatchObject({
         code: 'INTERNAL_SERVER_ERROR',
@@ -188,7 +193,7 @@ describe('authRouter', () => {
         message: 'Access denied',
       }));
 
-      const caller = authRouter.createCaller({});
+      const caller = createCaller();
       
       await expect(caller.register(validInput)).rejects.toMatchObject({
         code: 'FORBIDDEN',
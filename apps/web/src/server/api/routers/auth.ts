@@ -1,10 +1,48 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
-import { createTRPCRouter, publicProcedure } from '../trpc';
+import { createTRPCRouter, publicProcedure, sessionProcedure, rateLimit } from '../trpc';
 import { userRepository } from '../../../lib/repositories/user.repository';
 import { PasswordUtils } from '../../../lib/auth/password';
-import { PASSWORD_CONFIG, EMAIL_CONFIG, ERROR_MESSAGES } from '../../../lib/auth/constants';
-import { signJWT } from '../../../lib/auth/jwt';
+import { getPasswordDenyLists } from '../../../lib/auth/password-denylist';
+import { estimatePasswordStrength } from '../../../lib/auth/password-strength';
+import {
+  PASSWORD_CONFIG,
+  EMAIL_CONFIG,
+  ERROR_MESSAGES,
+  AUTH_ERROR_CODES,
+  RATE_LIMITS,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  AUTH_COOKIE_CONFIG,
+  PASSWORD_STRENGTH_WARNINGS,
+} from '../../../lib/auth/constants';
+import { AuthError } from '../../../lib/auth/errors';
+import { decodeJWT } from '../../../lib/auth/jwt';
+import {
+  SessionService,
+  SESSION_ERROR_MESSAGES,
+  SESSION_REVOKE_REASONS,
+} from '../../../lib/services/session.service';
+import { PasswordResetService } from '../../../lib/services/password-reset.service';
+import { EmailVerificationService } from '../../../lib/services/email-verification.service';
+import { LoginThrottleService } from '../../../lib/services/login-throttle.service';
+import { MfaService } from '../../../lib/services/mfa.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { SsoService } from '../../../lib/services/sso.service';
+import { PasswordService } from '../../../lib/services/password.service';
+import { InvitationService } from '../../../lib/services/invitation.service';
+import { ImpersonationService } from '../../../lib/services/impersonation.service';
+import { isPublicRegistrationEnabled } from '../../../lib/auth/registration';
+import { ROLES } from '../../../lib/auth/permissions';
+import { getRequestMetadata, type RequestMetadata } from '../middleware/request-metadata';
+import {
+  setAuthCookies,
+  clearAuthCookies,
+  clearImpersonatorCookie,
+  getRequestCookie,
+  hasValidCsrfToken,
+} from '../middleware/auth-cookies';
+import type { User } from '@prisma/client';
 
 const registerInputSchema = z.object({
   email: z
@@ -46,21 +84,264 @@ const loginInputSchema = z.object({
 const loginOutputSchema = z.object({
   success: z.boolean(),
   message: z.string(),
-  token: z.string().optional(),
+  // Set instead of the tokens when the account has 2FA; exchange through verifyMfa
+  mfaRequired: z.boolean().optional(),
+  mfaTicket: z.string().optional(),
+  // The tokens themselves are only sent as httpOnly cookies
+  accessTokenExpiresAt: z.date().optional(),
   user: z.object({
     id: z.string(),
     email: z.string(),
+    role: z.enum(ROLES),
+    mustChangePassword: z.boolean(),
     createdAt: z.date(),
+    updatedAt: z.date(),
   }).optional(),
 });
 
+const verifyMfaInputSchema = z.object({
+  ticket: z
+    .string()
+    .min(1, ERROR_MESSAGES.MFA_TICKET_INVALID),
+  code: z
+    .string()
+    .trim()
+    .min(1, ERROR_MESSAGES.MFA_CODE_INVALID)
+    .max(32, ERROR_MESSAGES.MFA_CODE_INVALID),
+});
+
+const loginOptionsOutputSchema = z.object({
+  sso: z.object({
+    enabled: z.boolean(),
+    providerName: z.string().nullable(),
+  }),
+  // False when accounts are only created from invitations
+  registration: z.object({
+    enabled: z.boolean(),
+  }),
+});
+
+const checkPasswordStrengthInputSchema = z.object({
+  password: z
+    .string()
+    .max(PASSWORD_CONFIG.MAX_LENGTH, ERROR_MESSAGES.PASSWORD_TOO_LONG),
+});
+
+const checkPasswordStrengthOutputSchema = z.object({
+  // 0 to 4, see estimatePasswordStrength
+  score: z.number().int().min(0).max(4),
+  warning: z.enum(PASSWORD_STRENGTH_WARNINGS).nullable(),
+  // Whether the password policy accepts it, with the reasons if not
+  isValid: z.boolean(),
+  errors: z.array(z.string()),
+});
+
+const refreshOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  accessTokenExpiresAt: z.date(),
+});
+
+const stopImpersonatingOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  accessTokenExpiresAt: z.date(),
+  // The administrator, signed back in
+  user: z.object({
+    id: z.string(),
+    email: z.string(),
+    role: z.enum(ROLES),
+  }),
+});
+
+const logoutOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+const logoutAllOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  revokedCount: z.number(),
+});
+
+const requestPasswordResetInputSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .email(ERROR_MESSAGES.INVALID_EMAIL)
+    .min(1, ERROR_MESSAGES.EMAIL_REQUIRED)
+    .max(EMAIL_CONFIG.MAX_LENGTH, ERROR_MESSAGES.EMAIL_TOO_LONG)
+    .toLowerCase(),
+});
+
+const resetPasswordInputSchema = z.object({
+  token: z
+    .string()
+    .min(1, ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID),
+  password: z
+    .string()
+    .min(PASSWORD_CONFIG.MIN_LENGTH, ERROR_MESSAGES.PASSWORD_TOO_SHORT)
+    .max(PASSWORD_CONFIG.MAX_LENGTH, ERROR_MESSAGES.PASSWORD_TOO_LONG),
+});
+
+const passwordResetOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+const verifyEmailInputSchema = z.object({
+  token: z
+    .string()
+    .min(1, ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID),
+});
+
+const resendVerificationInputSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .email(ERROR_MESSAGES.INVALID_EMAIL)
+    .min(1, ERROR_MESSAGES.EMAIL_REQUIRED)
+    .max(EMAIL_CONFIG.MAX_LENGTH, ERROR_MESSAGES.EMAIL_TOO_LONG)
+    .toLowerCase(),
+});
+
+const emailVerificationOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+const getInvitationInputSchema = z.object({
+  token: z
+    .string()
+    .min(1, ERROR_MESSAGES.INVITATION_INVALID),
+});
+
+const getInvitationOutputSchema = z.object({
+  email: z.string(),
+  role: z.enum(ROLES),
+  expiresAt: z.date(),
+});
+
+const acceptInvitationInputSchema = z.object({
+  token: z
+    .string()
+    .min(1, ERROR_MESSAGES.INVITATION_INVALID),
+  password: z
+    .string()
+    .min(PASSWORD_CONFIG.MIN_LENGTH, ERROR_MESSAGES.PASSWORD_TOO_SHORT)
+    .max(PASSWORD_CONFIG.MAX_LENGTH, ERROR_MESSAGES.PASSWORD_TOO_LONG),
+});
+
+const acceptInvitationOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+/**
+ * Map login throttling refusals to TOO_MANY_REQUESTS, passing other errors through
+ */
+function toLoginThrottleError(error: unknown): unknown {
+  if (error instanceof Error && error.message === ERROR_MESSAGES.ACCOUNT_LOCKED) {
+    return new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: ERROR_MESSAGES.ACCOUNT_LOCKED,
+      cause: new AuthError(AUTH_ERROR_CODES.ACCOUNT_LOCKED, ERROR_MESSAGES.ACCOUNT_LOCKED),
+    });
+  }
+
+  if (error instanceof Error && error.message === ERROR_MESSAGES.TOO_MANY_LOGIN_ATTEMPTS) {
+    return new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: ERROR_MESSAGES.TOO_MANY_LOGIN_ATTEMPTS,
+      cause: new AuthError(AUTH_ERROR_CODES.RATE_LIMITED, ERROR_MESSAGES.TOO_MANY_LOGIN_ATTEMPTS),
+    });
+  }
+
+  return error;
+}
+
+/**
+ * Record a refused sign-in attempt
+ * The actor is only known once the email (or MFA ticket) matched an account
+ */
+async function recordLoginFailure(
+  user: User | null,
+  email: string | null,
+  metadata: RequestMetadata,
+  reason: string
+): Promise<void> {
+  await AuditService.record({
+    action: AUDIT_ACTIONS.LOGIN_FAILED,
+    actor: user,
+    ...metadata,
+    metadata: {
+      ...(email && { email }),
+      reason,
+    },
+  });
+}
+
+/**
+ * Expiry of an access token, so the client can refresh ahead of it without reading the token
+ */
+function getAccessTokenExpiry(accessToken: string): Date {
+  const payload = decodeJWT(accessToken);
+  return new Date((payload?.exp ?? 0) * 1000);
+}
+
+/**
+ * Create the session for a fully authenticated user, set the auth cookies
+ * and build the login response
+ */
+async function completeLogin(
+  user: User,
+  metadata: RequestMetadata,
+  resHeaders: Headers | undefined,
+  method: 'password' | 'mfa'
+): Promise<z.infer<typeof loginOutputSchema>> {
+  const { session, accessToken, refreshToken } = await SessionService.createSession(user, metadata);
+  setAuthCookies(resHeaders, { accessToken, refreshToken });
+
+  await AuditService.record({
+    action: AUDIT_ACTIONS.LOGIN_SUCCEEDED,
+    actor: user,
+    targetType: AUDIT_TARGET_TYPES.SESSION,
+    targetId: session.id,
+    ...metadata,
+    metadata: { method },
+  });
+
+  return {
+    success: true,
+    message: ERROR_MESSAGES.LOGIN_SUCCESS,
+    accessTokenExpiresAt: getAccessTokenExpiry(accessToken),
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      mustChangePassword: user.mustChangePassword,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    },
+  };
+}
+
 export const authRouter = createTRPCRouter({
   register: publicProcedure
+    .use(rateLimit(RATE_LIMITS.REGISTER))
     .input(registerInputSchema)
     .output(registerOutputSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { email, password } = input;
 
+      if (!isPublicRegistrationEnabled()) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: ERROR_MESSAGES.REGISTRATION_DISABLED,
+        });
+      }
+
       // Validate password strength
       const passwordValidation = PasswordUtils.validatePasswordStrength(password);
       if (!passwordValidation.isValid) {
@@ -90,6 +371,22 @@ export const authRouter = createTRPCRouter({
           passwordHash,
         });
 
+        // The account is usable once the emailed link is opened; a failed send can be retried
+        // through resendVerification, so it doesn't fail the registration
+        try {
+          await EmailVerificationService.sendVerification(newUser);
+        } catch (error) {
+          console.error('Error sending verification email:', error);
+        }
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.REGISTER,
+          actor: newUser,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: newUser.id,
+          ...getRequestMetadata(ctx.req),
+        });
+
         return {
           success: true,
           message: ERROR_MESSAGES.REGISTRATION_SUCCESS,
@@ -115,15 +412,27 @@ export const authRouter = createTRPCRouter({
     }),
 
   login: publicProcedure
+    .use(rateLimit(RATE_LIMITS.LOGIN))
     .input(loginInputSchema)
     .output(loginOutputSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { email, password } = input;
+      const metadata = getRequestMetadata(ctx.req);
+      let user: User | null = null;
 
       try {
         // Find user by email
-        const user = await userRepository.findByEmail(email);
+        user = await userRepository.findByEmail(email);
+
+        // Refuse locked accounts and throttled IPs before checking the password
+        try {
+          await LoginThrottleService.checkAllowed(user, metadata.ipAddress);
+        } catch (error) {
+          throw toLoginThrottleError(error);
+        }
+
         if (!user) {
+          await LoginThrottleService.recordFailure(null, metadata.ipAddress);
           throw new TRPCError({
             code: 'UNAUTHORIZED',
             message: ERROR_MESSAGES.INVALID_CREDENTIALS,
@@ -133,40 +442,577 @@ export const authRouter = createTRPCRouter({
         // Verify password
         const isPasswordValid = await PasswordUtils.verify(password, user.passwordHash);
         if (!isPasswordValid) {
+          await LoginThrottleService.recordFailure(user, metadata.ipAddress);
           throw new TRPCError({
             code: 'UNAUTHORIZED',
             message: ERROR_MESSAGES.INVALID_CREDENTIALS,
           });
         }
 
-        // Generate JWT token
-        const token = await signJWT({
-          userId: user.id,
-          email: user.email,
+        await LoginThrottleService.recordSuccess(user);
+
+        // Disabled accounts are only reported after the password is verified,
+        // so the response does not reveal account status to guessers
+        if (user.deletedAt) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: ERROR_MESSAGES.ACCOUNT_DELETED,
+            cause: new AuthError(AUTH_ERROR_CODES.ACCOUNT_DELETED, ERROR_MESSAGES.ACCOUNT_DELETED),
+          });
+        }
+
+        if (!user.isActive) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: ERROR_MESSAGES.ACCOUNT_DISABLED,
+            cause: new AuthError(AUTH_ERROR_CODES.ACCOUNT_DISABLED, ERROR_MESSAGES.ACCOUNT_DISABLED),
+          });
+        }
+
+        if (!user.emailVerifiedAt) {
+          throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: ERROR_MESSAGES.EMAIL_NOT_VERIFIED,
+            cause: new AuthError(AUTH_ERROR_CODES.EMAIL_NOT_VERIFIED, ERROR_MESSAGES.EMAIL_NOT_VERIFIED),
+          });
+        }
+
+        // An expired password still signs in, but the account can only change its password
+        // until it does; the flag sticks so it also applies after the 2FA step and on refresh
+        if (!user.mustChangePassword && PasswordService.isExpired(user)) {
+          user = await userRepository.update(user.id, { mustChangePassword: true });
+          await AuditService.record({
+            action: AUDIT_ACTIONS.PASSWORD_EXPIRED,
+            actor: user,
+            targetType: AUDIT_TARGET_TYPES.USER,
+            targetId: user.id,
+            ...metadata,
+          });
+        }
+
+        // Accounts with 2FA get a short-lived ticket instead of tokens until the code is verified
+        if (MfaService.isEnabled(user)) {
+          return {
+            success: true,
+            message: ERROR_MESSAGES.MFA_REQUIRED,
+            mfaRequired: true,
+            mfaTicket: await MfaService.createChallenge(user),
+          };
+        }
+
+        // Create server-side session and issue access/refresh token pair
+        return await completeLogin(user, metadata, ctx.resHeaders, 'password');
+      } catch (error) {
+        // Re-throw TRPC errors
+        if (error instanceof TRPCError) {
+          await recordLoginFailure(user, email, metadata, error.message);
+          throw error;
+        }
+
+        // Handle unexpected errors
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.LOGIN_ERROR,
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Sign-in methods offered on the login page
+   * SSO itself runs through the /api/auth/oidc routes, since it needs browser redirects
+   */
+  getLoginOptions: publicProcedure
+    .output(loginOptionsOutputSchema)
+    .query(() => {
+      const providerName = SsoService.getProviderName();
+
+      return {
+        sso: {
+          enabled: providerName !== null,
+          providerName,
+        },
+        registration: {
+          enabled: isPublicRegistrationEnabled(),
+        },
+      };
+    }),
+
+  /**
+   * Score a password for the strength meter while the user types it
+   * A mutation so the password travels in the request body rather than the URL
+   */
+  checkPasswordStrength: publicProcedure
+    .use(rateLimit(RATE_LIMITS.CHECK_PASSWORD_STRENGTH))
+    .input(checkPasswordStrengthInputSchema)
+    .output(checkPasswordStrengthOutputSchema)
+    .mutation(({ input }) => {
+      const denyLists = getPasswordDenyLists();
+      const { score, warning } = estimatePasswordStrength(input.password, denyLists);
+      const { isValid, errors } = PasswordUtils.validatePasswordStrength(input.password, undefined, denyLists);
+
+      return { score, warning, isValid, errors };
+    }),
+
+  verifyMfa: publicProcedure
+    .use(rateLimit(RATE_LIMITS.VERIFY_MFA))
+    .input(verifyMfaInputSchema)
+    .output(loginOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const metadata = getRequestMetadata(ctx.req);
+
+      try {
+        const user = await MfaService.completeChallenge(input.ticket, input.code, metadata.ipAddress);
+
+        return await completeLogin(user, metadata, ctx.resHeaders, 'mfa');
+      } catch (error) {
+        if (error instanceof Error && error.message === ERROR_MESSAGES.MFA_CODE_INVALID) {
+          await recordLoginFailure(null, null, metadata, error.message);
+          throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: ERROR_MESSAGES.MFA_CODE_INVALID,
+          });
+        }
+
+        // The client must restart from the password step
+        if (error instanceof Error && error.message === ERROR_MESSAGES.MFA_TICKET_INVALID) {
+          await recordLoginFailure(null, null, metadata, error.message);
+          throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: ERROR_MESSAGES.MFA_TICKET_INVALID,
+            cause: new AuthError(AUTH_ERROR_CODES.MFA_TICKET_INVALID, ERROR_MESSAGES.MFA_TICKET_INVALID),
+          });
+        }
+
+        const throttleError = toLoginThrottleError(error);
+        if (throttleError instanceof TRPCError) {
+          await recordLoginFailure(null, null, metadata, throttleError.message);
+          throw throttleError;
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.MFA_ERROR,
+          cause: error,
+        });
+      }
+    }),
+
+  refresh: publicProcedure
+    .output(refreshOutputSchema)
+    .mutation(async ({ ctx }) => {
+      const currentRefreshToken = getRequestCookie(ctx.req, AUTH_COOKIE_CONFIG.REFRESH_TOKEN_NAME);
+      if (!currentRefreshToken) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: ERROR_MESSAGES.REFRESH_TOKEN_REQUIRED,
+        });
+      }
+
+      if (!hasValidCsrfToken(ctx.req)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: ERROR_MESSAGES.CSRF_TOKEN_INVALID,
+        });
+      }
+
+      try {
+        // Rotate refresh token and issue a new short-lived access token
+        const { accessToken, refreshToken } = await SessionService.refreshSession(
+          currentRefreshToken,
+          getRequestMetadata(ctx.req)
+        );
+        setAuthCookies(ctx.resHeaders, { accessToken, refreshToken });
+
+        return {
+          success: true,
+          message: ERROR_MESSAGES.REFRESH_SUCCESS,
+          accessTokenExpiresAt: getAccessTokenExpiry(accessToken),
+        };
+      } catch (error) {
+        // Another tab or request rotated the token first and is setting the new cookies,
+        // so keep them and let the client retry
+        if (error instanceof Error && error.message === SESSION_ERROR_MESSAGES.REFRESH_TOKEN_ROTATED) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: error.message,
+          });
+        }
+
+        // Other session errors mean the client must log in again
+        const sessionErrorMessages: string[] = Object.values(SESSION_ERROR_MESSAGES);
+        if (error instanceof Error && sessionErrorMessages.includes(error.message)) {
+          clearAuthCookies(ctx.resHeaders);
+          throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: error.message,
+          });
+        }
+
+        // Handle unexpected errors
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.REFRESH_ERROR,
+          cause: error,
         });
+      }
+    }),
+
+  /**
+   * Leave an impersonation started with admin.impersonate and resume the administrator's own session
+   * Public, since the impersonation token may already have expired; the administrator's refresh
+   * token kept aside in an httpOnly cookie is what authenticates the request
+   */
+  stopImpersonating: publicProcedure
+    .output(stopImpersonatingOutputSchema)
+    .mutation(async ({ ctx }) => {
+      const impersonatorRefreshToken = getRequestCookie(ctx.req, AUTH_COOKIE_CONFIG.IMPERSONATOR_REFRESH_TOKEN_NAME);
+      if (!impersonatorRefreshToken) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: ERROR_MESSAGES.NOT_IMPERSONATING,
+        });
+      }
+
+      if (!hasValidCsrfToken(ctx.req)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: ERROR_MESSAGES.CSRF_TOKEN_INVALID,
+        });
+      }
+
+      // Only used to find the session to end; ImpersonationService checks it belongs to this administrator
+      const impersonationToken = getRequestCookie(ctx.req, AUTH_COOKIE_CONFIG.ACCESS_TOKEN_NAME);
+      const impersonationSessionId = impersonationToken ? decodeJWT(impersonationToken)?.sessionId ?? null : null;
+
+      try {
+        const { user, accessToken, refreshToken } = await ImpersonationService.end(
+          impersonatorRefreshToken,
+          impersonationSessionId,
+          getRequestMetadata(ctx.req)
+        );
+        setAuthCookies(ctx.resHeaders, { accessToken, refreshToken });
+        clearImpersonatorCookie(ctx.resHeaders);
 
         return {
           success: true,
-          message: ERROR_MESSAGES.LOGIN_SUCCESS,
-          token,
+          message: ERROR_MESSAGES.IMPERSONATION_ENDED,
+          accessTokenExpiresAt: getAccessTokenExpiry(accessToken),
           user: {
             id: user.id,
             email: user.email,
-            createdAt: user.createdAt,
+            role: user.role,
           },
         };
       } catch (error) {
-        // Re-throw TRPC errors
-        if (error instanceof TRPCError) {
-          throw error;
+        // The administrator's own session ended meanwhile, so they have to log in again
+        const sessionErrorMessages: string[] = Object.values(SESSION_ERROR_MESSAGES);
+        if (error instanceof Error && sessionErrorMessages.includes(error.message)) {
+          clearAuthCookies(ctx.resHeaders);
+          clearImpersonatorCookie(ctx.resHeaders);
+          throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: error.message,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.IMPERSONATION_ERROR,
+          cause: error,
+        });
+      }
+    }),
+
+  logout: sessionProcedure
+    .output(logoutOutputSchema)
+    .mutation(async ({ ctx }) => {
+      try {
+        // Revoke the session behind the current access token
+        await SessionService.revokeSession(ctx.auth.sessionId, SESSION_REVOKE_REASONS.LOGOUT);
+        clearAuthCookies(ctx.resHeaders);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.LOGOUT,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.SESSION,
+          targetId: ctx.auth.sessionId,
+          ...getRequestMetadata(ctx.req),
+        });
+
+        return {
+          success: true,
+          message: ERROR_MESSAGES.LOGOUT_SUCCESS,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.LOGOUT_ERROR,
+          cause: error,
+        });
+      }
+    }),
+
+  logoutAll: sessionProcedure
+    .output(logoutAllOutputSchema)
+    .mutation(async ({ ctx }) => {
+      try {
+        // Revoke every session of the user, including the current one
+        const revokedCount = await SessionService.revokeAllSessions(
+          ctx.auth.userId,
+          SESSION_REVOKE_REASONS.LOGOUT_ALL
+        );
+        clearAuthCookies(ctx.resHeaders);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.LOGOUT_ALL,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: ctx.auth.userId,
+          ...getRequestMetadata(ctx.req),
+          metadata: { revokedCount },
+        });
+
+        return {
+          success: true,
+          message: ERROR_MESSAGES.LOGOUT_ALL_SUCCESS,
+          revokedCount,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.LOGOUT_ERROR,
+          cause: error,
+        });
+      }
+    }),
+
+  requestPasswordReset: publicProcedure
+    .use(rateLimit(RATE_LIMITS.REQUEST_PASSWORD_RESET))
+    .input(requestPasswordResetInputSchema)
+    .output(passwordResetOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const metadata = getRequestMetadata(ctx.req);
+
+      try {
+        await PasswordResetService.requestReset(input.email, metadata);
+      } catch (error) {
+        // Log and fall through so failures don't reveal whether the account exists
+        console.error('Error requesting password reset:', error);
+      }
+
+      await AuditService.record({
+        action: AUDIT_ACTIONS.PASSWORD_RESET_REQUESTED,
+        ...metadata,
+        metadata: { email: input.email },
+      });
+
+      return {
+        success: true,
+        message: ERROR_MESSAGES.PASSWORD_RESET_REQUESTED,
+      };
+    }),
+
+  resetPassword: publicProcedure
+    .input(resetPasswordInputSchema)
+    .output(passwordResetOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { token, password } = input;
+
+      // Validate password strength
+      const passwordValidation = PasswordUtils.validatePasswordStrength(password);
+      if (!passwordValidation.isValid) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR,
+          cause: passwordValidation.errors,
+        });
+      }
+
+      try {
+        const user = await PasswordResetService.resetPassword(token, password);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.PASSWORD_RESET_COMPLETED,
+          actor: user,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: user.id,
+          ...getRequestMetadata(ctx.req),
+        });
+
+        return {
+          success: true,
+          message: ERROR_MESSAGES.PASSWORD_RESET_SUCCESS,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.message === ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID,
+          });
+        }
+
+        if (error instanceof Error && error.message === ERROR_MESSAGES.PASSWORD_REUSED) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: ERROR_MESSAGES.PASSWORD_REUSED,
+          });
         }
 
         // Handle unexpected errors
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
-          message: ERROR_MESSAGES.LOGIN_ERROR,
+          message: ERROR_MESSAGES.PASSWORD_RESET_ERROR,
           cause: error,
         });
       }
     }),
-});
\ No newline at end of file
+
+  verifyEmail: publicProcedure
+    .input(verifyEmailInputSchema)
+    .output(emailVerificationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { user, previousEmail } = await EmailVerificationService.verifyEmail(input.token);
+
+        if (previousEmail) {
+          await AuditService.record({
+            action: AUDIT_ACTIONS.EMAIL_CHANGED,
+            actor: user,
+            targetType: AUDIT_TARGET_TYPES.USER,
+            targetId: user.id,
+            ...getRequestMetadata(ctx.req),
+            metadata: { previousEmail, newEmail: user.email },
+          });
+        } else {
+          await AuditService.record({
+            action: AUDIT_ACTIONS.EMAIL_VERIFIED,
+            actor: user,
+            targetType: AUDIT_TARGET_TYPES.USER,
+            targetId: user.id,
+            ...getRequestMetadata(ctx.req),
+          });
+        }
+
+        return {
+          success: true,
+          message: previousEmail ? ERROR_MESSAGES.EMAIL_CHANGE_CONFIRMED : ERROR_MESSAGES.EMAIL_VERIFICATION_SUCCESS,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.message === ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID,
+          });
+        }
+
+        // Another account took the new address while the change waited for confirmation
+        if (error instanceof Error && error.message === ERROR_MESSAGES.USER_EXISTS) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: ERROR_MESSAGES.EMAIL_IN_USE,
+          });
+        }
+
+        // Handle unexpected errors
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.EMAIL_VERIFICATION_ERROR,
+          cause: error,
+        });
+      }
+    }),
+
+  resendVerification: publicProcedure
+    .use(rateLimit(RATE_LIMITS.RESEND_VERIFICATION))
+    .input(resendVerificationInputSchema)
+    .output(emailVerificationOutputSchema)
+    .mutation(async ({ input }) => {
+      try {
+        await EmailVerificationService.resendVerification(input.email);
+      } catch (error) {
+        // Log and fall through so failures don't reveal whether the account exists
+        console.error('Error resending verification email:', error);
+      }
+
+      return {
+        success: true,
+        message: ERROR_MESSAGES.EMAIL_VERIFICATION_RESENT,
+      };
+    }),
+
+  /**
+   * Who an invitation is for, shown on the accept page before a password is chosen
+   */
+  getInvitation: publicProcedure
+    .input(getInvitationInputSchema)
+    .output(getInvitationOutputSchema)
+    .query(async ({ input }) => {
+      try {
+        const invitation = await InvitationService.getOpenInvitation(input.token);
+
+        return {
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt,
+        };
+      } catch (error) {
+        if (error instanceof Error && error.message === ERROR_MESSAGES.INVITATION_INVALID) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: ERROR_MESSAGES.INVITATION_INVALID,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.INVITATION_ERROR,
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Set the password for an invited address, creating the account
+   * Works whether or not public registration is enabled
+   */
+  acceptInvitation: publicProcedure
+    .use(rateLimit(RATE_LIMITS.ACCEPT_INVITATION))
+    .input(acceptInvitationInputSchema)
+    .output(acceptInvitationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const user = await InvitationService.accept(input.token, input.password);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.INVITATION_ACCEPTED,
+          actor: user,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: user.id,
+          ...getRequestMetadata(ctx.req),
+          metadata: { role: user.role },
+        });
+
+        return {
+          success: true,
+          message: ERROR_MESSAGES.INVITATION_ACCEPTED,
+        };
+      } catch (error) {
+        if (error instanceof Error) {
+          switch (error.message) {
+            case ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR:
+            case ERROR_MESSAGES.INVITATION_INVALID:
+              throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+            case ERROR_MESSAGES.USER_EXISTS:
+              throw new TRPCError({ code: 'CONFLICT', message: error.message });
+          }
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.INVITATION_ERROR,
+          cause: error,
+        });
+      }
+    }),
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { datasetRouter } from './dataset';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { datasetRepository } from '../../../lib/repositories/dataset.repository';
+import { AuditService } from '../../../lib/services/audit.service';
+import { FileUploadService } from '../../../lib/services/file-upload.service';
+import { AUDIT_ACTIONS, DATASET_ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { buildAuthContext, buildDataset } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/repositories/dataset.repository', () => ({
+  datasetRepository: {
+    findAll: vi.fn(),
+    count: vi.fn(),
+    findById: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/file-upload.service', () => ({
+  FileUploadService: {
+    deleteDatasetFiles: vi.fn(),
+  },
+}));
+
+describe('DatasetRouter', () => {
+  const estimatorContext = {
+    ...buildAuthContext({ role: 'ESTIMATOR' }),
+    departmentIds: ['dept-estimating', 'dept-estimating-team'],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(estimatorContext);
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return datasetRouter.createCaller(ctx);
+  };
+
+  describe('list query', () => {
+    it('should return a page of the datasets in the user scope', async () => {
+      vi.mocked(datasetRepository.findAll).mockResolvedValueOnce([buildDataset({ _count: { files: 4 } })]);
+      vi.mocked(datasetRepository.count).mockResolvedValueOnce(21);
+
+      const result = await createCaller().list({ page: 2, pageSize: 20, search: '鋼材' });
+
+      expect(result).toMatchObject({ total: 21, page: 2, pageSize: 20 });
+      expect(result.datasets[0]).toMatchObject({ id: 'dataset-123', filesCount: 4 });
+      const scope = { userId: 'user-123', departmentIds: ['dept-estimating', 'dept-estimating-team'] };
+      expect(datasetRepository.findAll).toHaveBeenCalledWith({ scope, search: '鋼材', skip: 20, take: 20 });
+      expect(datasetRepository.count).toHaveBeenCalledWith({ scope, search: '鋼材' });
+    });
+
+    it('should narrow the list to the user own datasets', async () => {
+      vi.mocked(datasetRepository.findAll).mockResolvedValueOnce([]);
+      vi.mocked(datasetRepository.count).mockResolvedValueOnce(0);
+
+      await createCaller().list({ mine: true });
+
+      expect(datasetRepository.count).toHaveBeenCalledWith(expect.objectContaining({ ownerId: 'user-123' }));
+    });
+  });
+
+  describe('get query', () => {
+    it('should report datasets outside the scope as not found', async () => {
+      vi.mocked(datasetRepository.findById).mockResolvedValueOnce(null);
+
+      await expect(createCaller().get({ id: 'dataset-other' })).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+        message: DATASET_ERROR_MESSAGES.NOT_FOUND,
+      });
+    });
+  });
+
+  describe('create mutation', () => {
+    it('should create a dataset owned by the user and audit it', async () => {
+      vi.mocked(datasetRepository.create).mockResolvedValueOnce(
+        buildDataset({ visibility: 'DEPARTMENT', departmentId: 'dept-estimating-team', tags: ['鋼材'] })
+      );
+
+      const result = await createCaller().create({
+        name: ' 鋼材報價 ',
+        visibility: 'DEPARTMENT',
+        departmentId: 'dept-estimating-team',
+        tags: ['鋼材', '鋼材'],
+      });
+
+      expect(result.dataset).toMatchObject({ visibility: 'DEPARTMENT', departmentId: 'dept-estimating-team' });
+      expect(datasetRepository.create).toHaveBeenCalledWith({
+        name: '鋼材報價',
+        description: undefined,
+        ownerId: 'user-123',
+        departmentId: 'dept-estimating-team',
+        visibility: 'DEPARTMENT',
+        tags: ['鋼材'],
+      });
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AUDIT_ACTIONS.DATASET_CREATED, targetId: 'dataset-123' })
+      );
+    });
+
+    it('should require a department of the user to share with', async () => {
+      await expect(createCaller().create({ name: '共用', visibility: 'DEPARTMENT' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+      });
+      await expect(
+        createCaller().create({ name: '共用', visibility: 'DEPARTMENT', departmentId: 'dept-procurement' })
+      ).rejects.toMatchObject({ code: 'FORBIDDEN', message: DATASET_ERROR_MESSAGES.DEPARTMENT_NOT_ALLOWED });
+      expect(datasetRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should map a taken name to CONFLICT', async () => {
+      vi.mocked(datasetRepository.create).mockRejectedValueOnce(new Error(DATASET_ERROR_MESSAGES.NAME_TAKEN));
+
+      await expect(createCaller().create({ name: '鋼材報價' })).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('should not let viewers create datasets', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValueOnce(buildAuthContext({ role: 'VIEWER' }));
+
+      await expect(createCaller().create({ name: '鋼材報價' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('rename mutation', () => {
+    it('should rename the dataset and audit both names', async () => {
+      vi.mocked(datasetRepository.findById).mockResolvedValueOnce(buildDataset());
+      vi.mocked(datasetRepository.update).mockResolvedValueOnce(buildDataset({ name: '鋼材報價 2025' }));
+
+      const result = await createCaller().rename({ id: 'dataset-123', name: '鋼材報價 2025' });
+
+      expect(result.dataset.name).toBe('鋼材報價 2025');
+      expect(datasetRepository.update).toHaveBeenCalledWith('dataset-123', { name: '鋼材報價 2025' });
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AUDIT_ACTIONS.DATASET_RENAMED,
+          metadata: { previousName: '鋼材報價', name: '鋼材報價 2025' },
+        })
+      );
+    });
+
+    it('should not let department members change a dataset they do not own', async () => {
+      vi.mocked(datasetRepository.findById).mockResolvedValueOnce(
+        buildDataset({ ownerId: 'user-456', visibility: 'DEPARTMENT', departmentId: 'dept-estimating' })
+      );
+
+      await expect(createCaller().rename({ id: 'dataset-123', name: '改名' })).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+        message: DATASET_ERROR_MESSAGES.NOT_OWNER,
+      });
+      expect(datasetRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete mutation', () => {
+    it('should let administrators delete any dataset', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValueOnce(buildAuthContext({ id: 'admin-1', role: 'ADMIN' }));
+      vi.mocked(datasetRepository.findById).mockResolvedValueOnce(buildDataset({ _count: { files: 3 } }));
+
+      const result = await createCaller().delete({ id: 'dataset-123' });
+
+      expect(result).toEqual({ success: true, message: DATASET_ERROR_MESSAGES.DELETED });
+      expect(datasetRepository.findById).toHaveBeenCalledWith('dataset-123', { userId: 'admin-1', departmentIds: null });
+      expect(datasetRepository.delete).toHaveBeenCalledWith('dataset-123');
+      expect(FileUploadService.deleteDatasetFiles).toHaveBeenCalledWith(['dataset-123']);
+      expect(vi.mocked(FileUploadService.deleteDatasetFiles).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(datasetRepository.delete).mock.invocationCallOrder[0]
+      );
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AUDIT_ACTIONS.DATASET_DELETED,
+          metadata: { name: '鋼材報價', filesCount: 3 },
+        })
+      );
+    });
+
+    it('should report datasets outside the scope as not found', async () => {
+      vi.mocked(datasetRepository.findById).mockResolvedValueOnce(null);
+
+      await expect(createCaller().delete({ id: 'dataset-other' })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      expect(datasetRepository.delete).not.toHaveBeenCalled();
+      expect(FileUploadService.deleteDatasetFiles).not.toHaveBeenCalled();
+    });
+
+    it('should keep the dataset when its stored files cannot be deleted', async () => {
+      vi.mocked(datasetRepository.findById).mockResolvedValueOnce(buildDataset());
+      vi.mocked(FileUploadService.deleteDatasetFiles).mockRejectedValueOnce(new Error('storage unavailable'));
+
+      await expect(createCaller().delete({ id: 'dataset-123' })).rejects.toMatchObject({
+        code: 'INTERNAL_SERVER_ERROR',
+      });
+      expect(datasetRepository.delete).not.toHaveBeenCalled();
+      expect(AuditService.record).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { DatasetStatus, DatasetVisibility } from '@prisma/client';
+import { createTRPCRouter, requirePermission } from '../trpc';
+import {
+  datasetRepository,
+  type DatasetWithFileCount,
+} from '../../../lib/repositories/dataset.repository';
+import { AuditService } from '../../../lib/services/audit.service';
+import { FileUploadService } from '../../../lib/services/file-upload.service';
+import { getDataScope } from '../../../lib/auth/data-scope';
+import { PERMISSIONS } from '../../../lib/auth/permissions';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  DATASET_CONFIG,
+  DATASET_ERROR_MESSAGES,
+  ORGANIZATION_ERROR_MESSAGES,
+} from '../../../lib/auth/constants';
+import { getRequestMetadata } from '../middleware/request-metadata';
+import { findManageableDataset } from '../middleware/dataset-access';
+
+const readProcedure = requirePermission(PERMISSIONS.DATASETS_READ);
+const writeProcedure = requirePermission(PERMISSIONS.DATASETS_WRITE);
+
+const datasetNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(DATASET_CONFIG.NAME_MAX_LENGTH, `Name must be at most ${DATASET_CONFIG.NAME_MAX_LENGTH} characters`);
+
+const listDatasetsInputSchema = z.object({
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(DATASET_CONFIG.LIST_MAX_PAGE_SIZE).default(20),
+  search: z.string().trim().max(DATASET_CONFIG.NAME_MAX_LENGTH).optional(),
+  // Only the user's own datasets, leaving out those shared by their departments
+  mine: z.boolean().default(false),
+});
+
+const datasetIdInputSchema = z.object({
+  id: z.string().min(1),
+});
+
+const createDatasetInputSchema = z
+  .object({
+    name: datasetNameSchema,
+    description: z
+      .string()
+      .trim()
+      .max(DATASET_CONFIG.DESCRIPTION_MAX_LENGTH)
+      .transform((value) => value || null)
+      .optional(),
+    visibility: z.enum(DatasetVisibility).default(DatasetVisibility.PRIVATE),
+    departmentId: z.string().min(1).optional(),
+    tags: z
+      .array(z.string().trim().min(1).max(DATASET_CONFIG.TAG_MAX_LENGTH))
+      .max(DATASET_CONFIG.MAX_TAGS)
+      .default([])
+      .transform((tags) => [...new Set(tags)]),
+  })
+  .refine((input) => input.visibility !== DatasetVisibility.DEPARTMENT || input.departmentId, {
+    message: DATASET_ERROR_MESSAGES.DEPARTMENT_REQUIRED,
+    path: ['departmentId'],
+  });
+
+const renameDatasetInputSchema = z.object({
+  id: z.string().min(1),
+  name: datasetNameSchema,
+});
+
+const datasetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  ownerId: z.string(),
+  departmentId: z.string().nullable(),
+  visibility: z.enum(DatasetVisibility),
+  tags: z.array(z.string()),
+  status: z.enum(DatasetStatus),
+  filesCount: z.number(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const listDatasetsOutputSchema = z.object({
+  datasets: z.array(datasetSchema),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+});
+
+const getDatasetOutputSchema = z.object({
+  dataset: datasetSchema,
+});
+
+const datasetMutationOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  dataset: datasetSchema,
+});
+
+const deleteDatasetOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+function toDatasetOutput(dataset: DatasetWithFileCount) {
+  return {
+    id: dataset.id,
+    name: dataset.name,
+    description: dataset.description,
+    ownerId: dataset.ownerId,
+    departmentId: dataset.departmentId,
+    visibility: dataset.visibility,
+    tags: dataset.tags,
+    status: dataset.status,
+    filesCount: dataset._count.files,
+    createdAt: dataset.createdAt,
+    updatedAt: dataset.updatedAt,
+  };
+}
+
+/**
+ * Map DatasetRepository errors to tRPC errors
+ */
+function toTRPCError(error: unknown): TRPCError {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+
+  if (error instanceof Error) {
+    switch (error.message) {
+      case DATASET_ERROR_MESSAGES.NAME_TAKEN:
+        return new TRPCError({ code: 'CONFLICT', message: error.message });
+      case DATASET_ERROR_MESSAGES.NOT_FOUND:
+        return new TRPCError({ code: 'NOT_FOUND', message: error.message });
+      case ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND:
+        return new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+    }
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: DATASET_ERROR_MESSAGES.DATASET_ERROR,
+    cause: error,
+  });
+}
+
+/**
+ * Datasets: the document collections chat queries run against
+ * Everyone with datasets:read sees their own datasets and those their departments share;
+ * only the owner or an administrator can change a dataset
+ */
+export const datasetRouter = createTRPCRouter({
+  list: readProcedure
+    .input(listDatasetsInputSchema)
+    .output(listDatasetsOutputSchema)
+    .query(async ({ ctx, input }) => {
+      const { page, pageSize, search, mine } = input;
+
+      const filter = {
+        scope: getDataScope(ctx.auth),
+        search: search || undefined,
+        ...(mine && { ownerId: ctx.auth.userId }),
+      };
+
+      try {
+        const [datasets, total] = await Promise.all([
+          datasetRepository.findAll({
+            ...filter,
+            skip: (page - 1) * pageSize,
+            take: pageSize,
+          }),
+          datasetRepository.count(filter),
+        ]);
+
+        return {
+          datasets: datasets.map(toDatasetOutput),
+          total,
+          page,
+          pageSize,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  get: readProcedure
+    .input(datasetIdInputSchema)
+    .output(getDatasetOutputSchema)
+    .query(async ({ ctx, input }) => {
+      let dataset: DatasetWithFileCount | null;
+      try {
+        dataset = await datasetRepository.findById(input.id, getDataScope(ctx.auth));
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+
+      if (!dataset) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: DATASET_ERROR_MESSAGES.NOT_FOUND,
+        });
+      }
+
+      return { dataset: toDatasetOutput(dataset) };
+    }),
+
+  /**
+   * Create a dataset owned by the user
+   * It can only be shared with a department the user belongs to, or a team under it
+   */
+  create: writeProcedure
+    .input(createDatasetInputSchema)
+    .output(datasetMutationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { departmentIds } = getDataScope(ctx.auth);
+      if (input.departmentId && departmentIds !== null && !departmentIds.includes(input.departmentId)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: DATASET_ERROR_MESSAGES.DEPARTMENT_NOT_ALLOWED,
+        });
+      }
+
+      try {
+        const dataset = await datasetRepository.create({
+          name: input.name,
+          description: input.description,
+          ownerId: ctx.auth.userId,
+          departmentId: input.departmentId,
+          visibility: input.visibility,
+          tags: input.tags,
+        });
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.DATASET_CREATED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.DATASET,
+          targetId: dataset.id,
+          ...getRequestMetadata(ctx.req),
+          metadata: { name: dataset.name, visibility: dataset.visibility, departmentId: dataset.departmentId },
+        });
+
+        return {
+          success: true,
+          message: DATASET_ERROR_MESSAGES.CREATED,
+          dataset: toDatasetOutput(dataset),
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  rename: writeProcedure
+    .input(renameDatasetInputSchema)
+    .output(datasetMutationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const existing = await findManageableDataset(ctx.auth, input.id);
+        const dataset = await datasetRepository.update(existing.id, { name: input.name });
+
+        if (dataset.name !== existing.name) {
+          await AuditService.record({
+            action: AUDIT_ACTIONS.DATASET_RENAMED,
+            actor: ctx.auth.user,
+            targetType: AUDIT_TARGET_TYPES.DATASET,
+            targetId: dataset.id,
+            ...getRequestMetadata(ctx.req),
+            metadata: { previousName: existing.name, name: dataset.name },
+          });
+        }
+
+        return {
+          success: true,
+          message: DATASET_ERROR_MESSAGES.RENAMED,
+          dataset: toDatasetOutput(dataset),
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Delete a dataset with all of its files, including their stored content
+   */
+  delete: writeProcedure
+    .input(datasetIdInputSchema)
+    .output(deleteDatasetOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const dataset = await findManageableDataset(ctx.auth, input.id);
+        // Files first, so a storage failure leaves the dataset in place to delete again
+        await FileUploadService.deleteDatasetFiles([dataset.id]);
+        await datasetRepository.delete(dataset.id);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.DATASET_DELETED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.DATASET,
+          targetId: dataset.id,
+          ...getRequestMetadata(ctx.req),
+          metadata: { name: dataset.name, filesCount: dataset._count.files },
+        });
+
+        return {
+          success: true,
+          message: DATASET_ERROR_MESSAGES.DELETED,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+});
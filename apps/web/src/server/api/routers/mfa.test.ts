@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mfaRouter } from './mfa';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { MfaService } from '../../../lib/services/mfa.service';
+import { MFA_ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { buildAuthContext } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/services/mfa.service', () => ({
+  MfaService: {
+    getStatus: vi.fn(),
+    beginEnrollment: vi.fn(),
+    confirmEnrollment: vi.fn(),
+    disable: vi.fn(),
+    regenerateRecoveryCodes: vi.fn(),
+  },
+}));
+
+describe('MfaRouter', () => {
+  const authContext = buildAuthContext();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(authContext);
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return mfaRouter.createCaller(ctx);
+  };
+
+  it('should report the status of the signed-in user', async () => {
+    vi.mocked(MfaService.getStatus).mockResolvedValue({ enabled: false, enabledAt: null, recoveryCodesRemaining: 0 });
+
+    const caller = createCaller();
+    const result = await caller.status();
+
+    expect(result.enabled).toBe(false);
+    expect(MfaService.getStatus).toHaveBeenCalledWith(authContext.user);
+  });
+
+  it('should return the secret and otpauth URI when enrollment starts', async () => {
+    vi.mocked(MfaService.beginEnrollment).mockResolvedValue({
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUri: 'otpauth://totp/test',
+    });
+
+    const caller = createCaller();
+    const result = await caller.beginEnrollment();
+
+    expect(result).toEqual({
+      success: true,
+      message: MFA_ERROR_MESSAGES.ENROLLMENT_STARTED,
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUri: 'otpauth://totp/test',
+    });
+  });
+
+  it('should return recovery codes when enrollment is confirmed', async () => {
+    vi.mocked(MfaService.confirmEnrollment).mockResolvedValue(['AAAA-BBBB-CCCC-DDDD']);
+
+    const caller = createCaller();
+    const result = await caller.confirmEnrollment({ code: ' 123456 ' });
+
+    expect(result.recoveryCodes).toEqual(['AAAA-BBBB-CCCC-DDDD']);
+    expect(MfaService.confirmEnrollment).toHaveBeenCalledWith(authContext.user, '123456');
+  });
+
+  it('should map invalid codes to BAD_REQUEST', async () => {
+    vi.mocked(MfaService.disable).mockRejectedValue(new Error(MFA_ERROR_MESSAGES.CODE_INVALID));
+
+    const caller = createCaller();
+
+    await expect(caller.disable({ code: '000000' })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: MFA_ERROR_MESSAGES.CODE_INVALID,
+    });
+  });
+
+  it('should wrap unexpected errors', async () => {
+    vi.mocked(MfaService.regenerateRecoveryCodes).mockRejectedValue(new Error(MFA_ERROR_MESSAGES.ENCRYPTION_KEY_MISSING));
+
+    const caller = createCaller();
+
+    await expect(caller.regenerateRecoveryCodes({ code: '123456' })).rejects.toMatchObject({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: MFA_ERROR_MESSAGES.MFA_ERROR,
+    });
+  });
+});
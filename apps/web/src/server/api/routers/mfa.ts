@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { createTRPCRouter, protectedProcedure, sessionProcedure, rateLimit } from '../trpc';
+import { MfaService } from '../../../lib/services/mfa.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import {
+  MFA_ERROR_MESSAGES,
+  RATE_LIMITS,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+} from '../../../lib/auth/constants';
+import { getRequestMetadata } from '../middleware/request-metadata';
+
+const codeInputSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, MFA_ERROR_MESSAGES.CODE_INVALID)
+    .max(32, MFA_ERROR_MESSAGES.CODE_INVALID),
+});
+
+const statusOutputSchema = z.object({
+  enabled: z.boolean(),
+  enabledAt: z.date().nullable(),
+  recoveryCodesRemaining: z.number(),
+});
+
+const beginEnrollmentOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  secret: z.string(),
+  otpauthUri: z.string(),
+});
+
+const recoveryCodesOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  recoveryCodes: z.array(z.string()),
+});
+
+const mfaMutationOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+// Errors caused by the request rather than the server
+const CLIENT_ERROR_MESSAGES: string[] = [
+  MFA_ERROR_MESSAGES.ALREADY_ENABLED,
+  MFA_ERROR_MESSAGES.NOT_ENABLED,
+  MFA_ERROR_MESSAGES.ENROLLMENT_NOT_STARTED,
+  MFA_ERROR_MESSAGES.CODE_INVALID,
+];
+
+/**
+ * Map MfaService errors to tRPC errors
+ */
+function toTRPCError(error: unknown): TRPCError {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+
+  if (error instanceof Error && CLIENT_ERROR_MESSAGES.includes(error.message)) {
+    return new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error.message,
+    });
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: MFA_ERROR_MESSAGES.MFA_ERROR,
+    cause: error,
+  });
+}
+
+/**
+ * TOTP two-factor authentication settings for the signed-in user
+ */
+export const mfaRouter = createTRPCRouter({
+  status: protectedProcedure
+    .output(statusOutputSchema)
+    .query(async ({ ctx }) => {
+      try {
+        return await MfaService.getStatus(ctx.auth.user);
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Generate a secret and otpauth URI for the authenticator app
+   * Calling it again before confirming replaces the pending secret
+   */
+  beginEnrollment: sessionProcedure
+    .output(beginEnrollmentOutputSchema)
+    .mutation(async ({ ctx }) => {
+      try {
+        const enrollment = await MfaService.beginEnrollment(ctx.auth.user);
+
+        return {
+          success: true,
+          message: MFA_ERROR_MESSAGES.ENROLLMENT_STARTED,
+          ...enrollment,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Enable 2FA with the first code from the app and return the recovery codes
+   */
+  confirmEnrollment: sessionProcedure
+    .use(rateLimit(RATE_LIMITS.MANAGE_MFA))
+    .input(codeInputSchema)
+    .output(recoveryCodesOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const recoveryCodes = await MfaService.confirmEnrollment(ctx.auth.user, input.code);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.MFA_ENABLED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: ctx.auth.userId,
+          ...getRequestMetadata(ctx.req),
+        });
+
+        return {
+          success: true,
+          message: MFA_ERROR_MESSAGES.ENABLED,
+          recoveryCodes,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  disable: sessionProcedure
+    .use(rateLimit(RATE_LIMITS.MANAGE_MFA))
+    .input(codeInputSchema)
+    .output(mfaMutationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await MfaService.disable(ctx.auth.user, input.code);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.MFA_DISABLED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: ctx.auth.userId,
+          ...getRequestMetadata(ctx.req),
+        });
+
+        return {
+          success: true,
+          message: MFA_ERROR_MESSAGES.DISABLED,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  regenerateRecoveryCodes: sessionProcedure
+    .use(rateLimit(RATE_LIMITS.MANAGE_MFA))
+    .input(codeInputSchema)
+    .output(recoveryCodesOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const recoveryCodes = await MfaService.regenerateRecoveryCodes(ctx.auth.user, input.code);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.MFA_RECOVERY_CODES_REGENERATED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: ctx.auth.userId,
+          ...getRequestMetadata(ctx.req),
+        });
+
+        return {
+          success: true,
+          message: MFA_ERROR_MESSAGES.RECOVERY_CODES_REGENERATED,
+          recoveryCodes,
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Department } from '@prisma/client';
+import { organizationsRouter } from './organizations';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { OrganizationService } from '../../../lib/services/organization.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { AUDIT_ACTIONS, ORGANIZATION_ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { buildAuthContext } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/services/organization.service', () => ({
+  OrganizationService: {
+    createOrganization: vi.fn(),
+    createDepartment: vi.fn(),
+    setUserDepartments: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+describe('OrganizationsRouter', () => {
+  const adminContext = buildAuthContext({ id: 'admin-1', role: 'ADMIN' });
+
+  const department: Department = {
+    id: 'dept-1',
+    organizationId: 'org-1',
+    parentId: null,
+    name: 'Research',
+    code: 'RND',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(adminContext);
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return organizationsRouter.createCaller(ctx);
+  };
+
+  it('should reject non-admin users', async () => {
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'ESTIMATOR' }));
+
+    await expect(createCaller().createDepartment({ organizationId: 'org-1', name: 'Research', code: 'rnd' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(OrganizationService.createDepartment).not.toHaveBeenCalled();
+  });
+
+  it('should create a department with an upper-case code and audit it', async () => {
+    vi.mocked(OrganizationService.createDepartment).mockResolvedValue(department);
+
+    const result = await createCaller().createDepartment({ organizationId: 'org-1', name: 'Research', code: 'rnd' });
+
+    expect(result.department).toMatchObject({ id: 'dept-1', code: 'RND' });
+    expect(OrganizationService.createDepartment).toHaveBeenCalledWith({
+      organizationId: 'org-1',
+      name: 'Research',
+      code: 'RND',
+    });
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AUDIT_ACTIONS.ADMIN_DEPARTMENT_CREATED, targetId: 'dept-1' })
+    );
+  });
+
+  it('should map service errors', async () => {
+    vi.mocked(OrganizationService.createOrganization).mockRejectedValue(
+      new Error(ORGANIZATION_ERROR_MESSAGES.SLUG_TAKEN)
+    );
+    await expect(createCaller().create({ name: 'Acme', slug: 'acme' })).rejects.toMatchObject({ code: 'CONFLICT' });
+
+    vi.mocked(OrganizationService.createDepartment).mockRejectedValue(
+      new Error(ORGANIZATION_ERROR_MESSAGES.PARENT_IN_OTHER_ORGANIZATION)
+    );
+    await expect(
+      createCaller().createDepartment({ organizationId: 'org-1', parentId: 'dept-9', name: 'Models', code: 'ML' })
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+  });
+
+  it('should default memberships to MEMBER and audit the change on the user', async () => {
+    vi.mocked(OrganizationService.setUserDepartments).mockResolvedValue([
+      {
+        id: 'membership-1',
+        userId: 'user-123',
+        departmentId: 'dept-1',
+        role: 'MEMBER',
+        createdAt: new Date('2025-01-01'),
+        department,
+      },
+    ]);
+
+    const result = await createCaller().setUserDepartments({
+      userId: 'user-123',
+      memberships: [{ departmentId: 'dept-1' }],
+    });
+
+    expect(result.memberships).toEqual([
+      expect.objectContaining({ departmentId: 'dept-1', role: 'MEMBER' }),
+    ]);
+    expect(OrganizationService.setUserDepartments).toHaveBeenCalledWith('user-123', [
+      { departmentId: 'dept-1', role: 'MEMBER' },
+    ]);
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AUDIT_ACTIONS.ADMIN_USER_DEPARTMENTS_CHANGED, targetId: 'user-123' })
+    );
+  });
+});
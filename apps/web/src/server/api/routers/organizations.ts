@@ -0,0 +1,274 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { Department, DepartmentRole } from '@prisma/client';
+import { createTRPCRouter, adminProcedure } from '../trpc';
+import { OrganizationService } from '../../../lib/services/organization.service';
+import { organizationRepository } from '../../../lib/repositories/organization.repository';
+import { AuditService, type AuditEventInput } from '../../../lib/services/audit.service';
+import {
+  ADMIN_ERROR_MESSAGES,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  ERROR_MESSAGES,
+  ORGANIZATION_ERROR_MESSAGES,
+} from '../../../lib/auth/constants';
+import type { AuthenticatedContext } from '../middleware/auth';
+import { getRequestMetadata } from '../middleware/request-metadata';
+
+const nameSchema = z.string().trim().min(1, 'Name is required').max(100, 'Name must be at most 100 characters');
+
+const createOrganizationInputSchema = z.object({
+  name: nameSchema,
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain letters, digits and single hyphens')
+    .max(50),
+});
+
+const createDepartmentInputSchema = z.object({
+  organizationId: z.string().min(1),
+  // Set to create a team under an existing department
+  parentId: z.string().min(1).optional(),
+  name: nameSchema,
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9_-]+$/, 'Code may only contain letters, digits, hyphens and underscores')
+    .max(30),
+});
+
+const setUserDepartmentsInputSchema = z.object({
+  userId: z.string().min(1),
+  memberships: z.array(
+    z.object({
+      departmentId: z.string().min(1),
+      role: z.enum(DepartmentRole).default(DepartmentRole.MEMBER),
+    })
+  ),
+});
+
+const departmentSchema = z.object({
+  id: z.string(),
+  organizationId: z.string(),
+  parentId: z.string().nullable(),
+  name: z.string(),
+  code: z.string(),
+  createdAt: z.date(),
+});
+
+const organizationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  createdAt: z.date(),
+});
+
+const listOrganizationsOutputSchema = z.array(
+  organizationSchema.extend({
+    departments: z.array(departmentSchema),
+  })
+);
+
+const createOrganizationOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  organization: organizationSchema,
+});
+
+const createDepartmentOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  department: departmentSchema,
+});
+
+const setUserDepartmentsOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  memberships: z.array(
+    z.object({
+      departmentId: z.string(),
+      role: z.enum(DepartmentRole),
+      department: departmentSchema,
+    })
+  ),
+});
+
+function toDepartmentOutput(department: Department): z.infer<typeof departmentSchema> {
+  return {
+    id: department.id,
+    organizationId: department.organizationId,
+    parentId: department.parentId,
+    name: department.name,
+    code: department.code,
+    createdAt: department.createdAt,
+  };
+}
+
+/**
+ * Map OrganizationService errors to tRPC errors
+ */
+function toTRPCError(error: unknown): TRPCError {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+
+  if (error instanceof Error) {
+    switch (error.message) {
+      case ORGANIZATION_ERROR_MESSAGES.ORGANIZATION_NOT_FOUND:
+      case ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_NOT_FOUND:
+      case ERROR_MESSAGES.USER_NOT_FOUND:
+        return new TRPCError({ code: 'NOT_FOUND', message: error.message });
+      case ORGANIZATION_ERROR_MESSAGES.SLUG_TAKEN:
+      case ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_CODE_TAKEN:
+        return new TRPCError({ code: 'CONFLICT', message: error.message });
+      case ORGANIZATION_ERROR_MESSAGES.PARENT_IN_OTHER_ORGANIZATION:
+        return new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+    }
+  }
+
+  return new TRPCError({
+    code: 'INTERNAL_SERVER_ERROR',
+    message: ADMIN_ERROR_MESSAGES.ADMIN_ERROR,
+    cause: error,
+  });
+}
+
+async function recordOrganizationAction(
+  ctx: { req?: Request; auth: AuthenticatedContext },
+  action: AuditEventInput['action'],
+  targetType: AuditEventInput['targetType'],
+  targetId: string,
+  metadata?: AuditEventInput['metadata']
+): Promise<void> {
+  await AuditService.record({
+    action,
+    actor: ctx.auth.user,
+    targetType,
+    targetId,
+    ...getRequestMetadata(ctx.req),
+    metadata,
+  });
+}
+
+/**
+ * Organizations, their departments and teams, and who belongs to them
+ * Memberships decide which department data a user can see, see getDataScope
+ */
+export const organizationsRouter = createTRPCRouter({
+  list: adminProcedure
+    .output(listOrganizationsOutputSchema)
+    .query(async () => {
+      try {
+        const organizations = await organizationRepository.findAllWithDepartments();
+
+        return organizations.map((organization) => ({
+          id: organization.id,
+          name: organization.name,
+          slug: organization.slug,
+          createdAt: organization.createdAt,
+          departments: organization.departments.map(toDepartmentOutput),
+        }));
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  create: adminProcedure
+    .input(createOrganizationInputSchema)
+    .output(createOrganizationOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const organization = await OrganizationService.createOrganization(input);
+
+        await recordOrganizationAction(
+          ctx,
+          AUDIT_ACTIONS.ADMIN_ORGANIZATION_CREATED,
+          AUDIT_TARGET_TYPES.ORGANIZATION,
+          organization.id,
+          { slug: organization.slug }
+        );
+
+        return {
+          success: true,
+          message: ORGANIZATION_ERROR_MESSAGES.ORGANIZATION_CREATED,
+          organization: {
+            id: organization.id,
+            name: organization.name,
+            slug: organization.slug,
+            createdAt: organization.createdAt,
+          },
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Create a department, or a team when parentId is given
+   */
+  createDepartment: adminProcedure
+    .input(createDepartmentInputSchema)
+    .output(createDepartmentOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const department = await OrganizationService.createDepartment(input);
+
+        await recordOrganizationAction(
+          ctx,
+          AUDIT_ACTIONS.ADMIN_DEPARTMENT_CREATED,
+          AUDIT_TARGET_TYPES.DEPARTMENT,
+          department.id,
+          { organizationId: department.organizationId, parentId: department.parentId, code: department.code }
+        );
+
+        return {
+          success: true,
+          message: ORGANIZATION_ERROR_MESSAGES.DEPARTMENT_CREATED,
+          department: toDepartmentOutput(department),
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+
+  /**
+   * Replace a user's department memberships
+   * Takes effect on the user's next request since memberships are read per request
+   */
+  setUserDepartments: adminProcedure
+    .input(setUserDepartmentsInputSchema)
+    .output(setUserDepartmentsOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const memberships = await OrganizationService.setUserDepartments(input.userId, input.memberships);
+
+        await recordOrganizationAction(
+          ctx,
+          AUDIT_ACTIONS.ADMIN_USER_DEPARTMENTS_CHANGED,
+          AUDIT_TARGET_TYPES.USER,
+          input.userId,
+          {
+            memberships: memberships.map((membership) => ({
+              departmentId: membership.departmentId,
+              role: membership.role,
+            })),
+          }
+        );
+
+        return {
+          success: true,
+          message: ORGANIZATION_ERROR_MESSAGES.MEMBERSHIPS_UPDATED,
+          memberships: memberships.map((membership) => ({
+            departmentId: membership.departmentId,
+            role: membership.role,
+            department: toDepartmentOutput(membership.department),
+          })),
+        };
+      } catch (error) {
+        throw toTRPCError(error);
+      }
+    }),
+});
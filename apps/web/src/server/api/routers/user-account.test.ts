@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { userRouter } from './user';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { AccountDeletionService } from '../../../lib/services/account-deletion.service';
+import { DataExportService, type PersonalDataExport } from '../../../lib/services/data-export.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { AUDIT_ACTIONS, AUTH_COOKIE_CONFIG } from '../../../lib/auth/constants';
+import { buildAuthContext, buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/services/account-deletion.service', () => ({
+  AccountDeletionService: {
+    scheduleDeletion: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/data-export.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../lib/services/data-export.service')>();
+  return {
+    DataExportService: {
+      collect: vi.fn(),
+      toJson: actual.DataExportService.toJson,
+      toZip: actual.DataExportService.toZip,
+    },
+  };
+});
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+describe('UserRouter account', () => {
+  const authContext = buildAuthContext();
+
+  const exportData: PersonalDataExport = {
+    exportedAt: '2025-03-01T08:00:00.000Z',
+    profile: {
+      id: 'user-123',
+      email: 'test@example.com',
+      role: 'VIEWER',
+      emailVerifiedAt: null,
+      passwordChangedAt: null,
+      twoFactorEnabled: false,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    },
+    departments: [],
+    identities: [],
+    apiKeys: [],
+    sessions: [],
+    activity: [],
+    chatQueries: [],
+    datasets: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(authContext);
+    vi.mocked(DataExportService.collect).mockResolvedValue(exportData);
+  });
+
+  const createCaller = (resHeaders?: Headers) => {
+    const ctx = { req: undefined, resHeaders };
+    return userRouter.createCaller(ctx);
+  };
+
+  it('should schedule the account for deletion and clear the auth cookies', async () => {
+    const purgeAfter = new Date('2025-04-01');
+    vi.mocked(AccountDeletionService.scheduleDeletion).mockResolvedValue({
+      user: buildUser({ isActive: false, deletedAt: new Date('2025-03-02') }),
+      purgeAfter,
+    });
+    const resHeaders = new Headers();
+
+    const result = await createCaller(resHeaders).deleteAccount();
+
+    expect(result.purgeAfter).toEqual(purgeAfter);
+    expect(AccountDeletionService.scheduleDeletion).toHaveBeenCalledWith('user-123');
+    expect(resHeaders.getSetCookie().join('\n')).toContain(`${AUTH_COOKIE_CONFIG.ACCESS_TOKEN_NAME}=;`);
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AUDIT_ACTIONS.ACCOUNT_DELETED, targetId: 'user-123' })
+    );
+  });
+
+  it('should export the data as JSON by default', async () => {
+    const result = await createCaller().exportMyData({});
+
+    expect(result).toMatchObject({ filename: 'my-data-2025-03-01.json', encoding: 'utf8' });
+    expect(JSON.parse(result.content)).toEqual(exportData);
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AUDIT_ACTIONS.DATA_EXPORTED, metadata: { format: 'json' } })
+    );
+  });
+
+  it('should export the data as a base64 ZIP archive', async () => {
+    const result = await createCaller().exportMyData({ format: 'zip' });
+
+    expect(result).toMatchObject({ filename: 'my-data-2025-03-01.zip', mimeType: 'application/zip', encoding: 'base64' });
+    const files = unzipSync(new Uint8Array(Buffer.from(result.content, 'base64')));
+    expect(JSON.parse(strFromU8(files['profile.json']))).toEqual(exportData.profile);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { userRouter } from './user';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { userRepository } from '../../../lib/repositories/user.repository';
+import { datasetRepository } from '../../../lib/repositories/dataset.repository';
+import { AuditService } from '../../../lib/services/audit.service';
+import { EmailVerificationService } from '../../../lib/services/email-verification.service';
+import { PasswordUtils } from '../../../lib/auth/password';
+import { AUDIT_ACTIONS, DATASET_ERROR_MESSAGES, ERROR_MESSAGES } from '../../../lib/auth/constants';
+import { buildAuthContext, buildUser } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/repositories/user.repository', () => ({
+  userRepository: {
+    findById: vi.fn(),
+    findByEmail: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/repositories/dataset.repository', () => ({
+  datasetRepository: {
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/services/email-verification.service', () => ({
+  EmailVerificationService: {
+    requestEmailChange: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/auth/password', () => ({
+  PasswordUtils: {
+    verify: vi.fn(),
+  },
+}));
+
+describe('UserRouter profile', () => {
+  const authContext = buildAuthContext();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(authContext);
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return userRouter.createCaller(ctx);
+  };
+
+  it('should return the full profile without secrets', async () => {
+    const result = await createCaller().getProfile();
+
+    expect(result.user).toMatchObject({
+      id: 'user-123',
+      locale: 'zh-TW',
+      timezone: 'Asia/Taipei',
+      displayNameZh: null,
+      departments: [],
+    });
+    expect(result.user).not.toHaveProperty('passwordHash');
+    expect(result.user).not.toHaveProperty('totpSecret');
+  });
+
+  it('should normalize the input and audit the changed fields', async () => {
+    vi.mocked(userRepository.update).mockResolvedValueOnce(
+      buildUser({ displayNameZh: '王小明', employeeId: 'E-001', locale: 'en-US' })
+    );
+
+    const result = await createCaller().updateProfile({
+      displayNameZh: ' 王小明 ',
+      employeeId: 'e-001',
+      phone: '',
+      locale: 'en-US',
+    });
+
+    expect(userRepository.update).toHaveBeenCalledWith('user-123', {
+      displayNameZh: '王小明',
+      employeeId: 'E-001',
+      phone: null,
+      locale: 'en-US',
+    });
+    expect(result.user.employeeId).toBe('E-001');
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: AUDIT_ACTIONS.PROFILE_UPDATED,
+        metadata: { fields: ['displayNameZh', 'employeeId', 'locale'] },
+      })
+    );
+  });
+
+  it('should reject an unknown time zone or malformed phone number', async () => {
+    await expect(createCaller().updateProfile({ timezone: 'Mars/Olympus' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    await expect(createCaller().updateProfile({ phone: 'call me' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should only accept a default dataset the user can see', async () => {
+    vi.mocked(datasetRepository.findById).mockResolvedValueOnce(null);
+
+    await expect(createCaller().updateProfile({ defaultDatasetId: 'dataset-other' })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+      message: DATASET_ERROR_MESSAGES.NOT_FOUND,
+    });
+    expect(datasetRepository.findById).toHaveBeenCalledWith('dataset-other', {
+      userId: 'user-123',
+      departmentIds: [],
+    });
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should map a taken employee ID to CONFLICT', async () => {
+    vi.mocked(userRepository.update).mockRejectedValueOnce(new Error(ERROR_MESSAGES.EMPLOYEE_ID_IN_USE));
+
+    const error = await createCaller().updateProfile({ employeeId: 'E001' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error).toMatchObject({ code: 'CONFLICT', message: ERROR_MESSAGES.EMPLOYEE_ID_IN_USE });
+    expect(AuditService.record).not.toHaveBeenCalled();
+  });
+
+  describe('email change', () => {
+    beforeEach(() => {
+      vi.mocked(userRepository.findById).mockResolvedValue(buildUser());
+      vi.mocked(userRepository.findByEmail).mockResolvedValue(null);
+      vi.mocked(userRepository.update).mockResolvedValue(buildUser());
+      vi.mocked(PasswordUtils.verify).mockResolvedValue(true);
+    });
+
+    it('should require the current password', async () => {
+      await expect(createCaller().updateProfile({ email: 'new@example.com' })).rejects.toMatchObject({
+        code: 'BAD_REQUEST',
+        message: ERROR_MESSAGES.EMAIL_CHANGE_PASSWORD_REQUIRED,
+      });
+      expect(userRepository.update).not.toHaveBeenCalled();
+      expect(EmailVerificationService.requestEmailChange).not.toHaveBeenCalled();
+    });
+
+    it('should reject a wrong current password', async () => {
+      vi.mocked(PasswordUtils.verify).mockResolvedValueOnce(false);
+
+      await expect(
+        createCaller().updateProfile({ email: 'new@example.com', currentPassword: 'wrong' })
+      ).rejects.toMatchObject({ code: 'BAD_REQUEST', message: ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT });
+      expect(PasswordUtils.verify).toHaveBeenCalledWith('wrong', 'hashed-password');
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the current email until the new one is confirmed', async () => {
+      const result = await createCaller().updateProfile({
+        email: 'New@Example.com',
+        currentPassword: 'Password123!',
+        displayNameZh: '王小明',
+      });
+
+      expect(userRepository.update).toHaveBeenCalledWith('user-123', { displayNameZh: '王小明' });
+      expect(EmailVerificationService.requestEmailChange).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'user-123' }),
+        'new@example.com'
+      );
+      expect(result.message).toBe(ERROR_MESSAGES.EMAIL_CHANGE_REQUESTED);
+      expect(result.user.email).toBe('test@example.com');
+      expect(AuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AUDIT_ACTIONS.EMAIL_CHANGE_REQUESTED,
+          metadata: { newEmail: 'new@example.com' },
+        })
+      );
+      expect(AuditService.record).not.toHaveBeenCalledWith(
+        expect.objectContaining({ action: AUDIT_ACTIONS.EMAIL_CHANGED })
+      );
+    });
+
+    it('should not ask for a password when the email is unchanged', async () => {
+      const result = await createCaller().updateProfile({ email: 'test@example.com' });
+
+      expect(result.message).toBe(ERROR_MESSAGES.PROFILE_UPDATED);
+      expect(PasswordUtils.verify).not.toHaveBeenCalled();
+      expect(EmailVerificationService.requestEmailChange).not.toHaveBeenCalled();
+    });
+
+    it('should reject an email another account uses', async () => {
+      vi.mocked(userRepository.findByEmail).mockResolvedValueOnce(buildUser({ id: 'user-456' }));
+
+      await expect(
+        createCaller().updateProfile({ email: 'taken@example.com', currentPassword: 'Password123!' })
+      ).rejects.toMatchObject({ code: 'CONFLICT', message: ERROR_MESSAGES.EMAIL_IN_USE });
+      expect(EmailVerificationService.requestEmailChange).not.toHaveBeenCalled();
+    });
+  });
+});
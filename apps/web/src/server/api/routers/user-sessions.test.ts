@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AuditEvent, Session } from '@prisma/client';
+import { userRouter } from './user';
+import { createAuthenticatedContext } from '../middleware/auth';
+import { SessionService, SESSION_ERROR_MESSAGES } from '../../../lib/services/session.service';
+import { AuditService } from '../../../lib/services/audit.service';
+import { AUDIT_ACTIONS } from '../../../lib/auth/constants';
+import { buildAuthContext } from '../../../test/factories';
+
+// Mock the dependencies
+vi.mock('../middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+vi.mock('../../../lib/services/session.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../lib/services/session.service')>();
+  return {
+    ...actual,
+    SessionService: {
+      listActiveSessions: vi.fn(),
+      revokeUserSession: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../../lib/services/audit.service', () => ({
+  AuditService: {
+    record: vi.fn(),
+    listLoginHistory: vi.fn(),
+  },
+}));
+
+describe('UserRouter sessions', () => {
+  const authContext = buildAuthContext();
+
+  const buildSession = (overrides: Partial<Session> = {}): Session => ({
+    id: 'session-123',
+    userId: authContext.userId,
+    refreshTokenHash: 'stored-hash',
+    previousTokenHash: null,
+    rotatedAt: null,
+    userAgent: 'Mozilla/5.0',
+    ipAddress: '10.0.0.1',
+    createdAt: new Date('2025-01-01'),
+    lastSeenAt: new Date('2025-01-02'),
+    expiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+    revokedReason: null,
+    impersonatorId: null,
+    updatedAt: new Date('2025-01-02'),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createAuthenticatedContext).mockResolvedValue(authContext);
+  });
+
+  const createCaller = () => {
+    const ctx = { req: undefined, resHeaders: undefined };
+    return userRouter.createCaller(ctx);
+  };
+
+  it('should flag the session making the request', async () => {
+    vi.mocked(SessionService.listActiveSessions).mockResolvedValue([
+      buildSession(),
+      buildSession({ id: 'session-456' }),
+    ]);
+
+    const sessions = await createCaller().sessions();
+
+    expect(sessions.map((session) => [session.id, session.current])).toEqual([
+      ['session-123', true],
+      ['session-456', false],
+    ]);
+    expect(sessions[0]).not.toHaveProperty('refreshTokenHash');
+  });
+
+  it('should revoke another session and audit it', async () => {
+    await createCaller().revokeSession({ sessionId: 'session-456' });
+
+    expect(SessionService.revokeUserSession).toHaveBeenCalledWith(authContext.userId, 'session-456', 'session-123');
+    expect(AuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AUDIT_ACTIONS.SESSION_REVOKED, targetId: 'session-456' })
+    );
+  });
+
+  it('should map revoke errors', async () => {
+    vi.mocked(SessionService.revokeUserSession).mockRejectedValueOnce(
+      new Error(SESSION_ERROR_MESSAGES.SESSION_NOT_FOUND)
+    );
+    await expect(createCaller().revokeSession({ sessionId: 'session-456' })).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+
+    vi.mocked(SessionService.revokeUserSession).mockRejectedValueOnce(
+      new Error(SESSION_ERROR_MESSAGES.CANNOT_REVOKE_CURRENT_SESSION)
+    );
+    await expect(createCaller().revokeSession({ sessionId: 'session-123' })).rejects.toMatchObject({
+      code: 'BAD_REQUEST',
+    });
+    expect(AuditService.record).not.toHaveBeenCalled();
+  });
+
+  it('should refuse API keys', async () => {
+    vi.mocked(createAuthenticatedContext).mockResolvedValue({
+      ...authContext,
+      sessionId: null,
+      apiKeyId: 'key-1',
+    });
+
+    await expect(createCaller().sessions()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should return login history without metadata', async () => {
+    const event: AuditEvent = {
+      id: 'event-1',
+      actorId: authContext.userId,
+      actorEmail: 'test@example.com',
+      action: AUDIT_ACTIONS.LOGIN_SUCCEEDED,
+      targetType: 'session',
+      targetId: 'session-123',
+      ipAddress: '10.0.0.1',
+      userAgent: 'Mozilla/5.0',
+      metadata: { method: 'password' },
+      impersonatorId: null,
+      createdAt: new Date('2025-01-01'),
+    };
+    vi.mocked(AuditService.listLoginHistory).mockResolvedValue([event]);
+
+    const history = await createCaller().loginHistory();
+
+    expect(history).toEqual([
+      {
+        id: 'event-1',
+        action: AUDIT_ACTIONS.LOGIN_SUCCEEDED,
+        ipAddress: '10.0.0.1',
+        userAgent: 'Mozilla/5.0',
+        createdAt: event.createdAt,
+      },
+    ]);
+  });
+});
@@ -1,145 +1,635 @@
 import { z } from 'zod';
-import { createTRPCRouter, protectedProcedure } from '../trpc';
+import { createTRPCRouter, protectedProcedure, sessionProcedure, rateLimit } from '../trpc';
 import { userRepository } from '../../../lib/repositories/user.repository';
+import { datasetRepository } from '../../../lib/repositories/dataset.repository';
 import { TRPCError } from '@trpc/server';
+import { apiKeysRouter } from './api-keys';
+import { AuditService } from '../../../lib/services/audit.service';
+import { PasswordService } from '../../../lib/services/password.service';
+import { SessionService, SESSION_ERROR_MESSAGES } from '../../../lib/services/session.service';
+import { AccountDeletionService } from '../../../lib/services/account-deletion.service';
+import { DataExportService } from '../../../lib/services/data-export.service';
+import { UsageStatsService } from '../../../lib/services/usage-stats.service';
+import { EmailVerificationService } from '../../../lib/services/email-verification.service';
+import { PasswordUtils } from '../../../lib/auth/password';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  DATASET_ERROR_MESSAGES,
+  EMAIL_CONFIG,
+  ERROR_MESSAGES,
+  PASSWORD_CONFIG,
+  PROFILE_CONFIG,
+  RATE_LIMITS,
+} from '../../../lib/auth/constants';
+import { getDataScope, type DepartmentAccess } from '../../../lib/auth/data-scope';
+import type { AuthenticatedContext } from '../middleware/auth';
+import { getRequestMetadata } from '../middleware/request-metadata';
+import { enforceRateLimit } from '../middleware/rate-limit';
+import { clearAuthCookies } from '../middleware/auth-cookies';
+
+/**
+ * Whether the runtime knows an IANA time zone name such as Asia/Taipei
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Optional text field where an empty string clears the stored value
+const clearableText = (maxLength: number) =>
+  z.string().trim().max(maxLength).transform((value) => value || null);
 
 // Input validation schemas
 const updateProfileSchema = z.object({
-  email: z.string().email().optional(),
-  // Add other profile fields as needed
+  email: z
+    .string()
+    .trim()
+    .email(ERROR_MESSAGES.INVALID_EMAIL)
+    .max(EMAIL_CONFIG.MAX_LENGTH, ERROR_MESSAGES.EMAIL_TOO_LONG)
+    .toLowerCase()
+    .optional(),
+  // Required along with a new email address
+  currentPassword: z.string().optional(),
+  displayNameZh: clearableText(PROFILE_CONFIG.DISPLAY_NAME_MAX_LENGTH).optional(),
+  displayNameEn: clearableText(PROFILE_CONFIG.DISPLAY_NAME_MAX_LENGTH).optional(),
+  employeeId: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .max(PROFILE_CONFIG.EMPLOYEE_ID_MAX_LENGTH)
+    .regex(/^[A-Z0-9-]*$/, 'Employee ID may only contain letters, digits and hyphens')
+    .transform((value) => value || null)
+    .optional(),
+  phone: z
+    .string()
+    .trim()
+    .max(PROFILE_CONFIG.PHONE_MAX_LENGTH)
+    .regex(/^(\+?[0-9][0-9 ()-]*)?$/, ERROR_MESSAGES.INVALID_PHONE)
+    .transform((value) => value || null)
+    .optional(),
+  locale: z.enum(PROFILE_CONFIG.LOCALES).optional(),
+  timezone: z.string().refine(isValidTimeZone, ERROR_MESSAGES.INVALID_TIMEZONE).optional(),
+  defaultDatasetId: z.string().min(1).nullable().optional(),
+});
+
+// Profile fields whose changes are audited as PROFILE_UPDATED; email has its own event
+const PROFILE_FIELDS = [
+  'displayNameZh',
+  'displayNameEn',
+  'employeeId',
+  'phone',
+  'locale',
+  'timezone',
+  'defaultDatasetId',
+] as const;
+
+const profileSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  role: z.string(),
+  displayNameZh: z.string().nullable(),
+  displayNameEn: z.string().nullable(),
+  employeeId: z.string().nullable(),
+  phone: z.string().nullable(),
+  locale: z.string(),
+  timezone: z.string(),
+  defaultDatasetId: z.string().nullable(),
+  departments: z.array(z.object({
+    departmentId: z.string(),
+    code: z.string(),
+    role: z.string(),
+  })),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const getProfileOutputSchema = z.object({
+  success: z.boolean(),
+  user: profileSchema,
+});
+
+const updateProfileOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  user: profileSchema,
+});
+
+const getStatsOutputSchema = z.object({
+  success: z.boolean(),
+  stats: z.object({
+    userId: z.string(),
+    memberSince: z.date(),
+    lastLoginAt: z.date().nullable(),
+    previousLoginAt: z.date().nullable(),
+    loginCount: z.number(),
+    datasetsCount: z.number(),
+    filesCount: z.number(),
+    queriesCount: z.number(),
+    tokensUsed: z.number(),
+    activity: z.array(z.object({
+      date: z.string(),
+      queries: z.number(),
+      tokens: z.number(),
+    })),
+  }),
+});
+
+const changePasswordInputSchema = z.object({
+  currentPassword: z
+    .string()
+    .min(1, ERROR_MESSAGES.PASSWORD_REQUIRED),
+  newPassword: z
+    .string()
+    .min(PASSWORD_CONFIG.MIN_LENGTH, ERROR_MESSAGES.PASSWORD_TOO_SHORT)
+    .max(PASSWORD_CONFIG.MAX_LENGTH, ERROR_MESSAGES.PASSWORD_TOO_LONG),
+});
+
+const changePasswordOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+const sessionOutputSchema = z.object({
+  id: z.string(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.date(),
+  lastSeenAt: z.date(),
+  // The session making this request
+  current: z.boolean(),
+});
+
+const revokeSessionInputSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
+const revokeSessionOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+const loginHistoryOutputSchema = z.array(z.object({
+  id: z.string(),
+  action: z.string(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  createdAt: z.date(),
+}));
+
+const deleteAccountOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  // Until then an administrator can restore the account
+  purgeAfter: z.date(),
 });
 
+const exportMyDataInputSchema = z.object({
+  format: z.enum(['json', 'zip']).default('json'),
+});
+
+const exportMyDataOutputSchema = z.object({
+  filename: z.string(),
+  mimeType: z.string(),
+  // JSON text, or the ZIP archive encoded as base64
+  content: z.string(),
+  encoding: z.enum(['utf8', 'base64']),
+});
+
+function toProfileOutput(
+  user: AuthenticatedContext['user'],
+  departments: DepartmentAccess[]
+): z.infer<typeof profileSchema> {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    displayNameZh: user.displayNameZh,
+    displayNameEn: user.displayNameEn,
+    employeeId: user.employeeId,
+    phone: user.phone,
+    locale: user.locale,
+    timezone: user.timezone,
+    defaultDatasetId: user.defaultDatasetId,
+    departments: departments.map((department) => ({
+      departmentId: department.departmentId,
+      code: department.code,
+      role: department.role,
+    })),
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
 export const userRouter = createTRPCRouter({
+  apiKeys: apiKeysRouter,
+
   /**
-   * Get current user profile
+   * Get current user profile, including the departments the user belongs to
    * Protected endpoint that requires authentication
    */
   getProfile: protectedProcedure
+    .output(getProfileOutputSchema)
     .query(async ({ ctx }) => {
       // User is automatically available from auth middleware
-      const { user } = ctx.auth;
-      
+      const { user, departments } = ctx.auth;
+
       return {
         success: true,
-        user: {
-          id: user.id,
-          email: user.email,
-          createdAt: user.createdAt,
-          updatedAt: user.updatedAt,
-        },
+        user: toProfileOutput(user, departments),
       };
     }),
 
   /**
    * Update current user profile
-   * Protected endpoint that requires authentication
+   * Only the fields present in the input change; empty strings clear optional fields
    */
-  updateProfile: protectedProcedure
+  updateProfile: sessionProcedure
     .input(updateProfileSchema)
+    .output(updateProfileOutputSchema)
     .mutation(async ({ ctx, input }) => {
-      const { userId } = ctx.auth;
-      
+      const { userId, user, departments } = ctx.auth;
+      const { email, currentPassword, ...profile } = input;
+      const isEmailChange = email !== undefined && email !== user.email;
+
       try {
-        // Check if email is being updated and if it's already taken
-        if (input.email) {
-          const existingUser = await userRepository.findByEmail(input.email);
+        // A new address needs the password, and only takes effect once confirmed from that address
+        if (isEmailChange) {
+          await enforceRateLimit(ctx.req, ctx.resHeaders, RATE_LIMITS.CHANGE_EMAIL);
+
+          if (!currentPassword) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: ERROR_MESSAGES.EMAIL_CHANGE_PASSWORD_REQUIRED,
+            });
+          }
+
+          // The auth context leaves out the password hash
+          const account = await userRepository.findById(userId);
+          if (!account || !(await PasswordUtils.verify(currentPassword, account.passwordHash))) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT,
+            });
+          }
+
+          const existingUser = await userRepository.findByEmail(email);
           if (existingUser && existingUser.id !== userId) {
             throw new TRPCError({
               code: 'CONFLICT',
-              message: 'Email address is already in use',
+              message: ERROR_MESSAGES.EMAIL_IN_USE,
+            });
+          }
+        }
+
+        // The default dataset must be one the user can query
+        if (input.defaultDatasetId && input.defaultDatasetId !== user.defaultDatasetId) {
+          const dataset = await datasetRepository.findById(input.defaultDatasetId, getDataScope(ctx.auth));
+          if (!dataset) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: DATASET_ERROR_MESSAGES.NOT_FOUND,
             });
           }
         }
 
-        // Update user profile
-        const updatedUser = await userRepository.update(userId, {
-          ...(input.email && { email: input.email }),
-          updatedAt: new Date(),
+        const updatedUser = await userRepository.update(userId, profile);
+
+        if (isEmailChange) {
+          await EmailVerificationService.requestEmailChange(updatedUser, email);
+
+          await AuditService.record({
+            action: AUDIT_ACTIONS.EMAIL_CHANGE_REQUESTED,
+            actor: updatedUser,
+            targetType: AUDIT_TARGET_TYPES.USER,
+            targetId: userId,
+            ...getRequestMetadata(ctx.req),
+            metadata: { newEmail: email },
+          });
+        }
+
+        const changedFields = PROFILE_FIELDS.filter((field) => updatedUser[field] !== user[field]);
+        if (changedFields.length > 0) {
+          await AuditService.record({
+            action: AUDIT_ACTIONS.PROFILE_UPDATED,
+            actor: updatedUser,
+            targetType: AUDIT_TARGET_TYPES.USER,
+            targetId: userId,
+            ...getRequestMetadata(ctx.req),
+            metadata: { fields: changedFields },
+          });
+        }
+
+        return {
+          success: true,
+          message: isEmailChange ? ERROR_MESSAGES.EMAIL_CHANGE_REQUESTED : ERROR_MESSAGES.PROFILE_UPDATED,
+          user: toProfileOutput(updatedUser, departments),
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) {
+          throw error;
+        }
+
+        // Lost a race with another account taking the same email or employee ID
+        if (error instanceof Error && error.message === ERROR_MESSAGES.EMPLOYEE_ID_IN_USE) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: ERROR_MESSAGES.EMPLOYEE_ID_IN_USE,
+          });
+        }
+
+        if (error instanceof Error && error.message === ERROR_MESSAGES.USER_EXISTS) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: ERROR_MESSAGES.EMAIL_IN_USE,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.PROFILE_ERROR,
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Change the signed-in user's password
+   * Checks the current password and the password policy, including reuse of recent passwords,
+   * then signs out every other session. Also the way out of a forced change after expiry
+   */
+  changePassword: sessionProcedure
+    .use(rateLimit(RATE_LIMITS.CHANGE_PASSWORD))
+    .input(changePasswordInputSchema)
+    .output(changePasswordOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { userId, sessionId } = ctx.auth;
+
+      const passwordValidation = PasswordUtils.validatePasswordStrength(input.newPassword);
+      if (!passwordValidation.isValid) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: ERROR_MESSAGES.PASSWORD_STRENGTH_ERROR,
+          cause: passwordValidation.errors,
         });
+      }
 
-        if (!updatedUser) {
+      try {
+        // The auth context leaves out the password hash
+        const user = await userRepository.findById(userId);
+        if (!user) {
           throw new TRPCError({
             code: 'NOT_FOUND',
             message: 'User not found',
           });
         }
 
+        await PasswordService.changePassword(user, input.currentPassword, input.newPassword, sessionId);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.PASSWORD_CHANGED,
+          actor: user,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: userId,
+          ...getRequestMetadata(ctx.req),
+        });
+
         return {
           success: true,
-          message: 'Profile updated successfully',
-          user: {
-            id: updatedUser.id,
-            email: updatedUser.email,
-            createdAt: updatedUser.createdAt,
-            updatedAt: updatedUser.updatedAt,
-          },
+          message: ERROR_MESSAGES.PASSWORD_CHANGED,
         };
       } catch (error) {
         if (error instanceof TRPCError) {
           throw error;
         }
-        
+
+        if (error instanceof Error && error.message === ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT,
+          });
+        }
+
+        if (error instanceof Error && error.message === ERROR_MESSAGES.PASSWORD_REUSED) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: ERROR_MESSAGES.PASSWORD_REUSED,
+          });
+        }
+
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to update profile',
+          message: ERROR_MESSAGES.PASSWORD_CHANGE_ERROR,
+          cause: error,
         });
       }
     }),
 
   /**
-   * Delete current user account
-   * Protected endpoint that requires authentication
+   * Devices the user is signed in on, most recently used first
    */
-  deleteAccount: protectedProcedure
-    .mutation(async ({ ctx }) => {
-      const { userId } = ctx.auth;
-      
+  sessions: sessionProcedure
+    .output(z.array(sessionOutputSchema))
+    .query(async ({ ctx }) => {
+      try {
+        const sessions = await SessionService.listActiveSessions(ctx.auth.userId);
+
+        return sessions.map((session) => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastSeenAt: session.lastSeenAt,
+          current: session.id === ctx.auth.sessionId,
+        }));
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to list sessions',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Sign out one of the user's other devices
+   * The current session ends through auth.logout instead, which also clears the cookies
+   */
+  revokeSession: sessionProcedure
+    .input(revokeSessionInputSchema)
+    .output(revokeSessionOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { userId, user, sessionId } = ctx.auth;
+
       try {
-        const deletedUser = await userRepository.delete(userId);
-        
-        if (!deletedUser) {
+        await SessionService.revokeUserSession(userId, input.sessionId, sessionId);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.SESSION_REVOKED,
+          actor: user,
+          targetType: AUDIT_TARGET_TYPES.SESSION,
+          targetId: input.sessionId,
+          ...getRequestMetadata(ctx.req),
+        });
+
+        return {
+          success: true,
+          message: 'Session revoked',
+        };
+      } catch (error) {
+        if (error instanceof Error && error.message === SESSION_ERROR_MESSAGES.SESSION_NOT_FOUND) {
           throw new TRPCError({
             code: 'NOT_FOUND',
-            message: 'User not found',
+            message: SESSION_ERROR_MESSAGES.SESSION_NOT_FOUND,
           });
         }
 
+        if (error instanceof Error && error.message === SESSION_ERROR_MESSAGES.CANNOT_REVOKE_CURRENT_SESSION) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: SESSION_ERROR_MESSAGES.CANNOT_REVOKE_CURRENT_SESSION,
+          });
+        }
+
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to revoke session',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Recent sign-ins, failed attempts and sign-outs on the user's account, from the audit log
+   */
+  loginHistory: sessionProcedure
+    .output(loginHistoryOutputSchema)
+    .query(async ({ ctx }) => {
+      try {
+        const events = await AuditService.listLoginHistory(ctx.auth.userId);
+
+        return events.map((event) => ({
+          id: event.id,
+          action: event.action,
+          ipAddress: event.ipAddress,
+          userAgent: event.userAgent,
+          createdAt: event.createdAt,
+        }));
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to load login history',
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Delete current user account
+   * The account is disabled and signed out straight away but only purged after the grace period,
+   * so an administrator can still restore it
+   */
+  deleteAccount: sessionProcedure
+    .output(deleteAccountOutputSchema)
+    .mutation(async ({ ctx }) => {
+      const { userId, user } = ctx.auth;
+
+      try {
+        const { purgeAfter } = await AccountDeletionService.scheduleDeletion(userId);
+        clearAuthCookies(ctx.resHeaders);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.ACCOUNT_DELETED,
+          actor: user,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: userId,
+          ...getRequestMetadata(ctx.req),
+          metadata: { purgeAfter: purgeAfter.toISOString() },
+        });
+
         return {
           success: true,
-          message: 'Account deleted successfully',
+          message: ERROR_MESSAGES.ACCOUNT_DELETION_SCHEDULED,
+          purgeAfter,
         };
       } catch (error) {
-        if (error instanceof TRPCError) {
-          throw error;
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.ACCOUNT_DELETION_ERROR,
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Download everything stored about the current user, as one JSON document or a ZIP of JSON files
+   * Exports are audited, since they take personal data out of the platform
+   */
+  exportMyData: sessionProcedure
+    .input(exportMyDataInputSchema)
+    .output(exportMyDataOutputSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const data = await DataExportService.collect(ctx.auth.userId);
+
+        await AuditService.record({
+          action: AUDIT_ACTIONS.DATA_EXPORTED,
+          actor: ctx.auth.user,
+          targetType: AUDIT_TARGET_TYPES.USER,
+          targetId: ctx.auth.userId,
+          ...getRequestMetadata(ctx.req),
+          metadata: { format: input.format },
+        });
+
+        const basename = `my-data-${data.exportedAt.slice(0, 10)}`;
+
+        if (input.format === 'zip') {
+          return {
+            filename: `${basename}.zip`,
+            mimeType: 'application/zip',
+            content: Buffer.from(DataExportService.toZip(data)).toString('base64'),
+            encoding: 'base64' as const,
+          };
         }
-        
+
+        return {
+          filename: `${basename}.json`,
+          mimeType: 'application/json',
+          content: DataExportService.toJson(data),
+          encoding: 'utf8' as const,
+        };
+      } catch (error) {
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
-          message: 'Failed to delete account',
+          message: ERROR_MESSAGES.DATA_EXPORT_ERROR,
+          cause: error,
         });
       }
     }),
 
   /**
-   * Get user statistics (example of another protected endpoint)
-   * Protected endpoint that requires authentication
+   * Get the current user's sign-in history, usage totals and daily activity
+   * Days are calendar days in the user's own time zone
    */
   getStats: protectedProcedure
+    .output(getStatsOutputSchema)
     .query(async ({ ctx }) => {
-      const { user } = ctx.auth;
-      
-      // This is a simple example - in a real app you might aggregate data from multiple sources
-      return {
-        success: true,
-        stats: {
-          userId: user.id,
-          memberSince: user.createdAt,
-          lastLogin: new Date(), // Would be tracked in a real app
-          // Add other stats as needed
-          datasetsCount: 0, // Placeholder - would query actual datasets
-          queriesCount: 0,  // Placeholder - would query actual queries
-        },
-      };
+      try {
+        return {
+          success: true,
+          stats: await UsageStatsService.getUserStats(ctx.auth.user),
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: ERROR_MESSAGES.STATS_ERROR,
+          cause: error,
+        });
+      }
     }),
 
   /**
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import {
+  createTRPCRouter,
+  adminProcedure,
+  adminSessionProcedure,
+  protectedProcedure,
+  requirePermission,
+} from './trpc';
+import { createAuthenticatedContext } from './middleware/auth';
+import { PERMISSIONS } from '../../lib/auth/permissions';
+import { AUTH_ERROR_CODES } from '../../lib/auth/constants';
+import { buildAuthContext } from '../../test/factories';
+
+// Mock the authentication middleware
+vi.mock('./middleware/auth', () => ({
+  createAuthenticatedContext: vi.fn(),
+}));
+
+describe('tRPC Authorization Procedures', () => {
+  const testRouter = createTRPCRouter({
+    adminOnly: adminProcedure.query(({ ctx }) => ctx.auth.userId),
+    adminSessionOnly: adminSessionProcedure.mutation(({ ctx }) => ctx.auth.sessionId),
+    priceData: requirePermission(PERMISSIONS.PRICES_READ).query(() => 'prices'),
+    manageEstimates: requirePermission(PERMISSIONS.PRICES_READ, PERMISSIONS.ESTIMATES_WRITE)
+      .mutation(() => 'saved'),
+    user: createTRPCRouter({
+      changePassword: protectedProcedure.mutation(() => 'changed'),
+    }),
+  });
+
+  const createCaller = () => testRouter.createCaller({ req: undefined, resHeaders: undefined });
+
+  const expectForbidden = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+      expect.fail('Expected procedure to be forbidden');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TRPCError);
+      expect((error as TRPCError).code).toBe('FORBIDDEN');
+    }
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('adminProcedure', () => {
+    it('should allow administrators', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'ADMIN' }));
+
+      await expect(createCaller().adminOnly()).resolves.toBe('user-123');
+    });
+
+    it('should reject other roles', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'ESTIMATOR' }));
+
+      await expectForbidden(createCaller().adminOnly());
+    });
+
+    it('should reject unauthenticated requests', async () => {
+      vi.mocked(createAuthenticatedContext).mockRejectedValue(
+        new TRPCError({ code: 'UNAUTHORIZED', message: 'Authorization header is required' })
+      );
+
+      await expect(createCaller().adminOnly()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+  });
+
+  describe('adminSessionProcedure', () => {
+    it('should allow administrators signed in themselves', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'ADMIN' }));
+
+      await expect(createCaller().adminSessionOnly()).resolves.toBe('session-123');
+    });
+
+    it('should reject API keys, impersonation and other roles', async () => {
+      const adminContext = buildAuthContext({ role: 'ADMIN' });
+
+      vi.mocked(createAuthenticatedContext).mockResolvedValue({ ...adminContext, sessionId: null, apiKeyId: 'key-1' });
+      await expectForbidden(createCaller().adminSessionOnly());
+
+      vi.mocked(createAuthenticatedContext).mockResolvedValue({ ...adminContext, impersonatorId: 'admin-2' });
+      await expectForbidden(createCaller().adminSessionOnly());
+
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'ESTIMATOR' }));
+      await expectForbidden(createCaller().adminSessionOnly());
+    });
+  });
+
+  describe('requirePermission', () => {
+    it('should allow roles holding the permission', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'PROCUREMENT' }));
+
+      await expect(createCaller().priceData()).resolves.toBe('prices');
+    });
+
+    it('should reject roles missing the permission', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'VIEWER' }));
+
+      await expectForbidden(createCaller().priceData());
+    });
+
+    it('should require every listed permission', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'PROCUREMENT' }));
+      await expectForbidden(createCaller().manageEstimates());
+
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(buildAuthContext({ role: 'ESTIMATOR' }));
+      await expect(createCaller().manageEstimates()).resolves.toBe('saved');
+    });
+  });
+
+  describe('protectedProcedure', () => {
+    it('should only allow the password change while one is required', async () => {
+      vi.mocked(createAuthenticatedContext).mockResolvedValue(
+        buildAuthContext({ role: 'PROCUREMENT', mustChangePassword: true })
+      );
+
+      await expect(createCaller().priceData()).rejects.toMatchObject({
+        code: 'FORBIDDEN',
+        cause: { code: AUTH_ERROR_CODES.PASSWORD_CHANGE_REQUIRED },
+      });
+      await expect(createCaller().user.changePassword()).resolves.toBe('changed');
+    });
+  });
+});
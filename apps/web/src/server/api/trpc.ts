@@ -1,25 +1,30 @@
 import { initTRPC, TRPCError } from '@trpc/server';
-import { type CreateNextContextOptions } from '@trpc/server/adapters/next';
+import { type FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
 import { ZodError } from 'zod';
 import superjson from 'superjson';
 import { createAuthenticatedContext, type AuthenticatedContext } from './middleware/auth';
+import { enforceRateLimit, type RateLimitOptions } from './middleware/rate-limit';
+import { ROLES, PERMISSIONS, type Permission } from '../../lib/auth/permissions';
+import { API_KEY_ERROR_MESSAGES, AUTH_ERROR_CODES, ERROR_MESSAGES } from '../../lib/auth/constants';
+import { AuthError } from '../../lib/auth/errors';
+import { runAsImpersonator } from '../../lib/auth/impersonation';
 
 interface CreateContextOptions {
-  req?: CreateNextContextOptions['req'];
-  res?: CreateNextContextOptions['res'];
+  req?: Request;
+  resHeaders?: Headers;
 }
 
 const createInnerTRPCContext = (opts: CreateContextOptions) => {
   return {
     req: opts.req,
-    res: opts.res,
+    resHeaders: opts.resHeaders,
   };
 };
 
-export const createTRPCContext = (opts: CreateNextContextOptions) => {
+export const createTRPCContext = (opts: Pick<FetchCreateContextFnOptions, 'req' | 'resHeaders'>) => {
   return createInnerTRPCContext({
     req: opts.req,
-    res: opts.res,
+    resHeaders: opts.resHeaders,
   });
 };
 
@@ -32,6 +37,8 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
         ...shape.data,
         zodError:
           error.cause instanceof ZodError ? error.cause.flatten() : null,
+        authErrorCode:
+          error.cause instanceof AuthError ? error.cause.code : null,
       },
     };
   },
@@ -41,24 +48,134 @@ export const createTRPCRouter = t.router;
 
 export const publicProcedure = t.procedure;
 
+/**
+ * Middleware limiting how often a client IP may call a procedure
+ * Usage: publicProcedure.use(rateLimit(RATE_LIMITS.LOGIN)).mutation(...)
+ */
+export const rateLimit = (options: RateLimitOptions) =>
+  t.middleware(async ({ ctx, next }) => {
+    await enforceRateLimit(ctx.req, ctx.resHeaders, options);
+    return next();
+  });
+
+// Procedures a user who must change their password can still call
+const PASSWORD_CHANGE_EXEMPT_PATHS = new Set([
+  'user.getProfile',
+  'user.changePassword',
+  'auth.logout',
+  'auth.logoutAll',
+]);
+
 /**
  * Protected procedure that requires authentication
  * Automatically adds authenticated user context
+ * Until a required password change is made, only the procedures needed to make it are allowed
  */
-export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
+export const protectedProcedure = t.procedure.use(async ({ ctx, path, next }) => {
   try {
     // Create authenticated context using our middleware
-    const authContext = await createAuthenticatedContext(ctx.req as Request);
+    const authContext = await createAuthenticatedContext(ctx.req);
+
+    if (authContext.user.mustChangePassword && !PASSWORD_CHANGE_EXEMPT_PATHS.has(path)) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: ERROR_MESSAGES.PASSWORD_CHANGE_REQUIRED,
+        cause: new AuthError(AUTH_ERROR_CODES.PASSWORD_CHANGE_REQUIRED, ERROR_MESSAGES.PASSWORD_CHANGE_REQUIRED),
+      });
+    }
     
     // Continue with the authenticated context
-    return next({
+    const proceed = () => next({
       ctx: {
         ...ctx,
         auth: authContext,
       },
     });
+
+    // Everything the procedure audits is tagged with the administrator acting as the user
+    return authContext.impersonatorId
+      ? runAsImpersonator(authContext.impersonatorId, proceed)
+      : proceed();
   } catch (error) {
     // Authentication middleware will throw appropriate tRPC errors
     throw error;
   }
-});
\ No newline at end of file
+});
+
+/**
+ * Protected procedure that refuses API keys and impersonating administrators
+ * For account and credential changes that must come from the user themselves
+ */
+export const sessionProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!ctx.auth.sessionId) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: API_KEY_ERROR_MESSAGES.SESSION_REQUIRED,
+    });
+  }
+  if (ctx.auth.impersonatorId) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: ERROR_MESSAGES.NOT_ALLOWED_WHILE_IMPERSONATING,
+    });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      auth: {
+        ...ctx.auth,
+        sessionId: ctx.auth.sessionId,
+      },
+    },
+  });
+});
+
+/**
+ * Procedure that requires the authenticated user to hold every given permission
+ * Usage: requirePermission(PERMISSIONS.PRICES_READ).query(...)
+ */
+export const requirePermission = (...permissions: Permission[]) =>
+  protectedProcedure.use(({ ctx, next }) => {
+    const missingPermissions = permissions.filter(
+      (permission) => !ctx.auth.permissions.includes(permission)
+    );
+
+    if (missingPermissions.length > 0) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `Missing required permission: ${missingPermissions.join(', ')}`,
+      });
+    }
+
+    return next();
+  });
+
+function assertAdministrator(auth: AuthenticatedContext): void {
+  if (auth.role !== ROLES.ADMIN || !auth.permissions.includes(PERMISSIONS.USERS_MANAGE)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Administrator access required',
+    });
+  }
+}
+
+/**
+ * Procedure restricted to administrators
+ * API keys of administrators also need the users:manage scope
+ */
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  assertAdministrator(ctx.auth);
+
+  return next();
+});
+
+/**
+ * Procedure restricted to administrators signed in themselves, refusing API keys and impersonation
+ * For changes to other accounts' credentials, roles and status, and to the token signing keys
+ */
+export const adminSessionProcedure = sessionProcedure.use(({ ctx, next }) => {
+  assertAdministrator(ctx.auth);
+
+  return next();
+});
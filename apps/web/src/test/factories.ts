@@ -0,0 +1,82 @@
+import type { User } from '@prisma/client';
+import type { AuthenticatedContext } from '../server/api/middleware/auth';
+import type { DatasetWithFileCount } from '../lib/repositories/dataset.repository';
+import { getRolePermissions } from '../lib/auth/permissions';
+
+/**
+ * Build a complete User record for tests that mock the repositories
+ * Keeps fixtures compiling as columns are added to the User model
+ */
+export function buildUser(overrides: Partial<User> = {}): User {
+  return {
+    id: 'user-123',
+    email: 'test@example.com',
+    passwordHash: 'hashed-password',
+    role: 'VIEWER',
+    isActive: true,
+    mustChangePassword: false,
+    passwordChangedAt: null,
+    emailVerifiedAt: new Date('2025-01-01'),
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+    totpSecret: null,
+    totpEnabledAt: null,
+    totpLastUsedStep: null,
+    lastLoginAt: null,
+    previousLoginAt: null,
+    loginCount: 0,
+    deletedAt: null,
+    activeBeforeDeletion: null,
+    purgedAt: null,
+    displayNameZh: null,
+    displayNameEn: null,
+    employeeId: null,
+    phone: null,
+    locale: 'zh-TW',
+    timezone: 'Asia/Taipei',
+    defaultDatasetId: null,
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    ...overrides,
+  };
+}
+
+/**
+ * Build the authenticated context that protected procedures receive
+ */
+export function buildAuthContext(userOverrides: Partial<User> = {}): AuthenticatedContext {
+  const user: Omit<User, 'passwordHash'> & { passwordHash?: string | null } = buildUser(userOverrides);
+  delete user.passwordHash;
+
+  return {
+    user,
+    userId: user.id,
+    sessionId: 'session-123',
+    apiKeyId: null,
+    impersonatorId: null,
+    role: user.role,
+    permissions: getRolePermissions(user.role),
+    departments: [],
+    departmentIds: [],
+  };
+}
+
+/**
+ * Build a dataset as returned by DatasetRepository, owned by the default test user
+ */
+export function buildDataset(overrides: Partial<DatasetWithFileCount> = {}): DatasetWithFileCount {
+  return {
+    id: 'dataset-123',
+    name: '鋼材報價',
+    description: null,
+    ownerId: 'user-123',
+    departmentId: null,
+    visibility: 'PRIVATE',
+    tags: [],
+    status: 'EMPTY',
+    createdAt: new Date('2025-01-01'),
+    updatedAt: new Date('2025-01-01'),
+    _count: { files: 0 },
+    ...overrides,
+  };
+}
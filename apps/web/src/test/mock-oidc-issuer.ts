@@ -0,0 +1,198 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Minimal OpenID Connect provider for tests, listening on a random local port
+ * Serves discovery, a JWKS, an /authorize endpoint that signs the configured user in
+ * without any UI, and a /token endpoint that checks the client, redirect URI and PKCE verifier
+ */
+
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  user: MockOidcUser;
+}
+
+export interface MockOidcIssuer {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /** The user signed in by the next /authorize request */
+  setUser(user: MockOidcUser): void;
+  /** Claims merged into the next ID token, to test how bad tokens are handled */
+  overrideNextIdToken(claims: Record<string, unknown>): void;
+  /** Requests received by /token, for assertions on client authentication */
+  tokenRequests: { authorization: string | null; body: URLSearchParams }[];
+  /**
+   * Open an authorization URL as a browser would, without following the redirect back
+   * @returns URL - The callback URL carrying the code and state
+   */
+  authorize(authorizationUrl: string): Promise<URL>;
+  close(): Promise<void>;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export async function startMockOidcIssuer(
+  options: { clientId?: string; clientSecret?: string } = {}
+): Promise<MockOidcIssuer> {
+  const clientId = options.clientId ?? 'test-client';
+  const clientSecret = options.clientSecret ?? 'test-client-secret';
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomBytes(8).toString('hex');
+  const codes = new Map<string, PendingCode>();
+  const tokenRequests: MockOidcIssuer['tokenRequests'] = [];
+
+  let user: MockOidcUser = { sub: 'mock-user', email: 'sso.user@example.com', email_verified: true };
+  let nextOverrides: Record<string, unknown> = {};
+  let issuer = '';
+
+  const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = new URLSearchParams(await readBody(req));
+    const authorization = req.headers.authorization ?? null;
+    tokenRequests.push({ authorization, body });
+
+    const [basicId, basicSecret] = authorization?.startsWith('Basic ')
+      ? Buffer.from(authorization.slice(6), 'base64').toString('utf8').split(':').map(decodeURIComponent)
+      : [body.get('client_id'), null];
+    if (basicId !== clientId || (authorization && basicSecret !== clientSecret)) {
+      return sendJSON(res, 401, { error: 'invalid_client' });
+    }
+
+    const pending = codes.get(body.get('code') ?? '');
+    codes.delete(body.get('code') ?? '');
+    const verifier = body.get('code_verifier') ?? '';
+    if (
+      body.get('grant_type') !== 'authorization_code' ||
+      !pending ||
+      pending.clientId !== basicId ||
+      pending.redirectUri !== body.get('redirect_uri') ||
+      createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge
+    ) {
+      return sendJSON(res, 400, { error: 'invalid_grant' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = jwt.sign(
+      {
+        iss: issuer,
+        aud: clientId,
+        iat: now,
+        exp: now + 300,
+        ...pending.user,
+        ...(pending.nonce && { nonce: pending.nonce }),
+        ...nextOverrides,
+      },
+      privateKey,
+      { algorithm: 'RS256', keyid: kid }
+    );
+    nextOverrides = {};
+
+    return sendJSON(res, 200, { access_token: 'opaque', token_type: 'Bearer', expires_in: 300, id_token: idToken });
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', issuer);
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJSON(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      // Published without alg, as some providers do; the relying party infers it from kty
+      return sendJSON(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig' }] });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      const redirectUri = url.searchParams.get('redirect_uri');
+      if (
+        url.searchParams.get('client_id') !== clientId ||
+        url.searchParams.get('response_type') !== 'code' ||
+        url.searchParams.get('code_challenge_method') !== 'S256' ||
+        !redirectUri
+      ) {
+        return sendJSON(res, 400, { error: 'invalid_request' });
+      }
+
+      const code = randomBytes(16).toString('hex');
+      codes.set(code, {
+        clientId,
+        redirectUri,
+        codeChallenge: url.searchParams.get('code_challenge') ?? '',
+        nonce: url.searchParams.get('nonce'),
+        user,
+      });
+
+      const callback = new URL(redirectUri);
+      callback.searchParams.set('code', code);
+      callback.searchParams.set('state', url.searchParams.get('state') ?? '');
+      res.writeHead(302, { location: callback.toString() });
+      return res.end();
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      handleToken(req, res).catch(() => sendJSON(res, 500, { error: 'server_error' }));
+      return;
+    }
+
+    sendJSON(res, 404, { error: 'not_found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    tokenRequests,
+    setUser(next) {
+      user = next;
+    },
+    overrideNextIdToken(claims) {
+      nextOverrides = claims;
+    },
+    async authorize(authorizationUrl) {
+      const response = await fetch(authorizationUrl, { redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status !== 302 || !location) {
+        throw new Error(`Mock issuer refused the authorization request: ${await response.text()}`);
+      }
+      return new URL(location);
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}